@@ -29,6 +29,10 @@ try {
 }
 
 const result = await createCLI({
+  completion: true,
+  config: {
+    files: ["rse.config.json", "rse.config.jsonc"],
+  },
   entry: import.meta.url,
   meta: {
     description: "Reliverse developer CLI that aggregates Rempts plugins",
@@ -49,6 +53,7 @@ const result = await createCLI({
     format: "auto",
   },
   interactionMode: "never",
+  mcp: true,
   plugins: {
     allowedPatterns: ["@reliverse/*-rse-plugin"],
     conflictPriority: ["@reliverse/*-rse-plugin"],
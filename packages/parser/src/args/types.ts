@@ -0,0 +1,65 @@
+import type { StandardSchemaV1 } from "../types/standard-schema";
+
+export type CommandArgType = "number" | "string";
+
+export type PrimitiveArgValue<TType extends CommandArgType> = TType extends "number"
+  ? number
+  : string;
+
+export interface CommandArgDefinition {
+  readonly type: CommandArgType;
+  readonly description?: string | undefined;
+  readonly required?: boolean | undefined;
+  /** Collects every remaining positional. Only the last declared argument may be variadic. */
+  readonly variadic?: boolean | undefined;
+  /**
+   * Allowed values for string arguments. Declare the definition `as const` so the literal union
+   * flows into `CommandArgsOutput`.
+   */
+  readonly choices?: ReadonlyArray<string> | undefined;
+  readonly defaultValue?: number | string | ReadonlyArray<number | string> | undefined;
+  readonly schema?: StandardSchemaV1 | undefined;
+}
+
+/** Positional arguments in declaration order: argv positionals are assigned to keys in order. */
+export type CommandArgsRecord = Readonly<Record<string, CommandArgDefinition>>;
+
+export type EmptyCommandArgs = Readonly<Record<never, never>>;
+
+type InferArgElementValue<TDefinition extends CommandArgDefinition> = TDefinition extends {
+  readonly choices: ReadonlyArray<infer TChoice extends string>;
+}
+  ? TChoice
+  : PrimitiveArgValue<TDefinition["type"]>;
+
+type InferArgValue<TDefinition extends CommandArgDefinition> = TDefinition extends {
+  readonly schema: infer TSchema extends StandardSchemaV1;
+}
+  ? StandardSchemaV1.InferOutput<TSchema>
+  : TDefinition extends { readonly variadic: true }
+    ? ReadonlyArray<InferArgElementValue<TDefinition>>
+    : InferArgElementValue<TDefinition>;
+
+type RequiredArgKeys<TArgs extends CommandArgsRecord> = {
+  [TKey in keyof TArgs]-?: TArgs[TKey] extends { readonly required: true }
+    ? TKey
+    : TArgs[TKey] extends { readonly variadic: true }
+      ? TKey
+      : TArgs[TKey] extends {
+            readonly defaultValue: NonNullable<CommandArgDefinition["defaultValue"]>;
+          }
+        ? TKey
+        : never;
+}[keyof TArgs];
+
+type OptionalArgKeys<TArgs extends CommandArgsRecord> = Exclude<
+  keyof TArgs,
+  RequiredArgKeys<TArgs>
+>;
+
+/** Variadic arguments are always present and default to an empty list. */
+export type CommandArgsOutput<TArgs extends CommandArgsRecord> = {
+  readonly [TKey in RequiredArgKeys<TArgs>]: InferArgValue<TArgs[TKey]>;
+} & {
+  readonly [TKey in OptionalArgKeys<TArgs>]?: InferArgValue<TArgs[TKey]>;
+};
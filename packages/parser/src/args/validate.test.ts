@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParserUsageError, ParserValidationError } from "../runtime/errors";
+import type { StandardSchemaV1 } from "../types/standard-schema";
+import { validateParsedArgs } from "./validate";
+
+const semverSchema: StandardSchemaV1<string, string> = {
+  "~standard": {
+    validate(value) {
+      return typeof value === "string" && /^\d+\.\d+\.\d+$/.test(value)
+        ? { value }
+        : { issues: [{ message: "Expected a semver version." }] };
+    },
+    vendor: "test",
+    version: 1,
+  },
+};
+
+describe("validateParsedArgs", () => {
+  test("assigns positionals in declaration order with coercion, defaults, and variadics", async () => {
+    const definitions = {
+      mode: { type: "string", choices: ["pack", "unpack"], required: true },
+      level: { type: "number", defaultValue: 1 },
+      inputs: { type: "string", variadic: true },
+    } as const;
+
+    const parsed = await validateParsedArgs(definitions, ["unpack", "3", "a.zip", "b.zip"]);
+    const mode: "pack" | "unpack" = parsed.mode;
+    const inputs: readonly string[] = parsed.inputs;
+
+    expect(mode).toBe("unpack");
+    expect(parsed.level).toBe(3);
+    expect(inputs).toEqual(["a.zip", "b.zip"]);
+
+    await expect(validateParsedArgs(definitions, ["pack"])).resolves.toEqual({
+      inputs: [],
+      level: 1,
+      mode: "pack",
+    });
+  });
+
+  test("reports missing, mistyped, and out-of-choice positionals as validation issues", async () => {
+    const definitions = {
+      mode: { type: "string", choices: ["pack", "unpack"], required: true },
+      level: { type: "number" },
+    } as const;
+
+    await expect(validateParsedArgs(definitions, [])).rejects.toMatchObject({
+      issues: [
+        { flagName: "<mode>", message: 'Missing required argument "mode".', optionName: "mode" },
+      ],
+    });
+
+    await expect(validateParsedArgs(definitions, ["zip", "high"])).rejects.toMatchObject({
+      issues: [
+        {
+          flagName: "<mode>",
+          message: 'Argument "mode" expected one of "pack", "unpack", received "zip".',
+        },
+        {
+          flagName: "<level>",
+          message: 'Argument "level" expected a finite number value, received "high".',
+        },
+      ],
+    });
+  });
+
+  test("runs Standard Schema validation on positional values", async () => {
+    const definitions = { version: { type: "string", schema: semverSchema } } as const;
+
+    await expect(validateParsedArgs(definitions, ["1.2.3"])).resolves.toEqual({
+      version: "1.2.3",
+    });
+    await expect(validateParsedArgs(definitions, ["latest"])).rejects.toThrow(
+      ParserValidationError,
+    );
+  });
+
+  test("rejects unexpected positionals and invalid argument declarations", async () => {
+    await expect(
+      validateParsedArgs({ target: { type: "string" } } as const, ["a", "b"]),
+    ).rejects.toThrow('Unexpected argument "b".');
+
+    await expect(
+      validateParsedArgs(
+        { files: { type: "string", variadic: true }, target: { type: "string" } } as const,
+        [],
+      ),
+    ).rejects.toThrow(ParserUsageError);
+
+    await expect(
+      validateParsedArgs(
+        { source: { type: "string" }, target: { type: "string", required: true } } as const,
+        ["a", "b"],
+      ),
+    ).rejects.toThrow('Required argument "target" cannot follow optional argument "source".');
+  });
+});
@@ -0,0 +1,210 @@
+import type { NormalizedOptionIssue } from "../options/types";
+import { formatChoices, validateWithStandardSchema } from "../options/validate";
+import { ParserUsageError, ParserValidationError } from "../runtime/errors";
+import type { CommandArgDefinition, CommandArgsOutput, CommandArgsRecord } from "./types";
+
+export function formatArgLabel(argName: string, definition: CommandArgDefinition): string {
+  return definition.variadic ? `<${argName}...>` : `<${argName}>`;
+}
+
+function assertValidArgDefinitions(argDefinitions: CommandArgsRecord): void {
+  const entries = Object.entries(argDefinitions);
+  let optionalArgName: string | undefined;
+
+  for (const [index, [argName, definition]] of entries.entries()) {
+    if (definition.variadic && index !== entries.length - 1) {
+      throw new ParserUsageError(
+        `Argument "${argName}" is variadic but is not the last declared argument.`,
+      );
+    }
+
+    if (definition.required && !definition.variadic && optionalArgName) {
+      throw new ParserUsageError(
+        `Required argument "${argName}" cannot follow optional argument "${optionalArgName}".`,
+      );
+    }
+
+    if (!definition.required && definition.defaultValue === undefined) {
+      optionalArgName ??= argName;
+    }
+  }
+}
+
+function coerceArgValue(
+  argName: string,
+  flagName: string,
+  definition: CommandArgDefinition,
+  rawValue: string,
+): { readonly issue?: NormalizedOptionIssue; readonly value: unknown } {
+  if (definition.type !== "number") {
+    return { value: rawValue };
+  }
+
+  const parsed = rawValue.trim().length === 0 ? Number.NaN : Number(rawValue);
+
+  return Number.isFinite(parsed)
+    ? { value: parsed }
+    : {
+        issue: {
+          flagName,
+          message: `Argument "${argName}" expected a finite number value, received "${rawValue}".`,
+          optionName: argName,
+        },
+        value: rawValue,
+      };
+}
+
+function validateArgElement(
+  argName: string,
+  flagName: string,
+  definition: CommandArgDefinition,
+  value: unknown,
+): NormalizedOptionIssue | null {
+  if (definition.type === "number") {
+    return typeof value === "number" && Number.isFinite(value)
+      ? null
+      : {
+          flagName,
+          message: `Argument "${argName}" expected a finite number value.`,
+          optionName: argName,
+        };
+  }
+
+  if (typeof value !== "string") {
+    return {
+      flagName,
+      message: `Argument "${argName}" expected a string value.`,
+      optionName: argName,
+    };
+  }
+
+  if (definition.choices && !definition.choices.includes(value)) {
+    return {
+      flagName,
+      message: `Argument "${argName}" expected one of ${formatChoices(definition.choices)}, received "${value}".`,
+      optionName: argName,
+    };
+  }
+
+  return null;
+}
+
+function toArgElements(
+  argName: string,
+  flagName: string,
+  definition: CommandArgDefinition,
+  rawValues: readonly string[],
+): { readonly issues: readonly NormalizedOptionIssue[]; readonly values: readonly unknown[] } {
+  const issues: NormalizedOptionIssue[] = [];
+  const values: unknown[] = [];
+
+  if (rawValues.length === 0 && definition.defaultValue !== undefined) {
+    values.push(
+      ...(Array.isArray(definition.defaultValue)
+        ? definition.defaultValue
+        : [definition.defaultValue]),
+    );
+  }
+
+  for (const rawValue of rawValues) {
+    const coerced = coerceArgValue(argName, flagName, definition, rawValue);
+
+    if (coerced.issue) {
+      issues.push(coerced.issue);
+      continue;
+    }
+
+    values.push(coerced.value);
+  }
+
+  for (const value of values) {
+    const issue = validateArgElement(argName, flagName, definition, value);
+
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+
+  return { issues, values };
+}
+
+/**
+ * Assigns positionals to declared arguments in declaration order, then coerces and validates
+ * them through the same Standard Schema pipeline as options.
+ */
+export async function validateParsedArgs<TArgs extends CommandArgsRecord>(
+  argDefinitions: TArgs | undefined,
+  positionals: readonly string[],
+): Promise<CommandArgsOutput<TArgs>> {
+  const normalizedValues: Record<string, unknown> = {};
+  const issues: NormalizedOptionIssue[] = [];
+
+  if (!argDefinitions) {
+    return normalizedValues as CommandArgsOutput<TArgs>;
+  }
+
+  assertValidArgDefinitions(argDefinitions);
+
+  let cursor = 0;
+
+  for (const [argName, definition] of Object.entries(argDefinitions)) {
+    const flagName = formatArgLabel(argName, definition);
+    const rawValues = definition.variadic
+      ? positionals.slice(cursor)
+      : positionals.slice(cursor, cursor + 1);
+    cursor += rawValues.length;
+
+    if (rawValues.length === 0 && definition.defaultValue === undefined) {
+      if (definition.required) {
+        issues.push({
+          flagName,
+          message: `Missing required argument "${argName}".`,
+          optionName: argName,
+        });
+        continue;
+      }
+
+      if (definition.variadic) {
+        normalizedValues[argName] = [];
+      }
+
+      continue;
+    }
+
+    const elements = toArgElements(argName, flagName, definition, rawValues);
+
+    if (elements.issues.length > 0) {
+      issues.push(...elements.issues);
+      continue;
+    }
+
+    const value = definition.variadic ? elements.values : elements.values[0];
+
+    if (!definition.schema) {
+      normalizedValues[argName] = value;
+      continue;
+    }
+
+    const validation = await validateWithStandardSchema(
+      argName,
+      flagName,
+      definition.schema,
+      value,
+      "Argument",
+    );
+    issues.push(...validation.issues);
+    normalizedValues[argName] = validation.value;
+  }
+
+  const unexpected = positionals[cursor];
+
+  if (unexpected !== undefined) {
+    throw new ParserUsageError(`Unexpected argument "${unexpected}".`);
+  }
+
+  if (issues.length > 0) {
+    throw new ParserValidationError("Invalid command arguments.", issues);
+  }
+
+  return normalizedValues as CommandArgsOutput<TArgs>;
+}
@@ -1,15 +1,29 @@
+export type {
+  CommandArgDefinition,
+  CommandArgsOutput,
+  CommandArgsRecord,
+  CommandArgType,
+  EmptyCommandArgs,
+  PrimitiveArgValue,
+} from "./args/types";
+export { formatArgLabel, validateParsedArgs } from "./args/validate";
 export { toFlagName } from "./options/flag-name";
+export { getOptionChoices, isArrayOptionType, isValuelessOptionType } from "./options/option-kind";
 export type {
   BooleanOptionDefinition,
   CommandOptionDefinition,
   CommandOptionsOutput,
   CommandOptionsRecord,
   CommandOptionType,
+  CountOptionDefinition,
   EmptyCommandOptions,
   NormalizedOptionIssue,
+  NumberArrayOptionDefinition,
   NumberOptionDefinition,
   OptionInputSource,
+  OptionValueCompletion,
   PrimitiveOptionValue,
+  StringArrayOptionDefinition,
   StringOptionDefinition,
 } from "./options/types";
 export { validateParsedOptions } from "./options/validate";
@@ -20,4 +34,11 @@ export {
   ParserUsageError,
   ParserValidationError,
 } from "./runtime/errors";
-export { parseArgvTail, type ParseArgvResult } from "./runtime/parse-argv";
+export {
+  parseArgvTail,
+  parseArgvTailWithSources,
+  type ParseArgvResult,
+  type ParseArgvSourcesInput,
+  type ParseArgvWithSourcesResult,
+} from "./runtime/parse-argv";
+export { suggestSimilar, type SuggestSimilarOptions } from "./runtime/suggest";
@@ -0,0 +1,18 @@
+import type { CommandOptionDefinition, CommandOptionType } from "./types";
+
+export function isArrayOptionType(type: CommandOptionType): type is "number[]" | "string[]" {
+  return type === "number[]" || type === "string[]";
+}
+
+/** Boolean and counted options never consume the following argv token as their value. */
+export function isValuelessOptionType(type: CommandOptionType): type is "boolean" | "count" {
+  return type === "boolean" || type === "count";
+}
+
+export function getOptionChoices(
+  definition: CommandOptionDefinition,
+): ReadonlyArray<string> | undefined {
+  return definition.type === "string" || definition.type === "string[]"
+    ? definition.choices
+    : undefined;
+}
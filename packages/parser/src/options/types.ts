@@ -1,7 +1,19 @@
 import type { StandardSchemaV1 } from "../types/standard-schema";
 
-export type CommandOptionType = "boolean" | "number" | "string";
-export type OptionInputSource = "default" | "env" | "flag" | "stdin";
+export type CommandOptionType = "boolean" | "count" | "number" | "number[]" | "string" | "string[]";
+/**
+ * Where an option value may come from. Resolution precedence is flag > env > config > default;
+ * `stdin` is read explicitly by command handlers.
+ */
+export type OptionInputSource = "config" | "default" | "env" | "flag" | "stdin";
+
+/**
+ * Value suggestions for shell completion. Functions are resolved lazily by the host CLI, so they
+ * may read the filesystem or workspace state without slowing down regular parsing.
+ */
+export type OptionValueCompletion =
+  | ReadonlyArray<string>
+  | ((partial: string) => ReadonlyArray<string> | Promise<ReadonlyArray<string>>);
 
 export interface BaseOptionDefinition<
   TType extends CommandOptionType,
@@ -14,6 +26,7 @@ export interface BaseOptionDefinition<
   readonly hint?: string | undefined;
   readonly inputSources?: ReadonlyArray<OptionInputSource> | undefined;
   readonly short?: string | undefined;
+  readonly complete?: OptionValueCompletion | undefined;
   readonly defaultValue?: PrimitiveOptionValue<TType> | undefined;
   readonly schema?: TSchema;
 }
@@ -21,31 +34,75 @@ export interface BaseOptionDefinition<
 export type BooleanOptionDefinition<TSchema extends StandardSchemaV1 | undefined = undefined> =
   BaseOptionDefinition<"boolean", TSchema>;
 
+/**
+ * Counted boolean such as `-vvv`. Every occurrence increments the value, so the parsed option is
+ * the number of times the flag was provided.
+ */
+export type CountOptionDefinition<TSchema extends StandardSchemaV1 | undefined = undefined> =
+  BaseOptionDefinition<"count", TSchema>;
+
 export type NumberOptionDefinition<TSchema extends StandardSchemaV1 | undefined = undefined> =
   BaseOptionDefinition<"number", TSchema>;
 
-export type StringOptionDefinition<TSchema extends StandardSchemaV1 | undefined = undefined> =
-  BaseOptionDefinition<"string", TSchema>;
+/**
+ * Repeatable number list: `--port 80 --port 443` and `--port 80,443` both parse to `[80, 443]`.
+ */
+export type NumberArrayOptionDefinition<TSchema extends StandardSchemaV1 | undefined = undefined> =
+  BaseOptionDefinition<"number[]", TSchema>;
+
+export interface StringOptionDefinition<
+  TSchema extends StandardSchemaV1 | undefined = undefined,
+> extends BaseOptionDefinition<"string", TSchema> {
+  /**
+   * Allowed values. Declare the definition `as const` so the literal union flows into
+   * `CommandOptionsOutput`.
+   */
+  readonly choices?: ReadonlyArray<string> | undefined;
+}
+
+/**
+ * Repeatable string list: `--filter a --filter b` and `--filter a,b` both parse to `["a", "b"]`.
+ */
+export interface StringArrayOptionDefinition<
+  TSchema extends StandardSchemaV1 | undefined = undefined,
+> extends BaseOptionDefinition<"string[]", TSchema> {
+  readonly choices?: ReadonlyArray<string> | undefined;
+}
 
 export type CommandOptionDefinition =
   | BooleanOptionDefinition
+  | CountOptionDefinition
   | NumberOptionDefinition
-  | StringOptionDefinition;
+  | NumberArrayOptionDefinition
+  | StringOptionDefinition
+  | StringArrayOptionDefinition;
 
 export type CommandOptionsRecord = Readonly<Record<string, CommandOptionDefinition>>;
 
 export type PrimitiveOptionValue<TType extends CommandOptionType> = TType extends "boolean"
   ? boolean
-  : TType extends "number"
+  : TType extends "count" | "number"
     ? number
-    : string;
+    : TType extends "number[]"
+      ? ReadonlyArray<number>
+      : TType extends "string[]"
+        ? ReadonlyArray<string>
+        : string;
 
 export type EmptyCommandOptions = Readonly<Record<never, never>>;
 
+type InferChoiceValue<TDefinition extends CommandOptionDefinition> = TDefinition extends {
+  readonly choices: ReadonlyArray<infer TChoice extends string>;
+}
+  ? TDefinition["type"] extends "string[]"
+    ? ReadonlyArray<TChoice>
+    : TChoice
+  : PrimitiveOptionValue<TDefinition["type"]>;
+
 type InferOptionValue<TDefinition extends CommandOptionDefinition> =
   TDefinition["schema"] extends StandardSchemaV1
     ? StandardSchemaV1.InferOutput<NonNullable<TDefinition["schema"]>>
-    : PrimitiveOptionValue<TDefinition["type"]>;
+    : InferChoiceValue<TDefinition>;
 
 type RequiredOptionKeys<TOptions extends CommandOptionsRecord> = {
   [TKey in keyof TOptions]-?: TOptions[TKey]["required"] extends true
@@ -1,6 +1,7 @@
 import { ParserValidationError } from "../runtime/errors";
 import type { StandardSchemaV1 } from "../types/standard-schema";
 import { toFlagName } from "./flag-name";
+import { getOptionChoices, isArrayOptionType } from "./option-kind";
 import type {
   CommandOptionDefinition,
   CommandOptionsOutput,
@@ -73,14 +74,18 @@ function runSchemaValidation(
   return schema["~standard"].validate(value);
 }
 
-function validatePrimitiveOptionValue(
+export function formatChoices(choices: ReadonlyArray<string>): string {
+  return choices.map((choice) => `"${choice}"`).join(", ");
+}
+
+function validateElementValue(
   optionName: string,
-  definition: CommandOptionDefinition,
+  flagName: string,
+  elementType: "number" | "string",
+  choices: ReadonlyArray<string> | undefined,
   value: unknown,
 ): NormalizedOptionIssue | null {
-  const flagName = `--${toFlagName(optionName)}`;
-
-  if (definition.type === "number") {
+  if (elementType === "number") {
     return typeof value === "number" && Number.isFinite(value)
       ? null
       : {
@@ -90,50 +95,98 @@ function validatePrimitiveOptionValue(
         };
   }
 
-  if (typeof value === definition.type) {
-    return null;
+  if (typeof value !== "string") {
+    return {
+      flagName,
+      message: `Option "${optionName}" expected a string value.`,
+      optionName,
+    };
   }
 
-  return {
-    flagName,
-    message: `Option "${optionName}" expected a ${definition.type} value.`,
-    optionName,
-  };
+  if (choices && !choices.includes(value)) {
+    return {
+      flagName,
+      message: `Option "${optionName}" expected one of ${formatChoices(choices)}, received "${value}".`,
+      optionName,
+    };
+  }
+
+  return null;
 }
 
-async function validateSingleOption(
+function validatePrimitiveOptionValue(
   optionName: string,
   definition: CommandOptionDefinition,
   value: unknown,
-): Promise<{
-  readonly issues: readonly NormalizedOptionIssue[];
-  readonly value: unknown;
-}> {
-  const primitiveIssue = validatePrimitiveOptionValue(optionName, definition, value);
+): NormalizedOptionIssue | null {
+  const flagName = `--${toFlagName(optionName)}`;
+  const choices = getOptionChoices(definition);
 
-  if (primitiveIssue) {
-    return {
-      issues: [primitiveIssue],
-      value,
-    };
+  if (definition.type === "boolean") {
+    return typeof value === "boolean"
+      ? null
+      : {
+          flagName,
+          message: `Option "${optionName}" expected a boolean value.`,
+          optionName,
+        };
   }
 
-  if (!definition.schema) {
-    return {
-      issues: [],
-      value,
-    };
+  if (definition.type === "count") {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0
+      ? null
+      : {
+          flagName,
+          message: `Option "${optionName}" expected a non-negative integer count.`,
+          optionName,
+        };
   }
 
-  const schema = definition.schema;
-  const flagName = `--${toFlagName(optionName)}`;
+  if (isArrayOptionType(definition.type)) {
+    if (!Array.isArray(value)) {
+      return {
+        flagName,
+        message: `Option "${optionName}" expected a list of values.`,
+        optionName,
+      };
+    }
+
+    const elementType = definition.type === "number[]" ? "number" : "string";
+
+    for (const element of value) {
+      const issue = validateElementValue(optionName, flagName, elementType, choices, element);
+
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return null;
+  }
+
+  return validateElementValue(optionName, flagName, definition.type, choices, value);
+}
 
+/**
+ * Runs a Standard Schema adapter and normalizes its issues. Shared by option and positional
+ * argument validation so both surface the same issue shape.
+ */
+export async function validateWithStandardSchema(
+  optionName: string,
+  flagName: string,
+  schema: unknown,
+  value: unknown,
+  subject: "Argument" | "Option" = "Option",
+): Promise<{
+  readonly issues: readonly NormalizedOptionIssue[];
+  readonly value: unknown;
+}> {
   if (!isStandardSchema(schema)) {
     return {
       issues: [
         {
           flagName,
-          message: `Option "${optionName}" uses an invalid Standard Schema adapter.`,
+          message: `${subject} "${optionName}" uses an invalid Standard Schema adapter.`,
           optionName,
         },
       ],
@@ -173,6 +226,38 @@ async function validateSingleOption(
   };
 }
 
+async function validateSingleOption(
+  optionName: string,
+  definition: CommandOptionDefinition,
+  value: unknown,
+): Promise<{
+  readonly issues: readonly NormalizedOptionIssue[];
+  readonly value: unknown;
+}> {
+  const primitiveIssue = validatePrimitiveOptionValue(optionName, definition, value);
+
+  if (primitiveIssue) {
+    return {
+      issues: [primitiveIssue],
+      value,
+    };
+  }
+
+  if (!definition.schema) {
+    return {
+      issues: [],
+      value,
+    };
+  }
+
+  return validateWithStandardSchema(
+    optionName,
+    `--${toFlagName(optionName)}`,
+    definition.schema,
+    value,
+  );
+}
+
 export async function validateParsedOptions<TOptions extends CommandOptionsRecord>(
   optionDefinitions: TOptions | undefined,
   rawValues: ReadonlyMap<string, unknown>,
@@ -10,6 +10,7 @@ export interface ParserStructuredError {
   readonly ok: false;
   readonly parserError: 1;
   readonly schemaVersion: 1;
+  readonly suggestions?: readonly string[] | undefined;
 }
 
 export class ParserError extends Error {
@@ -38,9 +39,21 @@ export class ParserError extends Error {
 }
 
 export class ParserUsageError extends ParserError {
-  constructor(message: string, exitCode = 1) {
+  /** Close matches for an unknown flag, best first. */
+  readonly suggestions: readonly string[];
+
+  constructor(message: string, exitCode = 1, suggestions: readonly string[] = []) {
     super("usage", message, exitCode);
     this.name = "ParserUsageError";
+    this.suggestions = suggestions;
+  }
+
+  override toStructuredError(): ParserStructuredError {
+    const structured = super.toStructuredError();
+
+    return this.suggestions.length > 0
+      ? { ...structured, suggestions: this.suggestions }
+      : structured;
   }
 }
 
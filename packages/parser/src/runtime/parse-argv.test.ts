@@ -1,7 +1,7 @@
 import { describe, expect, test } from "bun:test";
 
-import { ParserUsageError } from "./errors";
-import { parseArgvTail } from "./parse-argv";
+import { ParserUsageError, ParserValidationError } from "./errors";
+import { parseArgvTail, parseArgvTailWithSources } from "./parse-argv";
 
 describe("parseArgvTail", () => {
   test("parses boolean negation, explicit boolean values, env, and defaults", async () => {
@@ -86,4 +86,166 @@ describe("parseArgvTail", () => {
       options: { target: "-fixture" },
     });
   });
+
+  test("collects repeatable list options across flags, commas, and env values", async () => {
+    const definitions = {
+      filter: { type: "string[]", short: "f" },
+      port: { type: "number[]", env: "DEMO_PORTS" },
+    } as const;
+
+    await expect(
+      parseArgvTail(["--filter", "a", "-f", "b,c", "--filter=d"], definitions, {
+        DEMO_PORTS: "80, 443",
+      }),
+    ).resolves.toEqual({
+      args: [],
+      options: { filter: ["a", "b", "c", "d"], port: [80, 443] },
+    });
+
+    await expect(parseArgvTail(["--port", "80,http"], definitions)).rejects.toThrow(
+      'Expected a finite number value for "--port", received "http".',
+    );
+  });
+
+  test("validates choices for scalar and list options", async () => {
+    const definitions = {
+      format: { type: "string", choices: ["esm", "cjs"], defaultValue: "esm" },
+      targets: { type: "string[]", choices: ["node", "bun"] },
+    } as const;
+
+    const parsed = await parseArgvTail(["--targets", "bun,node"], definitions);
+    const format: "cjs" | "esm" = parsed.options.format;
+
+    expect(format).toBe("esm");
+    expect(parsed.options.targets).toEqual(["bun", "node"]);
+
+    await expect(parseArgvTail(["--format", "iife"], definitions)).rejects.toMatchObject({
+      issues: [
+        {
+          flagName: "--format",
+          message: 'Option "format" expected one of "esm", "cjs", received "iife".',
+          optionName: "format",
+        },
+      ],
+    });
+
+    await expect(parseArgvTail(["--targets", "bun,deno"], definitions)).rejects.toThrow(
+      ParserValidationError,
+    );
+  });
+
+  test("counts repeated counted flags, including short clusters", async () => {
+    const definitions = {
+      force: { type: "boolean", short: "F" },
+      verbose: { type: "count", short: "v", env: "DEMO_VERBOSE" },
+    } as const;
+
+    await expect(parseArgvTail(["-vvv", "--verbose"], definitions)).resolves.toMatchObject({
+      args: [],
+      options: { verbose: 4 },
+    });
+
+    await expect(parseArgvTail(["-vFv"], definitions)).resolves.toEqual({
+      args: [],
+      options: { force: true, verbose: 2 },
+    });
+
+    await expect(parseArgvTail([], definitions, { DEMO_VERBOSE: "2" })).resolves.toMatchObject({
+      args: [],
+      options: { verbose: 2 },
+    });
+
+    await expect(parseArgvTail(["-vx"], definitions)).rejects.toThrow('Unknown option "-vx".');
+    await expect(parseArgvTail(["-FF"], definitions)).rejects.toThrow(
+      'Option "-F" was provided more than once.',
+    );
+    await expect(parseArgvTail(["--no-verbose"], definitions)).rejects.toThrow(
+      'Option "--verbose" does not support "--no-" form.',
+    );
+  });
+
+  test("suggests close long flags for unknown options", async () => {
+    const definitions = {
+      dryRun: { type: "boolean" },
+      target: { type: "string" },
+      verbose: { type: "count", short: "v" },
+    } as const;
+
+    const longError = await parseArgvTail(["--targte", "node"], definitions).catch(
+      (error: unknown) => error,
+    );
+
+    expect(longError).toBeInstanceOf(ParserUsageError);
+    expect((longError as ParserUsageError).message).toBe('Unknown option "--targte".');
+    expect((longError as ParserUsageError).suggestions).toEqual(["--target"]);
+    expect((longError as ParserUsageError).toStructuredError().suggestions).toEqual(["--target"]);
+
+    const clusterError = await parseArgvTail(["-dry-run"], definitions).catch(
+      (error: unknown) => error,
+    );
+
+    expect((clusterError as ParserUsageError).suggestions).toEqual(["--dry-run"]);
+
+    const unrelatedError = await parseArgvTail(["--json5"], definitions).catch(
+      (error: unknown) => error,
+    );
+
+    expect((unrelatedError as ParserUsageError).suggestions).toEqual([]);
+    expect((unrelatedError as ParserUsageError).toStructuredError()).not.toHaveProperty(
+      "suggestions",
+    );
+  });
+});
+
+describe("parseArgvTailWithSources", () => {
+  const definitions = {
+    dryRun: { type: "boolean", defaultValue: false },
+    format: { type: "string", choices: ["esm", "cjs"], env: "DEMO_FORMAT" },
+    provider: { type: "string", env: "DEMO_PROVIDER" },
+    retries: { type: "number" },
+    targets: { type: "string[]" },
+  } as const;
+
+  test("resolves flag > env > config > default and reports each source", async () => {
+    const parsed = await parseArgvTailWithSources(["--provider", "bun"], definitions, {
+      config: { format: "cjs", provider: "tsdown", retries: "3", targets: ["a", "b"] },
+      env: { DEMO_FORMAT: "esm", DEMO_PROVIDER: "esbuild" },
+    });
+
+    expect(parsed.options).toEqual({
+      dryRun: false,
+      format: "esm",
+      provider: "bun",
+      retries: 3,
+      targets: ["a", "b"],
+    });
+    expect(parsed.sources).toEqual({
+      dryRun: "default",
+      format: "env",
+      provider: "flag",
+      retries: "config",
+      targets: "config",
+    });
+  });
+
+  test("accepts flag-name config keys and validates config values", async () => {
+    await expect(
+      parseArgvTailWithSources([], definitions, { config: { "dry-run": true } }),
+    ).resolves.toMatchObject({ options: { dryRun: true }, sources: { dryRun: "config" } });
+
+    await expect(
+      parseArgvTailWithSources([], definitions, { config: { format: "umd" } }),
+    ).rejects.toThrow(ParserValidationError);
+  });
+
+  test("skips config values for options that do not accept config input", async () => {
+    const parsed = await parseArgvTailWithSources(
+      [],
+      { token: { type: "string", inputSources: ["flag", "env"] } } as const,
+      { config: { token: "secret" } },
+    );
+
+    expect(parsed.options).not.toHaveProperty("token");
+    expect(parsed.sources).toEqual({});
+  });
 });
@@ -1,4 +1,5 @@
 import { toFlagName } from "../options/flag-name";
+import { isArrayOptionType, isValuelessOptionType } from "../options/option-kind";
 import type {
   CommandOptionDefinition,
   CommandOptionsOutput,
@@ -7,12 +8,26 @@ import type {
 } from "../options/types";
 import { validateParsedOptions } from "../options/validate";
 import { ParserUsageError } from "./errors";
+import { suggestSimilar } from "./suggest";
 
 export interface ParseArgvResult<TOptions extends CommandOptionsRecord> {
   readonly args: readonly string[];
   readonly options: CommandOptionsOutput<TOptions>;
 }
 
+export interface ParseArgvSourcesInput {
+  /** Config-file values keyed by option name or flag name (`dryRun` or `dry-run`). */
+  readonly config?: Readonly<Record<string, unknown>> | undefined;
+  readonly env?: NodeJS.ProcessEnv | undefined;
+}
+
+export interface ParseArgvWithSourcesResult<
+  TOptions extends CommandOptionsRecord,
+> extends ParseArgvResult<TOptions> {
+  /** Input source of every resolved option value, keyed by option name. */
+  readonly sources: Readonly<Record<string, OptionInputSource>>;
+}
+
 function isInputSourceEnabled(
   definition: CommandOptionDefinition,
   source: OptionInputSource,
@@ -63,20 +78,48 @@ function toNumber(value: string, label: string): number {
   return parsed;
 }
 
+function toCount(value: string, label: string): number {
+  if (isBooleanString(value)) {
+    return toBoolean(value, label) ? 1 : 0;
+  }
+
+  const parsed = toNumber(value, label);
+
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ParserUsageError(
+      `Expected a non-negative integer count for "${label}", received "${value}".`,
+    );
+  }
+
+  return parsed;
+}
+
+function splitListValue(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 function coerceOptionValue(
   label: string,
   definition: CommandOptionDefinition,
   rawValue: string,
 ): unknown {
-  if (definition.type === "boolean") {
-    return toBoolean(rawValue, label);
-  }
-
-  if (definition.type === "number") {
-    return toNumber(rawValue, label);
+  switch (definition.type) {
+    case "boolean":
+      return toBoolean(rawValue, label);
+    case "count":
+      return toCount(rawValue, label);
+    case "number":
+      return toNumber(rawValue, label);
+    case "number[]":
+      return splitListValue(rawValue).map((item) => toNumber(item, label));
+    case "string[]":
+      return splitListValue(rawValue);
+    default:
+      return rawValue;
   }
-
-  return rawValue;
 }
 
 function looksLikeOptionToken(value: string): boolean {
@@ -86,9 +129,17 @@ function looksLikeOptionToken(value: string): boolean {
 function setRawOptionValue(
   rawOptionValues: Map<string, unknown>,
   optionName: string,
+  definition: CommandOptionDefinition,
   value: unknown,
   label: string,
 ): void {
+  const existing = rawOptionValues.get(optionName);
+
+  if (isArrayOptionType(definition.type) && Array.isArray(existing) && Array.isArray(value)) {
+    rawOptionValues.set(optionName, [...existing, ...value]);
+    return;
+  }
+
   if (rawOptionValues.has(optionName)) {
     throw new ParserUsageError(`Option "${label}" was provided more than once.`);
   }
@@ -96,6 +147,36 @@ function setRawOptionValue(
   rawOptionValues.set(optionName, value);
 }
 
+function setFlagOnlyOptionValue(
+  rawOptionValues: Map<string, unknown>,
+  optionName: string,
+  definition: CommandOptionDefinition,
+  label: string,
+): void {
+  if (definition.type !== "count") {
+    setRawOptionValue(rawOptionValues, optionName, definition, true, label);
+    return;
+  }
+
+  const existing = rawOptionValues.get(optionName);
+
+  if (existing !== undefined && typeof existing !== "number") {
+    throw new ParserUsageError(`Option "${label}" was provided more than once.`);
+  }
+
+  rawOptionValues.set(optionName, (existing ?? 0) + 1);
+}
+
+function suggestLongOptions(
+  key: string,
+  longOptions: ReadonlyMap<string, readonly [string, CommandOptionDefinition]>,
+): string[] {
+  return suggestSimilar(
+    `--${key}`,
+    [...longOptions.values()].map(([optionName]) => `--${toFlagName(optionName)}`),
+  );
+}
+
 function setLongOption(
   longOptions: Map<string, readonly [string, CommandOptionDefinition]>,
   flagName: string,
@@ -138,6 +219,7 @@ function setShortOption(
 
 function addEnvOptionValues(
   rawOptionValues: Map<string, unknown>,
+  sources: Map<string, OptionInputSource>,
   optionDefinitions: CommandOptionsRecord | undefined,
   env: NodeJS.ProcessEnv | undefined,
 ): void {
@@ -161,6 +243,44 @@ function addEnvOptionValues(
     }
 
     rawOptionValues.set(optionName, coerceOptionValue(`$${definition.env}`, definition, envValue));
+    sources.set(optionName, "env");
+  }
+}
+
+/**
+ * Config values arrive as JSON, so only strings are coerced (like env values); arrays, numbers,
+ * and booleans are passed through to validation as-is.
+ */
+function addConfigOptionValues(
+  rawOptionValues: Map<string, unknown>,
+  sources: Map<string, OptionInputSource>,
+  optionDefinitions: CommandOptionsRecord | undefined,
+  config: Readonly<Record<string, unknown>> | undefined,
+): void {
+  if (!optionDefinitions || !config) {
+    return;
+  }
+
+  for (const [optionName, definition] of Object.entries(optionDefinitions)) {
+    if (rawOptionValues.has(optionName) || !isInputSourceEnabled(definition, "config")) {
+      continue;
+    }
+
+    const flagName = toFlagName(optionName);
+    const configKey = Object.hasOwn(config, optionName) ? optionName : flagName;
+    const configValue = Object.hasOwn(config, configKey) ? config[configKey] : undefined;
+
+    if (configValue === undefined) {
+      continue;
+    }
+
+    rawOptionValues.set(
+      optionName,
+      typeof configValue === "string" && definition.type !== "string"
+        ? coerceOptionValue(`config "${configKey}"`, definition, configValue)
+        : configValue,
+    );
+    sources.set(optionName, "config");
   }
 }
 
@@ -169,6 +289,20 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
   optionDefinitions: TOptions | undefined,
   env?: NodeJS.ProcessEnv,
 ): Promise<ParseArgvResult<TOptions>> {
+  const { args, options } = await parseArgvTailWithSources(argv, optionDefinitions, { env });
+
+  return { args, options };
+}
+
+/**
+ * Like `parseArgvTail`, but also resolves config-file values and reports where each option value
+ * came from, with precedence flag > env > config > default.
+ */
+export async function parseArgvTailWithSources<TOptions extends CommandOptionsRecord>(
+  argv: readonly string[],
+  optionDefinitions: TOptions | undefined,
+  input: ParseArgvSourcesInput = {},
+): Promise<ParseArgvWithSourcesResult<TOptions>> {
   const args: string[] = [];
   const rawOptionValues = new Map<string, unknown>();
   const longOptions = new Map<string, readonly [string, CommandOptionDefinition]>();
@@ -224,20 +358,30 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
       const optionEntry = longOptions.get(normalizedKey);
 
       if (!optionEntry) {
-        throw new ParserUsageError(`Unknown option "--${key}".`);
+        throw new ParserUsageError(
+          `Unknown option "--${key}".`,
+          1,
+          suggestLongOptions(key, longOptions),
+        );
       }
 
       const [optionName, definition] = optionEntry;
       const flagLabel = `--${key}`;
       assertInputSourceEnabled(definition, "flag", flagLabel);
 
-      if (definition.type === "boolean") {
+      if (isValuelessOptionType(definition.type)) {
         if (negated) {
+          if (definition.type === "count") {
+            throw new ParserUsageError(
+              `Option "--${normalizedKey}" does not support "--no-" form.`,
+            );
+          }
+
           if (explicitValue !== undefined) {
             throw new ParserUsageError(`Option "${flagLabel}" does not accept a value.`);
           }
 
-          setRawOptionValue(rawOptionValues, optionName, false, flagLabel);
+          setRawOptionValue(rawOptionValues, optionName, definition, false, flagLabel);
           cursor += 1;
           continue;
         }
@@ -246,14 +390,15 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
           setRawOptionValue(
             rawOptionValues,
             optionName,
-            toBoolean(explicitValue, flagLabel),
+            definition,
+            coerceOptionValue(flagLabel, definition, explicitValue),
             flagLabel,
           );
           cursor += 1;
           continue;
         }
 
-        setRawOptionValue(rawOptionValues, optionName, true, flagLabel);
+        setFlagOnlyOptionValue(rawOptionValues, optionName, definition, flagLabel);
         cursor += 1;
         continue;
       }
@@ -275,6 +420,7 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
       setRawOptionValue(
         rawOptionValues,
         optionName,
+        definition,
         coerceOptionValue(flagLabel, definition, rawValue),
         flagLabel,
       );
@@ -283,6 +429,29 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
     }
 
     const shortKey = token.slice(1);
+
+    if (shortKey.length > 1) {
+      for (const shortName of shortKey) {
+        const clusterEntry = shortOptions.get(shortName);
+
+        if (!clusterEntry || !isValuelessOptionType(clusterEntry[1].type)) {
+          // `-target` is usually a mistyped `--target`, so clusters are matched against long flags.
+          throw new ParserUsageError(
+            `Unknown option "-${shortKey}".`,
+            1,
+            suggestLongOptions(shortKey, longOptions),
+          );
+        }
+
+        const [optionName, definition] = clusterEntry;
+        assertInputSourceEnabled(definition, "flag", `-${shortName}`);
+        setFlagOnlyOptionValue(rawOptionValues, optionName, definition, `-${shortName}`);
+      }
+
+      cursor += 1;
+      continue;
+    }
+
     const optionEntry = shortOptions.get(shortKey);
 
     if (!optionEntry) {
@@ -293,8 +462,8 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
     const flagLabel = `-${shortKey}`;
     assertInputSourceEnabled(definition, "flag", flagLabel);
 
-    if (definition.type === "boolean") {
-      setRawOptionValue(rawOptionValues, optionName, true, flagLabel);
+    if (isValuelessOptionType(definition.type)) {
+      setFlagOnlyOptionValue(rawOptionValues, optionName, definition, flagLabel);
       cursor += 1;
       continue;
     }
@@ -308,16 +477,30 @@ export async function parseArgvTail<TOptions extends CommandOptionsRecord>(
     setRawOptionValue(
       rawOptionValues,
       optionName,
+      definition,
       coerceOptionValue(flagLabel, definition, nextToken),
       flagLabel,
     );
     cursor += 2;
   }
 
-  addEnvOptionValues(rawOptionValues, optionDefinitions, env);
+  const sources = new Map<string, OptionInputSource>(
+    [...rawOptionValues.keys()].map((optionName) => [optionName, "flag"] as const),
+  );
+
+  addEnvOptionValues(rawOptionValues, sources, optionDefinitions, input.env);
+  addConfigOptionValues(rawOptionValues, sources, optionDefinitions, input.config);
+
+  const options = await validateParsedOptions(optionDefinitions, rawOptionValues);
 
   return {
     args,
-    options: await validateParsedOptions(optionDefinitions, rawOptionValues),
+    options,
+    sources: Object.fromEntries(
+      Object.keys(options).map((optionName) => [
+        optionName,
+        sources.get(optionName) ?? ("default" as const),
+      ]),
+    ),
   };
 }
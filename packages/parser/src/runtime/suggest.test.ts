@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+
+import { suggestSimilar } from "./suggest";
+
+describe("suggestSimilar", () => {
+  test("ranks close matches first and ignores unrelated candidates", () => {
+    expect(suggestSimilar("biuld", ["build", "pub", "publish", "bundle"])).toEqual(["build"]);
+    expect(suggestSimilar("pub", ["build", "publish"])).toEqual(["publish"]);
+    expect(suggestSimilar("--targte", ["--target", "--targets", "--watch"])).toEqual([
+      "--target",
+      "--targets",
+    ]);
+    expect(suggestSimilar("deploy", ["build", "pub"])).toEqual([]);
+  });
+
+  test("compares case-insensitively and honors the limit", () => {
+    expect(suggestSimilar("BUILD", ["build", "pub"])).toEqual(["build"]);
+    expect(suggestSimilar("Buil", ["build"])).toEqual(["build"]);
+    expect(suggestSimilar("ab", ["aa", "ac", "ad", "ae"], { limit: 2 })).toEqual(["aa", "ac"]);
+  });
+});
@@ -0,0 +1,76 @@
+export interface SuggestSimilarOptions {
+  /** Maximum number of suggestions returned. Defaults to 3. */
+  readonly limit?: number | undefined;
+}
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent transpositions, so `biuld` is one
+ * edit away from `build`.
+ */
+function getEditDistance(left: string, right: string): number {
+  const rows = left.length + 1;
+  const columns = right.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => (row === 0 ? column : column === 0 ? row : 0)),
+  );
+
+  for (let row = 1; row < rows; row += 1) {
+    for (let column = 1; column < columns; column += 1) {
+      const cost = left[row - 1] === right[column - 1] ? 0 : 1;
+      const current = distances[row] as number[];
+      const previous = distances[row - 1] as number[];
+      let distance = Math.min(
+        (previous[column] as number) + 1,
+        (current[column - 1] as number) + 1,
+        (previous[column - 1] as number) + cost,
+      );
+
+      if (
+        row > 1 &&
+        column > 1 &&
+        left[row - 1] === right[column - 2] &&
+        left[row - 2] === right[column - 1]
+      ) {
+        distance = Math.min(distance, (distances[row - 2]?.[column - 2] as number) + 1);
+      }
+
+      current[column] = distance;
+    }
+  }
+
+  return distances[left.length]?.[right.length] ?? Math.max(left.length, right.length);
+}
+
+/**
+ * Returns the candidates closest to `input`, best first, for "Did you mean" hints. A candidate
+ * qualifies when it is within roughly a third of the input length in edits or starts with the
+ * input; unrelated candidates are never suggested.
+ */
+export function suggestSimilar(
+  input: string,
+  candidates: Iterable<string>,
+  options: SuggestSimilarOptions = {},
+): string[] {
+  const normalizedInput = input.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(normalizedInput.length / 3));
+  const scored: Array<{ readonly candidate: string; readonly distance: number }> = [];
+
+  for (const candidate of new Set(candidates)) {
+    const normalizedCandidate = candidate.toLowerCase();
+
+    const distance = getEditDistance(normalizedInput, normalizedCandidate);
+    const isPrefix = normalizedInput.length >= 2 && normalizedCandidate.startsWith(normalizedInput);
+
+    if (distance <= maxDistance || isPrefix) {
+      scored.push({ candidate, distance: isPrefix ? Math.min(distance, maxDistance) : distance });
+    }
+  }
+
+  return scored
+    .sort(
+      (left, right) =>
+        left.distance - right.distance || left.candidate.localeCompare(right.candidate),
+    )
+    .slice(0, options.limit ?? 3)
+    .map((entry) => entry.candidate);
+}
@@ -5,6 +5,8 @@ import { join } from "node:path";
 
 import { createCLI } from "./create-cli";
 
+const remptsEntryPath = join(import.meta.dir, "..", "index.ts");
+
 function createBufferStream() {
   const chunks: string[] = [];
 
@@ -330,6 +332,88 @@ describe("createCLI", () => {
   });
 });
 
+test("resolves declared positional args into ctx.args and reports structured failures", async () => {
+  const root = await mkdtemp(join(tmpdir(), "rempts-declared-args-"));
+  const entryPath = join(root, "cli.ts");
+  const commandDir = join(root, "cmds", "demo");
+  await mkdir(commandDir, { recursive: true });
+  await writeFile(entryPath, "#!/usr/bin/env bun\n", "utf8");
+  await writeFile(
+    join(commandDir, "cmd.ts"),
+    [
+      `import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`,
+      "",
+      "export default defineCommand({",
+      "  args: {",
+      '    mode: { type: "string", choices: ["pack", "unpack"], required: true },',
+      '    inputs: { type: "string", variadic: true },',
+      "  },",
+      "  async handler(ctx) {",
+      "    ctx.out(JSON.stringify({ args: ctx.args, rawArgs: ctx.rawArgs }));",
+      "  },",
+      "});",
+      "",
+    ].join("\n"),
+    "utf8",
+  );
+
+  const stdout = createBufferStream();
+  const result = await createCLI({
+    argv: ["demo", "unpack", "a.zip", "b.zip"],
+    cwd: root,
+    entry: entryPath,
+    meta: { name: "declared-args-test" },
+    stdin: { isTTY: false } as never,
+    stdout: stdout.stream as never,
+    stderr: createBufferStream().stream as never,
+  });
+
+  expect(result.ok).toBe(true);
+  expect(JSON.parse(stdout.text())).toEqual({
+    args: { inputs: ["a.zip", "b.zip"], mode: "unpack" },
+    rawArgs: ["unpack", "a.zip", "b.zip"],
+  });
+
+  const helpOutput = createBufferStream();
+  await createCLI({
+    argv: ["demo", "--help", "--json"],
+    cwd: root,
+    entry: entryPath,
+    meta: { name: "declared-args-test" },
+    stdin: { isTTY: false } as never,
+    stdout: helpOutput.stream as never,
+    stderr: createBufferStream().stream as never,
+  });
+
+  const help = JSON.parse(helpOutput.text());
+  expect(help.usage).toEqual(["declared-args-test [global-flags] demo [flags] <mode> [inputs...]"]);
+  expect(help.args.map((arg: { readonly name: string }) => arg.name)).toEqual(["mode", "inputs"]);
+
+  const failureOutput = createBufferStream();
+  const rejected = await createCLI({
+    argv: ["--json", "demo", "zip"],
+    cwd: root,
+    entry: entryPath,
+    meta: { name: "declared-args-test" },
+    stdin: { isTTY: false } as never,
+    stdout: failureOutput.stream as never,
+    stderr: failureOutput.stream as never,
+  });
+
+  expect(rejected.ok).toBe(false);
+  expect(JSON.parse(failureOutput.text())).toMatchObject({
+    issues: [
+      {
+        flagName: "<mode>",
+        message: 'Argument "mode" expected one of "pack", "unpack", received "zip".',
+        optionName: "mode",
+      },
+    ],
+    kind: "validation",
+    ok: false,
+  });
+});
+
 test("injects --apply for commands that require apply and exposes ctx.safety", async () => {
   const root = await mkdtemp(join(tmpdir(), "rempts-apply-safety-"));
   const entryPath = join(root, "cli.ts");
@@ -553,3 +637,69 @@ test("fails fast when inherited CLI options define Rempts-reserved flags", async
   expect(stderr.text()).toContain("CLI inherited options --help and --json are reserved by Rempts");
   expect(stderr.text()).toContain("Help is handled by the Rempts runtime");
 });
+
+test("suggests close subcommands and flags in text hints and structured errors", async () => {
+  const root = await mkdtemp(join(tmpdir(), "rempts-suggestions-"));
+  const entryPath = join(root, "cli.ts");
+  await writeFile(entryPath, "#!/usr/bin/env bun\n", "utf8");
+
+  for (const [name, aliases] of [
+    ["build", '["b"]'],
+    ["publish", '["pub"]'],
+  ] as const) {
+    await mkdir(join(root, "cmds", name), { recursive: true });
+    await writeFile(
+      join(root, "cmds", name, "cmd.ts"),
+      [
+        `import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`,
+        "",
+        "export default defineCommand({",
+        `  meta: { name: ${JSON.stringify(name)}, aliases: ${aliases} },`,
+        '  options: { target: { type: "string" }, dryRun: { type: "boolean" } },',
+        "  async handler() {},",
+        "});",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+  }
+
+  const run = async (argv: readonly string[]) => {
+    const stderr = createBufferStream();
+    const result = await createCLI({
+      argv: [...argv],
+      cwd: root,
+      entry: entryPath,
+      meta: { name: "suggest-test" },
+      stdin: { isTTY: false } as never,
+      stdout: createBufferStream().stream as never,
+      stderr: stderr.stream as never,
+    });
+
+    return { result, stderr: stderr.text() };
+  };
+
+  const unknownCommand = await run(["--json", "biuld"]);
+  expect(unknownCommand.result.ok).toBe(false);
+  expect(JSON.parse(unknownCommand.stderr)).toMatchObject({
+    code: "REMPTS_UNKNOWN_COMMAND",
+    hint: 'Did you mean "build"? Run --help to discover available commands.',
+    message: 'Unknown command "biuld".',
+    suggestions: ["build"],
+  });
+
+  const unknownFlag = await run(["--json", "build", "--targte", "node"]);
+  expect(unknownFlag.result.exitCode).toBe(1);
+  expect(JSON.parse(unknownFlag.stderr)).toMatchObject({
+    code: "REMPTS_USAGE",
+    hint: 'Did you mean "--target"? Run "suggest-test [global-flags] build [flags] [args] --help" for examples and flag details.',
+    message: 'Unknown option "--targte".',
+    suggestions: ["--target"],
+  });
+
+  const textFlag = await run(["publish", "--dryrun"]);
+  expect(textFlag.stderr).toContain('Hint: Did you mean "--dry-run"?');
+
+  const unrelated = await run(["--json", "deploy"]);
+  expect(JSON.parse(unrelated.stderr)).not.toHaveProperty("suggestions");
+});
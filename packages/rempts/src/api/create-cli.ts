@@ -3,24 +3,39 @@ import { basename, extname } from "node:path";
 import {
   ParserUsageError,
   ParserValidationError,
-  parseArgvTail,
+  parseArgvTailWithSources,
+  suggestSimilar,
+  type CommandArgsRecord,
   type CommandOptionDefinition,
   type CommandOptionsRecord,
-  type ParseArgvResult,
+  type ParseArgvWithSourcesResult,
 } from "@reliverse/parser";
 import { detectTerminalSupport } from "@reliverse/reenv";
 import { createRelico } from "@reliverse/relico";
 
 import { createPromptRuntime } from "../prompts/adapter";
+import {
+  createAnsweredPromptAdapter,
+  loadPromptAnswersFile,
+  type PromptAnswers,
+} from "../prompts/answers";
+import { resolveCommandArgs } from "../runtime/args";
 import {
   inspectCommandTree,
   type CommandTreeNodeDiagnostic,
   type CommandTreeReport,
 } from "../runtime/command-diagnostics";
-import type { CommandNode } from "../runtime/command-source";
+import type { CommandNode, CommandSource } from "../runtime/command-source";
+import {
+  COMPLETE_COMMAND_SEGMENT,
+  createCompletionCommandSource,
+  formatCompletionCandidates,
+  resolveCompletions,
+} from "../runtime/completion";
 import { createCommandContext } from "../runtime/context";
-import { discoverCommandPath } from "../runtime/discover-command";
+import { discoverCommandPath, type DiscoveredCommandPath } from "../runtime/discover-command";
 import {
+  formatSuggestionHint,
   PromptUnavailableError,
   RemptsUsageError,
   RemptsValidationError,
@@ -29,19 +44,38 @@ import {
 import { executeCommand } from "../runtime/execute";
 import { createFileCommandSource } from "../runtime/file-source";
 import {
+  assertGlobalFlagValues,
   assertValidOptionDefinitions,
   getGlobalFlagDefinitions,
   parseGlobalFlags,
   type GlobalFlagConfig,
+  type GlobalFlagDefinition,
 } from "../runtime/global-flags";
 import { serializeHelpDocument } from "../runtime/help-json";
-import { buildCommandHelpDocument, buildLauncherHelpDocument } from "../runtime/help-model";
+import {
+  buildCommandHelpDocument,
+  buildLauncherHelpDocument,
+  type HelpDocument,
+} from "../runtime/help-model";
 import { renderHelpDocument } from "../runtime/help-render";
+import { collectCommandHooks, type CommandHooks } from "../runtime/hooks";
 import { createCommandInput } from "../runtime/input";
+import { createMCPCommandSource } from "../runtime/mcp-command";
+import {
+  getCommandConfigValues,
+  loadCommandOptionConfig,
+  resolveOptionConfigCwd,
+  type CommandOptionConfigOptions,
+  type LoadedCommandOptionConfig,
+} from "../runtime/option-config";
 import { createRuntimeOutput } from "../runtime/output";
-import { inspectPluginDiscovery, resolvePluginsFromReport } from "../runtime/plugin-discovery";
+import {
+  inspectPluginDiscovery,
+  resolvePluginsFromReport,
+  type PluginDiscoveryReport,
+} from "../runtime/plugin-discovery";
 import { createPluginCommandSource } from "../runtime/plugin-source";
-import { resolveEntry } from "../runtime/resolve-entry";
+import { resolveEntry, type ResolvedEntry } from "../runtime/resolve-entry";
 import { createCommandSafety } from "../runtime/safety";
 import type {
   OutputMode,
@@ -67,11 +101,36 @@ export interface CLIExecutionResult {
 
 export interface CreateCLIOptions {
   readonly entry: string;
+  /**
+   * Pre-recorded prompt answers keyed by prompt id or message. Answers loaded from the
+   * `--answers <file>` global flag take precedence over these.
+   */
+  readonly answers?: PromptAnswers | undefined;
   readonly argv?: readonly string[] | undefined;
+  /**
+   * Enables the built-in `completion <bash|zsh|fish>` command and the hidden `__complete`
+   * callback used by the generated scripts. Local and plugin commands named `completion` win.
+   */
+  readonly completion?: boolean | undefined;
+  /**
+   * Project config files that provide per-command option values under `commands`, keyed by
+   * command path. Config values rank below flags and env and above option defaults.
+   */
+  readonly config?: CommandOptionConfigOptions | undefined;
   readonly cwd?: string | undefined;
   readonly env?: NodeJS.ProcessEnv | undefined;
   readonly globalFlags?: GlobalFlagConfig | undefined;
+  /**
+   * Host middleware around every command. Host hooks wrap plugin hooks; plugin hooks follow
+   * plugin precedence (`plugins.conflictPriority`).
+   */
+  readonly hooks?: CommandHooks | undefined;
   readonly interactionMode?: RemptsHostInteractionMode | undefined;
+  /**
+   * Enables the built-in `mcp serve` command, which exposes every command as a Model Context
+   * Protocol tool over stdio. Local and plugin commands under `mcp` win.
+   */
+  readonly mcp?: boolean | undefined;
   readonly onError?: ((error: unknown) => Promise<void> | void) | undefined;
   readonly onExit?: ((result: CLIExecutionResult) => Promise<void> | void) | undefined;
   readonly outputMode?: OutputMode | undefined;
@@ -286,12 +345,14 @@ function toCommandRuntimeInfo<TOptions extends CommandOptionsRecord>(
         }
       | undefined;
     readonly interactive?: RemptsInteractionMode | undefined;
+    readonly args?: CommandArgsRecord | undefined;
     readonly options?: TOptions | undefined;
   },
 ): CommandRuntimeInfo<TOptions> {
   return {
     agent: definition.agent,
     aliases: definition.meta?.aliases ?? [],
+    args: definition.args,
     conventions: definition.conventions,
     description: definition.meta?.description,
     directoryPath: commandNode.directoryPath,
@@ -370,6 +431,15 @@ function createPluginNameUnknownCommandHint(options: {
   return `${prefix} Maybe you meant: ${suggestions.join(", ")}?`;
 }
 
+function getOwningPlugin(
+  plugins: readonly RemptsPlugin[],
+  commandNode: Pick<CommandNode, "sourceId" | "sourceKind">,
+): RemptsPlugin | undefined {
+  return commandNode.sourceKind === "plugin"
+    ? plugins.find((plugin) => plugin.name === commandNode.sourceId)
+    : undefined;
+}
+
 function mergeInheritedOptions(
   cliOptions: CommandOptionsRecord | undefined,
   pluginOptions: CommandOptionsRecord | undefined,
@@ -384,6 +454,156 @@ function mergeInheritedOptions(
   return Object.keys(merged).length > 0 ? merged : undefined;
 }
 
+/**
+ * Plugins, command sources, and effective option definitions for one CLI invocation. Shared by
+ * `createCLI` and `createMCPServer`, so both see the same merged command tree.
+ */
+export interface CommandSession {
+  readonly cliName: string;
+  readonly effectivePlugins: readonly RemptsPlugin[];
+  readonly globalFlagDefinitions: readonly GlobalFlagDefinition[];
+  readonly pluginDiscoveryEnabled: boolean;
+  readonly pluginDiscoveryReport?: PluginDiscoveryReport | undefined;
+  readonly resolvedEntry: ResolvedEntry;
+  readonly sources: readonly CommandSource[];
+  buildContainerHelpDocument(
+    target: DiscoveredCommandPath,
+    fallbackHelpText?: string | undefined,
+  ): HelpDocument;
+  loadEffectiveCommandOptions(commandNode: CommandNode): Promise<CommandOptionsRecord | undefined>;
+  loadHelpDocument(path: readonly string[]): Promise<HelpDocument | undefined>;
+}
+
+export async function resolveCommandSession(
+  options: CreateCLIOptions,
+  cwd: string,
+): Promise<CommandSession> {
+  const resolvedEntry = resolveEntry(options.entry);
+  const globalFlagDefinitions = getGlobalFlagDefinitions(options.globalFlags);
+  const cliName = getCLIName(resolvedEntry.entryFileName, options.meta?.name, process.argv);
+
+  const allowedPatterns = options.plugins?.allowedPatterns ?? [];
+  const conflictPriority = options.plugins?.conflictPriority ?? [];
+  const pluginsCwd = options.plugins?.cwd ?? cwd;
+  const pluginDiscoveryEnabled = options.plugins !== undefined;
+
+  let effectivePlugins: readonly RemptsPlugin[] = [];
+  let pluginDiscoveryReport = undefined;
+
+  if (pluginDiscoveryEnabled) {
+    pluginDiscoveryReport = await inspectPluginDiscovery({
+      allowedPatterns,
+      cliName,
+      conflictPriority,
+      cwd: pluginsCwd,
+      entryDirectory: resolvedEntry.entryDirectory,
+      entryFilePath: resolvedEntry.entryFilePath,
+    });
+    effectivePlugins = resolvePluginsFromReport(pluginDiscoveryReport);
+  }
+
+  assertNoPluginNameCollisions(effectivePlugins);
+
+  const sources = [
+    createFileCommandSource(resolvedEntry),
+    ...effectivePlugins.map((plugin) => createPluginCommandSource(plugin)),
+    ...(options.completion ? [createCompletionCommandSource(cliName)] : []),
+    ...(options.mcp
+      ? [
+          createMCPCommandSource(cliName, async (context) => {
+            // Loaded lazily because the MCP server runs its tools through createCLI.
+            const { createMCPServer } = await import("./create-mcp-server");
+
+            await createMCPServer({
+              ...options,
+              cwd,
+              env: context.env,
+              input: context.stdin,
+              output: context.stdout,
+            }).serve();
+          }),
+        ]
+      : []),
+  ];
+
+  const loadEffectiveCommandOptions = async (
+    commandNode: CommandNode,
+  ): Promise<CommandOptionsRecord | undefined> => {
+    const command = await commandNode.loadCommand?.();
+
+    if (!command) {
+      return undefined;
+    }
+
+    return withSafetyApplyOption(
+      mergeInheritedOptions(
+        options.options,
+        getOwningPlugin(effectivePlugins, commandNode)?.options,
+        command.options,
+      ),
+      command,
+    );
+  };
+
+  const buildContainerHelpDocument = (
+    target: DiscoveredCommandPath,
+    fallbackHelpText?: string | undefined,
+  ) =>
+    buildLauncherHelpDocument({
+      agentNotes: target.commandNode?.agent?.notes,
+      availableSubcommands: target.availableSubcommands,
+      commandPath: target.matchedPath,
+      description:
+        target.matchedPath.length > 0
+          ? (target.commandNode?.description ??
+            `Available subcommands for ${target.matchedPath.join(" ")}.`)
+          : options.meta?.description,
+      examples:
+        target.matchedPath.length > 0 ? target.commandNode?.examples : options.help?.examples,
+      conventions: target.commandNode?.conventions,
+      globalFlagDefinitions,
+      helpText: target.commandNode?.help ?? fallbackHelpText,
+      interactive: target.commandNode?.interactive ?? "never",
+      programName: cliName,
+    });
+
+  return {
+    buildContainerHelpDocument,
+    cliName,
+    effectivePlugins,
+    globalFlagDefinitions,
+    loadEffectiveCommandOptions,
+    async loadHelpDocument(path) {
+      const target = await discoverCommandPath(sources, path);
+
+      if (target.unknownSegment || target.remainingArgv.length > 0) {
+        return undefined;
+      }
+
+      const targetCommand = await target.commandNode?.loadCommand?.();
+
+      if (!target.commandNode || !targetCommand) {
+        return buildContainerHelpDocument(target);
+      }
+
+      return buildCommandHelpDocument({
+        availableSubcommands: target.availableSubcommands,
+        command: {
+          ...targetCommand,
+          options: await loadEffectiveCommandOptions(target.commandNode),
+        },
+        commandPath: target.matchedPath,
+        globalFlagDefinitions,
+        programName: cliName,
+      });
+    },
+    pluginDiscoveryEnabled,
+    pluginDiscoveryReport,
+    resolvedEntry,
+    sources,
+  };
+}
+
 export async function createCLI(options: CreateCLIOptions): Promise<CLIExecutionResult> {
   const argv = options.argv ?? process.argv.slice(2);
   const cwd = options.cwd ?? process.cwd();
@@ -406,36 +626,46 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
   });
 
   try {
-    const resolvedEntry = resolveEntry(options.entry);
-    const globalFlagDefinitions = getGlobalFlagDefinitions(options.globalFlags);
-    const cliName = getCLIName(resolvedEntry.entryFileName, options.meta?.name, process.argv);
-
-    const allowedPatterns = options.plugins?.allowedPatterns ?? [];
-    const conflictPriority = options.plugins?.conflictPriority ?? [];
-    const pluginsCwd = options.plugins?.cwd ?? cwd;
-    const pluginDiscoveryEnabled = options.plugins !== undefined;
-
-    let effectivePlugins: readonly RemptsPlugin[] = [];
-    let pluginDiscoveryReport = undefined;
-
-    if (pluginDiscoveryEnabled) {
-      pluginDiscoveryReport = await inspectPluginDiscovery({
-        allowedPatterns,
-        cliName,
-        conflictPriority,
-        cwd: pluginsCwd,
-        entryDirectory: resolvedEntry.entryDirectory,
-        entryFilePath: resolvedEntry.entryFilePath,
+    assertGlobalFlagValues(parsedGlobals);
+
+    const session = await resolveCommandSession(options, cwd);
+    const {
+      cliName,
+      effectivePlugins,
+      globalFlagDefinitions,
+      loadEffectiveCommandOptions,
+      pluginDiscoveryEnabled,
+      pluginDiscoveryReport,
+      resolvedEntry,
+      sources,
+    } = session;
+
+    if (options.completion && argv[0] === COMPLETE_COMMAND_SEGMENT) {
+      const candidates = await resolveCompletions({
+        globalFlagDefinitions,
+        globalFlags: options.globalFlags,
+        loadCommandOptions: loadEffectiveCommandOptions,
+        sources,
+        words: argv.slice(1),
       });
-      effectivePlugins = resolvePluginsFromReport(pluginDiscoveryReport);
-    }
 
-    assertNoPluginNameCollisions(effectivePlugins);
+      if (candidates.length > 0) {
+        stdout.write(`${formatCompletionCandidates(candidates)}\n`);
+      }
+
+      return finalizeResult(
+        getResult({
+          commandPath: [],
+          exitCode: 0,
+          globalFlags: parsedGlobals.flags,
+          isTTY: Boolean(stdin.isTTY) && terminal.stdout.isTTY,
+          isTUI: false,
+          outputMode,
+        }),
+        options.onExit,
+      );
+    }
 
-    const sources = [
-      createFileCommandSource(resolvedEntry),
-      ...effectivePlugins.map((plugin) => createPluginCommandSource(plugin)),
-    ];
     const commandDiagnostics = await inspectCommandTree(sources);
     const discovered = await discoverCommandPath(sources, parsedGlobals.argv);
 
@@ -447,25 +677,7 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
               pluginDiscoveryEnabled,
             })
           : undefined;
-      const launcherHelp = buildLauncherHelpDocument({
-        agentNotes: discovered.commandNode?.agent?.notes,
-        availableSubcommands: discovered.availableSubcommands,
-        commandPath: discovered.matchedPath,
-        description:
-          discovered.matchedPath.length > 0
-            ? (discovered.commandNode?.description ??
-              `Available subcommands for ${discovered.matchedPath.join(" ")}.`)
-            : options.meta?.description,
-        examples:
-          discovered.matchedPath.length > 0
-            ? discovered.commandNode?.examples
-            : options.help?.examples,
-        conventions: discovered.commandNode?.conventions,
-        globalFlagDefinitions,
-        helpText: discovered.commandNode?.help ?? emptyCliHelpText,
-        interactive: discovered.commandNode?.interactive ?? "never",
-        programName: cliName,
-      });
+      const launcherHelp = session.buildContainerHelpDocument(discovered, emptyCliHelpText);
 
       if (discovered.unknownSegment) {
         const pluginNameHint = createPluginNameUnknownCommandHint({
@@ -476,11 +688,24 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
           plugins: effectivePlugins,
           unknownSegment: discovered.unknownSegment,
         });
+        const suggestions = suggestSimilar(
+          discovered.unknownSegment,
+          discovered.availableSubcommands.flatMap((subcommand) => [
+            subcommand.name,
+            ...subcommand.aliases,
+          ]),
+        );
+        const suggestionHint = formatSuggestionHint(suggestions);
         output.problem({
           ...toStructuredRemptsError(
             new RemptsUsageError(`Unknown command "${discovered.unknownSegment}".`, 1, {
               code: "REMPTS_UNKNOWN_COMMAND",
-              hint: pluginNameHint ?? "Run --help to discover available commands.",
+              hint:
+                pluginNameHint ??
+                [suggestionHint, "Run --help to discover available commands."]
+                  .filter(Boolean)
+                  .join(" "),
+              suggestions: suggestions.length > 0 ? suggestions : undefined,
               usage: pluginNameHint ? undefined : launcherHelp.usage[0],
             }),
           ),
@@ -530,10 +755,7 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
     }
 
     const command = await loadCommand();
-    const owningPlugin =
-      resolvedCommandNode.sourceKind === "plugin"
-        ? effectivePlugins.find((plugin) => plugin.name === resolvedCommandNode.sourceId)
-        : undefined;
+    const owningPlugin = getOwningPlugin(effectivePlugins, resolvedCommandNode);
     assertValidOptionDefinitions(options.options, {
       config: options.globalFlags,
       owner: "CLI inherited",
@@ -588,10 +810,23 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
       );
     }
 
-    let parsed: ParseArgvResult<CommandOptionsRecord>;
+    let optionConfig: LoadedCommandOptionConfig | undefined;
+    let parsed: ParseArgvWithSourcesResult<CommandOptionsRecord>;
+    let commandArgs: Awaited<ReturnType<typeof resolveCommandArgs>>;
 
     try {
-      parsed = await parseArgvTail(discovered.remainingArgv, effectiveCommand.options, env);
+      // Loaded here so a broken config file is reported like any other usage problem.
+      optionConfig = options.config
+        ? await loadCommandOptionConfig(
+            resolveOptionConfigCwd(cwd, discovered.remainingArgv, effectiveCommand.options),
+            options.config,
+          )
+        : undefined;
+      parsed = await parseArgvTailWithSources(discovered.remainingArgv, effectiveCommand.options, {
+        config: getCommandConfigValues(optionConfig, discovered.matchedPath),
+        env,
+      });
+      commandArgs = await resolveCommandArgs(effectiveCommand.args, parsed.args);
     } catch (error) {
       if (
         error instanceof ParserUsageError ||
@@ -599,9 +834,16 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
         error instanceof RemptsUsageError ||
         error instanceof RemptsValidationError
       ) {
+        const structuredError = toStructuredRemptsError(error);
         output.problem({
-          ...toStructuredRemptsError(error),
-          hint: `Run "${commandHelp.usage[0]} --help" for examples and flag details.`,
+          ...structuredError,
+          hint: [
+            structuredError.hint,
+            formatSuggestionHint(structuredError.suggestions),
+            `Run "${commandHelp.usage[0]} --help" for examples and flag details.`,
+          ]
+            .filter(Boolean)
+            .join(" "),
           relatedCommand: commandName,
           usage: commandHelp.usage[0],
         });
@@ -635,6 +877,12 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
       tui: parsedGlobals.flags.tui,
     });
 
+    const fileAnswers = parsedGlobals.flags.answers
+      ? await loadPromptAnswersFile(parsedGlobals.flags.answers, cwd)
+      : undefined;
+    const answers =
+      options.answers || fileAnswers ? { ...options.answers, ...fileAnswers } : undefined;
+
     const safety = createCommandSafety({
       commandName,
       commandOptions: parsed.options,
@@ -642,10 +890,19 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
     });
 
     const context = createCommandContext({
-      args: parsed.args,
+      args: commandArgs,
       cli: {
         commandTree: commandDiagnostics,
+        async loadCommandOptions(path) {
+          const target = await discoverCommandPath(sources, path);
+
+          return target.commandNode && !target.unknownSegment && target.remainingArgv.length === 0
+            ? loadEffectiveCommandOptions(target.commandNode)
+            : undefined;
+        },
+        loadHelpDocument: session.loadHelpDocument,
         name: cliName,
+        optionConfig,
         pluginDiscovery: pluginDiscoveryReport,
       },
       cliPluginNames: effectivePlugins.map((plugin) => plugin.name),
@@ -667,15 +924,28 @@ export async function createCLI(options: CreateCLIOptions): Promise<CLIExecution
       isTTY: promptRuntime.isTTY,
       isTUI: promptRuntime.isTUI,
       options: parsed.options,
-      output,
+      optionSources: parsed.sources,
+      output: createRuntimeOutput({
+        mode: outputMode,
+        optionSources: parsed.sources,
+        stderr,
+        stdout,
+      }),
       safety,
       stdinMode: promptRuntime.stdinMode,
-      prompt: promptRuntime.prompt,
+      prompt: answers
+        ? createAnsweredPromptAdapter(answers, promptRuntime.prompt)
+        : promptRuntime.prompt,
+      rawArgs: parsed.args,
       stderr,
       stdin,
       stdout,
     });
-    const execution = await executeCommand(effectiveCommand, context);
+    const execution = await executeCommand(
+      effectiveCommand,
+      context,
+      collectCommandHooks(options.hooks, effectivePlugins),
+    );
 
     if (execution.unexpectedError && options.onError) {
       await options.onError(execution.unexpectedError);
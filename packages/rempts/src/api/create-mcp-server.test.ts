@@ -0,0 +1,253 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+
+import {
+  createMCPServer,
+  MCP_PROTOCOL_VERSION,
+  type MCPTool,
+  type MCPToolResult,
+} from "./create-mcp-server";
+
+const remptsEntryPath = join(import.meta.dir, "..", "index.ts");
+
+async function createToolsCLI(): Promise<{ readonly entry: string; readonly root: string }> {
+  const root = await mkdtemp(join(tmpdir(), "rempts-mcp-"));
+  const entry = join(root, "cli.ts");
+  await writeFile(entry, "#!/usr/bin/env bun\n", "utf8");
+
+  const commands: Record<string, readonly string[]> = {
+    echo: [
+      "export default defineCommand({",
+      '  meta: { name: "echo", description: "Echo positional args" },',
+      "  conventions: { idempotent: true },",
+      "  options: {",
+      '    loud: { type: "boolean", description: "Uppercase output" },',
+      '    verbose: { type: "count" },',
+      "  },",
+      "  async handler(ctx) {",
+      "    const words = ctx.args.map((word) => (ctx.options.loud ? word.toUpperCase() : word));",
+      "    ctx.output.result({ words });",
+      "  },",
+      "});",
+    ],
+    deploy: [
+      "export default defineCommand({",
+      '  meta: { name: "deploy", description: "Deploy a target" },',
+      '  args: { target: { type: "string", required: true, description: "Deploy target" } },',
+      '  options: { region: { type: "string", choices: ["eu", "us"], defaultValue: "eu" } },',
+      '  safety: { defaultMode: "preview", requiresApply: true, effects: ["fs.write", "network.publish"] },',
+      "  async handler(ctx) {",
+      "    ctx.output.result({ applied: ctx.safety.apply, region: ctx.options.region, target: ctx.args.target });",
+      "  },",
+      "});",
+    ],
+  };
+
+  for (const [name, body] of Object.entries(commands)) {
+    await mkdir(join(root, "cmds", name), { recursive: true });
+    await writeFile(
+      join(root, "cmds", name, "cmd.ts"),
+      [`import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`, "", ...body, ""].join(
+        "\n",
+      ),
+      "utf8",
+    );
+  }
+
+  return { entry, root };
+}
+
+async function createServer() {
+  const { entry, root } = await createToolsCLI();
+
+  return createMCPServer({
+    completion: true,
+    cwd: root,
+    entry,
+    env: {},
+    meta: { name: "mcp-test" },
+    version: "1.2.3",
+  });
+}
+
+async function callTool(
+  server: Awaited<ReturnType<typeof createServer>>,
+  name: string,
+  args: Record<string, unknown>,
+): Promise<MCPToolResult> {
+  const response = await server.handleMessage({
+    id: 1,
+    jsonrpc: "2.0",
+    method: "tools/call",
+    params: { arguments: args, name },
+  });
+
+  return response?.result as MCPToolResult;
+}
+
+describe("createMCPServer", () => {
+  test("initializes and lists commands as tools with option-derived schemas", async () => {
+    const server = await createServer();
+    const initialized = await server.handleMessage({
+      id: 0,
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26" },
+    });
+
+    expect(initialized?.result).toEqual({
+      capabilities: { tools: { listChanged: false } },
+      protocolVersion: "2025-03-26",
+      serverInfo: { name: "mcp-test", version: "1.2.3" },
+    });
+    expect(
+      await server.handleMessage({
+        id: 7,
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { protocolVersion: "2099-01-01" },
+      }),
+    ).toMatchObject({ result: { protocolVersion: MCP_PROTOCOL_VERSION } });
+    expect(
+      await server.handleMessage({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    ).toBeUndefined();
+
+    const listed = await server.handleMessage({ id: 1, jsonrpc: "2.0", method: "tools/list" });
+    const tools = (listed?.result as { readonly tools: readonly MCPTool[] }).tools;
+    const deploy = tools.find((tool) => tool.name === "deploy");
+
+    expect(tools.map((tool) => tool.name)).toEqual(["deploy", "echo"]);
+    expect(deploy?.annotations).toMatchObject({ openWorldHint: true, readOnlyHint: false });
+    expect(deploy?.description).toContain("approveEffects listing fs.write, network.publish");
+    expect(deploy?.inputSchema).toMatchObject({
+      properties: {
+        apply: { type: "boolean" },
+        approveEffects: { items: { enum: ["fs.write", "network.publish"] }, type: "array" },
+        args: { properties: { target: { type: "string" } }, required: ["target"] },
+        region: { default: "eu", enum: ["eu", "us"], type: "string" },
+      },
+      required: ["args"],
+      type: "object",
+    });
+  });
+
+  test("runs tools non-interactively and returns structured results", async () => {
+    const server = await createServer();
+    const result = await callTool(server, "echo", { args: ["hi", "--loud"], loud: true });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ words: ["HI", "--LOUD"] });
+
+    const invalid = await callTool(server, "deploy", { args: { target: "web" }, region: "ap" });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0]?.text).toContain('expected one of "eu", "us"');
+  });
+
+  test("refuses apply runs until every declared effect is approved", async () => {
+    const server = await createServer();
+
+    expect(
+      (await callTool(server, "deploy", { args: { target: "web" } })).structuredContent,
+    ).toEqual({ applied: false, region: "eu", target: "web" });
+
+    const refused = await callTool(server, "deploy", {
+      apply: true,
+      approveEffects: ["fs.write"],
+      args: { target: "web" },
+    });
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0]?.text).toContain("Unapproved: network.publish.");
+
+    const applied = await callTool(server, "deploy", {
+      apply: true,
+      approveEffects: ["fs.write", "network.publish"],
+      args: { target: "web" },
+      region: "us",
+    });
+    expect(applied.structuredContent).toEqual({ applied: true, region: "us", target: "web" });
+  });
+
+  test("rejects option values that do not match the declared type", async () => {
+    const server = await createServer();
+
+    for (const apply of ["true", 1, "yes"]) {
+      expect(
+        await server.handleMessage({
+          id: 4,
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { arguments: { apply, args: { target: "web" } }, name: "deploy" },
+        }),
+      ).toMatchObject({
+        error: { code: -32602, message: 'Argument "apply" must be of type boolean.' },
+      });
+    }
+
+    expect(
+      await server.handleMessage({
+        id: 5,
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { arguments: { region: { eu: true } }, name: "deploy" },
+      }),
+    ).toMatchObject({ error: { code: -32602 } });
+
+    for (const verbose of [-1, 1.5, 1_000_000_000]) {
+      expect(
+        await server.handleMessage({
+          id: 6,
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { arguments: { verbose }, name: "echo" },
+        }),
+      ).toMatchObject({
+        error: { code: -32602, message: 'Argument "verbose" must be an integer from 0 to 32.' },
+      });
+    }
+  });
+
+  test("reports JSON-RPC errors and serves newline-delimited messages", async () => {
+    const server = await createServer();
+
+    expect(
+      await server.handleMessage({
+        id: 2,
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { arguments: { nope: true }, name: "echo" },
+      }),
+    ).toMatchObject({
+      error: { code: -32602, message: 'Unknown argument "nope" for tool "echo".' },
+    });
+    expect(
+      await server.handleMessage({ id: 3, jsonrpc: "2.0", method: "resources/list" }),
+    ).toMatchObject({ error: { code: -32601 } });
+
+    const { entry, root } = await createToolsCLI();
+    const input = new PassThrough();
+    const chunks: string[] = [];
+    const serving = createMCPServer({
+      cwd: root,
+      entry,
+      env: {},
+      input,
+      output: {
+        write(chunk: string) {
+          chunks.push(chunk);
+          return true;
+        },
+      } as never,
+    }).serve();
+
+    input.end('not json\n{"jsonrpc":"2.0","id":7,"method":"ping"}\n');
+    await serving;
+
+    expect(chunks.map((chunk) => JSON.parse(chunk))).toEqual([
+      { error: { code: -32700, message: "Parse error." }, id: null, jsonrpc: "2.0" },
+      { id: 7, jsonrpc: "2.0", result: {} },
+    ]);
+  });
+});
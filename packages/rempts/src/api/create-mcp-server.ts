@@ -0,0 +1,608 @@
+import { createInterface } from "node:readline";
+
+import {
+  getOptionChoices,
+  isArrayOptionType,
+  toFlagName,
+  type CommandOptionDefinition,
+  type CommandOptionsRecord,
+} from "@reliverse/parser";
+
+import { inspectCommandTree } from "../runtime/command-diagnostics";
+import { discoverCommandPath } from "../runtime/discover-command";
+import type { HelpArgItem, HelpDocument } from "../runtime/help-model";
+import type { StandardJSONSchemaV1 } from "../types/standard-schema";
+import { resolveCommandSession, type CreateCLIOptions } from "./create-cli";
+import { runCLICaptured, type CLITestResult } from "./run-cli-for-test";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/** Protocol versions the server can speak, newest first; others get `MCP_PROTOCOL_VERSION`. */
+const SUPPORTED_MCP_PROTOCOL_VERSIONS: readonly string[] = [MCP_PROTOCOL_VERSION, "2025-03-26"];
+
+export interface CreateMCPServerOptions extends Omit<
+  CreateCLIOptions,
+  | "answers"
+  | "argv"
+  | "help"
+  | "interactionMode"
+  | "onExit"
+  | "outputMode"
+  | "stderr"
+  | "stdin"
+  | "stdout"
+> {
+  /** Command paths hidden from the tool list, with their subcommands. Built-ins are always hidden. */
+  readonly exclude?: ReadonlyArray<readonly string[]> | undefined;
+  /** JSON-RPC input. Defaults to `process.stdin`. */
+  readonly input?: NodeJS.ReadableStream | undefined;
+  /** JSON-RPC output. Defaults to `process.stdout`. */
+  readonly output?: Pick<NodeJS.WritableStream, "write"> | undefined;
+  /** Reported as `serverInfo.version` during initialization. */
+  readonly version?: string | undefined;
+}
+
+export interface MCPToolAnnotations {
+  readonly destructiveHint?: boolean | undefined;
+  readonly idempotentHint?: boolean | undefined;
+  readonly openWorldHint?: boolean | undefined;
+  readonly readOnlyHint?: boolean | undefined;
+}
+
+export interface MCPTool {
+  readonly annotations?: MCPToolAnnotations | undefined;
+  readonly description: string;
+  readonly inputSchema: Record<string, unknown>;
+  readonly name: string;
+  readonly title: string;
+}
+
+export interface MCPToolResult {
+  readonly content: ReadonlyArray<{ readonly text: string; readonly type: "text" }>;
+  readonly isError?: boolean | undefined;
+  readonly structuredContent?: Record<string, unknown> | undefined;
+}
+
+export interface JsonRpcResponse {
+  readonly error?:
+    | { readonly code: number; readonly data?: unknown; readonly message: string }
+    | undefined;
+  readonly id: number | string | null;
+  readonly jsonrpc: "2.0";
+  readonly result?: unknown;
+}
+
+export interface MCPServer {
+  /** Handles one JSON-RPC message. Notifications resolve to undefined. */
+  handleMessage(message: unknown): Promise<JsonRpcResponse | undefined>;
+  /** Reads newline-delimited JSON-RPC from `input` until it closes. */
+  serve(): Promise<void>;
+  tools(): Promise<readonly MCPTool[]>;
+}
+
+interface ToolEntry {
+  readonly args: readonly HelpArgItem[];
+  readonly document: HelpDocument;
+  readonly optionDefinitions: CommandOptionsRecord;
+  readonly path: readonly string[];
+  readonly tool: MCPTool;
+}
+
+/** Tool argument carrying positional args, as an object for declared args or a list otherwise. */
+const ARGS_PROPERTY = "args";
+
+/** Tool argument listing the safety effects the caller approves for an `apply: true` run. */
+const APPROVE_EFFECTS_PROPERTY = "approveEffects";
+
+/** Largest count option value a tool call may pass; each unit becomes one repeated flag. */
+const MAX_COUNT_OPTION_VALUE = 32;
+
+class MCPInvalidParamsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MCPInvalidParamsError";
+  }
+}
+
+function toToolName(cliName: string, path: readonly string[]): string {
+  return (path.length > 0 ? path.join("_") : cliName).replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getStandardJsonSchema(
+  definition: CommandOptionDefinition,
+): Record<string, unknown> | null {
+  const standard = (definition.schema as Partial<StandardJSONSchemaV1> | undefined)?.["~standard"];
+
+  if (!standard?.jsonSchema) {
+    return null;
+  }
+
+  try {
+    return standard.jsonSchema.input({ target: "draft-2020-12" });
+  } catch {
+    // Libraries may refuse to convert some schemas; the option type still describes the input.
+    return null;
+  }
+}
+
+function toOptionJsonSchema(definition: CommandOptionDefinition): Record<string, unknown> {
+  const choices = getOptionChoices(definition);
+  const itemType =
+    definition.type === "number" || definition.type === "number[]" ? "number" : "string";
+  const scalar: Record<string, unknown> =
+    definition.type === "boolean"
+      ? { type: "boolean" }
+      : definition.type === "count"
+        ? { maximum: MAX_COUNT_OPTION_VALUE, minimum: 0, type: "integer" }
+        : { type: itemType, ...(choices ? { enum: choices } : {}) };
+  const schema =
+    getStandardJsonSchema(definition) ??
+    (isArrayOptionType(definition.type) ? { items: scalar, type: "array" } : scalar);
+
+  return {
+    ...schema,
+    ...(definition.description ? { description: definition.description } : {}),
+    ...(definition.defaultValue === undefined ? {} : { default: definition.defaultValue }),
+  };
+}
+
+function toArgsJsonSchema(document: HelpDocument): Record<string, unknown> {
+  const args = document.args ?? [];
+
+  if (args.length === 0) {
+    return {
+      description: "Positional arguments, in order.",
+      items: { type: "string" },
+      type: "array",
+    };
+  }
+
+  return {
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      args.map((arg) => {
+        const scalar = { type: "string", ...(arg.choices ? { enum: arg.choices } : {}) };
+
+        return [
+          arg.name,
+          {
+            ...(arg.variadic ? { items: scalar, type: "array" } : scalar),
+            description: arg.description,
+          },
+        ];
+      }),
+    ),
+    required: args.filter((arg) => arg.required).map((arg) => arg.name),
+    type: "object",
+  };
+}
+
+function describeTool(document: HelpDocument): string {
+  const effects = document.safety?.effects ?? [];
+  const sections = [
+    document.description,
+    document.helpText,
+    document.agentNotes ? `Agent notes: ${document.agentNotes}` : undefined,
+    document.safety?.requiresApply
+      ? `Preview-only unless called with apply: true${effects.length > 0 ? ` and ${APPROVE_EFFECTS_PROPERTY} listing ${effects.join(", ")}` : ""}.`
+      : effects.length > 0
+        ? `Side effects: ${effects.join(", ")}.`
+        : undefined,
+  ];
+
+  return sections.filter(Boolean).join("\n\n");
+}
+
+function toToolAnnotations(document: HelpDocument): MCPToolAnnotations | undefined {
+  if (!document.safety && !document.conventions) {
+    return undefined;
+  }
+
+  const effects = document.safety?.effects ?? [];
+
+  return {
+    destructiveHint: effects.some((effect) => effect === "fs.delete"),
+    idempotentHint: document.conventions?.idempotent,
+    openWorldHint: effects.some((effect) => effect.startsWith("network.")),
+    readOnlyHint: document.safety ? effects.length === 0 : undefined,
+  };
+}
+
+function createTool(
+  cliName: string,
+  document: HelpDocument,
+  optionDefinitions: CommandOptionsRecord,
+): MCPTool {
+  const requiresApply = document.safety?.requiresApply === true;
+  const properties: Record<string, unknown> = {
+    [ARGS_PROPERTY]: toArgsJsonSchema(document),
+    ...(requiresApply
+      ? {
+          [APPROVE_EFFECTS_PROPERTY]: {
+            description: "Declared side effects approved for this call. Required with apply: true.",
+            items: { enum: document.safety?.effects ?? [], type: "string" },
+            type: "array",
+          },
+        }
+      : {}),
+  };
+  const required: string[] = [];
+
+  for (const [optionName, definition] of Object.entries(optionDefinitions)) {
+    properties[optionName] = toOptionJsonSchema(definition);
+
+    if (definition.required && definition.defaultValue === undefined) {
+      required.push(optionName);
+    }
+  }
+
+  if ((document.args ?? []).some((arg) => arg.required)) {
+    required.push(ARGS_PROPERTY);
+  }
+
+  return {
+    annotations: toToolAnnotations(document),
+    description: describeTool(document),
+    inputSchema: {
+      additionalProperties: false,
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      type: "object",
+    },
+    name: toToolName(cliName, document.commandPath),
+    title: [cliName, ...document.commandPath].join(" "),
+  };
+}
+
+function isScalarOptionValue(value: unknown): value is number | string {
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+}
+
+/**
+ * Checks a tool argument against its option type before it becomes argv. The CLI parser would
+ * read any value as a flag, so `apply: "yes"` must not reach it as `--apply`.
+ */
+function assertOptionValue(name: string, definition: CommandOptionDefinition, value: unknown) {
+  const valid =
+    definition.type === "boolean"
+      ? typeof value === "boolean"
+      : definition.type === "count"
+        ? value === true ||
+          (Number.isInteger(value) &&
+            (value as number) >= 0 &&
+            (value as number) <= MAX_COUNT_OPTION_VALUE)
+        : isArrayOptionType(definition.type)
+          ? Array.isArray(value) && value.every(isScalarOptionValue)
+          : isScalarOptionValue(value);
+
+  if (!valid) {
+    throw new MCPInvalidParamsError(
+      `Argument "${name}" must be ${definition.type === "count" ? `an integer from 0 to ${MAX_COUNT_OPTION_VALUE}` : `of type ${definition.type}`}.`,
+    );
+  }
+}
+
+function toOptionArgv(flagName: string, definition: CommandOptionDefinition, value: unknown) {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (definition.type === "boolean") {
+    return [value === false ? `--no-${flagName}` : `--${flagName}`];
+  }
+
+  if (definition.type === "count") {
+    return Array.from({ length: value === true ? 1 : Number(value) }, () => `--${flagName}`);
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+
+  return values.map((item) => `--${flagName}=${String(item)}`);
+}
+
+function toPositionalArgv(entry: ToolEntry, value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (entry.args.length === 0) {
+    if (!Array.isArray(value)) {
+      throw new MCPInvalidParamsError(`"${ARGS_PROPERTY}" must be an array of strings.`);
+    }
+
+    return value.map(String);
+  }
+
+  if (!isPlainObject(value)) {
+    throw new MCPInvalidParamsError(`"${ARGS_PROPERTY}" must be an object keyed by argument name.`);
+  }
+
+  const unknown = Object.keys(value).filter((name) => !entry.args.some((arg) => arg.name === name));
+
+  if (unknown.length > 0) {
+    throw new MCPInvalidParamsError(`Unknown argument "${unknown[0]}".`);
+  }
+
+  const positionals: string[] = [];
+
+  for (const arg of entry.args) {
+    const argValue = value[arg.name];
+
+    if (argValue === undefined || argValue === null) {
+      // Positionals are ordered, so later args cannot be supplied without this one.
+      break;
+    }
+
+    positionals.push(...(Array.isArray(argValue) ? argValue : [argValue]).map(String));
+  }
+
+  return positionals;
+}
+
+/**
+ * Converts tool arguments to argv for the command, or explains why the call is refused. Option
+ * values use `--flag=value` and positionals follow `--`, so values that start with `-` stay data.
+ */
+function toToolArgv(entry: ToolEntry, input: Record<string, unknown>): readonly string[] {
+  const argv: string[] = [];
+
+  for (const [name, value] of Object.entries(input)) {
+    if (name === ARGS_PROPERTY || name === APPROVE_EFFECTS_PROPERTY) {
+      continue;
+    }
+
+    const definition = entry.optionDefinitions[name];
+
+    if (!definition) {
+      throw new MCPInvalidParamsError(`Unknown argument "${name}" for tool "${entry.tool.name}".`);
+    }
+
+    if (value !== undefined && value !== null) {
+      assertOptionValue(name, definition, value);
+    }
+
+    argv.push(...toOptionArgv(toFlagName(name), definition, value));
+  }
+
+  return [...argv, "--", ...toPositionalArgv(entry, input[ARGS_PROPERTY])];
+}
+
+function getUnapprovedEffects(entry: ToolEntry, input: Record<string, unknown>): readonly string[] {
+  // Any value that would reach the CLI as `--apply` counts as an apply request.
+  if (
+    !entry.document.safety?.requiresApply ||
+    input.apply === undefined ||
+    input.apply === null ||
+    input.apply === false
+  ) {
+    return [];
+  }
+
+  const approved = Array.isArray(input[APPROVE_EFFECTS_PROPERTY])
+    ? (input[APPROVE_EFFECTS_PROPERTY] as readonly unknown[])
+    : [];
+
+  return (entry.document.safety.effects ?? []).filter((effect) => !approved.includes(effect));
+}
+
+function textResult(text: string, isError: boolean, structured?: unknown): MCPToolResult {
+  return {
+    content: [{ text, type: "text" }],
+    ...(isError ? { isError: true } : {}),
+    ...(isPlainObject(structured) ? { structuredContent: structured } : {}),
+  };
+}
+
+function toToolResult(result: CLITestResult): MCPToolResult {
+  if (result.ok) {
+    const data = result.structuredResult?.data;
+    const text =
+      data === undefined ? result.stdout.trim() || "(no output)" : JSON.stringify(data, null, 2);
+
+    return textResult(text, false, data);
+  }
+
+  const error = result.structuredError;
+  const text = error
+    ? [error.message, ...(error.issues ?? []).map((issue) => `- ${issue.message}`), error.hint]
+        .filter(Boolean)
+        .join("\n")
+    : result.stderr.trim() ||
+      result.stdout.trim() ||
+      `Command exited with code ${result.exitCode}.`;
+
+  return textResult(text, true, error);
+}
+
+function rpcResult(id: JsonRpcResponse["id"], result: unknown): JsonRpcResponse {
+  return { id, jsonrpc: "2.0", result };
+}
+
+function rpcError(id: JsonRpcResponse["id"], code: number, message: string): JsonRpcResponse {
+  return { error: { code, message }, id, jsonrpc: "2.0" };
+}
+
+function isExcluded(path: readonly string[], exclude: ReadonlyArray<readonly string[]>): boolean {
+  return exclude.some(
+    (prefix) =>
+      prefix.length <= path.length && prefix.every((segment, index) => path[index] === segment),
+  );
+}
+
+/**
+ * Serves a Rempts CLI as a Model Context Protocol server. Every command in the merged tree is a
+ * tool; calls run the CLI in-process in JSON mode with interaction disabled.
+ */
+export function createMCPServer(options: CreateMCPServerOptions): MCPServer {
+  const cwd = options.cwd ?? process.cwd();
+  const env = options.env ?? process.env;
+  let cliName = "rempts";
+  let catalog: Promise<ReadonlyMap<string, ToolEntry>> | undefined;
+
+  const loadCatalog = (): Promise<ReadonlyMap<string, ToolEntry>> => {
+    catalog ??= (async () => {
+      const session = await resolveCommandSession(options, cwd);
+      const commandTree = await inspectCommandTree(session.sources);
+      const entries = new Map<string, ToolEntry>();
+      cliName = session.cliName;
+
+      for (const node of commandTree.nodes) {
+        if (
+          !node.chosenCommand ||
+          node.chosenCommand.sourceKind === "builtin" ||
+          isExcluded(node.path, options.exclude ?? [])
+        ) {
+          continue;
+        }
+
+        const document = await session.loadHelpDocument(node.path);
+        const target = await discoverCommandPath(session.sources, node.path);
+
+        if (document?.scope !== "command" || !target.commandNode) {
+          continue;
+        }
+
+        const optionDefinitions =
+          (await session.loadEffectiveCommandOptions(target.commandNode)) ?? {};
+        const tool = createTool(session.cliName, document, optionDefinitions);
+        entries.set(tool.name, {
+          args: document.args ?? [],
+          document,
+          optionDefinitions,
+          path: node.path,
+          tool,
+        });
+      }
+
+      return entries;
+    })();
+
+    return catalog;
+  };
+
+  const callTool = async (params: Record<string, unknown>): Promise<MCPToolResult> => {
+    const name = params.name;
+
+    if (typeof name !== "string") {
+      throw new MCPInvalidParamsError('tools/call requires a string "name".');
+    }
+
+    const entry = (await loadCatalog()).get(name);
+
+    if (!entry) {
+      throw new MCPInvalidParamsError(`Unknown tool "${name}".`);
+    }
+
+    const input = params.arguments ?? {};
+
+    if (!isPlainObject(input)) {
+      throw new MCPInvalidParamsError('"arguments" must be an object.');
+    }
+
+    const argv = toToolArgv(entry, input);
+    const unapproved = getUnapprovedEffects(entry, input);
+
+    if (unapproved.length > 0) {
+      return textResult(
+        `Refusing to run "${entry.tool.title}" with apply: true. Approve its side effects by passing ${APPROVE_EFFECTS_PROPERTY}: ${JSON.stringify(entry.document.safety?.effects ?? [])}. Unapproved: ${unapproved.join(", ")}.`,
+        true,
+      );
+    }
+
+    const result = await runCLICaptured({
+      ...options,
+      argv: [...entry.path, ...argv],
+      cwd,
+      env,
+      interactionMode: "never",
+      outputMode: "json",
+    });
+
+    return toToolResult(result);
+  };
+
+  const handleMessage = async (message: unknown): Promise<JsonRpcResponse | undefined> => {
+    if (
+      !isPlainObject(message) ||
+      message.jsonrpc !== "2.0" ||
+      typeof message.method !== "string"
+    ) {
+      return rpcError(null, -32600, "Invalid JSON-RPC request.");
+    }
+
+    const hasId = typeof message.id === "string" || typeof message.id === "number";
+    const id = hasId ? (message.id as number | string) : null;
+    const params = isPlainObject(message.params) ? message.params : {};
+
+    if (!hasId) {
+      // Notifications such as notifications/initialized need no response.
+      return undefined;
+    }
+
+    try {
+      switch (message.method) {
+        case "initialize":
+          await loadCatalog();
+          return rpcResult(id, {
+            capabilities: { tools: { listChanged: false } },
+            protocolVersion:
+              typeof params.protocolVersion === "string" &&
+              SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+                ? params.protocolVersion
+                : MCP_PROTOCOL_VERSION,
+            serverInfo: { name: cliName, version: options.version ?? "0.0.0" },
+          });
+        case "ping":
+          return rpcResult(id, {});
+        case "tools/list":
+          return rpcResult(id, {
+            tools: [...(await loadCatalog()).values()].map((entry) => entry.tool),
+          });
+        case "tools/call":
+          return rpcResult(id, await callTool(params));
+        default:
+          return rpcError(id, -32601, `Method "${message.method}" is not supported.`);
+      }
+    } catch (error) {
+      return error instanceof MCPInvalidParamsError
+        ? rpcError(id, -32602, error.message)
+        : rpcError(id, -32603, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return {
+    handleMessage,
+    async serve() {
+      const output = options.output ?? process.stdout;
+      const lines = createInterface({ crlfDelay: Infinity, input: options.input ?? process.stdin });
+
+      for await (const line of lines) {
+        if (line.trim().length === 0) {
+          continue;
+        }
+
+        let message: unknown;
+
+        try {
+          message = JSON.parse(line);
+        } catch {
+          output.write(`${JSON.stringify(rpcError(null, -32700, "Parse error."))}\n`);
+          continue;
+        }
+
+        const response = await handleMessage(message);
+
+        if (response) {
+          output.write(`${JSON.stringify(response)}\n`);
+        }
+      }
+    },
+    async tools() {
+      return [...(await loadCatalog()).values()].map((entry) => entry.tool);
+    },
+  };
+}
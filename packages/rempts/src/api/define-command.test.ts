@@ -37,3 +37,36 @@ describe("defineCommand aliases", () => {
     ).toThrow("must be a single command segment");
   });
 });
+
+describe("defineCommand args", () => {
+  test("infers declared positional args into a typed ctx.args object", () => {
+    const command = defineCommand({
+      args: {
+        mode: { type: "string", choices: ["pack", "unpack"], required: true },
+        level: { type: "number" },
+        files: { type: "string", variadic: true },
+      },
+      handler(ctx) {
+        const mode: "pack" | "unpack" = ctx.args.mode;
+        const files: readonly string[] = ctx.args.files;
+        const level: number | undefined = ctx.args.level;
+        const rawArgs: readonly string[] = ctx.rawArgs;
+
+        return { files, level, mode, rawArgs };
+      },
+    });
+
+    expect(Object.keys(command.args ?? {})).toEqual(["mode", "level", "files"]);
+  });
+
+  test("keeps the raw positional list for commands without declared args", () => {
+    const command = defineCommand({
+      handler(ctx) {
+        const first: string | undefined = ctx.args[0];
+        return first;
+      },
+    });
+
+    expect(command.args).toBeUndefined();
+  });
+});
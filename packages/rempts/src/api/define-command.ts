@@ -1,6 +1,9 @@
 import type {
+    CommandArgsOutput,
+    CommandArgsRecord,
     CommandOptionsOutput,
     CommandOptionsRecord,
+    EmptyCommandArgs,
     EmptyCommandOptions,
     OptionInputSource,
 } from "@reliverse/parser";
@@ -9,8 +12,10 @@ import type { RelicoInstance } from "@reliverse/relico";
 import type { CommandTreeReport } from "../runtime/command-diagnostics";
 import type { RemptsExitSignal } from "../runtime/errors";
 import type { RemptsReservedOptionName } from "../runtime/global-flags";
+import type { HelpDocument } from "../runtime/help-model";
 import type { CommandInputAPI } from "../runtime/input";
 import type { InteractionPolicy } from "../runtime/noninteractive";
+import type { LoadedCommandOptionConfig } from "../runtime/option-config";
 import type { PluginDiscoveryReport } from "../runtime/plugin-discovery";
 import type {
     ConfirmationMode,
@@ -22,17 +27,25 @@ import type {
 
 export const COMMAND_DEFINITION_KIND = "@reliverse/rempts/command";
 
-export interface PromptInputOptions {
+/**
+ * Shared by every prompt kind. `flag` names the CLI flag that supplies the same value, so
+ * non-interactive failures can point automation at it (for example `--targets`). `id` is the
+ * stable key for pre-recorded answers; without it, answers are matched by message or title.
+ */
+export interface PromptBaseOptions {
+    readonly id?: string | undefined;
     readonly message?: string | undefined;
     readonly title?: string | undefined;
+    readonly flag?: string | undefined;
+}
+
+export interface PromptInputOptions extends PromptBaseOptions {
     readonly defaultValue?: string | undefined;
     readonly placeholder?: string | undefined;
     readonly required?: boolean | undefined;
 }
 
-export interface PromptConfirmOptions {
-    readonly message?: string | undefined;
-    readonly title?: string | undefined;
+export interface PromptConfirmOptions extends PromptBaseOptions {
     readonly defaultValue?: boolean | undefined;
 }
 
@@ -42,11 +55,49 @@ export interface PromptSelectOption<TValue extends string = string> {
     readonly description?: string | undefined;
 }
 
-export interface PromptSelectOptions<TValue extends string = string> {
-    readonly message?: string | undefined;
-    readonly title?: string | undefined;
+export interface PromptSelectOptions<TValue extends string = string>
+    extends PromptBaseOptions {
+    readonly options: ReadonlyArray<PromptSelectOption<TValue>>;
+    readonly defaultValue?: TValue | undefined;
+}
+
+export interface PromptMultiselectOptions<TValue extends string = string>
+    extends PromptBaseOptions {
+    readonly options: ReadonlyArray<PromptSelectOption<TValue>>;
+    readonly defaultValue?: ReadonlyArray<TValue> | undefined;
+    /** Require at least one selected option. */
+    readonly required?: boolean | undefined;
+}
+
+/** Masked input. There is no default value, so non-interactive runs always need the flag. */
+export interface PromptPasswordOptions extends PromptBaseOptions {
+    readonly mask?: string | undefined;
+    readonly required?: boolean | undefined;
+}
+
+export interface PromptNumberOptions extends PromptBaseOptions {
+    readonly defaultValue?: number | undefined;
+    readonly integer?: boolean | undefined;
+    readonly max?: number | undefined;
+    readonly min?: number | undefined;
+}
+
+/** Fuzzy search over a long option list. */
+export interface PromptAutocompleteOptions<TValue extends string = string>
+    extends PromptBaseOptions {
     readonly options: ReadonlyArray<PromptSelectOption<TValue>>;
     readonly defaultValue?: TValue | undefined;
+    /** Maximum number of matches shown at once. Defaults to 10. */
+    readonly limit?: number | undefined;
+    readonly placeholder?: string | undefined;
+}
+
+/** Opens `$VISUAL` / `$EDITOR` on a temp file seeded with `defaultValue`. */
+export interface PromptEditorOptions extends PromptBaseOptions {
+    readonly defaultValue?: string | undefined;
+    /** Temp file extension used for editor syntax highlighting, such as `.md`. */
+    readonly extension?: string | undefined;
+    readonly required?: boolean | undefined;
 }
 
 export interface CommandPromptAPI {
@@ -55,6 +106,15 @@ export interface CommandPromptAPI {
     select<TValue extends string>(
         options: PromptSelectOptions<TValue>,
     ): Promise<TValue>;
+    multiselect<TValue extends string>(
+        options: PromptMultiselectOptions<TValue>,
+    ): Promise<TValue[]>;
+    password(options: PromptPasswordOptions): Promise<string>;
+    number(options: PromptNumberOptions): Promise<number>;
+    autocomplete<TValue extends string>(
+        options: PromptAutocompleteOptions<TValue>,
+    ): Promise<TValue>;
+    editor(options: PromptEditorOptions): Promise<string>;
 }
 
 export interface CommandAgentMetadata {
@@ -106,33 +166,61 @@ export interface CommandRuntimeInfo<
     readonly name: string;
     readonly path: readonly string[];
     readonly sourceId: string;
-    readonly sourceKind: "file" | "plugin";
+    readonly sourceKind: "builtin" | "file" | "plugin";
     readonly description?: string | undefined;
     readonly aliases: readonly string[];
     readonly conventions?: CommandConventions | undefined;
     readonly examples: readonly string[];
     readonly help?: string | undefined;
     readonly interactive: RemptsInteractionMode;
+    readonly args?: CommandArgsRecord | undefined;
     readonly options?: TOptions | undefined;
     readonly safety?: CommandSafety | undefined;
     readonly filePath?: string | undefined;
     readonly directoryPath?: string | undefined;
 }
 
+/**
+ * Commands that declare `args` receive a typed object; commands without declarations keep the raw
+ * positional list so existing handlers continue to work unchanged. Type-erased commands (loaded
+ * at runtime, or seen by hooks) may hold either shape.
+ */
+export type CommandArgsValue<TArgs extends CommandArgsRecord> = [keyof TArgs] extends [never]
+    ? readonly string[]
+    : string extends keyof TArgs
+      ? CommandArgsOutput<TArgs> | readonly string[]
+      : CommandArgsOutput<TArgs>;
+
 export interface CommandContext<
     TOptions extends CommandOptionsRecord = EmptyCommandOptions,
+    TArgs extends CommandArgsRecord = EmptyCommandArgs,
 > {
-    readonly args: readonly string[];
+    readonly args: CommandArgsValue<TArgs>;
+    /** Positional argv tokens before argument validation, in their original order. */
+    readonly rawArgs: readonly string[];
     /** Plugin names discovered for `createCLI({ plugins })`, in precedence order. */
     readonly cliPluginNames: readonly string[];
     readonly cli?:
         | {
               readonly commandTree?: CommandTreeReport | undefined;
+              /** Resolves the effective option definitions of another command path. */
+              readonly loadCommandOptions?:
+                  | ((
+                        path: readonly string[],
+                    ) => Promise<CommandOptionsRecord | undefined>)
+                  | undefined;
+              /** Builds the help document of another command path, as `--help` would render it. */
+              readonly loadHelpDocument?:
+                  | ((path: readonly string[]) => Promise<HelpDocument | undefined>)
+                  | undefined;
               readonly name: string;
+              readonly optionConfig?: LoadedCommandOptionConfig | undefined;
               readonly pluginDiscovery?: PluginDiscoveryReport | undefined;
           }
         | undefined;
     readonly options: CommandOptionsOutput<TOptions>;
+    /** Input source of every resolved option value: flag, env, config, or default. */
+    readonly optionSources: Readonly<Record<string, OptionInputSource>>;
     readonly command: CommandRuntimeInfo<TOptions>;
     readonly cwd: string;
     readonly env: NodeJS.ProcessEnv;
@@ -161,6 +249,7 @@ export interface CommandContext<
 
 export interface CommandConfig<
     TOptions extends CommandOptionsRecord = EmptyCommandOptions,
+    TArgs extends CommandArgsRecord = EmptyCommandArgs,
 > {
     readonly agent?: CommandAgentMetadata | undefined;
     readonly meta?:
@@ -179,15 +268,21 @@ export interface CommandConfig<
           }
         | undefined;
     readonly interactive?: RemptsInteractionMode | undefined;
+    /**
+     * Named positional arguments, assigned from argv in declaration order and validated like
+     * options. Undeclared commands receive the raw positional list as `ctx.args`.
+     */
+    readonly args?: TArgs | undefined;
     readonly options?: TOptions | undefined;
     readonly handler: (
-        ctx: CommandContext<TOptions>,
+        ctx: CommandContext<TOptions, TArgs>,
     ) => Promise<unknown> | RemptsExitSignal | unknown;
 }
 
 export interface CommandDefinition<
     TOptions extends CommandOptionsRecord = EmptyCommandOptions,
-> extends CommandConfig<TOptions> {
+    TArgs extends CommandArgsRecord = EmptyCommandArgs,
+> extends CommandConfig<TOptions, TArgs> {
     readonly kind: typeof COMMAND_DEFINITION_KIND;
 }
 
@@ -236,9 +331,10 @@ function normalizeCommandAliases(meta: CommandConfig["meta"]): string[] {
 
 export function defineCommand<
     TOptions extends CommandOptionsRecord = EmptyCommandOptions,
+    const TArgs extends CommandArgsRecord = EmptyCommandArgs,
 >(
-    config: CommandConfig<TOptions> & RejectReservedOptionKeys<TOptions>,
-): CommandDefinition<TOptions> {
+    config: CommandConfig<TOptions, TArgs> & RejectReservedOptionKeys<TOptions>,
+): CommandDefinition<TOptions, TArgs> {
     const aliases = normalizeCommandAliases(config.meta);
     const examples = config.help?.examples ? [...config.help.examples] : [];
 
@@ -268,7 +364,7 @@ function isStringArray(value: unknown): value is ReadonlyArray<string> {
 
 export function isCommandDefinition(
     value: unknown,
-): value is CommandDefinition<CommandOptionsRecord> {
+): value is CommandDefinition<CommandOptionsRecord, CommandArgsRecord> {
     if (!isRecord(value)) {
         return false;
     }
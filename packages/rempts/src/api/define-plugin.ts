@@ -1,6 +1,7 @@
 import type { CommandOptionsRecord } from "@reliverse/parser";
 
 import { RemptsUsageError } from "../runtime/errors";
+import type { CommandHooks } from "../runtime/hooks";
 import { resolveEntry } from "../runtime/resolve-entry";
 import type { CommandDefinition } from "./define-command";
 
@@ -22,13 +23,15 @@ export interface RemptsPlugin {
     readonly config?: RemptsPluginConfigContribution | undefined;
     readonly description?: string | undefined;
     readonly entry: string;
+    /** Middleware applied to every command of the host CLI, ordered by plugin precedence. */
+    readonly hooks?: CommandHooks | undefined;
     readonly name: string;
     readonly options?: CommandOptionsRecord | undefined;
     readonly provides?: readonly string[] | undefined;
 }
 
 export interface RemptsPluginCommand {
-    readonly command: CommandDefinition<any>;
+    readonly command: CommandDefinition<any, any>;
     readonly path: readonly string[];
 }
 
@@ -88,6 +91,7 @@ export function definePlugin(plugin: RemptsPlugin): RemptsPlugin {
             : undefined,
         description: plugin.description,
         entry: plugin.entry,
+        hooks: plugin.hooks ? { ...plugin.hooks } : undefined,
         name: plugin.name,
         options: plugin.options ? { ...plugin.options } : undefined,
         provides: plugin.provides ? [...plugin.provides] : undefined,
@@ -1,8 +1,18 @@
-import type { CommandOptionsRecord, EmptyCommandOptions } from "@reliverse/parser";
+import type {
+  CommandArgsRecord,
+  CommandOptionsRecord,
+  EmptyCommandArgs,
+  EmptyCommandOptions,
+} from "@reliverse/parser";
 
 import type { CommandContext, CommandDefinition } from "./define-command";
 
-export interface InvokeCommandOptions<TOptions extends CommandOptionsRecord = EmptyCommandOptions> {
+export interface InvokeCommandOptions<
+  TOptions extends CommandOptionsRecord = EmptyCommandOptions,
+  TArgs extends CommandArgsRecord = EmptyCommandArgs,
+> {
+  /** Positional args for the invoked command. Defaults to the caller's args. */
+  readonly args?: CommandContext<TOptions, TArgs>["args"] | undefined;
   readonly name?: string | undefined;
   readonly options?: CommandContext<TOptions>["options"] | undefined;
   readonly path?: readonly string[] | undefined;
@@ -14,18 +24,23 @@ export interface InvokeCommandOptions<TOptions extends CommandOptionsRecord = Em
  * This is intentionally small: it does not re-parse argv, render help, or catch exit signals.
  * Callers that need full CLI dispatch should invoke the CLI entry instead.
  */
-export function invokeCommand<TOptions extends CommandOptionsRecord = EmptyCommandOptions>(
-  command: CommandDefinition<TOptions>,
+export function invokeCommand<
+  TOptions extends CommandOptionsRecord = EmptyCommandOptions,
+  TArgs extends CommandArgsRecord = EmptyCommandArgs,
+>(
+  command: CommandDefinition<TOptions, TArgs>,
   context: CommandContext,
-  options: InvokeCommandOptions<TOptions> = {},
+  options: InvokeCommandOptions<TOptions, TArgs> = {},
 ): Promise<unknown> | unknown {
   const path = options.path ?? context.command.path;
   const childContext = {
     ...context,
+    args: options.args ?? context.args,
     command: {
       ...context.command,
       agent: command.agent,
       aliases: command.meta?.aliases ?? [],
+      args: command.args,
       conventions: command.conventions,
       description: command.meta?.description,
       examples: command.help?.examples ?? [],
@@ -37,7 +52,7 @@ export function invokeCommand<TOptions extends CommandOptionsRecord = EmptyComma
       safety: command.safety,
     },
     options: (options.options ?? {}) as CommandContext<TOptions>["options"],
-  } as CommandContext<TOptions>;
+  } as CommandContext<TOptions, TArgs>;
 
   return command.handler(childContext);
 }
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { runCLIForTest } from "./run-cli-for-test";
+
+const remptsEntryPath = join(import.meta.dir, "..", "index.ts");
+
+async function createWizardCLI(): Promise<{ readonly entry: string; readonly root: string }> {
+  const root = await mkdtemp(join(tmpdir(), "rempts-test-harness-"));
+  const entry = join(root, "cli.ts");
+  const commandDir = join(root, "cmds", "onboard");
+  await mkdir(commandDir, { recursive: true });
+  await writeFile(entry, "#!/usr/bin/env bun\n", "utf8");
+  await writeFile(
+    join(commandDir, "cmd.ts"),
+    [
+      `import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`,
+      "",
+      "export default defineCommand({",
+      "  async handler(ctx) {",
+      '    const name = await ctx.prompt.input({ message: "Package name", flag: "--name" });',
+      "    const registry = await ctx.prompt.select({",
+      '      id: "registry",',
+      '      message: "Registry",',
+      "      options: [",
+      '        { label: "npm", value: "npm" },',
+      '        { label: "JSR", value: "jsr" },',
+      "      ],",
+      "    });",
+      '    const publish = await ctx.prompt.confirm({ message: "Publish now?" });',
+      '    const stdin = ctx.input.available ? await ctx.input.text() : "";',
+      "    ctx.output.result({ name, publish, registry, stdin });",
+      "  },",
+      "});",
+      "",
+    ].join("\n"),
+    "utf8",
+  );
+
+  return { entry, root };
+}
+
+describe("runCLIForTest", () => {
+  test("feeds scripted answers by message or id and captures structured results", async () => {
+    const { entry, root } = await createWizardCLI();
+    const result = await runCLIForTest({
+      answers: { "Package name": "my-lib", "Publish now?": true, registry: "jsr" },
+      argv: ["--json", "onboard"],
+      cwd: root,
+      entry,
+      meta: { name: "harness-test" },
+      stdin: "piped",
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.commandPath).toEqual(["onboard"]);
+    expect(result.structuredResult?.data).toEqual({
+      name: "my-lib",
+      publish: true,
+      registry: "jsr",
+      stdin: "piped",
+    });
+    expect(result.stderr).toBe("");
+  });
+
+  test("fails unanswered prompts the same way CI would", async () => {
+    const { entry, root } = await createWizardCLI();
+    const result = await runCLIForTest({
+      answers: { "Publish now?": true, registry: "npm" },
+      argv: ["--json", "onboard"],
+      cwd: root,
+      entry,
+      meta: { name: "harness-test" },
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.structuredError).toMatchObject({ kind: "prompt" });
+    expect(result.structuredError?.message).toContain("Pass --name to supply the value.");
+  });
+
+  test("rejects answers that do not fit the prompt", async () => {
+    const { entry, root } = await createWizardCLI();
+    const result = await runCLIForTest({
+      answers: { "Package name": "my-lib", registry: "deno.land" },
+      argv: ["--json", "onboard"],
+      cwd: root,
+      entry,
+      meta: { name: "harness-test" },
+    });
+
+    expect(result.structuredError).toMatchObject({
+      code: "REMPTS_PROMPT_ANSWER_INVALID",
+      message: 'Answer for prompt "registry" must be one of "npm", "jsr".',
+    });
+  });
+
+  test("replays answers from the --answers global flag", async () => {
+    const { entry, root } = await createWizardCLI();
+    await writeFile(
+      join(root, "answers.json"),
+      JSON.stringify({ "Package name": "from-file", "Publish now?": false, registry: "npm" }),
+      "utf8",
+    );
+
+    const result = await runCLIForTest({
+      answers: { "Package name": "from-options" },
+      argv: ["--json", "--answers", "answers.json", "onboard"],
+      cwd: root,
+      entry,
+      meta: { name: "harness-test" },
+    });
+
+    expect(result.globalFlags.answers).toBe("answers.json");
+    expect(result.structuredResult?.data).toMatchObject({ name: "from-file", publish: false });
+
+    const missing = await runCLIForTest({
+      argv: ["--json", "onboard", "--answers"],
+      cwd: root,
+      entry,
+      meta: { name: "harness-test" },
+    });
+
+    expect(missing.structuredError).toMatchObject({ code: "REMPTS_GLOBAL_FLAG_VALUE" });
+  });
+});
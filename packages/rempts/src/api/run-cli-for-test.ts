@@ -0,0 +1,114 @@
+import { Readable } from "node:stream";
+
+import type { PromptAnswers } from "../prompts/answers";
+import type { StructuredRemptsError, StructuredRemptsResult } from "../runtime/types";
+import { createCLI, type CLIExecutionResult, type CreateCLIOptions } from "./create-cli";
+
+export interface RunCLIForTestOptions extends Omit<
+  CreateCLIOptions,
+  "answers" | "argv" | "env" | "stderr" | "stdin" | "stdout"
+> {
+  /** Scripted prompt answers keyed by prompt id or message. */
+  readonly answers?: PromptAnswers | undefined;
+  readonly argv?: readonly string[] | undefined;
+  /** Defaults to an empty environment so host variables do not leak into assertions. */
+  readonly env?: NodeJS.ProcessEnv | undefined;
+  /** Piped stdin contents. Without it, stdin is an empty pipe. */
+  readonly stdin?: string | undefined;
+}
+
+export interface CLITestResult extends CLIExecutionResult {
+  readonly stderr: string;
+  readonly stdout: string;
+  /** Structured error emitted on stderr in `--json` mode. */
+  readonly structuredError?: StructuredRemptsError | undefined;
+  /** Last structured result emitted through `ctx.output.result(...)` in `--json` mode. */
+  readonly structuredResult?: StructuredRemptsResult | undefined;
+}
+
+function createCaptureStream() {
+  const chunks: string[] = [];
+
+  return {
+    stream: {
+      isTTY: false,
+      write(value: string | Uint8Array) {
+        chunks.push(typeof value === "string" ? value : Buffer.from(value).toString("utf8"));
+        return true;
+      },
+    } as unknown as typeof process.stdout,
+    text() {
+      return chunks.join("");
+    },
+  };
+}
+
+function createStdin(contents: string | undefined): typeof process.stdin {
+  const stream = Readable.from(contents === undefined ? [] : [contents]);
+
+  return Object.assign(stream, { isTTY: false }) as unknown as typeof process.stdin;
+}
+
+function parseJsonLines(text: string): readonly unknown[] {
+  return text.split("\n").flatMap((line) => {
+    if (!line.startsWith("{")) {
+      return [];
+    }
+
+    try {
+      return [JSON.parse(line) as unknown];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function isStructured<TValue>(marker: string) {
+  return (value: unknown): value is TValue =>
+    typeof value === "object" && value !== null && marker in value;
+}
+
+/**
+ * Runs a CLI in-process against captured stdout/stderr and a non-TTY stdin, then parses the
+ * structured result or error it emitted. `runCLIForTest` and `createMCPServer` share it.
+ */
+export async function runCLICaptured(
+  options: Omit<CreateCLIOptions, "stderr" | "stdin" | "stdout"> & {
+    readonly stdin?: string | undefined;
+  },
+): Promise<CLITestResult> {
+  const stdout = createCaptureStream();
+  const stderr = createCaptureStream();
+  const execution = await createCLI({
+    ...options,
+    stderr: stderr.stream as unknown as typeof process.stderr,
+    stdin: createStdin(options.stdin),
+    stdout: stdout.stream,
+  });
+  const stdoutText = stdout.text();
+  const stderrText = stderr.text();
+
+  return {
+    ...execution,
+    stderr: stderrText,
+    stdout: stdoutText,
+    structuredError: parseJsonLines(stderrText)
+      .filter(isStructured<StructuredRemptsError>("remptsError"))
+      .at(-1),
+    structuredResult: parseJsonLines(stdoutText)
+      .filter(isStructured<StructuredRemptsResult>("remptsResult"))
+      .at(-1),
+  };
+}
+
+/**
+ * Runs a CLI in-process with captured output, a non-TTY stdin and optional scripted prompt
+ * answers. Prompts without an answer fail the same way they would in CI.
+ */
+export async function runCLIForTest(options: RunCLIForTestOptions): Promise<CLITestResult> {
+  return runCLICaptured({
+    ...options,
+    argv: options.argv ?? [],
+    env: options.env ?? {},
+  });
+}
@@ -1,4 +1,19 @@
 export { createCLI, type CLIExecutionResult, type CreateCLIOptions } from "./api/create-cli";
+export {
+  runCLIForTest,
+  type CLITestResult,
+  type RunCLIForTestOptions,
+} from "./api/run-cli-for-test";
+export {
+  createMCPServer,
+  MCP_PROTOCOL_VERSION,
+  type CreateMCPServerOptions,
+  type JsonRpcResponse,
+  type MCPServer,
+  type MCPTool,
+  type MCPToolAnnotations,
+  type MCPToolResult,
+} from "./api/create-mcp-server";
 export { invokeCommand, type InvokeCommandOptions } from "./api/invoke-command";
 export {
   findHostPluginPackageRoot,
@@ -27,6 +42,36 @@ export {
   type CommandTreeNodeDiagnostic,
   type CommandTreeReport,
 } from "./runtime/command-diagnostics";
+export {
+  COMPLETION_SHELLS,
+  formatCompletionCandidates,
+  renderCompletionScript,
+  resolveCompletions,
+  type CompletionCandidate,
+  type CompletionShell,
+  type ResolveCompletionsOptions,
+} from "./runtime/completion";
+export type { CommandHookOutcome, CommandHooks } from "./runtime/hooks";
+export {
+  describeOptionSources,
+  getCommandConfigValues,
+  loadCommandOptionConfig,
+  type CommandOptionConfigOptions,
+  type LoadedCommandOptionConfig,
+  type OptionSourceEntry,
+} from "./runtime/option-config";
+export {
+  generateCommandReference,
+  getCommandManPagePath,
+  getCommandReferencePath,
+  renderCommandManPage,
+  renderCommandMarkdown,
+  syncCommandReference,
+  type CommandReferenceFile,
+  type CommandReferenceFormat,
+  type CommandReferenceSyncResult,
+  type GenerateCommandReferenceOptions,
+} from "./runtime/reference-docs";
 export {
   inspectPluginDiscovery,
   matchConflictPriorityRule,
@@ -44,6 +89,7 @@ export {
   defineCommand,
   isCommandDefinition,
   type CommandAgentMetadata,
+  type CommandArgsValue,
   type CommandConfig,
   type CommandContext,
   type CommandConventions,
@@ -54,23 +100,45 @@ export {
   type CommandInputAPI,
   type CommandPromptAPI,
   type CommandRuntimeInfo,
+  type PromptAutocompleteOptions,
+  type PromptBaseOptions,
   type PromptConfirmOptions,
+  type PromptEditorOptions,
   type PromptInputOptions,
+  type PromptMultiselectOptions,
+  type PromptNumberOptions,
+  type PromptPasswordOptions,
   type PromptSelectOption,
   type PromptSelectOptions,
 } from "./api/define-command";
 export {
+  autocompletePrompt,
   confirmPrompt,
   createPromptRuntime,
+  editorPrompt,
   inputPrompt,
+  multiselectPrompt,
+  numberPrompt,
+  passwordPrompt,
   selectPrompt,
   type PromptRuntimeOptions,
   type ResolvedPromptRuntime,
 } from "./prompts/adapter";
+export {
+  createAnsweredPromptAdapter,
+  loadPromptAnswersFile,
+  type PromptAnswers,
+} from "./prompts/answers";
 export { serializeHelpDocument, type HelpDocument } from "./runtime/help";
 export type {
+  CommandArgDefinition,
+  CommandArgsOutput,
+  CommandArgsRecord,
+  CommandArgType,
   CommandOptionDefinition,
+  EmptyCommandArgs,
   OptionInputSource,
+  OptionValueCompletion,
   CommandOptionsOutput,
   CommandOptionsRecord,
   CommandOptionType,
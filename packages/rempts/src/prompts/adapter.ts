@@ -1,7 +1,12 @@
 import type {
   CommandPromptAPI,
+  PromptAutocompleteOptions,
   PromptConfirmOptions,
+  PromptEditorOptions,
   PromptInputOptions,
+  PromptMultiselectOptions,
+  PromptNumberOptions,
+  PromptPasswordOptions,
   PromptSelectOptions,
 } from "../api/define-command";
 import { resolveInteractionPolicy, type InteractionPolicy } from "../runtime/noninteractive";
@@ -111,3 +116,38 @@ export async function selectPrompt<TValue extends string>(
   const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
   return runtime.prompt.select(options);
 }
+
+export async function multiselectPrompt<TValue extends string>(
+  options: PromptMultiselectOptions<TValue> & Partial<PromptRuntimeOptions>,
+): Promise<TValue[]> {
+  const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
+  return runtime.prompt.multiselect(options);
+}
+
+export async function passwordPrompt(
+  options: PromptPasswordOptions & Partial<PromptRuntimeOptions>,
+): Promise<string> {
+  const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
+  return runtime.prompt.password(options);
+}
+
+export async function numberPrompt(
+  options: PromptNumberOptions & Partial<PromptRuntimeOptions>,
+): Promise<number> {
+  const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
+  return runtime.prompt.number(options);
+}
+
+export async function autocompletePrompt<TValue extends string>(
+  options: PromptAutocompleteOptions<TValue> & Partial<PromptRuntimeOptions>,
+): Promise<TValue> {
+  const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
+  return runtime.prompt.autocomplete(options);
+}
+
+export async function editorPrompt(
+  options: PromptEditorOptions & Partial<PromptRuntimeOptions>,
+): Promise<string> {
+  const runtime = await createPromptRuntime(getDefaultPromptRuntimeOptions(options));
+  return runtime.prompt.editor(options);
+}
@@ -0,0 +1,191 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import type {
+  CommandPromptAPI,
+  PromptBaseOptions,
+  PromptSelectOption,
+} from "../api/define-command";
+import { RemptsUsageError } from "../runtime/errors";
+import { validatePromptNumber } from "./number";
+
+/**
+ * Pre-recorded prompt answers keyed by prompt `id`, falling back to `message` and then `title`.
+ * Values use the prompt's own result type: strings, booleans, numbers, or string arrays.
+ */
+export type PromptAnswers = Readonly<Record<string, unknown>>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getAnswerKeys(options: PromptBaseOptions): readonly string[] {
+  return [options.id, options.message, options.title].filter(
+    (key): key is string => key !== undefined,
+  );
+}
+
+function findAnswer(
+  answers: PromptAnswers,
+  options: PromptBaseOptions,
+): { readonly key: string; readonly value: unknown } | undefined {
+  for (const key of getAnswerKeys(options)) {
+    if (Object.hasOwn(answers, key)) {
+      return { key, value: answers[key] };
+    }
+  }
+
+  return undefined;
+}
+
+function createInvalidAnswerError(key: string, expected: string): RemptsUsageError {
+  return new RemptsUsageError(`Answer for prompt "${key}" must be ${expected}.`, 1, {
+    code: "REMPTS_PROMPT_ANSWER_INVALID",
+    hint: "Fix the value in the answers file or remove it to prompt interactively.",
+  });
+}
+
+function expectString(key: string, value: unknown): string {
+  if (typeof value !== "string") {
+    throw createInvalidAnswerError(key, "a string");
+  }
+
+  return value;
+}
+
+function expectOptionValue<TValue extends string>(
+  key: string,
+  value: unknown,
+  options: ReadonlyArray<PromptSelectOption<TValue>>,
+): TValue {
+  const match = options.find((option) => option.value === value || option.label === value);
+
+  if (!match) {
+    throw createInvalidAnswerError(
+      key,
+      `one of ${options.map((option) => `"${option.value}"`).join(", ")}`,
+    );
+  }
+
+  return match.value;
+}
+
+/**
+ * Wraps a prompt adapter so recorded answers win over interactive prompts. Prompts without an
+ * answer fall through to `fallback`, which keeps the usual non-interactive failure and hint.
+ */
+export function createAnsweredPromptAdapter(
+  answers: PromptAnswers,
+  fallback: CommandPromptAPI,
+): CommandPromptAPI {
+  return {
+    async autocomplete(options) {
+      const answer = findAnswer(answers, options);
+      return answer
+        ? expectOptionValue(answer.key, answer.value, options.options)
+        : fallback.autocomplete(options);
+    },
+
+    async confirm(options) {
+      const answer = findAnswer(answers, options);
+
+      if (!answer) {
+        return fallback.confirm(options);
+      }
+
+      if (typeof answer.value !== "boolean") {
+        throw createInvalidAnswerError(answer.key, "true or false");
+      }
+
+      return answer.value;
+    },
+
+    async editor(options) {
+      const answer = findAnswer(answers, options);
+      return answer ? expectString(answer.key, answer.value) : fallback.editor(options);
+    },
+
+    async input(options) {
+      const answer = findAnswer(answers, options);
+      return answer ? expectString(answer.key, answer.value) : fallback.input(options);
+    },
+
+    async multiselect(options) {
+      const answer = findAnswer(answers, options);
+
+      if (!answer) {
+        return fallback.multiselect(options);
+      }
+
+      if (!Array.isArray(answer.value)) {
+        throw createInvalidAnswerError(answer.key, "an array of option values");
+      }
+
+      return answer.value.map((value: unknown) =>
+        expectOptionValue(answer.key, value, options.options),
+      );
+    },
+
+    async number(options) {
+      const answer = findAnswer(answers, options);
+
+      if (!answer) {
+        return fallback.number(options);
+      }
+
+      const result =
+        typeof answer.value === "number" || typeof answer.value === "string"
+          ? validatePromptNumber(String(answer.value), options)
+          : { error: "Enter a valid number." };
+
+      if (typeof result !== "number") {
+        throw createInvalidAnswerError(answer.key, `a valid number (${result.error})`);
+      }
+
+      return result;
+    },
+
+    async password(options) {
+      const answer = findAnswer(answers, options);
+      return answer ? expectString(answer.key, answer.value) : fallback.password(options);
+    },
+
+    async select(options) {
+      const answer = findAnswer(answers, options);
+      return answer
+        ? expectOptionValue(answer.key, answer.value, options.options)
+        : fallback.select(options);
+    },
+  };
+}
+
+export async function loadPromptAnswersFile(filePath: string, cwd: string): Promise<PromptAnswers> {
+  const resolvedPath = resolve(cwd, filePath);
+  let rawText: string;
+
+  try {
+    rawText = await readFile(resolvedPath, "utf8");
+  } catch {
+    throw new RemptsUsageError(`Cannot read answers file "${filePath}".`, 1, {
+      code: "REMPTS_ANSWERS_FILE",
+      hint: "Pass a path to a JSON object keyed by prompt id or message.",
+    });
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(rawText);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (!isRecord(parsed)) {
+    throw new RemptsUsageError(`Answers file "${filePath}" must contain a JSON object.`, 1, {
+      code: "REMPTS_ANSWERS_FILE",
+      hint: 'Example: { "Package name": "my-lib", "confirm-publish": true }',
+    });
+  }
+
+  return parsed;
+}
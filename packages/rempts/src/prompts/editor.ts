@@ -0,0 +1,52 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { PromptUnavailableError } from "../runtime/errors";
+
+export function resolveEditorCommand(env: NodeJS.ProcessEnv): string[] {
+  const editor = env.VISUAL?.trim() || env.EDITOR?.trim();
+
+  if (editor) {
+    return editor.split(/\s+/);
+  }
+
+  return process.platform === "win32" ? ["notepad"] : ["vi"];
+}
+
+/**
+ * Seeds a temp file with `initialValue`, hands the terminal to the user's editor and returns
+ * the saved contents. The temp directory is removed afterwards, whether or not the editor
+ * succeeded.
+ */
+export async function editInExternalEditor(
+  env: NodeJS.ProcessEnv,
+  initialValue: string,
+  extension: string | undefined,
+): Promise<string> {
+  const directory = await mkdtemp(join(tmpdir(), "rempts-editor-"));
+  const filePath = join(directory, `prompt${extension ?? ".txt"}`);
+
+  try {
+    await writeFile(filePath, initialValue, "utf8");
+
+    const command = resolveEditorCommand(env);
+    const processHandle = Bun.spawn([...command, filePath], {
+      env,
+      stderr: "inherit",
+      stdin: "inherit",
+      stdout: "inherit",
+    });
+    const exitCode = await processHandle.exited;
+
+    if (exitCode !== 0) {
+      throw new PromptUnavailableError(
+        `Editor "${command.join(" ")}" exited with code ${exitCode}.`,
+      );
+    }
+
+    return await readFile(filePath, "utf8");
+  } finally {
+    await rm(directory, { force: true, recursive: true });
+  }
+}
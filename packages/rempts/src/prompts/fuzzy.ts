@@ -0,0 +1,52 @@
+import type { PromptSelectOption } from "../api/define-command";
+
+/**
+ * Scores `query` as an in-order subsequence of `text`. Returns `null` when some query
+ * character is missing; otherwise lower scores rank higher, favoring consecutive runs and
+ * matches that start early.
+ */
+function scoreSubsequence(query: string, text: string): number | null {
+  let score = 0;
+  let previousIndex = -1;
+
+  for (const character of query) {
+    const index = text.indexOf(character, previousIndex + 1);
+
+    if (index === -1) {
+      return null;
+    }
+
+    score += previousIndex === -1 ? index : index - previousIndex - 1;
+    previousIndex = index;
+  }
+
+  return score;
+}
+
+function scoreOption(query: string, option: PromptSelectOption<string>): number | null {
+  const scores = [option.label, option.value]
+    .map((text) => scoreSubsequence(query, text.toLowerCase()))
+    .filter((score): score is number => score !== null);
+
+  return scores.length > 0 ? Math.min(...scores) : null;
+}
+
+export function filterPromptOptions<TValue extends string>(
+  options: ReadonlyArray<PromptSelectOption<TValue>>,
+  query: string,
+): PromptSelectOption<TValue>[] {
+  const normalizedQuery = query.trim().toLowerCase();
+
+  if (normalizedQuery.length === 0) {
+    return [...options];
+  }
+
+  return options
+    .map((option, index) => ({ index, option, score: scoreOption(normalizedQuery, option) }))
+    .filter(
+      (entry): entry is { index: number; option: PromptSelectOption<TValue>; score: number } =>
+        entry.score !== null,
+    )
+    .sort((left, right) => left.score - right.score || left.index - right.index)
+    .map((entry) => entry.option);
+}
@@ -0,0 +1,31 @@
+import type { PromptNumberOptions } from "../api/define-command";
+
+export interface PromptNumberError {
+  readonly error: string;
+}
+
+export function validatePromptNumber(
+  rawValue: string,
+  options: PromptNumberOptions,
+): number | PromptNumberError {
+  const trimmedValue = rawValue.trim();
+  const value = Number(trimmedValue);
+
+  if (trimmedValue.length === 0 || !Number.isFinite(value)) {
+    return { error: "Enter a valid number." };
+  }
+
+  if (options.integer && !Number.isInteger(value)) {
+    return { error: "Enter a whole number." };
+  }
+
+  if (options.min !== undefined && value < options.min) {
+    return { error: `Enter a number greater than or equal to ${options.min}.` };
+  }
+
+  if (options.max !== undefined && value > options.max) {
+    return { error: `Enter a number less than or equal to ${options.max}.` };
+  }
+
+  return value;
+}
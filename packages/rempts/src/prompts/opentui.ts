@@ -1,13 +1,21 @@
 import type {
   CommandPromptAPI,
+  PromptAutocompleteOptions,
   PromptConfirmOptions,
+  PromptEditorOptions,
   PromptInputOptions,
+  PromptMultiselectOptions,
+  PromptNumberOptions,
+  PromptPasswordOptions,
   PromptSelectOptions,
   PromptSelectOption,
 } from "../api/define-command";
 import { PromptUnavailableError } from "../runtime/errors";
 import type { InteractionPolicy } from "../runtime/noninteractive";
 import type { PromptRuntimeOptions } from "./adapter";
+import { editInExternalEditor } from "./editor";
+import { filterPromptOptions } from "./fuzzy";
+import { validatePromptNumber } from "./number";
 
 type OpenTUIRenderer = {
   readonly root: {
@@ -23,8 +31,11 @@ type OpenTUIRenderer = {
 
 type OpenTUIRenderable = {
   add?(child: unknown): void;
+  content?: unknown;
   focus?(): void;
   on?(event: unknown, listener: (...args: readonly unknown[]) => void): void;
+  options?: unknown;
+  setSelectedIndex?(index: number): void;
   value?: unknown;
 };
 
@@ -75,6 +86,34 @@ function isCtrlKey(value: unknown): boolean {
   return isRecord(value) && value.ctrl === true;
 }
 
+function isCancelKey(value: unknown): boolean {
+  const keyName = getKeyName(value);
+  return keyName === "escape" || (isCtrlKey(value) && keyName === "c");
+}
+
+function getPrintableSequence(value: unknown): string | undefined {
+  if (!isRecord(value) || isCtrlKey(value) || value.meta === true) {
+    return undefined;
+  }
+
+  const sequence = value.sequence;
+
+  return typeof sequence === "string" && sequence.length === 1 && sequence >= " "
+    ? sequence
+    : undefined;
+}
+
+function toRenderableOptions(
+  options: ReadonlyArray<PromptSelectOption<string>>,
+  labelPrefix?: ((option: PromptSelectOption<string>) => string) | undefined,
+): Record<string, unknown>[] {
+  return options.map((option) => ({
+    description: option.description,
+    name: `${labelPrefix?.(option) ?? ""}${option.label}`,
+    value: option.value,
+  }));
+}
+
 function resolveEventToken(
   events: Record<string, unknown> | undefined,
   key: string,
@@ -167,6 +206,7 @@ function createCancellationError(message: string): PromptUnavailableError {
 async function runInputPrompt(
   moduleShape: OpenTUIModuleShape,
   options: PromptInputOptions,
+  accept: (value: string) => boolean = () => true,
 ): Promise<string> {
   if (!moduleShape.InputRenderable) {
     throw createCancellationError("OpenTUI input prompt support is unavailable.");
@@ -204,7 +244,7 @@ async function runInputPrompt(
         const finalValue = typeof input.value === "string" ? input.value : currentValue;
         const normalizedValue = finalValue.trim() || options.defaultValue || "";
 
-        if (normalizedValue.length === 0 && options.required) {
+        if ((normalizedValue.length === 0 && options.required) || !accept(normalizedValue)) {
           return;
         }
 
@@ -243,11 +283,7 @@ async function runSelectPrompt<TValue extends string>(
   const select = new moduleShape.SelectRenderable(renderer, {
     height: Math.max(3, options.options.length + 1),
     id: "rempts-select",
-    options: options.options.map((option) => ({
-      description: option.description,
-      name: option.label,
-      value: option.value,
-    })),
+    options: toRenderableOptions(options.options),
     selectedIndex,
     width: 64,
   });
@@ -295,6 +331,264 @@ async function runSelectPrompt<TValue extends string>(
   });
 }
 
+async function runMultiselectPrompt<TValue extends string>(
+  moduleShape: OpenTUIModuleShape,
+  options: PromptMultiselectOptions<TValue>,
+): Promise<TValue[]> {
+  const renderer = await createRenderer(moduleShape);
+  const selectedValues = new Set<string>(options.defaultValue ?? []);
+  const renderOptions = () =>
+    toRenderableOptions(options.options, (option) =>
+      selectedValues.has(option.value) ? "[x] " : "[ ] ",
+    );
+  const select = new moduleShape.SelectRenderable(renderer, {
+    height: Math.max(3, options.options.length + 1),
+    id: "rempts-multiselect",
+    options: renderOptions(),
+    selectedIndex: 0,
+    width: 64,
+  });
+  const selectionChangedEvent = resolveEventToken(
+    moduleShape.SelectRenderableEvents,
+    "SELECTION_CHANGED",
+    "selection-changed",
+  );
+  const itemSelectedEvent = resolveEventToken(
+    moduleShape.SelectRenderableEvents,
+    "ITEM_SELECTED",
+    "item-selected",
+  );
+  let activeIndex = 0;
+
+  return await new Promise<TValue[]>((resolve, reject) => {
+    const settle = (callback: () => void) => {
+      try {
+        callback();
+      } finally {
+        closeRenderer(renderer);
+      }
+    };
+
+    select.on?.(selectionChangedEvent, (index) => {
+      if (typeof index === "number") {
+        activeIndex = index;
+      }
+    });
+
+    select.on?.(itemSelectedEvent, () => {
+      if (options.required && selectedValues.size === 0) {
+        return;
+      }
+
+      settle(() =>
+        resolve(
+          options.options
+            .filter((option) => selectedValues.has(option.value))
+            .map((option) => option.value),
+        ),
+      );
+    });
+
+    renderer.keyInput.on("keypress", (keyValue) => {
+      if (getKeyName(keyValue) === "space") {
+        const option = options.options[activeIndex];
+
+        if (option) {
+          if (selectedValues.has(option.value)) {
+            selectedValues.delete(option.value);
+          } else {
+            selectedValues.add(option.value);
+          }
+
+          select.options = renderOptions();
+          select.setSelectedIndex?.(activeIndex);
+          renderer.requestRender?.();
+        }
+
+        return;
+      }
+
+      if (isCancelKey(keyValue)) {
+        settle(() => reject(createCancellationError("Prompt cancelled.")));
+      }
+    });
+
+    createPromptContainer(
+      moduleShape,
+      renderer,
+      `${normalizePromptMessage(options.message, options.title)} (space to toggle, enter to confirm)`,
+      select,
+      Math.max(7, options.options.length + 5),
+    );
+    select.focus?.();
+    renderer.requestRender?.();
+  });
+}
+
+async function runPasswordPrompt(
+  moduleShape: OpenTUIModuleShape,
+  options: PromptPasswordOptions,
+): Promise<string> {
+  const renderer = await createRenderer(moduleShape);
+  const mask = options.mask ?? "*";
+  const field = new moduleShape.TextRenderable(renderer, {
+    content: "",
+    id: "rempts-password",
+  });
+  let currentValue = "";
+
+  return await new Promise<string>((resolve, reject) => {
+    const settle = (callback: () => void) => {
+      try {
+        callback();
+      } finally {
+        closeRenderer(renderer);
+      }
+    };
+
+    renderer.keyInput.on("keypress", (keyValue) => {
+      const keyName = getKeyName(keyValue);
+
+      if (keyName === "enter") {
+        if (currentValue.length === 0 && options.required) {
+          return;
+        }
+
+        settle(() => resolve(currentValue));
+        return;
+      }
+
+      if (isCancelKey(keyValue)) {
+        settle(() => reject(createCancellationError("Prompt cancelled.")));
+        return;
+      }
+
+      if (keyName === "backspace") {
+        currentValue = currentValue.slice(0, -1);
+      } else {
+        const sequence = getPrintableSequence(keyValue);
+
+        if (sequence === undefined) {
+          return;
+        }
+
+        currentValue += sequence;
+      }
+
+      field.content = mask.repeat(currentValue.length);
+      renderer.requestRender?.();
+    });
+
+    createPromptContainer(
+      moduleShape,
+      renderer,
+      normalizePromptMessage(options.message, options.title),
+      field,
+      7,
+    );
+    renderer.requestRender?.();
+  });
+}
+
+async function runAutocompletePrompt<TValue extends string>(
+  moduleShape: OpenTUIModuleShape,
+  options: PromptAutocompleteOptions<TValue>,
+): Promise<TValue> {
+  if (!moduleShape.InputRenderable) {
+    throw createCancellationError("OpenTUI input prompt support is unavailable.");
+  }
+
+  const renderer = await createRenderer(moduleShape);
+  const limit = options.limit ?? 10;
+  let matches = filterPromptOptions(options.options, "").slice(0, limit);
+  let activeIndex = Math.max(
+    0,
+    matches.findIndex((option) => option.value === options.defaultValue),
+  );
+  const body = new moduleShape.BoxRenderable(renderer, {
+    flexDirection: "column",
+    id: "rempts-autocomplete",
+    width: 68,
+  });
+  const input = new moduleShape.InputRenderable(renderer, {
+    id: "rempts-autocomplete-input",
+    placeholder: options.placeholder ?? "Type to search",
+    width: 64,
+  });
+  const select = new moduleShape.SelectRenderable(renderer, {
+    height: Math.max(3, limit + 1),
+    id: "rempts-autocomplete-select",
+    options: toRenderableOptions(matches),
+    selectedIndex: activeIndex,
+    width: 64,
+  });
+  const inputEvent = resolveEventToken(moduleShape.InputRenderableEvents, "INPUT", "input");
+
+  body.add?.(input);
+  body.add?.(select);
+
+  return await new Promise<TValue>((resolve, reject) => {
+    const settle = (callback: () => void) => {
+      try {
+        callback();
+      } finally {
+        closeRenderer(renderer);
+      }
+    };
+
+    input.on?.(inputEvent, (nextValue) => {
+      if (typeof nextValue !== "string") {
+        return;
+      }
+
+      matches = filterPromptOptions(options.options, nextValue).slice(0, limit);
+      activeIndex = 0;
+      select.options = toRenderableOptions(matches);
+      select.setSelectedIndex?.(activeIndex);
+      renderer.requestRender?.();
+    });
+
+    renderer.keyInput.on("keypress", (keyValue) => {
+      const keyName = getKeyName(keyValue);
+
+      if (keyName === "up" || keyName === "down") {
+        if (matches.length > 0) {
+          const offset = keyName === "up" ? -1 : 1;
+          activeIndex = (activeIndex + offset + matches.length) % matches.length;
+          select.setSelectedIndex?.(activeIndex);
+          renderer.requestRender?.();
+        }
+
+        return;
+      }
+
+      if (keyName === "enter") {
+        const match = matches[activeIndex];
+
+        if (match) {
+          settle(() => resolve(match.value));
+        }
+
+        return;
+      }
+
+      if (isCancelKey(keyValue)) {
+        settle(() => reject(createCancellationError("Prompt cancelled.")));
+      }
+    });
+
+    createPromptContainer(
+      moduleShape,
+      renderer,
+      normalizePromptMessage(options.message, options.title),
+      body,
+      Math.max(9, limit + 7),
+    );
+    input.focus?.();
+    renderer.requestRender?.();
+  });
+}
+
 export async function createOpenTUIPromptAdapter(
   options: OpenTUIPromptRuntimeOptions,
 ): Promise<CommandPromptAPI | null> {
@@ -332,6 +626,51 @@ export async function createOpenTUIPromptAdapter(
     ): Promise<TValue> {
       return runSelectPrompt(moduleShape, promptOptions);
     },
+
+    async multiselect<TValue extends string>(
+      promptOptions: PromptMultiselectOptions<TValue>,
+    ): Promise<TValue[]> {
+      return runMultiselectPrompt(moduleShape, promptOptions);
+    },
+
+    async password(promptOptions: PromptPasswordOptions): Promise<string> {
+      return runPasswordPrompt(moduleShape, promptOptions);
+    },
+
+    async number(promptOptions: PromptNumberOptions): Promise<number> {
+      const value = await runInputPrompt(
+        moduleShape,
+        {
+          defaultValue: promptOptions.defaultValue?.toString(),
+          message: promptOptions.message,
+          required: true,
+          title: promptOptions.title,
+        },
+        (rawValue) => typeof validatePromptNumber(rawValue, promptOptions) === "number",
+      );
+
+      return Number(value);
+    },
+
+    async autocomplete<TValue extends string>(
+      promptOptions: PromptAutocompleteOptions<TValue>,
+    ): Promise<TValue> {
+      return runAutocompletePrompt(moduleShape, promptOptions);
+    },
+
+    async editor(promptOptions: PromptEditorOptions): Promise<string> {
+      while (true) {
+        const value = await editInExternalEditor(
+          options.env,
+          promptOptions.defaultValue ?? "",
+          promptOptions.extension,
+        );
+
+        if (value.trim().length > 0 || !promptOptions.required) {
+          return value;
+        }
+      }
+    },
   };
 }
 
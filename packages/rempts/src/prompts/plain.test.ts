@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+
+import { PromptUnavailableError } from "../runtime/errors";
+import { resolveInteractionPolicy } from "../runtime/noninteractive";
+import { filterPromptOptions } from "./fuzzy";
+import { validatePromptNumber } from "./number";
+import { createPlainPromptAdapter } from "./plain";
+
+function createNoInputAdapter() {
+  const stdin = { isTTY: true } as typeof process.stdin;
+  const stdout = { isTTY: true, write: () => true } as unknown as typeof process.stdout;
+
+  return createPlainPromptAdapter({
+    env: {},
+    interaction: resolveInteractionPolicy({
+      commandMode: "tty",
+      env: {},
+      noInput: true,
+      stdin,
+      stdout,
+    }),
+    stderr: stdout as unknown as typeof process.stderr,
+    stdin,
+    stdout,
+  });
+}
+
+const packageOptions = [
+  { label: "rempts", value: "packages/rempts" },
+  { label: "parser", value: "packages/parser" },
+  { label: "dler", value: "plugins/dler" },
+] as const;
+
+describe("plain prompt adapter under --no-input", () => {
+  test("fails every prompt kind with a flag hint when no default exists", async () => {
+    const prompt = createNoInputAdapter();
+    const attempts = [
+      prompt.multiselect({ flag: "--targets", message: "Targets", options: packageOptions }),
+      prompt.password({ flag: "--token", message: "Token" }),
+      prompt.number({ flag: "--concurrency", message: "Concurrency" }),
+      prompt.autocomplete({ flag: "--target", message: "Target", options: packageOptions }),
+      prompt.editor({ flag: "--notes", message: "Release notes" }),
+    ];
+
+    for (const [index, attempt] of attempts.entries()) {
+      const error = await attempt.catch((caught: unknown) => caught);
+      const flag = ["--targets", "--token", "--concurrency", "--target", "--notes"][index];
+
+      expect(error).toBeInstanceOf(PromptUnavailableError);
+      expect((error as Error).message).toContain(`Pass ${flag} to supply the value.`);
+    }
+  });
+
+  test("returns defaults instead of failing when one is provided", async () => {
+    const prompt = createNoInputAdapter();
+
+    expect(
+      await prompt.multiselect({ defaultValue: ["plugins/dler"], options: packageOptions }),
+    ).toEqual(["plugins/dler"]);
+    expect(await prompt.number({ defaultValue: 4 })).toBe(4);
+    expect(
+      await prompt.autocomplete({ defaultValue: "packages/parser", options: packageOptions }),
+    ).toBe("packages/parser");
+    expect(await prompt.editor({ defaultValue: "notes" })).toBe("notes");
+  });
+
+  test("password never falls back to a default", async () => {
+    await expect(createNoInputAdapter().password({ message: "Token" })).rejects.toThrow(
+      PromptUnavailableError,
+    );
+  });
+});
+
+describe("filterPromptOptions", () => {
+  test("matches subsequences of labels and values, best matches first", () => {
+    expect(filterPromptOptions(packageOptions, "plg").map((option) => option.label)).toEqual([
+      "dler",
+    ]);
+    expect(filterPromptOptions(packageOptions, "par").map((option) => option.label)).toEqual([
+      "parser",
+      "rempts",
+    ]);
+  });
+
+  test("keeps original order for an empty query", () => {
+    expect(filterPromptOptions(packageOptions, "  ")).toEqual([...packageOptions]);
+  });
+});
+
+describe("validatePromptNumber", () => {
+  test("enforces numeric, integer and range constraints", () => {
+    expect(validatePromptNumber("12", { max: 16, min: 1 })).toBe(12);
+    expect(validatePromptNumber("abc", {})).toEqual({ error: "Enter a valid number." });
+    expect(validatePromptNumber("1.5", { integer: true })).toEqual({
+      error: "Enter a whole number.",
+    });
+    expect(validatePromptNumber("0", { min: 1 })).toEqual({
+      error: "Enter a number greater than or equal to 1.",
+    });
+  });
+});
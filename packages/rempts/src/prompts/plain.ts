@@ -1,13 +1,24 @@
 import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
 
 import type {
   CommandPromptAPI,
+  PromptAutocompleteOptions,
+  PromptBaseOptions,
   PromptConfirmOptions,
+  PromptEditorOptions,
   PromptInputOptions,
+  PromptMultiselectOptions,
+  PromptNumberOptions,
+  PromptPasswordOptions,
+  PromptSelectOption,
   PromptSelectOptions,
 } from "../api/define-command";
 import { PromptUnavailableError } from "../runtime/errors";
 import { getPromptUnavailableMessage, type InteractionPolicy } from "../runtime/noninteractive";
+import { editInExternalEditor } from "./editor";
+import { filterPromptOptions } from "./fuzzy";
+import { validatePromptNumber } from "./number";
 
 export interface PlainPromptAdapterOptions {
   readonly env: NodeJS.ProcessEnv;
@@ -19,12 +30,23 @@ export interface PlainPromptAdapterOptions {
 
 type OutputStream = Pick<typeof process.stdout, "write">;
 
-function getPromptMessage(
-  options: PromptConfirmOptions | PromptInputOptions | PromptSelectOptions<string>,
-): string {
+function getPromptMessage(options: PromptBaseOptions): string {
   return options.message ?? options.title ?? "Prompt";
 }
 
+function createUnavailableError(
+  adapterOptions: PlainPromptAdapterOptions,
+  options: PromptBaseOptions,
+): PromptUnavailableError {
+  return new PromptUnavailableError(
+    getPromptUnavailableMessage(
+      getPromptMessage(options),
+      adapterOptions.interaction,
+      options.flag,
+    ),
+  );
+}
+
 function writeLine(stream: OutputStream, value: string): void {
   stream.write(`${value}\n`);
 }
@@ -42,6 +64,60 @@ async function askQuestion(options: PlainPromptAdapterOptions, question: string)
   }
 }
 
+/**
+ * Reads one line without echoing it. Readline writes typed characters to its output stream,
+ * so the question goes to stdout directly and readline gets a sink that drops everything.
+ */
+async function askHiddenQuestion(
+  options: PlainPromptAdapterOptions,
+  question: string,
+): Promise<string> {
+  const mutedOutput = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const readline = createInterface({
+    input: options.stdin,
+    output: mutedOutput,
+    terminal: true,
+  });
+
+  options.stdout.write(question);
+
+  try {
+    return await readline.question("");
+  } finally {
+    readline.close();
+    options.stdout.write("\n");
+  }
+}
+
+function writeOptionList(
+  stream: OutputStream,
+  options: ReadonlyArray<PromptSelectOption<string>>,
+  markers?: ReadonlyArray<string> | undefined,
+): void {
+  options.forEach((option, index) => {
+    const marker = markers?.[index] ? `${markers[index]} ` : "";
+    const description = option.description ? ` - ${option.description}` : "";
+    writeLine(stream, `  ${index + 1}. ${marker}${option.label}${description}`);
+  });
+}
+
+function findOptionByAnswer<TValue extends string>(
+  options: ReadonlyArray<PromptSelectOption<TValue>>,
+  answer: string,
+): PromptSelectOption<TValue> | undefined {
+  const answerIndex = Number(answer);
+
+  if (Number.isInteger(answerIndex) && answerIndex >= 1 && answerIndex <= options.length) {
+    return options[answerIndex - 1];
+  }
+
+  return options.find((option) => option.label === answer || option.value === answer);
+}
+
 export function createPlainPromptAdapter(
   adapterOptions: PlainPromptAdapterOptions,
 ): CommandPromptAPI {
@@ -52,9 +128,7 @@ export function createPlainPromptAdapter(
           return options.defaultValue;
         }
 
-        throw new PromptUnavailableError(
-          getPromptUnavailableMessage(getPromptMessage(options), adapterOptions.interaction),
-        );
+        throw createUnavailableError(adapterOptions, options);
       }
 
       while (true) {
@@ -88,9 +162,7 @@ export function createPlainPromptAdapter(
           return options.defaultValue;
         }
 
-        throw new PromptUnavailableError(
-          getPromptUnavailableMessage(getPromptMessage(options), adapterOptions.interaction),
-        );
+        throw createUnavailableError(adapterOptions, options);
       }
 
       while (true) {
@@ -116,17 +188,11 @@ export function createPlainPromptAdapter(
           return options.defaultValue;
         }
 
-        throw new PromptUnavailableError(
-          getPromptUnavailableMessage(getPromptMessage(options), adapterOptions.interaction),
-        );
+        throw createUnavailableError(adapterOptions, options);
       }
 
       writeLine(adapterOptions.stdout, getPromptMessage(options));
-
-      options.options.forEach((option, index) => {
-        const description = option.description ? ` - ${option.description}` : "";
-        writeLine(adapterOptions.stdout, `  ${index + 1}. ${option.label}${description}`);
-      });
+      writeOptionList(adapterOptions.stdout, options.options);
 
       while (true) {
         const defaultIndex = options.defaultValue
@@ -168,5 +234,170 @@ export function createPlainPromptAdapter(
         writeLine(adapterOptions.stderr, "Choose a valid option number or value.");
       }
     },
+
+    async multiselect<TValue extends string>(
+      options: PromptMultiselectOptions<TValue>,
+    ): Promise<TValue[]> {
+      if (!adapterOptions.interaction.canPrompt) {
+        if (options.defaultValue !== undefined) {
+          return [...options.defaultValue];
+        }
+
+        throw createUnavailableError(adapterOptions, options);
+      }
+
+      const defaultValues = options.defaultValue ?? [];
+
+      writeLine(adapterOptions.stdout, getPromptMessage(options));
+      writeOptionList(
+        adapterOptions.stdout,
+        options.options,
+        options.options.map((option) => (defaultValues.includes(option.value) ? "[x]" : "[ ]")),
+      );
+
+      while (true) {
+        const answer = (
+          await askQuestion(adapterOptions, "Select options (comma-separated numbers or values): ")
+        ).trim();
+
+        if (answer === "") {
+          if (defaultValues.length > 0 || !options.required) {
+            return [...defaultValues];
+          }
+
+          writeLine(adapterOptions.stderr, "Select at least one option.");
+          continue;
+        }
+
+        const selected = answer
+          .split(",")
+          .map((part) => part.trim())
+          .filter((part) => part.length > 0)
+          .map((part) => findOptionByAnswer(options.options, part));
+
+        if (selected.every((option) => option !== undefined)) {
+          return [...new Set(selected.map((option) => option.value))];
+        }
+
+        writeLine(adapterOptions.stderr, "Choose valid option numbers or values.");
+      }
+    },
+
+    async password(options: PromptPasswordOptions): Promise<string> {
+      if (!adapterOptions.interaction.canPrompt) {
+        throw createUnavailableError(adapterOptions, options);
+      }
+
+      while (true) {
+        const answer = await askHiddenQuestion(adapterOptions, `${getPromptMessage(options)}: `);
+
+        if (answer.length > 0 || !options.required) {
+          return answer;
+        }
+
+        writeLine(adapterOptions.stderr, "A value is required.");
+      }
+    },
+
+    async number(options: PromptNumberOptions): Promise<number> {
+      if (!adapterOptions.interaction.canPrompt) {
+        if (options.defaultValue !== undefined) {
+          return options.defaultValue;
+        }
+
+        throw createUnavailableError(adapterOptions, options);
+      }
+
+      while (true) {
+        const defaultValue = options.defaultValue !== undefined ? ` [${options.defaultValue}]` : "";
+        const answer = (
+          await askQuestion(adapterOptions, `${getPromptMessage(options)}${defaultValue}: `)
+        ).trim();
+
+        if (answer === "" && options.defaultValue !== undefined) {
+          return options.defaultValue;
+        }
+
+        const result = validatePromptNumber(answer, options);
+
+        if (typeof result === "number") {
+          return result;
+        }
+
+        writeLine(adapterOptions.stderr, result.error);
+      }
+    },
+
+    async autocomplete<TValue extends string>(
+      options: PromptAutocompleteOptions<TValue>,
+    ): Promise<TValue> {
+      if (!adapterOptions.interaction.canPrompt) {
+        if (options.defaultValue !== undefined) {
+          return options.defaultValue;
+        }
+
+        throw createUnavailableError(adapterOptions, options);
+      }
+
+      const limit = options.limit ?? 10;
+      let query = "";
+
+      writeLine(adapterOptions.stdout, getPromptMessage(options));
+
+      while (true) {
+        const matches = filterPromptOptions(options.options, query).slice(0, limit);
+
+        if (matches.length === 0) {
+          writeLine(adapterOptions.stderr, `No options match "${query}".`);
+        } else {
+          writeOptionList(adapterOptions.stdout, matches);
+        }
+
+        const defaultValue = options.defaultValue !== undefined ? ` [${options.defaultValue}]` : "";
+        const answer = (
+          await askQuestion(adapterOptions, `Select a number or type to search${defaultValue}: `)
+        ).trim();
+
+        if (answer === "" && options.defaultValue !== undefined) {
+          return options.defaultValue;
+        }
+
+        const match =
+          findOptionByAnswer(matches, answer) ??
+          options.options.find((option) => option.value === answer);
+
+        if (match) {
+          return match.value;
+        }
+
+        query = answer;
+      }
+    },
+
+    async editor(options: PromptEditorOptions): Promise<string> {
+      if (!adapterOptions.interaction.canPrompt) {
+        if (options.defaultValue !== undefined) {
+          return options.defaultValue;
+        }
+
+        throw createUnavailableError(adapterOptions, options);
+      }
+
+      writeLine(adapterOptions.stdout, `${getPromptMessage(options)} (opening editor)`);
+
+      while (true) {
+        const value = await editInExternalEditor(
+          adapterOptions.env,
+          options.defaultValue ?? "",
+          options.extension,
+        );
+
+        if (value.trim().length > 0 || !options.required) {
+          return value;
+        }
+
+        writeLine(adapterOptions.stderr, "A value is required.");
+      }
+    },
   };
 }
@@ -0,0 +1,37 @@
+import {
+  ParserUsageError,
+  ParserValidationError,
+  validateParsedArgs,
+  type CommandArgsOutput,
+  type CommandArgsRecord,
+} from "@reliverse/parser";
+
+import { RemptsUsageError, RemptsValidationError } from "./errors";
+
+/**
+ * Resolves declared positional arguments into a typed object. Commands without declarations keep
+ * the raw positional list. Parser failures are rethrown as Rempts errors so structured output
+ * reports positional issues the same way as option issues.
+ */
+export async function resolveCommandArgs(
+  argDefinitions: CommandArgsRecord | undefined,
+  positionals: readonly string[],
+): Promise<CommandArgsOutput<CommandArgsRecord> | readonly string[]> {
+  if (!argDefinitions) {
+    return positionals;
+  }
+
+  try {
+    return await validateParsedArgs(argDefinitions, positionals);
+  } catch (error) {
+    if (error instanceof ParserValidationError) {
+      throw new RemptsValidationError(error.message, error.issues);
+    }
+
+    if (error instanceof ParserUsageError) {
+      throw new RemptsUsageError(error.message, error.exitCode);
+    }
+
+    throw error;
+  }
+}
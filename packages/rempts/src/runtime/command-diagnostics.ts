@@ -5,7 +5,7 @@ export interface CommandCandidate {
   readonly name: string;
   readonly path: readonly string[];
   readonly sourceId: string;
-  readonly sourceKind: "file" | "plugin";
+  readonly sourceKind: "builtin" | "file" | "plugin";
 }
 
 export interface CommandSubcommandDiagnostic {
@@ -1,4 +1,4 @@
-import type { CommandOptionsRecord } from "@reliverse/parser";
+import type { CommandArgsRecord, CommandOptionsRecord } from "@reliverse/parser";
 
 import type {
   CommandAgentMetadata,
@@ -27,9 +27,11 @@ export interface CommandNodeMetadata {
 export interface CommandNode extends CommandNodeMetadata {
   readonly directoryPath?: string | undefined;
   readonly filePath?: string | undefined;
-  readonly loadCommand?: (() => Promise<CommandDefinition<CommandOptionsRecord>>) | undefined;
+  readonly loadCommand?:
+    | (() => Promise<CommandDefinition<CommandOptionsRecord, CommandArgsRecord>>)
+    | undefined;
   readonly sourceId: string;
-  readonly sourceKind: "file" | "plugin";
+  readonly sourceKind: "builtin" | "file" | "plugin";
 }
 
 export interface CommandSourceScope {
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { defineCommand } from "../api/define-command";
+import { definePlugin, REMPTS_PLUGIN_API_VERSION } from "../api/define-plugin";
+import type { CommandSource } from "./command-source";
+import {
+  createCompletionCommandSource,
+  formatCompletionCandidates,
+  renderCompletionScript,
+  resolveCompletions,
+} from "./completion";
+import { getGlobalFlagDefinitions } from "./global-flags";
+import { createPluginCommandSource } from "./plugin-source";
+
+const buildCommand = defineCommand({
+  meta: { name: "build", description: "Build workspace packages", aliases: ["b"] },
+  options: {
+    provider: {
+      type: "string",
+      description: "Build provider",
+      short: "p",
+      complete: ["bun", "tsdown"],
+    },
+    format: { type: "string", description: "Output format", choices: ["esm", "cjs"] },
+    watch: { type: "boolean", description: "Watch for changes" },
+    targets: {
+      type: "string",
+      description: "Comma-separated targets",
+      complete: async (partial: string) => [`${partial}packages/rempts`, "plugins/dler"],
+    },
+  },
+  async handler() {
+    return undefined;
+  },
+});
+
+const pubCommand = defineCommand({
+  meta: { name: "pub", description: "Publish packages" },
+  async handler() {
+    return undefined;
+  },
+});
+
+function createSources(): readonly CommandSource[] {
+  const plugin = definePlugin({
+    apiVersion: REMPTS_PLUGIN_API_VERSION,
+    commands: [
+      { path: ["dler", "build"], command: buildCommand },
+      { path: ["dler", "pub"], command: pubCommand },
+    ],
+    entry: join(tmpdir(), "rempts-completion-plugin", "index.ts"),
+    name: "dler-rse-plugin",
+  });
+
+  return [createPluginCommandSource(plugin), createCompletionCommandSource("rse")];
+}
+
+function complete(words: readonly string[]) {
+  return resolveCompletions({
+    globalFlagDefinitions: getGlobalFlagDefinitions(),
+    async loadCommandOptions(node) {
+      return (await node.loadCommand?.())?.options;
+    },
+    sources: createSources(),
+    words,
+  });
+}
+
+function values(candidates: readonly { readonly value: string }[]): readonly string[] {
+  return candidates.map((candidate) => candidate.value);
+}
+
+describe("resolveCompletions", () => {
+  test("lists top-level plugin and built-in commands", async () => {
+    expect(values(await complete([""]))).toEqual(["completion", "dler"]);
+  });
+
+  test("lists nested subcommands and their aliases", async () => {
+    const candidates = await complete(["dler", ""]);
+
+    expect(values(candidates)).toEqual(["b", "build", "pub"]);
+    expect(candidates.find((candidate) => candidate.value === "b")?.description).toBe(
+      "Alias for build",
+    );
+    expect(values(await complete(["dler", "p"]))).toEqual(["pub"]);
+  });
+
+  test("resolves aliases and global flags before completing flags", async () => {
+    const candidates = values(await complete(["--json", "dler", "b", "--"]));
+
+    expect(candidates).toContain("--provider");
+    expect(candidates).toContain("--watch");
+    expect(candidates).toContain("--no-watch");
+    expect(candidates).toContain("--help");
+    expect(values(await complete(["dler", "build", "-"]))).toContain("-p");
+  });
+
+  test("completes option values from static lists and lazy functions", async () => {
+    expect(values(await complete(["dler", "build", "--provider", "t"]))).toEqual(["tsdown"]);
+    expect(values(await complete(["dler", "build", "-p", ""]))).toEqual(["bun", "tsdown"]);
+    expect(values(await complete(["dler", "build", "--format", ""]))).toEqual(["esm", "cjs"]);
+    expect(values(await complete(["dler", "build", "--provider=b"]))).toEqual(["--provider=bun"]);
+    expect(values(await complete(["dler", "build", "--targets", "plugins/"]))).toEqual([
+      "plugins/packages/rempts",
+      "plugins/dler",
+    ]);
+  });
+
+  test("returns no candidates for unknown paths, positionals, and value-less options", async () => {
+    expect(await complete(["nope", ""])).toEqual([]);
+    expect(await complete(["dler", "build", "src", ""])).toEqual([]);
+    expect(await complete(["dler", "build", "--", "-"])).toEqual([]);
+  });
+});
+
+describe("completion scripts", () => {
+  test("call back into the CLI through the hidden __complete segment", () => {
+    for (const shell of ["bash", "zsh", "fish"] as const) {
+      expect(renderCompletionScript(shell, "rse")).toContain("rse __complete");
+    }
+
+    expect(renderCompletionScript("bash", "rse")).toContain(
+      "complete -o default -F _rse_completions rse",
+    );
+    expect(renderCompletionScript("zsh", "rse")).toStartWith("#compdef rse\n");
+    expect(renderCompletionScript("fish", "rse")).toContain("complete -c rse -f");
+  });
+
+  test("formats candidates as tab-separated value and description lines", () => {
+    expect(
+      formatCompletionCandidates([
+        { description: "Build\n  packages", value: "build" },
+        { value: "pub" },
+      ]),
+    ).toBe("build\tBuild packages\npub");
+  });
+});
@@ -0,0 +1,398 @@
+import { getOptionChoices, isValuelessOptionType, toFlagName } from "@reliverse/parser";
+import type { CommandOptionDefinition, CommandOptionsRecord } from "@reliverse/parser";
+
+import { defineCommand, type CommandDefinition } from "../api/define-command";
+import type { CommandNode, CommandSource, CommandSourceScope } from "./command-source";
+import { discoverCommandPath } from "./discover-command";
+import { parseGlobalFlags, type GlobalFlagConfig, type GlobalFlagDefinition } from "./global-flags";
+
+export type CompletionShell = "bash" | "fish" | "zsh";
+
+export const COMPLETION_SHELLS: readonly CompletionShell[] = ["bash", "zsh", "fish"];
+
+/**
+ * Hidden argv segment the generated shell scripts call back into.
+ * It never appears in help output or the command tree.
+ */
+export const COMPLETE_COMMAND_SEGMENT = "__complete";
+
+export const COMPLETION_COMMAND_NAME = "completion";
+
+export interface CompletionCandidate {
+  readonly description?: string | undefined;
+  readonly value: string;
+}
+
+export interface ResolveCompletionsOptions {
+  readonly globalFlagDefinitions: readonly GlobalFlagDefinition[];
+  readonly globalFlags?: GlobalFlagConfig | undefined;
+  /**
+   * Returns the effective option definitions for a command node, after CLI and plugin
+   * inheritance has been applied.
+   */
+  loadCommandOptions(node: CommandNode): Promise<CommandOptionsRecord | undefined>;
+  readonly sources: readonly CommandSource[];
+  /** Words after the program name. The last word is the one being completed and may be empty. */
+  readonly words: readonly string[];
+}
+
+export function isCompletionShell(value: string | undefined): value is CompletionShell {
+  return COMPLETION_SHELLS.includes(value as CompletionShell);
+}
+
+function toShellIdentifier(programName: string): string {
+  return programName.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function renderBashCompletion(programName: string): string {
+  const functionName = `_${toShellIdentifier(programName)}_completions`;
+
+  return [
+    `# bash completion for ${programName}, generated by @reliverse/rempts`,
+    `# Install: ${programName} completion bash > ~/.local/share/bash-completion/completions/${programName}`,
+    `${functionName}() {`,
+    '  local current="${COMP_WORDS[COMP_CWORD]}"',
+    "  local IFS=$'\\n'",
+    "  local candidates",
+    `  candidates=$(${programName} ${COMPLETE_COMMAND_SEGMENT} "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null | cut -f1)`,
+    '  COMPREPLY=($(compgen -W "${candidates}" -- "${current}"))',
+    "}",
+    `complete -o default -F ${functionName} ${programName}`,
+    "",
+  ].join("\n");
+}
+
+function renderZshCompletion(programName: string): string {
+  const functionName = `_${toShellIdentifier(programName)}`;
+
+  return [
+    `#compdef ${programName}`,
+    `# zsh completion for ${programName}, generated by @reliverse/rempts`,
+    `# Install: ${programName} completion zsh > "\${fpath[1]}/_${programName}"`,
+    `${functionName}() {`,
+    "  local -a candidates",
+    "  local line value description",
+    `  for line in "\${(@f)$(${programName} ${COMPLETE_COMMAND_SEGMENT} "\${(@)words[2,CURRENT]}" 2>/dev/null)}"; do`,
+    '    [[ -z "$line" ]] && continue',
+    "    value=\"${line%%$'\\t'*}\"",
+    '    description=""',
+    "    [[ \"$line\" == *$'\\t'* ]] && description=\"${line#*$'\\t'}\"",
+    '    candidates+=("${value//:/\\\\:}${description:+:$description}")',
+    "  done",
+    "",
+    "  if (( ${#candidates} )); then",
+    "    _describe 'values' candidates",
+    "  else",
+    "    _files",
+    "  fi",
+    "}",
+    "",
+    `if [[ "\${funcstack[1]}" == "${functionName}" ]]; then`,
+    `  ${functionName} "$@"`,
+    "else",
+    `  compdef ${functionName} ${programName}`,
+    "fi",
+    "",
+  ].join("\n");
+}
+
+function renderFishCompletion(programName: string): string {
+  const functionName = `__${toShellIdentifier(programName)}_complete`;
+
+  return [
+    `# fish completion for ${programName}, generated by @reliverse/rempts`,
+    `# Install: ${programName} completion fish > ~/.config/fish/completions/${programName}.fish`,
+    `function ${functionName}`,
+    "    set -l tokens (commandline -opc)",
+    "    set -l current (commandline -ct)",
+    `    set -l candidates (${programName} ${COMPLETE_COMMAND_SEGMENT} $tokens[2..-1] "$current" 2>/dev/null)`,
+    "    if test (count $candidates) -eq 0",
+    '        __fish_complete_path "$current"',
+    "        return",
+    "    end",
+    "    printf '%s\\n' $candidates",
+    "end",
+    `complete -c ${programName} -f -a '(${functionName})'`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders a shell completion script.
+ *
+ * Scripts stay thin on purpose: every completion request calls back into the CLI through the
+ * hidden `__complete` segment, so commands from plugins installed after the script was generated
+ * still complete correctly.
+ */
+export function renderCompletionScript(shell: CompletionShell, programName: string): string {
+  if (shell === "bash") {
+    return renderBashCompletion(programName);
+  }
+
+  if (shell === "zsh") {
+    return renderZshCompletion(programName);
+  }
+
+  return renderFishCompletion(programName);
+}
+
+export function formatCompletionCandidates(candidates: readonly CompletionCandidate[]): string {
+  return candidates
+    .map((candidate) =>
+      candidate.description
+        ? `${candidate.value}\t${candidate.description.replace(/\s+/g, " ").trim()}`
+        : candidate.value,
+    )
+    .join("\n");
+}
+
+function findOptionByToken(
+  optionDefinitions: CommandOptionsRecord | undefined,
+  token: string,
+): CommandOptionDefinition | undefined {
+  if (!optionDefinitions) {
+    return undefined;
+  }
+
+  if (token.startsWith("--")) {
+    const key = token.slice(2);
+
+    for (const [optionName, definition] of Object.entries(optionDefinitions)) {
+      if (optionName === key || toFlagName(optionName) === key) {
+        return definition;
+      }
+    }
+
+    return undefined;
+  }
+
+  const shortName = token.slice(1);
+
+  return Object.values(optionDefinitions).find((definition) => definition.short === shortName);
+}
+
+async function completeOptionValue(
+  definition: CommandOptionDefinition,
+  partial: string,
+  prefix = "",
+): Promise<readonly CompletionCandidate[]> {
+  const values =
+    typeof definition.complete === "function"
+      ? await definition.complete(partial)
+      : (definition.complete ?? getOptionChoices(definition) ?? []);
+
+  return values
+    .filter((value) => value.startsWith(partial))
+    .map((value) => ({ value: `${prefix}${value}` }));
+}
+
+function toFlagCandidates(
+  optionDefinitions: CommandOptionsRecord | undefined,
+  globalFlagDefinitions: readonly GlobalFlagDefinition[],
+): readonly CompletionCandidate[] {
+  const candidates: CompletionCandidate[] = [];
+
+  for (const [optionName, definition] of Object.entries(optionDefinitions ?? {})) {
+    const flagName = toFlagName(optionName);
+    const description = definition.description;
+
+    candidates.push({ description, value: `--${flagName}` });
+
+    if (definition.type === "boolean") {
+      candidates.push({ description, value: `--no-${flagName}` });
+    }
+
+    if (definition.short) {
+      candidates.push({ description, value: `-${definition.short}` });
+    }
+  }
+
+  for (const definition of globalFlagDefinitions) {
+    candidates.push({ description: definition.description, value: `--${definition.longName}` });
+
+    if (definition.shortName) {
+      candidates.push({ description: definition.description, value: `-${definition.shortName}` });
+    }
+  }
+
+  return candidates;
+}
+
+async function getScopeCandidates(
+  sources: readonly CommandSource[],
+  path: readonly string[],
+): Promise<readonly CompletionCandidate[]> {
+  const scopes = await Promise.all(sources.map((source) => source.getScope(path)));
+  const seen = new Set<string>();
+  const candidates: CompletionCandidate[] = [];
+
+  for (const scope of scopes.filter((entry): entry is CommandSourceScope => entry !== null)) {
+    for (const subcommand of scope.subcommands) {
+      if (!seen.has(subcommand.name)) {
+        seen.add(subcommand.name);
+        candidates.push({ description: subcommand.description, value: subcommand.name });
+      }
+
+      for (const alias of subcommand.aliases) {
+        if (!seen.has(alias)) {
+          seen.add(alias);
+          candidates.push({ description: `Alias for ${subcommand.name}`, value: alias });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((left, right) => left.value.localeCompare(right.value));
+}
+
+/**
+ * Resolves completion candidates for a partially typed command line against the merged command
+ * tree. An empty result tells the generated scripts to fall back to filename completion.
+ */
+export async function resolveCompletions(
+  options: ResolveCompletionsOptions,
+): Promise<readonly CompletionCandidate[]> {
+  const current = options.words.at(-1) ?? "";
+  const preceding = parseGlobalFlags(options.words.slice(0, -1), options.globalFlags);
+
+  // The current word is the value of a trailing `--answers`; let the shell complete file paths.
+  if (preceding.missingValues.length > 0) {
+    return [];
+  }
+
+  const discovered = await discoverCommandPath(options.sources, preceding.argv);
+
+  if (discovered.unknownSegment || discovered.remainingArgv.includes("--")) {
+    return [];
+  }
+
+  const commandNode = discovered.commandNode;
+  const optionDefinitions = commandNode?.loadCommand
+    ? await options.loadCommandOptions(commandNode)
+    : undefined;
+  const previous = discovered.remainingArgv.at(-1);
+
+  if (previous && previous.startsWith("-") && !previous.includes("=")) {
+    const previousDefinition = findOptionByToken(optionDefinitions, previous);
+
+    if (previousDefinition && !isValuelessOptionType(previousDefinition.type)) {
+      return completeOptionValue(previousDefinition, current);
+    }
+  }
+
+  if (current.startsWith("--") && current.includes("=")) {
+    const separatorIndex = current.indexOf("=");
+    const definition = findOptionByToken(optionDefinitions, current.slice(0, separatorIndex));
+
+    return definition
+      ? completeOptionValue(
+          definition,
+          current.slice(separatorIndex + 1),
+          current.slice(0, separatorIndex + 1),
+        )
+      : [];
+  }
+
+  if (current.startsWith("-")) {
+    return toFlagCandidates(optionDefinitions, options.globalFlagDefinitions).filter((candidate) =>
+      candidate.value.startsWith(current),
+    );
+  }
+
+  if (discovered.remainingArgv.length > 0) {
+    return [];
+  }
+
+  return (await getScopeCandidates(options.sources, discovered.matchedPath)).filter((candidate) =>
+    candidate.value.startsWith(current),
+  );
+}
+
+function createCompletionCommand(programName: string): CommandDefinition<any, any> {
+  return defineCommand({
+    meta: {
+      name: COMPLETION_COMMAND_NAME,
+      description: "Print a shell completion script for bash, zsh, or fish.",
+    },
+    help: {
+      examples: [
+        `${programName} completion bash > ~/.local/share/bash-completion/completions/${programName}`,
+        `${programName} completion zsh > "\${fpath[1]}/_${programName}"`,
+        `${programName} completion fish > ~/.config/fish/completions/${programName}.fish`,
+      ],
+      text: "The script calls back into the CLI for every completion, so newly installed plugin commands complete without regenerating it.",
+    },
+    agent: {
+      notes: "Read-only. Prints a script to stdout; it never edits shell profiles.",
+    },
+    conventions: {
+      idempotent: true,
+    },
+    args: {
+      shell: {
+        type: "string",
+        choices: COMPLETION_SHELLS,
+        description: "Target shell.",
+        required: true,
+      },
+    },
+    async handler(ctx) {
+      const shell = ctx.args.shell;
+      const script = renderCompletionScript(shell, programName);
+
+      if (ctx.output.mode === "json") {
+        ctx.output.result({ programName, script, shell }, COMPLETION_COMMAND_NAME);
+        return;
+      }
+
+      ctx.stdout.write(script);
+    },
+  });
+}
+
+/**
+ * Built-in command source for `<cli> completion <shell>`. It is appended after local and plugin
+ * sources, so either can still provide their own `completion` command.
+ */
+export function createCompletionCommandSource(programName: string): CommandSource {
+  const command = createCompletionCommand(programName);
+  const node: CommandNode = {
+    agent: command.agent,
+    aliases: [],
+    conventions: command.conventions,
+    description: command.meta?.description,
+    examples: command.help?.examples ?? [],
+    help: command.help?.text,
+    interactive: "never",
+    loadCommand: async () => command,
+    name: COMPLETION_COMMAND_NAME,
+    path: [COMPLETION_COMMAND_NAME],
+    sourceId: "rempts",
+    sourceKind: "builtin",
+  };
+
+  return {
+    id: "rempts",
+    async getScope(path) {
+      if (path.length === 0) {
+        return {
+          node: null,
+          async resolveSegment(segment) {
+            return segment === COMPLETION_COMMAND_NAME ? segment : null;
+          },
+          subcommands: [{ aliases: [], description: node.description, name: node.name }],
+        };
+      }
+
+      if (path.length === 1 && path[0] === COMPLETION_COMMAND_NAME) {
+        return {
+          node,
+          resolveSegment: async () => null,
+          subcommands: [],
+        };
+      }
+
+      return null;
+    },
+  };
+}
@@ -1,6 +1,13 @@
-import type { CommandOptionsOutput, CommandOptionsRecord } from "@reliverse/parser";
+import type {
+  CommandArgsRecord,
+  CommandOptionsOutput,
+  CommandOptionsRecord,
+  EmptyCommandArgs,
+  OptionInputSource,
+} from "@reliverse/parser";
 
 import type {
+  CommandArgsValue,
   CommandContext,
   CommandPromptAPI,
   CommandRuntimeInfo,
@@ -8,24 +15,35 @@ import type {
 } from "../api/define-command";
 import type { CommandTreeReport } from "./command-diagnostics";
 import { RemptsExitSignal } from "./errors";
+import type { HelpDocument } from "./help-model";
 import type { CommandInputAPI } from "./input";
 import type { InteractionPolicy } from "./noninteractive";
+import type { LoadedCommandOptionConfig } from "./option-config";
 import type { PluginDiscoveryReport } from "./plugin-discovery";
 import type { ConfirmationMode, ParsedGlobalFlags, RuntimeOutput, StdinMode } from "./types";
 
 export interface CreateCommandContextOptions<
   TOptions extends CommandOptionsRecord = CommandOptionsRecord,
+  TArgs extends CommandArgsRecord = EmptyCommandArgs,
 > {
-  readonly args: readonly string[];
+  readonly args: CommandArgsValue<TArgs>;
   readonly cli?:
     | {
         readonly commandTree?: CommandTreeReport | undefined;
+        readonly loadCommandOptions?:
+          | ((path: readonly string[]) => Promise<CommandOptionsRecord | undefined>)
+          | undefined;
+        readonly loadHelpDocument?:
+          | ((path: readonly string[]) => Promise<HelpDocument | undefined>)
+          | undefined;
         readonly name: string;
+        readonly optionConfig?: LoadedCommandOptionConfig | undefined;
         readonly pluginDiscovery?: PluginDiscoveryReport | undefined;
       }
     | undefined;
   readonly cliPluginNames?: readonly string[] | undefined;
   readonly options: CommandOptionsOutput<TOptions>;
+  readonly optionSources?: Readonly<Record<string, OptionInputSource>> | undefined;
   readonly command: CommandRuntimeInfo<TOptions>;
   readonly cwd: string;
   readonly env: NodeJS.ProcessEnv;
@@ -42,11 +60,13 @@ export interface CreateCommandContextOptions<
   readonly confirmationMode: ConfirmationMode;
   readonly stdinMode: StdinMode;
   readonly prompt: CommandPromptAPI;
+  readonly rawArgs?: readonly string[] | undefined;
 }
 
-export function createCommandContext<TOptions extends CommandOptionsRecord>(
-  options: CreateCommandContextOptions<TOptions>,
-): CommandContext<TOptions> {
+export function createCommandContext<
+  TOptions extends CommandOptionsRecord,
+  TArgs extends CommandArgsRecord = EmptyCommandArgs,
+>(options: CreateCommandContextOptions<TOptions, TArgs>): CommandContext<TOptions, TArgs> {
   return {
     args: options.args,
     cli: options.cli,
@@ -69,6 +89,7 @@ export function createCommandContext<TOptions extends CommandOptionsRecord>(
     isTUI: options.isTUI,
     nonInteractive: options.interaction.isNonInteractive,
     options: options.options,
+    optionSources: options.optionSources ?? {},
     output: options.output,
     safety: options.safety ?? {
       apply: false,
@@ -83,6 +104,7 @@ export function createCommandContext<TOptions extends CommandOptionsRecord>(
       options.output.text(...values);
     },
     prompt: options.prompt,
+    rawArgs: options.rawArgs ?? (Array.isArray(options.args) ? options.args : []),
     stderr: options.stderr,
     stdinMode: options.stdinMode,
     stdin: options.stdin,
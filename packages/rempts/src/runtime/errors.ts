@@ -22,6 +22,7 @@ export interface RemptsErrorMetadata {
   readonly code?: string | undefined;
   readonly hint?: string | undefined;
   readonly relatedCommand?: string | undefined;
+  readonly suggestions?: readonly string[] | undefined;
   readonly usage?: string | undefined;
 }
 
@@ -31,6 +32,7 @@ export class RemptsError extends Error {
   readonly hint?: string | undefined;
   readonly kind: RemptsErrorKind;
   readonly relatedCommand?: string | undefined;
+  readonly suggestions?: readonly string[] | undefined;
   readonly usage?: string | undefined;
 
   constructor(
@@ -46,6 +48,7 @@ export class RemptsError extends Error {
     this.hint = metadata?.hint;
     this.kind = kind;
     this.relatedCommand = metadata?.relatedCommand;
+    this.suggestions = metadata?.suggestions;
     this.usage = metadata?.usage;
   }
 
@@ -59,6 +62,7 @@ export class RemptsError extends Error {
       relatedCommand: this.relatedCommand,
       remptsError: 1,
       schemaVersion: 1,
+      suggestions: this.suggestions,
       usage: this.usage,
     };
   }
@@ -99,6 +103,22 @@ export class PromptUnavailableError extends RemptsError {
   }
 }
 
+/** Formats suggestions as a `Did you mean ...?` sentence, or returns undefined when there are none. */
+export function formatSuggestionHint(
+  suggestions: readonly string[] | undefined,
+): string | undefined {
+  if (!suggestions || suggestions.length === 0) {
+    return undefined;
+  }
+
+  const quoted = suggestions.map((suggestion) => `"${suggestion}"`);
+  const last = quoted.pop();
+
+  return quoted.length > 0
+    ? `Did you mean ${quoted.join(", ")} or ${last}?`
+    : `Did you mean ${last}?`;
+}
+
 export function toStructuredRemptsError(error: unknown): StructuredRemptsError {
   if (error instanceof ParserValidationError) {
     return {
@@ -120,6 +140,7 @@ export function toStructuredRemptsError(error: unknown): StructuredRemptsError {
       ok: false,
       remptsError: 1,
       schemaVersion: 1,
+      suggestions: error.suggestions.length > 0 ? error.suggestions : undefined,
     };
   }
 
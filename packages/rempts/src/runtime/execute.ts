@@ -1,3 +1,5 @@
+import type { CommandArgsRecord, CommandOptionsRecord } from "@reliverse/parser";
+
 import type { CommandContext, CommandDefinition } from "../api/define-command";
 import {
   PromptUnavailableError,
@@ -6,67 +8,130 @@ import {
   RemptsValidationError,
   toStructuredRemptsError,
 } from "./errors";
+import type { CommandHooks } from "./hooks";
+
+type LoadedCommandContext = CommandContext<CommandOptionsRecord, CommandArgsRecord>;
 
 export interface ExecuteCommandResult {
   readonly exitCode: number;
   readonly unexpectedError?: unknown;
 }
 
-export async function executeCommand(
-  command: CommandDefinition,
-  context: CommandContext,
-): Promise<ExecuteCommandResult> {
-  try {
-    await command.handler(context);
+function reportCommandError(error: unknown, context: LoadedCommandContext): ExecuteCommandResult {
+  if (error instanceof RemptsExitSignal) {
+    if (error.messageText) {
+      if (error.exitCode === 0) {
+        context.out(error.messageText);
+      } else if (context.output.mode === "json") {
+        context.output.problem({
+          code: "REMPTS_EXIT",
+          kind: "usage",
+          message: error.messageText,
+          ok: false,
+          remptsError: 1,
+          schemaVersion: 1,
+        });
+      } else {
+        context.err(error.messageText);
+      }
+    }
 
     return {
-      exitCode: 0,
+      exitCode: error.exitCode,
     };
-  } catch (error) {
-    if (error instanceof RemptsExitSignal) {
-      if (error.messageText) {
-        if (error.exitCode === 0) {
-          context.out(error.messageText);
-        } else if (context.output.mode === "json") {
-          context.output.problem({
-            code: "REMPTS_EXIT",
-            kind: "usage",
-            message: error.messageText,
-            ok: false,
-            remptsError: 1,
-            schemaVersion: 1,
-          });
-        } else {
-          context.err(error.messageText);
-        }
-      }
+  }
 
-      return {
-        exitCode: error.exitCode,
-      };
-    }
+  if (error instanceof RemptsValidationError) {
+    context.output.problem(toStructuredRemptsError(error));
+
+    return {
+      exitCode: error.exitCode,
+    };
+  }
+
+  if (error instanceof RemptsUsageError || error instanceof PromptUnavailableError) {
+    context.output.problem(toStructuredRemptsError(error));
+
+    return {
+      exitCode: error.exitCode,
+    };
+  }
+
+  context.output.problem(toStructuredRemptsError(error));
+
+  return {
+    exitCode: 1,
+    unexpectedError: error,
+  };
+}
+
+function reportHookError(hookName: string, error: unknown, context: LoadedCommandContext): void {
+  context.err(`${hookName} hook failed: ${error instanceof Error ? error.message : String(error)}`);
+}
 
-    if (error instanceof RemptsValidationError) {
-      context.output.problem(toStructuredRemptsError(error));
+async function runErrorHooks(
+  hooks: readonly CommandHooks[],
+  error: unknown,
+  context: LoadedCommandContext,
+): Promise<void> {
+  if (error instanceof RemptsExitSignal) {
+    return;
+  }
 
-      return {
-        exitCode: error.exitCode,
-      };
+  for (const hook of [...hooks].reverse()) {
+    // A failing hook is reported and ignored so the command's own error is still rendered.
+    try {
+      await hook.onError?.(error, context);
+    } catch (hookError) {
+      reportHookError("onError", hookError, context);
     }
+  }
+}
 
-    if (error instanceof RemptsUsageError || error instanceof PromptUnavailableError) {
-      context.output.problem(toStructuredRemptsError(error));
+export async function executeCommand(
+  command: CommandDefinition<CommandOptionsRecord, CommandArgsRecord>,
+  context: LoadedCommandContext,
+  hooks: readonly CommandHooks[] = [],
+): Promise<ExecuteCommandResult> {
+  let result: ExecuteCommandResult;
+  let thrown: unknown;
 
-      return {
-        exitCode: error.exitCode,
-      };
+  try {
+    for (const hook of hooks) {
+      await hook.beforeCommand?.(context);
     }
 
-    context.output.problem(toStructuredRemptsError(error));
+    await command.handler(context);
 
-    return {
-      exitCode: 1,
-      unexpectedError: error,
+    result = {
+      exitCode: 0,
     };
+  } catch (error) {
+    thrown = error;
+    await runErrorHooks(hooks, error, context);
+    result = reportCommandError(error, context);
   }
+
+  const outcome = {
+    error: thrown instanceof RemptsExitSignal ? undefined : thrown,
+    exitCode: result.exitCode,
+  };
+  let finalResult = result;
+
+  for (const hook of [...hooks].reverse()) {
+    try {
+      await hook.afterCommand?.(context, outcome);
+    } catch (error) {
+      // The first after-hook failure of a successful command becomes its outcome; any other one
+      // is reported without replacing the error that is already rendered.
+      if (finalResult.exitCode === 0) {
+        await runErrorHooks(hooks, error, context);
+        finalResult = reportCommandError(error, context);
+      } else {
+        reportHookError("afterCommand", error, context);
+      }
+    }
+  }
+
+  return finalResult;
 }
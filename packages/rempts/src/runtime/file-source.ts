@@ -1,6 +1,8 @@
 import { readdir, stat } from "node:fs/promises";
 import { join } from "node:path";
 
+import type { CommandArgsRecord, CommandOptionsRecord } from "@reliverse/parser";
+
 import type { CommandDefinition } from "../api/define-command";
 import type { CommandSource, CommandSourceScope, DiscoveredSubcommand } from "./command-source";
 import { loadCommand } from "./load-command";
@@ -51,8 +53,12 @@ async function listChildDirectories(directoryPath: string): Promise<readonly str
   }
 }
 
-function createCachedCommandLoader(filePath: string): () => Promise<CommandDefinition> {
-  let cachedCommand: Promise<CommandDefinition> | undefined;
+function createCachedCommandLoader(
+  filePath: string,
+): () => Promise<CommandDefinition<CommandOptionsRecord, CommandArgsRecord>> {
+  let cachedCommand:
+    | Promise<CommandDefinition<CommandOptionsRecord, CommandArgsRecord>>
+    | undefined;
 
   return () => {
     if (!cachedCommand) {
@@ -16,3 +16,21 @@ describe("global interactive flag alias", () => {
     expect(parsed.argv).toEqual(["pm", "update"]);
   });
 });
+
+describe("global answers flag", () => {
+  test("consumes the file value in separate and inline forms", () => {
+    expect(parseGlobalFlags(["--answers", "a.json", "dler", "pub"])).toEqual({
+      argv: ["dler", "pub"],
+      flags: expect.objectContaining({ answers: "a.json" }),
+      missingValues: [],
+    });
+    expect(parseGlobalFlags(["dler", "--answers=b.json"]).flags.answers).toBe("b.json");
+  });
+
+  test("records a trailing flag without a value instead of swallowing argv", () => {
+    const parsed = parseGlobalFlags(["dler", "--answers"]);
+
+    expect(parsed.argv).toEqual(["dler"]);
+    expect(parsed.missingValues.map((definition) => definition.longName)).toEqual(["answers"]);
+  });
+});
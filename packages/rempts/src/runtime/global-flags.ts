@@ -6,9 +6,14 @@ import type { ParsedGlobalFlags } from "./types";
 
 export type GlobalFlagKey = keyof ParsedGlobalFlags;
 
+type ValueGlobalFlagKey = "answers";
+
+type SwitchGlobalFlagKey = Exclude<GlobalFlagKey, ValueGlobalFlagKey>;
+
 export type RemptsReservedOptionName = GlobalFlagKey | "apply" | "no-input";
 
 export interface GlobalFlagConfig {
+  readonly answers?: boolean | undefined;
   readonly help?: boolean | undefined;
   readonly interactive?: boolean | undefined;
   readonly json?: boolean | undefined;
@@ -22,14 +27,19 @@ export interface GlobalFlagDefinition {
   readonly key: GlobalFlagKey;
   readonly longName: string;
   readonly shortName?: string | undefined;
+  /** Set for flags that consume a value, such as `--answers <file>`. */
+  readonly valueName?: string | undefined;
 }
 
 export interface ParsedGlobalFlagsResult {
   readonly argv: readonly string[];
   readonly flags: ParsedGlobalFlags;
+  /** Value-taking flags that ended the argv without a value, such as a trailing `--answers`. */
+  readonly missingValues: readonly GlobalFlagDefinition[];
 }
 
 interface MutableGlobalFlags {
+  answers?: string | undefined;
   help: boolean;
   interactive: boolean;
   json: boolean;
@@ -39,6 +49,12 @@ interface MutableGlobalFlags {
 
 const DEFAULT_GLOBAL_FLAGS: Readonly<Record<GlobalFlagKey, Omit<GlobalFlagDefinition, "enabled">>> =
   {
+    answers: {
+      description: "Answer prompts from a JSON file keyed by prompt id or message",
+      key: "answers",
+      longName: "answers",
+      valueName: "file",
+    },
     help: {
       description: "Show help",
       key: "help",
@@ -93,6 +109,7 @@ export function parseGlobalFlags(
   const byLongName = new Map<string, GlobalFlagDefinition>();
   const byShortName = new Map<string, GlobalFlagDefinition>();
   const remainingArgv: string[] = [];
+  const missingValues: GlobalFlagDefinition[] = [];
   let consumePositionalsOnly = false;
 
   const flags: MutableGlobalFlags = {
@@ -111,7 +128,9 @@ export function parseGlobalFlags(
     }
   }
 
-  for (const token of argv) {
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index] ?? "";
+
     if (consumePositionalsOnly) {
       remainingArgv.push(token);
       continue;
@@ -124,11 +143,25 @@ export function parseGlobalFlags(
     }
 
     if (token.startsWith("--")) {
-      const longName = token.slice(2);
+      const separatorIndex = token.indexOf("=");
+      const longName = separatorIndex === -1 ? token.slice(2) : token.slice(2, separatorIndex);
       const definition = byLongName.get(longName);
 
-      if (definition) {
-        flags[definition.key] = true;
+      if (definition?.valueName) {
+        const value = separatorIndex === -1 ? argv[index + 1] : token.slice(separatorIndex + 1);
+
+        if (value === undefined || value.length === 0) {
+          missingValues.push(definition);
+        } else {
+          flags[definition.key as ValueGlobalFlagKey] = value;
+        }
+
+        index += separatorIndex === -1 ? 1 : 0;
+        continue;
+      }
+
+      if (definition && separatorIndex === -1) {
+        flags[definition.key as SwitchGlobalFlagKey] = true;
         continue;
       }
     }
@@ -138,7 +171,7 @@ export function parseGlobalFlags(
       const definition = byShortName.get(shortName);
 
       if (definition) {
-        flags[definition.key] = true;
+        flags[definition.key as SwitchGlobalFlagKey] = true;
         continue;
       }
     }
@@ -149,9 +182,25 @@ export function parseGlobalFlags(
   return {
     argv: remainingArgv,
     flags,
+    missingValues,
   };
 }
 
+export function assertGlobalFlagValues(parsed: ParsedGlobalFlagsResult): void {
+  const [definition] = parsed.missingValues;
+
+  if (definition) {
+    throw new RemptsUsageError(
+      `Global flag --${definition.longName} expects a <${definition.valueName}> value.`,
+      1,
+      {
+        code: "REMPTS_GLOBAL_FLAG_VALUE",
+        hint: `Pass --${definition.longName} <${definition.valueName}> or --${definition.longName}=<${definition.valueName}>.`,
+      },
+    );
+  }
+}
+
 const RESERVED_RUNTIME_OPTION_LONG_NAMES = ["apply"] as const;
 
 export function getReservedOptionLongNames(): readonly string[] {
@@ -106,4 +106,42 @@ describe("help JSON contract", () => {
       name: "publish",
     });
   });
+
+  test("command help JSON exposes choices and repeatable flags", () => {
+    const command = defineCommand({
+      meta: { name: "build", description: "Build packages" },
+      options: {
+        filter: { type: "string[]", description: "Package filters.", defaultValue: ["a", "b"] },
+        format: { type: "string", description: "Output format.", choices: ["esm", "cjs"] },
+        verbose: { type: "count", description: "Increase log verbosity.", short: "v" },
+      },
+      async handler() {
+        return undefined;
+      },
+    });
+
+    const serialized = serializeHelpDocument(
+      buildCommandHelpDocument({
+        availableSubcommands: [],
+        command,
+        commandPath: ["build"],
+        globalFlagDefinitions: getGlobalFlagDefinitions(),
+        programName: "example-cli",
+      }),
+    );
+
+    expect(serialized.commandFlags).toEqual([
+      expect.objectContaining({
+        defaultValue: "a,b",
+        names: "--filter <value>...",
+        repeatable: true,
+      }),
+      expect.objectContaining({
+        choices: ["esm", "cjs"],
+        names: "--format <esm|cjs>",
+        repeatable: undefined,
+      }),
+      expect.objectContaining({ names: "-v, --verbose", repeatable: true }),
+    ]);
+  });
 });
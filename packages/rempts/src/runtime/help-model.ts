@@ -1,20 +1,37 @@
-import { toFlagName } from "@reliverse/parser";
-import type { CommandOptionsRecord } from "@reliverse/parser";
+import { formatArgLabel, getOptionChoices, isArrayOptionType, toFlagName } from "@reliverse/parser";
+import type {
+  CommandArgsRecord,
+  CommandOptionDefinition,
+  CommandOptionsRecord,
+  EmptyCommandArgs,
+} from "@reliverse/parser";
 
 import type { CommandConventions, CommandDefinition, CommandSafety } from "../api/define-command";
 import type { DiscoveredSubcommand } from "./command-source";
 import type { GlobalFlagDefinition } from "./global-flags";
 
 export interface HelpFlagItem {
+  readonly choices?: readonly string[] | undefined;
   readonly defaultValue?: string | undefined;
   readonly description: string;
   readonly env?: string | undefined;
   readonly hint?: string | undefined;
   readonly inputSources?: readonly string[] | undefined;
   readonly names: string;
+  readonly repeatable?: boolean | undefined;
   readonly required?: boolean | undefined;
 }
 
+export interface HelpArgItem {
+  readonly choices?: readonly string[] | undefined;
+  readonly defaultValue?: string | undefined;
+  readonly description: string;
+  readonly name: string;
+  readonly required: boolean;
+  readonly usage: string;
+  readonly variadic: boolean;
+}
+
 export interface HelpSubcommandItem {
   readonly aliases: readonly string[];
   readonly description?: string | undefined;
@@ -24,6 +41,7 @@ export interface HelpSubcommandItem {
 export interface HelpDocument {
   readonly aliases: readonly string[];
   readonly agentNotes?: string | undefined;
+  readonly args?: readonly HelpArgItem[] | undefined;
   readonly commandFlags: readonly HelpFlagItem[];
   readonly commandPath: readonly string[];
   readonly conventions?: CommandConventions | undefined;
@@ -40,22 +58,40 @@ export interface HelpDocument {
   readonly usage: readonly string[];
 }
 
-function formatOptionPlaceholder(type: string): string {
-  if (type === "boolean") {
+function formatOptionPlaceholder(definition: CommandOptionDefinition): string {
+  if (definition.type === "boolean" || definition.type === "count") {
     return "";
   }
 
-  return type === "number" ? " <number>" : " <value>";
+  const choices = getOptionChoices(definition);
+  const placeholder = choices
+    ? `<${choices.join("|")}>`
+    : definition.type === "number" || definition.type === "number[]"
+      ? "<number>"
+      : "<value>";
+
+  return isArrayOptionType(definition.type) ? ` ${placeholder}...` : ` ${placeholder}`;
+}
+
+function formatDefaultValue(definition: { readonly defaultValue?: unknown }): string | undefined {
+  if (definition.defaultValue === undefined) {
+    return undefined;
+  }
+
+  return Array.isArray(definition.defaultValue)
+    ? definition.defaultValue.join(",")
+    : String(definition.defaultValue);
 }
 
 function toGlobalFlagItem(definition: GlobalFlagDefinition): HelpFlagItem {
   const shortPrefix = definition.shortName ? `-${definition.shortName}, ` : "";
+  const placeholder = definition.valueName ? ` <${definition.valueName}>` : "";
 
   return {
     description: definition.description,
     hint: undefined,
     inputSources: ["flag"],
-    names: `${shortPrefix}--${definition.longName}`,
+    names: `${shortPrefix}--${definition.longName}${placeholder}`,
   };
 }
 
@@ -70,21 +106,43 @@ function toCommandFlagItems(
     const flagName = toFlagName(optionName);
     const shortPrefix = definition.short ? `-${definition.short}, ` : "";
     const negationHint = definition.type === "boolean" ? `, --no-${flagName}` : "";
-    const defaultValue =
-      definition.defaultValue !== undefined ? String(definition.defaultValue) : undefined;
+    const repeatable = isArrayOptionType(definition.type) || definition.type === "count";
 
     return {
-      defaultValue,
+      choices: getOptionChoices(definition),
+      defaultValue: formatDefaultValue(definition),
       description: definition.description ?? "No description",
       env: definition.env,
       hint: definition.hint,
       inputSources: definition.inputSources,
-      names: `${shortPrefix}--${flagName}${formatOptionPlaceholder(definition.type)}${negationHint}`,
+      names: `${shortPrefix}--${flagName}${formatOptionPlaceholder(definition)}${negationHint}`,
+      repeatable: repeatable || undefined,
       required: definition.required,
     };
   });
 }
 
+function toArgItems(argDefinitions: CommandArgsRecord | undefined): readonly HelpArgItem[] {
+  if (!argDefinitions) {
+    return [];
+  }
+
+  return Object.entries(argDefinitions).map(([argName, definition]) => {
+    const required = definition.required === true;
+    const label = formatArgLabel(argName, definition);
+
+    return {
+      choices: definition.choices,
+      defaultValue: formatDefaultValue(definition),
+      description: definition.description ?? "No description",
+      name: argName,
+      required,
+      usage: required ? label : `[${label.slice(1, -1)}]`,
+      variadic: definition.variadic === true,
+    };
+  });
+}
+
 function toSubcommandItems(
   subcommands: readonly DiscoveredSubcommand[],
 ): readonly HelpSubcommandItem[] {
@@ -118,6 +176,7 @@ export function buildLauncherHelpDocument(options: {
   return {
     aliases: [],
     agentNotes: options.agentNotes,
+    args: [],
     commandFlags: [],
     commandPath: options.commandPath,
     conventions: options.conventions,
@@ -134,9 +193,12 @@ export function buildLauncherHelpDocument(options: {
   };
 }
 
-export function buildCommandHelpDocument<TOptions extends CommandOptionsRecord>(options: {
+export function buildCommandHelpDocument<
+  TOptions extends CommandOptionsRecord,
+  TArgs extends CommandArgsRecord = EmptyCommandArgs,
+>(options: {
   readonly availableSubcommands: readonly DiscoveredSubcommand[];
-  readonly command: CommandDefinition<TOptions>;
+  readonly command: CommandDefinition<TOptions, TArgs>;
   readonly commandPath: readonly string[];
   readonly globalFlagDefinitions: readonly GlobalFlagDefinition[];
   readonly programName: string;
@@ -145,10 +207,13 @@ export function buildCommandHelpDocument<TOptions extends CommandOptionsRecord>(
     options.commandPath.length > 0
       ? `${options.programName} [global-flags] ${options.commandPath.join(" ")}`
       : `${options.programName} [global-flags]`;
+  const args = toArgItems(options.command.args);
+  const argsUsage = options.command.args ? args.map((arg) => arg.usage).join(" ") : "[args]";
 
   return {
     aliases: options.command.meta?.aliases ?? [],
     agentNotes: options.command.agent?.notes,
+    args,
     commandFlags: toCommandFlagItems(options.command.options),
     commandPath: options.commandPath,
     conventions: options.command.conventions
@@ -172,6 +237,6 @@ export function buildCommandHelpDocument<TOptions extends CommandOptionsRecord>(
     scope: "command",
     scopeLabel: "Subcommands",
     subcommands: toSubcommandItems(options.availableSubcommands),
-    usage: [`${invocationPath} [flags] [args]`],
+    usage: [`${invocationPath} [flags]${argsUsage ? ` ${argsUsage}` : ""}`],
   };
 }
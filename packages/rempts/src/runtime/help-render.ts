@@ -192,6 +192,31 @@ export function renderHelpDocument(document: HelpDocument, colors?: HelpRenderCo
     );
   }
 
+  const args = document.args ?? [];
+
+  if (args.length > 0) {
+    sectionSpacing(lines, "Arguments", colors);
+
+    for (const arg of args) {
+      const requiredHint = arg.required ? "required" : undefined;
+      const variadicHint = arg.variadic ? "variadic" : undefined;
+      const defaultHint =
+        arg.defaultValue !== undefined ? `default: ${arg.defaultValue}` : undefined;
+      const note = [requiredHint, variadicHint, defaultHint].filter(Boolean).join(" · ");
+
+      lines.push(
+        ...formatKeyValueRows(
+          [{ description: arg.description, name: arg.usage, note: note || undefined }],
+          colors,
+        ),
+      );
+
+      if (arg.choices) {
+        lines.push(`    ${formatMetaLabel("choices:", colors)} ${arg.choices.join(", ")}`);
+      }
+    }
+  }
+
   if (document.commandFlags.length > 0) {
     sectionSpacing(lines, "Flags", colors);
 
@@ -200,7 +225,8 @@ export function renderHelpDocument(document: HelpDocument, colors?: HelpRenderCo
       const defaultHint =
         flag.defaultValue !== undefined ? `default: ${flag.defaultValue}` : undefined;
       const envHint = flag.env ? `env: ${flag.env}` : undefined;
-      const note = [requiredHint, defaultHint, envHint].filter(Boolean).join(" · ");
+      const repeatableHint = flag.repeatable ? "repeatable" : undefined;
+      const note = [requiredHint, repeatableHint, defaultHint, envHint].filter(Boolean).join(" · ");
 
       lines.push(
         ...formatKeyValueRows(
@@ -0,0 +1,215 @@
+import { describe, expect, test } from "bun:test";
+
+import { defineCommand } from "../api/define-command";
+import { createCommandContext } from "./context";
+import { executeCommand } from "./execute";
+import { collectCommandHooks, type CommandHooks } from "./hooks";
+import { createRuntimeOutput } from "./output";
+
+function createBufferStream() {
+  let text = "";
+
+  return {
+    get value() {
+      return text;
+    },
+    write(chunk: string) {
+      text += chunk;
+      return true;
+    },
+  };
+}
+
+function createTestContext() {
+  const stdout = createBufferStream();
+  const stderr = createBufferStream();
+  const output = createRuntimeOutput({ mode: "text", stderr, stdout });
+  const context = createCommandContext({
+    args: [],
+    command: {
+      aliases: [],
+      examples: [],
+      interactive: "never",
+      name: "demo",
+      path: ["demo"],
+      sourceId: "local",
+      sourceKind: "file",
+    },
+    confirmationMode: "disabled",
+    cwd: ".",
+    env: {},
+    globalFlags: { help: false, interactive: false, json: false, noInput: false, tui: false },
+    input: {} as never,
+    interaction: {
+      canPrompt: false,
+      commandMode: "never",
+      confirmationMode: "disabled",
+      effectiveMode: "never",
+      isNonInteractive: true,
+      isTTY: false,
+      isTUIAllowed: false,
+      reason: "test",
+      requestedHostMode: "never",
+      stdinMode: "tty",
+    },
+    isTTY: false,
+    isTUI: false,
+    options: {},
+    output,
+    prompt: {} as never,
+    stderr: stderr as never,
+    stdin: {} as never,
+    stdinMode: "tty",
+    stdout: stdout as never,
+  });
+
+  return { context, stderr, stdout };
+}
+
+function createRecordingHooks(label: string, events: string[]): CommandHooks {
+  return {
+    afterCommand(_ctx, outcome) {
+      events.push(`${label}:after:${outcome.exitCode}`);
+    },
+    beforeCommand() {
+      events.push(`${label}:before`);
+    },
+    onError(error) {
+      events.push(`${label}:error:${error instanceof Error ? error.message : String(error)}`);
+    },
+  };
+}
+
+describe("command hooks", () => {
+  test("orders host hooks around plugin hooks in plugin precedence order", async () => {
+    const events: string[] = [];
+    const hooks = collectCommandHooks(createRecordingHooks("cli", events), [
+      { hooks: createRecordingHooks("first", events), name: "first" },
+      { name: "no-hooks" },
+      { hooks: createRecordingHooks("second", events), name: "second" },
+    ]);
+    const command = defineCommand({
+      handler() {
+        events.push("handler");
+      },
+    });
+
+    const result = await executeCommand(command, createTestContext().context, hooks);
+
+    expect(result.exitCode).toBe(0);
+    expect(events).toEqual([
+      "cli:before",
+      "first:before",
+      "second:before",
+      "handler",
+      "second:after:0",
+      "first:after:0",
+      "cli:after:0",
+    ]);
+  });
+
+  test("lets beforeCommand short-circuit with an exit signal", async () => {
+    const events: string[] = [];
+    const { context, stderr } = createTestContext();
+    const hooks = collectCommandHooks(
+      {
+        beforeCommand(ctx) {
+          ctx.exit(3, "Not signed in.");
+        },
+      },
+      [{ hooks: createRecordingHooks("plugin", events), name: "plugin" }],
+    );
+    const command = defineCommand({
+      handler() {
+        events.push("handler");
+      },
+    });
+
+    const result = await executeCommand(command, context, hooks);
+
+    expect(result.exitCode).toBe(3);
+    expect(stderr.value).toContain("Not signed in.");
+    expect(events).toEqual(["plugin:after:3"]);
+  });
+
+  test("reports handler errors to onError hooks before the error is rendered", async () => {
+    const events: string[] = [];
+    const command = defineCommand({
+      handler() {
+        throw new Error("boom");
+      },
+    });
+
+    const result = await executeCommand(
+      command,
+      createTestContext().context,
+      collectCommandHooks(createRecordingHooks("cli", events), []),
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.unexpectedError).toBeInstanceOf(Error);
+    expect(events).toEqual(["cli:before", "cli:error:boom", "cli:after:1"]);
+  });
+
+  test("reports a failing onError hook without losing the command error", async () => {
+    const events: string[] = [];
+    const { context, stderr } = createTestContext();
+    const command = defineCommand({
+      handler() {
+        throw new Error("boom");
+      },
+    });
+
+    const result = await executeCommand(
+      command,
+      context,
+      collectCommandHooks(createRecordingHooks("cli", events), [
+        {
+          hooks: {
+            onError() {
+              throw new Error("hook exploded");
+            },
+          },
+          name: "plugin",
+        },
+      ]),
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.unexpectedError).toBeInstanceOf(Error);
+    expect((result.unexpectedError as Error).message).toBe("boom");
+    expect(stderr.value).toContain("onError hook failed: hook exploded");
+    expect(stderr.value).toContain("boom");
+    expect(events).toEqual(["cli:before", "cli:error:boom", "cli:after:1"]);
+  });
+
+  test("keeps the command error when an afterCommand hook throws after a failure", async () => {
+    const events: string[] = [];
+    const { context, stderr } = createTestContext();
+    const command = defineCommand({
+      handler(ctx) {
+        ctx.exit(3, "Not signed in.");
+      },
+    });
+
+    const result = await executeCommand(
+      command,
+      context,
+      collectCommandHooks(createRecordingHooks("cli", events), [
+        {
+          hooks: {
+            afterCommand() {
+              throw new Error("after exploded");
+            },
+          },
+          name: "plugin",
+        },
+      ]),
+    );
+
+    expect(result.exitCode).toBe(3);
+    expect(stderr.value.match(/Not signed in\./g)).toHaveLength(1);
+    expect(stderr.value).toContain("afterCommand hook failed: after exploded");
+    expect(events).toEqual(["cli:before", "cli:after:3"]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { CommandArgsRecord, CommandOptionsRecord } from "@reliverse/parser";
+
+import type { CommandContext } from "../api/define-command";
+
+export interface CommandHookOutcome {
+  readonly error?: unknown;
+  readonly exitCode: number;
+}
+
+/**
+ * Cross-cutting middleware around command execution. Hosts and plugins can both contribute hooks;
+ * they run for every command, not only for commands owned by the contributing plugin.
+ *
+ * `beforeCommand` hooks may short-circuit the command by calling `ctx.exit(...)` (which throws a
+ * `RemptsExitSignal`). `afterCommand` always runs with the final outcome, including short-circuits.
+ */
+export interface CommandHooks {
+  readonly beforeCommand?:
+    | ((ctx: CommandContext<CommandOptionsRecord, CommandArgsRecord>) => Promise<void> | void)
+    | undefined;
+  readonly afterCommand?:
+    | ((
+        ctx: CommandContext<CommandOptionsRecord, CommandArgsRecord>,
+        outcome: CommandHookOutcome,
+      ) => Promise<void> | void)
+    | undefined;
+  /** Receives thrown errors other than exit signals, before they are reported. */
+  readonly onError?:
+    | ((
+        error: unknown,
+        ctx: CommandContext<CommandOptionsRecord, CommandArgsRecord>,
+      ) => Promise<void> | void)
+    | undefined;
+}
+
+/**
+ * Orders hook layers like an onion: the host wraps plugins, and plugins follow their discovery
+ * precedence (`conflictPriority`). Before-hooks run outside-in; after and error hooks run
+ * inside-out.
+ */
+export function collectCommandHooks(
+  hostHooks: CommandHooks | undefined,
+  plugins: readonly { readonly hooks?: CommandHooks | undefined; readonly name: string }[],
+): readonly CommandHooks[] {
+  const layers: CommandHooks[] = hostHooks ? [hostHooks] : [];
+
+  for (const plugin of plugins) {
+    if (plugin.hooks) {
+      layers.push(plugin.hooks);
+    }
+  }
+
+  return layers;
+}
@@ -1,6 +1,6 @@
 import { pathToFileURL } from "node:url";
 
-import type { CommandOptionsRecord } from "@reliverse/parser";
+import type { CommandArgsRecord, CommandOptionsRecord } from "@reliverse/parser";
 
 import { isCommandDefinition, type CommandDefinition } from "../api/define-command";
 import { RemptsUsageError } from "./errors";
@@ -11,7 +11,7 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 
 export async function loadCommand(
   filePath: string,
-): Promise<CommandDefinition<CommandOptionsRecord>> {
+): Promise<CommandDefinition<CommandOptionsRecord, CommandArgsRecord>> {
   const imported = await import(pathToFileURL(filePath).href);
 
   if (!isRecord(imported) || !("default" in imported)) {
@@ -0,0 +1,90 @@
+import { defineCommand, type CommandContext, type CommandDefinition } from "../api/define-command";
+import type { CommandNode, CommandSource } from "./command-source";
+
+export const MCP_COMMAND_NAME = "mcp";
+
+export const MCP_SERVE_COMMAND_NAME = "serve";
+
+function createMCPServeCommand(
+  programName: string,
+  serve: (context: CommandContext) => Promise<void>,
+): CommandDefinition<any, any> {
+  return defineCommand({
+    meta: {
+      name: MCP_SERVE_COMMAND_NAME,
+      description: "Serve this CLI's commands as Model Context Protocol tools over stdio.",
+    },
+    help: {
+      examples: [`${programName} mcp serve`],
+      text: "Every command in the merged tree becomes a tool whose input schema comes from its option definitions. Tools run non-interactively; commands that require --apply only run with apply: true when the call also lists every declared effect in approveEffects.",
+    },
+    agent: {
+      notes:
+        "Long-running. Reads JSON-RPC messages from stdin and writes responses to stdout until stdin closes. Register it as a stdio MCP server instead of calling it directly.",
+    },
+    async handler(ctx) {
+      await serve(ctx);
+    },
+  });
+}
+
+/**
+ * Built-in command source for `<cli> mcp serve`. Like `completion`, it is appended after local
+ * and plugin sources, so either can still own the `mcp` namespace.
+ */
+export function createMCPCommandSource(
+  programName: string,
+  serve: (context: CommandContext) => Promise<void>,
+): CommandSource {
+  const command = createMCPServeCommand(programName, serve);
+  const node: CommandNode = {
+    agent: command.agent,
+    aliases: [],
+    description: command.meta?.description,
+    examples: command.help?.examples ?? [],
+    help: command.help?.text,
+    interactive: "never",
+    loadCommand: async () => command,
+    name: MCP_SERVE_COMMAND_NAME,
+    path: [MCP_COMMAND_NAME, MCP_SERVE_COMMAND_NAME],
+    sourceId: "rempts",
+    sourceKind: "builtin",
+  };
+
+  return {
+    id: "rempts",
+    async getScope(path) {
+      if (path.length === 0) {
+        return {
+          node: null,
+          async resolveSegment(segment) {
+            return segment === MCP_COMMAND_NAME ? segment : null;
+          },
+          subcommands: [
+            { aliases: [], description: "Model Context Protocol server", name: MCP_COMMAND_NAME },
+          ],
+        };
+      }
+
+      if (path.length === 1 && path[0] === MCP_COMMAND_NAME) {
+        return {
+          node: null,
+          async resolveSegment(segment) {
+            return segment === MCP_SERVE_COMMAND_NAME ? segment : null;
+          },
+          subcommands: [{ aliases: [], description: node.description, name: node.name }],
+        };
+      }
+
+      if (path.length === 2 && path[0] === MCP_COMMAND_NAME && path[1] === MCP_SERVE_COMMAND_NAME) {
+        return {
+          node,
+          resolveSegment: async () => null,
+          subcommands: [],
+        };
+      }
+
+      return null;
+    },
+  };
+}
@@ -123,6 +123,7 @@ export function resolveInteractionPolicy(options: InteractionPolicyOptions): Int
 export function getPromptUnavailableMessage(
   promptLabel: string,
   interaction: InteractionPolicy,
+  flag?: string | undefined,
 ): string {
   const optInHint =
     interaction.commandMode === "never"
@@ -131,5 +132,9 @@ export function getPromptUnavailableMessage(
         ? "Re-run with --interactive or --tui if this command supports guided input."
         : "Re-run in an interactive TTY if you want guided input.";
 
-  return `Prompt "${promptLabel}" is unavailable in non-interactive mode (${interaction.reason}). Supply the value via flags, stdin, or defaultValue. ${optInHint}`;
+  const supplyHint = flag
+    ? `Pass ${flag} to supply the value.`
+    : "Supply the value via flags, stdin, or defaultValue.";
+
+  return `Prompt "${promptLabel}" is unavailable in non-interactive mode (${interaction.reason}). ${supplyHint} ${optInHint}`;
 }
@@ -0,0 +1,185 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { runCLIForTest } from "../api/run-cli-for-test";
+import { RemptsUsageError } from "./errors";
+import {
+  describeOptionSources,
+  getCommandConfigValues,
+  loadCommandOptionConfig,
+} from "./option-config";
+
+const remptsEntryPath = join(import.meta.dir, "..", "index.ts");
+const configFiles = { files: ["demo.config.json", "demo.config.jsonc"] } as const;
+
+describe("loadCommandOptionConfig", () => {
+  test("reads JSONC command values keyed by command path", async () => {
+    const root = await mkdtemp(join(tmpdir(), "rempts-option-config-"));
+    await writeFile(
+      join(root, "demo.config.jsonc"),
+      '{\n  // build defaults\n  "commands": { "dler build": { "provider": "tsdown", }, },\n}\n',
+      "utf8",
+    );
+
+    const config = await loadCommandOptionConfig(root, configFiles);
+
+    expect(config?.filePath).toBe(join(root, "demo.config.jsonc"));
+    expect(getCommandConfigValues(config, ["dler", "build"])).toEqual({ provider: "tsdown" });
+    expect(getCommandConfigValues(config, ["dler", "pub"])).toBeUndefined();
+  });
+
+  test("returns undefined without a config file and rejects malformed sections", async () => {
+    const root = await mkdtemp(join(tmpdir(), "rempts-option-config-"));
+
+    expect(await loadCommandOptionConfig(root, configFiles)).toBeUndefined();
+
+    await writeFile(join(root, "demo.config.json"), '{ "commands": { "build": true } }', "utf8");
+    await expect(loadCommandOptionConfig(root, configFiles)).rejects.toThrow(
+      'commands["build"] must be an object.',
+    );
+
+    await writeFile(join(root, "demo.config.jsonc"), "{}", "utf8");
+    await expect(loadCommandOptionConfig(root, configFiles)).rejects.toBeInstanceOf(
+      RemptsUsageError,
+    );
+  });
+});
+
+describe("describeOptionSources", () => {
+  test("traces env, config, and default values without validating them", () => {
+    expect(
+      describeOptionSources(
+        {
+          format: { type: "string", env: "DEMO_FORMAT" },
+          minify: { type: "boolean", defaultValue: false },
+          provider: { type: "string" },
+          token: { type: "string", env: "DEMO_TOKEN", inputSources: ["flag"] },
+        },
+        {
+          config: { provider: "tsdown", token: "from-config" },
+          env: { DEMO_FORMAT: "esm", DEMO_TOKEN: "secret" },
+        },
+      ),
+    ).toEqual([
+      { env: "DEMO_FORMAT", flagName: "--format", name: "format", source: "env", value: "esm" },
+      { env: undefined, flagName: "--minify", name: "minify", source: "default", value: false },
+      {
+        env: undefined,
+        flagName: "--provider",
+        name: "provider",
+        source: "config",
+        value: "tsdown",
+      },
+      { env: "DEMO_TOKEN", flagName: "--token", name: "token" },
+    ]);
+  });
+});
+
+test("createCLI applies config values below flags and reports option sources", async () => {
+  const root = await mkdtemp(join(tmpdir(), "rempts-option-config-cli-"));
+  const entry = join(root, "cli.ts");
+  const commandDir = join(root, "cmds", "build");
+  await mkdir(commandDir, { recursive: true });
+  await writeFile(entry, "#!/usr/bin/env bun\n", "utf8");
+  await writeFile(
+    join(root, "demo.config.json"),
+    JSON.stringify({ commands: { build: { provider: "tsdown", targets: ["a", "b"] } } }),
+    "utf8",
+  );
+  await writeFile(
+    join(commandDir, "cmd.ts"),
+    [
+      `import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`,
+      "",
+      "export default defineCommand({",
+      "  options: {",
+      '    minify: { type: "boolean", defaultValue: false },',
+      '    provider: { type: "string", defaultValue: "bun" },',
+      '    targets: { type: "string[]" },',
+      "  },",
+      "  async handler(ctx) {",
+      "    ctx.output.result({ options: ctx.options, sources: ctx.optionSources });",
+      "  },",
+      "});",
+      "",
+    ].join("\n"),
+    "utf8",
+  );
+
+  const result = await runCLIForTest({
+    argv: ["--json", "build", "--targets", "c"],
+    config: configFiles,
+    cwd: root,
+    entry,
+    meta: { name: "config-test" },
+  });
+
+  expect(result.structuredResult).toMatchObject({
+    data: {
+      options: { minify: false, provider: "tsdown", targets: ["c"] },
+      sources: { minify: "default", provider: "config", targets: "flag" },
+    },
+    optionSources: { minify: "default", provider: "config", targets: "flag" },
+  });
+});
+
+test("createCLI reads config from the command --cwd and reports broken config as a problem", async () => {
+  const root = await mkdtemp(join(tmpdir(), "rempts-option-config-cwd-"));
+  const entry = join(root, "cli.ts");
+  const commandDir = join(root, "cmds", "build");
+  const projectDir = join(root, "project");
+  await mkdir(commandDir, { recursive: true });
+  await mkdir(projectDir, { recursive: true });
+  await writeFile(entry, "#!/usr/bin/env bun\n", "utf8");
+  await writeFile(join(root, "demo.config.json"), "{ broken", "utf8");
+  await writeFile(
+    join(projectDir, "demo.config.json"),
+    JSON.stringify({ commands: { build: { provider: "tsdown" } } }),
+    "utf8",
+  );
+  await writeFile(
+    join(commandDir, "cmd.ts"),
+    [
+      `import { defineCommand } from ${JSON.stringify(remptsEntryPath)};`,
+      "",
+      "export default defineCommand({",
+      "  options: {",
+      '    cwd: { type: "string", defaultValue: "." },',
+      '    provider: { type: "string", defaultValue: "bun" },',
+      "  },",
+      "  async handler(ctx) {",
+      "    ctx.output.result({ provider: ctx.options.provider });",
+      "  },",
+      "});",
+      "",
+    ].join("\n"),
+    "utf8",
+  );
+
+  const projectResult = await runCLIForTest({
+    argv: ["--json", "build", "--cwd", "project"],
+    config: configFiles,
+    cwd: root,
+    entry,
+    meta: { name: "config-test" },
+  });
+
+  expect(projectResult.exitCode).toBe(0);
+  expect(projectResult.structuredResult).toMatchObject({ data: { provider: "tsdown" } });
+
+  const brokenResult = await runCLIForTest({
+    argv: ["--json", "build"],
+    config: configFiles,
+    cwd: root,
+    entry,
+    meta: { name: "config-test" },
+  });
+
+  expect(brokenResult.exitCode).toBe(1);
+  expect(brokenResult.structuredError).toMatchObject({
+    code: "REMPTS_CONFIG_INVALID",
+    relatedCommand: "build",
+  });
+});
@@ -0,0 +1,197 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import { toFlagName, type CommandOptionsRecord, type OptionInputSource } from "@reliverse/parser";
+
+import { RemptsUsageError } from "./errors";
+
+export interface CommandOptionConfigOptions {
+  /** Candidate config file names resolved against the CLI cwd, such as `rse.config.jsonc`. */
+  readonly files: readonly string[];
+  /** Top-level config key holding per-command option values. Defaults to `commands`. */
+  readonly key?: string | undefined;
+}
+
+/**
+ * Per-command option values from the project config, keyed by space-separated command path:
+ * `{ "commands": { "dler build": { "provider": "tsdown" } } }`.
+ */
+export interface LoadedCommandOptionConfig {
+  readonly commands: Readonly<Record<string, Readonly<Record<string, unknown>>>>;
+  readonly filePath: string;
+}
+
+export interface OptionSourceEntry {
+  readonly env?: string | undefined;
+  readonly flagName: string;
+  readonly name: string;
+  readonly source?: OptionInputSource | undefined;
+  readonly value?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+function createConfigError(filePath: string, message: string): RemptsUsageError {
+  return new RemptsUsageError(`${filePath}: ${message}`, 1, {
+    code: "REMPTS_CONFIG_INVALID",
+    hint: 'Per-command option values look like { "commands": { "dler build": { "provider": "tsdown" } } }.',
+  });
+}
+
+/**
+ * Directory the config file is resolved against: the command's own `--cwd` flag when it declares a
+ * string `cwd` option, otherwise the CLI cwd. Only raw argv is read, since config values feed
+ * into the option parse itself.
+ */
+export function resolveOptionConfigCwd(
+  cwd: string,
+  argv: readonly string[],
+  optionDefinitions: CommandOptionsRecord | undefined,
+): string {
+  if (optionDefinitions?.cwd?.type !== "string") {
+    return cwd;
+  }
+
+  let commandCwd: string | undefined;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index]!;
+
+    if (token === "--") {
+      break;
+    }
+
+    if (token.startsWith("--cwd=")) {
+      commandCwd = token.slice("--cwd=".length);
+    } else if (token === "--cwd" && argv[index + 1] !== undefined) {
+      commandCwd = argv[index + 1];
+      index += 1;
+    }
+  }
+
+  return commandCwd ? resolve(cwd, commandCwd) : cwd;
+}
+
+export async function loadCommandOptionConfig(
+  cwd: string,
+  options: CommandOptionConfigOptions,
+): Promise<LoadedCommandOptionConfig | undefined> {
+  const existing: Array<{ readonly filePath: string; readonly raw: string }> = [];
+
+  for (const file of options.files) {
+    const filePath = resolve(cwd, file);
+    const raw = await readOptionalFile(filePath);
+
+    if (raw !== undefined) {
+      existing.push({ filePath, raw });
+    }
+  }
+
+  if (existing.length > 1) {
+    throw new RemptsUsageError(
+      `Found ${existing.map((entry) => entry.filePath).join(" and ")}. Keep only one config file.`,
+      1,
+      { code: "REMPTS_CONFIG_CONFLICT" },
+    );
+  }
+
+  const [config] = existing;
+
+  if (!config || config.raw.trim().length === 0) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = Bun.JSONC.parse(config.raw);
+  } catch (error) {
+    throw createConfigError(
+      config.filePath,
+      `invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!isRecord(parsed)) {
+    throw createConfigError(config.filePath, "must contain a JSON object.");
+  }
+
+  const key = options.key ?? "commands";
+  const commands = parsed[key];
+
+  if (commands === undefined) {
+    return { commands: {}, filePath: config.filePath };
+  }
+
+  if (!isRecord(commands)) {
+    throw createConfigError(config.filePath, `${key} must be an object keyed by command path.`);
+  }
+
+  for (const [commandPath, values] of Object.entries(commands)) {
+    if (!isRecord(values)) {
+      throw createConfigError(config.filePath, `${key}["${commandPath}"] must be an object.`);
+    }
+  }
+
+  return {
+    commands: commands as LoadedCommandOptionConfig["commands"],
+    filePath: config.filePath,
+  };
+}
+
+export function getCommandConfigValues(
+  config: LoadedCommandOptionConfig | undefined,
+  commandPath: readonly string[],
+): Readonly<Record<string, unknown>> | undefined {
+  return config?.commands[commandPath.join(" ")];
+}
+
+/**
+ * Describes where each option would get its value from when no flag is passed. Unlike parsing,
+ * this never fails on invalid or missing values, which makes it safe for diagnostics.
+ */
+export function describeOptionSources(
+  optionDefinitions: CommandOptionsRecord | undefined,
+  input: {
+    readonly config?: Readonly<Record<string, unknown>> | undefined;
+    readonly env: NodeJS.ProcessEnv;
+  },
+): readonly OptionSourceEntry[] {
+  return Object.entries(optionDefinitions ?? {}).map(([name, definition]) => {
+    const flagName = toFlagName(name);
+    const allows = (source: OptionInputSource) =>
+      !definition.inputSources || definition.inputSources.includes(source);
+    const entry = { env: definition.env, flagName: `--${flagName}`, name };
+    const envValue = definition.env ? input.env[definition.env] : undefined;
+
+    if (envValue !== undefined && allows("env")) {
+      return { ...entry, source: "env", value: envValue };
+    }
+
+    const configValue = input.config?.[name] ?? input.config?.[flagName];
+
+    if (configValue !== undefined && allows("config")) {
+      return { ...entry, source: "config", value: configValue };
+    }
+
+    if (definition.defaultValue !== undefined) {
+      return { ...entry, source: "default", value: definition.defaultValue };
+    }
+
+    return entry;
+  });
+}
@@ -1,3 +1,4 @@
+import type { OptionInputSource } from "@reliverse/parser";
 import { createRelico } from "@reliverse/relico";
 
 import type {
@@ -11,6 +12,7 @@ type OutputStream = Pick<typeof process.stdout, "write">;
 
 interface OutputWriterOptions {
   readonly mode: OutputMode;
+  readonly optionSources?: Readonly<Record<string, OptionInputSource>> | undefined;
   readonly stderr: OutputStream;
   readonly stdout: OutputStream;
 }
@@ -116,6 +118,10 @@ export function createRuntimeOutput(options: OutputWriterOptions): RuntimeOutput
         command,
         data: value,
         ok: true,
+        optionSources:
+          options.optionSources && Object.keys(options.optionSources).length > 0
+            ? options.optionSources
+            : undefined,
         remptsResult: 1,
         schemaVersion: 1,
       };
@@ -7,6 +7,7 @@ import {
   readGlobalRemptsConfig,
   getDefaultRemptsGlobalConfigPath,
 } from "./global-plugin-config";
+import type { CommandHooks } from "./hooks";
 import {
   getBunGlobalNodeModulesDirectory,
   inspectPluginsFromHostManifest,
@@ -54,6 +55,7 @@ export interface PluginDiscoveryLoadedPlugin {
     | undefined;
   readonly description?: string | undefined;
   readonly entry: string;
+  readonly hooks?: CommandHooks | undefined;
   readonly options?: CommandOptionsRecord | undefined;
   readonly packageName: string;
   readonly pluginName: string;
@@ -155,6 +157,7 @@ function toLoadedPlugins(
     config: entry.plugin.config,
     description: entry.plugin.description,
     entry: entry.plugin.entry,
+    hooks: entry.plugin.hooks,
     options: entry.plugin.options,
     packageName: entry.packageName,
     pluginName: entry.plugin.name,
@@ -308,6 +311,7 @@ export function resolvePluginsFromReport(report: PluginDiscoveryReport): readonl
     capabilities: entry.capabilities,
     description: entry.description,
     entry: entry.entry,
+    hooks: entry.hooks,
     name: entry.pluginName,
     options: entry.options,
     provides: entry.provides,
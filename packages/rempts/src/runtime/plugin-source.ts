@@ -10,7 +10,7 @@ import { createFileCommandSource } from "./file-source";
 import { resolveEntry } from "./resolve-entry";
 
 interface InlineCommandNode {
-  command?: CommandDefinition<any> | undefined;
+  command?: CommandDefinition<any, any> | undefined;
   children: Map<string, InlineCommandNode>;
 }
 
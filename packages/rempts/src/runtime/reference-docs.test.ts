@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { defineCommand } from "../api/define-command";
+import { definePlugin, REMPTS_PLUGIN_API_VERSION } from "../api/define-plugin";
+import { inspectCommandTree } from "./command-diagnostics";
+import { discoverCommandPath } from "./discover-command";
+import { getGlobalFlagDefinitions } from "./global-flags";
+import { buildCommandHelpDocument, buildLauncherHelpDocument } from "./help-model";
+import { createPluginCommandSource } from "./plugin-source";
+import {
+  generateCommandReference,
+  renderCommandManPage,
+  renderCommandMarkdown,
+  syncCommandReference,
+} from "./reference-docs";
+
+const pubCommand = defineCommand({
+  meta: { name: "pub", description: "Publish packages", aliases: ["publish"] },
+  options: {
+    registry: {
+      type: "string",
+      description: "Target registry",
+      choices: ["npm", "jsr"],
+      defaultValue: "npm",
+    },
+    dryRun: { type: "boolean", description: "Preview the publish plan" },
+  },
+  safety: { defaultMode: "preview", effects: ["network.publish"], requiresApply: true },
+  help: { examples: ["rse dler pub --registry jsr"] },
+  async handler() {
+    return undefined;
+  },
+});
+
+async function createReferenceInput() {
+  const sources = [
+    createPluginCommandSource(
+      definePlugin({
+        apiVersion: REMPTS_PLUGIN_API_VERSION,
+        commands: [{ path: ["dler", "pub"], command: pubCommand }],
+        entry: join(tmpdir(), "rempts-reference-plugin", "index.ts"),
+        name: "dler-rse-plugin",
+      }),
+    ),
+  ];
+  const globalFlagDefinitions = getGlobalFlagDefinitions();
+
+  return {
+    commandTree: await inspectCommandTree(sources),
+    async loadHelpDocument(path: readonly string[]) {
+      const target = await discoverCommandPath(sources, path);
+      const command = await target.commandNode?.loadCommand?.();
+
+      return command
+        ? buildCommandHelpDocument({
+            availableSubcommands: target.availableSubcommands,
+            command,
+            commandPath: target.matchedPath,
+            globalFlagDefinitions,
+            programName: "rse",
+          })
+        : buildLauncherHelpDocument({
+            availableSubcommands: target.availableSubcommands,
+            commandPath: target.matchedPath,
+            globalFlagDefinitions,
+            programName: "rse",
+          });
+    },
+  };
+}
+
+describe("renderCommandMarkdown", () => {
+  test("emits frontmatter, ownership, option tables, safety, and examples", async () => {
+    const input = await createReferenceInput();
+    const node = input.commandTree.nodes.find((entry) => entry.path.join(" ") === "dler pub");
+    const markdown = renderCommandMarkdown((await input.loadHelpDocument(["dler", "pub"]))!, {
+      node,
+    });
+
+    expect(markdown).toStartWith(
+      '---\ntitle: "rse dler pub"\ndescription: "Publish packages"\n---',
+    );
+    expect(markdown).toContain("- Provided by plugin `dler-rse-plugin`");
+    expect(markdown).toContain("- Aliases: `publish`");
+    expect(markdown).toContain(
+      "| `--registry <npm\\|jsr>` | Target registry | `npm` | one of `npm`, `jsr` |",
+    );
+    expect(markdown).toContain("- Requires `--apply` before side effects run");
+    expect(markdown).toContain("- Effects: `network.publish`");
+    expect(markdown).toContain("```sh\nrse dler pub --registry jsr\n```");
+  });
+});
+
+describe("renderCommandManPage", () => {
+  test("renders a section-1 page with escaped flags", async () => {
+    const input = await createReferenceInput();
+    const page = renderCommandManPage((await input.loadHelpDocument(["dler", "pub"]))!);
+
+    expect(page).toContain('.TH "RSE\\-DLER\\-PUB" "1"');
+    expect(page).toContain("rse\\-dler\\-pub \\- Publish packages");
+    expect(page).toContain(".B \\-\\-dry\\-run, \\-\\-no\\-dry\\-run");
+    expect(page).toContain(".SH SEE ALSO\nrse\\-dler(1)");
+  });
+});
+
+describe("generateCommandReference", () => {
+  test("lays out one page per node and detects stale or orphaned output", async () => {
+    const files = await generateCommandReference({ ...(await createReferenceInput()), man: true });
+
+    expect(files.map((file) => file.path)).toEqual([
+      "dler/index.mdx",
+      "dler/pub.mdx",
+      "index.mdx",
+      "man/rse-dler-pub.1",
+      "man/rse-dler.1",
+      "man/rse.1",
+    ]);
+
+    const outDir = await mkdtemp(join(tmpdir(), "rempts-reference-"));
+    const initialCheck = await syncCommandReference(files, { check: true, outDir });
+    expect(initialCheck.stale).toHaveLength(files.length);
+    expect(initialCheck.written).toEqual([]);
+
+    const written = await syncCommandReference(files, { outDir });
+    expect(written.written).toHaveLength(files.length);
+    expect(await readFile(join(outDir, "dler", "pub.mdx"), "utf8")).toBe(files[1]!.contents);
+
+    await writeFile(join(outDir, "dler", "old.mdx"), files[1]!.contents, "utf8");
+    await writeFile(join(outDir, "notes.mdx"), "# Hand-written\n", "utf8");
+    const check = await syncCommandReference(files, { check: true, outDir });
+    expect(check).toEqual({ orphaned: ["dler/old.mdx"], stale: [], written: [] });
+
+    await syncCommandReference(files, { outDir });
+    expect(await syncCommandReference(files, { check: true, outDir })).toEqual({
+      orphaned: [],
+      stale: [],
+      written: [],
+    });
+    expect(await readFile(join(outDir, "notes.mdx"), "utf8")).toBe("# Hand-written\n");
+  });
+});
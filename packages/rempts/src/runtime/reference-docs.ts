@@ -0,0 +1,493 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join, sep } from "node:path";
+
+import type { CommandTreeNodeDiagnostic, CommandTreeReport } from "./command-diagnostics";
+import type { HelpDocument, HelpFlagItem } from "./help-model";
+
+export type CommandReferenceFormat = "md" | "mdx";
+
+export interface CommandReferenceFile {
+  readonly contents: string;
+  readonly kind: "man" | "markdown";
+  /** Output path relative to the docs directory, always `/`-separated. */
+  readonly path: string;
+}
+
+export interface GenerateCommandReferenceOptions {
+  readonly commandTree: CommandTreeReport;
+  /** Defaults to `mdx`, which apps/wiki reads through its fumadocs source. */
+  readonly format?: CommandReferenceFormat | undefined;
+  readonly loadHelpDocument: (path: readonly string[]) => Promise<HelpDocument | undefined>;
+  /** Also emit roff man pages under `man/`. */
+  readonly man?: boolean | undefined;
+}
+
+export interface CommandReferenceSyncResult {
+  /** Previously generated files that no longer match a command, removed unless checking. */
+  readonly orphaned: readonly string[];
+  /** Files whose on-disk contents differ from the generated output, or are missing. */
+  readonly stale: readonly string[];
+  readonly written: readonly string[];
+}
+
+const GENERATED_MARKER = "Generated by rempts from the command tree. Do not edit by hand.";
+
+function escapeMarkdown(value: string, format: CommandReferenceFormat): string {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/([*_[\]|])/g, "\\$1");
+
+  return format === "mdx" ? escaped.replace(/[{}]/g, "\\$&").replace(/</g, "&lt;") : escaped;
+}
+
+function inlineCode(value: string): string {
+  return value.includes("`") ? `\`\` ${value} \`\`` : `\`${value}\``;
+}
+
+/** GFM splits table cells on `|` even inside code spans, so it stays escaped there too. */
+function tableCode(value: string): string {
+  return inlineCode(value.replace(/\|/g, "\\|"));
+}
+
+function tableCell(value: string, format: CommandReferenceFormat): string {
+  return escapeMarkdown(value.replace(/\s*\n\s*/g, " "), format);
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value.replace(/\s*\n\s*/g, " "));
+}
+
+function formatOwner(node: CommandTreeNodeDiagnostic | undefined): string | undefined {
+  const chosen = node?.chosenCommand;
+
+  if (!chosen) {
+    return undefined;
+  }
+
+  return chosen.sourceKind === "plugin"
+    ? `plugin ${inlineCode(chosen.sourceId)}`
+    : `a ${chosen.sourceKind} command`;
+}
+
+function formatFlagNotes(flag: HelpFlagItem): string {
+  const notes = [
+    flag.required ? "required" : undefined,
+    flag.repeatable ? "repeatable" : undefined,
+    flag.choices ? `one of ${flag.choices.map(tableCode).join(", ")}` : undefined,
+    flag.env ? `env ${tableCode(flag.env)}` : undefined,
+  ].filter((note): note is string => note !== undefined);
+
+  return notes.join("; ");
+}
+
+function getCommandTitle(document: HelpDocument): string {
+  return [document.programName, ...document.commandPath].join(" ");
+}
+
+function hasSafetyDetails(document: HelpDocument): boolean {
+  const safety = document.safety;
+
+  return Boolean(
+    safety && (safety.defaultMode || safety.requiresApply || (safety.effects?.length ?? 0) > 0),
+  );
+}
+
+export function getCommandReferencePath(
+  path: readonly string[],
+  options: { readonly format: CommandReferenceFormat; readonly hasSubcommands: boolean },
+): string {
+  if (path.length === 0) {
+    return `index.${options.format}`;
+  }
+
+  return options.hasSubcommands
+    ? `${path.join("/")}/index.${options.format}`
+    : `${path.join("/")}.${options.format}`;
+}
+
+export function getCommandManPagePath(programName: string, path: readonly string[]): string {
+  return `man/${[programName, ...path].join("-")}.1`;
+}
+
+/** Renders one command page with fumadocs-compatible `title`/`description` frontmatter. */
+export function renderCommandMarkdown(
+  document: HelpDocument,
+  options: {
+    readonly format?: CommandReferenceFormat | undefined;
+    readonly node?: CommandTreeNodeDiagnostic | undefined;
+  } = {},
+): string {
+  const format = options.format ?? "mdx";
+  const title = getCommandTitle(document);
+  const lines = [
+    "---",
+    `title: ${yamlString(title)}`,
+    ...(document.description ? [`description: ${yamlString(document.description)}`] : []),
+    "---",
+    "",
+    format === "mdx" ? `{/* ${GENERATED_MARKER} */}` : `<!-- ${GENERATED_MARKER} -->`,
+    "",
+  ];
+
+  if (document.description) {
+    lines.push(escapeMarkdown(document.description, format), "");
+  }
+
+  lines.push("## Usage", "", "```sh", ...document.usage, "```", "");
+
+  const owner = formatOwner(options.node);
+  const facts = [
+    owner ? `- Provided by ${owner}` : undefined,
+    options.node && options.node.shadowedCommands.length > 0
+      ? `- Shadows ${options.node.shadowedCommands
+          .map((candidate) => `${inlineCode(candidate.sourceId)} (${candidate.sourceKind})`)
+          .join(", ")}`
+      : undefined,
+    document.aliases.length > 0
+      ? `- Aliases: ${document.aliases.map(inlineCode).join(", ")}`
+      : undefined,
+    document.interactive && document.interactive !== "never"
+      ? `- Interactive: ${inlineCode(document.interactive)} (explicit host opt-in)`
+      : undefined,
+  ].filter((fact): fact is string => fact !== undefined);
+
+  if (facts.length > 0) {
+    lines.push(...facts, "");
+  }
+
+  if (document.helpText) {
+    lines.push(escapeMarkdown(document.helpText, format), "");
+  }
+
+  const args = document.args ?? [];
+
+  if (args.length > 0) {
+    lines.push("## Arguments", "", "| Argument | Description | Default |", "| --- | --- | --- |");
+    lines.push(
+      ...args.map(
+        (arg) =>
+          `| ${tableCode(arg.usage)} | ${tableCell(arg.description, format)} | ${arg.defaultValue === undefined ? "" : tableCode(arg.defaultValue)} |`,
+      ),
+      "",
+    );
+  }
+
+  if (document.commandFlags.length > 0) {
+    lines.push(
+      "## Options",
+      "",
+      "| Flag | Description | Default | Notes |",
+      "| --- | --- | --- | --- |",
+    );
+    lines.push(
+      ...document.commandFlags.map(
+        (flag) =>
+          `| ${tableCode(flag.names)} | ${tableCell(flag.description, format)} | ${flag.defaultValue === undefined ? "" : tableCode(flag.defaultValue)} | ${formatFlagNotes(flag)} |`,
+      ),
+      "",
+    );
+  }
+
+  if (document.commandPath.length === 0 && document.globalFlags.length > 0) {
+    lines.push("## Global flags", "", "| Flag | Description |", "| --- | --- |");
+    lines.push(
+      ...document.globalFlags.map(
+        (flag) => `| ${tableCode(flag.names)} | ${tableCell(flag.description, format)} |`,
+      ),
+      "",
+    );
+  }
+
+  if (hasSafetyDetails(document)) {
+    const safety = document.safety!;
+    lines.push("## Safety", "");
+
+    if (safety.defaultMode) {
+      lines.push(`- Default mode: ${safety.defaultMode}`);
+    }
+
+    if (safety.requiresApply) {
+      lines.push("- Requires `--apply` before side effects run");
+    }
+
+    if (safety.effects && safety.effects.length > 0) {
+      lines.push(`- Effects: ${safety.effects.map(inlineCode).join(", ")}`);
+    }
+
+    lines.push("");
+  }
+
+  if (document.subcommands.length > 0) {
+    lines.push(`## ${document.scopeLabel}`, "", "| Command | Description |", "| --- | --- |");
+    lines.push(
+      ...document.subcommands.map((subcommand) => {
+        const aliases =
+          subcommand.aliases.length > 0 ? ` (${subcommand.aliases.map(tableCode).join(", ")})` : "";
+
+        return `| ${tableCode(subcommand.name)}${aliases} | ${tableCell(subcommand.description ?? "", format)} |`;
+      }),
+      "",
+    );
+  }
+
+  if (document.examples.length > 0) {
+    lines.push("## Examples", "", "```sh", ...document.examples, "```", "");
+  }
+
+  if (document.agentNotes) {
+    lines.push("## Agent notes", "", escapeMarkdown(document.agentNotes, format), "");
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function escapeRoff(value: string): string {
+  return value
+    .replace(/\\/g, "\\e")
+    .replace(/-/g, "\\-")
+    .split("\n")
+    .map((line) => (/^[.']/.test(line) ? `\\&${line}` : line))
+    .join("\n");
+}
+
+/** Renders one command as a section-1 roff man page. */
+export function renderCommandManPage(
+  document: HelpDocument,
+  options: { readonly node?: CommandTreeNodeDiagnostic | undefined } = {},
+): string {
+  const pageName = [document.programName, ...document.commandPath].join("-");
+  const lines = [
+    `.\\" ${GENERATED_MARKER}`,
+    `.TH "${escapeRoff(pageName.toUpperCase())}" "1" "" "${escapeRoff(document.programName)}" "${escapeRoff(document.programName)} Manual"`,
+    ".SH NAME",
+    `${escapeRoff(pageName)}${document.description ? ` \\- ${escapeRoff(document.description)}` : ""}`,
+    ".SH SYNOPSIS",
+    ...document.usage.flatMap((usage) => [`.B ${escapeRoff(usage)}`, ".br"]),
+  ];
+
+  const owner = options.node?.chosenCommand;
+
+  if (document.helpText || owner || document.aliases.length > 0) {
+    lines.push(".SH DESCRIPTION");
+
+    if (document.helpText) {
+      lines.push(escapeRoff(document.helpText));
+    }
+
+    if (owner) {
+      lines.push(
+        ".PP",
+        escapeRoff(
+          owner.sourceKind === "plugin"
+            ? `Provided by plugin ${owner.sourceId}.`
+            : `Provided by a ${owner.sourceKind} command.`,
+        ),
+      );
+    }
+
+    if (document.aliases.length > 0) {
+      lines.push(".PP", escapeRoff(`Aliases: ${document.aliases.join(", ")}.`));
+    }
+  }
+
+  const renderFlags = (title: string, flags: readonly HelpFlagItem[]) => {
+    if (flags.length === 0) {
+      return;
+    }
+
+    lines.push(`.SH ${title}`);
+
+    for (const flag of flags) {
+      const notes = [
+        flag.defaultValue === undefined ? undefined : `Default: ${flag.defaultValue}.`,
+        flag.env ? `Env: ${flag.env}.` : undefined,
+      ].filter((note): note is string => note !== undefined);
+      lines.push(".TP", `.B ${escapeRoff(flag.names)}`, escapeRoff(flag.description));
+
+      if (notes.length > 0) {
+        lines.push(escapeRoff(notes.join(" ")));
+      }
+    }
+  };
+
+  const args = document.args ?? [];
+
+  if (args.length > 0) {
+    lines.push(".SH ARGUMENTS");
+
+    for (const arg of args) {
+      lines.push(".TP", `.B ${escapeRoff(arg.usage)}`, escapeRoff(arg.description));
+    }
+  }
+
+  renderFlags("OPTIONS", document.commandFlags);
+
+  if (document.commandPath.length === 0) {
+    renderFlags("GLOBAL FLAGS", document.globalFlags);
+  }
+
+  if (hasSafetyDetails(document)) {
+    const safety = document.safety!;
+    lines.push(".SH SAFETY");
+
+    if (safety.defaultMode) {
+      lines.push(escapeRoff(`Default mode: ${safety.defaultMode}.`), ".br");
+    }
+
+    if (safety.requiresApply) {
+      lines.push(escapeRoff("Requires --apply before side effects run."), ".br");
+    }
+
+    if (safety.effects && safety.effects.length > 0) {
+      lines.push(escapeRoff(`Effects: ${safety.effects.join(", ")}.`));
+    }
+  }
+
+  if (document.subcommands.length > 0) {
+    lines.push(".SH COMMANDS");
+
+    for (const subcommand of document.subcommands) {
+      lines.push(
+        ".TP",
+        `.B ${escapeRoff(subcommand.name)}`,
+        escapeRoff(subcommand.description ?? ""),
+      );
+    }
+  }
+
+  if (document.examples.length > 0) {
+    lines.push(".SH EXAMPLES", ".nf", ...document.examples.map(escapeRoff), ".fi");
+  }
+
+  const related = [
+    ...(document.commandPath.length > 0
+      ? [[document.programName, ...document.commandPath.slice(0, -1)].join("-")]
+      : []),
+    ...document.subcommands.map((subcommand) => `${pageName}-${subcommand.name}`),
+  ];
+
+  if (related.length > 0) {
+    lines.push(".SH SEE ALSO", related.map((name) => `${escapeRoff(name)}(1)`).join(", "));
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Builds one reference page per command-tree node, plus optional man pages. Nodes the CLI cannot
+ * load help for are skipped.
+ */
+export async function generateCommandReference(
+  options: GenerateCommandReferenceOptions,
+): Promise<readonly CommandReferenceFile[]> {
+  const format = options.format ?? "mdx";
+  const files: CommandReferenceFile[] = [];
+
+  for (const node of options.commandTree.nodes) {
+    const document = await options.loadHelpDocument(node.path);
+
+    if (!document) {
+      continue;
+    }
+
+    files.push({
+      contents: renderCommandMarkdown(document, { format, node }),
+      kind: "markdown",
+      path: getCommandReferencePath(node.path, {
+        format,
+        hasSubcommands: node.availableSubcommands.length > 0,
+      }),
+    });
+
+    if (options.man) {
+      files.push({
+        contents: renderCommandManPage(document, { node }),
+        kind: "man",
+        path: getCommandManPagePath(document.programName, node.path),
+      });
+    }
+  }
+
+  return files.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+async function readTextIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+async function listGeneratedFiles(outDir: string): Promise<readonly string[]> {
+  let entries: string[];
+
+  try {
+    entries = await readdir(outDir, { recursive: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+
+    throw error;
+  }
+
+  const generated: string[] = [];
+
+  for (const entry of entries) {
+    if (!/\.(md|mdx|1)$/.test(entry)) {
+      continue;
+    }
+
+    const contents = await readTextIfExists(join(outDir, entry));
+
+    if (contents?.includes(GENERATED_MARKER)) {
+      generated.push(entry.split(sep).join("/"));
+    }
+  }
+
+  return generated;
+}
+
+/**
+ * Writes generated reference files under `outDir`, or with `check` only reports what would change.
+ * Files this generator wrote earlier for commands that no longer exist are reported as orphaned.
+ */
+export async function syncCommandReference(
+  files: readonly CommandReferenceFile[],
+  options: { readonly check?: boolean | undefined; readonly outDir: string },
+): Promise<CommandReferenceSyncResult> {
+  const stale: string[] = [];
+  const written: string[] = [];
+  const expectedPaths = new Set(files.map((file) => file.path));
+
+  for (const file of files) {
+    const target = join(options.outDir, file.path);
+
+    if ((await readTextIfExists(target)) === file.contents) {
+      continue;
+    }
+
+    stale.push(file.path);
+
+    if (!options.check) {
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file.contents, "utf8");
+      written.push(file.path);
+    }
+  }
+
+  const orphaned = (await listGeneratedFiles(options.outDir))
+    .filter((path) => !expectedPaths.has(path))
+    .sort((left, right) => left.localeCompare(right));
+
+  if (!options.check) {
+    for (const path of orphaned) {
+      await rm(join(options.outDir, path));
+    }
+  }
+
+  return { orphaned, stale, written };
+}
@@ -1,4 +1,4 @@
-import type { NormalizedOptionIssue } from "@reliverse/parser";
+import type { NormalizedOptionIssue, OptionInputSource } from "@reliverse/parser";
 import type { RelicoInstance } from "@reliverse/relico";
 
 export type OutputMode = "json" | "text";
@@ -14,6 +14,8 @@ export type RemptsHostInteractionMode = RemptsInteractionMode | "auto";
 export type RemptsErrorKind = "internal" | "prompt" | "usage" | "validation";
 
 export interface ParsedGlobalFlags {
+  /** Path passed to `--answers`, a JSON file of pre-recorded prompt answers. */
+  readonly answers?: string | undefined;
   readonly help: boolean;
   readonly interactive: boolean;
   readonly json: boolean;
@@ -31,6 +33,8 @@ export interface StructuredRemptsError {
   readonly relatedCommand?: string | undefined;
   readonly remptsError: 1;
   readonly schemaVersion: 1;
+  /** Close matches for an unknown command or flag, best first. */
+  readonly suggestions?: readonly string[] | undefined;
   readonly usage?: string | undefined;
 }
 
@@ -38,6 +42,8 @@ export interface StructuredRemptsResult<TData = unknown> {
   readonly command?: string | undefined;
   readonly data: TData;
   readonly ok: true;
+  /** Where each resolved option value came from, for commands with options. */
+  readonly optionSources?: Readonly<Record<string, OptionInputSource>> | undefined;
   readonly remptsResult: 1;
   readonly schemaVersion: 1;
 }
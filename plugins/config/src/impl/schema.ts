@@ -63,6 +63,12 @@ export function createRseConfigSchema(
         type: "string",
         description: "JSON Schema URL for editor IntelliSense.",
       },
+      commands: {
+        type: "object",
+        description:
+          'Per-command option values keyed by command path, such as "dler build". Flags and env vars override them.',
+        additionalProperties: { type: "object" },
+      },
     },
   };
 
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import command from "./cmd";
+
+function createJsonCtx(cwd: string, options: Record<string, unknown>) {
+  const resultCalls: Array<{ value: unknown; command?: string | undefined }> = [];
+
+  return {
+    ctx: {
+      cliPluginNames: ["dler"],
+      cwd,
+      env: process.env,
+      err: () => undefined,
+      exit(code: number, message: string): never {
+        throw new Error(`EXIT ${code}: ${message}`);
+      },
+      options,
+      out: () => undefined,
+      output: {
+        mode: "json" as const,
+        data: (value: unknown) => resultCalls.push({ value, command: "data" }),
+        result: (value: unknown, command?: string) => resultCalls.push({ value, command }),
+      },
+    },
+    resultCalls,
+  };
+}
+
+async function writePackage(dir: string, version: string, declarations: string): Promise<void> {
+  await mkdir(join(dir, "dist"), { recursive: true });
+  await writeFile(
+    join(dir, "package.json"),
+    `${JSON.stringify(
+      {
+        name: "api-pkg",
+        version,
+        type: "module",
+        publishConfig: { access: "public" },
+        exports: { ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+      },
+      null,
+      2,
+    )}\n`,
+    "utf8",
+  );
+  await writeFile(join(dir, "dist", "index.js"), "export {}\n", "utf8");
+  await writeFile(join(dir, "dist", "index.d.ts"), declarations, "utf8");
+}
+
+/** A package at `root/packages/api` plus a 1.0.0 tarball exporting `run(): void` and `VERSION`. */
+async function createPackageWithTarball(version: string, declarations: string) {
+  const root = await mkdtemp(join(tmpdir(), "dler-api-diff-"));
+  await writeFile(
+    join(root, "package.json"),
+    JSON.stringify({ private: true, workspaces: ["packages/*"] }),
+    "utf8",
+  );
+  await writePackage(join(root, "packages", "api"), version, declarations);
+
+  const published = join(root, "published");
+  await writePackage(
+    join(published, "package"),
+    "1.0.0",
+    "export declare function run(): void;\nexport declare const VERSION: string;\n",
+  );
+  const tar = Bun.spawn([
+    "tar",
+    "-czf",
+    join(root, "api-pkg-1.0.0.tgz"),
+    "-C",
+    published,
+    "package",
+  ]);
+  expect(await tar.exited).toBe(0);
+
+  return { root, tarball: join(root, "api-pkg-1.0.0.tgz") };
+}
+
+describe("dler api-diff", () => {
+  test("reports additions against a tarball without failing", async () => {
+    const { root, tarball } = await createPackageWithTarball(
+      "1.1.0",
+      "export declare function run(): void;\nexport declare const VERSION: string;\nexport declare function stop(): void;\n",
+    );
+    const { ctx, resultCalls } = createJsonCtx(root, { against: tarball, targets: "packages/api" });
+
+    await command.handler(ctx as never);
+
+    expect(resultCalls[0]?.command).toBe("dler api-diff");
+    expect(resultCalls[0]?.value).toMatchObject({
+      ok: true,
+      results: [
+        {
+          baseline: { source: tarball, version: "1.0.0" },
+          breaking: false,
+          changes: [{ change: "added", entrypoint: ".", name: "stop" }],
+          label: "packages/api",
+          ok: true,
+          version: "1.1.0",
+        },
+      ],
+    });
+  });
+
+  test("fails when a breaking change ships without a major bump", async () => {
+    const { root, tarball } = await createPackageWithTarball(
+      "1.1.0",
+      "export declare function run(cwd: string): void;\n",
+    );
+    const { ctx, resultCalls } = createJsonCtx(root, { against: tarball, targets: "packages/api" });
+
+    await expect(command.handler(ctx as never)).rejects.toThrow(
+      "EXIT 1: Breaking API changes without a major bump: packages/api.",
+    );
+    expect(resultCalls[0]).toMatchObject({
+      command: "data",
+      value: {
+        ok: false,
+        results: [
+          {
+            breaking: true,
+            changes: [
+              {
+                after: "function run(cwd: string): void",
+                before: "function run(): void",
+                change: "changed",
+                name: "run",
+              },
+              { change: "removed", name: "VERSION" },
+            ],
+            ok: false,
+          },
+        ],
+      },
+    });
+
+    const major = await createPackageWithTarball(
+      "2.0.0",
+      "export declare function run(cwd: string): void;\n",
+    );
+    const majorRun = createJsonCtx(major.root, { against: major.tarball, targets: "packages/api" });
+    await command.handler(majorRun.ctx as never);
+    expect(majorRun.resultCalls[0]?.value).toMatchObject({
+      ok: true,
+      results: [{ breaking: true }],
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  readPublishedApiBaseline,
+  readTarballApiBaseline,
+  type ApiBaseline,
+} from "../../../impl/api-diff/baseline";
+import {
+  allowsBreakingChanges,
+  describeApiChange,
+  diffApiSurfaces,
+  type ApiChange,
+} from "../../../impl/api-diff/diff";
+import { readApiSurface } from "../../../impl/api-diff/surface";
+import { DLER_COMMAND_NAMES, DLER_PUBLISH_DEFAULTS } from "../../../impl/constants";
+import { isSafeRelativePublishFrom } from "../../../impl/pub/paths";
+import { resolvePublishableTargets } from "../../../impl/pub/validation";
+import { resolveRequestedTargets } from "../../../impl/shared-targets";
+
+interface ApiDiffTargetResult {
+  readonly baseline: { readonly source: string; readonly version?: string | undefined } | null;
+  readonly breaking: boolean;
+  readonly changes: readonly ApiChange[];
+  readonly label: string;
+  /** False when breaking changes would ship without a major bump over the baseline. */
+  readonly ok: boolean;
+  readonly packageName: string;
+  readonly problems: readonly string[];
+  readonly version?: string | undefined;
+}
+
+const CHANGE_MARKERS: Readonly<Record<ApiChange["change"], string>> = {
+  added: "+",
+  changed: "~",
+  removed: "-",
+};
+
+function formatResultLines(result: ApiDiffTargetResult): string[] {
+  const version = result.version ?? "unversioned";
+
+  if (!result.baseline) {
+    return [
+      `${result.label}  ${result.packageName}@${version}  no published version to compare with`,
+    ];
+  }
+
+  const lines = [
+    `${result.label}  ${result.packageName}@${version}  against ${result.baseline.source}`,
+  ];
+
+  if (result.changes.length === 0) {
+    lines.push("  No API changes.");
+  }
+
+  for (const change of result.changes) {
+    lines.push(`  ${CHANGE_MARKERS[change.change]} ${describeApiChange(change)}`);
+    if (change.before !== undefined && change.change === "changed") {
+      lines.push(`      before: ${change.before}`, `      after:  ${change.after}`);
+    }
+  }
+
+  for (const problem of result.problems) {
+    lines.push(`  ! ${problem}`);
+  }
+
+  if (!result.ok) {
+    lines.push(
+      `  Breaking changes need a major version (minor before 1.0.0) over ${result.baseline.version}.`,
+    );
+  }
+
+  return lines;
+}
+
+export default defineCommand({
+  meta: {
+    name: "api-diff",
+    description:
+      "Compare each package's declaration files with the previously published version and report added, removed, and changed exports.",
+  },
+  agent: {
+    notes:
+      "Read-only. Reads the declaration files the publish package.json exports resolve to under --publish-from (run dler build first) and the same entrypoints from the published tarball of the latest npm version, fetched with npm pack through the npm cache, or from --against <version|path.tgz>. Removed exports or entrypoints and changed signatures are breaking, except added enum members and optional interface members; signatures are compared as declaration text, including the non-exported declarations they reference. Exits 1 when a package has breaking changes and its package.json version is not a major bump (minor before 1.0.0) over the compared version. dler pub runs the same check before publishing unless --no-api-check is passed.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: true,
+  },
+  help: {
+    examples: [
+      "rse dler api-diff",
+      "rse dler api-diff --targets packages/foo",
+      "rse dler api-diff --targets packages/foo --against 1.2.0",
+      "rse dler api-diff --targets packages/foo --against ./foo-1.2.0.tgz",
+      "rse dler api-diff --json",
+    ],
+    text: "Targets come from --targets or from cwd scope when omitted, and must be publishable. Packages that were never published are reported without a comparison.",
+  },
+  options: {
+    targets: {
+      type: "string",
+      description: "Comma-separated workspace paths (relative to --cwd) to compare",
+      hint: "Example: packages/rempts,plugins/dler",
+      inputSources: ["flag"],
+    },
+    publishFrom: {
+      type: "string",
+      defaultValue: DLER_PUBLISH_DEFAULTS.publishFrom,
+      description: "Directory relative to each package root that holds the built declarations",
+      inputSources: ["flag", "default"],
+    },
+    against: {
+      type: "string",
+      description:
+        "Published version to compare with, or a package tarball (.tgz) for a single target (defaults to the latest version on npm)",
+      hint: "1.2.0 | ./pkg-1.2.0.tgz",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    const publishFrom = ctx.options.publishFrom?.trim() || DLER_PUBLISH_DEFAULTS.publishFrom;
+    const against = ctx.options.against?.trim() || undefined;
+    const againstTarball = against?.endsWith(".tgz") ? against : undefined;
+
+    if (!isSafeRelativePublishFrom(publishFrom)) {
+      ctx.exit(1, "Invalid --publish-from: use a relative path without .. segments.");
+    }
+
+    const requestedTargets = await resolveRequestedTargets({
+      cwd: ctx.cwd,
+      rawTargets: ctx.options.targets,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Target discovery failed: ${message}`);
+    });
+    const validation = await resolvePublishableTargets({
+      publishFrom,
+      requireArtifactDir: true,
+      targets: requestedTargets.resolution.resolved,
+    });
+    const skipped = [...requestedTargets.resolution.skipped, ...validation.skipped];
+
+    if (validation.publishable.length === 0) {
+      for (const target of skipped) {
+        ctx.err(`Skipping ${target.label}: ${target.reason}`);
+      }
+      ctx.exit(1, "No publishable workspace targets to compare.");
+    }
+
+    if (againstTarball && validation.publishable.length > 1) {
+      ctx.exit(1, "--against with a tarball compares a single target; narrow --targets.");
+    }
+
+    const results: ApiDiffTargetResult[] = [];
+
+    for (const target of validation.publishable) {
+      const version =
+        typeof target.packageRecord.version === "string" ? target.packageRecord.version : undefined;
+      const baseline: ApiBaseline | undefined = await (
+        againstTarball
+          ? readTarballApiBaseline(againstTarball)
+          : readPublishedApiBaseline({
+              cwd: target.cwd,
+              env: ctx.env,
+              packageName: target.packageName,
+              version: against,
+            })
+      ).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(
+          1,
+          `Failed to read the published declarations of ${target.label}: ${message}`,
+        );
+      });
+
+      if (!baseline) {
+        results.push({
+          baseline: null,
+          breaking: false,
+          changes: [],
+          label: target.label,
+          ok: true,
+          packageName: target.packageName,
+          problems: [],
+          version,
+        });
+        continue;
+      }
+
+      const current = await readApiSurface(target.cwd, target.packageRecord);
+      const diff = diffApiSurfaces(baseline.surface, current);
+
+      results.push({
+        baseline: { source: baseline.source, version: baseline.version },
+        breaking: diff.breaking,
+        changes: diff.changes,
+        label: target.label,
+        ok:
+          !diff.breaking ||
+          (baseline.version !== undefined &&
+            version !== undefined &&
+            allowsBreakingChanges(baseline.version, version)),
+        packageName: target.packageName,
+        problems: [
+          ...current.problems,
+          ...baseline.surface.problems.map((problem) => `${baseline.source}: ${problem}`),
+        ],
+        version,
+      });
+    }
+
+    const failed = results.filter((result) => !result.ok);
+    const payload = { ok: failed.length === 0, publishFrom, results, skipped };
+
+    if (ctx.output.mode === "json") {
+      if (payload.ok) {
+        ctx.output.result(payload, DLER_COMMAND_NAMES.apiDiff);
+        return;
+      }
+
+      ctx.output.data(payload);
+    } else {
+      ctx.out(DLER_COMMAND_NAMES.apiDiff);
+
+      for (const result of results) {
+        for (const line of formatResultLines(result)) {
+          ctx.out(line);
+        }
+      }
+
+      for (const target of skipped) {
+        ctx.out(`Skipped ${target.label}: ${target.reason}`);
+      }
+    }
+
+    if (failed.length > 0) {
+      ctx.exit(
+        1,
+        `Breaking API changes without a major bump: ${failed.map((result) => result.label).join(", ")}.`,
+      );
+    }
+  },
+});
@@ -147,7 +147,7 @@ describe("dler build command", () => {
           packageCommand: expect.any(String),
         },
       ],
-      summary: { failed: 0, planned: 1, skipped: 1, succeeded: 0 },
+      summary: { cached: 0, failed: 0, planned: 1, skipped: 1, succeeded: 0 },
       targets: ["plugins/dler", "plugins/missing"],
     });
   });
@@ -194,7 +194,7 @@ describe("dler build command", () => {
       skippedTargets: [
         { label: "plugins/missing", reason: expect.stringContaining("not a directory:") },
       ],
-      summary: { failed: 0, planned: 2, skipped: 1, succeeded: 0 },
+      summary: { cached: 0, failed: 0, planned: 2, skipped: 1, succeeded: 0 },
     });
   });
 
@@ -276,7 +276,16 @@ describe("dler build command", () => {
     });
 
     await expect(command.handler(ctx as never)).rejects.toThrow(
-      'EXIT 1: Unknown build provider "webpack". Available providers: bun.',
+      'EXIT 1: Unknown build provider "webpack". Available providers: bun, tsdown, esbuild.',
+    );
+  });
+
+  test("--watch requires --apply", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-"));
+    const { ctx } = createTextCtx(root, { provider: "bun", watch: true });
+
+    await expect(command.handler(ctx as never)).rejects.toThrow(
+      "EXIT 1: --watch runs builds continuously. Pass --apply together with --watch.",
     );
   });
 
@@ -358,6 +367,7 @@ describe("dler build command", () => {
     expect(resultCalls[0]?.value).toEqual({
       apply: false,
       bundleStrategy: "auto",
+      cache: true,
       concurrency: 4,
       declarationStrategy: "emit",
       preview: true,
@@ -372,13 +382,105 @@ describe("dler build command", () => {
           command: expect.stringContaining("bun build"),
           cwd: pkgDir,
           declarationStrategy: "emit",
+          dependsOn: [],
           label: "plugins/stable",
           packageCommand: "bun build ./src/index.ts --outfile ./dist/index.js --target bun",
+          provider: "bun",
           resolvedBundleStrategy: "single",
         },
       ],
-      summary: { failed: 0, planned: 1, skipped: 0, succeeded: 0 },
+      summary: { cached: 0, failed: 0, planned: 1, skipped: 0, succeeded: 0 },
       targets: ["plugins/stable"],
     });
   });
+
+  test("uses dler.buildProviders per package unless --provider is passed", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-"));
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["plugins/*"] } }),
+      "utf8",
+    );
+    await writeFile(
+      join(root, "rse.config.jsonc"),
+      '{ "dler": { "buildProviders": { "plugins/esb": "esbuild" } } }\n',
+      "utf8",
+    );
+
+    for (const name of ["esb", "plain"]) {
+      await mkdir(join(root, "plugins", name, "src"), { recursive: true });
+      await writeFile(join(root, "plugins", name, "package.json"), JSON.stringify({ name }));
+      await writeFile(join(root, "plugins", name, "src", "index.ts"), "export const x = 1;\n");
+    }
+
+    const configured = createJsonCtx(root, {
+      provider: "bun",
+      targets: "plugins/esb,plugins/plain",
+    });
+    await command.handler(configured.ctx as never);
+
+    expect(configured.resultCalls[0]?.value).toMatchObject({
+      provider: "bun",
+      steps: [
+        { command: expect.stringContaining("bun x esbuild"), provider: "esbuild" },
+        { command: expect.stringContaining("bun build"), provider: "bun" },
+      ],
+    });
+
+    const flagged = createJsonCtx(root, { provider: "bun", targets: "plugins/esb" });
+    await command.handler({ ...flagged.ctx, optionSources: { provider: "flag" } } as never);
+
+    expect(flagged.resultCalls[0]?.value).toMatchObject({
+      steps: [{ command: expect.stringContaining("bun build"), provider: "bun" }],
+    });
+  });
+
+  test("--since previews only changed targets and their dependents with reasons", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-"));
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["plugins/*"] } }),
+      "utf8",
+    );
+
+    for (const [name, dependencies] of [
+      ["core", {}],
+      ["app", { core: "workspace:*" }],
+      ["docs", {}],
+    ] as const) {
+      await mkdir(join(root, "plugins", name, "src"), { recursive: true });
+      await writeFile(
+        join(root, "plugins", name, "package.json"),
+        JSON.stringify({ name, dependencies }),
+        "utf8",
+      );
+      await writeFile(join(root, "plugins", name, "src", "index.ts"), "export {};\n", "utf8");
+    }
+
+    const git = (...args: string[]) =>
+      Bun.spawn(["git", "-c", "user.name=dler", "-c", "user.email=dler@example.com", ...args], {
+        cwd: root,
+        stderr: "ignore",
+        stdout: "ignore",
+      }).exited;
+    await git("init", "--quiet");
+    await git("add", "-A");
+    await git("commit", "--quiet", "-m", "initial");
+
+    const unchanged = createTextCtx(root, { provider: "bun", since: "HEAD" });
+    await command.handler(unchanged.ctx as never);
+    expect(unchanged.textLines).toEqual(["No workspace packages changed since HEAD."]);
+
+    await writeFile(join(root, "plugins", "core", "src", "index.ts"), "export const a = 1;\n");
+
+    const { ctx, textLines } = createTextCtx(root, { provider: "bun", since: "HEAD" });
+    await command.handler(ctx as never);
+
+    const text = textLines.join("\n");
+    expect(text).toContain("Targets: 2 planned, 0 skipped");
+    expect(text).toContain(
+      "Selected (changed since HEAD)\n  plugins/app   dependent of plugins/core\n  plugins/core  changed (1 file)",
+    );
+    expect(text).not.toContain("plugins/docs");
+  });
 });
@@ -3,27 +3,61 @@ import { relative } from "node:path";
 import { defineCommand } from "@reliverse/rempts";
 
 import {
+  describeSelectedTarget,
+  formatEmptySelectionMessage,
+  formatSelectionHeading,
+  type TargetSelection,
+} from "../../../impl/affected-targets";
+import {
+  createBuildCache,
   createBuildPlan,
   createBuildProviderRegistry,
   createBuilderRuntime,
   createBunBuildProvider,
-} from "../../impl/build";
-import type { DlerDeclarationStrategy } from "../../impl/build/declaration-layer";
-import type { BunBundleStrategy } from "../../impl/build/package-build-command";
-import { resolveConcurrency } from "../../impl/concurrency";
+  createEsbuildBuildProvider,
+  createTsdownBuildProvider,
+  loadPluginBuildProviders,
+  watchBuildTargets,
+  type BuildTargetResult,
+} from "../../../impl/build";
+import type { DlerDeclarationStrategy } from "../../../impl/build/declaration-layer";
+import type { BunBundleStrategy } from "../../../impl/build/package-build-command";
+import { resolveConcurrency } from "../../../impl/concurrency";
 import {
   DLER_BUILD_BUNDLE_STRATEGIES,
   DLER_BUILD_DECLARATION_STRATEGIES,
   DLER_BUILD_DEFAULTS,
   DLER_COMMAND_NAMES,
   DLER_CONCURRENCY_DEFAULTS,
-} from "../../impl/constants";
-import { createTargetSets, formatSkippedMessages } from "../../impl/report-helpers";
-import { createBuildSummary, formatBuildSummary } from "../../impl/result-contract";
-import { resolveRequestedTargets } from "../../impl/shared-targets";
+} from "../../../impl/constants";
+import { createTargetSets, formatSkippedMessages } from "../../../impl/report-helpers";
+import { createBuildSummary, formatBuildSummary } from "../../../impl/result-contract";
+import { readOptionalRseConfig } from "../../../impl/rse-config";
+import { resolveRequestedTargets } from "../../../impl/shared-targets";
+import { resolveWorkspaceRootFromCwd } from "../../../impl/workspace-targets";
+
+function formatBuildResultLine(result: {
+  cached?: boolean | undefined;
+  durationMs: number;
+  label: string;
+  ok: boolean;
+}): string {
+  const status = result.ok ? (result.cached ? "Cached" : "Built") : "Failed";
+
+  return `${status}: ${result.label} (${result.durationMs}ms)`;
+}
 
-function formatBuildResultLine(result: { durationMs: number; label: string; ok: boolean }): string {
-  return `${result.ok ? "Built" : "Failed"}: ${result.label} (${result.durationMs}ms)`;
+function printFailedTargetOutput(
+  result: BuildTargetResult,
+  write: { readonly err: (line: string) => void; readonly out: (line: string) => void },
+): void {
+  if (result.stdout.trim().length > 0) {
+    write.out(result.stdout.trim());
+  }
+
+  if (result.stderr.trim().length > 0) {
+    write.err(result.stderr.trim());
+  }
 }
 
 function formatRelativePath(root: string, path: string): string {
@@ -113,11 +147,13 @@ function formatBuildPreviewText(options: {
     readonly command: string;
     readonly cwd: string;
     readonly label: string;
+    readonly provider: string;
   }[];
   readonly provider: string;
   readonly bundleStrategy: BunBundleStrategy;
   readonly declarationStrategy: DlerDeclarationStrategy;
   readonly root: string;
+  readonly selection?: TargetSelection | undefined;
   readonly skippedTargets: readonly { readonly label: string; readonly reason: string }[];
   readonly verbose: boolean;
   readonly targets: readonly { readonly cwd: string; readonly label?: string | undefined }[];
@@ -130,6 +166,19 @@ function formatBuildPreviewText(options: {
     `${options.colors.bold("Declaration strategy:")} ${options.colors.magenta(options.declarationStrategy)}`,
     `${options.colors.bold("Concurrency:")} ${options.colors.magenta(options.concurrency)}`,
     `${options.colors.bold("Targets:")} ${formatCount(options.colors, options.targets.length, "planned", "green")}, ${formatCount(options.colors, options.skippedTargets.length, "skipped", "yellow")}`,
+    ...(options.selection
+      ? [
+          "",
+          options.colors.bold(formatSelectionHeading(options.selection)),
+          ...formatLabelRows(
+            options.selection.selected.map((target) => ({
+              detail: describeSelectedTarget(target),
+              label: target.label,
+            })),
+            options.colors,
+          ),
+        ]
+      : []),
     "",
     options.colors.bold("Planned"),
     ...formatLabelRows(
@@ -165,7 +214,7 @@ function formatBuildPreviewText(options: {
 
     for (const [index, step] of options.commandDetails.entries()) {
       lines.push(
-        `  ${options.colors.magenta(`${index + 1}.`)} ${options.colors.bold(step.label ?? step.cwd)}`,
+        `  ${options.colors.magenta(`${index + 1}.`)} ${options.colors.bold(step.label ?? step.cwd)}${step.provider === options.provider ? "" : ` ${options.colors.gray(`(${step.provider})`)}`}`,
         `     ${options.colors.gray(step.command.replaceAll(options.root, "."))}`,
       );
     }
@@ -189,7 +238,7 @@ export default defineCommand({
   },
   agent: {
     notes:
-      "Default execution is preview-only. Pass --apply to execute generated build commands. When --targets is omitted, dler derives targets from cwd: the current workspace package or all workspace packages from the monorepo root.",
+      "Default execution is preview-only. Pass --apply to execute generated build commands. When --targets is omitted, dler derives targets from cwd: the current workspace package or all workspace packages from the monorepo root. --affected (merge-base with the default branch) or --since <ref> narrows the scope to packages changed in git plus their workspace dependents. Targets build in workspace dependency order (workspace: and catalog: deps); dependents of a failed target are skipped, and dependency cycles fail the plan. --watch (with --apply) keeps running after the initial build and rebuilds changed targets plus their workspace dependents; in --json mode it streams one NDJSON event per build. Providers: bun (default), tsdown, esbuild, plus any an rse plugin declares as provides: dler-build-provider:<id>; dler.buildProviders in rse.config picks one per package path or glob unless --provider is passed explicitly.",
   },
   conventions: {
     idempotent: true,
@@ -205,8 +254,14 @@ export default defineCommand({
       "rse build",
       "rse build --targets plugins/pm,plugins/dler,apps/rse --apply",
       "rse build --targets plugins/dler --provider bun --apply --json",
+      "rse build --targets plugins/pm --provider esbuild --verbose",
       "rse build --verbose",
       "rse build --concurrency 2 --apply",
+      "rse build --no-cache --apply",
+      "rse build --affected --apply",
+      "rse build --since HEAD~3",
+      "rse build --watch --apply",
+      "rse build --watch --apply --json",
     ],
     text: "dler plans a generated build command for each eligible workspace target. Default mode previews the commands for the resolved target scope; pass --apply to execute them through the selected provider.",
   },
@@ -214,23 +269,50 @@ export default defineCommand({
     provider: {
       type: "string",
       defaultValue: DLER_BUILD_DEFAULTS.provider,
-      description: "Build provider to use for the selected targets",
-      hint: "Only the Bun provider ships in v0, but the runtime is provider-oriented.",
+      description:
+        "Build provider to use for the selected targets (overrides dler.buildProviders from rse.config.json)",
+      hint: "bun | tsdown | esbuild, or a provider contributed by another rse plugin",
       inputSources: ["flag", "default"],
     },
     targets: {
       type: "string",
       description:
-        "Comma-separated workspace paths to build in order (defaults to cwd-derived scope when omitted)",
+        "Comma-separated workspace paths to build (defaults to cwd-derived scope when omitted). Workspace dependencies run first.",
       hint: "Examples: plugins/pm,plugins/dler,apps/rse",
       inputSources: ["flag"],
     },
+    affected: {
+      type: "boolean",
+      description:
+        "Only build targets changed since the merge-base with the default branch (or --since), plus their workspace dependents",
+      inputSources: ["flag"],
+    },
+    since: {
+      type: "string",
+      description:
+        "Only build targets changed since a git ref, plus their workspace dependents (uncommitted and untracked files count)",
+      hint: "origin/main",
+      inputSources: ["flag"],
+    },
     concurrency: {
       type: "number",
       defaultValue: DLER_CONCURRENCY_DEFAULTS.build,
-      description: "Maximum number of build targets to run at once",
+      description: "Maximum number of independent build targets to run at once",
       inputSources: ["flag", "default"],
     },
+    cache: {
+      type: "boolean",
+      defaultValue: true,
+      description:
+        "Restore dist from the local build cache when a target's inputs are unchanged (--no-cache rebuilds every target)",
+      inputSources: ["flag", "default"],
+    },
+    watch: {
+      type: "boolean",
+      description:
+        "After the initial build, watch target sources and rebuild changed targets and their workspace dependents (requires --apply)",
+      inputSources: ["flag"],
+    },
     verbose: {
       type: "boolean",
       description: "Show verbose text preview details, including generated build commands",
@@ -273,19 +355,83 @@ export default defineCommand({
         return ctx.exit(1, message);
       }
     })();
-    const providerRegistry = createBuildProviderRegistry({
-      providers: [createBunBuildProvider()],
-    });
+    const useCache = ctx.options.cache !== false;
+    const watchMode = ctx.options.watch === true;
+
+    if (watchMode && !ctx.safety.apply) {
+      ctx.exit(1, "--watch runs builds continuously. Pass --apply together with --watch.");
+    }
+    const builtInProviders = [
+      createBunBuildProvider(),
+      createTsdownBuildProvider(),
+      createEsbuildBuildProvider(),
+    ];
+    const pluginProviders = await loadPluginBuildProviders(ctx.cli?.pluginDiscovery?.loaded ?? []);
+
+    for (const message of pluginProviders.errors) {
+      ctx.err(`Warning: ${message}`);
+    }
+
+    const providers = [
+      ...builtInProviders,
+      ...pluginProviders.providers.filter((candidate) => {
+        const shadowed = builtInProviders.some((builtIn) => builtIn.id === candidate.id);
+        if (shadowed) {
+          ctx.err(`Warning: ignoring plugin build provider "${candidate.id}"; it is built in.`);
+        }
+        return !shadowed;
+      }),
+    ];
+    const providerRegistry = createBuildProviderRegistry({ providers });
     const provider = ctx.options.provider ?? providerRegistry.defaultProvider;
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    // An explicit --provider applies to every target; otherwise rse.config picks per package.
+    const providerByTarget =
+      ctx.optionSources?.provider === "flag"
+        ? undefined
+        : await readOptionalRseConfig(workspaceRoot)
+            .then((config) => config?.dler?.buildProviders)
+            .catch((error: unknown) => {
+              const message = error instanceof Error ? error.message : String(error);
+              return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+            });
     const explicitTargets = ctx.options.targets?.trim();
     const requestedTargets = await resolveRequestedTargets({
+      affected: ctx.options.affected === true,
       cwd: ctx.cwd,
       rawTargets: ctx.options.targets,
+      since: ctx.options.since,
     }).catch((error: unknown) => {
       const message = error instanceof Error ? error.message : String(error);
       return ctx.exit(1, `Target discovery failed: ${message}`);
     });
     const targetLabels = requestedTargets.labels;
+    const selection = requestedTargets.selection;
+
+    if (selection && targetLabels.length === 0) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(
+          {
+            apply: ctx.safety.apply,
+            ok: true,
+            preview: !ctx.safety.apply,
+            selection,
+            skipped: requestedTargets.resolution.skipped,
+            summary: createBuildSummary({
+              planned: 0,
+              skipped: requestedTargets.resolution.skipped,
+              targets: [],
+            }),
+            targets: [],
+          },
+          DLER_COMMAND_NAMES.build,
+        );
+        return;
+      }
+
+      ctx.out(formatEmptySelectionMessage(selection));
+      return;
+    }
 
     if (targetLabels.length === 0) {
       ctx.exit(
@@ -305,8 +451,15 @@ export default defineCommand({
       bundleStrategy,
       declarationStrategy,
       provider,
+      providerByTarget,
+      providers: providerRegistry,
       targets: requestedTargets.resolution.resolved,
     });
+
+    if (plan.errors.length > 0) {
+      ctx.exit(1, `Build plan is invalid: ${plan.errors.join("; ")}.`);
+    }
+
     const skippedTargets = [...requestedTargets.resolution.skipped, ...plan.skippedTargets];
     const targets = plan.executionTargets;
     const targetSets = createTargetSets({
@@ -332,6 +485,7 @@ export default defineCommand({
             ok: false,
             plannedTargets: targetSets.plannedTargets,
             provider,
+            ...(selection ? { selection } : {}),
             skipped: skippedTargets,
             skippedTargets: targetSets.skippedTargets,
             summary,
@@ -358,6 +512,7 @@ export default defineCommand({
       const preview = {
         apply: false,
         bundleStrategy,
+        cache: useCache,
         concurrency,
         declarationStrategy,
         preview: true,
@@ -365,12 +520,14 @@ export default defineCommand({
         ok: true,
         plannedTargets: targetSets.plannedTargets,
         provider,
+        ...(selection ? { selection } : {}),
         skipped: skippedTargets,
         skippedTargets: targetSets.skippedTargets,
         steps: targets.map((target) => ({
           command: target.displayCommand ?? target.command.join(" "),
           cwd: target.cwd,
           label: target.label ?? target.cwd,
+          provider: target.provider ?? provider,
           packageCommand: plan.plannedTargets.find(
             (plannedTarget) => plannedTarget.label === target.label,
           )?.packageCommand.display,
@@ -378,6 +535,7 @@ export default defineCommand({
             (plannedTarget) => plannedTarget.label === target.label,
           )?.packageCommand.bundleStrategy,
           declarationStrategy: target.declarationStrategy,
+          dependsOn: target.dependsOn ?? [],
         })),
         summary,
         targets: targetLabels,
@@ -396,6 +554,7 @@ export default defineCommand({
         declarationStrategy,
         provider,
         root: ctx.cwd,
+        selection,
         skippedTargets,
         verbose: ctx.options.verbose === true,
         targets,
@@ -408,12 +567,14 @@ export default defineCommand({
 
     ctx.safety.assertApplied("process.exec");
 
+    const cache = useCache ? createBuildCache({ workspaceRoot }) : undefined;
     const runtime = createBuilderRuntime({
       defaultProvider: providerRegistry.defaultProvider,
-      providers: [createBunBuildProvider()],
+      providers,
     });
     const report = await runtime
       .run({
+        cache,
         concurrency,
         provider,
         targets,
@@ -422,29 +583,42 @@ export default defineCommand({
         const message = error instanceof Error ? error.message : String(error);
         return ctx.exit(1, `Build setup failed: ${message}`);
       });
+    const executedSkippedTargets = [...skippedTargets, ...report.skipped];
     const summary = createBuildSummary({
       planned: targets.length,
-      skipped: skippedTargets,
+      skipped: executedSkippedTargets,
       targets: report.targets,
     });
     const executedTargetSets = createTargetSets({
       executedTargets: report.targets,
       plannedTargets: plan.plannedTargets,
-      skippedTargets,
+      skippedTargets: executedSkippedTargets,
     });
 
-    if (ctx.output.mode === "json") {
+    if (ctx.output.mode === "json" && watchMode) {
+      ctx.output.data({
+        dlerWatchEvent: 1,
+        ok: report.ok,
+        skipped: executedSkippedTargets,
+        summary,
+        targets: report.targets,
+        totalDurationMs: report.totalDurationMs,
+        type: "initial",
+      });
+    } else if (ctx.output.mode === "json") {
       if (report.ok) {
         ctx.output.result(
           {
             ...report,
             apply: true,
             bundleStrategy,
+            cache: useCache,
             concurrency,
             declarationStrategy,
             preview: false,
             executedTargets: executedTargetSets.executedTargets,
-            skipped: skippedTargets,
+            ...(selection ? { selection } : {}),
+            skipped: executedSkippedTargets,
             plannedTargets: executedTargetSets.plannedTargets,
             skippedTargets: executedTargetSets.skippedTargets,
             summary,
@@ -458,13 +632,15 @@ export default defineCommand({
         ...report,
         apply: true,
         bundleStrategy,
+        cache: useCache,
         concurrency,
         declarationStrategy,
         preview: false,
         executedTargets: executedTargetSets.executedTargets,
         ok: false,
         plannedTargets: executedTargetSets.plannedTargets,
-        skipped: skippedTargets,
+        ...(selection ? { selection } : {}),
+        skipped: executedSkippedTargets,
         skippedTargets: executedTargetSets.skippedTargets,
         remptsPreview: 1,
         summary,
@@ -473,8 +649,11 @@ export default defineCommand({
       ctx.out(`Provider: ${report.provider}`);
       ctx.out(`Bundle strategy: ${bundleStrategy}`);
       ctx.out(`Declaration strategy: ${declarationStrategy}`);
+      ctx.out(
+        `Cache: ${cache ? formatRelativePath(ctx.cwd, cache.directory) : "disabled (--no-cache)"}`,
+      );
 
-      for (const message of formatSkippedMessages(skippedTargets)) {
+      for (const message of formatSkippedMessages(executedSkippedTargets)) {
         ctx.err(message);
       }
 
@@ -486,18 +665,85 @@ export default defineCommand({
       ctx.out(formatBuildSummary(summary));
     }
 
+    if (watchMode) {
+      if (ctx.output.mode !== "json") {
+        for (const result of report.targets.filter((target) => !target.ok)) {
+          printFailedTargetOutput(result, ctx);
+        }
+      }
+
+      const watcher = await watchBuildTargets({
+        concurrency,
+        onError(error) {
+          ctx.err(`Rebuild failed: ${error instanceof Error ? error.message : String(error)}`);
+        },
+        onRebuild({ changedFiles, changedTargets, declarations, report: rebuildReport }) {
+          const rebuildSummary = createBuildSummary({
+            planned: rebuildReport.targets.length + rebuildReport.skipped.length,
+            skipped: rebuildReport.skipped,
+            targets: rebuildReport.targets,
+          });
+
+          if (ctx.output.mode === "json") {
+            ctx.output.data({
+              changedFiles,
+              changedTargets,
+              declarations,
+              dlerWatchEvent: 1,
+              ok: rebuildReport.ok,
+              skipped: rebuildReport.skipped,
+              summary: rebuildSummary,
+              targets: rebuildReport.targets,
+              totalDurationMs: rebuildReport.totalDurationMs,
+              type: "rebuild",
+            });
+            return;
+          }
+
+          ctx.out("");
+          ctx.out(
+            `Changed: ${changedTargets.join(", ")} (${changedFiles.length} file${changedFiles.length === 1 ? "" : "s"}${declarations || declarationStrategy === "off" ? "" : ", declarations unchanged"})`,
+          );
+
+          for (const message of formatSkippedMessages(rebuildReport.skipped)) {
+            ctx.err(message);
+          }
+
+          for (const result of rebuildReport.targets) {
+            ctx.out(formatBuildResultLine(result));
+            if (!result.ok) {
+              printFailedTargetOutput(result, ctx);
+            }
+          }
+
+          ctx.out(formatBuildSummary(rebuildSummary));
+        },
+        provider,
+        runtime,
+        targets,
+      });
+      const stop = () => watcher.close();
+
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+
+      if (ctx.output.mode !== "json") {
+        ctx.out("");
+        ctx.out(`Watching ${targets.length} target(s) for changes. Press Ctrl+C to stop.`);
+      }
+
+      await watcher.closed;
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      return;
+    }
+
     if (!report.ok) {
       const failedTarget =
         report.targets.find((target) => !target.ok) ?? ctx.exit(1, "Build failed.");
 
       if (ctx.output.mode !== "json") {
-        if (failedTarget.stdout.trim().length > 0) {
-          ctx.out(failedTarget.stdout.trim());
-        }
-
-        if (failedTarget.stderr.trim().length > 0) {
-          ctx.err(failedTarget.stderr.trim());
-        }
+        printFailedTargetOutput(failedTarget, ctx);
       }
 
       ctx.exit(
@@ -0,0 +1,14 @@
+import { defineCommand } from "@reliverse/rempts";
+
+export default defineCommand({
+  meta: {
+    name: "cache",
+    description: "Inspect and prune the local dler build cache.",
+  },
+  help: {
+    examples: ["rse dler cache stats", "rse dler cache prune --apply"],
+  },
+  async handler() {
+    return undefined;
+  },
+});
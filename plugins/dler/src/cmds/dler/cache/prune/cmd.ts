@@ -0,0 +1,90 @@
+import { relative } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import { pruneBuildCache, resolveBuildCacheDirectory } from "../../../../impl/build";
+import { DLER_BUILD_CACHE_DEFAULTS, DLER_COMMAND_NAMES } from "../../../../impl/constants";
+import { formatBytes } from "../../../../impl/report-helpers";
+import { resolveWorkspaceRootFromCwd } from "../../../../impl/workspace-targets";
+
+export default defineCommand({
+  meta: {
+    name: "prune",
+    description: "Remove stale entries from the local dler build cache.",
+  },
+  agent: {
+    notes:
+      "Default execution is preview-only. The most recently used entry of each package is kept unless --all is passed.",
+  },
+  conventions: {
+    idempotent: true,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.delete"],
+  },
+  help: {
+    examples: [
+      "rse dler cache prune",
+      "rse dler cache prune --max-age-days 1 --apply",
+      "rse dler cache prune --all --apply",
+    ],
+    text: "Entries not used for longer than --max-age-days are removed, except the latest entry of each package. Pass --all to empty the cache.",
+  },
+  options: {
+    maxAgeDays: {
+      type: "number",
+      defaultValue: DLER_BUILD_CACHE_DEFAULTS.pruneMaxAgeDays,
+      description: "Remove entries not restored or stored for this many days",
+      inputSources: ["flag", "default"],
+    },
+    all: {
+      type: "boolean",
+      description: "Remove every cache entry, including the latest entry of each package",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    const maxAgeDays = ctx.options.maxAgeDays ?? DLER_BUILD_CACHE_DEFAULTS.pruneMaxAgeDays;
+
+    if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+      ctx.exit(1, "--max-age-days must be a non-negative number.");
+    }
+
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    const directory = resolveBuildCacheDirectory(workspaceRoot);
+    const result = await pruneBuildCache(directory, {
+      all: ctx.options.all === true,
+      apply: ctx.safety.apply,
+      maxAgeDays,
+    });
+    const payload = {
+      apply: ctx.safety.apply,
+      directory,
+      kept: result.kept.length,
+      preview: !ctx.safety.apply,
+      removed: result.removed.map((entry) => ({ key: entry.key, label: entry.label })),
+      removedBytes: result.removed.reduce((total, entry) => total + entry.sizeBytes, 0),
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(payload, DLER_COMMAND_NAMES.cachePrune);
+      return;
+    }
+
+    const verb = ctx.safety.apply ? "Removed" : "Would remove";
+    for (const entry of result.removed) {
+      ctx.out(`${verb}: ${entry.label} ${entry.key.slice(0, 12)} (last used ${entry.lastUsedAt})`);
+    }
+
+    ctx.out(
+      `${verb} ${result.removed.length} entr${result.removed.length === 1 ? "y" : "ies"} (${formatBytes(payload.removedBytes)}) from ${relative(ctx.cwd, directory) || "."}; kept ${result.kept.length}.`,
+    );
+
+    if (!ctx.safety.apply && result.removed.length > 0) {
+      ctx.out("Preview only. Pass --apply to delete these entries.");
+    }
+  },
+});
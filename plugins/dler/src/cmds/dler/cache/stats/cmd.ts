@@ -0,0 +1,54 @@
+import { relative } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import { readBuildCacheEntries, resolveBuildCacheDirectory } from "../../../../impl/build";
+import { DLER_COMMAND_NAMES } from "../../../../impl/constants";
+import { formatBytes } from "../../../../impl/report-helpers";
+import { resolveWorkspaceRootFromCwd } from "../../../../impl/workspace-targets";
+
+export default defineCommand({
+  meta: {
+    name: "stats",
+    description: "Show entry counts and disk usage of the local dler build cache.",
+  },
+  conventions: {
+    idempotent: true,
+  },
+  help: {
+    examples: ["rse dler cache stats", "rse dler cache stats --json"],
+  },
+  async handler(ctx) {
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    const directory = resolveBuildCacheDirectory(workspaceRoot);
+    const entries = await readBuildCacheEntries(directory);
+    const packages = new Map<string, { entries: number; sizeBytes: number }>();
+
+    for (const entry of entries) {
+      const current = packages.get(entry.label) ?? { entries: 0, sizeBytes: 0 };
+      packages.set(entry.label, {
+        entries: current.entries + 1,
+        sizeBytes: current.sizeBytes + entry.sizeBytes,
+      });
+    }
+
+    const payload = {
+      directory,
+      entries: entries.length,
+      packages: [...packages].map(([label, stats]) => ({ label, ...stats })),
+      sizeBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(payload, DLER_COMMAND_NAMES.cacheStats);
+      return;
+    }
+
+    ctx.out(`Cache: ${relative(ctx.cwd, directory) || "."}`);
+    ctx.out(`Entries: ${payload.entries} (${formatBytes(payload.sizeBytes)})`);
+
+    for (const item of payload.packages) {
+      ctx.out(`  ${item.label}: ${item.entries} (${formatBytes(item.sizeBytes)})`);
+    }
+  },
+});
@@ -59,7 +59,11 @@ function createJsonCtx(
   };
 }
 
-function createTextCtx(cwd: string, options: Record<string, unknown>) {
+function createTextCtx(
+  cwd: string,
+  options: Record<string, unknown>,
+  env: NodeJS.ProcessEnv = process.env,
+) {
   const textLines: string[] = [];
   const errorLines: string[] = [];
 
@@ -79,7 +83,7 @@ function createTextCtx(cwd: string, options: Record<string, unknown>) {
         },
       },
       cwd,
-      env: process.env,
+      env,
       err: (...values: unknown[]) => errorLines.push(values.join(" ")),
       exit(code: number, message: string): never {
         throw new Error(`EXIT ${code}: ${message}`);
@@ -107,6 +111,39 @@ function createTextCtx(cwd: string, options: Record<string, unknown>) {
   };
 }
 
+async function writeReleaseWorkspace(root: string): Promise<void> {
+  await writeFile(
+    join(root, "package.json"),
+    JSON.stringify({ private: true, workspaces: { packages: ["packages/*"] } }),
+    "utf8",
+  );
+
+  for (const [name, dependencies] of [
+    ["core", {}],
+    ["app", { "core-pkg": "workspace:*" }],
+  ] as const) {
+    const dir = join(root, "packages", name);
+    await mkdir(join(dir, "dist"), { recursive: true });
+    await writeFile(
+      join(dir, "package.json"),
+      `${JSON.stringify({ name: `${name}-pkg`, version: "1.0.0", type: "module", publishConfig: { access: "public" }, dependencies }, null, 2)}\n`,
+      "utf8",
+    );
+    await writeFile(join(dir, "dist", "index.js"), "export {}\n", "utf8");
+  }
+}
+
+/** Fake npm: nothing is published yet, and each publish is appended to `logPath`. */
+async function writeRecordingNpm(binDir: string, logPath: string): Promise<void> {
+  await mkdir(binDir, { recursive: true });
+  await writeFile(
+    join(binDir, "npm"),
+    `#!/usr/bin/env bash\nset -euo pipefail\nif [ "\${1:-}" = "whoami" ]; then\n  printf 'blefnk\\n'\n  exit 0\nfi\nif [ "\${1:-}" = "view" ]; then\n  exit 1\nfi\nif [ "\${1:-}" = "pack" ]; then\n  node -e 'const fs = require("node:fs"); const pkg = JSON.parse(fs.readFileSync("package.json", "utf8")); console.log(JSON.stringify([{ filename: pkg.name + "-" + pkg.version + ".tgz", name: pkg.name, version: pkg.version, size: 123, unpackedSize: 45, files: [{ path: "package.json", size: 2 }, { path: "dist/index.js", size: 10 }] }]));'\n  exit 0\nfi\nif [ "\${1:-}" = "publish" ]; then\n  shift\n  extra="$(printf ' %s' "$@" | sed -e 's/ --access public//')"\n  node -e 'const fs = require("node:fs"); const pkg = JSON.parse(fs.readFileSync("package.json", "utf8")); fs.appendFileSync(process.argv[1], "publish " + pkg.name + "@" + pkg.version + process.argv[2] + "\\n");' "${logPath}" "$extra"\n  exit 0\nfi\necho "unexpected npm args: $*" >&2\nexit 1\n`,
+    "utf8",
+  );
+  await chmod(join(binDir, "npm"), 0o755);
+}
+
 describe("dler pub command", () => {
   test("json result reports skipped ineligible packages with stable summary", async () => {
     const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
@@ -631,9 +668,11 @@ describe("dler pub command", () => {
     );
     await chmod(join(binDir, "npm"), 0o755);
 
+    // The fake npm has no tarball of the published 1.0.0 to compare declarations with.
     const { ctx, resultCalls } = createJsonCtx(
       root,
       {
+        apiCheck: false,
         apply: true,
         publishFrom: "dist",
         tag: "latest",
@@ -755,4 +794,347 @@ describe("dler pub command", () => {
       summary: { failed: 0, planned: 1, published: 0, skipped: 1 },
     });
   });
+
+  test("apply publishes in workspace dependency order and writes a release journal", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    const logPath = join(root, "npm.log");
+    await writeReleaseWorkspace(root);
+    await writeRecordingNpm(binDir, logPath);
+
+    const { ctx, resultCalls } = createJsonCtx(
+      root,
+      { apply: true, publishFrom: "dist", targets: "packages/app,packages/core" },
+      { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` },
+    );
+
+    await command.handler(ctx as never);
+
+    expect(await readFile(logPath, "utf8")).toBe("publish core-pkg@1.0.0\npublish app-pkg@1.0.0\n");
+    expect(resultCalls[0]?.value).toMatchObject({
+      journal: {
+        entries: [
+          { dependsOn: [], label: "packages/core", status: "published", version: "1.0.0" },
+          {
+            dependsOn: ["packages/core"],
+            label: "packages/app",
+            status: "published",
+            version: "1.0.0",
+          },
+        ],
+        order: "dependency-graph",
+        status: "completed",
+      },
+      journalPath: join(root, ".cache", "dler", "pub", "journal.json"),
+      published: [{ label: "packages/core" }, { label: "packages/app" }],
+    });
+    expect(
+      JSON.parse(await readFile(join(root, ".cache", "dler", "pub", "journal.json"), "utf8")),
+    ).toMatchObject({ status: "completed" });
+  });
+
+  test("--resume continues the journaled release with its versions", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    const logPath = join(root, "npm.log");
+    await writeReleaseWorkspace(root);
+    await writeRecordingNpm(binDir, logPath);
+    await mkdir(join(root, ".cache", "dler", "pub"), { recursive: true });
+    await writeFile(
+      join(root, ".cache", "dler", "pub", "journal.json"),
+      JSON.stringify({
+        bundleStrategy: "auto",
+        dlerPublishJournal: 1,
+        entries: [
+          {
+            dependsOn: [],
+            label: "packages/core",
+            packageName: "core-pkg",
+            status: "published",
+            version: "1.0.3",
+          },
+          {
+            dependsOn: ["packages/core"],
+            label: "packages/app",
+            packageName: "app-pkg",
+            reason: "npm publish failed",
+            status: "failed",
+            version: "1.0.3",
+          },
+        ],
+        order: "dependency-graph",
+        publishFrom: "dist",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        status: "failed",
+        tag: "latest",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+      "utf8",
+    );
+    const env = { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` };
+
+    await expect(
+      command.handler(
+        createJsonCtx(root, { apply: true, resume: true, targets: "packages/app" }, env)
+          .ctx as never,
+      ),
+    ).rejects.toThrow("--resume continues the journaled release");
+    await expect(
+      command.handler(
+        createJsonCtx(root, { apply: true, resume: true, tag: "next" }, env).ctx as never,
+      ),
+    ).rejects.toThrow("--resume reuses the journaled --tag");
+
+    const { ctx, resultCalls } = createJsonCtx(root, { apply: true, resume: true }, env);
+    await command.handler(ctx as never);
+
+    expect(await readFile(logPath, "utf8")).toBe("publish app-pkg@1.0.3 --tag latest\n");
+    expect(resultCalls[0]?.value).toMatchObject({
+      journal: {
+        entries: [
+          { label: "packages/core", status: "published" },
+          { label: "packages/app", status: "published", version: "1.0.3" },
+        ],
+        startedAt: "2026-01-01T00:00:00.000Z",
+        status: "completed",
+      },
+      published: [{ label: "packages/app", publishVersion: "1.0.3" }],
+    });
+
+    const again = createJsonCtx(root, { resume: true }, env);
+    await command.handler(again.ctx as never);
+    expect(again.resultCalls[0]?.value).toMatchObject({
+      journal: { status: "completed" },
+      ok: true,
+      published: [],
+    });
+  });
+
+  test("size budgets skip oversized packages and --apply records the size baseline", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    await writeReleaseWorkspace(root);
+    await writeRecordingNpm(binDir, join(root, "npm.log"));
+    await writeFile(
+      join(root, "rse.config.json"),
+      JSON.stringify({
+        dler: { sizeBudgets: { "packages/a*": { files: { "dist/**": "8 B" }, maxFiles: 1 } } },
+      }),
+      "utf8",
+    );
+
+    const { ctx, resultCalls } = createJsonCtx(
+      root,
+      { apply: true, publishFrom: "dist", targets: "packages/app,packages/core" },
+      { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` },
+    );
+
+    await command.handler(ctx as never);
+
+    expect(resultCalls[0]?.value).toMatchObject({
+      published: [{ label: "packages/core", size: { hasBaseline: false } }],
+      skipped: [
+        {
+          label: "packages/app",
+          reason: "size budget exceeded: 2 files exceeds 1; dist/** totals 10 B, over 8 B",
+        },
+      ],
+    });
+    expect(
+      JSON.parse(await readFile(join(root, ".cache", "dler", "pub", "sizes.json"), "utf8")),
+    ).toMatchObject({
+      dlerPackSizes: 1,
+      packages: {
+        "core-pkg": { files: { "dist/index.js": 10, "package.json": 2 }, version: "1.0.0" },
+      },
+    });
+    expect(
+      JSON.parse(await readFile(join(root, ".cache", "dler", "pub", "sizes.json"), "utf8"))
+        .packages["app-pkg"],
+    ).toBeUndefined();
+  });
+
+  test("a dependency skipped by its size budget blocks its dependents and fails the release", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    const logPath = join(root, "npm.log");
+    const docsDir = join(root, "packages", "docs");
+    await writeReleaseWorkspace(root);
+    await writeRecordingNpm(binDir, logPath);
+    await mkdir(join(docsDir, "dist"), { recursive: true });
+    await writeFile(
+      join(docsDir, "package.json"),
+      JSON.stringify({
+        name: "docs-pkg",
+        version: "1.0.0",
+        type: "module",
+        publishConfig: { access: "public" },
+      }),
+      "utf8",
+    );
+    await writeFile(join(docsDir, "dist", "index.js"), "export {}\n", "utf8");
+    await writeFile(
+      join(root, "rse.config.json"),
+      JSON.stringify({ dler: { sizeBudgets: { "packages/core": { maxFiles: 1 } } } }),
+      "utf8",
+    );
+
+    const { ctx, resultCalls } = createJsonCtx(
+      root,
+      {
+        apply: true,
+        publishFrom: "dist",
+        targets: "packages/app,packages/core,packages/docs",
+      },
+      { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` },
+    );
+
+    await expect(command.handler(ctx as never)).rejects.toThrow(
+      "EXIT 1: Release incomplete: see .cache/dler/pub/journal.json",
+    );
+
+    expect(await readFile(logPath, "utf8")).toBe("publish docs-pkg@1.0.0\n");
+    expect(resultCalls[0]?.value).toMatchObject({
+      journal: {
+        entries: [
+          { label: "packages/core", status: "skipped" },
+          {
+            label: "packages/app",
+            reason: "dependency packages/core failed",
+            status: "skipped",
+          },
+          { label: "packages/docs", status: "published" },
+        ],
+        status: "failed",
+      },
+      ok: false,
+      published: [{ label: "packages/docs" }],
+      skipped: [
+        { label: "packages/core", reason: "size budget exceeded: 2 files exceeds 1" },
+        { label: "packages/app", reason: "dependency packages/core failed" },
+      ],
+    });
+  });
+
+  test("preview shows the size diff per file against the last publish", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    await writeReleaseWorkspace(root);
+    await writeRecordingNpm(binDir, join(root, "npm.log"));
+    await mkdir(join(root, ".cache", "dler", "pub"), { recursive: true });
+    await writeFile(
+      join(root, ".cache", "dler", "pub", "sizes.json"),
+      JSON.stringify({
+        dlerPackSizes: 1,
+        packages: {
+          "core-pkg": {
+            files: { "dist/index.js": 4, "dist/old.js": 30, "package.json": 2 },
+            publishedAt: "2026-01-01T00:00:00.000Z",
+            unpackedSize: 36,
+            version: "0.9.0",
+          },
+        },
+      }),
+      "utf8",
+    );
+    const env = { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` };
+
+    const json = createJsonCtx(root, { publishFrom: "dist", targets: "packages/core" }, env);
+    await command.handler(json.ctx as never);
+
+    expect(json.resultCalls[0]?.value).toMatchObject({
+      published: [
+        {
+          label: "packages/core",
+          size: {
+            baselineVersion: "0.9.0",
+            files: [
+              { before: 30, delta: -30, path: "dist/old.js", status: "removed" },
+              { after: 10, before: 4, delta: 6, path: "dist/index.js", status: "changed" },
+            ],
+            hasBaseline: true,
+            unpackedSize: { after: 45, before: 36, delta: 9 },
+          },
+        },
+      ],
+    });
+
+    const { ctx, textLines } = createTextCtx(
+      root,
+      { publishFrom: "dist", targets: "packages/core" },
+      env,
+    );
+    await command.handler(ctx as never);
+
+    const output = textLines.join("\n");
+    expect(output).toContain("packages/core 45 B (+9 B vs 0.9.0)");
+    expect(output).toContain("- dist/old.js -30 B");
+    expect(output).toContain("~ dist/index.js +6 B");
+  });
+
+  test("breaking declaration changes without a major bump skip the package", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-"));
+    const binDir = join(root, "bin");
+    const pkgDir = join(root, "packages", "api");
+    const published = join(root, "published", "package");
+    const manifest = {
+      name: "api-pkg",
+      type: "module",
+      publishConfig: { access: "public" },
+      exports: { ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+    };
+    await mkdir(binDir, { recursive: true });
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["packages/*"] } }),
+      "utf8",
+    );
+
+    for (const [dir, version, declarations] of [
+      [pkgDir, "1.1.0", "export declare function run(cwd: string): void;\n"],
+      [published, "1.0.0", "export declare function run(): void;\n"],
+    ] as const) {
+      await mkdir(join(dir, "dist"), { recursive: true });
+      await writeFile(join(dir, "package.json"), JSON.stringify({ ...manifest, version }), "utf8");
+      await writeFile(join(dir, "dist", "index.js"), "export {}\n", "utf8");
+      await writeFile(join(dir, "dist", "index.d.ts"), declarations, "utf8");
+    }
+
+    const tarball = join(root, "api-pkg-1.0.0.tgz");
+    const tar = Bun.spawn(["tar", "-czf", tarball, "-C", join(root, "published"), "package"]);
+    expect(await tar.exited).toBe(0);
+    // `npm view api-pkg@latest` answers 1.0.0, and `npm pack api-pkg@1.0.0` serves its tarball.
+    await writeFile(
+      join(binDir, "npm"),
+      `#!/usr/bin/env bash\nset -euo pipefail\nif [ "\${1:-}" = "view" ]; then\n  if [ "\${2:-}" = "api-pkg@latest" ]; then\n    printf '"1.0.0"\\n'\n    exit 0\n  fi\n  exit 1\nfi\nif [ "\${1:-}" = "pack" ] && [ "\${2:-}" = "api-pkg@1.0.0" ]; then\n  cp "${tarball}" "$5/api-pkg-1.0.0.tgz"\n  printf '[{"filename":"api-pkg-1.0.0.tgz","name":"api-pkg","version":"1.0.0","files":[]}]\\n'\n  exit 0\nfi\nif [ "\${1:-}" = "pack" ]; then\n  printf '[{"filename":"api-pkg-1.1.0.tgz","name":"api-pkg","version":"1.1.0","size":123,"unpackedSize":45,"files":[{"path":"package.json","size":2},{"path":"dist/index.js","size":10},{"path":"dist/index.d.ts","size":33}]}]\\n'\n  exit 0\nfi\nif [ "\${1:-}" = "publish" ]; then\n  printf 'publish dry-run ok\\n'\n  exit 0\nfi\necho "unexpected npm args: $*" >&2\nexit 1\n`,
+      "utf8",
+    );
+    await chmod(join(binDir, "npm"), 0o755);
+    const env = { ...process.env, PATH: `${binDir}:${process.env.PATH ?? ""}` };
+
+    const checked = createJsonCtx(root, { publishFrom: "dist", targets: "packages/api" }, env);
+    await command.handler(checked.ctx as never);
+
+    expect(checked.resultCalls[0]?.value).toMatchObject({
+      ok: false,
+      published: [],
+      skipped: [
+        {
+          label: "packages/api",
+          reason: 'breaking API changes need a major bump (1.0.0 -> 1.1.0): changed run in "."',
+        },
+      ],
+    });
+
+    const unchecked = createJsonCtx(
+      root,
+      { apiCheck: false, publishFrom: "dist", targets: "packages/api" },
+      env,
+    );
+    await command.handler(unchecked.ctx as never);
+
+    expect(unchecked.resultCalls[0]?.value).toMatchObject({
+      published: [{ label: "packages/api", publishVersion: "1.1.0" }],
+    });
+  });
 });
@@ -1,32 +1,82 @@
 import { readdir, readFile } from "node:fs/promises";
-import { dirname, resolve } from "node:path";
+import { dirname, relative, resolve } from "node:path";
 
 import { defineCommand, invokeCommand } from "@reliverse/rempts";
 
-import { mapWithConcurrency, resolveConcurrency } from "../../impl/concurrency";
+import {
+  describeSelectedTarget,
+  formatEmptySelectionMessage,
+  formatSelectionHeading,
+  type TargetSelection,
+} from "../../../impl/affected-targets";
+import { readPublishedApiBaseline } from "../../../impl/api-diff/baseline";
+import {
+  allowsBreakingChanges,
+  diffApiSurfaces,
+  formatApiBreakReason,
+} from "../../../impl/api-diff/diff";
+import { readApiSurface } from "../../../impl/api-diff/surface";
+import { resolveConcurrency } from "../../../impl/concurrency";
 import {
   DLER_BUILD_BUNDLE_STRATEGIES,
   DLER_BUILD_DEFAULTS,
   DLER_COMMAND_NAMES,
   DLER_CONCURRENCY_DEFAULTS,
   DLER_PUBLISH_DEFAULTS,
-} from "../../impl/constants";
-import { runNpmPackDryRun } from "../../impl/pub/npm-pack";
-import type { NpmPackPreview } from "../../impl/pub/npm-pack";
-import { readNpmPublishedVersion, runNpmPublish, runNpmWhoami } from "../../impl/pub/npm-publish";
-import { isSafeRelativePublishFrom } from "../../impl/pub/paths";
-import { syncPackageJsonVersion } from "../../impl/pub/source-version";
-import { createPublishStaging } from "../../impl/pub/staging";
-import { resolvePublishableTargets } from "../../impl/pub/validation";
-import type { PublishBundleStrategy } from "../../impl/pub/validation";
+} from "../../../impl/constants";
+import {
+  formatDependencyCycle,
+  orderByDependencies,
+  readWorkspaceDependencyGraph,
+  runDependencyGraph,
+} from "../../../impl/dependency-graph";
+import {
+  createPublishJournal,
+  createPublishJournalRecorder,
+  listResumableEntries,
+  readPublishJournal,
+  resolvePublishJournalPath,
+  type PublishJournal,
+} from "../../../impl/pub/journal";
+import { runNpmPackDryRun } from "../../../impl/pub/npm-pack";
+import type { NpmPackPreview } from "../../../impl/pub/npm-pack";
+import {
+  readNpmPublishedVersion,
+  runNpmPublish,
+  runNpmWhoami,
+} from "../../../impl/pub/npm-publish";
+import { isSafeRelativePublishFrom } from "../../../impl/pub/paths";
+import {
+  checkPackSizeBudget,
+  diffPackSizes,
+  formatByteDelta,
+  formatPackSizeBudgetReason,
+  readPackSizeBaseline,
+  recordPackSizeBaseline,
+  resolvePackSizeBaselinePath,
+  resolvePackSizeBudget,
+  type PackSizeDiff,
+} from "../../../impl/pub/size-budget";
+import { syncPackageJsonVersion } from "../../../impl/pub/source-version";
+import { createPublishStaging } from "../../../impl/pub/staging";
+import { resolvePublishableTargets } from "../../../impl/pub/validation";
+import type { PublishableTarget, PublishBundleStrategy } from "../../../impl/pub/validation";
 import {
   findUnsafeDependencySpecifiers,
   normalizePublishDependencySpecifiers,
-} from "../../impl/pub/workspace-deps";
-import { createPublishExecutedTargets, createTargetSets } from "../../impl/report-helpers";
-import { createPublishSummary, createPublishSummaryFromResults } from "../../impl/result-contract";
-import { readOptionalRseConfig } from "../../impl/rse-config";
-import { pathIsDirectory, resolveRequestedTargets } from "../../impl/shared-targets";
+} from "../../../impl/pub/workspace-deps";
+import {
+  createPublishExecutedTargets,
+  createTargetSets,
+  formatBytes,
+} from "../../../impl/report-helpers";
+import {
+  createPublishSummary,
+  createPublishSummaryFromResults,
+} from "../../../impl/result-contract";
+import { readOptionalRseConfig } from "../../../impl/rse-config";
+import { pathIsDirectory, resolveRequestedTargets } from "../../../impl/shared-targets";
+import { resolveWorkspaceRootFromCwd } from "../../../impl/workspace-targets";
 import pubOnboardCommand from "./onboard/cmd";
 
 type PreviewStyle = (value: unknown) => string;
@@ -47,6 +97,7 @@ interface PublishTextResult {
   readonly npm: { readonly stderr: string; readonly stdout: string };
   readonly pack: NpmPackPreview;
   readonly packageName: string;
+  readonly size: PackSizeDiff;
 }
 
 const packedSourceFileExtensions = [".cts", ".mts", ".ts", ".tsx"] as const;
@@ -63,14 +114,6 @@ const packedTestSegments = [
   "tests/",
 ] as const;
 
-function formatBytes(value: number | undefined): string {
-  if (typeof value !== "number" || !Number.isFinite(value)) return "unknown size";
-  if (value < 1024) return `${value} B`;
-  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
-
-  return `${(value / 1024 / 1024).toFixed(1)} MB`;
-}
-
 function isPackedTypeDeclaration(path: string): boolean {
   return path.endsWith(".d.ts") || path.endsWith(".d.mts") || path.endsWith(".d.cts");
 }
@@ -410,13 +453,48 @@ function pushPackOutput(lines: string[], colors: PreviewColors, result: PublishT
   }
 }
 
+const PACK_SIZE_DIFF_ROWS = 10;
+
+const packFileDiffMarkers = { added: "+", changed: "~", removed: "-" } as const;
+
+function pushSizeOutput(lines: string[], colors: PreviewColors, result: PublishTextResult): void {
+  const { size } = result;
+  const comparison = size.hasBaseline
+    ? `${formatByteDelta(size.unpackedSize.delta)} vs ${size.baselineVersion ?? "last publish"}`
+    : "no baseline yet";
+  lines.push(
+    `  ${colors.bold(result.label)} ${formatBytes(size.unpackedSize.after)} ${colors.gray(`(${comparison})`)}`,
+  );
+
+  for (const file of size.files.slice(0, PACK_SIZE_DIFF_ROWS)) {
+    lines.push(
+      `     ${colors.gray(`${packFileDiffMarkers[file.status]} ${file.path} ${formatByteDelta(file.delta)}`)}`,
+    );
+  }
+
+  if (size.files.length > PACK_SIZE_DIFF_ROWS) {
+    lines.push(
+      `     ${colors.gray(`… ${size.files.length - PACK_SIZE_DIFF_ROWS} more changed files`)}`,
+    );
+  }
+}
+
+const publishOrderLabels: Record<PublishJournal["order"], string> = {
+  "dependency-graph": "workspace dependency graph",
+  publishOrder: "dler.publishOrder (rse.config)",
+};
+
 function formatPublishText(options: {
   readonly apply: boolean;
   readonly bundleStrategy: PublishBundleStrategy;
   readonly colors: PreviewColors;
   readonly concurrency: number;
+  /** Written release journal, only for --apply runs that planned packages. */
+  readonly journal?: { readonly path: string; readonly status: string } | undefined;
+  readonly order: PublishJournal["order"];
   readonly publishFrom: string;
   readonly results: readonly PublishTextResult[];
+  readonly selection?: TargetSelection | undefined;
   readonly skipped: readonly {
     readonly label: string;
     readonly reason: string;
@@ -433,8 +511,15 @@ function formatPublishText(options: {
     `${options.colors.bold("Publish from:")} ${options.colors.magenta(options.publishFrom)}`,
     `${options.colors.bold("Bundle strategy:")} ${options.colors.magenta(options.bundleStrategy)}`,
     `${options.colors.bold("Concurrency:")} ${options.colors.magenta(options.concurrency)}`,
+    `${options.colors.bold("Order:")} ${options.colors.magenta(publishOrderLabels[options.order])}`,
   ];
 
+  if (options.journal) {
+    lines.push(
+      `${options.colors.bold("Journal:")} ${options.colors.magenta(options.journal.path)} ${options.colors.gray(`(${options.journal.status})`)}`,
+    );
+  }
+
   if (options.tag && options.tag.trim().length > 0) {
     lines.push(`${options.colors.bold("Tag:")} ${options.colors.magenta(options.tag.trim())}`);
   }
@@ -443,6 +528,20 @@ function formatPublishText(options: {
     `${options.colors.bold("Targets:")} ${formatCount(options.colors, options.results.length, action, "green")}, ${formatCount(options.colors, options.skipped.length, "skipped", "yellow")}`,
   );
 
+  if (options.selection) {
+    lines.push(
+      "",
+      options.colors.bold(formatSelectionHeading(options.selection)),
+      ...formatLabelRows(
+        options.selection.selected.map((target) => ({
+          detail: describeSelectedTarget(target),
+          label: target.label,
+        })),
+        options.colors,
+      ),
+    );
+  }
+
   if (options.results.length > 0) {
     lines.push(
       "",
@@ -459,6 +558,14 @@ function formatPublishText(options: {
     );
   }
 
+  if (options.results.length > 0) {
+    lines.push("", options.colors.bold("Size"));
+
+    for (const result of options.results) {
+      pushSizeOutput(lines, options.colors, result);
+    }
+  }
+
   if (options.skipped.length > 0) {
     lines.push(
       "",
@@ -497,9 +604,11 @@ function formatPublishText(options: {
 
   lines.push(
     "",
-    options.apply
-      ? `${options.colors.green("Publish complete.")} Use ${options.colors.bold("--json")} for the machine-readable result.`
-      : `${options.colors.yellow("No packages published.")} Pass ${options.colors.bold("--apply")} to publish to npm.`,
+    options.journal?.status === "failed"
+      ? `${options.colors.yellow("Release incomplete.")} Run ${options.colors.bold("rse pub --resume --apply")} once the failed or skipped packages are fixed.`
+      : options.apply
+        ? `${options.colors.green("Publish complete.")} Use ${options.colors.bold("--json")} for the machine-readable result.`
+        : `${options.colors.yellow("No packages published.")} Pass ${options.colors.bold("--apply")} to publish to npm.`,
     options.verbose
       ? `Use ${options.colors.bold("--json")} for the full machine-readable result.`
       : `Use ${options.colors.bold("--verbose")} or ${options.colors.bold("--json")} to inspect npm output and durations.`,
@@ -517,7 +626,7 @@ export default defineCommand({
   },
   agent: {
     notes:
-      "Eligible packages: not private, type module, publishConfig.access public. Default execution prepares an npm publish preview from existing artifacts. Pass --apply for real npm publish. dler build is the recommended artifact producer, but any external build flow is valid if it prepares the selected --publish-from directory. v1 does not rewrite workspace/catalog specifiers — ensure versions are publishable. Requires npm CLI and registry auth for real publishes.",
+      "Eligible packages: not private, type module, publishConfig.access public. Default execution prepares an npm publish preview from the artifacts in --publish-from (dler build or any other build flow); pass --apply for real npm publish, which needs the npm CLI and registry auth. Packages publish in workspace dependency order and are skipped when a dependency in the same release does not publish. --apply writes a release journal; an incomplete release exits 1 and pub --resume --apply continues it. See the dler plugin README for the journal, size budgets, and the API break check (--no-api-check).",
   },
   interactive: "never",
   conventions: {
@@ -536,6 +645,9 @@ export default defineCommand({
       "rse pub --targets packages/foo --verbose",
       "rse pub --targets packages/foo --concurrency 2 --apply",
       "rse pub --targets packages/foo --publish-from dist --tag next --apply",
+      "rse pub --affected",
+      "rse pub --resume --apply",
+      "rse pub journal --json",
     ],
     text: "Targets come from --targets or from cwd scope when omitted. dler pub stages package.json plus the chosen artifact directory before npm publish. Use dler build when you want the recommended Reliverse build path, or provide artifacts from any other build flow via --publish-from.",
   },
@@ -554,10 +666,29 @@ export default defineCommand({
     targets: {
       type: "string",
       description:
-        "Comma-separated workspace paths (relative to --cwd) to publish in order (defaults to cwd-derived scope when omitted)",
+        "Comma-separated workspace paths (relative to --cwd) to publish in workspace dependency order (defaults to dler.publishOrder or the cwd-derived scope when omitted)",
       hint: "Example: packages/rempts,plugins/pub",
       inputSources: ["flag"],
     },
+    affected: {
+      type: "boolean",
+      description:
+        "Only publish targets changed since the merge-base with the default branch (or --since), plus their workspace dependents",
+      inputSources: ["flag"],
+    },
+    since: {
+      type: "string",
+      description:
+        "Only publish targets changed since a git ref, plus their workspace dependents (uncommitted and untracked files count)",
+      hint: "origin/main",
+      inputSources: ["flag"],
+    },
+    resume: {
+      type: "boolean",
+      description:
+        "Continue the release in the journal from its first unpublished package, reusing its versions, --publish-from, --tag, and --bundle-strategy (passing different values is an error)",
+      inputSources: ["flag"],
+    },
     concurrency: {
       type: "number",
       defaultValue: DLER_CONCURRENCY_DEFAULTS.pub,
@@ -569,6 +700,13 @@ export default defineCommand({
       description: "Show verbose text output, including npm output and durations",
       inputSources: ["flag"],
     },
+    apiCheck: {
+      type: "boolean",
+      defaultValue: true,
+      description:
+        "Skip packages whose declarations break the API of the latest npm version without a major bump (--no-api-check publishes them anyway)",
+      inputSources: ["flag", "default"],
+    },
     bundleStrategy: {
       type: "string",
       defaultValue: DLER_BUILD_DEFAULTS.bundleStrategy,
@@ -583,29 +721,117 @@ export default defineCommand({
       defaultValue: DLER_CONCURRENCY_DEFAULTS.pub,
       label: "--concurrency",
     });
+    const apply = ctx.safety.apply;
+    const preview = !apply;
+    const resume = ctx.options.resume === true;
+    const apiCheck = ctx.options.apiCheck !== false;
+
+    if (
+      resume &&
+      (ctx.options.targets?.trim() || ctx.options.affected === true || ctx.options.since)
+    ) {
+      ctx.exit(
+        1,
+        "--resume continues the journaled release; drop --targets, --affected, and --since.",
+      );
+    }
+
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    const journalPath = resolvePublishJournalPath(workspaceRoot);
+    const displayJournalPath = relative(ctx.cwd, journalPath) || journalPath;
+    const resumedJournal = resume
+      ? await readPublishJournal(journalPath).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          return ctx.exit(1, `Failed to read the release journal: ${message}`);
+        })
+      : undefined;
+
+    if (resume && !resumedJournal) {
+      ctx.exit(
+        1,
+        `No release journal at ${displayJournalPath}. Run rse pub --apply to start a release.`,
+      );
+    }
+
+    if (resumedJournal) {
+      // The journal fixes these for the whole release; a different flag value would be ignored.
+      const conflictingFlags = [
+        ctx.options.tag !== undefined && ctx.options.tag !== resumedJournal.tag ? "--tag" : "",
+        ctx.optionSources?.publishFrom === "flag" &&
+        ctx.options.publishFrom?.trim() !== resumedJournal.publishFrom
+          ? "--publish-from"
+          : "",
+        ctx.optionSources?.bundleStrategy === "flag" &&
+        ctx.options.bundleStrategy !== resumedJournal.bundleStrategy
+          ? "--bundle-strategy"
+          : "",
+      ].filter(Boolean);
+
+      if (conflictingFlags.length > 0) {
+        ctx.exit(
+          1,
+          `--resume reuses the journaled ${conflictingFlags.join(", ")}; drop the flag or start a new release without --resume.`,
+        );
+      }
+    }
+
+    const resumableEntries = resumedJournal ? listResumableEntries(resumedJournal) : [];
+
+    if (resumedJournal && resumableEntries.length === 0) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(
+          {
+            apply,
+            journal: resumedJournal,
+            journalPath,
+            ok: true,
+            preview,
+            published: [],
+            skipped: [],
+            summary: createPublishSummary({ planned: 0, published: 0, skipped: [] }),
+          },
+          DLER_COMMAND_NAMES.pub,
+        );
+        return;
+      }
+
+      ctx.out(`Nothing to resume: every package in ${displayJournalPath} is published.`);
+      return;
+    }
+
     const bundleStrategy = (() => {
       try {
-        return resolveBundleStrategy(ctx.options.bundleStrategy);
+        return resolveBundleStrategy(resumedJournal?.bundleStrategy ?? ctx.options.bundleStrategy);
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error);
         return ctx.exit(1, message);
       }
     })();
-    const apply = ctx.safety.apply;
-    const preview = !apply;
-    const rawTargets = await (async () => {
+    const tag = resumedJournal ? resumedJournal.tag : ctx.options.tag;
+    let order: PublishJournal["order"] = resumedJournal?.order ?? "dependency-graph";
+    const config = await readOptionalRseConfig(ctx.cwd).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+    });
+    const sizeBudgets = config?.dler?.sizeBudgets ?? {};
+    const rawTargets = (() => {
+      if (resumedJournal) return resumableEntries.map((entry) => entry.label).join(",");
+
       const cliTargets = ctx.options.targets?.trim();
       if (cliTargets) return cliTargets;
 
-      try {
-        const config = await readOptionalRseConfig(ctx.cwd);
-        const publishOrder = config?.dler?.publishOrder ?? [];
-        return publishOrder.length > 0 ? publishOrder.join(",") : undefined;
-      } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : String(error);
-        return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
-      }
+      const publishOrder = config?.dler?.publishOrder ?? [];
+      if (publishOrder.length === 0) return undefined;
+
+      order = "publishOrder";
+      return publishOrder.join(",");
     })();
+    const sizeBaselinePath = resolvePackSizeBaselinePath(workspaceRoot);
+    const sizeBaseline = await readPackSizeBaseline(sizeBaselinePath).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read the pack size baseline: ${message}`);
+    });
+    let sizeBaselineWrites = Promise.resolve();
 
     if (apply) {
       const whoami = await runNpmWhoami({
@@ -626,13 +852,41 @@ export default defineCommand({
     }
 
     const requestedTargets = await resolveRequestedTargets({
+      affected: ctx.options.affected === true,
       cwd: ctx.cwd,
       rawTargets,
+      since: ctx.options.since,
     }).catch((error: unknown) => {
       const message = error instanceof Error ? error.message : String(error);
       return ctx.exit(1, `Target discovery failed: ${message}`);
     });
     const targetLabels = requestedTargets.labels;
+    const selection = requestedTargets.selection;
+
+    if (selection && targetLabels.length === 0) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(
+          {
+            apply,
+            ok: true,
+            preview,
+            published: [],
+            selection,
+            skipped: requestedTargets.resolution.skipped,
+            summary: createPublishSummary({
+              planned: 0,
+              published: 0,
+              skipped: requestedTargets.resolution.skipped,
+            }),
+          },
+          DLER_COMMAND_NAMES.pub,
+        );
+        return;
+      }
+
+      ctx.out(formatEmptySelectionMessage(selection));
+      return;
+    }
 
     if (targetLabels.length === 0) {
       ctx.exit(
@@ -641,7 +895,9 @@ export default defineCommand({
       );
     }
 
-    const publishFrom = ctx.options.publishFrom?.trim() || DLER_PUBLISH_DEFAULTS.publishFrom;
+    const publishFrom =
+      resumedJournal?.publishFrom ??
+      (ctx.options.publishFrom?.trim() || DLER_PUBLISH_DEFAULTS.publishFrom);
 
     if (!isSafeRelativePublishFrom(publishFrom)) {
       ctx.exit(1, "Invalid --publish-from: use a relative path without .. segments.");
@@ -662,11 +918,42 @@ export default defineCommand({
       cwd: ctx.cwd,
       targets: requestedTargets.resolution.resolved,
     });
-    const publishVersions = await resolvePublishVersions({
-      env: ctx.env,
-      latestTag: ctx.options.tag === "latest",
-      targets: validation.publishable,
-    });
+    const graph = await readWorkspaceDependencyGraph(validation.publishable);
+
+    if (graph.cycles.length > 0) {
+      ctx.exit(
+        1,
+        `Publish order is invalid: ${graph.cycles.map(formatDependencyCycle).join("; ")}.`,
+      );
+    }
+
+    // The graph orders packages unless publishOrder or the journal already fixed the order.
+    const dependsOnOf = (label: string) =>
+      order === "dependency-graph" ? (graph.dependencies.get(label) ?? []) : [];
+    const orderedLabels =
+      order === "dependency-graph" && !resumedJournal
+        ? orderByDependencies(
+            validation.publishable.map((target) => ({
+              dependsOn: dependsOnOf(target.label),
+              label: target.label,
+            })),
+          )
+        : validation.publishable.map((target) => target.label);
+    const publishableTargets = orderedLabels.map((label) =>
+      validation.publishable.find((target) => target.label === label)!,
+    );
+    // A resumed release keeps the journaled versions so a --tag latest bump is not applied twice.
+    const publishVersions = resumedJournal
+      ? new Map(
+          resumableEntries.flatMap((entry) =>
+            entry.version ? [[entry.packageName, entry.version] as const] : [],
+          ),
+        )
+      : await resolvePublishVersions({
+          env: ctx.env,
+          latestTag: tag === "latest",
+          targets: publishableTargets,
+        });
     const workspaceVersions = new Map(dependencyResolutionContext.workspaceVersions);
     for (const [name, version] of publishVersions) {
       workspaceVersions.set(name, version);
@@ -680,151 +967,269 @@ export default defineCommand({
       pack: NpmPackPreview;
       packageName: string;
       publishVersion?: string | undefined;
+      size: PackSizeDiff;
       sourceVersion?: string | undefined;
       versionUpdated: boolean;
     };
 
-    const outcomes = await mapWithConcurrency(
-      validation.publishable,
-      concurrency,
-      async (target) => {
-        const label = target.label;
-        const packageRoot = target.cwd;
-        const sourceVersion =
-          typeof target.packageRecord.version === "string"
-            ? target.packageRecord.version
-            : undefined;
-        const publishVersion = publishVersions.get(target.packageName) ?? sourceVersion;
-        const pkgRecord = normalizePublishDependencySpecifiers(
-          {
-            ...target.packageRecord,
-            version: publishVersion ?? target.packageRecord.version,
+    type PublishOutcome =
+      | { readonly result: PublishResult }
+      | { readonly skipped: { readonly label: string; readonly reason: string } };
+
+    const plannedJournal =
+      resumedJournal ??
+      createPublishJournal({
+        bundleStrategy,
+        entries: publishableTargets.map((target) => ({
+          dependsOn: dependsOnOf(target.label),
+          label: target.label,
+          packageName: target.packageName,
+          version:
+            publishVersions.get(target.packageName) ??
+            (typeof target.packageRecord.version === "string"
+              ? target.packageRecord.version
+              : undefined),
+        })),
+        order,
+        publishFrom,
+        tag,
+      });
+    const journalRecorder =
+      apply && publishableTargets.length > 0
+        ? createPublishJournalRecorder({ journal: plannedJournal, path: journalPath })
+        : undefined;
+
+    await journalRecorder?.begin();
+
+    const publishTarget = async (target: PublishableTarget): Promise<PublishOutcome> => {
+      const label = target.label;
+      const packageRoot = target.cwd;
+      const sourceVersion =
+        typeof target.packageRecord.version === "string" ? target.packageRecord.version : undefined;
+      const publishVersion = publishVersions.get(target.packageName) ?? sourceVersion;
+      const pkgRecord = normalizePublishDependencySpecifiers(
+        {
+          ...target.packageRecord,
+          version: publishVersion ?? target.packageRecord.version,
+        },
+        { ...dependencyResolutionContext, workspaceVersions },
+      );
+
+      const unsafeSpecifiers = findUnsafeDependencySpecifiers(pkgRecord);
+      if (unsafeSpecifiers.length > 0) {
+        return {
+          skipped: {
+            label,
+            reason: `unsafe dependency specifiers for publish: ${unsafeSpecifiers.map((dep) => `${dep.name}@${dep.specifier}`).join(", ")}`,
           },
-          { ...dependencyResolutionContext, workspaceVersions },
-        );
+        };
+      }
 
-        const unsafeSpecifiers = findUnsafeDependencySpecifiers(pkgRecord);
-        if (unsafeSpecifiers.length > 0) {
+      if (!(await pathIsDirectory(target.artifactDir))) {
+        return {
+          skipped: {
+            label,
+            reason: `missing publish directory: ${target.artifactDir}`,
+          },
+        };
+      }
+
+      if (publishVersion) {
+        const publishedVersion = await readNpmPublishedVersion({
+          env: ctx.env,
+          packageName: target.packageName,
+          version: publishVersion,
+        });
+
+        if (publishedVersion === publishVersion) {
           return {
             skipped: {
               label,
-              reason: `unsafe dependency specifiers for publish: ${unsafeSpecifiers.map((dep) => `${dep.name}@${dep.specifier}`).join(", ")}`,
+              reason: `version already published: ${target.packageName}@${publishVersion}`,
             },
           };
         }
+      }
 
-        if (!(await pathIsDirectory(target.artifactDir))) {
+      let versionUpdated = false;
+      if (apply) {
+        ctx.safety.assertApplied("fs.write");
+        if (publishVersion) {
+          versionUpdated = (await syncPackageJsonVersion(packageRoot, publishVersion)).updated;
+        }
+      }
+      const staging = await createPublishStaging(packageRoot, publishFrom, pkgRecord);
+      try {
+        const publishStartedAt = performance.now();
+        const packResult = await runNpmPackDryRun({
+          cwd: staging.stagingDir,
+          env: ctx.env,
+        });
+        const packPreview = packResult.preview;
+
+        if (packResult.exitCode !== 0 || !packPreview || packPreview.files.length === 0) {
+          if (ctx.output.mode !== "json") {
+            if (packResult.stdout.trim()) ctx.out(packResult.stdout.trim());
+            if (packResult.stderr.trim()) ctx.err(packResult.stderr.trim());
+          }
+
+          ctx.exit(
+            1,
+            `npm pack dry-run failed for ${label} during staging validation (exit ${packResult.exitCode}).`,
+          );
+        }
+        if (!packPreview) {
+          throw new Error(
+            `npm pack dry-run did not return parseable tarball metadata for ${label}.`,
+          );
+        }
+
+        const packPolicyReason = validatePackPolicy({
+          bundleStrategy: resolveEffectiveBundleStrategy(bundleStrategy, label),
+          pack: packPreview,
+          publishFrom,
+        });
+        if (packPolicyReason) {
           return {
             skipped: {
               label,
-              reason: `missing publish directory: ${target.artifactDir}`,
+              reason: packPolicyReason,
             },
           };
         }
 
-        if (publishVersion) {
-          const publishedVersion = await readNpmPublishedVersion({
+        const sizeBudget = resolvePackSizeBudget(label, sizeBudgets);
+        const budgetViolations = sizeBudget ? checkPackSizeBudget(packPreview, sizeBudget) : [];
+        if (budgetViolations.length > 0) {
+          return {
+            skipped: {
+              label,
+              reason: formatPackSizeBudgetReason(budgetViolations),
+            },
+          };
+        }
+
+        if (apiCheck && publishVersion) {
+          const apiBaseline = await readPublishedApiBaseline({
+            cwd: packageRoot,
             env: ctx.env,
             packageName: target.packageName,
-            version: publishVersion,
           });
 
-          if (publishedVersion === publishVersion) {
-            return {
-              skipped: {
-                label,
-                reason: `version already published: ${target.packageName}@${publishVersion}`,
-              },
-            };
+          if (apiBaseline?.version) {
+            const apiDiff = diffApiSurfaces(
+              apiBaseline.surface,
+              await readApiSurface(staging.stagingDir, pkgRecord),
+            );
+
+            if (apiDiff.breaking && !allowsBreakingChanges(apiBaseline.version, publishVersion)) {
+              return {
+                skipped: {
+                  label,
+                  reason: formatApiBreakReason(apiDiff, apiBaseline.version, publishVersion),
+                },
+              };
+            }
           }
         }
 
-        let versionUpdated = false;
         if (apply) {
-          ctx.safety.assertApplied("fs.write");
-          if (publishVersion) {
-            versionUpdated = (await syncPackageJsonVersion(packageRoot, publishVersion)).updated;
+          ctx.safety.assertApplied("network.publish");
+        }
+        const npmResult = await runNpmPublish({
+          cwd: staging.stagingDir,
+          preview,
+          env: ctx.env,
+          tag,
+        });
+        const result = {
+          cwd: packageRoot,
+          durationMs: Math.round(performance.now() - publishStartedAt),
+          label,
+          npm: npmResult,
+          pack: packPreview,
+          packageName: target.packageName,
+          publishVersion,
+          size: diffPackSizes(packPreview, sizeBaseline.packages[target.packageName]),
+          sourceVersion,
+          versionUpdated,
+        } satisfies PublishResult;
+
+        if (npmResult.exitCode !== 0) {
+          if (ctx.output.mode !== "json") {
+            if (npmResult.stdout.trim()) ctx.out(npmResult.stdout.trim());
+            if (npmResult.stderr.trim()) ctx.err(npmResult.stderr.trim());
           }
+
+          ctx.exit(
+            1,
+            `npm publish failed for ${label} during staging publish (exit ${npmResult.exitCode}).`,
+          );
         }
-        const staging = await createPublishStaging(packageRoot, publishFrom, pkgRecord);
-        try {
-          const publishStartedAt = performance.now();
-          const packResult = await runNpmPackDryRun({
-            cwd: staging.stagingDir,
-            env: ctx.env,
-          });
-          const packPreview = packResult.preview;
 
-          if (packResult.exitCode !== 0 || !packPreview || packPreview.files.length === 0) {
-            if (ctx.output.mode !== "json") {
-              if (packResult.stdout.trim()) ctx.out(packResult.stdout.trim());
-              if (packResult.stderr.trim()) ctx.err(packResult.stderr.trim());
-            }
+        if (apply) {
+          // Later previews compare against what this publish put on npm.
+          sizeBaselineWrites = sizeBaselineWrites.then(() =>
+            recordPackSizeBaseline(sizeBaselinePath, [
+              { pack: packPreview, packageName: target.packageName, version: publishVersion },
+            ]),
+          );
+          await sizeBaselineWrites;
+        }
 
-            ctx.exit(
-              1,
-              `npm pack dry-run failed for ${label} during staging validation (exit ${packResult.exitCode}).`,
-            );
-          }
-          if (!packPreview) {
-            throw new Error(
-              `npm pack dry-run did not return parseable tarball metadata for ${label}.`,
-            );
-          }
+        return { result };
+      } finally {
+        await staging.cleanup();
+      }
+    };
 
-          const packPolicyReason = validatePackPolicy({
-            bundleStrategy: resolveEffectiveBundleStrategy(bundleStrategy, label),
-            pack: packPreview,
-            publishFrom,
-          });
-          if (packPolicyReason) {
-            return {
-              skipped: {
-                label,
-                reason: packPolicyReason,
-              },
-            };
-          }
+    const graphRun = await runDependencyGraph(
+      publishableTargets.map((target) => ({
+        dependsOn: dependsOnOf(target.label),
+        label: target.label,
+        target,
+      })),
+      concurrency,
+      async (node) => {
+        let outcome: PublishOutcome;
+        try {
+          outcome = await publishTarget(node.target);
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          await journalRecorder?.update(
+            node.label,
+            { reason: message, status: "failed" },
+            "failed",
+          );
+          throw error;
+        }
 
-          if (apply) {
-            ctx.safety.assertApplied("network.publish");
-          }
-          const npmResult = await runNpmPublish({
-            cwd: staging.stagingDir,
-            preview,
-            env: ctx.env,
-            tag: ctx.options.tag,
-          });
-          const result = {
-            cwd: packageRoot,
-            durationMs: Math.round(performance.now() - publishStartedAt),
-            label,
-            npm: npmResult,
-            pack: packPreview,
-            packageName: target.packageName,
-            publishVersion,
-            sourceVersion,
-            versionUpdated,
-          } satisfies PublishResult;
-
-          if (npmResult.exitCode !== 0) {
-            if (ctx.output.mode !== "json") {
-              if (npmResult.stdout.trim()) ctx.out(npmResult.stdout.trim());
-              if (npmResult.stderr.trim()) ctx.err(npmResult.stderr.trim());
-            }
+        const published = "result" in outcome || isAlreadyPublishedReason(outcome.skipped.reason);
 
-            ctx.exit(
-              1,
-              `npm publish failed for ${label} during staging publish (exit ${npmResult.exitCode}).`,
-            );
-          }
+        await journalRecorder?.update(
+          node.label,
+          "result" in outcome
+            ? { status: "published" }
+            : {
+                reason: outcome.skipped.reason,
+                status: published ? "already-published" : "skipped",
+              },
+        );
 
-          return { result };
-        } finally {
-          await staging.cleanup();
-        }
+        // Dependents point at this package's new version, so they wait until it is on npm.
+        return { ok: published, outcome };
       },
-    );
+    ).catch(async (error: unknown) => {
+      await journalRecorder?.finish();
+      throw error;
+    });
+    for (const blocked of graphRun.skipped) {
+      await journalRecorder?.update(blocked.label, { reason: blocked.reason, status: "skipped" });
+    }
+    const outcomes = graphRun.results.map((run) => run.outcome);
+    const journal = journalRecorder ? await journalRecorder.finish() : plannedJournal;
+    const journalOutput =
+      journal.entries.length > 0 ? { journal, ...(journalRecorder ? { journalPath } : {}) } : {};
 
     const results = outcomes.flatMap((outcome) => ("result" in outcome ? [outcome.result] : []));
     const outcomeSkipped = outcomes.flatMap((outcome) =>
@@ -835,7 +1240,18 @@ export default defineCommand({
       outcomeSkipped.length === validation.publishable.length &&
       outcomeSkipped.every((target) => isAlreadyPublishedReason(target.reason));
 
-    skipped.push(...outcomeSkipped);
+    skipped.push(...outcomeSkipped, ...graphRun.skipped);
+
+    // A failed journal means part of the release is missing from npm until it is resumed.
+    const releaseFailed = journal.status === "failed";
+    const exitIfReleaseFailed = () => {
+      if (releaseFailed) {
+        ctx.exit(
+          1,
+          `Release incomplete: see ${displayJournalPath}, fix the failed or skipped packages, then run rse pub --resume --apply.`,
+        );
+      }
+    };
 
     if (results.length === 0) {
       const summary = createPublishSummary({
@@ -844,7 +1260,7 @@ export default defineCommand({
         skipped,
       });
       const targetSets = createTargetSets({
-        plannedTargets: validation.publishable,
+        plannedTargets: publishableTargets,
         skippedTargets: skipped,
       });
 
@@ -856,16 +1272,19 @@ export default defineCommand({
             concurrency,
             preview,
             executedTargets: targetSets.executedTargets,
+            ...journalOutput,
             ok: allPublishableTargetsAlreadyPublished,
             plannedTargets: targetSets.plannedTargets,
             publishFrom,
             published: [],
+            ...(selection ? { selection } : {}),
             skipped,
             skippedTargets: targetSets.skippedTargets,
             summary,
           },
           DLER_COMMAND_NAMES.pub,
         );
+        exitIfReleaseFailed();
         return;
       }
 
@@ -875,16 +1294,20 @@ export default defineCommand({
         bundleStrategy,
         colors: ctx.colors.stdout,
         concurrency,
+        journal: journalRecorder ? { path: displayJournalPath, status: journal.status } : undefined,
+        order,
         publishFrom,
         results,
+        selection,
         skipped,
-        tag: ctx.options.tag,
+        tag,
         totalDurationMs,
         verbose: ctx.options.verbose === true,
       })) {
         ctx.out(line);
       }
 
+      exitIfReleaseFailed();
       if (!allPublishableTargetsAlreadyPublished) {
         ctx.exit(
           1,
@@ -902,7 +1325,7 @@ export default defineCommand({
       });
       const targetSets = createTargetSets({
         executedTargets: createPublishExecutedTargets(results),
-        plannedTargets: validation.publishable,
+        plannedTargets: publishableTargets,
         skippedTargets: skipped,
       });
 
@@ -913,7 +1336,8 @@ export default defineCommand({
           concurrency,
           preview,
           executedTargets: targetSets.executedTargets,
-          ok: true,
+          ...journalOutput,
+          ok: !releaseFailed,
           plannedTargets: targetSets.plannedTargets,
           publishFrom,
           published: results.map((r) => ({
@@ -925,9 +1349,11 @@ export default defineCommand({
             versionUpdated: r.versionUpdated,
             durationMs: r.durationMs,
             pack: r.pack,
+            size: r.size,
             stderr: r.npm.stderr,
             stdout: r.npm.stdout,
           })),
+          ...(selection ? { selection } : {}),
           skipped,
           skippedTargets: targetSets.skippedTargets,
           summary,
@@ -935,6 +1361,7 @@ export default defineCommand({
         },
         DLER_COMMAND_NAMES.pub,
       );
+      exitIfReleaseFailed();
       return;
     }
 
@@ -944,14 +1371,18 @@ export default defineCommand({
       bundleStrategy,
       colors: ctx.colors.stdout,
       concurrency,
+      journal: journalRecorder ? { path: displayJournalPath, status: journal.status } : undefined,
+      order,
       publishFrom,
       results,
+      selection,
       skipped,
-      tag: ctx.options.tag,
+      tag,
       totalDurationMs,
       verbose: ctx.options.verbose === true,
     })) {
       ctx.out(line);
     }
+    exitIfReleaseFailed();
   },
 });
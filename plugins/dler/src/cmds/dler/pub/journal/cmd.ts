@@ -0,0 +1,57 @@
+import { relative } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import { DLER_COMMAND_NAMES } from "../../../../impl/constants";
+import { readPublishJournal, resolvePublishJournalPath } from "../../../../impl/pub/journal";
+import { resolveWorkspaceRootFromCwd } from "../../../../impl/workspace-targets";
+
+export default defineCommand({
+  meta: {
+    name: "journal",
+    description: "Show the release journal written by the last dler pub --apply run.",
+  },
+  conventions: {
+    idempotent: true,
+  },
+  help: {
+    examples: ["rse pub journal", "rse pub journal --json"],
+    text: "The journal lists every package and version the release planned, with its status: pending, published, already-published, skipped, or failed. Continue a failed release with rse pub --resume --apply.",
+  },
+  async handler(ctx) {
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    const journalPath = resolvePublishJournalPath(workspaceRoot);
+    const journal = await readPublishJournal(journalPath).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read the release journal: ${message}`);
+    });
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result({ journal: journal ?? null, journalPath }, DLER_COMMAND_NAMES.pubJournal);
+      return;
+    }
+
+    const displayPath = relative(ctx.cwd, journalPath) || journalPath;
+
+    if (!journal) {
+      ctx.out(`No release journal at ${displayPath}.`);
+      return;
+    }
+
+    ctx.out(`Journal: ${displayPath}`);
+    ctx.out(
+      `Status: ${journal.status} (started ${journal.startedAt}, updated ${journal.updatedAt})`,
+    );
+
+    for (const entry of journal.entries) {
+      const version = entry.version ? `@${entry.version}` : "";
+      ctx.out(
+        `  ${entry.status.padEnd(17)} ${entry.label} (${entry.packageName}${version})${entry.reason ? `: ${entry.reason}` : ""}`,
+      );
+    }
+
+    if (journal.status === "failed") {
+      ctx.out("Continue with rse pub --resume --apply.");
+    }
+  },
+});
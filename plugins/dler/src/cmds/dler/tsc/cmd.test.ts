@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { chmod, mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { chmod, mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -184,7 +184,12 @@ describe("dler tsc command", () => {
       skipped: [{ label: "packages/missing-config", reason: "missing tsconfig.json" }],
       skippedTargets: [{ label: "packages/missing-config", reason: "missing tsconfig.json" }],
       steps: [
-        { command: "tsgo --noEmit", cwd: join(root, "packages", "ok"), label: "packages/ok" },
+        {
+          command: "tsgo --noEmit",
+          cwd: join(root, "packages", "ok"),
+          dependsOn: [],
+          label: "packages/ok",
+        },
       ],
       targets: ["packages/ok", "packages/missing-config"],
     });
@@ -362,4 +367,177 @@ describe("dler tsc command", () => {
     expect(text).toContain("type error");
     expect(text).toContain("Typecheck failed.");
   });
+
+  test("checks references before dependents and skips dependents of failed targets", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-tsc-"));
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["packages/*"] } }),
+      "utf8",
+    );
+    await createWorkspacePackage(root, "packages/app", {
+      name: "app",
+      dependencies: { core: "workspace:*" },
+    });
+    await createWorkspacePackage(root, "packages/core", { name: "core" });
+    const docsDir = await createWorkspacePackage(root, "packages/docs", { name: "docs" });
+    await writeFile(
+      join(docsDir, "tsconfig.json"),
+      '{"compilerOptions":{"types":["bun"]},"references":[{"path":"../app"}]}\n',
+      "utf8",
+    );
+    await createFakeBin(
+      root,
+      "tsgo",
+      '#!/bin/sh\ncase "$PWD" in */core) echo "core error" >&2; exit 2;; esac\n',
+    );
+
+    const preview = createJsonCtx(root, {});
+    await command.handler(preview.ctx as never);
+
+    expect(
+      (preview.resultCalls[0]?.value as { steps: { dependsOn: string[]; label: string }[] }).steps,
+    ).toEqual([
+      expect.objectContaining({ dependsOn: ["packages/core"], label: "packages/app" }),
+      expect.objectContaining({ dependsOn: [], label: "packages/core" }),
+      expect.objectContaining({ dependsOn: ["packages/app"], label: "packages/docs" }),
+    ]);
+
+    const { ctx, textLines } = createTextCtx(root, { apply: true, concurrency: 1 });
+
+    await expect(command.handler(ctx as never)).rejects.toThrow(
+      "EXIT 1: Typecheck failed for packages/core with tsgo --noEmit (exit 2).",
+    );
+
+    const text = textLines.join("\n");
+    expect(text).toContain("Targets: 0 passed, 1 failed, 2 skipped");
+    expect(text).toContain("packages/app   dependency packages/core failed");
+    expect(text).toContain("packages/docs  dependency packages/core failed");
+  });
+
+  test("rejects workspace dependency cycles as invalid targets", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-tsc-"));
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["packages/*"] } }),
+      "utf8",
+    );
+    await createWorkspacePackage(root, "packages/a", {
+      name: "a",
+      dependencies: { b: "workspace:*" },
+    });
+    await createWorkspacePackage(root, "packages/b", {
+      name: "b",
+      dependencies: { a: "workspace:*" },
+    });
+
+    const { ctx, resultCalls } = createJsonCtx(root, {});
+
+    await command.handler(ctx as never);
+
+    expect(resultCalls[0]?.value).toMatchObject({
+      ok: false,
+      skippedTargets: [
+        { label: "packages/a", reason: "dependency cycle: packages/a -> packages/b -> packages/a" },
+        { label: "packages/b", reason: "dependency cycle: packages/a -> packages/b -> packages/a" },
+      ],
+    });
+  });
+
+  test("baseline tolerates known diagnostics and fails only on new ones", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-tsc-"));
+    await writeFile(
+      join(root, "package.json"),
+      JSON.stringify({ private: true, workspaces: { packages: ["packages/*"] } }),
+      "utf8",
+    );
+    await createWorkspacePackage(root, "packages/app");
+    await createFakeBin(
+      root,
+      "tsgo",
+      [
+        "#!/bin/sh",
+        "echo \"src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\"",
+        'if [ -f "$PWD/new-error" ]; then echo "src/b.ts(1,1): error TS2304: Cannot find name \'x\'."; fi',
+        "exit 2",
+        "",
+      ].join("\n"),
+    );
+
+    const update = createTextCtx(root, {
+      apply: true,
+      targets: "packages/app",
+      updateBaseline: true,
+    });
+    await command.handler(update.ctx as never);
+
+    expect(update.textLines.join("\n")).toContain("packages/app  tsgo, 1 new, 0 fixed");
+    expect(JSON.parse(await readFile(join(root, "tsc-baseline.json"), "utf8"))).toEqual({
+      dlerTscBaseline: 1,
+      packages: {
+        "packages/app": [
+          {
+            code: "TS2322",
+            file: "src/a.ts",
+            message: "Type 'string' is not assignable to type 'number'.",
+          },
+        ],
+      },
+    });
+
+    const tolerated = createJsonCtx(root, { apply: true, targets: "packages/app" });
+    await command.handler(tolerated.ctx as never);
+    expect(tolerated.resultCalls[0]?.value).toMatchObject({
+      ok: true,
+      results: [
+        {
+          diagnostics: [{ code: "TS2322", column: 7, file: "src/a.ts", line: 3 }],
+          exitCode: 2,
+          fixedDiagnostics: [],
+          newDiagnostics: [],
+          ok: true,
+        },
+      ],
+    });
+
+    await writeFile(join(root, "packages", "app", "new-error"), "", "utf8");
+    const regressed = createTextCtx(root, {
+      apply: true,
+      junit: "reports/tsc.xml",
+      sarif: "reports/tsc.sarif",
+      targets: "packages/app",
+    });
+    await expect(command.handler(regressed.ctx as never)).rejects.toThrow(
+      "EXIT 1: Typecheck failed for packages/app with tsgo --noEmit (exit 2, 1 new diagnostic).",
+    );
+
+    const text = regressed.textLines.join("\n");
+    expect(text).toContain("packages/app  tsgo failed, 1 new, 0 fixed");
+    expect(text).toContain("new diagnostics:\n     src/b.ts:1:1 TS2304 Cannot find name 'x'.");
+    expect(text).not.toContain("src/a.ts(3,7)");
+
+    const sarif = JSON.parse(await readFile(join(root, "reports", "tsc.sarif"), "utf8"));
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({
+        baselineState: "unchanged",
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "packages/app/src/a.ts", uriBaseId: "%SRCROOT%" },
+              region: { startColumn: 7, startLine: 3 },
+            },
+          },
+        ],
+        ruleId: "TS2322",
+      }),
+      expect.objectContaining({ baselineState: "new", level: "error", ruleId: "TS2304" }),
+    ]);
+
+    const junit = await readFile(join(root, "reports", "tsc.xml"), "utf8");
+    expect(junit).toContain('<testsuites name="dler tsc" tests="2" failures="1">');
+    expect(junit).toContain('<testcase classname="packages/app" name="packages/app/src/a.ts" />');
+    expect(junit).toContain(
+      '<failure message="1 new diagnostic" type="TS2304">1:1 TS2304 Cannot find name \'x\'.</failure>',
+    );
+  });
 });
@@ -1,11 +1,17 @@
 import { readFile } from "node:fs/promises";
 import { createRequire } from "node:module";
-import { basename, dirname, extname, isAbsolute, join, resolve } from "node:path";
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from "node:path";
 
 import { defineCommand } from "@reliverse/rempts";
 import { parse as parseJsonc } from "jsonc-parser";
 
-import { mapWithConcurrency, resolveConcurrency } from "../../impl/concurrency";
+import {
+  describeSelectedTarget,
+  formatEmptySelectionMessage,
+  formatSelectionHeading,
+  type TargetSelection,
+} from "../../../impl/affected-targets";
+import { resolveConcurrency } from "../../../impl/concurrency";
 import {
   DLER_COMMAND_NAMES,
   DLER_CONCURRENCY_DEFAULTS,
@@ -13,18 +19,45 @@ import {
   DLER_TSC_DEFAULTS,
   DLER_TSC_NO_EMIT_ARGS,
   DLER_TSC_RUNNER_MODES,
-} from "../../impl/constants";
-import { createTargetSets } from "../../impl/report-helpers";
+} from "../../../impl/constants";
+import {
+  findDependencyCycles,
+  formatDependencyCycle,
+  readWorkspaceDependencyGraph,
+  runDependencyGraph,
+} from "../../../impl/dependency-graph";
+import { createTargetSets } from "../../../impl/report-helpers";
 import {
   fileExists,
   resolveDirectoryTargets,
   resolveRequestedTargets,
   type RequestedTarget,
+  type RequestedTargetsResolution,
   type SkippedTarget,
-} from "../../impl/shared-targets";
+} from "../../../impl/shared-targets";
+import {
+  compareWithTscBaseline,
+  readTscBaseline,
+  resolveTscBaselinePath,
+  writeTscBaseline,
+  type TscBaseline,
+  type TscBaselineEntry,
+} from "../../../impl/tsc/baseline";
+import {
+  formatTscDiagnostic,
+  parseTscDiagnostics,
+  type TscDiagnostic,
+} from "../../../impl/tsc/diagnostics";
+import {
+  createTscJunitReport,
+  createTscSarifReport,
+  writeTscReport,
+} from "../../../impl/tsc/reports";
+import { resolveWorkspaceRootFromCwd } from "../../../impl/workspace-targets";
 
 interface TscTarget extends RequestedTarget {
   readonly command: readonly string[];
+  readonly dependsOn: readonly string[];
   readonly displayCommand: string;
 }
 
@@ -39,23 +72,33 @@ interface ParsedTsconfig {
       }
     | undefined;
   readonly extends?: unknown;
+  readonly references?: unknown;
 }
 
 type TscRunnerMode = (typeof DLER_TSC_RUNNER_MODES)[number];
 
 interface TscExecutionOptions {
+  readonly baseline: TscBaseline;
   readonly bunx: boolean;
   readonly runnerMode: TscRunnerMode;
+  /** Tolerate every current diagnostic because the baseline is about to be rewritten. */
+  readonly updateBaseline: boolean;
+  readonly workspaceRoot: string;
 }
 
 interface TscResult {
   readonly command: string;
   readonly cwd: string;
+  readonly diagnostics: readonly TscDiagnostic[];
   readonly durationMs: number;
   readonly exitCode: number;
   readonly fallbackUsed: boolean;
+  readonly fixedDiagnostics: readonly TscBaselineEntry[];
   readonly label: string;
+  readonly newDiagnostics: readonly TscDiagnostic[];
+  /** Passing, or failing only with diagnostics the baseline tolerates. */
   readonly ok: boolean;
+  readonly packagePath: string;
   readonly runner: string;
   readonly runnerMode: TscRunnerMode;
   readonly stderr: string;
@@ -180,6 +223,7 @@ async function readTsconfig(path: string): Promise<ParsedTsconfig> {
   return {
     compilerOptions,
     extends: parsed.extends,
+    references: parsed.references,
   };
 }
 
@@ -266,6 +310,48 @@ async function validateTscConfig(
   }
 }
 
+async function readTsconfigReferenceDirs(target: RequestedTarget): Promise<string[]> {
+  const tsconfigPath = join(target.cwd, DLER_TSC_DEFAULTS.tsconfigFileName);
+  const { references } = await readTsconfig(tsconfigPath);
+
+  if (!Array.isArray(references)) {
+    return [];
+  }
+
+  return references.flatMap((reference) => {
+    if (!isRecord(reference) || typeof reference.path !== "string") {
+      return [];
+    }
+
+    const referencePath = resolve(target.cwd, reference.path);
+    return [extname(referencePath) === ".json" ? dirname(referencePath) : referencePath];
+  });
+}
+
+/**
+ * Orders targets by workspace package dependencies and tsconfig project references, so a
+ * referenced project is checked before the projects that consume it.
+ */
+async function resolveTscDependencies(
+  targets: readonly RequestedTarget[],
+): Promise<Map<string, readonly string[]>> {
+  const graph = await readWorkspaceDependencyGraph(targets);
+  const labelsByCwd = new Map(targets.map((target) => [resolve(target.cwd), target.label]));
+  const dependencies = new Map<string, readonly string[]>();
+
+  for (const target of targets) {
+    const referenced = (await readTsconfigReferenceDirs(target))
+      .map((dir) => labelsByCwd.get(dir))
+      .filter((label): label is string => label !== undefined && label !== target.label);
+
+    dependencies.set(target.label, [
+      ...new Set([...(graph.dependencies.get(target.label) ?? []), ...referenced]),
+    ]);
+  }
+
+  return dependencies;
+}
+
 async function readProcessStream(stream: ReadableStream<Uint8Array> | null): Promise<string> {
   if (!stream) {
     return "";
@@ -298,58 +384,87 @@ async function runCommand(
   return { exitCode, stderr, stdout };
 }
 
+function toPackagePath(workspaceRoot: string, cwd: string): string {
+  const path = relative(workspaceRoot, cwd);
+  return path.length > 0 ? path.split(sep).join("/") : ".";
+}
+
+function createTscResult(
+  target: TscTarget,
+  options: TscExecutionOptions,
+  run: {
+    readonly exitCode: number;
+    readonly fallbackUsed: boolean;
+    readonly runner: string;
+    readonly startedAt: number;
+    readonly stderr: string;
+    readonly stdout: string;
+  },
+): TscResult {
+  const packagePath = toPackagePath(options.workspaceRoot, target.cwd);
+  const diagnostics = parseTscDiagnostics(target.cwd, `${run.stdout}\n${run.stderr}`);
+  const comparison = compareWithTscBaseline(
+    diagnostics,
+    options.baseline.packages[packagePath] ?? [],
+  );
+  // A non-zero exit without parsable diagnostics is a crash or config error, never baselined.
+  const explained = run.exitCode === 0 || diagnostics.length > 0;
+
+  return {
+    command: createTscCommandInvocation(run.runner, { bunx: options.bunx }).display,
+    cwd: target.cwd,
+    diagnostics,
+    durationMs: Math.round(performance.now() - run.startedAt),
+    exitCode: run.exitCode,
+    fallbackUsed: run.fallbackUsed,
+    fixedDiagnostics: comparison.fixedDiagnostics,
+    label: target.label,
+    newDiagnostics: comparison.newDiagnostics,
+    ok: explained && (options.updateBaseline || comparison.newDiagnostics.length === 0),
+    packagePath,
+    runner: run.runner,
+    runnerMode: options.runnerMode,
+    stderr: run.stderr,
+    stdout: run.stdout,
+  };
+}
+
 async function runTscTarget(target: TscTarget, options: TscExecutionOptions): Promise<TscResult> {
   const startedAt = performance.now();
   const primaryRunner = getPrimaryRunnerForMode(options.runnerMode);
   const primary = await runCommand(target.cwd, primaryRunner, { bunx: options.bunx });
 
   if (options.runnerMode !== "auto" || !isMissingRunner(primary, primaryRunner)) {
-    return {
-      command: createTscCommandInvocation(primaryRunner, { bunx: options.bunx }).display,
-      cwd: target.cwd,
-      durationMs: Math.round(performance.now() - startedAt),
-      exitCode: primary.exitCode,
+    return createTscResult(target, options, {
+      ...primary,
       fallbackUsed: false,
-      label: target.label,
-      ok: primary.exitCode === 0,
       runner: primaryRunner,
-      runnerMode: options.runnerMode,
-      stderr: primary.stderr,
-      stdout: primary.stdout,
-    };
+      startedAt,
+    });
   }
 
   const fallback = await runCommand(target.cwd, DLER_TSC_DEFAULTS.fallbackRunner, {
     bunx: options.bunx,
   });
 
-  return {
-    command: createTscCommandInvocation(DLER_TSC_DEFAULTS.fallbackRunner, {
-      bunx: options.bunx,
-    }).display,
-    cwd: target.cwd,
-    durationMs: Math.round(performance.now() - startedAt),
-    exitCode: fallback.exitCode,
+  return createTscResult(target, options, {
+    ...fallback,
     fallbackUsed: true,
-    label: target.label,
-    ok: fallback.exitCode === 0,
     runner: DLER_TSC_DEFAULTS.fallbackRunner,
-    runnerMode: options.runnerMode,
-    stderr: fallback.stderr,
-    stdout: fallback.stdout,
-  };
+    startedAt,
+  });
 }
 
 async function resolveTscRequestedTargets(options: {
+  readonly affected: boolean;
   readonly cwd: string;
   readonly rawTargets: string | undefined;
-}): Promise<{
-  readonly labels: readonly string[];
-  readonly resolution: {
-    readonly resolved: readonly RequestedTarget[];
-    readonly skipped: readonly SkippedTarget[];
-  };
-}> {
+  readonly since: string | undefined;
+}): Promise<RequestedTargetsResolution> {
+  if (options.affected || options.since !== undefined) {
+    return resolveRequestedTargets(options);
+  }
+
   const explicitTargets = options.rawTargets?.trim();
   if (explicitTargets && explicitTargets.length > 0) {
     const labels = explicitTargets
@@ -411,12 +526,31 @@ async function createTscPlan(options: {
     plannedTargets.push({
       command: invocation.argv,
       cwd: target.cwd,
+      dependsOn: [],
       displayCommand: invocation.display,
       label: target.label,
     });
   }
 
-  return { invalidTargets, plannedTargets, skippedTargets };
+  const dependencies = await resolveTscDependencies(plannedTargets);
+  const orderedTargets = plannedTargets.map((target) => ({
+    ...target,
+    dependsOn: dependencies.get(target.label) ?? [],
+  }));
+  const cycleLabels = new Set<string>();
+
+  for (const cycle of findDependencyCycles(orderedTargets)) {
+    for (const label of cycle) {
+      cycleLabels.add(label);
+      invalidTargets.push({ fatal: true, label, reason: formatDependencyCycle(cycle) });
+    }
+  }
+
+  return {
+    invalidTargets,
+    plannedTargets: orderedTargets.filter((target) => !cycleLabels.has(target.label)),
+    skippedTargets,
+  };
 }
 
 function pushProcessOutput(
@@ -442,6 +576,7 @@ function formatTscPreviewText(options: {
   readonly colors: TscColors;
   readonly concurrency: number;
   readonly runnerMode: TscRunnerMode;
+  readonly selection?: TargetSelection | undefined;
   readonly skippedTargets: readonly SkippedTarget[];
   readonly targets: readonly TscTarget[];
   readonly verbose: boolean;
@@ -460,6 +595,20 @@ function formatTscPreviewText(options: {
     `${options.colors.bold("Targets:")} ${formatCount(options.colors, options.targets.length, "planned", "green")}, ${formatCount(options.colors, options.skippedTargets.length, "skipped", "yellow")}`,
   ];
 
+  if (options.selection) {
+    lines.push(
+      "",
+      options.colors.bold(formatSelectionHeading(options.selection)),
+      ...formatLabelRows(
+        options.selection.selected.map((target) => ({
+          detail: describeSelectedTarget(target),
+          label: target.label,
+        })),
+        options.colors,
+      ),
+    );
+  }
+
   if (options.targets.length > 0) {
     lines.push(
       "",
@@ -499,7 +648,12 @@ function formatTscPreviewText(options: {
   return lines;
 }
 
+function formatBaselineCounts(result: TscResult): string {
+  return `${result.newDiagnostics.length} new, ${result.fixedDiagnostics.length} fixed`;
+}
+
 function formatTscResultText(options: {
+  readonly baselineFile: string;
   readonly bunx: boolean;
   readonly colors: TscColors;
   readonly concurrency: number;
@@ -507,6 +661,7 @@ function formatTscResultText(options: {
   readonly runnerMode: TscRunnerMode;
   readonly skippedTargets: readonly SkippedTarget[];
   readonly totalDurationMs: number;
+  readonly updateBaseline: boolean;
   readonly verbose: boolean;
 }): string[] {
   const failed = options.results.filter((result) => !result.ok);
@@ -525,11 +680,13 @@ function formatTscResultText(options: {
       options.colors.bold("Checked"),
       ...formatLabelRows(
         options.results.map((result) => ({
-          detail: options.verbose
-            ? `${formatTscCommand(result.runner, { bunx: options.bunx })} (${result.durationMs}ms${result.fallbackUsed ? ", fallback" : ""})`
-            : result.ok
-              ? result.runner
-              : `${result.runner} failed`,
+          detail: `${
+            options.verbose
+              ? `${formatTscCommand(result.runner, { bunx: options.bunx })} (${result.durationMs}ms${result.fallbackUsed ? ", fallback" : ""})`
+              : result.ok
+                ? result.runner
+                : `${result.runner} failed`
+          }, ${formatBaselineCounts(result)}`,
           label: result.label,
         })),
         options.colors,
@@ -564,11 +721,34 @@ function formatTscResultText(options: {
     }
   } else {
     for (const result of failed) {
+      if (result.newDiagnostics.length > 0) {
+        lines.push(
+          `  ${options.colors.bold(result.label)} ${options.colors.gray("new diagnostics:")}`,
+          ...result.newDiagnostics.map(
+            (diagnostic) => `     ${options.colors.gray(formatTscDiagnostic(diagnostic))}`,
+          ),
+        );
+        continue;
+      }
+
       pushProcessOutput(lines, options.colors, result.label, "stdout", result.stdout);
       pushProcessOutput(lines, options.colors, result.label, "stderr", result.stderr);
     }
   }
 
+  const fixedCount = options.results.reduce(
+    (total, result) => total + result.fixedDiagnostics.length,
+    0,
+  );
+  if (options.updateBaseline) {
+    lines.push("", `Updated ${options.colors.bold(options.baselineFile)}.`);
+  } else if (fixedCount > 0) {
+    lines.push(
+      "",
+      `Pass ${options.colors.bold("--update-baseline")} to drop ${fixedCount} fixed diagnostic${fixedCount === 1 ? "" : "s"} from ${options.colors.bold(options.baselineFile)}.`,
+    );
+  }
+
   lines.push(
     "",
     failed.length > 0
@@ -589,7 +769,7 @@ export default defineCommand({
   },
   agent: {
     notes:
-      "Default execution is preview-only. Pass --apply to run tsgo --noEmit for each target. If tsgo is unavailable for a target, dler falls back to tsc --noEmit. Each target tsconfig chain must include compilerOptions.types with bun. When --targets is omitted, dler derives targets from cwd: the current workspace package, all workspace packages from the monorepo root, or the current directory outside a monorepo.",
+      "Default execution is preview-only. Pass --apply to run tsgo --noEmit for each target. If tsgo is unavailable for a target, dler falls back to tsc --noEmit. Each target tsconfig chain must include compilerOptions.types with bun. When --targets is omitted, dler derives targets from cwd: the current workspace package, all workspace packages from the monorepo root, or the current directory outside a monorepo. --affected (merge-base with the default branch) or --since <ref> narrows the scope to packages changed in git plus their workspace dependents. Workspace dependencies and tsconfig project references are checked before their dependents; dependents of a failed target are skipped, and dependency cycles fail validation. Runner output is parsed into structured diagnostics (file, line, column, code, message, category). A committed tsc-baseline.json at the workspace root lists tolerated diagnostics per package by file, code, and message; a target passes when it reports nothing beyond its baseline, and --update-baseline rewrites the entries of the checked targets. --sarif and --junit write CI reports after the run.",
   },
   interactive: "never",
   conventions: {
@@ -599,7 +779,7 @@ export default defineCommand({
   safety: {
     defaultMode: "preview",
     requiresApply: true,
-    effects: ["process.exec"],
+    effects: ["process.exec", "fs.write"],
   },
   help: {
     examples: [
@@ -610,6 +790,10 @@ export default defineCommand({
       "rse tsc --runner tsc --bunx --apply",
       "rse tsc --concurrency 5 --apply",
       "rse tsc --verbose",
+      "rse tsc --affected --apply",
+      "rse tsc --since origin/main",
+      "rse tsc --apply --sarif reports/tsc.sarif --junit reports/tsc.xml",
+      "rse tsc --apply --update-baseline",
     ],
     text: "Targets come from --targets or cwd scope when omitted. Every target tsconfig chain must include compilerOptions.types with bun. Default mode previews the resolved typecheck plan; pass --apply to execute tsgo --noEmit with tsc --noEmit as an unavailable-runner fallback.",
   },
@@ -617,14 +801,27 @@ export default defineCommand({
     targets: {
       type: "string",
       description:
-        "Comma-separated workspace paths to typecheck in order (defaults to cwd-derived scope when omitted)",
+        "Comma-separated workspace paths to typecheck (defaults to cwd-derived scope when omitted). Workspace dependencies run first.",
       hint: "Examples: packages/rempts,plugins/dler,apps/rse",
       inputSources: ["flag"],
     },
+    affected: {
+      type: "boolean",
+      description:
+        "Only typecheck targets changed since the merge-base with the default branch (or --since), plus their workspace dependents",
+      inputSources: ["flag"],
+    },
+    since: {
+      type: "string",
+      description:
+        "Only typecheck targets changed since a git ref, plus their workspace dependents (uncommitted and untracked files count)",
+      hint: "origin/main",
+      inputSources: ["flag"],
+    },
     concurrency: {
       type: "number",
       defaultValue: DLER_CONCURRENCY_DEFAULTS.tsc,
-      description: "Maximum number of TypeScript targets to check at once",
+      description: "Maximum number of independent TypeScript targets to check at once",
       inputSources: ["flag", "default"],
     },
     runner: {
@@ -640,6 +837,23 @@ export default defineCommand({
       description: "Run the selected TypeScript runner through bunx instead of local bun run",
       inputSources: ["flag", "default"],
     },
+    updateBaseline: {
+      type: "boolean",
+      description: `Rewrite ${DLER_TSC_DEFAULTS.baselinePath} with the current diagnostics of the checked targets`,
+      inputSources: ["flag"],
+    },
+    sarif: {
+      type: "string",
+      description: "Write diagnostics as a SARIF 2.1.0 file after --apply",
+      hint: "reports/tsc.sarif",
+      inputSources: ["flag"],
+    },
+    junit: {
+      type: "string",
+      description: "Write diagnostics as a JUnit XML file after --apply",
+      hint: "reports/tsc.xml",
+      inputSources: ["flag"],
+    },
     verbose: {
       type: "boolean",
       description:
@@ -655,12 +869,35 @@ export default defineCommand({
     const runnerMode = resolveRunnerMode(ctx.options.runner);
     const bunx = ctx.options.bunx === true;
     const requestedTargets = await resolveTscRequestedTargets({
+      affected: ctx.options.affected === true,
       cwd: ctx.cwd,
       rawTargets: ctx.options.targets,
+      since: ctx.options.since,
     }).catch((error: unknown) => {
       const message = error instanceof Error ? error.message : String(error);
       return ctx.exit(1, `Target discovery failed: ${message}`);
     });
+    const selection = requestedTargets.selection;
+
+    if (selection && requestedTargets.labels.length === 0) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(
+          {
+            apply: ctx.safety.apply,
+            ok: true,
+            preview: !ctx.safety.apply,
+            selection,
+            skipped: requestedTargets.resolution.skipped,
+            targets: [],
+          },
+          DLER_COMMAND_NAMES.tsc,
+        );
+        return;
+      }
+
+      ctx.out(formatEmptySelectionMessage(selection));
+      return;
+    }
     const plan = await createTscPlan({
       bunx,
       runnerMode,
@@ -691,6 +928,7 @@ export default defineCommand({
             runnerMode,
             runner: getPrimaryRunnerForMode(runnerMode),
             fallbackRunner: DLER_TSC_DEFAULTS.fallbackRunner,
+            ...(selection ? { selection } : {}),
             skipped: skippedTargets,
             skippedTargets: targetSets.skippedTargets,
             targets: requestedTargets.labels,
@@ -705,6 +943,7 @@ export default defineCommand({
         colors: ctx.colors.stdout,
         concurrency,
         runnerMode,
+        selection,
         skippedTargets,
         targets: plan.plannedTargets,
         verbose: ctx.options.verbose === true,
@@ -727,11 +966,13 @@ export default defineCommand({
         runnerMode,
         runner: getPrimaryRunnerForMode(runnerMode),
         fallbackRunner: DLER_TSC_DEFAULTS.fallbackRunner,
+        ...(selection ? { selection } : {}),
         skipped: skippedTargets,
         skippedTargets: targetSets.skippedTargets,
         steps: plan.plannedTargets.map((target) => ({
           command: target.displayCommand,
           cwd: target.cwd,
+          dependsOn: target.dependsOn,
           label: target.label,
         })),
         targets: requestedTargets.labels,
@@ -750,6 +991,7 @@ export default defineCommand({
         colors: ctx.colors.stdout,
         concurrency,
         runnerMode,
+        selection,
         skippedTargets,
         targets: plan.plannedTargets,
         verbose: ctx.options.verbose === true,
@@ -778,6 +1020,7 @@ export default defineCommand({
             runnerMode,
             runner: getPrimaryRunnerForMode(runnerMode),
             fallbackRunner: DLER_TSC_DEFAULTS.fallbackRunner,
+            ...(selection ? { selection } : {}),
             skipped: skippedTargets,
             skippedTargets: targetSets.skippedTargets,
             targets: requestedTargets.labels,
@@ -790,6 +1033,7 @@ export default defineCommand({
           colors: ctx.colors.stdout,
           concurrency,
           runnerMode,
+          selection,
           skippedTargets,
           targets: plan.plannedTargets,
           verbose: ctx.options.verbose === true,
@@ -803,20 +1047,64 @@ export default defineCommand({
 
     ctx.safety.assertApplied("process.exec");
 
+    const updateBaseline = ctx.options.updateBaseline === true;
+    const workspaceRoot = await resolveWorkspaceRootFromCwd(ctx.cwd).catch(() => ctx.cwd);
+    const baselinePath = resolveTscBaselinePath(workspaceRoot);
+    const baseline = await readTscBaseline(baselinePath).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Reading the tsc baseline failed: ${message}`);
+    });
+
     const startedAt = performance.now();
-    const results = await mapWithConcurrency(plan.plannedTargets, concurrency, async (target) =>
-      runTscTarget(target, { bunx, runnerMode }),
+    const { results, skipped: blockedTargets } = await runDependencyGraph(
+      plan.plannedTargets,
+      concurrency,
+      async (target) =>
+        runTscTarget(target, { baseline, bunx, runnerMode, updateBaseline, workspaceRoot }),
     );
+    const executedSkippedTargets = [...skippedTargets, ...blockedTargets];
 
     const totalDurationMs = Math.round(performance.now() - startedAt);
     const executedTargetSets = createTargetSets({
       executedTargets: results,
       plannedTargets: plan.plannedTargets,
-      skippedTargets,
+      skippedTargets: executedSkippedTargets,
     });
-    const ok = results.every((result) => result.ok);
+    const ok = results.every((result) => result.ok) && blockedTargets.length === 0;
+
+    if (updateBaseline) {
+      ctx.safety.assertApplied("fs.write");
+      // Targets that failed without diagnostics keep their entries: nothing reliable replaced them.
+      await writeTscBaseline(
+        baselinePath,
+        results.filter((result) => result.ok),
+      );
+    }
+
+    const reportPaths = {
+      ...(typeof ctx.options.junit === "string"
+        ? { junit: resolve(ctx.cwd, ctx.options.junit) }
+        : {}),
+      ...(typeof ctx.options.sarif === "string"
+        ? { sarif: resolve(ctx.cwd, ctx.options.sarif) }
+        : {}),
+    };
+    if (reportPaths.junit || reportPaths.sarif) {
+      ctx.safety.assertApplied("fs.write");
+    }
+    if (reportPaths.junit) {
+      await writeTscReport(reportPaths.junit, createTscJunitReport(results));
+    }
+    if (reportPaths.sarif) {
+      await writeTscReport(
+        reportPaths.sarif,
+        `${JSON.stringify(createTscSarifReport(results), null, 2)}\n`,
+      );
+    }
+
     const resultPayload = {
       apply: true,
+      baseline: { path: baselinePath, updated: updateBaseline },
       bunx,
       concurrency,
       executedTargets: executedTargetSets.executedTargets,
@@ -826,11 +1114,15 @@ export default defineCommand({
       results: results.map((result) => ({
         command: result.command,
         cwd: result.cwd,
+        diagnostics: result.diagnostics,
         durationMs: result.durationMs,
         exitCode: result.exitCode,
         fallbackUsed: result.fallbackUsed,
+        fixedDiagnostics: result.fixedDiagnostics,
         label: result.label,
+        newDiagnostics: result.newDiagnostics,
         ok: result.ok,
+        packagePath: result.packagePath,
         runner: result.runner,
         runnerMode: result.runnerMode,
         stderr: result.stderr,
@@ -839,7 +1131,9 @@ export default defineCommand({
       runnerMode,
       runner: getPrimaryRunnerForMode(runnerMode),
       fallbackRunner: DLER_TSC_DEFAULTS.fallbackRunner,
-      skipped: skippedTargets,
+      reports: reportPaths,
+      ...(selection ? { selection } : {}),
+      skipped: executedSkippedTargets,
       skippedTargets: executedTargetSets.skippedTargets,
       totalDurationMs,
     };
@@ -853,13 +1147,15 @@ export default defineCommand({
       ctx.output.data(resultPayload);
     } else {
       for (const line of formatTscResultText({
+        baselineFile: relative(ctx.cwd, baselinePath) || DLER_TSC_DEFAULTS.baselinePath,
         bunx,
         colors: ctx.colors.stdout,
         concurrency,
         results,
         runnerMode,
-        skippedTargets,
+        skippedTargets: executedSkippedTargets,
         totalDurationMs,
+        updateBaseline,
         verbose: ctx.options.verbose === true,
       })) {
         ctx.out(line);
@@ -871,7 +1167,7 @@ export default defineCommand({
       ctx.exit(
         1,
         failedTarget
-          ? `Typecheck failed for ${failedTarget.label} with ${formatTscCommand(failedTarget.runner, { bunx })} (exit ${failedTarget.exitCode}).`
+          ? `Typecheck failed for ${failedTarget.label} with ${formatTscCommand(failedTarget.runner, { bunx })} (exit ${failedTarget.exitCode}${failedTarget.newDiagnostics.length > 0 ? `, ${failedTarget.newDiagnostics.length} new diagnostic${failedTarget.newDiagnostics.length === 1 ? "" : "s"}` : ""}).`
           : "Typecheck failed.",
       );
     }
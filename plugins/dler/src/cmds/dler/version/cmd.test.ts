@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import command from "./cmd";
+
+function createJsonCtx(cwd: string, options: Record<string, unknown>) {
+  const resultCalls: Array<{ value: unknown; command?: string | undefined }> = [];
+  const textLines: string[] = [];
+
+  return {
+    ctx: {
+      cliPluginNames: ["dler"],
+      cwd,
+      env: process.env,
+      err: () => undefined,
+      exit(code: number, message: string): never {
+        throw new Error(`EXIT ${code}: ${message}`);
+      },
+      options,
+      safety: {
+        apply: options.apply === true,
+        effects: [],
+        preview: options.apply !== true,
+        requiresApply: true,
+        assertApplied(effect?: string) {
+          if (options.apply === true) return;
+          throw new Error(`requires --apply${effect ? ` for ${effect}` : ""}`);
+        },
+      },
+      out: (...values: unknown[]) => textLines.push(values.join(" ")),
+      output: {
+        mode: "json" as const,
+        data: (value: unknown) => resultCalls.push({ value, command: "data" }),
+        result: (value: unknown, command?: string) => resultCalls.push({ value, command }),
+      },
+    },
+    resultCalls,
+    textLines,
+  };
+}
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const processHandle = Bun.spawn(["git", ...args], { cwd, stderr: "pipe", stdout: "pipe" });
+  const stdout = await new Response(processHandle.stdout).text();
+  expect(await processHandle.exited).toBe(0);
+
+  return stdout.trim();
+}
+
+async function commitFile(root: string, path: string, message: string): Promise<void> {
+  await writeFile(join(root, path), `${message}\n`, "utf8");
+  await git(root, "add", "-A");
+  await git(root, "commit", "--quiet", "-m", message);
+}
+
+async function createReleasedWorkspace(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "dler-version-"));
+  await writeFile(
+    join(root, "package.json"),
+    JSON.stringify({ private: true, workspaces: ["packages/*"] }),
+    "utf8",
+  );
+
+  for (const [name, dependencies] of [
+    ["core", {}],
+    ["app", { "core-pkg": "workspace:^1.0.0" }],
+    ["docs", {}],
+  ] as const) {
+    await mkdir(join(root, "packages", name), { recursive: true });
+    await writeFile(
+      join(root, "packages", name, "package.json"),
+      `${JSON.stringify({ name: `${name}-pkg`, version: "1.0.0", dependencies }, null, 2)}\n`,
+      "utf8",
+    );
+  }
+
+  await git(root, "init", "--quiet", "--initial-branch=main");
+  await git(root, "config", "user.name", "dler");
+  await git(root, "config", "user.email", "dler@example.com");
+  await git(root, "add", "-A");
+  await git(root, "commit", "--quiet", "-m", "chore: initial");
+  for (const name of ["core", "app", "docs"]) {
+    await git(root, "tag", `${name}-pkg@1.0.0`);
+  }
+
+  await commitFile(root, "packages/core/index.ts", "feat(core)!: replace the run api");
+  await commitFile(root, "packages/docs/index.ts", "docs: explain run");
+
+  return root;
+}
+
+describe("dler version", () => {
+  test("previews a breaking release and its cascade without touching files", async () => {
+    const root = await createReleasedWorkspace();
+    const { ctx, resultCalls } = createJsonCtx(root, {});
+
+    await command.handler(ctx as never);
+
+    expect(resultCalls[0]?.command).toBe("dler version");
+    expect(resultCalls[0]?.value).toMatchObject({
+      apply: false,
+      files: [
+        "packages/app/CHANGELOG.md",
+        "packages/app/package.json",
+        "packages/core/CHANGELOG.md",
+        "packages/core/package.json",
+      ],
+      release: null,
+      releases: [
+        {
+          bump: "major",
+          label: "packages/core",
+          lastTag: "core-pkg@1.0.0",
+          nextVersion: "2.0.0",
+          reason: "commits",
+          tag: "core-pkg@2.0.0",
+        },
+        {
+          bump: "patch",
+          dependencies: [{ name: "core-pkg", version: "2.0.0" }],
+          label: "packages/app",
+          nextVersion: "1.0.1",
+          reason: "dependency",
+        },
+      ],
+      specifierUpdates: [
+        {
+          field: "dependencies",
+          from: "workspace:^1.0.0",
+          label: "packages/app",
+          name: "core-pkg",
+          to: "workspace:^2.0.0",
+        },
+      ],
+      unchanged: ["packages/docs"],
+    });
+    expect(await git(root, "status", "--porcelain")).toBe("");
+  });
+
+  test("--apply writes versions and changelogs, commits, and tags each release", async () => {
+    const root = await createReleasedWorkspace();
+    await writeFile(
+      join(root, "packages", "core", "CHANGELOG.md"),
+      "# Changelog\n\n## 1.0.0 (2026-01-01)\n\n- Initial release\n",
+      "utf8",
+    );
+    await expect(
+      command.handler(createJsonCtx(root, { apply: true }).ctx as never),
+    ).rejects.toThrow(
+      "EXIT 1: Commit or stash changes to packages/core/CHANGELOG.md first, or pass --no-commit.",
+    );
+    await git(root, "add", "-A");
+    await git(root, "commit", "--quiet", "-m", "docs: start changelog");
+
+    const { ctx, resultCalls } = createJsonCtx(root, { apply: true });
+    await command.handler(ctx as never);
+
+    expect(resultCalls[0]?.value).toMatchObject({
+      release: { tags: ["core-pkg@2.0.0", "app-pkg@1.0.1"] },
+    });
+    expect(await git(root, "log", "-1", "--format=%s")).toBe("chore(release): publish");
+    expect(await git(root, "tag", "--points-at", "HEAD")).toBe("app-pkg@1.0.1\ncore-pkg@2.0.0");
+    expect(await git(root, "status", "--porcelain")).toBe("");
+
+    const app = JSON.parse(await readFile(join(root, "packages", "app", "package.json"), "utf8"));
+    expect(app).toMatchObject({
+      dependencies: { "core-pkg": "workspace:^2.0.0" },
+      version: "1.0.1",
+    });
+
+    const changelog = await readFile(join(root, "packages", "core", "CHANGELOG.md"), "utf8");
+    expect(changelog).toStartWith("# Changelog\n\n## 2.0.0 (");
+    expect(changelog).toContain("### Breaking Changes\n\n- **core:** replace the run api (");
+    expect(changelog).toEndWith("## 1.0.0 (2026-01-01)\n\n- Initial release\n");
+
+    const rerun = createJsonCtx(root, {});
+    await command.handler(rerun.ctx as never);
+    expect(rerun.resultCalls[0]?.value).toMatchObject({ releases: [], files: [] });
+  });
+});
@@ -0,0 +1,228 @@
+import { resolve } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import { DLER_COMMAND_NAMES } from "../../../impl/constants";
+import { resolveRequestedTargets } from "../../../impl/shared-targets";
+import { renderChangelogSection } from "../../../impl/version/changelog";
+import { createVersionPlan, readVersionPackages } from "../../../impl/version/plan";
+import type { PlannedRelease, VersionPlan } from "../../../impl/version/plan";
+import {
+  commitAndTagReleases,
+  findExistingReleaseTags,
+  listUncommittedFiles,
+  listVersionPlanFiles,
+  writeVersionPlan,
+} from "../../../impl/version/release";
+import type { VersionReleaseCommit } from "../../../impl/version/release";
+import { resolveAllWorkspaceTargets } from "../../../impl/workspace-targets";
+
+function describeRelease(release: PlannedRelease): string {
+  if (release.reason === "dependency") {
+    return `${release.bump}, dependency released`;
+  }
+
+  const count = release.commits.length;
+  const since = release.lastTag ? `since ${release.lastTag}` : "with no release tag yet";
+  return `${release.bump}, ${count} commit${count === 1 ? "" : "s"} ${since}`;
+}
+
+function formatPlanLines(plan: VersionPlan): string[] {
+  const lines: string[] = [];
+
+  if (plan.releases.length > 0) {
+    const width = Math.max(...plan.releases.map((release) => release.label.length));
+    lines.push("Releases");
+
+    for (const release of plan.releases) {
+      lines.push(
+        `  ${release.label.padEnd(width)}  ${release.currentVersion} -> ${release.nextVersion}  ${describeRelease(release)}`,
+      );
+
+      for (const commit of release.commits) {
+        const scope = commit.scope ? `(${commit.scope})` : "";
+        lines.push(
+          `    ${commit.hash} ${commit.type}${scope}${commit.breaking ? "!" : ""}: ${commit.subject}`,
+        );
+      }
+    }
+  }
+
+  if (plan.specifierUpdates.length > 0) {
+    lines.push("Range updates");
+
+    for (const update of plan.specifierUpdates) {
+      lines.push(
+        `  ${update.label} ${update.field}.${update.name}: ${update.from} -> ${update.to}`,
+      );
+    }
+  }
+
+  if (plan.unchanged.length > 0) {
+    lines.push(`Unchanged: ${plan.unchanged.join(", ")}`);
+  }
+
+  return lines;
+}
+
+export default defineCommand({
+  meta: {
+    name: "version",
+    description:
+      "Propose version bumps from conventional commits since each package's last release tag, then update package.json, CHANGELOG.md, and release tags.",
+  },
+  agent: {
+    notes:
+      "Default execution is preview-only. Release tags are <package name>@<version>; commits since the tag of the current version (or the latest release tag) that touched the package decide the bump: breaking changes major (minor before 1.0.0), feat minor, fix and perf patch. A workspace dependent whose published range for a releasing dependency would no longer match gets a patch bump, and explicit workspace: ranges are rewritten. --apply writes package.json and CHANGELOG.md files, commits them as chore(release): publish, and tags each release; --no-commit only writes the files. Private packages and packages without a version never release.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: false,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.write", "process.exec"],
+  },
+  help: {
+    examples: [
+      "rse dler version",
+      "rse dler version --targets packages/foo",
+      "rse dler version --apply",
+      "rse dler version --no-commit --apply",
+      "rse dler version --json",
+    ],
+    text: "Every workspace package is considered unless --targets narrows the packages whose commits are read; dependents of releasing packages can still be bumped outside --targets. Run rse dler pub --apply after the release commit to publish the new versions.",
+  },
+  options: {
+    targets: {
+      type: "string",
+      description:
+        "Comma-separated workspace paths (relative to --cwd) whose commits decide bumps (defaults to every workspace package)",
+      hint: "Example: packages/rempts,plugins/dler",
+      inputSources: ["flag"],
+    },
+    commit: {
+      type: "boolean",
+      defaultValue: true,
+      description:
+        "With --apply, commit the changed files and create release tags (--no-commit only writes the files)",
+      inputSources: ["flag", "default"],
+    },
+  },
+  async handler(ctx) {
+    const apply = ctx.safety.apply;
+    const commit = ctx.options.commit !== false;
+    const workspace = await resolveAllWorkspaceTargets(ctx.cwd).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, message);
+    });
+    let releaseCwds: Set<string> | undefined;
+
+    if (ctx.options.targets?.trim()) {
+      const requested = await resolveRequestedTargets({
+        cwd: ctx.cwd,
+        rawTargets: ctx.options.targets,
+      });
+
+      for (const skipped of requested.resolution.skipped) {
+        ctx.err(`Skipping ${skipped.label}: ${skipped.reason}`);
+      }
+
+      if (requested.resolution.resolved.length === 0) {
+        ctx.exit(1, "No workspace packages matched --targets.");
+      }
+
+      releaseCwds = new Set(requested.resolution.resolved.map((target) => resolve(target.cwd)));
+    }
+
+    const packages = await readVersionPackages({
+      releaseCwds,
+      rootDir: workspace.rootDir,
+      targets: workspace.targets,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read release history: ${message}`);
+    });
+    const plan = (() => {
+      try {
+        return createVersionPlan(packages);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, message);
+      }
+    })();
+    const files = listVersionPlanFiles(workspace.rootDir, plan);
+    const date = new Date().toISOString().slice(0, 10);
+    let release: VersionReleaseCommit | undefined;
+
+    if (apply && plan.releases.length > 0) {
+      if (commit) {
+        const existingTags = await findExistingReleaseTags(workspace.rootDir, plan);
+        if (existingTags.length > 0) {
+          ctx.exit(1, `Release tags already exist: ${existingTags.join(", ")}.`);
+        }
+
+        const uncommitted = await listUncommittedFiles(workspace.rootDir, files);
+        if (uncommitted.length > 0) {
+          ctx.exit(
+            1,
+            `Commit or stash changes to ${uncommitted.join(", ")} first, or pass --no-commit.`,
+          );
+        }
+      }
+
+      ctx.safety.assertApplied("fs.write");
+      await writeVersionPlan(plan, { date });
+
+      if (commit) {
+        ctx.safety.assertApplied("process.exec");
+        release = await commitAndTagReleases(workspace.rootDir, plan, files);
+      }
+    }
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(
+        {
+          apply,
+          commit,
+          files,
+          preview: !apply,
+          release: release ?? null,
+          releases: plan.releases.map((planned) => {
+            const { cwd: _cwd, ...rest } = planned;
+            return { ...rest, changelog: renderChangelogSection(planned, date) };
+          }),
+          specifierUpdates: plan.specifierUpdates.map(({ cwd: _cwd, ...rest }) => rest),
+          unchanged: plan.unchanged,
+        },
+        DLER_COMMAND_NAMES.version,
+      );
+      return;
+    }
+
+    ctx.out(apply ? DLER_COMMAND_NAMES.version : `${DLER_COMMAND_NAMES.version} preview`);
+
+    if (plan.releases.length === 0) {
+      ctx.out(
+        "Nothing to release: no feat, fix, perf, or breaking commits since the last release tags.",
+      );
+      return;
+    }
+
+    for (const line of formatPlanLines(plan)) {
+      ctx.out(line);
+    }
+
+    if (!apply) {
+      ctx.out(
+        "Preview only. Pass --apply to write package.json and CHANGELOG.md files, commit, and tag.",
+      );
+    } else if (release) {
+      ctx.out(`Committed ${release.commit} and tagged ${release.tags.join(", ")}.`);
+    } else {
+      ctx.out(`Wrote ${files.join(", ")}; not committed or tagged (--no-commit).`);
+    }
+  },
+});
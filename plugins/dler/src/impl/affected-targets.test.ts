@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describeSelectedTarget, resolveSelectionBase } from "./affected-targets";
+import { resolveRequestedTargets } from "./shared-targets";
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const processHandle = Bun.spawn(
+    ["git", "-c", "user.name=dler", "-c", "user.email=dler@example.com", ...args],
+    { cwd, stderr: "pipe", stdout: "pipe" },
+  );
+  const stdout = await new Response(processHandle.stdout).text();
+  expect(await processHandle.exited).toBe(0);
+
+  return stdout.trim();
+}
+
+async function writePackage(root: string, name: string, dependencies: Record<string, string>) {
+  await mkdir(join(root, "packages", name, "src"), { recursive: true });
+  await writeFile(
+    join(root, "packages", name, "package.json"),
+    JSON.stringify({ name, dependencies }),
+    "utf8",
+  );
+  await writeFile(join(root, "packages", name, "src", "index.ts"), "export {};\n", "utf8");
+}
+
+async function createGitWorkspace(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), "dler-affected-"));
+  await writeFile(join(root, "package.json"), '{"workspaces":["packages/*"]}\n', "utf8");
+  await writePackage(root, "core", {});
+  await writePackage(root, "plugin", { core: "workspace:*" });
+  await writePackage(root, "app", { plugin: "workspace:*" });
+  await writePackage(root, "docs", {});
+
+  await git(root, "init", "--quiet", "--initial-branch=main");
+  await git(root, "add", "-A");
+  await git(root, "commit", "--quiet", "-m", "initial");
+
+  return root;
+}
+
+describe("affected target selection", () => {
+  test("selects changed packages and their transitive dependents with reasons", async () => {
+    const root = await createGitWorkspace();
+    await writeFile(join(root, "packages", "core", "src", "index.ts"), "export const a = 1;\n");
+    await writeFile(join(root, "packages", "core", "src", "new.ts"), "export {};\n");
+    await writeFile(join(root, "README.md"), "outside any package\n");
+
+    const result = await resolveRequestedTargets({
+      cwd: root,
+      rawTargets: undefined,
+      since: "HEAD",
+    });
+
+    expect(result.labels).toEqual(["packages/app", "packages/core", "packages/plugin"]);
+    expect(result.selection).toMatchObject({ base: "HEAD", mode: "since", ref: "HEAD" });
+    expect(result.selection?.selected).toEqual([
+      { dependencyOf: "packages/core", label: "packages/app", reason: "dependent" },
+      {
+        changedFiles: ["packages/core/src/index.ts", "packages/core/src/new.ts"],
+        label: "packages/core",
+        reason: "changed",
+      },
+      { dependencyOf: "packages/core", label: "packages/plugin", reason: "dependent" },
+    ]);
+    expect(result.selection?.selected.map(describeSelectedTarget)).toEqual([
+      "dependent of packages/core",
+      "changed (2 files)",
+      "dependent of packages/core",
+    ]);
+  });
+
+  test("narrows explicit targets and finds dependents of packages outside them", async () => {
+    const root = await createGitWorkspace();
+    await writeFile(join(root, "packages", "core", "src", "index.ts"), "export const a = 1;\n");
+
+    const result = await resolveRequestedTargets({
+      cwd: root,
+      rawTargets: "packages/app,packages/docs,packages/missing",
+      since: "HEAD",
+    });
+
+    expect(result.labels).toEqual(["packages/app"]);
+    expect(result.resolution.skipped.map((target) => target.label)).toEqual(["packages/missing"]);
+    expect(result.selection?.selected).toEqual([
+      { dependencyOf: "packages/core", label: "packages/app", reason: "dependent" },
+    ]);
+  });
+
+  test("--affected diffs against the merge-base with the default branch", async () => {
+    const root = await createGitWorkspace();
+    const mainHead = await git(root, "rev-parse", "HEAD");
+    await git(root, "checkout", "--quiet", "-b", "feature");
+    await writeFile(join(root, "packages", "docs", "src", "index.ts"), "export const d = 1;\n");
+    await git(root, "commit", "--quiet", "-am", "docs");
+
+    expect(await resolveSelectionBase({ affected: true, cwd: root })).toEqual({
+      base: mainHead,
+      mode: "affected",
+      ref: "main",
+    });
+
+    const result = await resolveRequestedTargets({ affected: true, cwd: root, rawTargets: "" });
+    expect(result.labels).toEqual(["packages/docs"]);
+
+    await git(root, "checkout", "--quiet", "main");
+    const unchanged = await resolveRequestedTargets({ affected: true, cwd: root, rawTargets: "" });
+    expect(unchanged.labels).toEqual([]);
+    expect(unchanged.selection?.selected).toEqual([]);
+  });
+
+  test("rejects a --since ref that does not exist", async () => {
+    const root = await createGitWorkspace();
+
+    await expect(
+      resolveRequestedTargets({ cwd: root, rawTargets: undefined, since: "no-such-ref" }),
+    ).rejects.toThrow('--since ref "no-such-ref" does not resolve to a commit.');
+  });
+});
@@ -0,0 +1,214 @@
+import { relative, resolve, sep } from "node:path";
+
+import { readWorkspaceDependencyGraph } from "./dependency-graph";
+import { gitRefExists, readGit, runGit } from "./git";
+import type { RequestedTarget } from "./shared-targets";
+
+export type TargetSelectionMode = "affected" | "since";
+
+export interface SelectedTarget {
+  /** Files under the package that changed, relative to the workspace root. Only for `changed`. */
+  readonly changedFiles?: readonly string[] | undefined;
+  /** The directly changed package this target depends on. Only for `dependent`. */
+  readonly dependencyOf?: string | undefined;
+  readonly label: string;
+  readonly reason: "changed" | "dependent";
+}
+
+export interface TargetSelection {
+  /** Git revision the working tree was compared against. */
+  readonly base: string;
+  readonly mode: TargetSelectionMode;
+  /** The `--since` ref, or the default branch that `--affected` computed the merge-base with. */
+  readonly ref: string;
+  readonly selected: readonly SelectedTarget[];
+}
+
+const DEFAULT_BRANCH_CANDIDATES = ["origin/main", "origin/master", "main", "master"] as const;
+
+async function resolveDefaultBranch(cwd: string): Promise<string> {
+  const originHead = await runGit(cwd, [
+    "symbolic-ref",
+    "--quiet",
+    "--short",
+    "refs/remotes/origin/HEAD",
+  ]);
+  const candidates = [
+    ...(originHead.exitCode === 0 ? [originHead.stdout.trim()] : []),
+    ...DEFAULT_BRANCH_CANDIDATES,
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate.length > 0 && (await gitRefExists(cwd, candidate))) {
+      return candidate;
+    }
+  }
+
+  throw new Error(
+    `Could not find a default branch for --affected (tried ${candidates.join(", ")}). Pass --since <ref>.`,
+  );
+}
+
+/**
+ * Resolves the revision to diff against: `--since <ref>` compares with that ref directly, while
+ * `--affected` compares with the merge-base of HEAD and `--since` or the default branch.
+ */
+export async function resolveSelectionBase(options: {
+  readonly affected: boolean;
+  readonly cwd: string;
+  readonly since?: string | undefined;
+}): Promise<{ readonly base: string; readonly mode: TargetSelectionMode; readonly ref: string }> {
+  const since = options.since?.trim();
+
+  if (!options.affected) {
+    if (!since) {
+      throw new Error("--since requires a git ref.");
+    }
+
+    if (!(await gitRefExists(options.cwd, since))) {
+      throw new Error(`--since ref "${since}" does not resolve to a commit.`);
+    }
+
+    return { base: since, mode: "since", ref: since };
+  }
+
+  const ref = since || (await resolveDefaultBranch(options.cwd));
+  const base = await readGit(options.cwd, ["merge-base", "HEAD", ref]);
+
+  return { base, mode: "affected", ref };
+}
+
+/**
+ * Files that differ from `base` in the working tree, including uncommitted and untracked files,
+ * relative to `cwd`.
+ */
+export async function readChangedFiles(cwd: string, base: string): Promise<string[]> {
+  const [diff, untracked] = await Promise.all([
+    readGit(cwd, ["diff", "--name-only", "--relative", base, "--"]),
+    readGit(cwd, ["ls-files", "--others", "--exclude-standard"]),
+  ]);
+  const files = new Set(
+    [...diff.split("\n"), ...untracked.split("\n")].filter((file) => file.length > 0),
+  );
+
+  return [...files].sort();
+}
+
+function findOwningTarget(
+  filePath: string,
+  targets: readonly RequestedTarget[],
+): RequestedTarget | undefined {
+  let owner: RequestedTarget | undefined;
+
+  for (const target of targets) {
+    const relativePath = relative(target.cwd, filePath);
+    const inside =
+      relativePath.length > 0 && !relativePath.startsWith("..") && !relativePath.startsWith(sep);
+
+    if (inside && (!owner || target.cwd.length > owner.cwd.length)) {
+      owner = target;
+    }
+  }
+
+  return owner;
+}
+
+/**
+ * Picks the candidates whose files changed, plus every candidate that depends on a changed
+ * workspace package directly or transitively. Dependencies are read across the whole workspace,
+ * so a dependent is found even when the changed package itself is not a candidate.
+ */
+export async function selectAffectedTargets(options: {
+  readonly candidates: readonly RequestedTarget[];
+  readonly changedFiles: readonly string[];
+  readonly rootDir: string;
+  readonly workspaceTargets: readonly RequestedTarget[];
+}): Promise<{
+  readonly selected: readonly SelectedTarget[];
+  readonly targets: readonly RequestedTarget[];
+}> {
+  const candidateByCwd = new Map(options.candidates.map((target) => [resolve(target.cwd), target]));
+  const nodes = [
+    ...options.candidates,
+    ...options.workspaceTargets.filter((target) => !candidateByCwd.has(resolve(target.cwd))),
+  ].map((target) => ({ cwd: resolve(target.cwd), label: target.label }));
+  const changedByLabel = new Map<string, string[]>();
+
+  for (const file of options.changedFiles) {
+    const owner = findOwningTarget(resolve(options.rootDir, file), nodes);
+    if (owner) {
+      changedByLabel.set(owner.label, [...(changedByLabel.get(owner.label) ?? []), file]);
+    }
+  }
+
+  const graph = await readWorkspaceDependencyGraph(nodes);
+  const dependents = new Map<string, string[]>();
+
+  for (const [label, dependencies] of graph.dependencies) {
+    for (const dependency of dependencies) {
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), label]);
+    }
+  }
+
+  // Breadth-first from each changed package, so `dependencyOf` names the nearest changed one.
+  const dependencyOf = new Map<string, string>();
+  const queue = nodes.filter((node) => changedByLabel.has(node.label)).map((node) => node.label);
+
+  for (const label of queue) {
+    dependencyOf.set(label, label);
+  }
+
+  while (queue.length > 0) {
+    const label = queue.shift()!;
+
+    for (const dependent of dependents.get(label) ?? []) {
+      if (!dependencyOf.has(dependent)) {
+        dependencyOf.set(dependent, dependencyOf.get(label)!);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  const selected: SelectedTarget[] = [];
+  const targets: RequestedTarget[] = [];
+
+  for (const candidate of options.candidates) {
+    const changedFiles = changedByLabel.get(candidate.label);
+    const origin = dependencyOf.get(candidate.label);
+
+    if (changedFiles) {
+      selected.push({ changedFiles, label: candidate.label, reason: "changed" });
+    } else if (origin) {
+      selected.push({ dependencyOf: origin, label: candidate.label, reason: "dependent" });
+    } else {
+      continue;
+    }
+
+    targets.push(candidate);
+  }
+
+  return { selected, targets };
+}
+
+export function describeSelectedTarget(target: SelectedTarget): string {
+  if (target.reason === "dependent") {
+    return `dependent of ${target.dependencyOf}`;
+  }
+
+  const count = target.changedFiles?.length ?? 0;
+  return `changed (${count} file${count === 1 ? "" : "s"})`;
+}
+
+function describeSelectionBase(selection: TargetSelection): string {
+  return selection.mode === "affected"
+    ? `since merge-base with ${selection.ref}`
+    : `since ${selection.ref}`;
+}
+
+export function formatSelectionHeading(selection: TargetSelection): string {
+  return `Selected (changed ${describeSelectionBase(selection)})`;
+}
+
+export function formatEmptySelectionMessage(selection: TargetSelection): string {
+  return `No workspace packages changed ${describeSelectionBase(selection)}.`;
+}
@@ -0,0 +1,96 @@
+import { mkdir, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+
+import { runNpmPackPublished } from "../pub/npm-pack";
+import { readNpmPublishedVersion } from "../pub/npm-publish";
+import { readApiSurface, type ApiSurface } from "./surface";
+
+export interface ApiBaseline {
+  /** The tarball path or `name@version` the declarations came from. */
+  readonly source: string;
+  readonly surface: ApiSurface;
+  readonly version?: string | undefined;
+}
+
+async function extractTarball(tarballPath: string, destination: string): Promise<void> {
+  await mkdir(destination, { recursive: true });
+  const child = Bun.spawn(["tar", "-xzf", tarballPath, "-C", destination], {
+    stderr: "pipe",
+    stdout: "ignore",
+  });
+  const [stderr, exitCode] = await Promise.all([new Response(child.stderr).text(), child.exited]);
+
+  if (exitCode !== 0) {
+    throw new Error(
+      `Failed to extract ${tarballPath}: ${stderr.trim() || `tar exited ${exitCode}`}`,
+    );
+  }
+}
+
+/** npm tarballs keep the package under a top-level `package/` directory. */
+async function readExtractedBaseline(directory: string, source: string): Promise<ApiBaseline> {
+  const packageDir = join(directory, "package");
+  const manifest = JSON.parse(await readFile(join(packageDir, "package.json"), "utf8")) as Record<
+    string,
+    unknown
+  >;
+
+  return {
+    source,
+    surface: await readApiSurface(packageDir, manifest),
+    version: typeof manifest.version === "string" ? manifest.version : undefined,
+  };
+}
+
+/** Declarations of a package tarball on disk, such as one written by `npm pack`. */
+export async function readTarballApiBaseline(tarballPath: string): Promise<ApiBaseline> {
+  const directory = await mkdtemp(join(tmpdir(), "dler-api-baseline-"));
+
+  try {
+    await extractTarball(resolve(tarballPath), directory);
+    return await readExtractedBaseline(directory, tarballPath);
+  } finally {
+    await rm(directory, { force: true, recursive: true });
+  }
+}
+
+/**
+ * Declarations of `packageName@version` as published, downloaded through the npm cache.
+ * Without a version the `latest` dist-tag is used; undefined when npm has no such version.
+ */
+export async function readPublishedApiBaseline(options: {
+  readonly cwd: string;
+  readonly env: NodeJS.ProcessEnv;
+  readonly packageName: string;
+  readonly version?: string | undefined;
+}): Promise<ApiBaseline | undefined> {
+  const version = await readNpmPublishedVersion({
+    env: options.env,
+    packageName: options.packageName,
+    version: options.version ?? "latest",
+  });
+  if (!version) {
+    return undefined;
+  }
+
+  const spec = `${options.packageName}@${version}`;
+  const directory = await mkdtemp(join(tmpdir(), "dler-api-baseline-"));
+
+  try {
+    const pack = await runNpmPackPublished({
+      cwd: options.cwd,
+      destination: directory,
+      env: options.env,
+      spec,
+    });
+    if (pack.exitCode !== 0 || !pack.preview?.filename) {
+      throw new Error(`npm pack ${spec} failed: ${pack.stderr.trim() || `exit ${pack.exitCode}`}`);
+    }
+
+    await extractTarball(join(directory, pack.preview.filename), join(directory, "extracted"));
+    return await readExtractedBaseline(join(directory, "extracted"), spec);
+  } finally {
+    await rm(directory, { force: true, recursive: true });
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+
+import { allowsBreakingChanges, diffApiSurfaces, formatApiBreakReason } from "./diff";
+import type { ApiSurface } from "./surface";
+
+function surface(entrypoints: Record<string, Record<string, string>>): ApiSurface {
+  return {
+    entrypoints: Object.entries(entrypoints).map(([exportPath, exports]) => ({
+      exportPath,
+      exports: Object.entries(exports).map(([name, signature]) => ({
+        kind: "function" as const,
+        name,
+        signature,
+      })),
+      typesPath: `./dist/${exportPath}.d.ts`,
+    })),
+    problems: [],
+  };
+}
+
+describe("API diffs", () => {
+  test("classifies added, removed, and changed exports and entrypoints", () => {
+    const diff = diffApiSurfaces(
+      surface({
+        ".": { parse: "function parse(input: string): Ast", run: "function run(): void" },
+        "./legacy": { old: "function old(): void" },
+      }),
+      surface({
+        ".": {
+          format: "function format(ast: Ast): string",
+          run: "function run(cwd: string): void",
+        },
+        "./cli": { main: "function main(): void" },
+      }),
+    );
+
+    expect(diff.breaking).toBe(true);
+    expect(diff.changes).toEqual([
+      { breaking: true, change: "removed", entrypoint: "./legacy" },
+      { breaking: false, change: "added", entrypoint: "./cli" },
+      {
+        after: "function format(ast: Ast): string",
+        breaking: false,
+        change: "added",
+        entrypoint: ".",
+        kind: "function",
+        name: "format",
+      },
+      {
+        before: "function parse(input: string): Ast",
+        breaking: true,
+        change: "removed",
+        entrypoint: ".",
+        kind: "function",
+        name: "parse",
+      },
+      {
+        after: "function run(cwd: string): void",
+        before: "function run(): void",
+        breaking: true,
+        change: "changed",
+        entrypoint: ".",
+        kind: "function",
+        name: "run",
+      },
+    ]);
+    expect(formatApiBreakReason(diff, "1.2.0", "1.3.0")).toBe(
+      'breaking API changes need a major bump (1.2.0 -> 1.3.0): removed entrypoint "./legacy"; removed export parse from "."; changed run in "."',
+    );
+  });
+
+  test("additions alone are not breaking", () => {
+    const diff = diffApiSurfaces(
+      surface({ ".": { run: "function run(): void" } }),
+      surface({ ".": { run: "function run(): void", stop: "function stop(): void" } }),
+    );
+
+    expect(diff.breaking).toBe(false);
+    expect(diff.changes).toHaveLength(1);
+  });
+
+  test("added enum members and optional interface members are not breaking", () => {
+    const diff = diffApiSurfaces(
+      surface({
+        ".": {
+          Mode: "enum Mode { A = 0, B = 1 }",
+          Options: "interface Options { cwd: string; }",
+          run: "function run(options: Settings): void; interface Settings { cwd: string; }",
+        },
+      }),
+      surface({
+        ".": {
+          Mode: "enum Mode { A = 0, B = 1, C = 2 }",
+          Options:
+            "interface Options { cwd: string; readonly dryRun?: boolean; log?(message: string): void; }",
+          run: "function run(options: Settings): void; interface Settings { cwd: string; env: string; }",
+        },
+      }),
+    );
+
+    expect(diff.changes.map((change) => [change.name, change.breaking])).toEqual([
+      ["Mode", false],
+      ["Options", false],
+      ["run", true],
+    ]);
+  });
+
+  test("breaking changes need a new major, or a new minor before 1.0.0", () => {
+    expect(allowsBreakingChanges("1.2.3", "2.0.0")).toBe(true);
+    expect(allowsBreakingChanges("1.2.3", "1.3.0")).toBe(false);
+    expect(allowsBreakingChanges("0.4.1", "0.5.0")).toBe(true);
+    expect(allowsBreakingChanges("0.4.1", "0.4.2")).toBe(false);
+    expect(allowsBreakingChanges("1.2.3", "2.0.0-beta.1")).toBe(true);
+    expect(allowsBreakingChanges("1.2.3", "next")).toBe(false);
+  });
+});
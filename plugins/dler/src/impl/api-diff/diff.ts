@@ -0,0 +1,224 @@
+import type { ApiExportKind, ApiSurface } from "./surface";
+
+export type ApiChangeKind = "added" | "changed" | "removed";
+
+export interface ApiChange {
+  readonly after?: string | undefined;
+  readonly before?: string | undefined;
+  /**
+   * Removed exports and entrypoints and changed signatures, except for added enum members and
+   * optional interface members; additions never break consumers.
+   */
+  readonly breaking: boolean;
+  readonly change: ApiChangeKind;
+  readonly entrypoint: string;
+  readonly kind?: ApiExportKind | undefined;
+  /** Undefined when the whole entrypoint was added or removed. */
+  readonly name?: string | undefined;
+}
+
+export interface ApiDiff {
+  readonly breaking: boolean;
+  /** Entrypoint changes first, then exports by entrypoint and name. */
+  readonly changes: readonly ApiChange[];
+}
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.\d+/;
+const MAX_REASON_CHANGES = 5;
+const MEMBER_BLOCK_PATTERN = /^((?:const )?enum|interface)\b([^{]*)\{(.*)\}$/;
+const OPTIONAL_MEMBER_PATTERN = /^(?:readonly )?(?:[\w$]+|"[^"]*"|'[^']*')\?\s*[:(<]/;
+
+/** Splits normalized declaration text at `separator`s outside brackets and string literals. */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const character = text[index]!;
+
+    if (character === '"' || character === "'" || character === "`") {
+      let end = index + 1;
+      while (end < text.length && text[end] !== character) {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      index = end + 1;
+      continue;
+    }
+
+    if (character === "{" || character === "(" || character === "[") {
+      depth += 1;
+    } else if (character === "}" || character === ")" || character === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (character === separator && depth === 0) {
+      parts.push(text.slice(start, index).trim());
+      start = index + 1;
+    }
+
+    index += 1;
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+/** Whether `after` keeps every member of the interface or enum `before` and only adds safe ones. */
+function addsMembersOnly(before: string, after: string): boolean {
+  const previous = MEMBER_BLOCK_PATTERN.exec(before);
+  const current = MEMBER_BLOCK_PATTERN.exec(after);
+  if (!previous || !current || previous[1] !== current[1] || previous[2] !== current[2]) {
+    return false;
+  }
+
+  const isInterface = previous[1] === "interface";
+  const previousMembers = new Set(splitTopLevel(previous[3]!, isInterface ? ";" : ","));
+  const currentMembers = splitTopLevel(current[3]!, isInterface ? ";" : ",");
+
+  return (
+    [...previousMembers].every((member) => currentMembers.includes(member)) &&
+    currentMembers.every(
+      (member) =>
+        previousMembers.has(member) || !isInterface || OPTIONAL_MEMBER_PATTERN.test(member),
+    )
+  );
+}
+
+/**
+ * Whether a changed signature only adds enum members or optional interface members, in the
+ * export's own declarations or the local ones it references. A new required interface member
+ * still breaks code that implements or constructs the interface.
+ */
+function isAdditiveChange(before: string, after: string): boolean {
+  const previous = splitTopLevel(before, ";");
+  const current = splitTopLevel(after, ";");
+
+  return (
+    previous.length === current.length &&
+    previous.every(
+      (statement, index) =>
+        statement === current[index] || addsMembersOnly(statement, current[index]!),
+    )
+  );
+}
+
+/**
+ * Compares two surfaces export by export. Apart from added enum members and optional interface
+ * members, a changed signature counts as breaking even when the new one would accept every old
+ * call, since declarations are compared as text.
+ */
+export function diffApiSurfaces(before: ApiSurface, after: ApiSurface): ApiDiff {
+  const changes: ApiChange[] = [];
+  const previous = new Map(
+    before.entrypoints.map((entrypoint) => [entrypoint.exportPath, entrypoint]),
+  );
+  const current = new Map(
+    after.entrypoints.map((entrypoint) => [entrypoint.exportPath, entrypoint]),
+  );
+
+  for (const exportPath of previous.keys()) {
+    if (!current.has(exportPath)) {
+      changes.push({ breaking: true, change: "removed", entrypoint: exportPath });
+    }
+  }
+
+  for (const exportPath of current.keys()) {
+    if (!previous.has(exportPath)) {
+      changes.push({ breaking: false, change: "added", entrypoint: exportPath });
+    }
+  }
+
+  for (const [exportPath, entrypoint] of current) {
+    const previousEntrypoint = previous.get(exportPath);
+    if (!previousEntrypoint) {
+      continue;
+    }
+
+    const previousExports = new Map(previousEntrypoint.exports.map((entry) => [entry.name, entry]));
+    const currentExports = new Map(entrypoint.exports.map((entry) => [entry.name, entry]));
+    const names = [...new Set([...previousExports.keys(), ...currentExports.keys()])].sort(
+      (left, right) => left.localeCompare(right),
+    );
+
+    for (const name of names) {
+      const oldExport = previousExports.get(name);
+      const newExport = currentExports.get(name);
+
+      if (!newExport) {
+        changes.push({
+          before: oldExport!.signature,
+          breaking: true,
+          change: "removed",
+          entrypoint: exportPath,
+          kind: oldExport!.kind,
+          name,
+        });
+      } else if (!oldExport) {
+        changes.push({
+          after: newExport.signature,
+          breaking: false,
+          change: "added",
+          entrypoint: exportPath,
+          kind: newExport.kind,
+          name,
+        });
+      } else if (oldExport.signature !== newExport.signature) {
+        changes.push({
+          after: newExport.signature,
+          before: oldExport.signature,
+          breaking: !isAdditiveChange(oldExport.signature, newExport.signature),
+          change: "changed",
+          entrypoint: exportPath,
+          kind: newExport.kind,
+          name,
+        });
+      }
+    }
+  }
+
+  return { breaking: changes.some((change) => change.breaking), changes };
+}
+
+/**
+ * Whether going from `previousVersion` to `nextVersion` may ship breaking changes: a new major,
+ * or a new minor before 1.0.0, matching how `dler version` bumps breaking commits.
+ */
+export function allowsBreakingChanges(previousVersion: string, nextVersion: string): boolean {
+  const previous = VERSION_PATTERN.exec(previousVersion);
+  const next = VERSION_PATTERN.exec(nextVersion);
+  if (!previous || !next) {
+    return false;
+  }
+
+  const [previousMajor, previousMinor] = [Number(previous[1]), Number(previous[2])];
+  const [nextMajor, nextMinor] = [Number(next[1]), Number(next[2])];
+
+  return (
+    nextMajor > previousMajor ||
+    (previousMajor === 0 && nextMajor === 0 && nextMinor > previousMinor)
+  );
+}
+
+/** `removed export run from "."`, `changed Options in "./cli"`, or `added entrypoint "./cli"`. */
+export function describeApiChange(change: ApiChange): string {
+  return change.name === undefined
+    ? `${change.change} entrypoint "${change.entrypoint}"`
+    : change.change === "changed"
+      ? `changed ${change.name} in "${change.entrypoint}"`
+      : `${change.change} export ${change.name} ${change.change === "added" ? "to" : "from"} "${change.entrypoint}"`;
+}
+
+export function formatApiBreakReason(
+  diff: ApiDiff,
+  previousVersion: string,
+  nextVersion: string,
+): string {
+  const breaking = diff.changes.filter((change) => change.breaking);
+  const listed = breaking.slice(0, MAX_REASON_CHANGES).map(describeApiChange);
+  const more =
+    breaking.length > MAX_REASON_CHANGES
+      ? `; and ${breaking.length - MAX_REASON_CHANGES} more`
+      : "";
+
+  return `breaking API changes need a major bump (${previousVersion} -> ${nextVersion}): ${listed.join("; ")}${more}`;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { diffApiSurfaces } from "./diff";
+import { readApiSurface } from "./surface";
+
+describe("readApiSurface", () => {
+  test("collects exports across re-exports, overloads, and default exports", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-api-surface-"));
+    await mkdir(join(root, "dist", "cli"), { recursive: true });
+    await writeFile(
+      join(root, "dist", "index.d.ts"),
+      [
+        'import type { Options } from "./types.js";',
+        "/** Runs the thing. */",
+        "export declare function run(options: Options): Promise<void>;",
+        "export declare function run(name: string): void;",
+        "export declare const VERSION: string;",
+        "export interface Plugin {",
+        "  name: string;",
+        "  setup?(): void;",
+        "}",
+        'export type { Options } from "./types.js";',
+        'export { parse } from "valibot";',
+        'export * as types from "./types.js";',
+        'export * from "./extra.js";',
+        "declare const _default: { run: typeof run };",
+        "export default _default;",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+    await writeFile(
+      join(root, "dist", "types.d.ts"),
+      "export type Options = {\n  cwd: string;\n};\nexport declare enum Mode {\n  A = 0\n}\n",
+      "utf8",
+    );
+    await writeFile(
+      join(root, "dist", "extra.d.ts"),
+      "declare class Extra {\n  go(): void;\n}\nexport { Extra as Renamed };\n",
+      "utf8",
+    );
+    await writeFile(join(root, "dist", "cli", "index.d.ts"), "export {};\n", "utf8");
+
+    const surface = await readApiSurface(root, {
+      exports: {
+        ".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+        "./cli": { types: "./dist/cli/index.d.ts", import: "./dist/cli/index.js" },
+        "./plugins/*": { types: "./dist/plugins/*.d.ts", import: "./dist/plugins/*.js" },
+      },
+      name: "surface-pkg",
+    });
+
+    expect(surface.problems).toEqual(["./plugins/*: pattern exports are not compared"]);
+    expect(surface.entrypoints).toEqual([
+      {
+        exportPath: ".",
+        exports: [
+          { kind: "variable", name: "default", signature: "const _default: { run: typeof run }" },
+          { kind: "type", name: "Options", signature: "type Options = { cwd: string; }" },
+          { kind: "reexport", name: "parse", signature: 'parse from "valibot"' },
+          {
+            kind: "interface",
+            name: "Plugin",
+            signature: "interface Plugin { name: string; setup?(): void; }",
+          },
+          { kind: "class", name: "Renamed", signature: "class Extra { go(): void; }" },
+          {
+            kind: "function",
+            name: "run",
+            signature:
+              "function run(options: Options): Promise<void>; function run(name: string): void",
+          },
+          { kind: "namespace", name: "types", signature: "{ Mode, Options }" },
+          { kind: "variable", name: "VERSION", signature: "const VERSION: string" },
+        ],
+        typesPath: "./dist/index.d.ts",
+      },
+      { exportPath: "./cli", exports: [], typesPath: "./dist/cli/index.d.ts" },
+    ]);
+  });
+
+  test("includes the non-exported declarations an export references", async () => {
+    const readSurface = async (optionsBody: string) => {
+      const root = await mkdtemp(join(tmpdir(), "dler-api-surface-"));
+      await mkdir(join(root, "dist"), { recursive: true });
+      await writeFile(
+        join(root, "dist", "index.d.ts"),
+        [
+          "interface Options {",
+          optionsBody,
+          "}",
+          'type Mode = Level | "off";',
+          "interface Unused {}",
+          "export declare function run(options: Options): void;",
+          "export declare function log(level: Level, mode: Mode): void;",
+          'export type Level = "info" | "debug";',
+          "",
+        ].join("\n"),
+        "utf8",
+      );
+
+      return readApiSurface(root, {
+        exports: { ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+        name: "locals-pkg",
+      });
+    };
+
+    const before = await readSurface("  cwd: string;\n  mode: Mode;");
+    const after = await readSurface("  mode: Mode;");
+
+    expect(before.entrypoints[0]?.exports.find((entry) => entry.name === "run")).toEqual({
+      kind: "function",
+      name: "run",
+      signature:
+        'function run(options: Options): void; interface Options { cwd: string; mode: Mode; }; type Mode = Level | "off"',
+    });
+    expect(diffApiSurfaces(before, after).changes).toEqual([
+      {
+        after:
+          'function run(options: Options): void; interface Options { mode: Mode; }; type Mode = Level | "off"',
+        before:
+          'function run(options: Options): void; interface Options { cwd: string; mode: Mode; }; type Mode = Level | "off"',
+        breaking: true,
+        change: "changed",
+        entrypoint: ".",
+        kind: "function",
+        name: "run",
+      },
+    ]);
+  });
+
+  test("reports entrypoints whose declaration files are missing", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-api-surface-"));
+
+    const surface = await readApiSurface(root, {
+      exports: { ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+      name: "missing-pkg",
+    });
+
+    expect(surface).toEqual({ entrypoints: [], problems: [".: missing ./dist/index.d.ts"] });
+  });
+});
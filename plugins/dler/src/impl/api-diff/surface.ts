@@ -0,0 +1,471 @@
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+
+import {
+  discoverPackageEntrypoints,
+  type DeclarEntrypoint,
+  type DeclarPackageJson,
+} from "@reliverse/declar";
+
+import { fileExists } from "../shared-targets";
+
+export type ApiExportKind =
+  | "class"
+  | "enum"
+  | "function"
+  | "interface"
+  | "namespace"
+  | "reexport"
+  | "type"
+  | "unknown"
+  | "variable";
+
+export interface ApiExport {
+  readonly kind: ApiExportKind;
+  readonly name: string;
+  /**
+   * Declaration text without comments or `export`/`declare` modifiers, on one line, followed by
+   * the non-exported declarations of the same file it references.
+   */
+  readonly signature: string;
+}
+
+export interface ApiEntrypoint {
+  /** Package export path such as `.` or `./cli`. */
+  readonly exportPath: string;
+  /** Sorted by name. */
+  readonly exports: readonly ApiExport[];
+  readonly typesPath: string;
+}
+
+export interface ApiSurface {
+  readonly entrypoints: readonly ApiEntrypoint[];
+  /** Entrypoints that could not be read, such as pattern exports or missing declaration files. */
+  readonly problems: readonly string[];
+}
+
+interface LocalDeclaration {
+  readonly kind: ApiExportKind;
+  readonly texts: string[];
+}
+
+type ModuleExport =
+  | { readonly local: string; readonly name: string; readonly type: "local" }
+  | {
+      readonly imported: string;
+      readonly name: string;
+      readonly specifier: string;
+      readonly type: "from";
+    }
+  | { readonly specifier: string; readonly type: "star" };
+
+interface DeclarationModule {
+  readonly declarations: ReadonlyMap<string, LocalDeclaration>;
+  readonly exports: readonly ModuleExport[];
+  /** Local binding -> module and imported name (`*` for namespace imports). */
+  readonly imports: ReadonlyMap<string, { readonly imported: string; readonly specifier: string }>;
+}
+
+const DECLARATION_PATTERN =
+  /^(?:export\s+)?(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:(const\s+enum)|(class|enum|function|interface|let|module|namespace|type|const|var))\b\s*([\w$]*)/;
+const BLOCK_STATEMENT_PATTERN =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:const\s+)?(?:class|enum|global|interface|module|namespace)\b/;
+const LEADING_MODIFIERS_PATTERN = /^(?:(?:export|default|declare)\s+)+/;
+const EXPORT_LIST_PATTERN = /^export\s+(?:type\s+)?\{([^}]*)\}(?:\s*from\s*["']([^"']+)["'])?$/;
+const EXPORT_STAR_PATTERN =
+  /^export\s+(?:type\s+)?\*(?:\s+as\s+([\w$]+))?\s+from\s*["']([^"']+)["']$/;
+const EXPORT_DEFAULT_NAME_PATTERN = /^export\s+default\s+([\w$]+)$/;
+const EXPORT_ASSIGNMENT_PATTERN = /^export\s*=\s*([\w$]+)$/;
+const IMPORT_PATTERN = /^import\s+(?:type\s+)?(.+?)\s+from\s*["']([^"']+)["']$/;
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+const DECLARATION_KINDS: Readonly<Record<string, ApiExportKind>> = {
+  class: "class",
+  const: "variable",
+  enum: "enum",
+  function: "function",
+  interface: "interface",
+  let: "variable",
+  module: "namespace",
+  namespace: "namespace",
+  type: "type",
+  var: "variable",
+};
+
+function selectTypesPath(entrypoint: DeclarEntrypoint): string | undefined {
+  return (
+    entrypoint.typesPath ??
+    entrypoint.importTypesPath ??
+    entrypoint.defaultTypesPath ??
+    entrypoint.requireTypesPath
+  );
+}
+
+/**
+ * Top-level statements of a declaration file without comments. A statement ends at a `;` or,
+ * for classes, interfaces, enums, and namespaces, at the brace that closes the body.
+ */
+function splitStatements(contents: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let depth = 0;
+  let index = 0;
+
+  const flush = () => {
+    const statement = current.replace(/;$/, "").trim();
+    if (statement) {
+      statements.push(statement);
+    }
+    current = "";
+  };
+
+  while (index < contents.length) {
+    const character = contents[index]!;
+    const next = contents[index + 1];
+
+    if (character === "/" && next === "/") {
+      const end = contents.indexOf("\n", index);
+      index = end === -1 ? contents.length : end;
+      continue;
+    }
+
+    if (character === "/" && next === "*") {
+      const end = contents.indexOf("*/", index + 2);
+      index = end === -1 ? contents.length : end + 2;
+      current += " ";
+      continue;
+    }
+
+    if (character === '"' || character === "'" || character === "`") {
+      let end = index + 1;
+      while (end < contents.length && contents[end] !== character) {
+        end += contents[end] === "\\" ? 2 : 1;
+      }
+      current += contents.slice(index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    current += character;
+    index += 1;
+
+    if (character === "{" || character === "(" || character === "[") {
+      depth += 1;
+    } else if (character === "}" || character === ")" || character === "]") {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0 && character === "}" && BLOCK_STATEMENT_PATTERN.test(current.trim())) {
+        flush();
+      }
+    } else if (character === ";" && depth === 0) {
+      flush();
+    }
+  }
+
+  flush();
+  return statements;
+}
+
+function normalizeSignature(text: string): string {
+  return text.replace(LEADING_MODIFIERS_PATTERN, "").replace(/\s+/g, " ").trim();
+}
+
+/** `a`, `b as c`, and `type d` entries of an import or export list. */
+function parseBindingList(list: string): { imported: string; local: string }[] {
+  return list.split(",").flatMap((entry) => {
+    const [imported, local = imported] = entry
+      .trim()
+      .replace(/^type\s+/, "")
+      .split(/\s+as\s+/)
+      .map((part) => part.trim());
+
+    return imported ? [{ imported, local: local! }] : [];
+  });
+}
+
+function parseDeclarationModule(contents: string): DeclarationModule {
+  const declarations = new Map<string, LocalDeclaration>();
+  const exports: ModuleExport[] = [];
+  const imports = new Map<string, { imported: string; specifier: string }>();
+
+  const addDeclaration = (name: string, kind: ApiExportKind, text: string) => {
+    const existing = declarations.get(name);
+    if (existing) {
+      existing.texts.push(text);
+    } else {
+      declarations.set(name, { kind, texts: [text] });
+    }
+  };
+
+  for (const statement of splitStatements(contents)) {
+    const importMatch = IMPORT_PATTERN.exec(statement);
+    if (importMatch) {
+      const [, clause = "", specifier = ""] = importMatch;
+      const namespace = /\*\s+as\s+([\w$]+)/.exec(clause);
+      const named = /\{([^}]*)\}/.exec(clause);
+      const defaultBinding = /^([\w$]+)\s*(?:,|$)/.exec(clause.trim());
+
+      if (namespace) imports.set(namespace[1]!, { imported: "*", specifier });
+      if (defaultBinding) imports.set(defaultBinding[1]!, { imported: "default", specifier });
+      for (const binding of parseBindingList(named?.[1] ?? "")) {
+        imports.set(binding.local, { imported: binding.imported, specifier });
+      }
+      continue;
+    }
+
+    const listMatch = EXPORT_LIST_PATTERN.exec(statement);
+    if (listMatch) {
+      const [, list = "", specifier] = listMatch;
+      for (const binding of parseBindingList(list)) {
+        exports.push(
+          specifier
+            ? { imported: binding.imported, name: binding.local, specifier, type: "from" }
+            : { local: binding.imported, name: binding.local, type: "local" },
+        );
+      }
+      continue;
+    }
+
+    const starMatch = EXPORT_STAR_PATTERN.exec(statement);
+    if (starMatch) {
+      const [, name, specifier = ""] = starMatch;
+      exports.push(
+        name ? { imported: "*", name, specifier, type: "from" } : { specifier, type: "star" },
+      );
+      continue;
+    }
+
+    const aliasMatch =
+      EXPORT_DEFAULT_NAME_PATTERN.exec(statement) ?? EXPORT_ASSIGNMENT_PATTERN.exec(statement);
+    if (aliasMatch) {
+      const name = statement.startsWith("export default") ? "default" : "export=";
+      exports.push({ local: aliasMatch[1]!, name, type: "local" });
+      continue;
+    }
+
+    const declarationMatch = DECLARATION_PATTERN.exec(statement);
+    if (!declarationMatch) {
+      continue;
+    }
+
+    const [, isDefault, constEnum, keyword = "", declaredName = ""] = declarationMatch;
+    const kind = constEnum ? "enum" : (DECLARATION_KINDS[keyword] ?? "unknown");
+    const name = declaredName || (isDefault ? "default" : "");
+    if (!name) {
+      continue;
+    }
+
+    addDeclaration(name, kind, statement);
+
+    if (isDefault) {
+      exports.push({ local: name, name: "default", type: "local" });
+    } else if (statement.startsWith("export ")) {
+      exports.push({ local: name, name, type: "local" });
+    }
+  }
+
+  return { declarations, exports, imports };
+}
+
+/**
+ * Non-exported declarations of the module that `local` references, directly or through each
+ * other, in the order they are first referenced. Exported ones are compared under their own name.
+ */
+function referencedLocals(module: DeclarationModule, local: string): string[] {
+  const exported = new Set(
+    module.exports.flatMap((entry) => (entry.type === "local" ? [entry.local] : [])),
+  );
+  const queue = [local];
+  const seen = new Set(queue);
+
+  for (const current of queue) {
+    const texts = module.declarations.get(current)!.texts;
+
+    for (const identifier of texts.join(" ").match(IDENTIFIER_PATTERN) ?? []) {
+      if (
+        !seen.has(identifier) &&
+        !exported.has(identifier) &&
+        module.declarations.has(identifier)
+      ) {
+        seen.add(identifier);
+        queue.push(identifier);
+      }
+    }
+  }
+
+  return queue.slice(1);
+}
+
+function declarationCandidates(fromFile: string, specifier: string): string[] {
+  const base = resolve(dirname(fromFile), specifier);
+  const withoutExtension = base.replace(/\.(?:[cm]?js|[cm]?ts)$/, "");
+  const declarationExtension = base.endsWith(".mjs")
+    ? ".d.mts"
+    : base.endsWith(".cjs")
+      ? ".d.cts"
+      : ".d.ts";
+
+  return base.endsWith(".d.ts") || base.endsWith(".d.mts") || base.endsWith(".d.cts")
+    ? [base]
+    : [`${withoutExtension}${declarationExtension}`, `${base}.d.ts`, join(base, "index.d.ts")];
+}
+
+/** Reads declaration files once each and resolves exports across `export ... from` chains. */
+class DeclarationGraph {
+  private readonly modules = new Map<string, Promise<DeclarationModule | undefined>>();
+  private readonly resolving = new Set<string>();
+
+  private load(path: string): Promise<DeclarationModule | undefined> {
+    let loaded = this.modules.get(path);
+    if (!loaded) {
+      loaded = readFile(path, "utf8").then(parseDeclarationModule, () => undefined);
+      this.modules.set(path, loaded);
+    }
+
+    return loaded;
+  }
+
+  private async resolveSpecifier(fromFile: string, specifier: string): Promise<string | undefined> {
+    if (!specifier.startsWith(".") && !specifier.startsWith("/")) {
+      return undefined;
+    }
+
+    for (const candidate of declarationCandidates(fromFile, specifier)) {
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async describeImported(
+    fromFile: string,
+    name: string,
+    imported: string,
+    specifier: string,
+  ): Promise<ApiExport> {
+    const path = await this.resolveSpecifier(fromFile, specifier);
+    const unresolved: ApiExport = {
+      kind: "reexport",
+      name,
+      signature: `${imported} from "${specifier}"`,
+    };
+
+    if (!path) {
+      return unresolved;
+    }
+
+    const exports = await this.readExports(path);
+    if (imported === "*") {
+      return {
+        kind: "namespace",
+        name,
+        signature: `{ ${exports.map((entry) => entry.name).join(", ")} }`,
+      };
+    }
+
+    const target = exports.find((entry) => entry.name === imported);
+    return target ? { ...target, name } : unresolved;
+  }
+
+  private async describeLocal(
+    path: string,
+    module: DeclarationModule,
+    name: string,
+    local: string,
+  ): Promise<ApiExport> {
+    const declaration = module.declarations.get(local);
+    if (declaration) {
+      return {
+        kind: declaration.kind,
+        name,
+        signature: [local, ...referencedLocals(module, local)]
+          .flatMap((referenced) => module.declarations.get(referenced)!.texts)
+          .map(normalizeSignature)
+          .join("; "),
+      };
+    }
+
+    const binding = module.imports.get(local);
+    return binding
+      ? this.describeImported(path, name, binding.imported, binding.specifier)
+      : { kind: "unknown", name, signature: "" };
+  }
+
+  /** Exports of the declaration file at `path`, sorted by name; empty when it cannot be read. */
+  async readExports(path: string): Promise<ApiExport[]> {
+    const module = await this.load(path);
+    if (!module || this.resolving.has(path)) {
+      return [];
+    }
+
+    this.resolving.add(path);
+    try {
+      const exports = new Map<string, ApiExport>();
+
+      for (const entry of module.exports) {
+        if (entry.type === "local") {
+          exports.set(entry.name, await this.describeLocal(path, module, entry.name, entry.local));
+        } else if (entry.type === "from") {
+          exports.set(
+            entry.name,
+            await this.describeImported(path, entry.name, entry.imported, entry.specifier),
+          );
+        } else {
+          const target = await this.resolveSpecifier(path, entry.specifier);
+          const starred = target
+            ? await this.readExports(target)
+            : [{ kind: "reexport" as const, name: `* from "${entry.specifier}"`, signature: "" }];
+
+          for (const starredExport of starred) {
+            // Explicit exports win over `export *`, which never re-exports `default`.
+            if (starredExport.name !== "default" && !exports.has(starredExport.name)) {
+              exports.set(starredExport.name, starredExport);
+            }
+          }
+        }
+      }
+
+      return [...exports.values()].sort((left, right) => left.name.localeCompare(right.name));
+    } finally {
+      this.resolving.delete(path);
+    }
+  }
+}
+
+/**
+ * Reads the exports of every declaration file the package's `exports` (or legacy `types`)
+ * resolve to, relative to `packageDir`, following relative `export ... from` chains. Nothing is
+ * type-checked: re-exports from dependencies stay unresolved and signatures compare as written.
+ */
+export async function readApiSurface(
+  packageDir: string,
+  packageJson: DeclarPackageJson,
+): Promise<ApiSurface> {
+  const discovery = discoverPackageEntrypoints(packageJson);
+  const problems = discovery.diagnostics
+    .filter((diagnostic) => diagnostic.severity === "error")
+    .map((diagnostic) => diagnostic.message);
+  const graph = new DeclarationGraph();
+  const entrypoints: ApiEntrypoint[] = [];
+
+  for (const entrypoint of discovery.entrypoints) {
+    const typesPath = selectTypesPath(entrypoint);
+
+    if (entrypoint.kind === "pattern") {
+      problems.push(`${entrypoint.exportPath}: pattern exports are not compared`);
+    } else if (!typesPath) {
+      problems.push(`${entrypoint.exportPath}: no types condition`);
+    } else if (!(await fileExists(resolve(packageDir, typesPath)))) {
+      problems.push(`${entrypoint.exportPath}: missing ${typesPath}`);
+    } else {
+      entrypoints.push({
+        exportPath: entrypoint.exportPath,
+        exports: await graph.readExports(resolve(packageDir, typesPath)),
+        typesPath,
+      });
+    }
+  }
+
+  return { entrypoints, problems };
+}
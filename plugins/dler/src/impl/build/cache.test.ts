@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createBuildCache, pruneBuildCache, readBuildCacheEntries } from "./cache";
+import type { BuildTarget } from "./provider/types";
+import { createBuilderRuntime } from "./run-build-plan";
+
+async function createCachedWorkspace() {
+  const root = await mkdtemp(join(tmpdir(), "dler-build-cache-"));
+  const cwd = join(root, "packages", "demo");
+  await mkdir(join(cwd, "src"), { recursive: true });
+  await writeFile(join(cwd, "package.json"), '{"name":"demo"}\n', "utf8");
+  await writeFile(join(cwd, "src", "index.ts"), "export const demo = 1;\n", "utf8");
+  await writeFile(join(root, "tsconfig.base.json"), '{"compilerOptions":{"strict":true}}\n');
+  await writeFile(join(cwd, "tsconfig.json"), '{"extends":"../../tsconfig.base.json"}\n');
+
+  const target: BuildTarget = {
+    bundleStrategy: "single",
+    command: ["bun", "build", "./src/index.ts"],
+    cwd,
+    declarationStrategy: "emit",
+    label: "packages/demo",
+    runDeclarations: true,
+  };
+
+  return { cwd, root, target };
+}
+
+describe("build cache", () => {
+  test("keys change with sources, tsconfig chain, strategies, and dependency keys", async () => {
+    const { cwd, root, target } = await createCachedWorkspace();
+    const cache = createBuildCache({ workspaceRoot: root });
+    const keyOf = (value: BuildTarget = target, dependencyKeys: string[] = []) =>
+      cache.computeKey(value, { dependencyKeys, provider: "bun" });
+    const initial = await keyOf();
+
+    await mkdir(join(cwd, "dist"), { recursive: true });
+    await writeFile(join(cwd, "dist", "index.js"), "built\n", "utf8");
+    expect(await keyOf()).toBe(initial);
+
+    expect(await keyOf({ ...target, declarationStrategy: "fast" })).not.toBe(initial);
+    expect(await keyOf({ ...target, bundleStrategy: "split" })).not.toBe(initial);
+    expect(await keyOf(target, ["upstream"])).not.toBe(initial);
+
+    await writeFile(join(root, "tsconfig.base.json"), '{"compilerOptions":{"strict":false}}\n');
+    const afterTsconfig = await keyOf();
+    expect(afterTsconfig).not.toBe(initial);
+
+    await writeFile(join(cwd, "src", "index.ts"), "export const demo = 2;\n", "utf8");
+    expect(await keyOf()).not.toBe(afterTsconfig);
+  });
+
+  test("keys include transitive workspace dependencies that are not in the plan", async () => {
+    const { root, target } = await createCachedWorkspace();
+    const helpers = join(root, "packages", "helpers");
+    const core = join(root, "packages", "core");
+    await mkdir(join(helpers, "src"), { recursive: true });
+    await mkdir(join(core, "src"), { recursive: true });
+    await writeFile(join(helpers, "src", "index.ts"), "export const helper = 1;\n", "utf8");
+    await writeFile(join(core, "src", "index.ts"), "export const core = 1;\n", "utf8");
+    await writeFile(
+      join(root, "bun.lock"),
+      `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "root" },
+    "packages/core": { "name": "@demo/core" },
+    "packages/demo": { "name": "demo", "dependencies": { "@demo/helpers": "workspace:*" } },
+    "packages/helpers": { "name": "@demo/helpers", "dependencies": { "@demo/core": "workspace:*" } },
+  },
+  "packages": {},
+}
+`,
+      "utf8",
+    );
+
+    const cache = createBuildCache({ workspaceRoot: root });
+    const keyOf = () => cache.computeKey(target, { dependencyKeys: [], provider: "bun" });
+    const initial = await keyOf();
+
+    await writeFile(join(helpers, "src", "index.ts"), "export const helper = 2;\n", "utf8");
+    const afterHelpers = await keyOf();
+    expect(afterHelpers).not.toBe(initial);
+
+    await writeFile(join(core, "src", "index.ts"), "export const core = 2;\n", "utf8");
+    expect(await keyOf()).not.toBe(afterHelpers);
+  });
+
+  test("restores dist for unchanged targets and reports cached results", async () => {
+    const { cwd, root, target } = await createCachedWorkspace();
+    let builds = 0;
+    const runtime = createBuilderRuntime({
+      providers: [
+        {
+          id: "bun",
+          async buildTarget(buildTarget) {
+            builds += 1;
+            await mkdir(join(buildTarget.cwd, "dist"), { recursive: true });
+            await writeFile(join(buildTarget.cwd, "dist", "index.js"), `build ${builds}\n`);
+
+            return {
+              cwd: buildTarget.cwd,
+              durationMs: 1,
+              exitCode: 0,
+              label: buildTarget.label ?? buildTarget.cwd,
+              ok: true,
+              provider: "bun",
+              stderr: "",
+              stdout: "",
+            };
+          },
+        },
+      ],
+    });
+    const run = (cache = createBuildCache({ workspaceRoot: root })) =>
+      runtime.run({ cache, targets: [target] });
+
+    expect((await run()).targets[0]?.cached).toBe(false);
+    await writeFile(join(cwd, "dist", "index.js"), "stale\n", "utf8");
+
+    const second = await run();
+    expect(second.targets[0]).toMatchObject({ cached: true, ok: true });
+    expect(builds).toBe(1);
+    expect(await readFile(join(cwd, "dist", "index.js"), "utf8")).toBe("build 1\n");
+
+    await writeFile(join(cwd, "src", "index.ts"), "export const demo = 3;\n", "utf8");
+    expect((await run()).targets[0]?.cached).toBe(false);
+    expect(builds).toBe(2);
+
+    const entries = await readBuildCacheEntries(join(root, ".cache", "dler", "build"));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ files: 1, label: "packages/demo", sizeBytes: 8 });
+  });
+
+  test("prunes stale entries but keeps the latest entry per package", async () => {
+    const { cwd, root, target } = await createCachedWorkspace();
+    await mkdir(join(cwd, "dist"), { recursive: true });
+    await writeFile(join(cwd, "dist", "index.js"), "built\n", "utf8");
+
+    const old = createBuildCache({ now: () => new Date("2026-01-01"), workspaceRoot: root });
+    const recent = createBuildCache({ now: () => new Date("2026-01-20"), workspaceRoot: root });
+    await old.save("old-a", target);
+    await old.save("old-b", { ...target, label: "packages/other" });
+    await recent.save("recent-a", target);
+
+    const options = { maxAgeDays: 7, now: new Date("2026-01-21") };
+    const preview = await pruneBuildCache(old.directory, { ...options, apply: false });
+    expect(preview.removed.map((entry) => entry.key)).toEqual(["old-a"]);
+    expect(await readBuildCacheEntries(old.directory)).toHaveLength(3);
+
+    await pruneBuildCache(old.directory, { ...options, apply: true });
+    expect((await readBuildCacheEntries(old.directory)).map((entry) => entry.key)).toEqual([
+      "recent-a",
+      "old-b",
+    ]);
+
+    await pruneBuildCache(old.directory, { ...options, all: true, apply: true });
+    expect(await readBuildCacheEntries(old.directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,409 @@
+import { createHash } from "node:crypto";
+import { cp, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+import { parse as parseJsonc } from "jsonc-parser";
+
+import { DLER_BUILD_CACHE_DEFAULTS } from "../constants";
+import { fileExists, pathIsDirectory } from "../shared-targets";
+import type { BuildTarget } from "./provider/types";
+
+export interface BuildCacheEntry {
+  readonly createdAt: string;
+  readonly files: number;
+  readonly key: string;
+  readonly label: string;
+  readonly lastUsedAt: string;
+  readonly sizeBytes: number;
+}
+
+export interface BuildCache {
+  /** Absolute cache directory, usually `<workspace>/.cache/dler/build`. */
+  readonly directory: string;
+  computeKey(
+    target: BuildTarget,
+    options: { readonly dependencyKeys: readonly string[]; readonly provider: string },
+  ): Promise<string>;
+  /** Replaces the target's `dist` with the cached copy. Returns false on a cache miss. */
+  restore(key: string, target: BuildTarget): Promise<boolean>;
+  save(key: string, target: BuildTarget): Promise<BuildCacheEntry | null>;
+}
+
+export interface BuildCachePruneResult {
+  readonly kept: readonly BuildCacheEntry[];
+  readonly removed: readonly BuildCacheEntry[];
+}
+
+const CACHE_KEY_VERSION = "dler-build-cache:1";
+
+const ENTRY_FILE_NAME = "entry.json";
+
+const OUTPUT_DIR_NAME = "dist";
+
+const IGNORED_SOURCE_SEGMENTS = new Set([
+  ".cache",
+  ".git",
+  ".turbo",
+  OUTPUT_DIR_NAME,
+  "node_modules",
+]);
+
+const LOCKFILE_DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
+
+const requireFromHere = createRequire(import.meta.url);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toPosixPath(path: string): string {
+  return path.split(sep).join("/");
+}
+
+function hashBuffer(buffer: Uint8Array | string): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/** False for build outputs, dependencies, and tool caches inside a target directory. */
+export function isBuildSourcePath(relativePath: string): boolean {
+  return !toPosixPath(relativePath)
+    .split("/")
+    .some((segment) => IGNORED_SOURCE_SEGMENTS.has(segment));
+}
+
+/** Target-relative POSIX paths of every file that feeds a build, sorted. */
+export async function listBuildSourceFiles(cwd: string): Promise<string[]> {
+  const files: string[] = [];
+  const glob = new Bun.Glob("**/*");
+
+  for await (const match of glob.scan({ cwd, dot: true, onlyFiles: true })) {
+    if (isBuildSourcePath(match)) {
+      files.push(toPosixPath(match));
+    }
+  }
+
+  return files.sort();
+}
+
+function resolveExtendsPath(baseDirectory: string, value: string): string | null {
+  try {
+    if (value.startsWith("./") || value.startsWith("../") || isAbsolute(value)) {
+      const resolved = resolve(baseDirectory, value);
+      return extname(resolved) ? resolved : `${resolved}.json`;
+    }
+
+    return requireFromHere.resolve(value, { paths: [baseDirectory] });
+  } catch {
+    return null;
+  }
+}
+
+/** Absolute paths of the target tsconfig and every config it extends. */
+async function readTsconfigChain(cwd: string): Promise<string[]> {
+  const chain: string[] = [];
+  const queue = [join(cwd, "tsconfig.json")];
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (chain.includes(path) || !(await fileExists(path))) {
+      continue;
+    }
+
+    chain.push(path);
+    const parsed = parseJsonc(await readFile(path, "utf8")) as unknown;
+    const extendsValue = isRecord(parsed) ? parsed.extends : undefined;
+    const parents = Array.isArray(extendsValue) ? extendsValue : [extendsValue];
+
+    for (const parent of parents) {
+      const parentPath =
+        typeof parent === "string" ? resolveExtendsPath(dirname(path), parent) : null;
+      if (parentPath) {
+        queue.push(parentPath);
+      }
+    }
+  }
+
+  return chain;
+}
+
+async function readLockfile(workspaceRoot: string): Promise<Record<string, unknown> | null> {
+  const lockfilePath = join(workspaceRoot, "bun.lock");
+  if (!(await fileExists(lockfilePath))) {
+    return null;
+  }
+
+  const lockfile = parseJsonc(await readFile(lockfilePath, "utf8")) as unknown;
+  return isRecord(lockfile) && isRecord(lockfile.workspaces) ? lockfile : null;
+}
+
+/**
+ * The target's `bun.lock` workspace entry plus the resolved package entries it depends on,
+ * so a dependency bump invalidates only the packages that use it.
+ */
+function readLockfileEntry(lockfile: Record<string, unknown> | null, workspacePath: string) {
+  const workspaces = isRecord(lockfile?.workspaces) ? lockfile.workspaces : {};
+  const workspace = workspaces[workspacePath];
+  if (!isRecord(workspace)) {
+    return null;
+  }
+
+  const packages = isRecord(lockfile?.packages) ? lockfile.packages : {};
+  const resolved: Record<string, unknown> = {};
+
+  for (const field of LOCKFILE_DEPENDENCY_FIELDS) {
+    const dependencies = workspace[field];
+    if (!isRecord(dependencies)) {
+      continue;
+    }
+
+    for (const name of Object.keys(dependencies).sort()) {
+      resolved[name] = packages[name] ?? null;
+    }
+  }
+
+  return { packages: resolved, workspace };
+}
+
+/**
+ * Workspace paths of every package the target reaches through workspace dependencies in
+ * `bun.lock`, sorted. Bun bundles these sources, so they belong in the key whether or not
+ * they are built in the same run.
+ */
+function readWorkspaceDependencyPaths(
+  lockfile: Record<string, unknown> | null,
+  workspacePath: string,
+): string[] {
+  const workspaces = isRecord(lockfile?.workspaces) ? lockfile.workspaces : {};
+  const pathsByName = new Map<string, string>();
+
+  for (const [path, workspace] of Object.entries(workspaces)) {
+    if (isRecord(workspace) && typeof workspace.name === "string") {
+      pathsByName.set(workspace.name, path);
+    }
+  }
+
+  const visited = new Set([workspacePath]);
+  const queue = [workspacePath];
+
+  while (queue.length > 0) {
+    const workspace = workspaces[queue.shift()!];
+    if (!isRecord(workspace)) {
+      continue;
+    }
+
+    for (const field of LOCKFILE_DEPENDENCY_FIELDS) {
+      const dependencies = workspace[field];
+      if (!isRecord(dependencies)) {
+        continue;
+      }
+
+      for (const name of Object.keys(dependencies)) {
+        const path = pathsByName.get(name);
+        if (path !== undefined && !visited.has(path)) {
+          visited.add(path);
+          queue.push(path);
+        }
+      }
+    }
+  }
+
+  visited.delete(workspacePath);
+  return [...visited].sort();
+}
+
+async function readEntry(directory: string): Promise<BuildCacheEntry | null> {
+  try {
+    const entry = JSON.parse(await readFile(join(directory, ENTRY_FILE_NAME), "utf8")) as unknown;
+    return isRecord(entry) && typeof entry.key === "string"
+      ? (entry as unknown as BuildCacheEntry)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function measureDirectory(
+  directory: string,
+): Promise<{ readonly files: number; readonly sizeBytes: number }> {
+  let files = 0;
+  let sizeBytes = 0;
+
+  for (const entry of await readdir(directory, { recursive: true, withFileTypes: true })) {
+    if (entry.isFile()) {
+      files += 1;
+      sizeBytes += (await stat(join(entry.parentPath, entry.name))).size;
+    }
+  }
+
+  return { files, sizeBytes };
+}
+
+export function resolveBuildCacheDirectory(workspaceRoot: string): string {
+  return resolve(workspaceRoot, DLER_BUILD_CACHE_DEFAULTS.directory);
+}
+
+export function createBuildCache(options: {
+  readonly now?: (() => Date) | undefined;
+  readonly workspaceRoot: string;
+}): BuildCache {
+  const directory = resolveBuildCacheDirectory(options.workspaceRoot);
+  const now = options.now ?? (() => new Date());
+
+  return {
+    directory,
+    async computeKey(target, keyOptions) {
+      const hash = createHash("sha256");
+      const update = (label: string, value: unknown) => {
+        hash.update(`${label}\0${JSON.stringify(value)}\0`);
+      };
+
+      update("version", CACHE_KEY_VERSION);
+      update("provider", keyOptions.provider);
+      update("command", target.command);
+      update("strategies", {
+        bundle: target.bundleStrategy ?? null,
+        declarations: target.runDeclarations ? (target.declarationStrategy ?? "emit") : "off",
+      });
+
+      const lockfile = await readLockfile(options.workspaceRoot);
+      const workspacePath = toPosixPath(relative(options.workspaceRoot, target.cwd));
+      const hashWorkspace = async (label: string, cwd: string) => {
+        for (const file of await listBuildSourceFiles(cwd)) {
+          update(`${label}source`, [file, hashBuffer(await readFile(join(cwd, file)))]);
+        }
+
+        for (const path of await readTsconfigChain(cwd)) {
+          update(`${label}tsconfig`, [
+            toPosixPath(relative(options.workspaceRoot, path)),
+            hashBuffer(await readFile(path)),
+          ]);
+        }
+      };
+
+      await hashWorkspace("", target.cwd);
+      update("lockfile", readLockfileEntry(lockfile, workspacePath));
+
+      for (const path of readWorkspaceDependencyPaths(lockfile, workspacePath)) {
+        update("workspaceDependency", path);
+        await hashWorkspace("workspaceDependency:", join(options.workspaceRoot, path));
+        update("workspaceDependency:lockfile", readLockfileEntry(lockfile, path));
+      }
+
+      update("dependencies", [...keyOptions.dependencyKeys].sort());
+
+      return hash.digest("hex");
+    },
+    async restore(key, target) {
+      const entryDirectory = join(directory, key);
+      const entry = await readEntry(entryDirectory);
+      const cachedOutput = join(entryDirectory, OUTPUT_DIR_NAME);
+
+      if (!entry || !(await pathIsDirectory(cachedOutput))) {
+        return false;
+      }
+
+      const outputDirectory = join(target.cwd, OUTPUT_DIR_NAME);
+      await rm(outputDirectory, { force: true, recursive: true });
+      await cp(cachedOutput, outputDirectory, { recursive: true });
+      await writeFile(
+        join(entryDirectory, ENTRY_FILE_NAME),
+        `${JSON.stringify({ ...entry, lastUsedAt: now().toISOString() }, null, 2)}\n`,
+        "utf8",
+      );
+
+      return true;
+    },
+    async save(key, target) {
+      const outputDirectory = join(target.cwd, OUTPUT_DIR_NAME);
+      if (!(await pathIsDirectory(outputDirectory))) {
+        return null;
+      }
+
+      const entryDirectory = join(directory, key);
+      await rm(entryDirectory, { force: true, recursive: true });
+      await mkdir(entryDirectory, { recursive: true });
+      await cp(outputDirectory, join(entryDirectory, OUTPUT_DIR_NAME), { recursive: true });
+
+      const timestamp = now().toISOString();
+      const entry: BuildCacheEntry = {
+        createdAt: timestamp,
+        key,
+        label: target.label ?? target.cwd,
+        lastUsedAt: timestamp,
+        ...(await measureDirectory(join(entryDirectory, OUTPUT_DIR_NAME))),
+      };
+      await writeFile(
+        join(entryDirectory, ENTRY_FILE_NAME),
+        `${JSON.stringify(entry, null, 2)}\n`,
+        "utf8",
+      );
+
+      return entry;
+    },
+  };
+}
+
+export async function readBuildCacheEntries(directory: string): Promise<BuildCacheEntry[]> {
+  if (!(await pathIsDirectory(directory))) {
+    return [];
+  }
+
+  const entries: BuildCacheEntry[] = [];
+
+  for (const child of await readdir(directory, { withFileTypes: true })) {
+    const entry = child.isDirectory() ? await readEntry(join(directory, child.name)) : null;
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  return entries.sort(
+    (left, right) =>
+      left.label.localeCompare(right.label) || right.lastUsedAt.localeCompare(left.lastUsedAt),
+  );
+}
+
+/**
+ * Selects entries unused for longer than `maxAgeDays`, or every entry with `all`. The most
+ * recently used entry of each package is always kept unless `all` is set.
+ */
+export async function pruneBuildCache(
+  directory: string,
+  options: {
+    readonly all?: boolean | undefined;
+    readonly apply: boolean;
+    readonly maxAgeDays: number;
+    readonly now?: Date | undefined;
+  },
+): Promise<BuildCachePruneResult> {
+  const entries = await readBuildCacheEntries(directory);
+  const cutoff = (options.now ?? new Date()).getTime() - options.maxAgeDays * 24 * 60 * 60 * 1000;
+  const latestByLabel = new Set<string>();
+  const kept: BuildCacheEntry[] = [];
+  const removed: BuildCacheEntry[] = [];
+
+  for (const entry of entries) {
+    const isLatest = !latestByLabel.has(entry.label);
+    latestByLabel.add(entry.label);
+
+    if (options.all || (!isLatest && Date.parse(entry.lastUsedAt) < cutoff)) {
+      removed.push(entry);
+    } else {
+      kept.push(entry);
+    }
+  }
+
+  if (options.apply) {
+    for (const entry of removed) {
+      await rm(join(directory, entry.key), { force: true, recursive: true });
+    }
+  }
+
+  return { kept, removed };
+}
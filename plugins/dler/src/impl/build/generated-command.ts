@@ -3,3 +3,15 @@ export interface BuildCommandInvocation {
   readonly bundleStrategy?: "single" | "split" | undefined;
   readonly display: string;
 }
+
+/** A generated bundle build, independent of the bundler that runs it. */
+export interface BundleCommandSpec {
+  readonly bundleStrategy: "single" | "split";
+  readonly entrypoints: readonly string[];
+  readonly externals: readonly string[];
+  /** Common source root to preserve in split output, such as `./src`. */
+  readonly root?: string | undefined;
+  readonly targetRuntime: "bun" | "node";
+}
+
+export type BundleCommandRenderer = (spec: BundleCommandSpec) => BuildCommandInvocation;
@@ -1,6 +1,26 @@
+export {
+  createBuildCache,
+  isBuildSourcePath,
+  listBuildSourceFiles,
+  pruneBuildCache,
+  readBuildCacheEntries,
+  resolveBuildCacheDirectory,
+  type BuildCache,
+  type BuildCacheEntry,
+  type BuildCachePruneResult,
+} from "./cache";
 export { createBunBuildProvider } from "./provider/bun";
+export { createCommandBuildProvider } from "./provider/command";
+export { createEsbuildBuildProvider, renderEsbuildBuildCommand } from "./provider/esbuild";
+export { createTsdownBuildProvider, renderTsdownBuildCommand } from "./provider/tsdown";
 export { createBuildProviderRegistry, type BuildProviderRegistry } from "./provider-registry";
-export { createBuildPlan, type DlerBuildPlan, type PlannedBuildTarget } from "./plan";
+export {
+  createBuildPlan,
+  resolveConfiguredBuildProvider,
+  type DlerBuildPlan,
+  type PlannedBuildTarget,
+} from "./plan";
+export { loadPluginBuildProviders, type BuildProviderPluginSource } from "./plugin-providers";
 export {
   resolvePackageBuildCommand,
   explainMissingPackageBuildCommand,
@@ -13,3 +33,10 @@ export {
   type BuilderRuntime,
   type CreateBuilderRuntimeOptions,
 } from "./run-build-plan";
+export {
+  readExportSurface,
+  selectRebuildTargets,
+  watchBuildTargets,
+  type BuildWatcher,
+  type BuildWatchRebuild,
+} from "./watch";
@@ -1,12 +1,18 @@
 import { readFile } from "node:fs/promises";
 
 import { fileExists, type RequestedTarget } from "../shared-targets";
-import type { BuildCommandInvocation } from "./generated-command";
+import type {
+  BuildCommandInvocation,
+  BundleCommandRenderer,
+  BundleCommandSpec,
+} from "./generated-command";
 
 export type BunBundleStrategy = "auto" | "single" | "split";
 
 export interface ResolvePackageBuildCommandOptions {
   readonly bundleStrategy?: BunBundleStrategy | undefined;
+  /** Turns generated bundle builds into a command. Defaults to `bun build`. */
+  readonly renderCommand?: BundleCommandRenderer | undefined;
 }
 
 interface MinimalPackageJson {
@@ -223,24 +229,15 @@ function resolveExternalPackages(facts: BuildShapeFacts, targetRuntime: "bun" |
   return uniqueSorted([...peerAndOptionalDependencies, ...selectedRuntimeDependencies]);
 }
 
-function createExternalArgs(externalPackages: readonly string[]): string[] {
-  return externalPackages.flatMap((name) => ["--external", name]);
-}
-
-function createBunBuildInvocation(
-  entrypoints: readonly string[],
-  targetRuntime: "bun" | "node",
-  bundleStrategy: BunBundleStrategy,
-  externalPackages: readonly string[] = [],
-): BuildCommandInvocation {
-  const externalArgs = createExternalArgs(externalPackages);
+export function renderBunBuildCommand(spec: BundleCommandSpec): BuildCommandInvocation {
+  const externalArgs = spec.externals.flatMap((name) => ["--external", name]);
   const externalDisplay =
-    externalPackages.length > 0
-      ? ` ${externalPackages.map((name) => `--external ${name}`).join(" ")}`
+    spec.externals.length > 0
+      ? ` ${spec.externals.map((name) => `--external ${name}`).join(" ")}`
       : "";
 
-  if (bundleStrategy === "single") {
-    const [entrypoint] = entrypoints;
+  if (spec.bundleStrategy === "single") {
+    const [entrypoint] = spec.entrypoints;
     if (!entrypoint) {
       throw new Error("Cannot create a single-file Bun build without an entrypoint.");
     }
@@ -253,36 +250,62 @@ function createBunBuildInvocation(
         "--outfile",
         "./dist/index.js",
         "--target",
-        targetRuntime,
+        spec.targetRuntime,
         ...externalArgs,
       ],
       bundleStrategy: "single",
-      display: `bun build ${entrypoint} --outfile ./dist/index.js --target ${targetRuntime}${externalDisplay}`,
+      display: `bun build ${entrypoint} --outfile ./dist/index.js --target ${spec.targetRuntime}${externalDisplay}`,
     };
   }
 
-  const rootArgs =
-    entrypoints.length > 1 && entrypoints.every((entrypoint) => entrypoint.startsWith("./src/"))
-      ? ["--root", "./src"]
-      : [];
+  const rootArgs = spec.root ? ["--root", spec.root] : [];
 
   return {
     argv: [
       "bun",
       "build",
-      ...entrypoints,
+      ...spec.entrypoints,
       "--outdir",
       "./dist",
       "--target",
-      targetRuntime,
+      spec.targetRuntime,
       ...externalArgs,
       ...rootArgs,
     ],
     bundleStrategy: "split",
-    display: `bun build ${entrypoints.join(" ")} --outdir ./dist --target ${targetRuntime}${externalDisplay}${rootArgs.length > 0 ? " --root ./src" : ""}`,
+    display: `bun build ${spec.entrypoints.join(" ")} --outdir ./dist --target ${spec.targetRuntime}${externalDisplay}${spec.root ? ` --root ${spec.root}` : ""}`,
+  };
+}
+
+function createBundleSpec(
+  entrypoints: readonly string[],
+  targetRuntime: "bun" | "node",
+  bundleStrategy: BunBundleStrategy,
+  externals: readonly string[] = [],
+): BundleCommandSpec {
+  const resolvedStrategy = bundleStrategy === "single" ? "single" : "split";
+
+  return {
+    bundleStrategy: resolvedStrategy,
+    entrypoints,
+    externals,
+    root:
+      resolvedStrategy === "split" &&
+      entrypoints.length > 1 &&
+      entrypoints.every((entrypoint) => entrypoint.startsWith("./src/"))
+        ? "./src"
+        : undefined,
+    targetRuntime,
   };
 }
 
+function createBundleInvocation(
+  renderCommand: BundleCommandRenderer,
+  ...spec: Parameters<typeof createBundleSpec>
+): BuildCommandInvocation {
+  return renderCommand(createBundleSpec(...spec));
+}
+
 function isPluginTarget(label: string): boolean {
   return label.startsWith("plugins/");
 }
@@ -362,6 +385,7 @@ async function resolveConfigDrivenBuild(
 async function resolvePluginOrCliBuild(
   facts: BuildShapeFacts,
   bundleStrategy: BunBundleStrategy,
+  renderCommand: BundleCommandRenderer,
 ): Promise<BuildCommandInvocation | null> {
   if (facts.srcCliExists) {
     const entrypoints =
@@ -369,7 +393,8 @@ async function resolvePluginOrCliBuild(
         ? facts.manifestEntrypoints
         : ["./src/cli.ts"];
 
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       entrypoints,
       "bun",
       bundleStrategy,
@@ -381,7 +406,8 @@ async function resolvePluginOrCliBuild(
     const entrypoints =
       bundleStrategy === "split" ? await listCommandEntrypoints(facts.cwd) : ["./src/index.ts"];
 
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       entrypoints,
       "bun",
       bundleStrategy,
@@ -395,6 +421,7 @@ async function resolvePluginOrCliBuild(
 function resolvePackageLibraryBuild(
   facts: BuildShapeFacts,
   bundleStrategy: BunBundleStrategy,
+  renderCommand: BundleCommandRenderer,
 ): BuildCommandInvocation | null {
   if (!isPackageTarget(facts.label)) {
     return null;
@@ -408,7 +435,8 @@ function resolvePackageLibraryBuild(
           ? facts.manifestEntrypoints
           : ["./src/index.ts"];
 
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       entrypoints,
       "node",
       bundleStrategy,
@@ -424,7 +452,8 @@ function resolvePackageLibraryBuild(
           ? facts.manifestEntrypoints
           : [facts.packageRootIndexPath];
 
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       entrypoints,
       "node",
       bundleStrategy,
@@ -433,7 +462,8 @@ function resolvePackageLibraryBuild(
   }
 
   if (facts.manifestEntrypoints.length > 0) {
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       bundleStrategy === "single" ? [facts.manifestEntrypoints[0]!] : facts.manifestEntrypoints,
       "node",
       bundleStrategy,
@@ -447,9 +477,11 @@ function resolvePackageLibraryBuild(
 function resolveGenericSourceBuild(
   facts: BuildShapeFacts,
   bundleStrategy: BunBundleStrategy,
+  renderCommand: BundleCommandRenderer,
 ): BuildCommandInvocation | null {
   if (facts.srcIndexExists) {
-    return createBunBuildInvocation(
+    return createBundleInvocation(
+      renderCommand,
       ["./src/index.ts"],
       "bun",
       bundleStrategy,
@@ -504,10 +536,12 @@ export async function resolvePackageBuildCommand(
       ? options.bundleStrategy
       : resolveAutoBundleStrategy(facts);
 
+  const renderCommand = options.renderCommand ?? renderBunBuildCommand;
+
   return (
     (await resolveConfigDrivenBuild(facts)) ??
-    (await resolvePluginOrCliBuild(facts, bundleStrategy)) ??
-    resolvePackageLibraryBuild(facts, bundleStrategy) ??
-    resolveGenericSourceBuild(facts, bundleStrategy)
+    (await resolvePluginOrCliBuild(facts, bundleStrategy, renderCommand)) ??
+    resolvePackageLibraryBuild(facts, bundleStrategy, renderCommand) ??
+    resolveGenericSourceBuild(facts, bundleStrategy, renderCommand)
   );
 }
@@ -4,7 +4,11 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { resolveRequestedTargets } from "../shared-targets";
-import { createBuildPlan } from "./plan";
+import { createBuildPlan, resolveConfiguredBuildProvider } from "./plan";
+import { createBuildProviderRegistry } from "./provider-registry";
+import { createBunBuildProvider } from "./provider/bun";
+import { createEsbuildBuildProvider } from "./provider/esbuild";
+import { createTsdownBuildProvider } from "./provider/tsdown";
 
 describe("build plan", () => {
   test("creates a plan with package commands and in-process declarations", async () => {
@@ -147,4 +151,99 @@ describe("build plan", () => {
     ]);
     expect(plan.plannedTargets.map((target) => target.label)).toEqual(["packages/ok"]);
   });
+
+  test("records workspace dependencies and rejects dependency cycles", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-plan-"));
+    const writePackage = async (label: string, manifest: Record<string, unknown>) => {
+      await mkdir(join(root, label, "src"), { recursive: true });
+      await writeFile(join(root, label, "package.json"), JSON.stringify(manifest), "utf8");
+      await writeFile(join(root, label, "src", "index.ts"), "export const value = 1;\n", "utf8");
+      return { cwd: join(root, label), label };
+    };
+    const app = await writePackage("apps/app", {
+      name: "app",
+      dependencies: { core: "workspace:*" },
+    });
+    const core = await writePackage("packages/core", { name: "core" });
+
+    const plan = await createBuildPlan({ provider: "bun", targets: [app, core] });
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.plannedTargets.map((target) => [target.label, target.dependsOn])).toEqual([
+      ["apps/app", ["packages/core"]],
+      ["packages/core", []],
+    ]);
+    expect(plan.executionTargets[0]?.dependsOn).toEqual(["packages/core"]);
+
+    await writeFile(
+      join(core.cwd, "package.json"),
+      JSON.stringify({ name: "core", devDependencies: { app: "workspace:*" } }),
+      "utf8",
+    );
+    const cyclic = await createBuildPlan({ provider: "bun", targets: [app, core] });
+
+    expect(cyclic.errors).toEqual(["dependency cycle: apps/app -> packages/core -> apps/app"]);
+  });
+
+  test("picks per-package providers from config and renders their generated commands", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-plan-"));
+    const targets = [];
+
+    for (const label of ["plugins/alpha", "plugins/beta", "packages/gamma"]) {
+      await mkdir(join(root, label, "src"), { recursive: true });
+      await writeFile(join(root, label, "package.json"), `{"name":"${label}"}\n`, "utf8");
+      await writeFile(join(root, label, "src", "index.ts"), "export const value = 1;\n", "utf8");
+      targets.push({ cwd: join(root, label), label });
+    }
+
+    const providerByTarget = { "plugins/*": "tsdown", "plugins/beta": "esbuild" };
+    const plan = await createBuildPlan({
+      provider: "bun",
+      providerByTarget,
+      providers: createBuildProviderRegistry({
+        providers: [
+          createBunBuildProvider(),
+          createTsdownBuildProvider(),
+          createEsbuildBuildProvider(),
+        ],
+      }),
+      targets,
+    });
+
+    expect(resolveConfiguredBuildProvider("plugins/beta", providerByTarget)).toBe("esbuild");
+    expect(resolveConfiguredBuildProvider("packages/gamma", providerByTarget)).toBeUndefined();
+    expect(plan.errors).toEqual([]);
+    expect(
+      plan.executionTargets.map((target) => [target.label, target.provider, target.displayCommand]),
+    ).toEqual([
+      [
+        "plugins/alpha",
+        "tsdown",
+        "bun x tsdown ./src/index.ts --out-dir ./dist --format esm --platform node --no-dts --no-clean",
+      ],
+      [
+        "plugins/beta",
+        "esbuild",
+        "bun x esbuild ./src/index.ts --bundle --format=esm --platform=node --outfile=./dist/index.js --external:bun --external:bun:*",
+      ],
+      ["packages/gamma", "bun", "bun build ./src/index.ts --outdir ./dist --target node"],
+    ]);
+  });
+
+  test("reports providers that are not registered as plan errors", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-plan-"));
+    const pkgDir = join(root, "plugins", "demo");
+    await mkdir(join(pkgDir, "src"), { recursive: true });
+    await writeFile(join(pkgDir, "package.json"), '{"name":"demo"}\n', "utf8");
+    await writeFile(join(pkgDir, "src", "index.ts"), "export const demo = 1;\n", "utf8");
+
+    const plan = await createBuildPlan({
+      provider: "bun",
+      providerByTarget: { "plugins/demo": "rollup" },
+      providers: createBuildProviderRegistry({ providers: [createBunBuildProvider()] }),
+      targets: [{ cwd: pkgDir, label: "plugins/demo" }],
+    });
+
+    expect(plan.errors).toEqual(['unknown build provider "rollup"']);
+  });
 });
@@ -1,17 +1,24 @@
+import { formatDependencyCycle, readWorkspaceDependencyGraph } from "../dependency-graph";
 import type { RequestedTarget, SkippedTarget } from "../shared-targets";
 import type { DlerDeclarationStrategy } from "./declaration-layer";
 import type { BunBundleStrategy } from "./package-build-command";
+import type { BuildProviderRegistry } from "./provider-registry";
 import type { BuildTarget } from "./provider/types";
 import { resolveBuildableTargets, type BuildableTarget } from "./validation";
 
 export interface PlannedBuildTarget {
   readonly cwd: string;
+  /** Labels of planned targets that must build first. */
+  readonly dependsOn: readonly string[];
   readonly label: string;
   readonly manifestPath: string;
   readonly packageCommand: BuildableTarget["packageCommand"];
+  readonly provider: string;
 }
 
 export interface DlerBuildPlan {
+  /** Fatal problems, such as dependency cycles, that make the plan impossible to run. */
+  readonly errors: readonly string[];
   readonly executionTargets: readonly BuildTarget[];
   readonly plannedTargets: readonly PlannedBuildTarget[];
   readonly provider: string;
@@ -23,34 +30,77 @@ function toExecutionTarget(
   declarationStrategy: DlerDeclarationStrategy,
 ): BuildTarget {
   return {
+    bundleStrategy: target.packageCommand.bundleStrategy,
     command: target.packageCommand.argv,
     cwd: target.cwd,
     declarationStrategy,
+    dependsOn: target.dependsOn,
     displayCommand: target.packageCommand.display,
     label: target.label,
+    provider: target.provider,
     runDeclarations: declarationStrategy !== "off",
   };
 }
 
+/**
+ * The provider configured for `label` in `dler.buildProviders`: an exact label key wins over
+ * glob keys such as `plugins/*`, which are tried in config order.
+ */
+export function resolveConfiguredBuildProvider(
+  label: string,
+  providerByTarget: Readonly<Record<string, string>>,
+): string | undefined {
+  if (Object.hasOwn(providerByTarget, label)) {
+    return providerByTarget[label];
+  }
+
+  for (const [pattern, provider] of Object.entries(providerByTarget)) {
+    if (new Bun.Glob(pattern).match(label)) {
+      return provider;
+    }
+  }
+
+  return undefined;
+}
+
 export async function createBuildPlan(options: {
   readonly bundleStrategy?: BunBundleStrategy | undefined;
   readonly declarationStrategy?: DlerDeclarationStrategy | undefined;
   readonly provider: string;
+  /** Per-package provider ids by workspace label or glob, from `dler.buildProviders`. */
+  readonly providerByTarget?: Readonly<Record<string, string>> | undefined;
+  /** Known providers. Without it, provider ids are not checked and commands render for Bun. */
+  readonly providers?: BuildProviderRegistry | undefined;
   readonly targets: readonly RequestedTarget[];
 }): Promise<DlerBuildPlan> {
   const declarationStrategy = options.declarationStrategy ?? "emit";
+  const providerOf = (label: string) =>
+    (options.providerByTarget && resolveConfiguredBuildProvider(label, options.providerByTarget)) ??
+    options.provider;
+  const errors = [
+    ...new Set(
+      [options.provider, ...options.targets.map((target) => providerOf(target.label))].filter(
+        (provider) => options.providers && !options.providers.get(provider),
+      ),
+    ),
+  ].map((provider) => `unknown build provider "${provider}"`);
   const validation = await resolveBuildableTargets({
     bundleStrategy: options.bundleStrategy,
+    renderCommandFor: (target) => options.providers?.get(providerOf(target.label))?.renderCommand,
     targets: options.targets,
   });
+  const graph = await readWorkspaceDependencyGraph(validation.buildable);
   const plannedTargets: PlannedBuildTarget[] = validation.buildable.map((target) => ({
     cwd: target.cwd,
+    dependsOn: graph.dependencies.get(target.label) ?? [],
     label: target.label,
     manifestPath: target.manifestPath,
     packageCommand: target.packageCommand,
+    provider: providerOf(target.label),
   }));
 
   return {
+    errors: [...errors, ...graph.cycles.map(formatDependencyCycle)],
     executionTargets: plannedTargets.map((target) =>
       toExecutionTarget(target, declarationStrategy),
     ),
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { loadPluginBuildProviders } from "./plugin-providers";
+
+describe("plugin build providers", () => {
+  test("loads providers declared in provides and exported as dlerBuildProviders", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-plugin-providers-"));
+    const entry = join(root, "plugin.ts");
+    await writeFile(
+      entry,
+      [
+        "export const dlerBuildProviders = [",
+        "  {",
+        '    id: "rollup",',
+        "    async buildTarget(target) {",
+        '      return { cwd: target.cwd, durationMs: 0, exitCode: 0, label: "x", ok: true, provider: "rollup", stderr: "", stdout: "" };',
+        "    },",
+        "  },",
+        "];",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    const result = await loadPluginBuildProviders([
+      {
+        entry: pathToFileURL(entry).href,
+        pluginName: "rollup-plugin",
+        provides: ["build", "dler-build-provider:rollup", "dler-build-provider:swc"],
+      },
+      { entry: "file:///does-not-matter.ts", pluginName: "other-plugin", provides: ["lint"] },
+    ]);
+
+    expect(result.providers.map((provider) => provider.id)).toEqual(["rollup"]);
+    expect(result.errors).toEqual([
+      'rollup-plugin: declares build provider "swc" but does not export it from dlerBuildProviders.',
+    ]);
+  });
+
+  test("reports plugins whose entry cannot be imported", async () => {
+    const result = await loadPluginBuildProviders([
+      {
+        entry: pathToFileURL(join(tmpdir(), "dler-missing-plugin", "index.ts")).href,
+        pluginName: "broken-plugin",
+        provides: ["dler-build-provider:broken"],
+      },
+    ]);
+
+    expect(result.providers).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toStartWith("broken-plugin: failed to load build providers:");
+  });
+});
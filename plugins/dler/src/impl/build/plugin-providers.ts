@@ -0,0 +1,70 @@
+import { DLER_BUILD_PROVIDER_CAPABILITY_PREFIX } from "../constants";
+import type { BuildProvider } from "./provider/types";
+
+/** The parts of a rempts `PluginDiscoveryLoadedPlugin` needed to find contributed providers. */
+export interface BuildProviderPluginSource {
+  readonly entry: string;
+  readonly pluginName: string;
+  readonly provides?: readonly string[] | undefined;
+}
+
+function isBuildProvider(value: unknown): value is BuildProvider {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    typeof (value as BuildProvider).id === "string" &&
+    typeof (value as BuildProvider).buildTarget === "function"
+  );
+}
+
+/**
+ * Loads build providers that other rse plugins declare through `provides:
+ * ["dler-build-provider:<id>"]` and export from their entry module as `dlerBuildProviders`.
+ * A declared provider that the module does not export is reported instead of thrown, so one
+ * broken plugin does not block builds that never select it.
+ */
+export async function loadPluginBuildProviders(
+  plugins: readonly BuildProviderPluginSource[],
+): Promise<{
+  readonly errors: readonly string[];
+  readonly providers: readonly BuildProvider[];
+}> {
+  const errors: string[] = [];
+  const providers: BuildProvider[] = [];
+
+  for (const plugin of plugins) {
+    const declaredIds = (plugin.provides ?? [])
+      .filter((entry) => entry.startsWith(DLER_BUILD_PROVIDER_CAPABILITY_PREFIX))
+      .map((entry) => entry.slice(DLER_BUILD_PROVIDER_CAPABILITY_PREFIX.length));
+
+    if (declaredIds.length === 0) {
+      continue;
+    }
+
+    let exported: unknown;
+    try {
+      exported = ((await import(plugin.entry)) as { dlerBuildProviders?: unknown })
+        .dlerBuildProviders;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${plugin.pluginName}: failed to load build providers: ${message}`);
+      continue;
+    }
+
+    const candidates = Array.isArray(exported) ? exported.filter(isBuildProvider) : [];
+
+    for (const id of declaredIds) {
+      const provider = candidates.find((candidate) => candidate.id === id);
+
+      if (provider) {
+        providers.push(provider);
+      } else {
+        errors.push(
+          `${plugin.pluginName}: declares build provider "${id}" but does not export it from dlerBuildProviders.`,
+        );
+      }
+    }
+  }
+
+  return { errors, providers };
+}
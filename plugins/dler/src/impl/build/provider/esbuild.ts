@@ -0,0 +1,33 @@
+import type { BuildCommandInvocation, BundleCommandSpec } from "../generated-command";
+import { createCommandBuildProvider } from "./command";
+import type { BuildProvider } from "./types";
+
+// Bun runtime targets run on the node platform with Bun's own modules left external.
+const BUN_RUNTIME_EXTERNALS = ["bun", "bun:*"] as const;
+
+/** `bun x esbuild` with bundled ESM output in `./dist`, mirroring the generated Bun build. */
+export function renderEsbuildBuildCommand(spec: BundleCommandSpec): BuildCommandInvocation {
+  const single = spec.bundleStrategy === "single";
+  const externals = [
+    ...(spec.targetRuntime === "bun" ? BUN_RUNTIME_EXTERNALS : []),
+    ...spec.externals,
+  ];
+  const argv = [
+    "bun",
+    "x",
+    "esbuild",
+    ...(single ? spec.entrypoints.slice(0, 1) : spec.entrypoints),
+    "--bundle",
+    "--format=esm",
+    "--platform=node",
+    single ? "--outfile=./dist/index.js" : "--outdir=./dist",
+    ...(!single && spec.root ? [`--outbase=${spec.root}`] : []),
+    ...externals.map((name) => `--external:${name}`),
+  ];
+
+  return { argv, bundleStrategy: spec.bundleStrategy, display: argv.join(" ") };
+}
+
+export function createEsbuildBuildProvider(): BuildProvider {
+  return createCommandBuildProvider({ id: "esbuild", renderCommand: renderEsbuildBuildCommand });
+}
@@ -0,0 +1,34 @@
+import type { BuildCommandInvocation, BundleCommandSpec } from "../generated-command";
+import { createCommandBuildProvider } from "./command";
+import type { BuildProvider } from "./types";
+
+/**
+ * `bun x tsdown` with ESM output in `./dist`. tsdown names each output after its entry, so a
+ * single-bundle `./src/index.ts` build emits `dist/index.js`. Declarations stay with Declar, and
+ * `--no-clean` leaves cleaning `dist` to dler so JS-only rebuilds keep emitted `.d.ts` files.
+ */
+export function renderTsdownBuildCommand(spec: BundleCommandSpec): BuildCommandInvocation {
+  const entrypoints =
+    spec.bundleStrategy === "single" ? spec.entrypoints.slice(0, 1) : spec.entrypoints;
+  const argv = [
+    "bun",
+    "x",
+    "tsdown",
+    ...entrypoints,
+    "--out-dir",
+    "./dist",
+    "--format",
+    "esm",
+    "--platform",
+    "node",
+    "--no-dts",
+    "--no-clean",
+    ...spec.externals.flatMap((name) => ["--external", name]),
+  ];
+
+  return { argv, bundleStrategy: spec.bundleStrategy, display: argv.join(" ") };
+}
+
+export function createTsdownBuildProvider(): BuildProvider {
+  return createCommandBuildProvider({ id: "tsdown", renderCommand: renderTsdownBuildCommand });
+}
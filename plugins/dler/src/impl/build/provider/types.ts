@@ -1,13 +1,23 @@
+import type { SkippedTarget } from "../../shared-targets";
+import type { BundleCommandRenderer } from "../generated-command";
+
 export interface BuildTarget {
+  readonly bundleStrategy?: "single" | "split" | undefined;
   readonly command: readonly string[];
   readonly cwd: string;
   readonly declarationStrategy?: "emit" | "fast" | "off" | "rollup" | undefined;
+  /** Labels of other targets in the same plan that must build successfully first. */
+  readonly dependsOn?: readonly string[] | undefined;
   readonly displayCommand?: string | undefined;
   readonly label?: string | undefined;
+  /** Provider id for this target when it differs from the plan-wide provider. */
+  readonly provider?: string | undefined;
   readonly runDeclarations?: boolean | undefined;
 }
 
 export interface BuildTargetResult {
+  /** True when `dist` was restored from the build cache instead of rebuilt. */
+  readonly cached?: boolean | undefined;
   readonly cwd: string;
   readonly durationMs: number;
   readonly exitCode: number;
@@ -21,6 +31,8 @@ export interface BuildTargetResult {
 export interface BuildReport {
   readonly ok: boolean;
   readonly provider: string;
+  /** Targets that did not run because a dependency failed. */
+  readonly skipped: readonly SkippedTarget[];
   readonly targets: readonly BuildTargetResult[];
   readonly totalDurationMs: number;
 }
@@ -28,4 +40,9 @@ export interface BuildReport {
 export interface BuildProvider {
   readonly id: string;
   buildTarget(target: BuildTarget): Promise<BuildTargetResult>;
+  /**
+   * Renders generated bundle builds for this provider's bundler. Providers without it run the
+   * default `bun build` command; config-driven package builds (tsdown/vite configs) are kept as is.
+   */
+  readonly renderCommand?: BundleCommandRenderer | undefined;
 }
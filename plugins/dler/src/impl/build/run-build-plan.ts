@@ -1,8 +1,11 @@
-import { mapWithConcurrency } from "../concurrency";
+import { runDependencyGraph } from "../dependency-graph";
+import type { BuildCache } from "./cache";
 import { createBuildProviderRegistry } from "./provider-registry";
 import type { BuildProvider, BuildReport, BuildTarget } from "./provider/types";
 
 export interface BuildPlan {
+  /** Restores unchanged targets from this cache and stores fresh successful builds in it. */
+  readonly cache?: BuildCache | undefined;
   readonly concurrency?: number | undefined;
   readonly provider?: string | undefined;
   readonly targets: readonly BuildTarget[];
@@ -25,36 +28,73 @@ export function createBuilderRuntime(options: CreateBuilderRuntimeOptions): Buil
     defaultProvider: registry.defaultProvider,
     async run(plan) {
       const providerId = plan.provider ?? registry.defaultProvider;
-      const provider = registry.get(providerId);
+      const providerOf = (target: BuildTarget): BuildProvider => {
+        const id = target.provider ?? providerId;
+        const provider = registry.get(id);
 
-      if (!provider) {
-        throw new Error(`Unknown build provider "${providerId}".`);
+        if (!provider) {
+          throw new Error(`Unknown build provider "${id}".`);
+        }
+
+        return provider;
+      };
+
+      // Fail before anything builds when a target names a provider that is not registered.
+      for (const target of plan.targets) {
+        providerOf(target);
       }
 
       const startedAt = performance.now();
-      const concurrency = plan.concurrency ?? 1;
-      const results = [];
+      const cache = plan.cache;
+      const cacheKeys = new Map<string, string>();
+      const { results, skipped } = await runDependencyGraph(
+        plan.targets.map((target) => ({
+          dependsOn: target.dependsOn ?? [],
+          label: target.label ?? target.cwd,
+          target,
+        })),
+        Math.max(1, plan.concurrency ?? 1),
+        async (node) => {
+          const provider = providerOf(node.target);
+
+          if (!cache) {
+            return provider.buildTarget(node.target);
+          }
 
-      if (concurrency <= 1) {
-        for (const target of plan.targets) {
-          const result = await provider.buildTarget(target);
-          results.push(result);
+          const targetStartedAt = performance.now();
+          const key = await cache.computeKey(node.target, {
+            dependencyKeys: node.dependsOn.flatMap((label) => cacheKeys.get(label) ?? []),
+            provider: provider.id,
+          });
+          cacheKeys.set(node.label, key);
 
-          if (!result.ok) {
-            break;
+          if (await cache.restore(key, node.target)) {
+            return {
+              cached: true,
+              cwd: node.target.cwd,
+              durationMs: Math.round(performance.now() - targetStartedAt),
+              exitCode: 0,
+              label: node.label,
+              ok: true,
+              provider: provider.id,
+              stderr: "",
+              stdout: `Restored dist from build cache ${key.slice(0, 12)}.\n`,
+            };
           }
-        }
-      } else {
-        results.push(
-          ...(await mapWithConcurrency(plan.targets, concurrency, async (target) =>
-            provider.buildTarget(target),
-          )),
-        );
-      }
+
+          const result = await provider.buildTarget(node.target);
+          if (result.ok) {
+            await cache.save(key, node.target);
+          }
+
+          return { ...result, cached: false };
+        },
+      );
 
       return {
-        ok: results.every((result) => result.ok),
+        ok: results.every((result) => result.ok) && skipped.length === 0,
         provider: providerId,
+        skipped,
         targets: results,
         totalDurationMs: Math.round(performance.now() - startedAt),
       };
@@ -3,7 +3,7 @@ import { resolve } from "node:path";
 
 import { fileExists, type RequestedTarget, type SkippedTarget } from "../shared-targets";
 import { getWorkspacePackageIgnoreReason } from "../workspace-package-policy";
-import type { BuildCommandInvocation } from "./generated-command";
+import type { BuildCommandInvocation, BundleCommandRenderer } from "./generated-command";
 import {
   explainMissingPackageBuildCommand,
   resolvePackageBuildCommand,
@@ -17,6 +17,10 @@ export interface BuildableTarget extends RequestedTarget {
 
 export async function resolveBuildableTargets(options: {
   readonly bundleStrategy?: BunBundleStrategy | undefined;
+  /** Picks the generated-command renderer of the provider that will build `target`. */
+  readonly renderCommandFor?:
+    | ((target: RequestedTarget) => BundleCommandRenderer | undefined)
+    | undefined;
   readonly targets: readonly RequestedTarget[];
 }): Promise<{
   readonly buildable: readonly BuildableTarget[];
@@ -48,6 +52,7 @@ export async function resolveBuildableTargets(options: {
 
     const packageCommand = await resolvePackageBuildCommand(target, {
       bundleStrategy: options.bundleStrategy,
+      renderCommand: options.renderCommandFor?.(target),
     });
     if (!packageCommand) {
       skipped.push({
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { BuildTarget } from "./provider/types";
+import { createBuilderRuntime } from "./run-build-plan";
+import { readExportSurface, selectRebuildTargets, watchBuildTargets } from "./watch";
+import type { BuildWatchRebuild } from "./watch";
+
+describe("readExportSurface", () => {
+  test("ignores function bodies but keeps signatures and type blocks", () => {
+    const source = [
+      'import { x } from "./x";',
+      "export interface Options {",
+      "  readonly name: string;",
+      "}",
+      "export function run(",
+      "  options: Options,",
+      "): number {",
+      "  return 1;",
+      "}",
+      "export type Mode =",
+      '  | "a"',
+      '  | "b";',
+      "const internal = 1;",
+    ].join("\n");
+    const surface = readExportSurface(source);
+
+    expect(readExportSurface(source.replace("return 1;", "return 2;"))).toBe(surface);
+    expect(readExportSurface(source.replace("const internal = 1;", ""))).toBe(surface);
+    expect(readExportSurface(source.replace("name: string", "name: number"))).not.toBe(surface);
+    expect(readExportSurface(source.replace("options: Options", "options?: Options"))).not.toBe(
+      surface,
+    );
+    expect(readExportSurface(source.replace('| "b";', '| "c";'))).not.toBe(surface);
+  });
+
+  test("keeps local type declarations that exported signatures reference", () => {
+    const source = [
+      "interface Options {",
+      "  a: string;",
+      "}",
+      'type Mode = "a" | "b";',
+      "export function run(options: Options, mode: Mode): void {",
+      "  void options;",
+      "}",
+    ].join("\n");
+    const surface = readExportSurface(source);
+
+    expect(
+      readExportSurface(source.replace("  a: string;", "  a: string;\n  b: number;")),
+    ).not.toBe(surface);
+    expect(readExportSurface(source.replace('"a" | "b"', '"a"'))).not.toBe(surface);
+    expect(readExportSurface(source.replace("void options;", "void mode;"))).toBe(surface);
+  });
+
+  test("keeps the bodies of exports whose type is inferred", () => {
+    const config = "export const config = {\n  a: 1,\n};\n";
+    const inferred = "export function f() {\n  return 1;\n}\nconst internal = 1;\n";
+    const annotated = "export const config: Config = {\n  a: 1,\n};\n";
+
+    expect(readExportSurface(config.replace("a: 1,", 'a: "x",\n  b: 2,'))).not.toBe(
+      readExportSurface(config),
+    );
+    expect(readExportSurface(inferred.replace("return 1;", 'return "s";'))).not.toBe(
+      readExportSurface(inferred),
+    );
+    expect(readExportSurface(inferred.replace("const internal = 1;", ""))).toBe(
+      readExportSurface(inferred),
+    );
+    expect(readExportSurface(annotated.replace("a: 1,", "a: 2,"))).toBe(
+      readExportSurface(annotated),
+    );
+  });
+});
+
+describe("selectRebuildTargets", () => {
+  test("adds transitive dependents in plan order", () => {
+    const targets: BuildTarget[] = [
+      { command: [], cwd: "/core", label: "core" },
+      { command: [], cwd: "/plugin", dependsOn: ["core"], label: "plugin" },
+      { command: [], cwd: "/app", dependsOn: ["plugin"], label: "app" },
+      { command: [], cwd: "/docs", label: "docs" },
+    ];
+
+    expect(selectRebuildTargets(targets, ["core"]).map((target) => target.label)).toEqual([
+      "core",
+      "plugin",
+      "app",
+    ]);
+    expect(selectRebuildTargets(targets, ["docs"]).map((target) => target.label)).toEqual(["docs"]);
+  });
+});
+
+describe("watchBuildTargets", () => {
+  test("rebuilds the changed target and its dependents, with declarations only on export changes", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-build-watch-"));
+    const targets: BuildTarget[] = [];
+
+    for (const [name, dependsOn] of [
+      ["core", []],
+      ["app", ["core"]],
+      ["docs", []],
+    ] as const) {
+      await mkdir(join(root, name, "src"), { recursive: true });
+      await writeFile(
+        join(root, name, "src", "index.ts"),
+        "export function value(): number {\n  return 1;\n}\n",
+      );
+      targets.push({
+        command: [],
+        cwd: join(root, name),
+        dependsOn,
+        label: name,
+        runDeclarations: true,
+      });
+    }
+
+    const built: Array<{ declarations: boolean | undefined; label: string }> = [];
+    const runtime = createBuilderRuntime({
+      providers: [
+        {
+          id: "bun",
+          async buildTarget(target) {
+            built.push({ declarations: target.runDeclarations, label: target.label! });
+            await mkdir(join(target.cwd, "dist"), { recursive: true });
+            await writeFile(join(target.cwd, "dist", "index.js"), "built\n");
+
+            return {
+              cwd: target.cwd,
+              durationMs: 1,
+              exitCode: target.label === "app" ? 1 : 0,
+              label: target.label!,
+              ok: target.label !== "app",
+              provider: "bun",
+              stderr: "",
+              stdout: "",
+            };
+          },
+        },
+      ],
+    });
+    const rebuilds: BuildWatchRebuild[] = [];
+    let notify = () => {};
+    const watcher = await watchBuildTargets({
+      debounceMs: 20,
+      onRebuild(rebuild) {
+        rebuilds.push(rebuild);
+        notify();
+      },
+      runtime,
+      targets,
+    });
+    const nextRebuild = () =>
+      new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+
+    try {
+      let rebuilt = nextRebuild();
+      await writeFile(
+        join(root, "core", "src", "index.ts"),
+        "export function value(): number {\n  return 2;\n}\n",
+      );
+      await rebuilt;
+
+      expect(rebuilds[0]).toMatchObject({
+        changedFiles: ["core/src/index.ts"],
+        changedTargets: ["core"],
+        declarations: false,
+      });
+      expect(rebuilds[0]?.report.ok).toBe(false);
+      expect(built).toEqual([
+        { declarations: false, label: "core" },
+        { declarations: false, label: "app" },
+      ]);
+
+      rebuilt = nextRebuild();
+      await writeFile(join(root, "docs", "src", "index.ts"), "export const other = 1;\n");
+      await rebuilt;
+
+      expect(rebuilds[1]).toMatchObject({ changedTargets: ["docs"], declarations: true });
+      expect(built.slice(2)).toEqual([{ declarations: true, label: "docs" }]);
+    } finally {
+      watcher.close();
+      await watcher.closed;
+    }
+  });
+});
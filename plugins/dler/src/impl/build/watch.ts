@@ -0,0 +1,285 @@
+import { watch, type FSWatcher } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+
+import { DLER_BUILD_WATCH_DEFAULTS } from "../constants";
+import { isBuildSourcePath, listBuildSourceFiles } from "./cache";
+import type { BuildReport, BuildTarget } from "./provider/types";
+import type { BuilderRuntime } from "./run-build-plan";
+
+export interface BuildWatchRebuild {
+  /** Changed files as `<label>/<path>`, sorted. */
+  readonly changedFiles: readonly string[];
+  /** Labels of the targets whose files changed; the rest of the report are their dependents. */
+  readonly changedTargets: readonly string[];
+  /** Whether the Declar declaration layer ran, i.e. some export surface or manifest changed. */
+  readonly declarations: boolean;
+  readonly report: BuildReport;
+}
+
+export interface BuildWatcher {
+  close(): void;
+  /** Resolves once the watcher is closed and any in-flight rebuild has finished. */
+  readonly closed: Promise<void>;
+}
+
+const TYPESCRIPT_SOURCE_PATTERN = /\.(?:c|m)?tsx?$/;
+
+// Exported declarations whose whole body is part of the public type surface.
+const EXPORT_BLOCK_PATTERN =
+  /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:class|enum|interface|namespace|type)\b|^export\s+(?:type\s+)?\{/;
+
+// Local type declarations, which exported signatures may reference by name.
+const LOCAL_TYPE_BLOCK_PATTERN = /^(?:declare\s+)?(?:const\s+)?(?:enum|interface|type)\s+[\w$]/;
+
+// Exported functions and variables whose declared type does not depend on their body.
+const ANNOTATED_EXPORT_PATTERN =
+  /^export\s+(?:default\s+)?declare\b|^export\s+(?:default\s+)?(?:async\s+)?function\b[\s\S]*\)\s*:|^export\s+(?:const|let|var)\s+[\w$]+\s*:/;
+
+function pushSurfaceLine(surface: string[], line: string): void {
+  if (line.trim().length > 0) {
+    surface.push(line.trim());
+  }
+}
+
+/**
+ * Top-level export lines of a TypeScript module: full class, interface, type, enum, and
+ * re-export blocks, but only the signature of exported functions and variables with an explicit
+ * type annotation. Edits to annotated function bodies therefore keep the same surface and skip
+ * declaration output; unannotated exports keep their whole body, since it decides the inferred
+ * type. Non-exported interface, type, and enum blocks count too, because exported signatures
+ * that name them are emitted with them.
+ */
+export function readExportSurface(source: string): string {
+  const surface: string[] = [];
+  let header: string[] = [];
+  let mode: "block" | "body" | "header" | "none" = "none";
+
+  // Once an export header ends, an unannotated declaration keeps collecting its body.
+  const afterHeader = (line: string): "body" | "none" =>
+    !ANNOTATED_EXPORT_PATTERN.test(header.join("\n")) && !line.endsWith(";") ? "body" : "none";
+
+  for (const rawLine of source.split("\n")) {
+    const line = rawLine.trimEnd();
+
+    if (mode === "block") {
+      if (line.length > 0 && !/^\s/.test(line) && !/^[}\])]/.test(line)) {
+        mode = "none";
+      } else {
+        pushSurfaceLine(surface, line);
+        if (/^[}\])]/.test(line)) {
+          mode = "none";
+        }
+        continue;
+      }
+    }
+
+    if (mode === "body") {
+      if (line.length > 0 && !/^\s/.test(line) && !/^[}\])]/.test(line)) {
+        mode = "none";
+      } else {
+        pushSurfaceLine(surface, line);
+        continue;
+      }
+    }
+
+    if (mode === "header") {
+      pushSurfaceLine(surface, line);
+      header.push(line);
+      if (line.length === 0 || /[{;]$/.test(line)) {
+        mode = afterHeader(line);
+      }
+      continue;
+    }
+
+    const localTypeBlock = LOCAL_TYPE_BLOCK_PATTERN.test(line);
+    if (!line.startsWith("export") && !localTypeBlock) {
+      continue;
+    }
+
+    surface.push(line);
+    if (localTypeBlock || EXPORT_BLOCK_PATTERN.test(line)) {
+      mode = /;$/.test(line) || /\}[^{]*$/.test(line) ? "none" : "block";
+      continue;
+    }
+
+    header = [line];
+    if (/[{;]$/.test(line)) {
+      mode = afterHeader(line);
+    } else {
+      mode = "header";
+    }
+  }
+
+  return surface.join("\n");
+}
+
+/** The changed targets plus every target that depends on one of them, in plan order. */
+export function selectRebuildTargets(
+  targets: readonly BuildTarget[],
+  changedLabels: readonly string[],
+): BuildTarget[] {
+  const selected = new Set(changedLabels);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+
+    for (const target of targets) {
+      const label = target.label ?? target.cwd;
+      if (
+        !selected.has(label) &&
+        target.dependsOn?.some((dependency) => selected.has(dependency))
+      ) {
+        selected.add(label);
+        grew = true;
+      }
+    }
+  }
+
+  return targets.filter((target) => selected.has(target.label ?? target.cwd));
+}
+
+async function readSurface(path: string): Promise<string> {
+  try {
+    return readExportSurface(await readFile(path, "utf8"));
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Watches each target's source tree and rebuilds changed targets and their dependents after
+ * `debounceMs` of quiet. Changes during a rebuild are batched into the next one. Rebuilds
+ * bypass the build cache and skip declarations unless an export surface changed.
+ */
+export async function watchBuildTargets(options: {
+  readonly concurrency?: number | undefined;
+  readonly debounceMs?: number | undefined;
+  readonly onError?: ((error: unknown) => void) | undefined;
+  readonly onRebuild: (rebuild: BuildWatchRebuild) => void | Promise<void>;
+  readonly provider?: string | undefined;
+  readonly runtime: BuilderRuntime;
+  readonly targets: readonly BuildTarget[];
+}): Promise<BuildWatcher> {
+  const debounceMs = options.debounceMs ?? DLER_BUILD_WATCH_DEFAULTS.debounceMs;
+  const surfaces = new Map<string, string>();
+
+  for (const target of options.targets) {
+    for (const file of await listBuildSourceFiles(target.cwd)) {
+      if (TYPESCRIPT_SOURCE_PATTERN.test(file)) {
+        const path = join(target.cwd, file);
+        surfaces.set(path, await readSurface(path));
+      }
+    }
+  }
+
+  let pending = new Map<string, Set<string>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | undefined;
+  let closed = false;
+  let resolveClosed!: () => void;
+  const closedPromise = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const exportsChanged = async (batch: ReadonlyMap<string, ReadonlySet<string>>) => {
+    let changed = false;
+
+    for (const [label, files] of batch) {
+      const target = options.targets.find(
+        (candidate) => (candidate.label ?? candidate.cwd) === label,
+      );
+
+      for (const file of files) {
+        // "." stands for a change the watcher could not attribute to a file.
+        if (!target || file === "." || basename(file) === "package.json") {
+          changed = true;
+        } else if (TYPESCRIPT_SOURCE_PATTERN.test(file)) {
+          const path = join(target.cwd, file);
+          const surface = await readSurface(path);
+          changed ||= surfaces.get(path) !== surface;
+          surfaces.set(path, surface);
+        }
+      }
+    }
+
+    return changed;
+  };
+
+  const rebuild = async (): Promise<void> => {
+    const batch = pending;
+    pending = new Map();
+
+    try {
+      const declarations = await exportsChanged(batch);
+      const report = await options.runtime.run({
+        concurrency: options.concurrency,
+        provider: options.provider,
+        targets: selectRebuildTargets(options.targets, [...batch.keys()]).map((target) => ({
+          ...target,
+          runDeclarations: target.runDeclarations === true && declarations,
+        })),
+      });
+
+      await options.onRebuild({
+        changedFiles: [...batch]
+          .flatMap(([label, files]) => [...files].map((file) => `${label}/${file}`))
+          .sort(),
+        changedTargets: [...batch.keys()],
+        declarations,
+        report,
+      });
+    } catch (error: unknown) {
+      options.onError?.(error);
+    }
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      if (running || closed) {
+        return;
+      }
+
+      running = rebuild().finally(() => {
+        running = undefined;
+        if (pending.size > 0 && !closed) {
+          schedule();
+        }
+      });
+    }, debounceMs);
+  };
+
+  const watchers: FSWatcher[] = options.targets.map((target) =>
+    watch(target.cwd, { recursive: true }, (_event, filename) => {
+      const file = filename?.toString().split("\\").join("/");
+      if (closed || (file && !isBuildSourcePath(file))) {
+        return;
+      }
+
+      const label = target.label ?? target.cwd;
+      const files = pending.get(label) ?? new Set<string>();
+      files.add(file ?? ".");
+      pending.set(label, files);
+      schedule();
+    }),
+  );
+
+  return {
+    close() {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+
+      void (running ?? Promise.resolve()).then(resolveClosed);
+    },
+    closed: closedPromise,
+  };
+}
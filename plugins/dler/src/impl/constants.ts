@@ -1,9 +1,14 @@
 export const DLER_PLUGIN_NAME = "dler";
 
 export const DLER_COMMAND_NAMES = {
+  apiDiff: "dler api-diff",
   build: "dler build",
+  cachePrune: "dler cache prune",
+  cacheStats: "dler cache stats",
   pub: "dler pub",
+  pubJournal: "dler pub journal",
   tsc: "dler tsc",
+  version: "dler version",
 } as const;
 
 export const DLER_CONCURRENCY_DEFAULTS = {
@@ -18,15 +23,34 @@ export const DLER_BUILD_DEFAULTS = {
   provider: "bun",
 } as const;
 
+/**
+ * Prefix of rempts plugin `provides` entries that contribute build providers, e.g.
+ * `dler-build-provider:rollup`. The plugin entry module exports them as `dlerBuildProviders`.
+ */
+export const DLER_BUILD_PROVIDER_CAPABILITY_PREFIX = "dler-build-provider:";
+
+export const DLER_BUILD_CACHE_DEFAULTS = {
+  directory: ".cache/dler/build",
+  pruneMaxAgeDays: 7,
+} as const;
+
+export const DLER_BUILD_WATCH_DEFAULTS = {
+  debounceMs: 100,
+} as const;
+
 export const DLER_BUILD_BUNDLE_STRATEGIES = ["auto", "single", "split"] as const;
 
 export const DLER_BUILD_DECLARATION_STRATEGIES = ["emit", "fast", "off", "rollup"] as const;
 
 export const DLER_PUBLISH_DEFAULTS = {
+  journalPath: ".cache/dler/pub/journal.json",
   publishFrom: "dist",
+  sizeBaselinePath: ".cache/dler/pub/sizes.json",
 } as const;
 
 export const DLER_TSC_DEFAULTS = {
+  /** Relative to the workspace root and meant to be committed. */
+  baselinePath: "tsc-baseline.json",
   fallbackRunner: "tsc",
   primaryRunner: "tsgo",
   runnerMode: "auto",
@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  findDependencyCycles,
+  orderByDependencies,
+  readWorkspaceDependencyGraph,
+  runDependencyGraph,
+} from "./dependency-graph";
+
+async function writePackage(root: string, label: string, manifest: Record<string, unknown>) {
+  await mkdir(join(root, label), { recursive: true });
+  await writeFile(join(root, label, "package.json"), JSON.stringify(manifest), "utf8");
+
+  return { cwd: join(root, label), label };
+}
+
+describe("workspace dependency graph", () => {
+  test("links targets through workspace: and catalog: specs only", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-graph-"));
+    const targets = [
+      await writePackage(root, "apps/cli", {
+        name: "cli",
+        dependencies: { core: "workspace:*", zod: "^4.0.0" },
+        devDependencies: { plugin: "catalog:" },
+      }),
+      await writePackage(root, "packages/core", { name: "core" }),
+      await writePackage(root, "plugins/plugin", {
+        name: "plugin",
+        peerDependencies: { core: "workspace:^", missing: "workspace:*" },
+      }),
+    ];
+
+    const graph = await readWorkspaceDependencyGraph(targets);
+
+    expect(Object.fromEntries(graph.dependencies)).toEqual({
+      "apps/cli": ["packages/core", "plugins/plugin"],
+      "packages/core": [],
+      "plugins/plugin": ["packages/core"],
+    });
+    expect(graph.cycles).toEqual([]);
+  });
+
+  test("reports cycles in plan order", () => {
+    expect(
+      findDependencyCycles([
+        { dependsOn: [], label: "solo" },
+        { dependsOn: ["c"], label: "b" },
+        { dependsOn: ["b"], label: "c" },
+        { dependsOn: ["self"], label: "self" },
+      ]),
+    ).toEqual([["b", "c"], ["self"]]);
+  });
+
+  test("orders nodes after their dependencies and keeps node order otherwise", () => {
+    expect(
+      orderByDependencies([
+        { dependsOn: ["core", "outside"], label: "app" },
+        { dependsOn: [], label: "docs" },
+        { dependsOn: ["core"], label: "plugin" },
+        { dependsOn: [], label: "core" },
+      ]),
+    ).toEqual(["docs", "core", "app", "plugin"]);
+  });
+});
+
+describe("runDependencyGraph", () => {
+  test("runs dependencies first and independent nodes in parallel", async () => {
+    const events: string[] = [];
+    let active = 0;
+    let peak = 0;
+
+    const { results, skipped } = await runDependencyGraph(
+      [
+        { dependsOn: ["core", "util"], label: "app" },
+        { dependsOn: [], label: "core" },
+        { dependsOn: [], label: "util" },
+      ],
+      4,
+      async (node) => {
+        active += 1;
+        peak = Math.max(peak, active);
+        events.push(`start ${node.label}`);
+        await Bun.sleep(5);
+        events.push(`end ${node.label}`);
+        active -= 1;
+
+        return { label: node.label, ok: true };
+      },
+    );
+
+    expect(peak).toBe(2);
+    expect(events.indexOf("start app")).toBeGreaterThan(events.indexOf("end core"));
+    expect(events.indexOf("start app")).toBeGreaterThan(events.indexOf("end util"));
+    expect(results.map((result) => result.label)).toEqual(["app", "core", "util"]);
+    expect(skipped).toEqual([]);
+  });
+
+  test("skips transitive dependents of a failed node but keeps running independent ones", async () => {
+    const ran: string[] = [];
+    const { results, skipped } = await runDependencyGraph(
+      [
+        { dependsOn: [], label: "core" },
+        { dependsOn: ["core"], label: "plugin" },
+        { dependsOn: ["plugin"], label: "app" },
+        { dependsOn: [], label: "docs" },
+      ],
+      1,
+      async (node) => {
+        ran.push(node.label);
+        return { ok: node.label !== "core" };
+      },
+    );
+
+    expect(ran).toEqual(["core", "docs"]);
+    expect(results).toHaveLength(2);
+    expect(skipped).toEqual([
+      { label: "plugin", reason: "dependency core failed" },
+      { label: "app", reason: "dependency core failed" },
+    ]);
+  });
+
+  test("settles runs in flight before rethrowing a rejected run", async () => {
+    const events: string[] = [];
+    const graphRun = runDependencyGraph(
+      [
+        { dependsOn: [], label: "core" },
+        { dependsOn: [], label: "docs" },
+        { dependsOn: ["core"], label: "app" },
+        { dependsOn: [], label: "site" },
+      ],
+      2,
+      async (node) => {
+        events.push(`start ${node.label}`);
+
+        if (node.label === "core") {
+          throw new Error("publish failed");
+        }
+
+        await Bun.sleep(10);
+        events.push(`end ${node.label}`);
+
+        return { ok: true };
+      },
+    );
+
+    await expect(graphRun).rejects.toThrow("publish failed");
+    expect(events).toEqual(["start core", "start docs", "end docs"]);
+  });
+
+  test("refuses to run a cyclic graph", async () => {
+    await expect(
+      runDependencyGraph(
+        [
+          { dependsOn: ["b"], label: "a" },
+          { dependsOn: ["a"], label: "b" },
+        ],
+        2,
+        async () => ({ ok: true }),
+      ),
+    ).rejects.toThrow("dependency cycle: a -> b -> a");
+  });
+});
@@ -0,0 +1,295 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import type { RequestedTarget, SkippedTarget } from "./shared-targets";
+
+export interface DependencyGraphNode {
+  readonly dependsOn: readonly string[];
+  readonly label: string;
+}
+
+export interface WorkspaceDependencyGraph {
+  readonly cycles: readonly (readonly string[])[];
+  /** Target label -> labels of the planned targets it depends on, in plan order. */
+  readonly dependencies: ReadonlyMap<string, readonly string[]>;
+}
+
+export interface DependencyGraphRun<TResult> {
+  /** Results of targets that ran, in plan order. */
+  readonly results: readonly TResult[];
+  readonly skipped: readonly SkippedTarget[];
+}
+
+const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
+
+const WORKSPACE_SPEC_PREFIXES = ["workspace:", "catalog:"] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function readManifest(cwd: string): Promise<Record<string, unknown> | null> {
+  try {
+    const manifest = JSON.parse(await readFile(resolve(cwd, "package.json"), "utf8")) as unknown;
+    return isRecord(manifest) ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+function readWorkspaceDependencyNames(manifest: Record<string, unknown>): Set<string> {
+  const names = new Set<string>();
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const entries = manifest[field];
+    if (!isRecord(entries)) {
+      continue;
+    }
+
+    for (const [name, spec] of Object.entries(entries)) {
+      if (
+        typeof spec === "string" &&
+        WORKSPACE_SPEC_PREFIXES.some((prefix) => spec.startsWith(prefix))
+      ) {
+        names.add(name);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Strongly connected components with more than one member, or with a self-edge, in node order.
+ */
+export function findDependencyCycles(
+  nodes: readonly DependencyGraphNode[],
+): readonly (readonly string[])[] {
+  const edges = new Map(nodes.map((node) => [node.label, node.dependsOn]));
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  function visit(label: string): void {
+    indexes.set(label, nextIndex);
+    lowLinks.set(label, nextIndex);
+    nextIndex += 1;
+    stack.push(label);
+    onStack.add(label);
+
+    for (const dependency of edges.get(label) ?? []) {
+      if (!edges.has(dependency)) {
+        continue;
+      }
+
+      if (!indexes.has(dependency)) {
+        visit(dependency);
+        lowLinks.set(label, Math.min(lowLinks.get(label)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(label, Math.min(lowLinks.get(label)!, indexes.get(dependency)!));
+      }
+    }
+
+    if (lowLinks.get(label) !== indexes.get(label)) {
+      return;
+    }
+
+    const component: string[] = [];
+    while (true) {
+      const member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+
+      if (member === label) {
+        break;
+      }
+    }
+
+    if (component.length > 1 || edges.get(label)?.includes(label)) {
+      components.push(component);
+    }
+  }
+
+  for (const node of nodes) {
+    if (!indexes.has(node.label)) {
+      visit(node.label);
+    }
+  }
+
+  const order = new Map(nodes.map((node, index) => [node.label, index]));
+  const byOrder = (left: string, right: string) => order.get(left)! - order.get(right)!;
+
+  return components
+    .map((component) => component.sort(byOrder))
+    .sort((left, right) => byOrder(left[0]!, right[0]!));
+}
+
+/**
+ * Node labels with every node after the nodes it depends on, otherwise keeping node order.
+ * Members of a dependency cycle fall back to node order.
+ */
+export function orderByDependencies(nodes: readonly DependencyGraphNode[]): string[] {
+  const labels = new Set(nodes.map((node) => node.label));
+  const ordered: string[] = [];
+  const emitted = new Set<string>();
+  const pending = [...nodes];
+
+  while (pending.length > 0) {
+    const index = pending.findIndex((node) =>
+      node.dependsOn.every((label) => emitted.has(label) || !labels.has(label)),
+    );
+    const [node] = pending.splice(Math.max(index, 0), 1);
+
+    ordered.push(node!.label);
+    emitted.add(node!.label);
+  }
+
+  return ordered;
+}
+
+export function formatDependencyCycle(cycle: readonly string[]): string {
+  return `dependency cycle: ${[...cycle, cycle[0]].join(" -> ")}`;
+}
+
+/**
+ * Builds the dependency DAG between the given targets from each package.json. Only
+ * `workspace:` and `catalog:` specs that name another target in the list become edges.
+ */
+export async function readWorkspaceDependencyGraph(
+  targets: readonly RequestedTarget[],
+): Promise<WorkspaceDependencyGraph> {
+  const manifests = await Promise.all(targets.map((target) => readManifest(target.cwd)));
+  const labelsByName = new Map<string, string>();
+
+  for (const [index, manifest] of manifests.entries()) {
+    if (typeof manifest?.name === "string" && !labelsByName.has(manifest.name)) {
+      labelsByName.set(manifest.name, targets[index]!.label);
+    }
+  }
+
+  const order = new Map(targets.map((target, index) => [target.label, index]));
+  const dependencies = new Map<string, readonly string[]>();
+
+  for (const [index, target] of targets.entries()) {
+    const manifest = manifests[index];
+    const names = manifest ? readWorkspaceDependencyNames(manifest) : new Set<string>();
+    const labels = [...names]
+      .map((name) => labelsByName.get(name))
+      .filter((label): label is string => label !== undefined)
+      .sort((left, right) => order.get(left)! - order.get(right)!);
+
+    dependencies.set(target.label, [...new Set(labels)]);
+  }
+
+  return {
+    cycles: findDependencyCycles(
+      targets.map((target) => ({
+        dependsOn: dependencies.get(target.label) ?? [],
+        label: target.label,
+      })),
+    ),
+    dependencies,
+  };
+}
+
+/**
+ * Runs each node once all of its dependencies succeeded, keeping up to `concurrency` nodes in
+ * flight. Dependents of a failed node are skipped instead of run. A rejected run stops new nodes
+ * from starting; the first rejection is rethrown once every run in flight has settled.
+ */
+export async function runDependencyGraph<
+  TNode extends DependencyGraphNode,
+  TResult extends { readonly ok: boolean },
+>(
+  nodes: readonly TNode[],
+  concurrency: number,
+  run: (node: TNode) => Promise<TResult>,
+): Promise<DependencyGraphRun<TResult>> {
+  const cycles = findDependencyCycles(nodes);
+  if (cycles.length > 0) {
+    throw new Error(cycles.map(formatDependencyCycle).join("; "));
+  }
+
+  const labels = new Set(nodes.map((node) => node.label));
+  const results = new Map<string, TResult>();
+  // Label of the failed target that blocks each skipped or failed node.
+  const blockedBy = new Map<string, string>();
+  const skipped: SkippedTarget[] = [];
+  const pending = [...nodes];
+  const running = new Map<string, Promise<void>>();
+  let rejection: { readonly error: unknown } | undefined;
+
+  const start = (node: TNode) => {
+    running.set(
+      node.label,
+      run(node).then(
+        (result) => {
+          results.set(node.label, result);
+          running.delete(node.label);
+
+          if (!result.ok) {
+            blockedBy.set(node.label, node.label);
+          }
+        },
+        (error: unknown) => {
+          running.delete(node.label);
+          blockedBy.set(node.label, node.label);
+          rejection ??= { error };
+        },
+      ),
+    );
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    let progressed = false;
+
+    for (let index = 0; !rejection && index < pending.length; index += 1) {
+      const node = pending[index]!;
+      const dependencies = node.dependsOn.filter((label) => labels.has(label));
+      const blocker = dependencies.find((label) => blockedBy.has(label));
+
+      if (blocker) {
+        const failedLabel = blockedBy.get(blocker)!;
+        blockedBy.set(node.label, failedLabel);
+        skipped.push({ label: node.label, reason: `dependency ${failedLabel} failed` });
+      } else if (
+        running.size < concurrency &&
+        dependencies.every((label) => results.get(label)?.ok === true)
+      ) {
+        start(node);
+      } else {
+        continue;
+      }
+
+      pending.splice(index, 1);
+      index -= 1;
+      progressed = true;
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values());
+    } else if (!progressed || rejection) {
+      break;
+    }
+  }
+
+  if (rejection) {
+    throw rejection.error;
+  }
+
+  return {
+    results: nodes.flatMap((node) => {
+      const result = results.get(node.label);
+      return result ? [result] : [];
+    }),
+    skipped,
+  };
+}
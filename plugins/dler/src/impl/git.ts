@@ -0,0 +1,47 @@
+export interface GitResult {
+  readonly exitCode: number;
+  readonly stderr: string;
+  readonly stdout: string;
+}
+
+async function readProcessStream(stream: ReadableStream<Uint8Array> | null): Promise<string> {
+  if (!stream) {
+    return "";
+  }
+
+  return new Response(stream).text();
+}
+
+export async function runGit(cwd: string, args: readonly string[]): Promise<GitResult> {
+  const processHandle = Bun.spawn(["git", ...args], {
+    cwd,
+    stderr: "pipe",
+    stdout: "pipe",
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    readProcessStream(processHandle.stdout),
+    readProcessStream(processHandle.stderr),
+    processHandle.exited,
+  ]);
+
+  return { exitCode, stderr, stdout };
+}
+
+/** Trimmed stdout of a git command; throws with git's stderr when it exits non-zero. */
+export async function readGit(cwd: string, args: readonly string[]): Promise<string> {
+  const result = await runGit(cwd, args);
+
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `git ${args.join(" ")} failed: ${result.stderr.trim() || `exit ${result.exitCode}`}`,
+    );
+  }
+
+  return result.stdout.trim();
+}
+
+export async function gitRefExists(cwd: string, ref: string): Promise<boolean> {
+  return (
+    (await runGit(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).exitCode === 0
+  );
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  createPublishJournal,
+  createPublishJournalRecorder,
+  listResumableEntries,
+  readPublishJournal,
+  resolvePublishJournalPath,
+} from "./journal";
+
+describe("publish journal", () => {
+  test("records entry progress on disk and leaves failed entries resumable", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-journal-"));
+    const path = resolvePublishJournalPath(root);
+    const recorder = createPublishJournalRecorder({
+      journal: createPublishJournal({
+        bundleStrategy: "auto",
+        entries: [
+          { dependsOn: [], label: "packages/core", packageName: "core", version: "1.0.0" },
+          {
+            dependsOn: ["packages/core"],
+            label: "packages/app",
+            packageName: "app",
+            version: "2.0.0",
+          },
+        ],
+        now: new Date("2026-01-01T00:00:00.000Z"),
+        order: "dependency-graph",
+        publishFrom: "dist",
+      }),
+      now: () => new Date("2026-01-02T00:00:00.000Z"),
+      path,
+    });
+
+    expect(path).toBe(join(root, ".cache", "dler", "pub", "journal.json"));
+
+    await recorder.begin();
+    expect(await readPublishJournal(path)).toMatchObject({
+      entries: [{ status: "pending" }, { status: "pending" }],
+      status: "in-progress",
+    });
+
+    await recorder.update("packages/core", { status: "published" });
+    await recorder.update("packages/app", { reason: "npm publish failed", status: "failed" });
+    const journal = await recorder.finish();
+
+    expect(await readPublishJournal(path)).toEqual(journal);
+    expect(journal).toMatchObject({
+      startedAt: "2026-01-01T00:00:00.000Z",
+      status: "failed",
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+    expect(listResumableEntries(journal)).toEqual([
+      {
+        dependsOn: ["packages/core"],
+        label: "packages/app",
+        packageName: "app",
+        reason: "npm publish failed",
+        status: "failed",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+        version: "2.0.0",
+      },
+    ]);
+  });
+
+  test("keeps recording after a failed journal write", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-journal-"));
+    const path = join(root, "blocked", "journal.json");
+    const recorder = createPublishJournalRecorder({
+      journal: createPublishJournal({
+        bundleStrategy: "auto",
+        entries: [{ dependsOn: [], label: "packages/core", packageName: "core", version: "1.0.0" }],
+        order: "dependency-graph",
+        publishFrom: "dist",
+      }),
+      path,
+    });
+
+    // A file where the journal directory should be makes the first write fail.
+    await writeFile(join(root, "blocked"), "", "utf8");
+    await expect(recorder.begin()).rejects.toThrow();
+    await rm(join(root, "blocked"));
+
+    await recorder.update("packages/core", { status: "published" });
+    expect(await readPublishJournal(path)).toMatchObject({
+      entries: [{ status: "published" }],
+      status: "in-progress",
+    });
+    expect((await recorder.finish()).status).toBe("completed");
+  });
+
+  test("reads a missing journal as undefined", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-pub-journal-"));
+
+    expect(await readPublishJournal(resolvePublishJournalPath(root))).toBeUndefined();
+  });
+});
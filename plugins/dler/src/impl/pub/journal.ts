@@ -0,0 +1,183 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import { DLER_PUBLISH_DEFAULTS } from "../constants";
+
+export type PublishJournalStatus = "completed" | "failed" | "in-progress" | "planned";
+
+export type PublishJournalEntryStatus =
+  | "already-published"
+  | "failed"
+  | "pending"
+  | "published"
+  | "skipped";
+
+export interface PublishJournalEntry {
+  /** Labels of journal entries this package depends on through workspace: or catalog: specs. */
+  readonly dependsOn: readonly string[];
+  readonly label: string;
+  readonly packageName: string;
+  /** Why the entry was skipped or failed. */
+  readonly reason?: string | undefined;
+  readonly status: PublishJournalEntryStatus;
+  readonly updatedAt?: string | undefined;
+  /** The version this release publishes; `--resume` reuses it instead of recomputing. */
+  readonly version?: string | undefined;
+}
+
+export interface PublishJournal {
+  readonly bundleStrategy: string;
+  readonly dlerPublishJournal: 1;
+  readonly entries: readonly PublishJournalEntry[];
+  /** `dependency-graph` when derived from workspace dependencies, `publishOrder` for the config override. */
+  readonly order: "dependency-graph" | "publishOrder";
+  readonly publishFrom: string;
+  readonly startedAt: string;
+  readonly status: PublishJournalStatus;
+  readonly tag?: string | undefined;
+  readonly updatedAt: string;
+}
+
+export interface PublishJournalRecorder {
+  /** Marks the journal in progress and writes it before anything publishes. */
+  begin(): Promise<void>;
+  /**
+   * Marks the journal completed, or failed when an entry failed, never ran, or was skipped while
+   * other entries depend on it, and writes it.
+   */
+  finish(): Promise<PublishJournal>;
+  update(
+    label: string,
+    patch: Pick<PublishJournalEntry, "reason" | "status">,
+    journalStatus?: PublishJournalStatus,
+  ): Promise<void>;
+}
+
+const SETTLED_ENTRY_STATUSES: ReadonlySet<PublishJournalEntryStatus> = new Set([
+  "already-published",
+  "published",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function resolvePublishJournalPath(workspaceRoot: string): string {
+  return resolve(workspaceRoot, DLER_PUBLISH_DEFAULTS.journalPath);
+}
+
+export function createPublishJournal(options: {
+  readonly bundleStrategy: string;
+  readonly entries: readonly Omit<PublishJournalEntry, "status">[];
+  readonly now?: Date | undefined;
+  readonly order: PublishJournal["order"];
+  readonly publishFrom: string;
+  readonly tag?: string | undefined;
+}): PublishJournal {
+  const timestamp = (options.now ?? new Date()).toISOString();
+
+  return {
+    bundleStrategy: options.bundleStrategy,
+    dlerPublishJournal: 1,
+    entries: options.entries.map((entry) => ({ ...entry, status: "pending" })),
+    order: options.order,
+    publishFrom: options.publishFrom,
+    startedAt: timestamp,
+    status: "planned",
+    ...(options.tag ? { tag: options.tag } : {}),
+    updatedAt: timestamp,
+  };
+}
+
+export async function readPublishJournal(path: string): Promise<PublishJournal | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isRecord(parsed) || parsed.dlerPublishJournal !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error(`${path} is not a dler release journal.`);
+  }
+
+  return parsed as unknown as PublishJournal;
+}
+
+export async function writePublishJournal(path: string, journal: PublishJournal): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(journal, null, 2)}\n`, "utf8");
+}
+
+/** Entries a resumed release still has to publish, in journal order. */
+export function listResumableEntries(journal: PublishJournal): PublishJournalEntry[] {
+  return journal.entries.filter((entry) => !SETTLED_ENTRY_STATUSES.has(entry.status));
+}
+
+/**
+ * Keeps the journal on disk in step with a running release. Writes are serialized so
+ * concurrent publish targets cannot interleave them.
+ */
+export function createPublishJournalRecorder(options: {
+  readonly journal: PublishJournal;
+  readonly now?: (() => Date) | undefined;
+  readonly path: string;
+}): PublishJournalRecorder {
+  const now = options.now ?? (() => new Date());
+  let journal = options.journal;
+  let writes = Promise.resolve();
+
+  const save = () => {
+    const snapshot = journal;
+    // A failed write must not poison the chain: later saves still write the newer snapshot.
+    const write = writes.catch(() => {}).then(() => writePublishJournal(options.path, snapshot));
+    writes = write;
+    return write;
+  };
+
+  return {
+    async begin() {
+      journal = { ...journal, status: "in-progress", updatedAt: now().toISOString() };
+      await save();
+    },
+    async finish() {
+      const dependedOn = new Set(journal.entries.flatMap((entry) => entry.dependsOn));
+      const unsettled = listResumableEntries(journal).some(
+        (entry) => entry.status !== "skipped" || dependedOn.has(entry.label),
+      );
+      journal = {
+        ...journal,
+        status: unsettled ? "failed" : "completed",
+        updatedAt: now().toISOString(),
+      };
+      await save();
+      return journal;
+    },
+    async update(label, patch, journalStatus) {
+      const timestamp = now().toISOString();
+      journal = {
+        ...journal,
+        entries: journal.entries.map((entry) =>
+          entry.label === label
+            ? {
+                dependsOn: entry.dependsOn,
+                label: entry.label,
+                packageName: entry.packageName,
+                ...(patch.reason ? { reason: patch.reason } : {}),
+                status: patch.status,
+                updatedAt: timestamp,
+                ...(entry.version ? { version: entry.version } : {}),
+              }
+            : entry,
+        ),
+        status: journalStatus ?? journal.status,
+        updatedAt: timestamp,
+      };
+      await save();
+    },
+  };
+}
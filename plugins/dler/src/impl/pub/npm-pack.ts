@@ -66,10 +66,11 @@ function parsePackPreview(stdout: string): NpmPackPreview | undefined {
   };
 }
 
-export async function runNpmPackDryRun(
+async function runNpmPack(
+  args: readonly string[],
   options: RunNpmPackDryRunOptions,
 ): Promise<RunNpmPackDryRunResult> {
-  const child = Bun.spawn(["npm", "pack", "--dry-run", "--json"], {
+  const child = Bun.spawn(["npm", "pack", ...args, "--json"], {
     cwd: options.cwd,
     env: options.env,
     stderr: "pipe",
@@ -92,3 +93,22 @@ export async function runNpmPackDryRun(
 
   return { exitCode, preview, stderr, stdout };
 }
+
+export async function runNpmPackDryRun(
+  options: RunNpmPackDryRunOptions,
+): Promise<RunNpmPackDryRunResult> {
+  return runNpmPack(["--dry-run"], options);
+}
+
+/**
+ * Downloads the tarball of a published `name@version` into `destination`, served from the npm
+ * cache when it already holds it.
+ */
+export async function runNpmPackPublished(
+  options: RunNpmPackDryRunOptions & { readonly destination: string; readonly spec: string },
+): Promise<RunNpmPackDryRunResult> {
+  return runNpmPack(
+    [options.spec, "--prefer-offline", "--pack-destination", options.destination],
+    options,
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+
+import { checkPackSizeBudget, parseByteSize, resolvePackSizeBudget } from "./size-budget";
+
+describe("pack size budgets", () => {
+  test("parses byte counts and binary size strings", () => {
+    expect(parseByteSize(512)).toBe(512);
+    expect(parseByteSize("150 KB")).toBe(150 * 1024);
+    expect(parseByteSize("1.5MiB")).toBe(1.5 * 1024 * 1024);
+    expect(parseByteSize("20b")).toBe(20);
+    expect(parseByteSize("-1")).toBeUndefined();
+    expect(parseByteSize("10 GB")).toBeUndefined();
+  });
+
+  test("prefers the exact package path over globs", () => {
+    const budgets = { "packages/*": { maxFiles: 10 }, "packages/core": { maxFiles: 2 } };
+
+    expect(resolvePackSizeBudget("packages/core", budgets)).toEqual({ maxFiles: 2 });
+    expect(resolvePackSizeBudget("packages/app", budgets)).toEqual({ maxFiles: 10 });
+    expect(resolvePackSizeBudget("plugins/dler", budgets)).toBeUndefined();
+  });
+
+  test("reports each exceeded limit", () => {
+    const pack = {
+      files: [
+        { path: "package.json", size: 300 },
+        { path: "dist/index.js", size: 4096 },
+      ],
+      unpackedSize: 4396,
+    };
+
+    expect(checkPackSizeBudget(pack, { maxFileSize: 4096, maxUnpackedSize: 8192 })).toEqual([]);
+    expect(checkPackSizeBudget(pack, { maxFileSize: 2048, maxUnpackedSize: 4096 })).toEqual([
+      "unpacked size 4.3 KB exceeds 4.0 KB",
+      "largest file dist/index.js 4.0 KB exceeds 2.0 KB",
+    ]);
+  });
+});
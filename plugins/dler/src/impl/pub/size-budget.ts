@@ -0,0 +1,257 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import { DLER_PUBLISH_DEFAULTS } from "../constants";
+import { formatBytes } from "../report-helpers";
+import type { NpmPackPreview } from "./npm-pack";
+
+/** Limits for one package's publish tarball, in bytes. */
+export interface PackSizeBudget {
+  /** Total size of the files matching each glob, keyed by glob relative to the tarball root. */
+  readonly files?: Readonly<Record<string, number>> | undefined;
+  readonly maxFiles?: number | undefined;
+  /** Size of the largest single file. */
+  readonly maxFileSize?: number | undefined;
+  readonly maxUnpackedSize?: number | undefined;
+}
+
+export interface PackSizeBaselineEntry {
+  /** File path -> size in bytes. */
+  readonly files: Readonly<Record<string, number>>;
+  readonly publishedAt: string;
+  readonly unpackedSize: number;
+  readonly version?: string | undefined;
+}
+
+export interface PackSizeBaseline {
+  readonly dlerPackSizes: 1;
+  /** Keyed by package name. */
+  readonly packages: Readonly<Record<string, PackSizeBaselineEntry>>;
+}
+
+export interface PackFileSizeDiff {
+  readonly after?: number | undefined;
+  readonly before?: number | undefined;
+  readonly delta: number;
+  readonly path: string;
+  readonly status: "added" | "changed" | "removed";
+}
+
+export interface PackSizeDiff {
+  /** Version of the last successful publish the tarball is compared with. */
+  readonly baselineVersion?: string | undefined;
+  /** Added, removed, and resized files, largest change first. Empty without a baseline. */
+  readonly files: readonly PackFileSizeDiff[];
+  readonly hasBaseline: boolean;
+  readonly unpackedSize: {
+    readonly after: number;
+    readonly before?: number | undefined;
+    readonly delta: number;
+  };
+}
+
+const BYTE_SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(b|kb|kib|mb|mib)?$/i;
+
+const BYTE_UNITS: Readonly<Record<string, number>> = {
+  b: 1,
+  kb: 1024,
+  kib: 1024,
+  mb: 1024 * 1024,
+  mib: 1024 * 1024,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Bytes from a number or a string such as `"150 KB"` or `"1.5MB"`. Units are binary, matching
+ * how pub reports sizes. Undefined when the value is not a non-negative size.
+ */
+export function parseByteSize(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+
+  const match = typeof value === "string" ? BYTE_SIZE_PATTERN.exec(value.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  return Math.round(Number(match[1]) * BYTE_UNITS[(match[2] ?? "b").toLowerCase()]!);
+}
+
+/** The budget keyed by the package path itself, otherwise the first glob key that matches it. */
+export function resolvePackSizeBudget(
+  label: string,
+  budgets: Readonly<Record<string, PackSizeBudget>>,
+): PackSizeBudget | undefined {
+  if (Object.hasOwn(budgets, label)) {
+    return budgets[label];
+  }
+
+  for (const [pattern, budget] of Object.entries(budgets)) {
+    if (new Bun.Glob(pattern).match(label)) {
+      return budget;
+    }
+  }
+
+  return undefined;
+}
+
+function readUnpackedSize(pack: NpmPackPreview): number {
+  return pack.unpackedSize ?? pack.files.reduce((total, file) => total + (file.size ?? 0), 0);
+}
+
+/** One message per exceeded limit; empty when the tarball fits the budget. */
+export function checkPackSizeBudget(pack: NpmPackPreview, budget: PackSizeBudget): string[] {
+  const violations: string[] = [];
+  const unpackedSize = readUnpackedSize(pack);
+
+  if (budget.maxUnpackedSize !== undefined && unpackedSize > budget.maxUnpackedSize) {
+    violations.push(
+      `unpacked size ${formatBytes(unpackedSize)} exceeds ${formatBytes(budget.maxUnpackedSize)}`,
+    );
+  }
+
+  if (budget.maxFiles !== undefined && pack.files.length > budget.maxFiles) {
+    violations.push(`${pack.files.length} files exceeds ${budget.maxFiles}`);
+  }
+
+  if (budget.maxFileSize !== undefined) {
+    const largest = pack.files.reduce<NpmPackPreview["files"][number] | undefined>(
+      (current, file) => ((file.size ?? 0) > (current?.size ?? -1) ? file : current),
+      undefined,
+    );
+
+    if (largest && (largest.size ?? 0) > budget.maxFileSize) {
+      violations.push(
+        `largest file ${largest.path} ${formatBytes(largest.size)} exceeds ${formatBytes(budget.maxFileSize)}`,
+      );
+    }
+  }
+
+  for (const [pattern, limit] of Object.entries(budget.files ?? {})) {
+    const glob = new Bun.Glob(pattern);
+    const total = pack.files
+      .filter((file) => glob.match(file.path))
+      .reduce((sum, file) => sum + (file.size ?? 0), 0);
+
+    if (total > limit) {
+      violations.push(`${pattern} totals ${formatBytes(total)}, over ${formatBytes(limit)}`);
+    }
+  }
+
+  return violations;
+}
+
+export function formatPackSizeBudgetReason(violations: readonly string[]): string {
+  return `size budget exceeded: ${violations.join("; ")}`;
+}
+
+export function diffPackSizes(
+  pack: NpmPackPreview,
+  baseline: PackSizeBaselineEntry | undefined,
+): PackSizeDiff {
+  const after = readUnpackedSize(pack);
+
+  if (!baseline) {
+    return { files: [], hasBaseline: false, unpackedSize: { after, delta: 0 } };
+  }
+
+  const current = new Map(pack.files.map((file) => [file.path, file.size ?? 0]));
+  const files: PackFileSizeDiff[] = [];
+
+  for (const [path, size] of current) {
+    const before = baseline.files[path];
+
+    if (before === undefined) {
+      files.push({ after: size, delta: size, path, status: "added" });
+    } else if (before !== size) {
+      files.push({ after: size, before, delta: size - before, path, status: "changed" });
+    }
+  }
+
+  for (const [path, before] of Object.entries(baseline.files)) {
+    if (!current.has(path)) {
+      files.push({ before, delta: -before, path, status: "removed" });
+    }
+  }
+
+  return {
+    baselineVersion: baseline.version,
+    files: files.sort(
+      (left, right) =>
+        Math.abs(right.delta) - Math.abs(left.delta) || left.path.localeCompare(right.path),
+    ),
+    hasBaseline: true,
+    unpackedSize: { after, before: baseline.unpackedSize, delta: after - baseline.unpackedSize },
+  };
+}
+
+/** `+1.2 KB`, `-300 B`, or `±0 B`. */
+export function formatByteDelta(delta: number): string {
+  if (delta === 0) {
+    return "±0 B";
+  }
+
+  return `${delta > 0 ? "+" : "-"}${formatBytes(Math.abs(delta))}`;
+}
+
+export function resolvePackSizeBaselinePath(workspaceRoot: string): string {
+  return resolve(workspaceRoot, DLER_PUBLISH_DEFAULTS.sizeBaselinePath);
+}
+
+/** The stored baseline, or an empty one when the file does not exist yet. */
+export async function readPackSizeBaseline(path: string): Promise<PackSizeBaseline> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { dlerPackSizes: 1, packages: {} };
+    }
+
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isRecord(parsed) || parsed.dlerPackSizes !== 1 || !isRecord(parsed.packages)) {
+    throw new Error(`${path} is not a dler pack size baseline.`);
+  }
+
+  return parsed as unknown as PackSizeBaseline;
+}
+
+/**
+ * Replaces the baseline entries of the given packages with their published tarballs. Call it
+ * only for successful publishes so previews keep comparing with what npm serves.
+ */
+export async function recordPackSizeBaseline(
+  path: string,
+  published: readonly {
+    readonly pack: NpmPackPreview;
+    readonly packageName: string;
+    readonly version?: string | undefined;
+  }[],
+  now: Date = new Date(),
+): Promise<void> {
+  const baseline = await readPackSizeBaseline(path);
+  const packages = { ...baseline.packages };
+
+  for (const entry of published) {
+    packages[entry.packageName] = {
+      files: Object.fromEntries(entry.pack.files.map((file) => [file.path, file.size ?? 0])),
+      publishedAt: now.toISOString(),
+      unpackedSize: readUnpackedSize(entry.pack),
+      version: entry.version,
+    };
+  }
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(
+    path,
+    `${JSON.stringify({ dlerPackSizes: 1, packages } satisfies PackSizeBaseline, null, 2)}\n`,
+    "utf8",
+  );
+}
@@ -16,14 +16,12 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
 
-function resolveWorkspaceSpecifier(
-  name: string,
-  specifier: string,
-  workspaceVersions: ReadonlyMap<string, string>,
-): string | undefined {
-  const version = workspaceVersions.get(name);
-  if (!version) return undefined;
-
+/**
+ * The range a `workspace:` specifier publishes as for the given version of the dependency:
+ * `*`, `^`, and an empty range become `^version`, `~` becomes `~version`, and explicit ranges
+ * are kept.
+ */
+export function resolvePublishedWorkspaceRange(specifier: string, version: string): string {
   const range = specifier.slice("workspace:".length).trim();
   if (range === "" || range === "*" || range === "^") return `^${version}`;
   if (range === "~") return `~${version}`;
@@ -41,6 +39,17 @@ function resolveWorkspaceSpecifier(
   return version;
 }
 
+function resolveWorkspaceSpecifier(
+  name: string,
+  specifier: string,
+  workspaceVersions: ReadonlyMap<string, string>,
+): string | undefined {
+  const version = workspaceVersions.get(name);
+  if (!version) return undefined;
+
+  return resolvePublishedWorkspaceRange(specifier, version);
+}
+
 function resolveCatalogSpecifier(
   name: string,
   specifier: string,
@@ -50,6 +50,14 @@ export function createTargetSets(options: {
   };
 }
 
+export function formatBytes(value: number | undefined): string {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "unknown size";
+  if (value < 1024) return `${value} B`;
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
+
+  return `${(value / 1024 / 1024).toFixed(1)} MB`;
+}
+
 export function formatSkippedMessages(skippedTargets: readonly SkippedTarget[]): string[] {
   return skippedTargets.map((target) => `Skipped: ${target.label}: ${target.reason}`);
 }
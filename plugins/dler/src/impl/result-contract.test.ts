@@ -37,10 +37,33 @@ describe("dler result contract helpers", () => {
       ],
     });
 
-    expect(summary).toEqual({ failed: 1, planned: 3, skipped: 1, succeeded: 1 });
+    expect(summary).toEqual({ cached: 0, failed: 1, planned: 3, skipped: 1, succeeded: 1 });
     expect(formatBuildSummary(summary)).toBe("Summary: 1 built, 1 failed, 1 skipped.");
   });
 
+  test("counts cache hits among succeeded build targets", () => {
+    const summary = createBuildSummary({
+      planned: 2,
+      skipped: [],
+      targets: ["a", "b"].map((label) => ({
+        cached: label === "a",
+        cwd: ".",
+        durationMs: 1,
+        exitCode: 0,
+        label,
+        ok: true,
+        provider: "bun",
+        stderr: "",
+        stdout: "",
+      })),
+    });
+
+    expect(summary).toMatchObject({ cached: 1, succeeded: 2 });
+    expect(formatBuildSummary(summary)).toBe(
+      "Summary: 2 built (1 from cache), 0 failed, 0 skipped.",
+    );
+  });
+
   test("creates and formats publish summaries consistently", () => {
     const summary = createPublishSummary({
       planned: 4,
@@ -2,6 +2,8 @@ import type { BuildTargetResult } from "./build/provider/types";
 import type { SkippedTarget } from "./shared-targets";
 
 export interface DlerBuildSummary {
+  /** Succeeded targets whose output was restored from the build cache. */
+  readonly cached: number;
   readonly failed: number;
   readonly planned: number;
   readonly skipped: number;
@@ -21,6 +23,7 @@ export function createBuildSummary(options: {
   readonly targets: readonly BuildTargetResult[];
 }): DlerBuildSummary {
   return {
+    cached: options.targets.filter((target) => target.ok && target.cached === true).length,
     failed: options.targets.filter((target) => !target.ok).length,
     planned: options.planned,
     skipped: options.skipped.length,
@@ -43,7 +46,9 @@ export function createPublishSummary(options: {
 }
 
 export function formatBuildSummary(summary: DlerBuildSummary): string {
-  return `Summary: ${summary.succeeded} built, ${summary.failed} failed, ${summary.skipped} skipped.`;
+  const cached = summary.cached > 0 ? ` (${summary.cached} from cache)` : "";
+
+  return `Summary: ${summary.succeeded} built${cached}, ${summary.failed} failed, ${summary.skipped} skipped.`;
 }
 
 export function formatPublishSummary(summary: DlerPublishSummary, preview: boolean): string {
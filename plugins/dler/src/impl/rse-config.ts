@@ -3,6 +3,8 @@ import { resolve } from "node:path";
 
 import { parse, printParseErrorCode, type ParseError } from "jsonc-parser";
 
+import { parseByteSize, type PackSizeBudget } from "./pub/size-budget";
+
 export const RSE_CONFIG_FILE = "rse.config.json";
 export const RSE_CONFIG_JSONC_FILE = "rse.config.jsonc";
 export const RSE_CONFIG_FILES = [RSE_CONFIG_FILE, RSE_CONFIG_JSONC_FILE] as const;
@@ -12,13 +14,66 @@ function isObject(value: unknown): value is Record<string, unknown> {
 }
 
 export interface DlerRseConfig {
+  /** Build provider ids keyed by workspace package path or glob, e.g. `{ "plugins/*": "tsdown" }`. */
+  readonly buildProviders: Readonly<Record<string, string>>;
   readonly publishOrder: readonly string[];
+  /** Publish tarball size budgets keyed by workspace package path or glob. */
+  readonly sizeBudgets: Readonly<Record<string, PackSizeBudget>>;
 }
 
 export interface RseConfig {
   readonly dler?: DlerRseConfig | undefined;
 }
 
+const SIZE_BUDGET_KEYS = new Set(["files", "maxFileSize", "maxFiles", "maxUnpackedSize"]);
+
+function readSizeBudget(value: unknown, path: string): PackSizeBudget {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object.`);
+  }
+
+  const unknownKey = Object.keys(value).find((key) => !SIZE_BUDGET_KEYS.has(key));
+  if (unknownKey) {
+    throw new Error(`${path} has unknown key "${unknownKey}".`);
+  }
+
+  const readSize = (raw: unknown, key: string): number | undefined => {
+    if (raw === undefined) return undefined;
+
+    const size = parseByteSize(raw);
+    if (size === undefined) {
+      throw new Error(`${path}.${key} must be a byte count or a size such as "150 KB".`);
+    }
+    return size;
+  };
+
+  if (
+    value.maxFiles !== undefined &&
+    (typeof value.maxFiles !== "number" || !Number.isInteger(value.maxFiles) || value.maxFiles < 0)
+  ) {
+    throw new Error(`${path}.maxFiles must be a non-negative integer.`);
+  }
+
+  if (value.files !== undefined && !isObject(value.files)) {
+    throw new Error(`${path}.files must be an object of globs to sizes.`);
+  }
+
+  return {
+    files:
+      value.files === undefined
+        ? undefined
+        : Object.fromEntries(
+            Object.entries(value.files).map(([glob, size]) => [
+              glob,
+              readSize(size, `files["${glob}"]`)!,
+            ]),
+          ),
+    maxFileSize: readSize(value.maxFileSize, "maxFileSize"),
+    maxFiles: value.maxFiles as number | undefined,
+    maxUnpackedSize: readSize(value.maxUnpackedSize, "maxUnpackedSize"),
+  };
+}
+
 export async function readOptionalRseConfig(cwd: string): Promise<RseConfig | undefined> {
   const existingConfigs: Array<{ file: string; raw: string }> = [];
 
@@ -69,11 +124,34 @@ export async function readOptionalRseConfig(cwd: string): Promise<RseConfig | un
     throw new Error(`${configFile}: dler must be an object when provided.`);
   }
 
-  const publishOrder = dler.publishOrder;
-  if (publishOrder === undefined) return { dler: { publishOrder: [] } };
+  const publishOrder = dler.publishOrder ?? [];
   if (!Array.isArray(publishOrder) || !publishOrder.every((item) => typeof item === "string")) {
     throw new Error(`${configFile}: dler.publishOrder must be an array of strings.`);
   }
 
-  return { dler: { publishOrder } };
+  const buildProviders = dler.buildProviders ?? {};
+  if (
+    !isObject(buildProviders) ||
+    !Object.values(buildProviders).every((item) => typeof item === "string")
+  ) {
+    throw new Error(
+      `${configFile}: dler.buildProviders must be an object of package paths to provider ids.`,
+    );
+  }
+
+  const rawSizeBudgets = dler.sizeBudgets ?? {};
+  if (!isObject(rawSizeBudgets)) {
+    throw new Error(
+      `${configFile}: dler.sizeBudgets must be an object of package paths to budgets.`,
+    );
+  }
+
+  const sizeBudgets: Record<string, PackSizeBudget> = {};
+  for (const [pattern, budget] of Object.entries(rawSizeBudgets)) {
+    sizeBudgets[pattern] = readSizeBudget(budget, `${configFile}: dler.sizeBudgets["${pattern}"]`);
+  }
+
+  return {
+    dler: { buildProviders: buildProviders as Record<string, string>, publishOrder, sizeBudgets },
+  };
 }
@@ -1,7 +1,13 @@
 import { access, constants, stat } from "node:fs/promises";
 import { resolve } from "node:path";
 
-import { resolveWorkspaceTargetsFromCwd } from "./workspace-targets";
+import {
+  readChangedFiles,
+  resolveSelectionBase,
+  selectAffectedTargets,
+  type TargetSelection,
+} from "./affected-targets";
+import { resolveAllWorkspaceTargets, resolveWorkspaceTargetsFromCwd } from "./workspace-targets";
 
 export interface RequestedTarget {
   readonly cwd: string;
@@ -21,6 +27,8 @@ export interface ResolvedTargetsResult {
 export interface RequestedTargetsResolution {
   readonly labels: readonly string[];
   readonly resolution: ResolvedTargetsResult;
+  /** Present when `--affected` or `--since` narrowed the targets to changed packages. */
+  readonly selection?: TargetSelection | undefined;
 }
 
 export function parseTargetsOption(targets: string): string[] {
@@ -78,7 +86,7 @@ export async function resolveDirectoryTargets(
   return { resolved, skipped };
 }
 
-export async function resolveRequestedTargets(options: {
+async function resolveCandidateTargets(options: {
   readonly cwd: string;
   readonly rawTargets: string | undefined;
 }): Promise<RequestedTargetsResolution> {
@@ -98,3 +106,39 @@ export async function resolveRequestedTargets(options: {
     resolution: { resolved: autoTargets.targets, skipped: [] },
   };
 }
+
+/**
+ * Resolves `--targets`, or the cwd-derived scope when it is omitted. With `affected` or `since`,
+ * the result keeps only targets whose files changed in git and their workspace dependents.
+ */
+export async function resolveRequestedTargets(options: {
+  readonly affected?: boolean | undefined;
+  readonly cwd: string;
+  readonly rawTargets: string | undefined;
+  readonly since?: string | undefined;
+}): Promise<RequestedTargetsResolution> {
+  const candidates = await resolveCandidateTargets(options);
+
+  if (!options.affected && options.since === undefined) {
+    return candidates;
+  }
+
+  const workspace = await resolveAllWorkspaceTargets(options.cwd);
+  const { base, mode, ref } = await resolveSelectionBase({
+    affected: options.affected === true,
+    cwd: workspace.rootDir,
+    since: options.since,
+  });
+  const { selected, targets } = await selectAffectedTargets({
+    candidates: candidates.resolution.resolved,
+    changedFiles: await readChangedFiles(workspace.rootDir, base),
+    rootDir: workspace.rootDir,
+    workspaceTargets: workspace.targets,
+  });
+
+  return {
+    labels: targets.map((target) => target.label),
+    resolution: { resolved: targets, skipped: candidates.resolution.skipped },
+    selection: { base, mode, ref, selected },
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { compareWithTscBaseline, readTscBaseline, writeTscBaseline } from "./baseline";
+import type { TscDiagnostic } from "./diagnostics";
+
+function diagnostic(file: string, line: number, code: string, message: string): TscDiagnostic {
+  return { category: "error", code, column: 1, file, line, message };
+}
+
+describe("tsc baselines", () => {
+  test("tolerates known diagnostics regardless of line and counts duplicates", () => {
+    const comparison = compareWithTscBaseline(
+      [
+        diagnostic("src/a.ts", 40, "TS2322", "Type 'string' is not assignable to type 'number'."),
+        diagnostic("src/a.ts", 41, "TS2322", "Type 'string' is not assignable to type 'number'."),
+        diagnostic("src/b.ts", 2, "TS7006", "Parameter 'x' implicitly has an 'any' type."),
+      ],
+      [
+        {
+          code: "TS2322",
+          file: "src/a.ts",
+          message: "Type 'string' is not assignable to type 'number'.",
+        },
+        { code: "TS2304", file: "src/c.ts", message: "Cannot find name 'foo'." },
+      ],
+    );
+
+    expect(comparison.newDiagnostics.map((entry) => [entry.file, entry.line])).toEqual([
+      ["src/a.ts", 41],
+      ["src/b.ts", 2],
+    ]);
+    expect(comparison.fixedDiagnostics).toEqual([
+      { code: "TS2304", file: "src/c.ts", message: "Cannot find name 'foo'." },
+    ]);
+  });
+
+  test("updates only the checked packages and drops clean ones", async () => {
+    const root = await mkdtemp(join(tmpdir(), "dler-tsc-baseline-"));
+    const path = join(root, "tsc-baseline.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        dlerTscBaseline: 1,
+        packages: {
+          "packages/clean": [{ code: "TS1", file: "src/x.ts", message: "old" }],
+          "packages/other": [{ code: "TS2", file: "src/y.ts", message: "kept" }],
+        },
+      }),
+      "utf8",
+    );
+
+    await writeTscBaseline(path, [
+      { diagnostics: [], packagePath: "packages/clean" },
+      {
+        diagnostics: [
+          diagnostic("src/z.ts", 9, "TS2304", "Cannot find name 'b'."),
+          diagnostic("src/a.ts", 3, "TS2304", "Cannot find name 'a'."),
+        ],
+        packagePath: "packages/app",
+      },
+    ]);
+
+    expect(await readTscBaseline(path)).toEqual({
+      dlerTscBaseline: 1,
+      packages: {
+        "packages/app": [
+          { code: "TS2304", file: "src/a.ts", message: "Cannot find name 'a'." },
+          { code: "TS2304", file: "src/z.ts", message: "Cannot find name 'b'." },
+        ],
+        "packages/other": [{ code: "TS2", file: "src/y.ts", message: "kept" }],
+      },
+    });
+    expect(await readFile(path, "utf8")).toEndWith("}\n");
+    expect(await readTscBaseline(join(root, "missing.json"))).toEqual({
+      dlerTscBaseline: 1,
+      packages: {},
+    });
+  });
+});
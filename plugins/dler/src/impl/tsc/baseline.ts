@@ -0,0 +1,138 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import { DLER_TSC_DEFAULTS } from "../constants";
+import type { TscDiagnostic } from "./diagnostics";
+
+/** A tolerated diagnostic. Lines and columns are left out so edits above an error keep matching. */
+export interface TscBaselineEntry {
+  readonly code: string;
+  readonly file?: string | undefined;
+  readonly message: string;
+}
+
+export interface TscBaseline {
+  readonly dlerTscBaseline: 1;
+  /** Keyed by package path relative to the workspace root. */
+  readonly packages: Readonly<Record<string, readonly TscBaselineEntry[]>>;
+}
+
+export interface TscBaselineComparison {
+  /** Baseline entries no longer reported. */
+  readonly fixedDiagnostics: readonly TscBaselineEntry[];
+  /** Diagnostics beyond what the baseline tolerates. */
+  readonly newDiagnostics: readonly TscDiagnostic[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toBaselineEntry(diagnostic: TscBaselineEntry): TscBaselineEntry {
+  return diagnostic.file === undefined
+    ? { code: diagnostic.code, message: diagnostic.message }
+    : { code: diagnostic.code, file: diagnostic.file, message: diagnostic.message };
+}
+
+function toBaselineKey(entry: TscBaselineEntry): string {
+  return JSON.stringify([entry.file ?? "", entry.code, entry.message]);
+}
+
+function compareBaselineEntries(left: TscBaselineEntry, right: TscBaselineEntry): number {
+  return (
+    (left.file ?? "").localeCompare(right.file ?? "") ||
+    left.code.localeCompare(right.code) ||
+    left.message.localeCompare(right.message)
+  );
+}
+
+export function resolveTscBaselinePath(workspaceRoot: string): string {
+  return resolve(workspaceRoot, DLER_TSC_DEFAULTS.baselinePath);
+}
+
+/** The committed baseline, or an empty one when the file does not exist. */
+export async function readTscBaseline(path: string): Promise<TscBaseline> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { dlerTscBaseline: 1, packages: {} };
+    }
+
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isRecord(parsed) || parsed.dlerTscBaseline !== 1 || !isRecord(parsed.packages)) {
+    throw new Error(`${path} is not a dler tsc baseline.`);
+  }
+
+  return parsed as unknown as TscBaseline;
+}
+
+/**
+ * Matches diagnostics against the baseline by file, code, and message. Each entry tolerates one
+ * occurrence, so a second copy of a known error in the same file still counts as new.
+ */
+export function compareWithTscBaseline(
+  diagnostics: readonly TscDiagnostic[],
+  entries: readonly TscBaselineEntry[],
+): TscBaselineComparison {
+  const remaining = new Map<string, TscBaselineEntry[]>();
+  for (const entry of entries) {
+    const key = toBaselineKey(entry);
+    remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+  }
+
+  const newDiagnostics: TscDiagnostic[] = [];
+  for (const diagnostic of diagnostics) {
+    const matches = remaining.get(toBaselineKey(diagnostic));
+    if (matches && matches.length > 0) {
+      matches.pop();
+    } else {
+      newDiagnostics.push(diagnostic);
+    }
+  }
+
+  return {
+    fixedDiagnostics: [...remaining.values()].flat().sort(compareBaselineEntries),
+    newDiagnostics,
+  };
+}
+
+/**
+ * Replaces the entries of the checked packages with their current diagnostics and drops packages
+ * that have none left. Packages outside this run keep their entries.
+ */
+export async function writeTscBaseline(
+  path: string,
+  checked: readonly {
+    readonly diagnostics: readonly TscDiagnostic[];
+    readonly packagePath: string;
+  }[],
+): Promise<void> {
+  const baseline = await readTscBaseline(path);
+  const packages: Record<string, readonly TscBaselineEntry[]> = { ...baseline.packages };
+
+  for (const entry of checked) {
+    if (entry.diagnostics.length === 0) {
+      delete packages[entry.packagePath];
+    } else {
+      packages[entry.packagePath] = entry.diagnostics
+        .map(toBaselineEntry)
+        .sort(compareBaselineEntries);
+    }
+  }
+
+  const sorted = Object.fromEntries(
+    Object.entries(packages).sort(([left], [right]) => left.localeCompare(right)),
+  );
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(
+    path,
+    `${JSON.stringify({ dlerTscBaseline: 1, packages: sorted } satisfies TscBaseline, null, 2)}\n`,
+    "utf8",
+  );
+}
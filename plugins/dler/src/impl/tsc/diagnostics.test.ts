@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+
+import { formatTscDiagnostic, parseTscDiagnostics } from "./diagnostics";
+
+describe("parseTscDiagnostics", () => {
+  test("parses plain output with message chains and global diagnostics", () => {
+    const output = [
+      "src/index.ts(3,7): error TS2322: Type '{ x: string; }' is not assignable to type 'Point'.",
+      "  Types of property 'x' are incompatible.",
+      "    Type 'string' is not assignable to type 'number'.",
+      "/repo/packages/core/src/util.ts(10,1): error TS1005: ';' expected.",
+      "error TS18003: No inputs were found in config file 'tsconfig.json'.",
+      "",
+      "Found 3 errors in 2 files.",
+    ].join("\n");
+
+    expect(parseTscDiagnostics("/repo/packages/core", output)).toEqual([
+      {
+        category: "error",
+        code: "TS2322",
+        column: 7,
+        file: "src/index.ts",
+        line: 3,
+        message: [
+          "Type '{ x: string; }' is not assignable to type 'Point'.",
+          "Types of property 'x' are incompatible.",
+          "Type 'string' is not assignable to type 'number'.",
+        ].join("\n"),
+      },
+      {
+        category: "error",
+        code: "TS1005",
+        column: 1,
+        file: "src/util.ts",
+        line: 10,
+        message: "';' expected.",
+      },
+      {
+        category: "error",
+        code: "TS18003",
+        message: "No inputs were found in config file 'tsconfig.json'.",
+      },
+    ]);
+  });
+
+  test("parses pretty output and skips code frames", () => {
+    const output = [
+      "\u001B[96msrc/a.ts\u001B[0m:\u001B[93m1\u001B[0m:\u001B[93m7\u001B[0m - \u001B[91merror\u001B[0m\u001B[90m TS2322: \u001B[0mType 'string' is not assignable to type 'number'.",
+      "",
+      '\u001B[7m1\u001B[0m const a: number = "x";',
+      "\u001B[7m \u001B[0m \u001B[91m      ~\u001B[0m",
+      "",
+      "",
+      "Found 1 error in src/a.ts\u001B[90m:1\u001B[0m",
+    ].join("\n");
+
+    const diagnostics = parseTscDiagnostics("/repo", output);
+
+    expect(diagnostics).toEqual([
+      {
+        category: "error",
+        code: "TS2322",
+        column: 7,
+        file: "src/a.ts",
+        line: 1,
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+    ]);
+    expect(formatTscDiagnostic(diagnostics[0]!)).toBe(
+      "src/a.ts:1:7 TS2322 Type 'string' is not assignable to type 'number'.",
+    );
+  });
+});
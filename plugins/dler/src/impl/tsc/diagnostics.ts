@@ -0,0 +1,102 @@
+import { isAbsolute, relative, sep } from "node:path";
+
+export type TscDiagnosticCategory = "error" | "message" | "suggestion" | "warning";
+
+export interface TscDiagnostic {
+  readonly category: TscDiagnosticCategory;
+  /** `TS2322`. */
+  readonly code: string;
+  readonly column?: number | undefined;
+  /** Relative to the checked package with `/` separators; undefined for global diagnostics. */
+  readonly file?: string | undefined;
+  readonly line?: number | undefined;
+  /** The full message chain, one line per level without the runner's indentation. */
+  readonly message: string;
+}
+
+const ANSI_PATTERN = /\u001B\[[0-9;]*m/g;
+/** `src/index.ts(3,7): error TS2322: ...`, the default when stdout is not a terminal. */
+const PLAIN_PATTERN = /^(.+?)\((\d+),(\d+)\): (error|warning|message|suggestion) (TS\d+): (.*)$/;
+/** `src/index.ts:3:7 - error TS2322: ...`, printed with `--pretty`. */
+const PRETTY_PATTERN = /^(.+?):(\d+):(\d+) - (error|warning|message|suggestion) (TS\d+): (.*)$/;
+const GLOBAL_PATTERN = /^(error|warning|message|suggestion) (TS\d+): (.*)$/;
+/** Message chain lines are indented under their diagnostic. */
+const CONTINUATION_PATTERN = /^\s{2,}\S/;
+
+function normalizeFile(cwd: string, file: string): string {
+  const path = isAbsolute(file) ? relative(cwd, file) : file;
+  return path.split(sep).join("/");
+}
+
+function matchDiagnosticHeader(cwd: string, line: string): TscDiagnostic | undefined {
+  const located = PLAIN_PATTERN.exec(line) ?? PRETTY_PATTERN.exec(line);
+
+  if (located) {
+    return {
+      category: located[4] as TscDiagnosticCategory,
+      code: located[5]!,
+      column: Number(located[3]),
+      file: normalizeFile(cwd, located[1]!.trim()),
+      line: Number(located[2]),
+      message: located[6]!.trim(),
+    };
+  }
+
+  const global = GLOBAL_PATTERN.exec(line);
+  if (!global) {
+    return undefined;
+  }
+
+  return {
+    category: global[1] as TscDiagnosticCategory,
+    code: global[2]!,
+    message: global[3]!.trim(),
+  };
+}
+
+/**
+ * Diagnostics from tsc or tsgo output in either the plain or the `--pretty` format. Anything else,
+ * such as code frames and the `Found N errors` summary, is ignored.
+ */
+export function parseTscDiagnostics(cwd: string, output: string): TscDiagnostic[] {
+  const diagnostics: TscDiagnostic[] = [];
+  let current: { diagnostic: TscDiagnostic; lines: string[] } | undefined;
+
+  const flush = () => {
+    if (current) {
+      diagnostics.push({ ...current.diagnostic, message: current.lines.join("\n") });
+      current = undefined;
+    }
+  };
+
+  for (const rawLine of output.replace(ANSI_PATTERN, "").split(/\r?\n/)) {
+    const header = matchDiagnosticHeader(cwd, rawLine.trimEnd());
+    if (header) {
+      flush();
+      current = { diagnostic: header, lines: [header.message] };
+      continue;
+    }
+
+    if (current && CONTINUATION_PATTERN.test(rawLine)) {
+      current.lines.push(rawLine.trim());
+      continue;
+    }
+
+    // Pretty output follows each message chain with a blank line and a code frame.
+    flush();
+  }
+
+  flush();
+  return diagnostics;
+}
+
+/** `src/index.ts:3:7 TS2322 Type 'string' is not assignable to type 'number'.` */
+export function formatTscDiagnostic(diagnostic: TscDiagnostic): string {
+  const location =
+    diagnostic.file === undefined
+      ? ""
+      : `${diagnostic.file}${diagnostic.line === undefined ? "" : `:${diagnostic.line}:${diagnostic.column ?? 1}`} `;
+  const [firstLine] = diagnostic.message.split("\n");
+
+  return `${location}${diagnostic.code} ${firstLine}`;
+}
@@ -0,0 +1,190 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, posix } from "node:path";
+
+import type { TscDiagnostic } from "./diagnostics";
+
+/** What the report writers need from one checked package. */
+export interface TscPackageReport {
+  readonly diagnostics: readonly TscDiagnostic[];
+  readonly durationMs: number;
+  readonly exitCode: number;
+  readonly label: string;
+  /** A subset of `diagnostics`, compared by identity. */
+  readonly newDiagnostics: readonly TscDiagnostic[];
+  readonly ok: boolean;
+  /** Relative to the workspace root, used to make diagnostic paths repository-relative. */
+  readonly packagePath: string;
+}
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+const SARIF_LEVELS: Readonly<Record<TscDiagnostic["category"], string>> = {
+  error: "error",
+  message: "note",
+  suggestion: "note",
+  warning: "warning",
+};
+
+function toRepositoryPath(packagePath: string, file: string): string {
+  return packagePath === "." ? file : posix.join(packagePath, file);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/**
+ * SARIF 2.1.0 for code scanning annotations. Diagnostics tolerated by the baseline are kept with
+ * `baselineState: "unchanged"` so viewers can hide them.
+ */
+export function createTscSarifReport(reports: readonly TscPackageReport[]): unknown {
+  const codes = new Set<string>();
+  const results = reports.flatMap((report) => {
+    const fresh = new Set(report.newDiagnostics);
+
+    return report.diagnostics.map((diagnostic) => {
+      codes.add(diagnostic.code);
+
+      return {
+        baselineState: fresh.has(diagnostic) ? "new" : "unchanged",
+        level: SARIF_LEVELS[diagnostic.category],
+        message: { text: diagnostic.message },
+        ruleId: diagnostic.code,
+        ...(diagnostic.file === undefined
+          ? {}
+          : {
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: toRepositoryPath(report.packagePath, diagnostic.file),
+                      uriBaseId: "%SRCROOT%",
+                    },
+                    ...(diagnostic.line === undefined
+                      ? {}
+                      : {
+                          region: {
+                            startColumn: diagnostic.column ?? 1,
+                            startLine: diagnostic.line,
+                          },
+                        }),
+                  },
+                },
+              ],
+            }),
+        properties: { package: report.label },
+      };
+    });
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    runs: [
+      {
+        results,
+        tool: {
+          driver: {
+            informationUri: "https://www.typescriptlang.org/",
+            name: "dler tsc",
+            rules: [...codes]
+              .sort((left, right) => left.localeCompare(right))
+              .map((code) => ({ id: code, name: code })),
+          },
+        },
+      },
+    ],
+    version: "2.1.0",
+  };
+}
+
+/**
+ * JUnit XML with one suite per package and one test case per file with diagnostics. A case fails
+ * only for new diagnostics; a failed run without parsable diagnostics fails the suite's
+ * `typecheck` case instead.
+ */
+export function createTscJunitReport(reports: readonly TscPackageReport[]): string {
+  let totalTests = 0;
+  let totalFailures = 0;
+  const suites: string[] = [];
+
+  for (const report of reports) {
+    const fresh = new Set(report.newDiagnostics);
+    const byFile = new Map<string, TscDiagnostic[]>();
+    for (const diagnostic of report.diagnostics) {
+      const file =
+        diagnostic.file === undefined
+          ? "typecheck"
+          : toRepositoryPath(report.packagePath, diagnostic.file);
+      byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+    }
+
+    const cases: string[] = [];
+    let failures = 0;
+
+    for (const [file, diagnostics] of [...byFile].sort(([left], [right]) =>
+      left.localeCompare(right),
+    )) {
+      const failing = diagnostics.filter((diagnostic) => fresh.has(diagnostic));
+      const name = escapeXml(file);
+      const classname = escapeXml(report.label);
+
+      if (failing.length === 0) {
+        cases.push(`    <testcase classname="${classname}" name="${name}" />`);
+        continue;
+      }
+
+      failures += 1;
+      const body = failing
+        .map(
+          (diagnostic) =>
+            `${diagnostic.line === undefined ? "" : `${diagnostic.line}:${diagnostic.column ?? 1} `}${diagnostic.code} ${diagnostic.message}`,
+        )
+        .join("\n");
+      cases.push(
+        `    <testcase classname="${classname}" name="${name}">`,
+        `      <failure message="${failing.length} new diagnostic${failing.length === 1 ? "" : "s"}" type="${escapeXml(failing[0]!.code)}">${escapeXml(body)}</failure>`,
+        "    </testcase>",
+      );
+    }
+
+    if (cases.length === 0) {
+      const classname = escapeXml(report.label);
+      if (report.ok) {
+        cases.push(`    <testcase classname="${classname}" name="typecheck" />`);
+      } else {
+        failures += 1;
+        cases.push(
+          `    <testcase classname="${classname}" name="typecheck">`,
+          `      <failure message="exit ${report.exitCode}" type="exit" />`,
+          "    </testcase>",
+        );
+      }
+    }
+
+    const tests = cases.filter((line) => line.startsWith("    <testcase")).length;
+    totalTests += tests;
+    totalFailures += failures;
+    suites.push(
+      `  <testsuite name="${escapeXml(report.label)}" tests="${tests}" failures="${failures}" time="${(report.durationMs / 1000).toFixed(3)}">`,
+      ...cases,
+      "  </testsuite>",
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dler tsc" tests="${totalTests}" failures="${totalFailures}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+export async function writeTscReport(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, "utf8");
+}
@@ -0,0 +1,71 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { ConventionalCommit } from "./commits";
+import type { PlannedRelease } from "./plan";
+
+const CHANGELOG_FILE = "CHANGELOG.md";
+const CHANGELOG_TITLE = "# Changelog";
+
+const COMMIT_SECTIONS = [
+  { title: "Features", type: "feat" },
+  { title: "Bug Fixes", type: "fix" },
+  { title: "Performance", type: "perf" },
+] as const;
+
+function formatCommitLine(commit: ConventionalCommit): string {
+  const scope = commit.scope ? `**${commit.scope}:** ` : "";
+  return `- ${scope}${commit.subject} (${commit.hash})`;
+}
+
+/**
+ * Markdown for one release: breaking changes first, then features, fixes, and performance
+ * commits, then the workspace dependencies released alongside it.
+ */
+export function renderChangelogSection(release: PlannedRelease, date: string): string {
+  const sections: Array<{ readonly lines: readonly string[]; readonly title: string }> = [
+    {
+      lines: release.commits.filter((commit) => commit.breaking).map(formatCommitLine),
+      title: "Breaking Changes",
+    },
+    ...COMMIT_SECTIONS.map((section) => ({
+      lines: release.commits
+        .filter((commit) => !commit.breaking && commit.type === section.type)
+        .map(formatCommitLine),
+      title: section.title,
+    })),
+    {
+      lines: release.dependencies.map(
+        (dependency) => `- Updated \`${dependency.name}\` to ${dependency.version}`,
+      ),
+      title: "Dependencies",
+    },
+  ];
+  const body = sections
+    .filter((section) => section.lines.length > 0)
+    .map((section) => [`### ${section.title}`, "", ...section.lines].join("\n"));
+
+  return [`## ${release.nextVersion} (${date})`, ...body].join("\n\n");
+}
+
+/**
+ * Inserts `section` above the newest entry of the package's CHANGELOG.md, below its title,
+ * creating the file when it does not exist. Returns the file path.
+ */
+export async function prependChangelogSection(cwd: string, section: string): Promise<string> {
+  const path = join(cwd, CHANGELOG_FILE);
+  const existing = await readFile(path, "utf8").catch((error: unknown) => {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return `${CHANGELOG_TITLE}\n`;
+    }
+
+    throw error;
+  });
+  const firstEntry = existing.search(/^## /m);
+  const head = (firstEntry === -1 ? existing : existing.slice(0, firstEntry)).trimEnd();
+  const rest = firstEntry === -1 ? "" : `\n${existing.slice(firstEntry).trimEnd()}\n`;
+
+  await writeFile(path, `${head ? `${head}\n\n` : ""}${section}\n${rest}`, "utf8");
+
+  return path;
+}
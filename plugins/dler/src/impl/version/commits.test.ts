@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+
+import { bumpVersion, classifyCommit, parseConventionalCommit } from "./commits";
+
+describe("conventional commits", () => {
+  test("parses type, scope, and breaking markers", () => {
+    expect(parseConventionalCommit("a1", "feat(core): add api")).toEqual({
+      breaking: false,
+      hash: "a1",
+      scope: "core",
+      subject: "add api",
+      type: "feat",
+    });
+    expect(parseConventionalCommit("a2", "fix!: drop node 18")?.breaking).toBe(true);
+    expect(
+      parseConventionalCommit("a3", "refactor: rename\n\nBREAKING CHANGE: renamed run")?.breaking,
+    ).toBe(true);
+    expect(parseConventionalCommit("a4", "Merge branch 'main'")).toBeUndefined();
+  });
+
+  test("classifies commits, with breaking changes minor before 1.0.0", () => {
+    const commit = (message: string) => parseConventionalCommit("h", message)!;
+
+    expect(classifyCommit(commit("feat!: x"), "1.2.3")).toBe("major");
+    expect(classifyCommit(commit("feat!: x"), "0.4.0")).toBe("minor");
+    expect(classifyCommit(commit("feat: x"), "1.2.3")).toBe("minor");
+    expect(classifyCommit(commit("perf: x"), "1.2.3")).toBe("patch");
+    expect(classifyCommit(commit("docs: x"), "1.2.3")).toBeUndefined();
+  });
+
+  test("bumps versions and releases prereleases as their base version", () => {
+    expect(bumpVersion("1.2.3", "major")).toBe("2.0.0");
+    expect(bumpVersion("1.2.3", "minor")).toBe("1.3.0");
+    expect(bumpVersion("1.2.3", "patch")).toBe("1.2.4");
+    expect(bumpVersion("2.0.0-beta.1", "major")).toBe("2.0.0");
+    expect(bumpVersion("1.3.0-rc.0", "major")).toBe("2.0.0");
+    expect(bumpVersion("1.2.4-rc.0", "patch")).toBe("1.2.4");
+    expect(() => bumpVersion("latest", "patch")).toThrow('Cannot bump version "latest"');
+  });
+});
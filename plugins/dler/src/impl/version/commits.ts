@@ -0,0 +1,155 @@
+import { gitRefExists, readGit } from "../git";
+
+export type VersionBump = "major" | "minor" | "patch";
+
+export interface ConventionalCommit {
+  readonly breaking: boolean;
+  /** Abbreviated commit hash. */
+  readonly hash: string;
+  readonly scope?: string | undefined;
+  readonly subject: string;
+  readonly type: string;
+}
+
+const BUMP_RANK: Readonly<Record<VersionBump, number>> = { major: 3, minor: 2, patch: 1 };
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE:/m;
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Field and record separators, which never occur in commit messages.
+const FIELD_SEPARATOR = "\u001f";
+const RECORD_SEPARATOR = "\u001e";
+
+/** Parses a `type(scope)!: subject` header; returns undefined for non-conventional commits. */
+export function parseConventionalCommit(
+  hash: string,
+  message: string,
+): ConventionalCommit | undefined {
+  const [header = "", ...body] = message.trim().split("\n");
+  const match = HEADER_PATTERN.exec(header.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, type, scope, bang, subject] = match;
+
+  return {
+    breaking: bang === "!" || BREAKING_FOOTER_PATTERN.test(body.join("\n")),
+    hash,
+    scope: scope?.trim() || undefined,
+    subject: subject!.trim(),
+    type: type!.toLowerCase(),
+  };
+}
+
+/**
+ * Breaking changes are major (minor before 1.0.0), `feat` is minor, and `fix` and `perf` are
+ * patch. Other types, such as `chore` or `docs`, do not release anything on their own.
+ */
+export function classifyCommit(
+  commit: ConventionalCommit,
+  currentVersion: string,
+): VersionBump | undefined {
+  if (commit.breaking) {
+    return currentVersion.startsWith("0.") ? "minor" : "major";
+  }
+
+  if (commit.type === "feat") {
+    return "minor";
+  }
+
+  return commit.type === "fix" || commit.type === "perf" ? "patch" : undefined;
+}
+
+export function maxBump(
+  left: VersionBump | undefined,
+  right: VersionBump | undefined,
+): VersionBump | undefined {
+  if (!left || !right) {
+    return left ?? right;
+  }
+
+  return BUMP_RANK[left] >= BUMP_RANK[right] ? left : right;
+}
+
+/**
+ * Increments a semver version like `npm version`: a prerelease is released as its own base
+ * version when that already carries the bump, e.g. `2.0.0-beta.1` + major = `2.0.0`.
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) {
+    throw new Error(`Cannot bump version "${version}": expected major.minor.patch.`);
+  }
+
+  const [major, minor, patch] = match.slice(1, 4).map(Number) as [number, number, number];
+  const prerelease = match[4] !== undefined;
+
+  if (bump === "major") {
+    return prerelease && minor === 0 && patch === 0 ? `${major}.0.0` : `${major + 1}.0.0`;
+  }
+
+  if (bump === "minor") {
+    return prerelease && patch === 0 ? `${major}.${minor}.0` : `${major}.${minor + 1}.0`;
+  }
+
+  return prerelease ? `${major}.${minor}.${patch}` : `${major}.${minor}.${patch + 1}`;
+}
+
+export function formatReleaseTag(packageName: string, version: string): string {
+  return `${packageName}@${version}`;
+}
+
+/**
+ * The tag of the package's current version when it exists, otherwise its highest release tag
+ * reachable from HEAD. Undefined when the package was never released.
+ */
+export async function findLastReleaseTag(
+  cwd: string,
+  packageName: string,
+  version: string,
+): Promise<string | undefined> {
+  const current = formatReleaseTag(packageName, version);
+  if (await gitRefExists(cwd, current)) {
+    return current;
+  }
+
+  const tags = await readGit(cwd, [
+    "tag",
+    "--list",
+    "--merged",
+    "HEAD",
+    "--sort=-version:refname",
+    `${packageName}@*`,
+  ]);
+
+  return tags.split("\n").find((tag) => tag.length > 0);
+}
+
+/**
+ * Conventional commits since `sinceTag` (the whole history when undefined) that touched
+ * `path`, newest first.
+ */
+export async function readConventionalCommits(
+  cwd: string,
+  options: { readonly path: string; readonly sinceTag?: string | undefined },
+): Promise<ConventionalCommit[]> {
+  const log = await readGit(cwd, [
+    "log",
+    `--format=%h${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+    options.sinceTag ? `${options.sinceTag}..HEAD` : "HEAD",
+    "--",
+    options.path,
+  ]);
+
+  return log
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0)
+    .flatMap((record) => {
+      const [hash = "", message = ""] = record.split(FIELD_SEPARATOR);
+      const commit = parseConventionalCommit(hash, message);
+      return commit ? [commit] : [];
+    });
+}
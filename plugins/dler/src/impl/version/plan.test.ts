@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseConventionalCommit } from "./commits";
+import { createVersionPlan, type VersionPackage } from "./plan";
+
+function pkg(
+  name: string,
+  options: Partial<Omit<VersionPackage, "commits">> & { readonly commits?: string[] } = {},
+): VersionPackage {
+  return {
+    cwd: `/repo/packages/${name}`,
+    label: `packages/${name}`,
+    packageName: name,
+    version: "1.0.0",
+    workspaceDependencies: [],
+    ...options,
+    commits: (options.commits ?? []).map((message, index) =>
+      parseConventionalCommit(`${name}${index}`, message)!,
+    ),
+  };
+}
+
+describe("createVersionPlan", () => {
+  test("cascades patch bumps only to dependents whose published range breaks", () => {
+    const plan = createVersionPlan([
+      pkg("app", {
+        workspaceDependencies: [{ field: "dependencies", name: "ui", specifier: "workspace:*" }],
+      }),
+      pkg("ui", {
+        workspaceDependencies: [
+          { field: "peerDependencies", name: "core", specifier: "workspace:~" },
+        ],
+      }),
+      pkg("core", { commits: ["feat: add api", "chore: tidy"] }),
+      pkg("cli", {
+        workspaceDependencies: [{ field: "dependencies", name: "core", specifier: "workspace:^" }],
+      }),
+      pkg("docs", {
+        version: undefined,
+        workspaceDependencies: [
+          { field: "devDependencies", name: "core", specifier: "workspace:1.0.0" },
+        ],
+      }),
+    ]);
+
+    expect(
+      plan.releases.map((release) => [release.label, release.nextVersion, release.reason]),
+    ).toEqual([
+      ["packages/core", "1.1.0", "commits"],
+      ["packages/ui", "1.0.1", "dependency"],
+    ]);
+    expect(plan.releases[0]?.commits.map((commit) => commit.subject)).toEqual(["add api"]);
+    expect(plan.releases[1]?.dependencies).toEqual([{ name: "core", version: "1.1.0" }]);
+    expect(plan.releases[1]?.tag).toBe("ui@1.0.1");
+    expect(plan.unchanged).toEqual(["packages/app", "packages/cli"]);
+    expect(plan.specifierUpdates).toEqual([
+      {
+        cwd: "/repo/packages/docs",
+        field: "devDependencies",
+        from: "workspace:1.0.0",
+        label: "packages/docs",
+        name: "core",
+        to: "workspace:1.1.0",
+      },
+    ]);
+  });
+
+  test("cascades through exact ranges until nothing else changes", () => {
+    const plan = createVersionPlan([
+      pkg("core", { commits: ["fix: typo"] }),
+      pkg("mid", {
+        workspaceDependencies: [
+          { field: "dependencies", name: "core", specifier: "workspace:1.0.0" },
+        ],
+      }),
+      pkg("top", {
+        workspaceDependencies: [
+          { field: "dependencies", name: "mid", specifier: "workspace:^1.0.0 <1.0.1" },
+        ],
+      }),
+    ]);
+
+    expect(plan.releases.map((release) => release.tag)).toEqual([
+      "core@1.0.1",
+      "mid@1.0.1",
+      "top@1.0.1",
+    ]);
+    expect(plan.specifierUpdates.map((update) => update.to)).toEqual([
+      "workspace:1.0.1",
+      "workspace:^1.0.1",
+    ]);
+  });
+});
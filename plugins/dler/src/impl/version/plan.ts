@@ -0,0 +1,303 @@
+import { readFile } from "node:fs/promises";
+import { relative, resolve, sep } from "node:path";
+
+import { orderByDependencies } from "../dependency-graph";
+import { resolvePublishedWorkspaceRange } from "../pub/workspace-deps";
+import type { RequestedTarget } from "../shared-targets";
+import {
+  bumpVersion,
+  classifyCommit,
+  findLastReleaseTag,
+  formatReleaseTag,
+  maxBump,
+  readConventionalCommits,
+  type ConventionalCommit,
+  type VersionBump,
+} from "./commits";
+
+export type WorkspaceDependencyField =
+  | "dependencies"
+  | "devDependencies"
+  | "optionalDependencies"
+  | "peerDependencies";
+
+export interface WorkspaceDependency {
+  readonly field: WorkspaceDependencyField;
+  readonly name: string;
+  readonly specifier: string;
+}
+
+export interface VersionPackage {
+  /** Conventional commits since `lastTag` that touched the package, newest first. */
+  readonly commits: readonly ConventionalCommit[];
+  readonly cwd: string;
+  readonly label: string;
+  readonly lastTag?: string | undefined;
+  readonly packageName: string;
+  /** Undefined for private packages and packages without a version; those never release. */
+  readonly version?: string | undefined;
+  readonly workspaceDependencies: readonly WorkspaceDependency[];
+}
+
+export interface PlannedRelease {
+  readonly bump: VersionBump;
+  /** Commits that caused the bump; empty when only a dependency release did. */
+  readonly commits: readonly ConventionalCommit[];
+  readonly currentVersion: string;
+  readonly cwd: string;
+  /** Workspace dependencies that also release, with their next versions. */
+  readonly dependencies: readonly { readonly name: string; readonly version: string }[];
+  readonly label: string;
+  readonly lastTag?: string | undefined;
+  readonly nextVersion: string;
+  readonly packageName: string;
+  readonly reason: "commits" | "dependency";
+  readonly tag: string;
+}
+
+export interface SpecifierUpdate {
+  readonly cwd: string;
+  readonly field: WorkspaceDependencyField;
+  readonly from: string;
+  readonly label: string;
+  readonly name: string;
+  readonly to: string;
+}
+
+export interface VersionPlan {
+  /** Releasing packages in workspace dependency order. */
+  readonly releases: readonly PlannedRelease[];
+  /** Explicit `workspace:` ranges, in any package, that the next versions no longer satisfy. */
+  readonly specifierUpdates: readonly SpecifierUpdate[];
+  /** Labels of releasable packages with nothing to release. */
+  readonly unchanged: readonly string[];
+}
+
+// Fields that reach the published manifest; devDependencies never break consumers.
+const PUBLISHED_DEPENDENCY_FIELDS: ReadonlySet<WorkspaceDependencyField> = new Set([
+  "dependencies",
+  "optionalDependencies",
+  "peerDependencies",
+]);
+
+const WORKSPACE_DEPENDENCY_FIELDS: readonly WorkspaceDependencyField[] = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+];
+
+const SHORTHAND_WORKSPACE_RANGES = new Set(["", "*", "^", "~"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readWorkspaceDependencies(manifest: Record<string, unknown>): WorkspaceDependency[] {
+  return WORKSPACE_DEPENDENCY_FIELDS.flatMap((field) => {
+    const entries = manifest[field];
+    if (!isRecord(entries)) {
+      return [];
+    }
+
+    return Object.entries(entries).flatMap(([name, specifier]) =>
+      typeof specifier === "string" && specifier.startsWith("workspace:")
+        ? [{ field, name, specifier }]
+        : [],
+    );
+  });
+}
+
+/**
+ * The `workspace:` specifier to write for `version` when an explicit range no longer matches
+ * it, keeping a `^` or `~` operator. Undefined when the specifier still matches or is a
+ * shorthand (`*`, `^`, `~`) that follows the version by itself.
+ */
+export function rewriteWorkspaceSpecifier(specifier: string, version: string): string | undefined {
+  const range = specifier.slice("workspace:".length).trim();
+  if (SHORTHAND_WORKSPACE_RANGES.has(range) || Bun.semver.satisfies(version, range)) {
+    return undefined;
+  }
+
+  const operator = range.startsWith("~") ? "~" : /^\d/.test(range) ? "" : "^";
+  return `workspace:${operator}${version}`;
+}
+
+/**
+ * Proposes a bump per releasable package from its commits, then cascades a patch bump to every
+ * package whose published range for a releasing workspace dependency would not accept the
+ * dependency's next version, until no more packages change.
+ */
+export function createVersionPlan(packages: readonly VersionPackage[]): VersionPlan {
+  const byName = new Map(packages.map((pkg) => [pkg.packageName, pkg]));
+  const bumps = new Map<string, VersionBump>();
+  const reasons = new Map<string, PlannedRelease["reason"]>();
+  const releasable = packages.filter((pkg) => pkg.version !== undefined);
+
+  for (const pkg of releasable) {
+    const bump = pkg.commits.reduce<VersionBump | undefined>(
+      (current, commit) => maxBump(current, classifyCommit(commit, pkg.version!)),
+      undefined,
+    );
+
+    if (bump) {
+      bumps.set(pkg.label, bump);
+      reasons.set(pkg.label, "commits");
+    }
+  }
+
+  const nextVersionOf = (pkg: VersionPackage | undefined): string | undefined => {
+    const bump = pkg ? bumps.get(pkg.label) : undefined;
+    return bump ? bumpVersion(pkg!.version!, bump) : undefined;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const pkg of releasable) {
+      if (bumps.has(pkg.label)) {
+        continue;
+      }
+
+      const breaks = pkg.workspaceDependencies.some((dependency) => {
+        const target = byName.get(dependency.name);
+        const nextVersion = nextVersionOf(target);
+
+        return (
+          PUBLISHED_DEPENDENCY_FIELDS.has(dependency.field) &&
+          nextVersion !== undefined &&
+          !Bun.semver.satisfies(
+            nextVersion,
+            resolvePublishedWorkspaceRange(dependency.specifier, target!.version!),
+          )
+        );
+      });
+
+      if (breaks) {
+        bumps.set(pkg.label, "patch");
+        reasons.set(pkg.label, "dependency");
+        changed = true;
+      }
+    }
+  }
+
+  const byLabel = new Map(packages.map((pkg) => [pkg.label, pkg]));
+  const order = orderByDependencies(
+    packages.map((pkg) => ({
+      dependsOn: pkg.workspaceDependencies.flatMap((dependency) => {
+        const target = byName.get(dependency.name);
+        return target ? [target.label] : [];
+      }),
+      label: pkg.label,
+    })),
+  );
+  const releases: PlannedRelease[] = [];
+  const specifierUpdates: SpecifierUpdate[] = [];
+
+  for (const label of order) {
+    const pkg = byLabel.get(label)!;
+
+    for (const dependency of pkg.workspaceDependencies) {
+      const nextVersion = nextVersionOf(byName.get(dependency.name));
+      const to = nextVersion
+        ? rewriteWorkspaceSpecifier(dependency.specifier, nextVersion)
+        : undefined;
+
+      if (to) {
+        specifierUpdates.push({
+          cwd: pkg.cwd,
+          field: dependency.field,
+          from: dependency.specifier,
+          label,
+          name: dependency.name,
+          to,
+        });
+      }
+    }
+
+    const bump = bumps.get(label);
+    if (!bump) {
+      continue;
+    }
+
+    const nextVersion = nextVersionOf(pkg)!;
+    const dependencies = new Map<string, string>();
+
+    for (const dependency of pkg.workspaceDependencies) {
+      const dependencyVersion = nextVersionOf(byName.get(dependency.name));
+      if (PUBLISHED_DEPENDENCY_FIELDS.has(dependency.field) && dependencyVersion) {
+        dependencies.set(dependency.name, dependencyVersion);
+      }
+    }
+
+    releases.push({
+      bump,
+      commits: pkg.commits.filter((commit) => classifyCommit(commit, pkg.version!) !== undefined),
+      currentVersion: pkg.version!,
+      cwd: pkg.cwd,
+      dependencies: [...dependencies].map(([name, version]) => ({ name, version })),
+      label,
+      lastTag: pkg.lastTag,
+      nextVersion,
+      packageName: pkg.packageName,
+      reason: reasons.get(label)!,
+      tag: formatReleaseTag(pkg.packageName, nextVersion),
+    });
+  }
+
+  return {
+    releases,
+    specifierUpdates,
+    unchanged: releasable.filter((pkg) => !bumps.has(pkg.label)).map((pkg) => pkg.label),
+  };
+}
+
+/**
+ * Reads the manifest of every workspace package plus, for releasable packages in `releaseCwds`
+ * (all of them when omitted), the last release tag and the conventional commits since it.
+ * Packages without a name are left out.
+ */
+export async function readVersionPackages(options: {
+  readonly releaseCwds?: ReadonlySet<string> | undefined;
+  readonly rootDir: string;
+  readonly targets: readonly RequestedTarget[];
+}): Promise<VersionPackage[]> {
+  const packages: VersionPackage[] = [];
+
+  for (const target of options.targets) {
+    const manifest = JSON.parse(
+      await readFile(resolve(target.cwd, "package.json"), "utf8"),
+    ) as unknown;
+
+    if (!isRecord(manifest) || typeof manifest.name !== "string") {
+      continue;
+    }
+
+    const version =
+      manifest.private !== true && typeof manifest.version === "string"
+        ? manifest.version
+        : undefined;
+    const selected =
+      version !== undefined &&
+      (!options.releaseCwds || options.releaseCwds.has(resolve(target.cwd)));
+    const lastTag = selected
+      ? await findLastReleaseTag(options.rootDir, manifest.name, version)
+      : undefined;
+    const path = relative(options.rootDir, target.cwd).split(sep).join("/") || ".";
+
+    packages.push({
+      commits: selected
+        ? await readConventionalCommits(options.rootDir, { path, sinceTag: lastTag })
+        : [],
+      cwd: target.cwd,
+      label: target.label,
+      lastTag,
+      packageName: manifest.name,
+      version,
+      workspaceDependencies: readWorkspaceDependencies(manifest),
+    });
+  }
+
+  return packages;
+}
@@ -0,0 +1,134 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+
+import { gitRefExists, readGit } from "../git";
+import { syncPackageJsonVersion } from "../pub/source-version";
+import { prependChangelogSection, renderChangelogSection } from "./changelog";
+import type { SpecifierUpdate, VersionPlan } from "./plan";
+
+export interface VersionReleaseCommit {
+  /** Abbreviated hash of the release commit. */
+  readonly commit: string;
+  readonly tags: readonly string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function writeSpecifierUpdates(
+  cwd: string,
+  updates: readonly SpecifierUpdate[],
+): Promise<void> {
+  const packageJsonPath = join(cwd, "package.json");
+  const manifest = JSON.parse(await readFile(packageJsonPath, "utf8")) as unknown;
+
+  if (!isRecord(manifest)) {
+    throw new Error(`Expected ${packageJsonPath} to contain a JSON object.`);
+  }
+
+  for (const update of updates) {
+    const dependencies = manifest[update.field];
+    if (isRecord(dependencies)) {
+      dependencies[update.name] = update.to;
+    }
+  }
+
+  await writeFile(packageJsonPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+}
+
+/** Every file `writeVersionPlan` would change, relative to `rootDir` with `/` separators. */
+export function listVersionPlanFiles(rootDir: string, plan: VersionPlan): string[] {
+  const files = new Set<string>();
+  const add = (path: string) => files.add(relative(rootDir, path).split(sep).join("/"));
+
+  for (const release of plan.releases) {
+    add(join(release.cwd, "package.json"));
+    add(join(release.cwd, "CHANGELOG.md"));
+  }
+
+  for (const update of plan.specifierUpdates) {
+    add(join(update.cwd, "package.json"));
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * Writes the next versions and rewritten `workspace:` ranges to each package.json and prepends
+ * a release entry dated `date` to each released package's CHANGELOG.md.
+ */
+export async function writeVersionPlan(
+  plan: VersionPlan,
+  options: { readonly date: string },
+): Promise<void> {
+  const updatesByCwd = new Map<string, SpecifierUpdate[]>();
+
+  for (const update of plan.specifierUpdates) {
+    updatesByCwd.set(update.cwd, [...(updatesByCwd.get(update.cwd) ?? []), update]);
+  }
+
+  for (const release of plan.releases) {
+    await syncPackageJsonVersion(release.cwd, release.nextVersion);
+  }
+
+  for (const [cwd, updates] of updatesByCwd) {
+    await writeSpecifierUpdates(cwd, updates);
+  }
+
+  for (const release of plan.releases) {
+    await prependChangelogSection(release.cwd, renderChangelogSection(release, options.date));
+  }
+}
+
+/** Files among `files` with uncommitted changes, so a release commit would sweep them in. */
+export async function listUncommittedFiles(
+  rootDir: string,
+  files: readonly string[],
+): Promise<string[]> {
+  const [changed, untracked] = await Promise.all([
+    readGit(rootDir, ["diff", "--name-only", "HEAD", "--", ...files]),
+    readGit(rootDir, ["ls-files", "--others", "--exclude-standard", "--", ...files]),
+  ]);
+
+  return [...new Set([...changed.split("\n"), ...untracked.split("\n")])]
+    .filter((file) => file.length > 0)
+    .sort();
+}
+
+export async function findExistingReleaseTags(
+  rootDir: string,
+  plan: VersionPlan,
+): Promise<string[]> {
+  const existing: string[] = [];
+
+  for (const release of plan.releases) {
+    if (await gitRefExists(rootDir, `refs/tags/${release.tag}`)) {
+      existing.push(release.tag);
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Commits only `files` as `chore(release): publish` and creates an annotated tag per release
+ * on that commit.
+ */
+export async function commitAndTagReleases(
+  rootDir: string,
+  plan: VersionPlan,
+  files: readonly string[],
+): Promise<VersionReleaseCommit> {
+  const tags = plan.releases.map((release) => release.tag);
+  const message = ["chore(release): publish", "", ...tags.map((tag) => `- ${tag}`)].join("\n");
+
+  await readGit(rootDir, ["add", "--", ...files]);
+  await readGit(rootDir, ["commit", "--quiet", "-m", message, "--", ...files]);
+
+  for (const tag of tags) {
+    await readGit(rootDir, ["tag", "--annotate", "--message", tag, tag]);
+  }
+
+  return { commit: await readGit(rootDir, ["rev-parse", "--short", "HEAD"]), tags };
+}
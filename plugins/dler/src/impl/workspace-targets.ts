@@ -81,9 +81,9 @@ function toTarget(rootDir: string, packageDir: string): RequestedTarget {
   };
 }
 
-export async function resolveWorkspaceTargetsFromCwd(cwd: string): Promise<{
+async function readWorkspacePackageDirs(cwd: string): Promise<{
+  readonly packageDirs: readonly string[];
   readonly rootDir: string;
-  readonly targets: readonly RequestedTarget[];
 }> {
   const workspace = await readWorkspaceRootConfig(cwd);
   if (!workspace) {
@@ -100,8 +100,28 @@ export async function resolveWorkspaceTargetsFromCwd(cwd: string): Promise<{
     );
   }
 
+  return { packageDirs, rootDir: workspace.rootDir };
+}
+
+/** Every workspace package, regardless of which package `cwd` is in. */
+export async function resolveAllWorkspaceTargets(cwd: string): Promise<{
+  readonly rootDir: string;
+  readonly targets: readonly RequestedTarget[];
+}> {
+  const { packageDirs, rootDir } = await readWorkspacePackageDirs(cwd);
+
+  return {
+    rootDir,
+    targets: packageDirs.map((packageDir) => toTarget(rootDir, packageDir)),
+  };
+}
+
+export async function resolveWorkspaceTargetsFromCwd(cwd: string): Promise<{
+  readonly rootDir: string;
+  readonly targets: readonly RequestedTarget[];
+}> {
+  const { packageDirs, rootDir } = await readWorkspacePackageDirs(cwd);
   const normalizedCwd = resolve(cwd);
-  const rootDir = workspace.rootDir;
 
   if (normalizedCwd === rootDir) {
     return {
@@ -1,22 +1,37 @@
 import { definePlugin, REMPTS_PLUGIN_API_VERSION } from "@reliverse/rempts";
 
-import buildCommand from "./cmds/build/cmd";
+import apiDiffCommand from "./cmds/dler/api-diff/cmd";
+import buildCommand from "./cmds/dler/build/cmd";
+import cacheCommand from "./cmds/dler/cache/cmd";
+import cachePruneCommand from "./cmds/dler/cache/prune/cmd";
+import cacheStatsCommand from "./cmds/dler/cache/stats/cmd";
 import pubCommand from "./cmds/dler/pub/cmd";
+import pubJournalCommand from "./cmds/dler/pub/journal/cmd";
 import pubOnboardCommand from "./cmds/dler/pub/onboard/cmd";
+import tscCommand from "./cmds/dler/tsc/cmd";
+import versionCommand from "./cmds/dler/version/cmd";
 
 export default definePlugin({
     apiVersion: REMPTS_PLUGIN_API_VERSION,
     capabilities: ["build", "publish", "workspace-targets"],
     commands: [
+        { path: ["api-diff"], command: apiDiffCommand },
         { path: ["build"], command: buildCommand },
+        { path: ["cache"], command: cacheCommand },
+        { path: ["cache", "prune"], command: cachePruneCommand },
+        { path: ["cache", "stats"], command: cacheStatsCommand },
         { path: ["pub"], command: pubCommand },
         { path: ["tsc"], command: tscCommand },
+        { path: ["version"], command: versionCommand },
         { path: ["pub", "onboard"], command: pubOnboardCommand },
+        { path: ["pub", "journal"], command: pubJournalCommand },
     ],
     config: {
         defaults: {
             dler: {
+                buildProviders: {},
                 publishOrder: [],
+                sizeBudgets: {},
             },
         },
         schema: {
@@ -27,6 +42,15 @@ export default definePlugin({
                     description:
                         "Configuration consumed by @reliverse/dler-rse-plugin.",
                     properties: {
+                        buildProviders: {
+                            type: "object",
+                            description:
+                                "Build provider per workspace package path or glob (for example \"plugins/*\": \"tsdown\"). An explicit --provider flag overrides it.",
+                            additionalProperties: {
+                                type: "string",
+                            },
+                            default: {},
+                        },
                         publishOrder: {
                             type: "array",
                             description:
@@ -36,6 +60,39 @@ export default definePlugin({
                             },
                             default: [],
                         },
+                        sizeBudgets: {
+                            type: "object",
+                            description:
+                                "Publish tarball size budgets per workspace package path or glob. dler pub skips packages that exceed them. Sizes are byte counts or strings such as \"150 KB\".",
+                            additionalProperties: {
+                                type: "object",
+                                additionalProperties: false,
+                                properties: {
+                                    maxUnpackedSize: {
+                                        type: ["number", "string"],
+                                        description: "Maximum total unpacked size of the tarball.",
+                                    },
+                                    maxFiles: {
+                                        type: "integer",
+                                        minimum: 0,
+                                        description: "Maximum number of files in the tarball.",
+                                    },
+                                    maxFileSize: {
+                                        type: ["number", "string"],
+                                        description: "Maximum size of the largest file.",
+                                    },
+                                    files: {
+                                        type: "object",
+                                        description:
+                                            "Maximum total size of the files matching each glob, relative to the tarball root (for example \"dist/**/*.d.ts\").",
+                                        additionalProperties: {
+                                            type: ["number", "string"],
+                                        },
+                                    },
+                                },
+                            },
+                            default: {},
+                        },
                     },
                 },
             },
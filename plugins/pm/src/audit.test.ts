@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  auditBunLockPackages,
+  cvssV3BaseScore,
+  loadAdvisoryDatabase,
+  planAuditFixes,
+  type AdvisoryDatabase,
+} from "./audit";
+import { parseBunLockGraph } from "./lock-graph";
+
+const ADVISORIES = [
+  {
+    id: "GHSA-left-0001",
+    aliases: ["CVE-2026-0001"],
+    summary: "Prototype pollution in left",
+    database_specific: { severity: "MODERATE" },
+    references: [
+      { type: "WEB", url: "https://example.com/left" },
+      { type: "ADVISORY", url: "https://github.com/advisories/GHSA-left-0001" },
+    ],
+    affected: [
+      {
+        package: { ecosystem: "npm", name: "left" },
+        ranges: [
+          { type: "SEMVER", events: [{ introduced: "0" }, { fixed: "1.2.0" }] },
+          { type: "SEMVER", events: [{ introduced: "2.0.0" }, { fixed: "2.0.5" }] },
+        ],
+      },
+      {
+        package: { ecosystem: "PyPI", name: "left" },
+        ranges: [{ type: "ECOSYSTEM", events: [{ introduced: "0" }] }],
+      },
+    ],
+  },
+  {
+    id: "OSV-deep-0002",
+    severity: [{ type: "CVSS_V3", score: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H" }],
+    affected: [
+      {
+        package: { ecosystem: "npm", name: "deep" },
+        ranges: [{ type: "SEMVER", events: [{ introduced: "1.0.0" }, { last_affected: "1.0.3" }] }],
+        versions: ["0.9.0-legacy"],
+      },
+    ],
+  },
+  {
+    id: "GHSA-withdrawn",
+    withdrawn: "2026-01-01T00:00:00Z",
+    affected: [{ package: { ecosystem: "npm", name: "left" }, versions: ["1.0.0"] }],
+  },
+];
+
+const LOCKFILE = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "demo", "dependencies": { "left": "^1.0.0", "wrapper": "^1.0.0" } },
+  },
+  "packages": {
+    "deep": ["deep@1.0.3", "", {}, "sha512-deep"],
+    "left": ["left@1.1.0", "", {}, "sha512-left"],
+    "wrapper": ["wrapper@1.0.0", "", { "dependencies": { "deep": "^1.0.0", "left": "^2.0.0" } }, "sha512-wrapper"],
+    "wrapper/left": ["left@2.0.4", "", {}, "sha512-left2"],
+  },
+}
+`;
+
+async function withDatabase<T>(callback: (database: AdvisoryDatabase) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pm-audit-test-"));
+
+  try {
+    await mkdir(join(dir, "npm", "nested"), { recursive: true });
+    await writeFile(join(dir, "npm", "GHSA-left-0001.json"), JSON.stringify(ADVISORIES[0]));
+    await writeFile(
+      join(dir, "npm", "nested", "more.json"),
+      JSON.stringify({ vulns: ADVISORIES.slice(1) }),
+    );
+    await writeFile(join(dir, "npm", "README.md"), "not an advisory");
+
+    return await callback(await loadAdvisoryDatabase(join(dir, "npm")));
+  } finally {
+    await rm(dir, { force: true, recursive: true });
+  }
+}
+
+describe("pm audit", () => {
+  test("computes CVSS v3 base scores", () => {
+    expect(cvssV3BaseScore("CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H")).toBe(9.8);
+    expect(cvssV3BaseScore("CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H")).toBe(10);
+    expect(cvssV3BaseScore("CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N")).toBe(5.5);
+    expect(cvssV3BaseScore("CVSS:3.0/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N")).toBe(3.7);
+    expect(cvssV3BaseScore("CVSS:4.0/AV:N")).toBeUndefined();
+  });
+
+  test("matches installed versions against OSV ranges from a directory dump", async () => {
+    await withDatabase(async (database) => {
+      expect(database.advisories).toBe(2);
+
+      const findings = auditBunLockPackages(database, [
+        { name: "deep", version: "1.0.3" },
+        { name: "deep", version: "1.0.4" },
+        { name: "deep", version: "0.9.0-legacy" },
+        { name: "left", version: "1.1.0" },
+        { name: "left", version: "1.2.0" },
+        { name: "left", version: "2.0.4" },
+      ]);
+
+      expect(
+        findings.map((finding) => [
+          finding.packageName,
+          finding.version,
+          finding.severity,
+          finding.fixedVersions,
+        ]),
+      ).toEqual([
+        ["deep", "0.9.0-legacy", "critical", []],
+        ["deep", "1.0.3", "critical", []],
+        ["left", "1.1.0", "medium", ["1.2.0", "2.0.5"]],
+        ["left", "2.0.4", "medium", ["2.0.5"]],
+      ]);
+      expect(findings[2]).toMatchObject({
+        advisoryId: "GHSA-left-0001",
+        affectedRanges: [">=0 <1.2.0", ">=2.0.0 <2.0.5"],
+        aliases: ["CVE-2026-0001"],
+        summary: "Prototype pollution in left",
+        url: "https://github.com/advisories/GHSA-left-0001",
+      });
+    });
+  });
+
+  test("plans safe-latest updates for direct dependencies only", async () => {
+    await withDatabase(async (database) => {
+      const findings = auditBunLockPackages(database, [
+        { name: "deep", version: "1.0.3" },
+        { name: "left", version: "1.1.0" },
+        { name: "left", version: "2.0.4" },
+      ]);
+      const resolved: string[] = [];
+      const plan = await planAuditFixes({
+        database,
+        findings,
+        graph: parseBunLockGraph(LOCKFILE),
+        async resolveSafeVersion(packageName) {
+          resolved.push(packageName);
+          return "2.1.0";
+        },
+      });
+
+      expect(resolved).toEqual(["left"]);
+      expect(plan).toEqual({
+        command: "rse update --only left --safe-latest",
+        fixes: [
+          { packageName: "deep", status: "transitive", versions: ["1.0.3"], via: ["wrapper"] },
+          {
+            packageName: "left",
+            safeVersion: "2.1.0",
+            status: "update",
+            versions: ["1.1.0", "2.0.4"],
+            via: ["wrapper"],
+          },
+        ],
+      });
+
+      const blocked = await planAuditFixes({
+        database,
+        findings,
+        graph: parseBunLockGraph(LOCKFILE),
+        resolveSafeVersion: async () => "2.0.1",
+      });
+      expect(blocked.command).toBeUndefined();
+      expect(blocked.fixes[1]).toMatchObject({
+        reason: "safeLatestStillAffected:GHSA-left-0001",
+        status: "blocked",
+      });
+    });
+  });
+});
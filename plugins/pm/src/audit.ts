@@ -0,0 +1,497 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+import type { BunLockGraph } from "./lock-graph";
+import type { SocketSeverity } from "./safe/latest";
+import type { BunLockPackage } from "./verify-lock";
+
+/** One `affected[]` entry of an OSV record, narrowed to the npm package it names. */
+interface AdvisoryAffected {
+  readonly ranges: readonly {
+    readonly events: readonly Readonly<Record<string, string>>[];
+    readonly type: string;
+  }[];
+  readonly severity?: SocketSeverity | undefined;
+  readonly versions: readonly string[];
+}
+
+export interface Advisory {
+  readonly affected: readonly AdvisoryAffected[];
+  readonly aliases: readonly string[];
+  readonly id: string;
+  readonly packageName: string;
+  readonly severity?: SocketSeverity | undefined;
+  readonly summary?: string | undefined;
+  readonly url?: string | undefined;
+}
+
+export interface AdvisoryDatabase {
+  /** Number of npm advisories loaded, counting each affected package once. */
+  readonly advisories: number;
+  readonly byPackage: ReadonlyMap<string, readonly Advisory[]>;
+  readonly path: string;
+}
+
+export interface AuditFinding {
+  readonly advisoryId: string;
+  readonly affectedRanges: readonly string[];
+  readonly aliases: readonly string[];
+  /** Fixed versions above the installed one, lowest first. */
+  readonly fixedVersions: readonly string[];
+  readonly packageName: string;
+  readonly severity: SocketSeverity;
+  readonly summary?: string | undefined;
+  readonly url?: string | undefined;
+  readonly version: string;
+}
+
+export interface AuditFix {
+  readonly packageName: string;
+  readonly reason?: string | undefined;
+  /** Safe-latest version `rse update` would pick, when it no longer matches an advisory. */
+  readonly safeVersion?: string | undefined;
+  readonly status: "blocked" | "transitive" | "update";
+  readonly versions: readonly string[];
+  /** Direct dependencies that pull in a vulnerable copy transitively. */
+  readonly via: readonly string[];
+}
+
+export interface AuditFixPlan {
+  /** `rse update --only` invocation covering every fix with status `update`. */
+  readonly command?: string | undefined;
+  readonly fixes: readonly AuditFix[];
+}
+
+const SEVERITY_RANK: Readonly<Record<SocketSeverity, number>> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+const CVSS_V3_WEIGHTS: Readonly<Record<string, Readonly<Record<string, number>>>> = {
+  AV: { A: 0.62, L: 0.55, N: 0.85, P: 0.2 },
+  AC: { H: 0.44, L: 0.77 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function readStringArray(value: unknown): readonly string[] {
+  return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
+
+/** Maps GitHub-style `database_specific.severity` labels; `MODERATE` is their medium. */
+function parseSeverityLabel(value: unknown): SocketSeverity | undefined {
+  if (typeof value !== "string") return undefined;
+
+  const label = value.trim().toLowerCase();
+  if (label === "moderate" || label === "middle") return "medium";
+  if (label === "low" || label === "medium" || label === "high" || label === "critical") {
+    return label;
+  }
+  return undefined;
+}
+
+/** Base score of a CVSS 3.x vector such as `CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`. */
+export function cvssV3BaseScore(vector: string): number | undefined {
+  if (!vector.startsWith("CVSS:3.")) return undefined;
+
+  const metrics = new Map(
+    vector
+      .split("/")
+      .slice(1)
+      .map((part) => part.split(":") as [string, string]),
+  );
+  const weight = (metric: string) => CVSS_V3_WEIGHTS[metric]?.[metrics.get(metric) ?? ""];
+  const changed = metrics.get("S") === "C";
+  const privileges = { H: changed ? 0.5 : 0.27, L: changed ? 0.68 : 0.62, N: 0.85 }[
+    metrics.get("PR") as "H" | "L" | "N"
+  ];
+  const [av, ac, ui, c, i, a] = ["AV", "AC", "UI", "C", "I", "A"].map(weight);
+
+  if ([av, ac, ui, c, i, a, privileges].some((value) => value === undefined)) return undefined;
+
+  const iss = 1 - (1 - c!) * (1 - i!) * (1 - a!);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * (iss - 0.02) ** 15 : 6.42 * iss;
+  const exploitability = 8.22 * av! * ac! * privileges! * ui!;
+
+  if (impact <= 0) return 0;
+
+  const roundUp = (value: number) => Math.ceil(Math.round(value * 100_000) / 10_000) / 10;
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+export function meetsSeverityThreshold(
+  severity: SocketSeverity,
+  threshold: SocketSeverity,
+): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+/** Reads a `--*-severity-threshold` flag value; `middle` is accepted as an alias for medium. */
+export function normalizeSeverityThreshold(
+  value: unknown,
+  flag: string,
+  exit: (code: number, message: string) => never,
+): SocketSeverity | undefined {
+  if (value === undefined) return undefined;
+
+  const severity = typeof value === "string" ? value.trim() : "";
+  if (severity === "middle") return "medium";
+  if (Object.hasOwn(SEVERITY_RANK, severity)) return severity as SocketSeverity;
+
+  return exit(1, `Invalid ${flag}: use "low", "medium"/"middle", "high", or "critical".`);
+}
+
+function severityFromScore(score: number): SocketSeverity {
+  if (score >= 9) return "critical";
+  if (score >= 7) return "high";
+  if (score >= 4) return "medium";
+  return "low";
+}
+
+function parseRecordSeverity(record: Record<string, unknown>): SocketSeverity | undefined {
+  const label = parseSeverityLabel(
+    isObject(record.database_specific) ? record.database_specific.severity : undefined,
+  );
+  if (label) return label;
+
+  const scores = (Array.isArray(record.severity) ? record.severity : []).flatMap((entry) =>
+    isObject(entry) && entry.type === "CVSS_V3" && typeof entry.score === "string"
+      ? [cvssV3BaseScore(entry.score)].filter((score) => score !== undefined)
+      : [],
+  );
+  return scores.length > 0 ? severityFromScore(Math.max(...scores)) : undefined;
+}
+
+/**
+ * Reads the npm advisories of one OSV record, one per affected package. Records for other
+ * ecosystems, withdrawn records, and values that are not OSV records yield nothing.
+ */
+export function parseOsvRecord(value: unknown): readonly Advisory[] {
+  if (!isObject(value) || typeof value.id !== "string" || !Array.isArray(value.affected)) {
+    return [];
+  }
+  if (typeof value.withdrawn === "string") return [];
+
+  const severity = parseRecordSeverity(value);
+  const references = Array.isArray(value.references) ? value.references : [];
+  const advisoryReference = references.find(
+    (reference) => isObject(reference) && reference.type === "ADVISORY",
+  );
+  const firstReference = isObject(advisoryReference) ? advisoryReference : references[0];
+  const byPackage = new Map<string, AdvisoryAffected[]>();
+
+  for (const affected of value.affected) {
+    if (!isObject(affected) || !isObject(affected.package)) continue;
+    if (affected.package.ecosystem !== "npm" || typeof affected.package.name !== "string") {
+      continue;
+    }
+
+    const entries = byPackage.get(affected.package.name) ?? [];
+    entries.push({
+      ranges: (Array.isArray(affected.ranges) ? affected.ranges : []).flatMap((range) =>
+        isObject(range) && typeof range.type === "string" && Array.isArray(range.events)
+          ? [
+              {
+                events: range.events.filter(
+                  (event): event is Record<string, string> =>
+                    isObject(event) &&
+                    Object.values(event).every((item) => typeof item === "string"),
+                ),
+                type: range.type,
+              },
+            ]
+          : [],
+      ),
+      severity: parseSeverityLabel(
+        isObject(affected.database_specific) ? affected.database_specific.severity : undefined,
+      ),
+      versions: readStringArray(affected.versions),
+    });
+    byPackage.set(affected.package.name, entries);
+  }
+
+  return [...byPackage].map(([packageName, affected]) => ({
+    affected,
+    aliases: readStringArray(value.aliases),
+    id: value.id as string,
+    packageName,
+    severity,
+    summary: typeof value.summary === "string" ? value.summary : undefined,
+    url:
+      isObject(firstReference) && typeof firstReference.url === "string"
+        ? firstReference.url
+        : undefined,
+  }));
+}
+
+function compareVersions(left: string, right: string): number | undefined {
+  if (left === "0") return right === "0" ? 0 : -1;
+  if (right === "0") return 1;
+
+  try {
+    return Bun.semver.order(left, right);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Applies OSV range semantics: events are replayed in version order, `introduced` opens an
+ * affected interval, `fixed` closes it before that version and `last_affected` after it.
+ */
+function isAffected(affected: AdvisoryAffected, version: string): boolean {
+  if (affected.versions.includes(version)) return true;
+
+  return affected.ranges.some((range) => {
+    if (range.type !== "SEMVER" && range.type !== "ECOSYSTEM") return false;
+
+    let vulnerable = false;
+    const events = range.events
+      .map((event) => {
+        const [kind, eventVersion] = Object.entries(event)[0] ?? [];
+        return kind && eventVersion ? { kind, version: eventVersion } : undefined;
+      })
+      .filter((event) => event !== undefined)
+      .sort((left, right) => compareVersions(left.version, right.version) ?? 0);
+
+    for (const event of events) {
+      const order = compareVersions(version, event.version);
+      if (order === undefined) continue;
+
+      if (event.kind === "introduced" && order >= 0) vulnerable = true;
+      else if (event.kind === "fixed" && order >= 0) vulnerable = false;
+      else if (event.kind === "last_affected" && order > 0) vulnerable = false;
+    }
+
+    return vulnerable;
+  });
+}
+
+function formatRange(range: AdvisoryAffected["ranges"][number]): string {
+  return range.events
+    .map((event) => {
+      const [kind, version] = Object.entries(event)[0] ?? [];
+      if (kind === "introduced") return `>=${version}`;
+      if (kind === "fixed") return `<${version}`;
+      if (kind === "last_affected") return `<=${version}`;
+      return undefined;
+    })
+    .filter((part) => part !== undefined)
+    .join(" ");
+}
+
+/** Advisories matching `name@version`, with the entries of the record that matched. */
+function matchAdvisories(
+  database: AdvisoryDatabase,
+  packageName: string,
+  version: string,
+): readonly { advisory: Advisory; affected: readonly AdvisoryAffected[] }[] {
+  return (database.byPackage.get(packageName) ?? []).flatMap((advisory) => {
+    const affected = advisory.affected.filter((entry) => isAffected(entry, version));
+    return affected.length > 0 ? [{ advisory, affected }] : [];
+  });
+}
+
+async function listJsonFiles(directory: string): Promise<readonly string[]> {
+  const entries = await readdir(directory, { recursive: true, withFileTypes: true });
+
+  return entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => join(entry.parentPath, entry.name))
+    .sort();
+}
+
+/**
+ * Loads OSV advisories from a JSON file or a directory of them, such as an unpacked osv.dev
+ * ecosystem dump. A file may hold one record, an array of records, or `{ "vulns": [...] }`.
+ */
+export async function loadAdvisoryDatabase(path: string): Promise<AdvisoryDatabase> {
+  const databasePath = resolve(path);
+  const files = (await stat(databasePath)).isDirectory()
+    ? await listJsonFiles(databasePath)
+    : [databasePath];
+  const byPackage = new Map<string, Advisory[]>();
+  let advisories = 0;
+
+  for (const file of files) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(file, "utf8")) as unknown;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${file} is not valid JSON: ${message}`);
+    }
+
+    const records = Array.isArray(parsed)
+      ? parsed
+      : isObject(parsed) && Array.isArray(parsed.vulns)
+        ? parsed.vulns
+        : [parsed];
+
+    for (const advisory of records.flatMap(parseOsvRecord)) {
+      const entries = byPackage.get(advisory.packageName) ?? [];
+      entries.push(advisory);
+      byPackage.set(advisory.packageName, entries);
+      advisories += 1;
+    }
+  }
+
+  return { advisories, byPackage, path: databasePath };
+}
+
+/**
+ * Matches installed packages against the database. Advisories without a usable severity count
+ * as high so they are not silently dropped by a severity threshold.
+ */
+export function auditBunLockPackages(
+  database: AdvisoryDatabase,
+  packages: readonly Pick<BunLockPackage, "name" | "version">[],
+): readonly AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  for (const pkg of packages) {
+    for (const { advisory, affected } of matchAdvisories(database, pkg.name, pkg.version)) {
+      const ranges = affected.flatMap((entry) => entry.ranges);
+      const fixedVersions = [
+        ...new Set(
+          ranges.flatMap((range) =>
+            range.events.flatMap((event) =>
+              typeof event.fixed === "string" &&
+              (compareVersions(event.fixed, pkg.version) ?? 0) > 0
+                ? [event.fixed]
+                : [],
+            ),
+          ),
+        ),
+      ].sort((left, right) => compareVersions(left, right) ?? 0);
+      const severities = affected.flatMap((entry) => (entry.severity ? [entry.severity] : []));
+
+      findings.push({
+        advisoryId: advisory.id,
+        affectedRanges: ranges.map(formatRange).filter((range) => range.length > 0),
+        aliases: advisory.aliases,
+        fixedVersions,
+        packageName: pkg.name,
+        severity:
+          severities.sort((left, right) => SEVERITY_RANK[right] - SEVERITY_RANK[left])[0] ??
+          advisory.severity ??
+          "high",
+        summary: advisory.summary,
+        url: advisory.url,
+        version: pkg.version,
+      });
+    }
+  }
+
+  return findings.sort(
+    (left, right) =>
+      SEVERITY_RANK[right.severity] - SEVERITY_RANK[left.severity] ||
+      left.packageName.localeCompare(right.packageName) ||
+      (compareVersions(left.version, right.version) ?? 0) ||
+      left.advisoryId.localeCompare(right.advisoryId),
+  );
+}
+
+/**
+ * Works out which findings `rse update --only <names> --safe-latest` resolves. A package
+ * qualifies when a workspace depends on a vulnerable copy directly and the version safe-latest
+ * selects matches no advisory; vulnerable copies that only arrive transitively list the direct
+ * dependencies that pull them in instead.
+ */
+export async function planAuditFixes(options: {
+  readonly database: AdvisoryDatabase;
+  readonly findings: readonly AuditFinding[];
+  readonly graph: BunLockGraph;
+  /** Version `rse update --safe-latest` would select under the current policy. */
+  readonly resolveSafeVersion: (packageName: string) => Promise<string>;
+}): Promise<AuditFixPlan> {
+  const { nodes, workspaces } = options.graph;
+  const workspaceKeys = new Set(workspaces.map((workspace) => workspace.key));
+  const directKeys = new Set(
+    workspaces.flatMap(
+      (workspace) =>
+        nodes
+          .get(workspace.key)
+          ?.edges.filter((edge) => !workspaceKeys.has(edge.key))
+          .map((edge) => edge.key) ?? [],
+    ),
+  );
+  const dependents = new Map<string, string[]>();
+  for (const [key, node] of nodes) {
+    for (const edge of node.edges) {
+      const parents = dependents.get(edge.key) ?? [];
+      parents.push(key);
+      dependents.set(edge.key, parents);
+    }
+  }
+
+  const versionsByPackage = new Map<string, Set<string>>();
+  for (const finding of options.findings) {
+    const versions = versionsByPackage.get(finding.packageName) ?? new Set<string>();
+    versions.add(finding.version);
+    versionsByPackage.set(finding.packageName, versions);
+  }
+
+  const fixes: AuditFix[] = [];
+  for (const [packageName, versions] of versionsByPackage) {
+    const vulnerableKeys = [...nodes.values()]
+      .filter((node) => node.name === packageName && versions.has(node.version))
+      .map((node) => node.key);
+    const via = new Set<string>();
+    const visited = new Set(vulnerableKeys);
+    const queue = vulnerableKeys.filter((key) => !directKeys.has(key));
+
+    while (queue.length > 0) {
+      for (const parent of dependents.get(queue.shift()!) ?? []) {
+        if (visited.has(parent)) continue;
+        visited.add(parent);
+        if (directKeys.has(parent)) via.add(nodes.get(parent)!.name);
+        else queue.push(parent);
+      }
+    }
+
+    const base = { packageName, versions: [...versions].sort(), via: [...via].sort() };
+    if (!vulnerableKeys.some((key) => directKeys.has(key))) {
+      fixes.push({ ...base, status: "transitive" });
+      continue;
+    }
+
+    try {
+      const safeVersion = await options.resolveSafeVersion(packageName);
+      const stillAffected = matchAdvisories(options.database, packageName, safeVersion);
+      fixes.push(
+        stillAffected.length === 0
+          ? { ...base, safeVersion, status: "update" }
+          : {
+              ...base,
+              reason: `safeLatestStillAffected:${stillAffected.map(({ advisory }) => advisory.id).join(",")}`,
+              safeVersion,
+              status: "blocked",
+            },
+      );
+    } catch (error) {
+      fixes.push({
+        ...base,
+        reason: error instanceof Error ? error.message : String(error),
+        status: "blocked",
+      });
+    }
+  }
+
+  const updates = fixes.filter((fix) => fix.status === "update").map((fix) => fix.packageName);
+  return {
+    command:
+      updates.length > 0
+        ? `rse update --only ${updates.sort().join(",")} --safe-latest`
+        : undefined,
+    fixes: fixes.sort((left, right) => left.packageName.localeCompare(right.packageName)),
+  };
+}
@@ -221,4 +221,53 @@ describe("pm add command", () => {
       await rm(dir, { force: true, recursive: true });
     }
   });
+
+  test("resolves scoped packages from the registry configured in rse.config.jsonc", async () => {
+    const requests: Array<{ authorization: string | null; path: string }> = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        requests.push({
+          authorization: request.headers.get("authorization"),
+          path: new URL(request.url).pathname,
+        });
+        return Response.json({ "dist-tags": { latest: "4.5.6" }, versions: { "4.5.6": {} } });
+      },
+    });
+
+    try {
+      await withTempProject(async (dir) => {
+        await writeFile(
+          join(dir, "package.json"),
+          `${JSON.stringify({ name: "demo", version: "0.0.0" }, null, 2)}\n`,
+          "utf8",
+        );
+        await writeFile(
+          join(dir, "rse.config.jsonc"),
+          `{
+            // Private packages live on the internal registry.
+            "pm": {
+              "registries": {
+                "scopes": {
+                  "@company": { "url": "http://127.0.0.1:${server.port}", "token": "\${COMPANY_TOKEN}" },
+                },
+              },
+            },
+          }`,
+          "utf8",
+        );
+        const { ctx, resultCalls } = createCtx(dir, { args: ["@company/ui"] });
+        ctx.env = { COMPANY_TOKEN: "internal", HOME: dir };
+
+        await command.handler(ctx as never);
+
+        expect(requests).toEqual([{ authorization: "Bearer internal", path: "/@company%2Fui" }]);
+        expect(resultCalls[0]?.value).toMatchObject({
+          actions: [{ action: "added", nextSpecifier: "^4.5.6", packageName: "@company/ui" }],
+        });
+      });
+    } finally {
+      await server.stop(true);
+    }
+  });
 });
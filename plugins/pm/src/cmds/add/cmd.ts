@@ -22,6 +22,7 @@ import {
   withSnapshotRollback,
   writeManifest,
 } from "../../lib";
+import { readPmRegistryConfig } from "../../rse-config";
 
 interface AddAction {
   readonly action: "added" | "noop" | "skipped";
@@ -188,6 +189,12 @@ export default defineCommand({
       target: ctx.options.target,
     });
     await assertSupportedBunLockfileProject(context.installCwd);
+    const registries = await readPmRegistryConfig(context.installCwd, ctx.env).catch(
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+      },
+    );
 
     const autoinstall = ctx.options.autoinstall !== false;
     const requestedCatalogName = ctx.options.catalog?.trim() || undefined;
@@ -229,7 +236,7 @@ export default defineCommand({
               await pMap(
                 packagesNeedingRegistryLookup,
                 async (packageName) => {
-                  const version = await fetchLatestVersion(packageName);
+                  const version = await fetchLatestVersion(packageName, registries);
                   return [packageName, version] as const;
                 },
                 { concurrency: 8 },
@@ -247,7 +254,8 @@ export default defineCommand({
               exact: ctx.options.exact,
               requestedSpecifier: input.requestedSpecifier,
               version:
-                latestVersionByName.get(input.name) ?? (await fetchLatestVersion(input.name)),
+                latestVersionByName.get(input.name) ??
+                (await fetchLatestVersion(input.name, registries)),
             });
       const desiredSpecifier = shouldUseCatalog
         ? getCatalogProtocol(requestedCatalogName)
@@ -408,7 +416,9 @@ export default defineCommand({
         throw new InstallFailedError(result);
       }
 
-      const verification = result ? await verifyBunLock({ cwd: context.installCwd }) : null;
+      const verification = result
+        ? await verifyBunLock({ cwd: context.installCwd, registries })
+        : null;
 
       if (verification && !verification.ok) {
         throw new VerifyLockFailedError(verification);
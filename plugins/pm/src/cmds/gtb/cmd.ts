@@ -1,10 +1,12 @@
 import { defineCommand } from "@reliverse/rempts";
 
+import { readPmRegistryConfig } from "../../rse-config";
 import {
   formatGtbSummary,
   isGtbUsageErrorMessage,
   normalizeGtbOptions,
   runGtb,
+  withNpmUserConfig,
   type GtbOptions,
 } from "./impl/index";
 
@@ -21,7 +23,7 @@ export default defineCommand({
   },
   agent: {
     notes:
-      "Use --apply when you need this command to run npm pack and write tarballs. In preview mode, use the output plan to verify exact package versions before applying.",
+      "Use --apply when you need this command to run npm pack and write tarballs. In preview mode, use the output plan to verify exact package versions before applying. Registries and auth from .npmrc, bunfig.toml, and pm.registries in rse.config.jsonc are passed to npm.",
   },
   conventions: {
     idempotent: true,
@@ -149,7 +151,12 @@ export default defineCommand({
         apply,
       });
 
-      const run = await runGtb(options);
+      const registries = await readPmRegistryConfig(ctx.cwd, ctx.env);
+      const run = await withNpmUserConfig(
+        registries,
+        (npmUserConfig) => runGtb(npmUserConfig ? { ...options, npmUserConfig } : options),
+        ctx.env,
+      );
 
       if (options.json) {
         ctx.out(`${JSON.stringify(run, null, 2)}\n`);
@@ -1,3 +1,4 @@
+export { withNpmUserConfig } from "./npm";
 export { formatGtbSummary } from "./summary";
 export { runGtb } from "./run";
 export { isGtbUsageErrorMessage, normalizeGtbOptions } from "./options";
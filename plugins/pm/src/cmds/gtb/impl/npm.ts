@@ -1,14 +1,20 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { formatNpmrc, resolveUserNpmrcPath, type RegistryConfig } from "../../../registry";
 import type { GtbNpmPackResult, GtbNpmPackageInfo } from "./types";
 
-export async function readNpmPackageInfo(npmBin: string, spec: string): Promise<GtbNpmPackageInfo> {
-  const stdout = await runNpmJson(npmBin, [
-    "view",
-    spec,
-    "name",
-    "version",
-    "optionalDependencies",
-    "--json",
-  ]);
+export async function readNpmPackageInfo(
+  npmBin: string,
+  spec: string,
+  userConfig?: string,
+): Promise<GtbNpmPackageInfo> {
+  const stdout = await runNpmJson(
+    npmBin,
+    ["view", spec, "name", "version", "optionalDependencies", "--json"],
+    userConfig,
+  );
 
   const parsed = parseNpmJson(stdout);
   const info = Array.isArray(parsed) ? parsed.at(-1) : parsed;
@@ -32,14 +38,13 @@ export async function npmPack(
   npmBin: string,
   spec: string,
   outputDir: string,
+  userConfig?: string,
 ): Promise<GtbNpmPackResult | null> {
-  const stdout = await runNpmJson(npmBin, [
-    "pack",
-    spec,
-    "--pack-destination",
-    outputDir,
-    "--json",
-  ]);
+  const stdout = await runNpmJson(
+    npmBin,
+    ["pack", spec, "--pack-destination", outputDir, "--json"],
+    userConfig,
+  );
 
   const parsed = parseNpmJson(stdout);
   const item = Array.isArray(parsed) ? parsed.at(0) : parsed;
@@ -55,8 +60,39 @@ export function packageSpec(name: string, versionOrTag: string): string {
   return `${name}@${versionOrTag}`;
 }
 
-async function runNpmJson(npmBin: string, args: string[]): Promise<string> {
+/**
+ * npm reads `.npmrc` on its own but not bunfig.toml or the Rse config, so merged registries are
+ * handed over as a temporary user config. It starts with the user's own `.npmrc`, so settings
+ * such as `cafile`, `proxy`, and `strict-ssl` still apply, and the merged registry and auth lines
+ * follow it to win over earlier keys. Nothing is written when no source configured any.
+ */
+export async function withNpmUserConfig<T>(
+  registries: RegistryConfig,
+  callback: (userConfig: string | undefined) => Promise<T>,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<T> {
+  if (registries.sources.length === 0) {
+    return callback(undefined);
+  }
+
+  const userNpmrc = await readFile(resolveUserNpmrcPath(env), "utf8").catch(() => "");
+  const directory = await mkdtemp(join(tmpdir(), "rse-gtb-npmrc-"));
+  try {
+    const userConfig = join(directory, ".npmrc");
+    await writeFile(
+      userConfig,
+      `${userNpmrc}${userNpmrc && !userNpmrc.endsWith("\n") ? "\n" : ""}${formatNpmrc(registries)}`,
+      { encoding: "utf8", mode: 0o600 },
+    );
+    return await callback(userConfig);
+  } finally {
+    await rm(directory, { force: true, recursive: true });
+  }
+}
+
+async function runNpmJson(npmBin: string, args: string[], userConfig?: string): Promise<string> {
   const proc = Bun.spawn([npmBin, ...args], {
+    env: userConfig ? { ...process.env, npm_config_userconfig: userConfig } : process.env,
     stdout: "pipe",
     stderr: "pipe",
   });
@@ -10,7 +10,11 @@ export async function buildGtbPlan(options: GtbOptions): Promise<{
   skipped: Array<{ name: string; reason: string }>;
 }> {
   const requestedSpec = packageSpec(options.packageName, options.version ?? options.tag);
-  const resolvedRoot = await readNpmPackageInfo(options.npmBin, requestedSpec);
+  const resolvedRoot = await readNpmPackageInfo(
+    options.npmBin,
+    requestedSpec,
+    options.npmUserConfig,
+  );
   const rootExactSpec = packageSpec(resolvedRoot.name, resolvedRoot.version);
 
   const plan: GtbPackagePlanItem[] = [
@@ -51,6 +55,7 @@ export async function buildGtbPlan(options: GtbOptions): Promise<{
 
     const dependencyInfo = await resolveOptionalDependencyInfo({
       npmBin: options.npmBin,
+      npmUserConfig: options.npmUserConfig,
       dependencyName,
       dependencyRange,
     });
@@ -78,6 +83,7 @@ export async function buildGtbPlan(options: GtbOptions): Promise<{
 
 async function resolveOptionalDependencyInfo(input: {
   npmBin: string;
+  npmUserConfig?: string | undefined;
   dependencyName: string;
   dependencyRange: string;
 }): Promise<GtbNpmPackageInfo> {
@@ -91,7 +97,11 @@ async function resolveOptionalDependencyInfo(input: {
     };
   }
 
-  return readNpmPackageInfo(input.npmBin, packageSpec(input.dependencyName, input.dependencyRange));
+  return readNpmPackageInfo(
+    input.npmBin,
+    packageSpec(input.dependencyName, input.dependencyRange),
+    input.npmUserConfig,
+  );
 }
 
 function toExactVersion(range: string): string | undefined {
@@ -59,7 +59,12 @@ export async function runGtb(options: GtbOptions): Promise<GtbRunResult> {
   await mkdir(options.outputDir, { recursive: true });
 
   for (const item of plan) {
-    const npm = await npmPack(options.npmBin, item.resolvedSpec, options.outputDir);
+    const npm = await npmPack(
+      options.npmBin,
+      item.resolvedSpec,
+      options.outputDir,
+      options.npmUserConfig,
+    );
 
     result.packed.push({
       plan: item,
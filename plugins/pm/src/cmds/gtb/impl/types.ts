@@ -18,6 +18,8 @@ export type GtbOptions = {
   includeOptional: boolean;
   optionalMode: GtbOptionalMode;
   npmBin: string;
+  /** Generated `.npmrc` carrying registries from bunfig.toml and the Rse config to npm. */
+  npmUserConfig?: string;
   overwrite: boolean;
   aliased: boolean;
   alias?: GtbResolvedAlias;
@@ -0,0 +1,232 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  auditBunLockPackages,
+  loadAdvisoryDatabase,
+  meetsSeverityThreshold,
+  normalizeSeverityThreshold,
+  planAuditFixes,
+  type AuditFinding,
+  type AuditFix,
+  type AuditFixPlan,
+} from "../../../audit";
+import {
+  assertSupportedBunLockfileProject,
+  getBunLockfilePath,
+  resolveTargetContext,
+} from "../../../lib";
+import { parseBunLockGraph } from "../../../lock-graph";
+import { loadRegistryConfig } from "../../../registry";
+import { mergeSafeLatestPolicy, readOptionalRseConfig } from "../../../rse-config";
+import { resolveSafeLatestVersion } from "../../../safe/latest";
+import { parseBunLockPackages } from "../../../verify-lock";
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function okLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; green(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
+}
+
+function warnLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.yellow(ctx.colors.stdout.bold(text));
+}
+
+function formatFinding(finding: AuditFinding): string {
+  const details = [
+    finding.affectedRanges.length > 0 ? `affected ${finding.affectedRanges.join(" || ")}` : "",
+    finding.fixedVersions.length > 0 ? `fixed ${finding.fixedVersions.join(", ")}` : "no fix",
+  ].filter((part) => part.length > 0);
+
+  return `${finding.advisoryId} ${finding.packageName}@${finding.version}${finding.summary ? `: ${finding.summary}` : ""} (${details.join("; ")})`;
+}
+
+function formatFix(fix: AuditFix): string {
+  switch (fix.status) {
+    case "update":
+      return `${fix.packageName}: safe-latest ${fix.safeVersion} resolves ${fix.versions.join(", ")}`;
+    case "blocked":
+      return `${fix.packageName}: not resolved by rse update --safe-latest (${fix.reason})`;
+    case "transitive":
+      return `${fix.packageName}: transitive${fix.via.length > 0 ? ` via ${fix.via.join(", ")}` : ""}; update those dependencies or add an override`;
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "audit",
+    description: "Match every package in bun.lock against a local OSV advisory database",
+  },
+  agent: {
+    notes:
+      "Works offline and exits 1 when a finding is at or above --severity-threshold. --suggest-fixes queries the registry to check which findings rse update --only ... --safe-latest would resolve under the configured safe-latest policy.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: true,
+    supportsApply: false,
+  },
+  help: {
+    examples: [
+      "rse pm audit --db ./osv/npm",
+      "rse pm audit --db advisories.json --severity-threshold medium --json",
+      "rse pm audit --db ./osv/npm --suggest-fixes",
+    ],
+    text: "Reads OSV-format advisories from a JSON file (one record, an array, or { vulns: [...] }) or a directory of them, such as the unpacked npm dump from osv.dev, and reports each affected package with its affected ranges, severity, and fixed versions. Severity comes from database_specific.severity or a CVSS v3 vector; advisories without either count as high. The threshold works like verify-lock --socket-severity-threshold: lower findings are listed but do not fail the audit. With --suggest-fixes, direct dependencies whose safe-latest version matches no advisory are collected into one rse update --only command.",
+  },
+  options: {
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Directory inside the project whose bun.lock is read",
+      inputSources: ["flag", "default"],
+    },
+    db: {
+      type: "string",
+      description: "OSV advisory JSON file or directory",
+      hint: "./osv/npm",
+      inputSources: ["flag"],
+      required: true,
+    },
+    severityThreshold: {
+      type: "string",
+      defaultValue: "high",
+      description: "Lowest advisory severity that fails the audit",
+      hint: "low | medium | middle | high | critical",
+      inputSources: ["flag", "default"],
+    },
+    suggestFixes: {
+      type: "boolean",
+      description: "Resolve safe-latest versions from the registry and suggest an rse update",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    const severityThreshold =
+      normalizeSeverityThreshold(ctx.options.severityThreshold, "--severity-threshold", ctx.exit) ??
+      "high";
+    const context = await resolveTargetContext({ cwd: ctx.options.cwd });
+    await assertSupportedBunLockfileProject(context.installCwd);
+
+    const database = await loadAdvisoryDatabase(resolve(ctx.cwd, ctx.options.db)).catch(
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, `Failed to read advisory database: ${message}`);
+      },
+    );
+    const lockfilePath = getBunLockfilePath(context.installCwd);
+    const raw = await readFile(lockfilePath, "utf8");
+    const packages = parseBunLockPackages(raw, lockfilePath);
+    const findings = auditBunLockPackages(database, packages);
+    const blocking = findings.filter((finding) =>
+      meetsSeverityThreshold(finding.severity, severityThreshold),
+    );
+    let fixPlan: AuditFixPlan | undefined;
+
+    if (ctx.options.suggestFixes === true && blocking.length > 0) {
+      const rseConfig = await readOptionalRseConfig(context.installCwd).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+      });
+      const registries = await loadRegistryConfig({
+        cwd: context.installCwd,
+        env: ctx.env,
+        registries: rseConfig?.pm?.registries,
+      }).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+      });
+      const policy = mergeSafeLatestPolicy(rseConfig?.pm?.safeLatest, {});
+
+      fixPlan = await planAuditFixes({
+        database,
+        findings: blocking,
+        graph: parseBunLockGraph(raw, lockfilePath),
+        resolveSafeVersion: async (packageName) =>
+          (
+            await resolveSafeLatestVersion({
+              currentSpecifier: "",
+              packageName,
+              policy,
+              registries,
+            })
+          ).version,
+      });
+    }
+
+    const resultPayload = {
+      database: { advisories: database.advisories, path: database.path },
+      findings,
+      fixPlan,
+      lockfilePath: resolve(lockfilePath),
+      ok: blocking.length === 0,
+      severityThreshold,
+      summary: {
+        blocking: blocking.length,
+        checkedPackages: packages.length,
+        findings: findings.length,
+        packages: new Set(findings.map((finding) => `${finding.packageName}@${finding.version}`))
+          .size,
+      },
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(resultPayload, "pm audit");
+    } else {
+      ctx.out(blocking.length === 0 ? okLabel(ctx, "pm audit") : warnLabel(ctx, "pm audit"));
+      ctx.out(`${infoLabel(ctx, "Lockfile:")} ${resultPayload.lockfilePath}`);
+      ctx.out(
+        `${infoLabel(ctx, "Advisories:")} ${database.advisories} from ${database.path}, threshold ${severityThreshold}`,
+      );
+      ctx.out(
+        `${infoLabel(ctx, "Summary:")} ${findings.length} finding(s) in ${resultPayload.summary.packages} of ${packages.length} package(s), ${blocking.length} at or above ${severityThreshold}.`,
+      );
+      for (const finding of findings) {
+        ctx.out(
+          `${ctx.colors.stdout.yellow("-")} ${ctx.colors.stdout.bold(finding.severity)} ${formatFinding(finding)}`,
+        );
+      }
+      if (fixPlan) {
+        ctx.out(infoLabel(ctx, "Fixes:"));
+        for (const fix of fixPlan.fixes) {
+          ctx.out(`- ${formatFix(fix)}`);
+        }
+        if (fixPlan.command) {
+          ctx.out(`${infoLabel(ctx, "Run:")} ${fixPlan.command}`);
+        }
+      }
+    }
+
+    if (blocking.length > 0) {
+      ctx.exit(
+        1,
+        `pm audit found ${blocking.length} advisory finding(s) at or above ${severityThreshold}.`,
+      );
+    }
+  },
+});
@@ -0,0 +1,20 @@
+import { defineCommand } from "@reliverse/rempts";
+
+export default defineCommand({
+  meta: {
+    name: "pm",
+    description: "Repo-wide package management checks for Bun workspaces.",
+  },
+  help: {
+    examples: [
+      "rse pm audit --db ./osv/npm",
+      "rse pm doctor",
+      "rse pm doctor --apply",
+      "rse pm licenses",
+      "rse pm sbom --format spdx",
+    ],
+  },
+  async handler() {
+    return undefined;
+  },
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import command from "./cmd";
+
+interface TestCtxOptions {
+  readonly args?: readonly string[] | undefined;
+  readonly mode?: "json" | "text" | undefined;
+  readonly options?: Record<string, unknown> | undefined;
+}
+
+function createCtx(cwd: string, options: TestCtxOptions = {}) {
+  const resultCalls: Array<{ value: unknown; command?: string | undefined }> = [];
+  const textLines: string[] = [];
+
+  return {
+    ctx: {
+      args: [...(options.args ?? [])],
+      colors: {
+        stdout: {
+          bold: (value: string) => value,
+          cyan: (value: string) => value,
+          green: (value: string) => value,
+          yellow: (value: string) => value,
+        },
+      },
+      cwd,
+      env: process.env,
+      err: () => undefined,
+      exit(code: number, message: string): never {
+        throw new Error(`EXIT ${code}: ${message}`);
+      },
+      options: { cwd, ...(options.options ?? {}) },
+      safety: {
+        apply: options.options?.apply === true,
+        effects: [],
+        preview: options.options?.apply !== true,
+        requiresApply: true,
+        assertApplied(effect?: string) {
+          if (options.options?.apply === true) return;
+          throw new Error(`requires --apply${effect ? ` for ${effect}` : ""}`);
+        },
+      },
+      out: (...values: unknown[]) => textLines.push(values.join(" ")),
+      output: {
+        mode: options.mode ?? "json",
+        data: (value: unknown) => resultCalls.push({ value, command: "data" }),
+        result: (value: unknown, commandName?: string) =>
+          resultCalls.push({ value, command: commandName }),
+      },
+    },
+    resultCalls,
+    textLines,
+  };
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await writeFile(path, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+async function readJson(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, "utf8")) as unknown;
+}
+
+async function withTempMonorepo<T>(callback: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pm-doctor-command-test-"));
+
+  try {
+    await writeFile(join(dir, "bun.lock"), "", "utf8");
+    await writeJson(join(dir, "package.json"), {
+      name: "demo",
+      private: true,
+      workspaces: { catalog: { react: "^19.0.0" }, packages: ["packages/*"] },
+    });
+    await mkdir(join(dir, "packages", "app"), { recursive: true });
+    await mkdir(join(dir, "packages", "lib"), { recursive: true });
+    await writeJson(join(dir, "packages", "app", "package.json"), {
+      name: "@demo/app",
+      dependencies: { "@demo/lib": "workspace:*", react: "^19.1.0", zod: "^3.22.0" },
+    });
+    await writeJson(join(dir, "packages", "lib", "package.json"), {
+      name: "@demo/lib",
+      dependencies: { react: "catalog:", zod: "^3.23.8" },
+    });
+
+    return await callback(dir);
+  } finally {
+    await rm(dir, { force: true, recursive: true });
+  }
+}
+
+describe("pm doctor command", () => {
+  test("fails the preview while issues remain", async () => {
+    await withTempMonorepo(async (dir) => {
+      const { ctx, textLines } = createCtx(dir, { mode: "text" });
+
+      await expect(command.handler(ctx as never)).rejects.toThrow(
+        "EXIT 1: pm doctor found 2 issue(s).",
+      );
+      expect(textLines.slice(2)).toEqual([
+        "Summary: 2 issue(s) across 2 workspace manifest(s), 2 fixable with --apply.",
+        "- catalogBypass react: ^19.1.0 (packages/app) bypass default catalog ^19.0.0",
+        "- versionDrift zod: ^3.22.0 (packages/app), ^3.23.8 (packages/lib) -> catalog ^3.23.8",
+      ]);
+    });
+  });
+
+  test("migrates drift into the root catalog with --apply", async () => {
+    await withTempMonorepo(async (dir) => {
+      const { ctx, resultCalls } = createCtx(dir, {
+        options: { apply: true, autoinstall: false },
+      });
+
+      await command.handler(ctx as never);
+
+      expect(resultCalls[0]?.value).toMatchObject({
+        ok: true,
+        remainingIssues: [],
+        summary: { fixable: 2, issues: 2, manual: 0 },
+      });
+      expect(await readJson(join(dir, "package.json"))).toMatchObject({
+        workspaces: { catalog: { react: "^19.0.0", zod: "^3.23.8" } },
+      });
+      expect(await readJson(join(dir, "packages", "app", "package.json"))).toEqual({
+        name: "@demo/app",
+        dependencies: { "@demo/lib": "workspace:*", react: "catalog:", zod: "catalog:" },
+      });
+
+      const rerun = createCtx(dir);
+      await command.handler(rerun.ctx as never);
+      expect(rerun.resultCalls[0]?.value).toMatchObject({ issues: [], ok: true });
+    });
+  });
+});
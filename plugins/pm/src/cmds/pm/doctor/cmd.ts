@@ -0,0 +1,309 @@
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  inspectWorkspaceDependencies,
+  planCatalogMigration,
+  type DoctorIssue,
+} from "../../../doctor";
+import {
+  assertSupportedBunLockfileProject,
+  getBunLockfilePath,
+  listWorkspaceManifestTargets,
+  resolveTargetContext,
+  runBunInstall,
+  type VerifyLockResult,
+  verifyBunLock,
+  withSnapshotRollback,
+  writeManifest,
+} from "../../../lib";
+import { readPmRegistryConfig } from "../../../rse-config";
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function okLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; green(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
+}
+
+function warnLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.yellow(ctx.colors.stdout.bold(text));
+}
+
+function formatCatalog(catalogName: string | undefined): string {
+  return catalogName ? `catalog ${catalogName}` : "default catalog";
+}
+
+function formatIssue(issue: DoctorIssue): string {
+  switch (issue.kind) {
+    case "versionDrift":
+      return `${issue.packageName}: ${issue.usages.map((usage) => `${usage.specifier} (${usage.label})`).join(", ")}${issue.suggestedSpecifier ? ` -> catalog ${issue.suggestedSpecifier}` : ""}`;
+    case "catalogBypass":
+      return `${issue.packageName}: ${issue.usages.map((usage) => `${usage.specifier} (${usage.label})`).join(", ")} bypass ${formatCatalog(issue.catalogName)} ${issue.catalogSpecifier}`;
+    case "unusedCatalogEntry":
+      return `${issue.packageName}: ${issue.specifier} in ${formatCatalog(issue.catalogName)} is not referenced`;
+    case "missingWorkspacePackage":
+      return `${issue.packageName}: ${issue.usages.map((usage) => `${usage.specifier} (${usage.label})`).join(", ")} but no workspace package has that name`;
+  }
+}
+
+function emitIssues(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+    out(...values: unknown[]): void;
+  },
+  issues: readonly DoctorIssue[],
+): void {
+  for (const issue of issues) {
+    ctx.out(
+      `${ctx.colors.stdout.yellow("-")} ${ctx.colors.stdout.bold(issue.kind)} ${formatIssue(issue)}${issue.fixable ? "" : " (manual)"}`,
+    );
+  }
+}
+
+class InstallFailedError extends Error {
+  constructor(readonly installResult: Awaited<ReturnType<typeof runBunInstall>>) {
+    super("bun install failed");
+  }
+}
+
+class VerifyLockFailedError extends Error {
+  constructor(readonly verification: VerifyLockResult) {
+    super("bun.lock verification failed");
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "doctor",
+    description:
+      "Find dependency drift, catalog bypasses, unused catalog entries, and broken workspace: references",
+  },
+  agent: {
+    notes:
+      "Read-only by default and exits 1 while issues remain. --apply only migrates fixable drift and catalog bypasses; unused catalog entries, missing workspace packages, and ranges that do not overlap the target range are left for a human.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: true,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.write", "package.install"],
+  },
+  help: {
+    examples: ["rse pm doctor", "rse pm doctor --json", "rse pm doctor --apply"],
+    text: "Inspects every workspace package manifest in the repo. Drift means the same dependency is declared at different ranges without a catalog entry; --apply adds the highest range to the default root catalog and rewrites the members to catalog:. Members that pin a package directly although a catalog entry exists are switched to that catalog without changing the entry. Peer dependencies are not checked for drift. Manifests and bun.lock are restored if bun install or lockfile verification fails.",
+  },
+  options: {
+    autoinstall: {
+      type: "boolean",
+      defaultValue: true,
+      description:
+        "Run bun install after applying manifest/catalog changes; pass --no-autoinstall to skip",
+      inputSources: ["flag", "default"],
+    },
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Directory inside the repo to inspect",
+      inputSources: ["flag", "default"],
+    },
+  },
+  async handler(ctx) {
+    const context = await resolveTargetContext({ cwd: ctx.options.cwd });
+
+    if (!context.usesWorkspaces) {
+      ctx.exit(
+        1,
+        `${context.repoRootDir} is not a Bun workspace root; pm doctor needs workspaces.`,
+      );
+    }
+
+    await assertSupportedBunLockfileProject(context.installCwd);
+
+    const autoinstall = ctx.options.autoinstall !== false;
+    const members = await listWorkspaceManifestTargets(context);
+    const issues = inspectWorkspaceDependencies({
+      members,
+      rootManifest: context.repoRootManifest,
+    });
+    const migration = planCatalogMigration({
+      issues,
+      members,
+      rootManifest: context.repoRootManifest,
+      rootManifestPath: context.repoRootManifestPath,
+    });
+    const fixable = issues.filter((issue) => issue.fixable).length;
+    const resultPayload = {
+      apply: ctx.safety.apply,
+      preview: !ctx.safety.apply,
+      install: {
+        command: "bun install",
+        cwd: context.installCwd,
+        enabled: autoinstall,
+        executed: false,
+      },
+      issues,
+      migration: {
+        manifests: [...migration.manifests.keys()],
+        rootChanged: migration.rootChanged,
+      },
+      ok: issues.length === 0,
+      scannedManifests: members.length,
+      summary: { fixable, issues: issues.length, manual: issues.length - fixable },
+    };
+    const summaryText = `${issues.length} issue(s) across ${members.length} workspace manifest(s), ${fixable} fixable with --apply.`;
+
+    if (!ctx.safety.apply || migration.manifests.size === 0) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(resultPayload, "pm doctor");
+      } else {
+        ctx.out(issues.length === 0 ? okLabel(ctx, "pm doctor") : warnLabel(ctx, "pm doctor"));
+        ctx.out(`${infoLabel(ctx, "Workspace:")} ${context.repoRootDir}`);
+        ctx.out(`${infoLabel(ctx, "Summary:")} ${summaryText}`);
+        emitIssues(ctx, issues);
+      }
+
+      if (issues.length > 0) {
+        ctx.exit(1, `pm doctor found ${issues.length} issue(s).`);
+      }
+
+      return;
+    }
+
+    ctx.safety.assertApplied("fs.write");
+
+    const registries = autoinstall
+      ? await readPmRegistryConfig(context.installCwd, ctx.env).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+        })
+      : undefined;
+    const snapshotPaths = [...migration.manifests.keys(), getBunLockfilePath(context.installCwd)];
+    const transactionResult = await withSnapshotRollback(snapshotPaths, async () => {
+      for (const [manifestPath, manifest] of migration.manifests) {
+        await writeManifest(manifestPath, manifest);
+      }
+
+      const result = autoinstall ? await runBunInstall(context.installCwd) : null;
+
+      if (result && !result.ok) {
+        throw new InstallFailedError(result);
+      }
+
+      const verification = result
+        ? await verifyBunLock({ cwd: context.installCwd, registries })
+        : null;
+
+      if (verification && !verification.ok) {
+        throw new VerifyLockFailedError(verification);
+      }
+
+      return { installResult: result, verification };
+    }).catch((error: unknown) => {
+      if (error instanceof InstallFailedError) {
+        if (error.installResult.stderr.trim().length > 0 && ctx.output.mode !== "json") {
+          ctx.err(error.installResult.stderr.trim());
+        }
+
+        return ctx.exit(
+          1,
+          `bun install failed after migrating catalogs in ${context.repoRootDir}. Changes were reverted. Command: ${error.installResult.command}. Cwd: ${error.installResult.cwd}. Exit code: ${error.installResult.exitCode}.`,
+        );
+      }
+
+      if (error instanceof VerifyLockFailedError) {
+        return ctx.exit(
+          1,
+          `bun.lock verification failed after migrating catalogs in ${context.repoRootDir}. Changes were reverted. Issues: ${error.verification.issues
+            .slice(0, 5)
+            .map(
+              (issue) =>
+                `${issue.packageName ?? "lockfile"}${issue.version ? `@${issue.version}` : ""}:${issue.reason}`,
+            )
+            .join(", ")}`,
+        );
+      }
+
+      throw error;
+    });
+
+    const remaining = issues.filter((issue) => !issue.fixable);
+    const successPayload = {
+      ...resultPayload,
+      install: transactionResult.installResult
+        ? {
+            ...transactionResult.installResult,
+            enabled: true,
+            executed: true,
+            verification: transactionResult.verification
+              ? {
+                  checkedPackages: transactionResult.verification.checkedPackages,
+                  issues: transactionResult.verification.issues,
+                  ok: transactionResult.verification.ok,
+                }
+              : undefined,
+          }
+        : {
+            command: "bun install",
+            cwd: context.installCwd,
+            enabled: false,
+            executed: false,
+            verification: undefined,
+          },
+      ok: remaining.length === 0,
+      remainingIssues: remaining,
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(successPayload, "pm doctor");
+    } else {
+      ctx.out(okLabel(ctx, "pm doctor"));
+      ctx.out(`${infoLabel(ctx, "Workspace:")} ${context.repoRootDir}`);
+      ctx.out(
+        `${infoLabel(ctx, "Migrated:")} ${fixable} issue(s) in ${migration.manifests.size} manifest(s).`,
+      );
+      if (transactionResult.installResult) {
+        ctx.out(
+          `${okLabel(ctx, "Ran:")} bun install (${ctx.colors.stdout.bold(context.installCwd)})`,
+        );
+      } else {
+        ctx.out(`${warnLabel(ctx, "Install skipped:")} --no-autoinstall`);
+      }
+      if (remaining.length > 0) {
+        ctx.out(infoLabel(ctx, "Remaining:"));
+        emitIssues(ctx, remaining);
+      }
+    }
+
+    if (remaining.length > 0) {
+      ctx.exit(1, `pm doctor left ${remaining.length} issue(s) that need manual fixes.`);
+    }
+  },
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import command from "./cmd";
+
+interface TestCtxOptions {
+  readonly mode?: "json" | "text" | undefined;
+  readonly options?: Record<string, unknown> | undefined;
+}
+
+function createCtx(cwd: string, options: TestCtxOptions = {}) {
+  const resultCalls: Array<{ value: unknown; command?: string | undefined }> = [];
+  const textLines: string[] = [];
+
+  return {
+    ctx: {
+      args: [],
+      colors: {
+        stdout: {
+          bold: (value: string) => value,
+          cyan: (value: string) => value,
+          green: (value: string) => value,
+          yellow: (value: string) => value,
+        },
+      },
+      cwd,
+      env: { HOME: cwd },
+      err: () => undefined,
+      exit(code: number, message: string): never {
+        throw new Error(`EXIT ${code}: ${message}`);
+      },
+      options: { cwd, offline: true, ...(options.options ?? {}) },
+      out: (...values: unknown[]) => textLines.push(values.join(" ")),
+      output: {
+        mode: options.mode ?? "json",
+        data: (value: unknown) => resultCalls.push({ value, command: "data" }),
+        result: (value: unknown, commandName?: string) =>
+          resultCalls.push({ value, command: commandName }),
+      },
+    },
+    resultCalls,
+    textLines,
+  };
+}
+
+async function withTempProject<T>(
+  rseConfig: string,
+  callback: (dir: string) => Promise<T>,
+): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pm-licenses-command-test-"));
+
+  try {
+    await writeFile(
+      join(dir, "bun.lock"),
+      `{
+  "lockfileVersion": 1,
+  "workspaces": { "": { "name": "demo", "dependencies": { "copyleft": "^1.0.0", "permissive": "^1.0.0" } } },
+  "packages": {
+    "copyleft": ["copyleft@1.0.0", "", {}, "sha512-copyleft"],
+    "permissive": ["permissive@2.0.0", "", {}, "sha512-permissive"],
+  },
+}
+`,
+      "utf8",
+    );
+    await writeFile(join(dir, "package.json"), JSON.stringify({ name: "demo" }), "utf8");
+    await writeFile(join(dir, "rse.config.jsonc"), rseConfig, "utf8");
+
+    for (const [name, version, license] of [
+      ["copyleft", "1.0.0", "GPL-3.0-only"],
+      ["permissive", "2.0.0", "MIT"],
+    ] as const) {
+      await mkdir(join(dir, "node_modules", name), { recursive: true });
+      await writeFile(
+        join(dir, "node_modules", name, "package.json"),
+        JSON.stringify({ license, name, version }),
+        "utf8",
+      );
+    }
+
+    return await callback(dir);
+  } finally {
+    await rm(dir, { force: true, recursive: true });
+  }
+}
+
+describe("pm licenses command", () => {
+  test("fails when a package breaks the configured policy", async () => {
+    await withTempProject(
+      `{
+  // Copyleft licenses need legal review.
+  "pm": { "licenses": { "deny": ["GPL-3.0-only"] } },
+}`,
+      async (dir) => {
+        const { ctx, textLines } = createCtx(dir, { mode: "text" });
+
+        await expect(command.handler(ctx as never)).rejects.toThrow(
+          "EXIT 1: pm licenses found 1 license violation(s).",
+        );
+        expect(textLines.slice(2)).toEqual([
+          "Summary: 2 package(s), 1 violation(s), 0 warning(s).",
+          "Licenses:",
+          "- GPL-3.0-only: 1",
+          "- MIT: 1",
+          "- error copyleft@1.0.0: GPL-3.0-only is denied",
+        ]);
+      },
+    );
+  });
+
+  test("passes exempt packages and reports the policy in JSON mode", async () => {
+    await withTempProject(
+      `{ "pm": { "licenses": { "allow": ["MIT"], "exceptions": ["copyleft@1.0.0"] } } }`,
+      async (dir) => {
+        const { ctx, resultCalls } = createCtx(dir);
+
+        await command.handler(ctx as never);
+
+        expect(resultCalls[0]).toMatchObject({
+          command: "pm licenses",
+          value: {
+            licenses: { "GPL-3.0-only": 1, MIT: 1 },
+            ok: true,
+            policy: { allow: ["MIT"], deny: [], exceptions: ["copyleft@1.0.0"] },
+            summary: { checked: 2, errors: 0, unknown: 0, warnings: 0 },
+            violations: [],
+          },
+        });
+      },
+    );
+  });
+});
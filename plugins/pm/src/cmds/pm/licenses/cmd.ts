@@ -0,0 +1,161 @@
+import { defineCommand } from "@reliverse/rempts";
+
+import { assertSupportedBunLockfileProject, resolveTargetContext } from "../../../lib";
+import { checkLicensePolicy, readBunLockLicenses, type LicenseViolation } from "../../../licenses";
+import { loadRegistryConfig } from "../../../registry";
+import { readOptionalRseConfig } from "../../../rse-config";
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function okLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; green(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
+}
+
+function warnLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.yellow(ctx.colors.stdout.bold(text));
+}
+
+const REASON_TEXT: Readonly<Record<LicenseViolation["reason"], string>> = {
+  denied: "is denied",
+  notAllowed: "is not in the allow list",
+  unknown: "could not be determined",
+};
+
+function formatViolation(violation: LicenseViolation): string {
+  return `${violation.name}@${violation.version}: ${violation.license ? `${violation.license} ` : "license "}${REASON_TEXT[violation.reason]}`;
+}
+
+export default defineCommand({
+  meta: {
+    name: "licenses",
+    description: "Check the licenses of every package in bun.lock against the pm.licenses policy",
+  },
+  agent: {
+    notes:
+      "Read-only. Exits 1 when a package breaks pm.licenses; unknown licenses only fail when an allow list is configured. Use --offline to skip registry lookups for packages that are not installed.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: true,
+    supportsApply: false,
+  },
+  help: {
+    examples: ["rse pm licenses", "rse pm licenses --json", "rse pm licenses --offline"],
+    text: "Reads each license from the installed package.json under node_modules, including Bun's isolated store, and falls back to registry metadata for packages that are not installed. The policy comes from pm.licenses in rse.config: allow and deny take SPDX ids, and exceptions take package names or name@version. OR expressions pass when any alternative is acceptable, AND expressions need every part; deny always wins.",
+  },
+  options: {
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Directory inside the project whose bun.lock is read",
+      inputSources: ["flag", "default"],
+    },
+    offline: {
+      type: "boolean",
+      defaultValue: false,
+      description: "Only read installed packages; never query the registry",
+      inputSources: ["flag", "default"],
+    },
+  },
+  async handler(ctx) {
+    const context = await resolveTargetContext({ cwd: ctx.options.cwd });
+    await assertSupportedBunLockfileProject(context.installCwd);
+
+    const rseConfig = await readOptionalRseConfig(context.installCwd).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+    });
+    const registries = await loadRegistryConfig({
+      cwd: context.installCwd,
+      env: ctx.env,
+      registries: rseConfig?.pm?.registries,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+    });
+    const policy = rseConfig?.pm?.licenses ?? {};
+    const { lockfilePath, packages } = await readBunLockLicenses({
+      cwd: context.installCwd,
+      offline: ctx.options.offline === true,
+      registries,
+    });
+    const violations = checkLicensePolicy(packages, policy);
+    const errors = violations.filter((violation) => violation.severity === "error");
+    const licenseCounts = new Map<string, number>();
+
+    for (const pkg of packages) {
+      const license = pkg.license ?? "UNKNOWN";
+      licenseCounts.set(license, (licenseCounts.get(license) ?? 0) + 1);
+    }
+
+    const licenses = Object.fromEntries(
+      [...licenseCounts].sort(
+        ([leftName, left], [rightName, right]) => right - left || leftName.localeCompare(rightName),
+      ),
+    );
+    const resultPayload = {
+      licenses,
+      lockfilePath,
+      ok: errors.length === 0,
+      packages,
+      policy: {
+        allow: policy.allow ?? [],
+        deny: policy.deny ?? [],
+        exceptions: policy.exceptions ?? [],
+      },
+      summary: {
+        checked: packages.length,
+        errors: errors.length,
+        unknown: packages.filter((pkg) => !pkg.license).length,
+        warnings: violations.length - errors.length,
+      },
+      violations,
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(resultPayload, "pm licenses");
+    } else {
+      ctx.out(errors.length === 0 ? okLabel(ctx, "pm licenses") : warnLabel(ctx, "pm licenses"));
+      ctx.out(`${infoLabel(ctx, "Lockfile:")} ${lockfilePath}`);
+      ctx.out(
+        `${infoLabel(ctx, "Summary:")} ${packages.length} package(s), ${errors.length} violation(s), ${resultPayload.summary.warnings} warning(s).`,
+      );
+      ctx.out(infoLabel(ctx, "Licenses:"));
+      for (const [license, count] of Object.entries(licenses)) {
+        ctx.out(`- ${license}: ${count}`);
+      }
+      for (const violation of violations) {
+        ctx.out(
+          `${ctx.colors.stdout.yellow("-")} ${ctx.colors.stdout.bold(violation.severity)} ${formatViolation(violation)}`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      ctx.exit(1, `pm licenses found ${errors.length} license violation(s).`);
+    }
+  },
+});
@@ -0,0 +1,175 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  assertSupportedBunLockfileProject,
+  getBunLockfilePath,
+  resolveTargetContext,
+} from "../../../lib";
+import { readBunLockLicenses } from "../../../licenses";
+import { parseBunLockGraph } from "../../../lock-graph";
+import { loadRegistryConfig } from "../../../registry";
+import { readOptionalRseConfig } from "../../../rse-config";
+import { createCycloneDxSbom, createSpdxSbom, SBOM_FORMATS, type SbomFormat } from "../../../sbom";
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function okLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; green(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
+}
+
+export default defineCommand({
+  meta: {
+    name: "sbom",
+    description: "Export a CycloneDX or SPDX software bill of materials from bun.lock",
+  },
+  agent: {
+    notes:
+      "Prints the SBOM to stdout by default. --output writes a file and needs --apply; without it the command only reports the target path. Pass --offline to avoid registry lookups for licenses of packages that are not installed.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: false,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.write"],
+  },
+  help: {
+    examples: [
+      "rse pm sbom",
+      "rse pm sbom --format spdx --offline",
+      "rse pm sbom --output reports/sbom.cdx.json --apply",
+    ],
+    text: "Builds a CycloneDX 1.5 or SPDX 2.3 JSON document from bun.lock. Every installed package gets an npm purl, its lockfile integrity as a hex hash, and its declared license, read the same way as rse pm licenses. Workspace packages are included and the root package describes the document; dependency relationships follow bun.lock. Each run gets a fresh serial number and timestamp.",
+  },
+  options: {
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Directory inside the project whose bun.lock is read",
+      inputSources: ["flag", "default"],
+    },
+    format: {
+      type: "string",
+      choices: [...SBOM_FORMATS],
+      defaultValue: "cyclonedx",
+      description: "SBOM standard to emit",
+      inputSources: ["flag", "default"],
+    },
+    offline: {
+      type: "boolean",
+      defaultValue: false,
+      description: "Only read licenses of installed packages; never query the registry",
+      inputSources: ["flag", "default"],
+    },
+    output: {
+      type: "string",
+      description: "Write the SBOM to this file after --apply instead of printing it",
+      hint: "reports/sbom.cdx.json",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    const format = ctx.options.format as SbomFormat;
+
+    if (!SBOM_FORMATS.includes(format)) {
+      ctx.exit(1, `--format must be one of ${SBOM_FORMATS.join(", ")}.`);
+    }
+
+    const context = await resolveTargetContext({ cwd: ctx.options.cwd });
+    await assertSupportedBunLockfileProject(context.installCwd);
+
+    const rseConfig = await readOptionalRseConfig(context.installCwd).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+    });
+    const registries = await loadRegistryConfig({
+      cwd: context.installCwd,
+      env: ctx.env,
+      registries: rseConfig?.pm?.registries,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+    });
+    const lockfilePath = getBunLockfilePath(context.installCwd);
+    const graph = parseBunLockGraph(await readFile(lockfilePath, "utf8"), lockfilePath);
+    const { packages } = await readBunLockLicenses({
+      cwd: context.installCwd,
+      offline: ctx.options.offline === true,
+      registries,
+    });
+    const sbomOptions = {
+      graph,
+      licenses: new Map(packages.map((pkg) => [`${pkg.name}@${pkg.version}`, pkg.license])),
+      rootVersion: context.repoRootManifest.version,
+      serialNumber: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+    };
+    const document =
+      format === "spdx" ? createSpdxSbom(sbomOptions) : createCycloneDxSbom(sbomOptions);
+    const outputPath =
+      typeof ctx.options.output === "string" ? resolve(ctx.cwd, ctx.options.output) : undefined;
+
+    if (!outputPath) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(document, "pm sbom");
+      } else {
+        // Plain JSON so the output can be redirected straight into an SBOM file.
+        ctx.out(JSON.stringify(document, null, 2));
+      }
+      return;
+    }
+
+    const resultPayload = {
+      apply: ctx.safety.apply,
+      preview: !ctx.safety.apply,
+      format,
+      lockfilePath: resolve(lockfilePath),
+      outputPath,
+      written: false,
+    };
+
+    if (!ctx.safety.apply) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(resultPayload, "pm sbom");
+      } else {
+        ctx.out(infoLabel(ctx, "pm sbom preview"));
+        ctx.out(`${infoLabel(ctx, "Would write:")} ${outputPath} (${format})`);
+        ctx.out("Pass --apply to write the file.");
+      }
+      return;
+    }
+
+    ctx.safety.assertApplied("fs.write");
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, `${JSON.stringify(document, null, 2)}\n`);
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result({ ...resultPayload, written: true }, "pm sbom");
+    } else {
+      ctx.out(okLabel(ctx, "pm sbom"));
+      ctx.out(`${infoLabel(ctx, "Wrote:")} ${outputPath} (${format})`);
+    }
+  },
+});
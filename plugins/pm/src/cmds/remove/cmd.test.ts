@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import command from "./cmd";
+
+interface TestCtxOptions {
+  readonly args?: readonly string[] | undefined;
+  readonly mode?: "json" | "text" | undefined;
+  readonly options?: Record<string, unknown> | undefined;
+}
+
+function createCtx(cwd: string, options: TestCtxOptions = {}) {
+  const resultCalls: Array<{ value: unknown; command?: string | undefined }> = [];
+  const textLines: string[] = [];
+
+  return {
+    ctx: {
+      args: [...(options.args ?? [])],
+      colors: {
+        stdout: {
+          bold: (value: string) => value,
+          cyan: (value: string) => value,
+          green: (value: string) => value,
+          yellow: (value: string) => value,
+        },
+      },
+      cwd,
+      env: process.env,
+      err: () => undefined,
+      exit(code: number, message: string): never {
+        throw new Error(`EXIT ${code}: ${message}`);
+      },
+      options: { cwd, ...(options.options ?? {}) },
+      safety: {
+        apply: options.options?.apply === true,
+        effects: [],
+        preview: options.options?.apply !== true,
+        requiresApply: true,
+        assertApplied(effect?: string) {
+          if (options.options?.apply === true) return;
+          throw new Error(`requires --apply${effect ? ` for ${effect}` : ""}`);
+        },
+      },
+      out: (...values: unknown[]) => textLines.push(values.join(" ")),
+      output: {
+        mode: options.mode ?? "json",
+        data: (value: unknown) => resultCalls.push({ value, command: "data" }),
+        result: (value: unknown, commandName?: string) =>
+          resultCalls.push({ value, command: commandName }),
+      },
+    },
+    resultCalls,
+    textLines,
+  };
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await writeFile(path, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+async function readJson(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, "utf8")) as unknown;
+}
+
+/** A Bun monorepo where `zod` is shared through the default catalog by two workspace packages. */
+async function withTempMonorepo<T>(callback: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pm-remove-command-test-"));
+
+  try {
+    await writeFile(join(dir, "bun.lock"), "", "utf8");
+    await writeJson(join(dir, "package.json"), {
+      name: "demo",
+      private: true,
+      workspaces: {
+        catalog: { react: "^19.0.0", zod: "^3.23.8" },
+        catalogs: { testing: { vitest: "^3.0.0" } },
+        packages: ["packages/*"],
+      },
+    });
+    await mkdir(join(dir, "packages", "app"), { recursive: true });
+    await mkdir(join(dir, "packages", "lib"), { recursive: true });
+    await writeJson(join(dir, "packages", "app", "package.json"), {
+      name: "@demo/app",
+      dependencies: { react: "catalog:", zod: "catalog:" },
+      devDependencies: { vitest: "catalog:testing" },
+    });
+    await writeJson(join(dir, "packages", "lib", "package.json"), {
+      name: "@demo/lib",
+      dependencies: { zod: "catalog:" },
+    });
+
+    return await callback(dir);
+  } finally {
+    await rm(dir, { force: true, recursive: true });
+  }
+}
+
+describe("pm remove command", () => {
+  test("keeps catalog entries still referenced by other workspace packages", async () => {
+    await withTempMonorepo(async (dir) => {
+      const { ctx, resultCalls } = createCtx(dir, {
+        args: ["zod", "vitest"],
+        options: { apply: true, autoinstall: false, target: "packages/app" },
+      });
+
+      await command.handler(ctx as never);
+
+      expect(await readJson(join(dir, "packages", "app", "package.json"))).toEqual({
+        name: "@demo/app",
+        dependencies: { react: "catalog:" },
+      });
+      expect(resultCalls[0]?.value).toMatchObject({
+        catalogCleanup: [
+          { catalogName: "testing", packageName: "vitest", previousSpecifier: "^3.0.0" },
+        ],
+        summary: { catalogEntries: 1, manifests: 2, removed: 2 },
+      });
+      expect(await readJson(join(dir, "package.json"))).toMatchObject({
+        workspaces: {
+          catalog: { react: "^19.0.0", zod: "^3.23.8" },
+          catalogs: {},
+        },
+      });
+    });
+  });
+
+  test("sweeps workspace manifests from the root and prunes the unused catalog entry", async () => {
+    await withTempMonorepo(async (dir) => {
+      const { ctx, resultCalls, textLines } = createCtx(dir, {
+        args: ["zod"],
+        mode: "text",
+      });
+
+      await command.handler(ctx as never);
+
+      expect(textLines).toEqual([
+        "pm remove preview",
+        "Target: demo",
+        "Summary: 2 removal(s) across 3 manifest(s), 1 catalog entry pruned.",
+        "- zod catalog: (packages/app, dependencies)",
+        "- zod catalog: (packages/lib, dependencies)",
+        "- zod ^3.23.8 (default catalog)",
+        "Install step: bun install (after --apply)",
+      ]);
+      expect(resultCalls).toEqual([]);
+      expect(await readJson(join(dir, "packages", "lib", "package.json"))).toEqual({
+        name: "@demo/lib",
+        dependencies: { zod: "catalog:" },
+      });
+
+      const missing = createCtx(dir, { args: ["lodash"] });
+      await expect(command.handler(missing.ctx as never)).rejects.toThrow(
+        "EXIT 1: Some requested packages were not found for demo: lodash. Searched 3 manifest(s) recursively.",
+      );
+    });
+  });
+});
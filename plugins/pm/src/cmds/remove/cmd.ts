@@ -0,0 +1,414 @@
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  assertSupportedBunLockfileProject,
+  collectCatalogReferences,
+  findDependencyLocation,
+  getBunLockfilePath,
+  getManifestCatalog,
+  listManifestTargets,
+  listWorkspaceManifestTargets,
+  parseCatalogProtocol,
+  parsePackageInput,
+  removeCatalogEntry,
+  removeDependency,
+  resolveTargetContext,
+  runBunInstall,
+  type DependencySection,
+  type ManifestTarget,
+  type PackageManifest,
+  type VerifyLockResult,
+  verifyBunLock,
+  withSnapshotRollback,
+  writeManifest,
+} from "../../lib";
+import { readPmRegistryConfig } from "../../rse-config";
+
+interface RemoveAction {
+  readonly manifestPath: string;
+  readonly packageName: string;
+  readonly previousSpecifier: string;
+  readonly section: DependencySection;
+  readonly targetLabel: string;
+}
+
+interface CatalogCleanup {
+  /** Undefined for the default catalog. */
+  readonly catalogName?: string | undefined;
+  readonly packageName: string;
+  readonly previousSpecifier: string;
+}
+
+function formatCatalog(catalogName: string | undefined): string {
+  return catalogName ? `catalog ${catalogName}` : "default catalog";
+}
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function okLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; green(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
+}
+
+function warnLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.yellow(ctx.colors.stdout.bold(text));
+}
+
+function emitRemovals(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; yellow(text: string): string };
+    };
+    out(...values: unknown[]): void;
+  },
+  actions: readonly RemoveAction[],
+  catalogCleanup: readonly CatalogCleanup[],
+): void {
+  for (const action of actions) {
+    ctx.out(
+      `${ctx.colors.stdout.yellow("-")} ${ctx.colors.stdout.bold(action.packageName)} ${action.previousSpecifier} (${action.targetLabel}, ${action.section})`,
+    );
+  }
+
+  for (const entry of catalogCleanup) {
+    ctx.out(
+      `${ctx.colors.stdout.yellow("-")} ${ctx.colors.stdout.bold(entry.packageName)} ${entry.previousSpecifier} (${formatCatalog(entry.catalogName)})`,
+    );
+  }
+}
+
+class InstallFailedError extends Error {
+  constructor(readonly installResult: Awaited<ReturnType<typeof runBunInstall>>) {
+    super("bun install failed");
+  }
+}
+
+class VerifyLockFailedError extends Error {
+  constructor(readonly verification: VerifyLockResult) {
+    super("bun.lock verification failed");
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "remove",
+    description: "Remove dependencies from a repo or workspace package and prune unused catalogs",
+  },
+  agent: {
+    notes:
+      "This command is non-interactive and previews by default. Pass package names as args; when the target is a monorepo root, every workspace manifest is swept unless --no-recursive is passed.",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: false,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.write", "package.install"],
+  },
+  help: {
+    examples: [
+      "rse remove zod --target packages/rempts",
+      "rse remove zod --target packages/rempts --apply --json",
+      "rse remove lodash --cwd . --apply",
+      "rse remove lodash --cwd . --no-recursive --json",
+    ],
+    text: "Removes each package from every dependency section of the targeted manifest. When the target is a monorepo root, workspace manifests are swept recursively by default; pass --no-recursive to stay on the root manifest. Catalog entries in the root manifest that no workspace manifest references anymore are removed too. Pass --apply to write the changes and run bun install; manifests and bun.lock are restored if install or lockfile verification fails.",
+  },
+  options: {
+    autoinstall: {
+      type: "boolean",
+      defaultValue: true,
+      description:
+        "Run bun install after applying manifest/catalog changes; pass --no-autoinstall to skip",
+      inputSources: ["flag", "default"],
+    },
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Base directory used to resolve the repo and target package",
+      inputSources: ["flag", "default"],
+    },
+    recursive: {
+      type: "boolean",
+      description:
+        "Enabled by default for monorepo root targets; pass --no-recursive to limit removal to the root manifest only",
+      inputSources: ["flag"],
+    },
+    target: {
+      type: "string",
+      description: "Workspace path or package name to modify relative to --cwd",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    const packageNames = [...new Set(ctx.args.map((input) => parsePackageInput(input).name))];
+
+    if (packageNames.length === 0) {
+      ctx.exit(1, "Missing package names. Example: rse remove zod --target packages/rempts");
+    }
+
+    const context = await resolveTargetContext({
+      cwd: ctx.options.cwd,
+      target: ctx.options.target,
+    });
+    await assertSupportedBunLockfileProject(context.installCwd);
+
+    const autoinstall = ctx.options.autoinstall !== false;
+    const recursive =
+      context.usesWorkspaces &&
+      context.targetDir === context.repoRootDir &&
+      ctx.options.recursive !== false;
+    const manifestTargets = await listManifestTargets(context, {
+      includeWorkspacePackages: recursive,
+    });
+    const nextManifests = new Map<string, PackageManifest>();
+    const actions: RemoveAction[] = [];
+
+    for (const target of manifestTargets) {
+      let nextManifest = target.manifest;
+
+      for (const packageName of packageNames) {
+        let location = findDependencyLocation(nextManifest, packageName);
+
+        while (location) {
+          actions.push({
+            manifestPath: target.manifestPath,
+            packageName,
+            previousSpecifier: location.specifier,
+            section: location.section,
+            targetLabel: target.label,
+          });
+          nextManifest = removeDependency(nextManifest, location.section, packageName);
+          location = findDependencyLocation(nextManifest, packageName);
+        }
+      }
+
+      if (nextManifest !== target.manifest) {
+        nextManifests.set(target.manifestPath, nextManifest);
+      }
+    }
+
+    const missingPackages = packageNames.filter(
+      (packageName) => !actions.some((action) => action.packageName === packageName),
+    );
+
+    if (missingPackages.length > 0) {
+      ctx.exit(
+        1,
+        `Some requested packages were not found for ${context.targetLabel}: ${missingPackages.join(", ")}. Searched ${manifestTargets.length} manifest(s)${recursive ? " recursively" : ""}.`,
+      );
+    }
+
+    // A catalog entry stays while any manifest in the repo still points at it.
+    const repoManifests: readonly ManifestTarget[] = [
+      {
+        dir: context.repoRootDir,
+        label: ".",
+        manifest: context.repoRootManifest,
+        manifestPath: context.repoRootManifestPath,
+      },
+      ...(context.usesWorkspaces ? await listWorkspaceManifestTargets(context) : []),
+    ];
+    const catalogReferences = collectCatalogReferences(
+      repoManifests.map((target) => nextManifests.get(target.manifestPath) ?? target.manifest),
+    );
+    let nextRootManifest =
+      nextManifests.get(context.repoRootManifestPath) ?? context.repoRootManifest;
+    const catalogCleanup: CatalogCleanup[] = [];
+
+    for (const action of actions) {
+      const catalogName = parseCatalogProtocol(action.previousSpecifier);
+      if (
+        catalogName === null ||
+        catalogReferences.get(catalogName ?? "")?.has(action.packageName)
+      ) {
+        continue;
+      }
+
+      const previousSpecifier = getManifestCatalog(nextRootManifest, catalogName)[
+        action.packageName
+      ];
+      if (previousSpecifier === undefined) {
+        continue;
+      }
+
+      catalogCleanup.push({ catalogName, packageName: action.packageName, previousSpecifier });
+      nextRootManifest = removeCatalogEntry(nextRootManifest, action.packageName, catalogName);
+    }
+
+    if (catalogCleanup.length > 0) {
+      nextManifests.set(context.repoRootManifestPath, nextRootManifest);
+    }
+
+    const resultPayload = {
+      actions,
+      apply: ctx.safety.apply,
+      catalogCleanup,
+      preview: !ctx.safety.apply,
+      install: {
+        command: "bun install",
+        cwd: context.installCwd,
+        enabled: autoinstall,
+        executed: false,
+      },
+      recursive,
+      summary: {
+        catalogEntries: catalogCleanup.length,
+        manifests: nextManifests.size,
+        removed: actions.length,
+      },
+      target: {
+        cwd: context.targetDir,
+        label: context.targetLabel,
+        manifestPath: context.targetManifestPath,
+      },
+    };
+    const summaryText = `${actions.length} removal(s) across ${nextManifests.size} manifest(s), ${catalogCleanup.length} catalog entr${catalogCleanup.length === 1 ? "y" : "ies"} pruned.`;
+
+    if (!ctx.safety.apply) {
+      if (ctx.output.mode === "json") {
+        ctx.output.result(resultPayload, "pm remove");
+        return;
+      }
+
+      ctx.out(infoLabel(ctx, "pm remove preview"));
+      ctx.out(`${infoLabel(ctx, "Target:")} ${context.targetLabel}`);
+      ctx.out(`${infoLabel(ctx, "Summary:")} ${summaryText}`);
+      emitRemovals(ctx, actions, catalogCleanup);
+      ctx.out(
+        `${infoLabel(ctx, "Install step:")} ${autoinstall ? "bun install (after --apply)" : "disabled (--no-autoinstall)"}`,
+      );
+
+      return;
+    }
+
+    ctx.safety.assertApplied("fs.write");
+
+    const registries = autoinstall
+      ? await readPmRegistryConfig(context.installCwd, ctx.env).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+        })
+      : undefined;
+    const snapshotPaths = [...nextManifests.keys(), getBunLockfilePath(context.installCwd)];
+    const transactionResult = await withSnapshotRollback(snapshotPaths, async () => {
+      for (const [manifestPath, manifest] of nextManifests) {
+        await writeManifest(manifestPath, manifest);
+      }
+
+      const result = autoinstall ? await runBunInstall(context.installCwd) : null;
+
+      if (result && !result.ok) {
+        throw new InstallFailedError(result);
+      }
+
+      const verification = result
+        ? await verifyBunLock({ cwd: context.installCwd, registries })
+        : null;
+
+      if (verification && !verification.ok) {
+        throw new VerifyLockFailedError(verification);
+      }
+
+      return { installResult: result, verification };
+    }).catch((error: unknown) => {
+      if (error instanceof InstallFailedError) {
+        if (error.installResult.stderr.trim().length > 0 && ctx.output.mode !== "json") {
+          ctx.err(error.installResult.stderr.trim());
+        }
+
+        return ctx.exit(
+          1,
+          `bun install failed after removing from ${context.targetLabel}. Changes were reverted. Command: ${error.installResult.command}. Cwd: ${error.installResult.cwd}. Exit code: ${error.installResult.exitCode}.`,
+        );
+      }
+
+      if (error instanceof VerifyLockFailedError) {
+        return ctx.exit(
+          1,
+          `bun.lock verification failed after removing from ${context.targetLabel}. Changes were reverted. Issues: ${error.verification.issues
+            .slice(0, 5)
+            .map(
+              (issue) =>
+                `${issue.packageName ?? "lockfile"}${issue.version ? `@${issue.version}` : ""}:${issue.reason}`,
+            )
+            .join(", ")}`,
+        );
+      }
+
+      throw error;
+    });
+
+    const successPayload = {
+      ...resultPayload,
+      install: transactionResult.installResult
+        ? {
+            ...transactionResult.installResult,
+            enabled: true,
+            executed: true,
+            verification: transactionResult.verification
+              ? {
+                  checkedPackages: transactionResult.verification.checkedPackages,
+                  issues: transactionResult.verification.issues,
+                  ok: transactionResult.verification.ok,
+                }
+              : undefined,
+          }
+        : {
+            command: "bun install",
+            cwd: context.installCwd,
+            enabled: false,
+            executed: false,
+            verification: undefined,
+          },
+    };
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(successPayload, "pm remove");
+      return;
+    }
+
+    ctx.out(okLabel(ctx, "pm remove"));
+    ctx.out(`${infoLabel(ctx, "Target:")} ${context.targetLabel}`);
+    ctx.out(`${infoLabel(ctx, "Summary:")} ${summaryText}`);
+    emitRemovals(ctx, actions, catalogCleanup);
+
+    if (transactionResult.installResult) {
+      ctx.out(
+        `${okLabel(ctx, "Ran:")} bun install (${ctx.colors.stdout.bold(context.installCwd)})`,
+      );
+      if (transactionResult.verification) {
+        ctx.out(
+          `${okLabel(ctx, "Verified bun.lock:")} ${transactionResult.verification.checkedPackages} package(s)`,
+        );
+      }
+    } else {
+      ctx.out(`${warnLabel(ctx, "Install skipped:")} --no-autoinstall`);
+    }
+  },
+});
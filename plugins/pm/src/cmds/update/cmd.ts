@@ -14,6 +14,7 @@ import {
   isWorkspaceProtocol,
   listManifestTargets,
   listTargetDependencies,
+  loadRegistryConfig,
   parseCatalogProtocol,
   parsePackageInput,
   type PackageInput,
@@ -724,12 +725,18 @@ export default defineCommand({
     await assertSupportedBunLockfileProject(context.installCwd);
 
     const safeLatest = ctx.options.safeLatest === true;
-    const rseConfig = safeLatest
-      ? await readOptionalRseConfig(context.installCwd).catch((error: unknown) => {
-          const message = error instanceof Error ? error.message : String(error);
-          return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
-        })
-      : undefined;
+    const rseConfig = await readOptionalRseConfig(context.installCwd).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read optional rse.config.json: ${message}`);
+    });
+    const registries = await loadRegistryConfig({
+      cwd: context.installCwd,
+      env: ctx.env,
+      registries: rseConfig?.pm?.registries,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+    });
     const socketSeverityThreshold = ((): "low" | "medium" | "high" | "critical" | undefined => {
       if (ctx.options.socketSeverityThreshold === undefined) return undefined;
       const value = ctx.options.socketSeverityThreshold.trim();
@@ -1006,6 +1013,7 @@ export default defineCommand({
               refresh: executionRequested,
               packageName: update.packageName,
               policy: safeLatestPolicy,
+              registries,
             })
           : {
               decision: undefined,
@@ -1014,6 +1022,7 @@ export default defineCommand({
                 refresh: executionRequested,
                 latest: latestByDefault,
                 packageName: update.packageName,
+                registries,
                 smart: smartByDefault,
                 versionPolicy,
               }),
@@ -1307,6 +1316,7 @@ export default defineCommand({
       const verification = result
         ? await verifyBunLock({
             cwd: context.installCwd,
+            registries,
             requireSocket: safeLatestPolicy.socket.require,
             socket: safeLatestPolicy.socket.enabled,
             socketSeverityThreshold: safeLatestPolicy.socket.severityThreshold,
@@ -1,6 +1,10 @@
+import { resolve } from "node:path";
+
 import { defineCommand } from "@reliverse/rempts";
 
+import { loadAdvisoryDatabase, normalizeSeverityThreshold } from "../../audit";
 import { assertSupportedBunLockfileProject, verifyBunLock } from "../../lib";
+import { readPmRegistryConfig } from "../../rse-config";
 
 function infoLabel(
   ctx: {
@@ -24,33 +28,11 @@ function okLabel(
   return ctx.colors.stdout.green(ctx.colors.stdout.bold(text));
 }
 
-function normalizeSocketSeverity(
-  value: unknown,
-  exit: (code: number, message: string) => never,
-): "low" | "medium" | "high" | "critical" | undefined {
-  if (value === undefined) return undefined;
-  const severity = String(value).trim();
-  if (severity === "middle") return "medium";
-  if (
-    severity === "low" ||
-    severity === "medium" ||
-    severity === "high" ||
-    severity === "critical"
-  ) {
-    return severity;
-  }
-
-  return exit(
-    1,
-    'Invalid --socket-severity-threshold: use "low", "medium"/"middle", "high", or "critical".',
-  );
-}
-
 export default defineCommand({
   meta: {
     name: "verify-lock",
     description:
-      "Verify Bun lockfile package integrity and optionally check the installed tree with Socket.",
+      "Verify Bun lockfile package integrity and optionally check the installed tree with Socket or a local advisory database.",
   },
   interactive: "never",
   conventions: {
@@ -63,8 +45,9 @@ export default defineCommand({
       "rse verify-lock --json",
       "rse verify-lock --socket --json",
       "rse verify-lock --require-socket --socket-severity-threshold high --json",
+      "rse verify-lock --advisory-db ./osv/npm --advisory-severity-threshold medium",
     ],
-    text: "Parses bun.lock, verifies resolved package entries include integrity metadata, and can run Socket shallow checks against every resolved package version. Only modern Bun projects with bun.lock are supported.",
+    text: "Parses bun.lock, verifies resolved package entries include integrity metadata and come from the registry configured for their scope (.npmrc, bunfig.toml, pm.registries), and can run Socket shallow checks against every resolved package version. --advisory-db matches every package against a local OSV advisory dump without network access; findings at or above --advisory-severity-threshold (default high) fail verification, like Socket alerts. Only modern Bun projects with bun.lock are supported.",
   },
   options: {
     cwd: {
@@ -89,16 +72,52 @@ export default defineCommand({
       hint: "low | medium | middle | high | critical",
       inputSources: ["flag"],
     },
+    advisoryDb: {
+      type: "string",
+      description: "OSV advisory JSON file or directory to match resolved packages against",
+      hint: "./osv/npm",
+      inputSources: ["flag"],
+    },
+    advisorySeverityThreshold: {
+      type: "string",
+      description: "Lowest advisory severity that fails verification",
+      hint: "low | medium | middle | high | critical",
+      inputSources: ["flag"],
+    },
   },
   async handler(ctx) {
     await assertSupportedBunLockfileProject(ctx.options.cwd);
 
-    const socketSeverityThreshold = normalizeSocketSeverity(
+    const socketSeverityThreshold = normalizeSeverityThreshold(
       ctx.options.socketSeverityThreshold,
+      "--socket-severity-threshold",
+      ctx.exit,
+    );
+    const advisorySeverityThreshold = normalizeSeverityThreshold(
+      ctx.options.advisorySeverityThreshold,
+      "--advisory-severity-threshold",
       ctx.exit,
     );
+    const advisoryDatabase =
+      typeof ctx.options.advisoryDb === "string"
+        ? await loadAdvisoryDatabase(resolve(ctx.cwd, ctx.options.advisoryDb)).catch(
+            (error: unknown) => {
+              const message = error instanceof Error ? error.message : String(error);
+              return ctx.exit(1, `Failed to read advisory database: ${message}`);
+            },
+          )
+        : undefined;
+    const registries = await readPmRegistryConfig(ctx.options.cwd, ctx.env).catch(
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return ctx.exit(1, `Failed to read registry configuration: ${message}`);
+      },
+    );
     const result = await verifyBunLock({
+      advisoryDatabase,
+      advisorySeverityThreshold,
       cwd: ctx.options.cwd,
+      registries,
       requireSocket: ctx.options.requireSocket === true,
       socket: ctx.options.socket === true,
       socketSeverityThreshold,
@@ -115,6 +134,11 @@ export default defineCommand({
           `${infoLabel(ctx, "Socket:")} ${result.socket.require ? "required" : "enabled"}, threshold ${result.socket.severityThreshold}`,
         );
       }
+      if (result.advisories) {
+        ctx.out(
+          `${infoLabel(ctx, "Advisories:")} ${result.advisories.findings} finding(s) from ${result.advisories.database}, threshold ${result.advisories.severityThreshold}`,
+        );
+      }
       if (result.issues.length > 0) {
         ctx.out(infoLabel(ctx, "Issues:"));
         for (const issue of result.issues.slice(0, 20)) {
@@ -0,0 +1,99 @@
+import { defineCommand } from "@reliverse/rempts";
+
+import {
+  assertSupportedBunLockfileProject,
+  explainBunLockDependency,
+  parsePackageInput,
+  resolveTargetContext,
+  type WhyChain,
+  type WhyStep,
+} from "../../lib";
+
+const SECTION_LABELS: Readonly<Record<WhyStep["section"], string>> = {
+  dependencies: "",
+  devDependencies: " (dev)",
+  optionalDependencies: " (optional)",
+  peerDependencies: " (peer)",
+};
+
+function infoLabel(
+  ctx: {
+    colors: {
+      stdout: { bold(text: string): string; cyan(text: string): string };
+    };
+  },
+  text: string,
+): string {
+  return ctx.colors.stdout.cyan(ctx.colors.stdout.bold(text));
+}
+
+function formatChain(chain: WhyChain): string {
+  return [
+    `${chain.workspace.name} (${chain.workspace.path || "."})`,
+    ...chain.steps.map((step) => `${step.name}@${step.version}${SECTION_LABELS[step.section]}`),
+  ].join(" > ");
+}
+
+export default defineCommand({
+  meta: {
+    name: "why",
+    description: "Explain why a package is installed by listing its dependency chains in bun.lock",
+  },
+  interactive: "never",
+  conventions: {
+    idempotent: true,
+    supportsApply: false,
+  },
+  help: {
+    examples: ["rse why zod", "rse why zod@3.23.8 --json", "rse why @types/node --cwd apps/web"],
+    text: "Reads bun.lock and prints every dependency chain from a workspace package to the given package. Pass name@version to explain one installed version. Chains stop at the first match and skip dependency cycles; very large graphs are truncated after 200 chains.",
+  },
+  options: {
+    cwd: {
+      type: "string",
+      defaultValue: ".",
+      description: "Directory inside the project whose bun.lock is read",
+      inputSources: ["flag", "default"],
+    },
+  },
+  async handler(ctx) {
+    const inputs = ctx.args.map(parsePackageInput);
+
+    if (inputs.length !== 1) {
+      ctx.exit(1, "Pass exactly one package. Example: rse why zod");
+    }
+
+    const input = inputs[0]!;
+    const context = await resolveTargetContext({ cwd: ctx.options.cwd });
+    await assertSupportedBunLockfileProject(context.installCwd);
+    const result = await explainBunLockDependency({
+      cwd: context.installCwd,
+      packageName: input.name,
+      version: input.requestedSpecifier,
+    });
+    const query = input.requestedSpecifier
+      ? `${input.name}@${input.requestedSpecifier}`
+      : input.name;
+
+    if (result.matches.length === 0) {
+      ctx.exit(1, `${query} is not installed according to ${result.lockfilePath}.`);
+    }
+
+    if (ctx.output.mode === "json") {
+      ctx.output.result(result, "pm why");
+      return;
+    }
+
+    ctx.out(infoLabel(ctx, `pm why ${query}`));
+    ctx.out(
+      `${infoLabel(ctx, "Installed:")} ${result.matches.map((match) => match.version).join(", ")}`,
+    );
+    ctx.out(
+      `${infoLabel(ctx, "Chains:")} ${result.chains.length}${result.truncated ? " (truncated)" : ""}`,
+    );
+
+    for (const chain of result.chains) {
+      ctx.out(`- ${formatChain(chain)}`);
+    }
+  },
+});
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+
+import { inspectWorkspaceDependencies, planCatalogMigration } from "./doctor";
+import type { ManifestTarget, PackageManifest } from "./lib";
+
+function member(label: string, manifest: PackageManifest): ManifestTarget {
+  return { dir: `/repo/${label}`, label, manifest, manifestPath: `/repo/${label}/package.json` };
+}
+
+const rootManifest: PackageManifest = {
+  name: "demo",
+  dependencies: { tsx: "catalog:" },
+  workspaces: {
+    catalog: { react: "^19.0.0", tsx: "^4.0.0", unused: "^1.0.0" },
+    catalogs: { testing: { vitest: "^3.0.0" } },
+    packages: ["packages/*"],
+  },
+};
+
+const members = [
+  member("packages/app", {
+    name: "@demo/app",
+    dependencies: { "@demo/ui": "workspace:*", react: "^19.1.0", zod: "^3.22.0" },
+    devDependencies: { vitest: "catalog:testing" },
+    peerDependencies: { typescript: ">=5" },
+  }),
+  member("packages/lib", {
+    name: "@demo/lib",
+    dependencies: { react: "catalog:", zod: "~3.23.8" },
+    peerDependencies: { typescript: "^5.8.0" },
+  }),
+  member("packages/legacy", {
+    name: "@demo/legacy",
+    dependencies: { left: "github:org/left#main" },
+    devDependencies: { left: "^1.0.0" },
+  }),
+  member("packages/tools", {
+    name: "@demo/tools",
+    dependencies: { left: "^2.0.0" },
+  }),
+];
+
+describe("pm doctor", () => {
+  test("reports drift, catalog bypasses, unused catalog entries, and missing workspace packages", () => {
+    const issues = inspectWorkspaceDependencies({ members, rootManifest });
+
+    expect(issues.map((issue) => [issue.kind, issue.packageName, issue.fixable] as const)).toEqual([
+      ["missingWorkspacePackage", "@demo/ui", false],
+      ["versionDrift", "left", false],
+      ["catalogBypass", "react", true],
+      ["unusedCatalogEntry", "unused", false],
+      ["versionDrift", "zod", true],
+    ]);
+    expect(issues.find((issue) => issue.packageName === "zod")).toMatchObject({
+      suggestedSpecifier: "~3.23.8",
+      usages: [
+        { label: "packages/app", section: "dependencies", specifier: "^3.22.0" },
+        { label: "packages/lib", section: "dependencies", specifier: "~3.23.8" },
+      ],
+    });
+  });
+
+  test("plans catalog migrations for fixable issues only", () => {
+    const issues = inspectWorkspaceDependencies({ members, rootManifest });
+    const migration = planCatalogMigration({
+      issues,
+      members,
+      rootManifest,
+      rootManifestPath: "/repo/package.json",
+    });
+
+    expect([...migration.manifests.keys()].sort()).toEqual([
+      "/repo/package.json",
+      "/repo/packages/app/package.json",
+      "/repo/packages/lib/package.json",
+    ]);
+    expect(migration.rootChanged).toBe(true);
+    expect(migration.manifests.get("/repo/package.json")?.workspaces).toEqual({
+      catalog: { react: "^19.0.0", tsx: "^4.0.0", unused: "^1.0.0", zod: "~3.23.8" },
+      catalogs: { testing: { vitest: "^3.0.0" } },
+      packages: ["packages/*"],
+    });
+    expect(migration.manifests.get("/repo/packages/app/package.json")?.dependencies).toEqual({
+      "@demo/ui": "workspace:*",
+      react: "catalog:",
+      zod: "catalog:",
+    });
+  });
+
+  test("leaves migrations that would change majors manual and rewrites every section", () => {
+    const root: PackageManifest = {
+      name: "demo",
+      devDependencies: { react: "catalog:", zod: "catalog:" },
+      workspaces: { catalog: { react: "^18.2.0", zod: "^3.23.0" }, packages: ["packages/*"] },
+    };
+    const workspace = [
+      member("packages/app", {
+        dependencies: { drift: "^1.0.0", react: "^17.0.0", zod: "^3.22.0" },
+        devDependencies: { zod: "^3.22.0" },
+      }),
+      member("packages/lib", { dependencies: { drift: "^2.0.0" } }),
+    ];
+    const issues = inspectWorkspaceDependencies({ members: workspace, rootManifest: root });
+
+    expect(issues.map((issue) => [issue.kind, issue.packageName, issue.fixable] as const)).toEqual([
+      ["versionDrift", "drift", false],
+      ["catalogBypass", "react", false],
+      ["catalogBypass", "zod", true],
+    ]);
+    expect(issues[0]).toMatchObject({ suggestedSpecifier: undefined });
+
+    const migration = planCatalogMigration({
+      issues,
+      members: workspace,
+      rootManifest: root,
+      rootManifestPath: "/repo/package.json",
+    });
+    const app = migration.manifests.get("/repo/packages/app/package.json");
+
+    expect(migration.rootChanged).toBe(false);
+    expect(app?.dependencies).toEqual({ drift: "^1.0.0", react: "^17.0.0", zod: "catalog:" });
+    expect(app?.devDependencies).toEqual({ zod: "catalog:" });
+  });
+});
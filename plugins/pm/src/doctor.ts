@@ -0,0 +1,250 @@
+import {
+  canRewriteSpecifier,
+  collectCatalogReferences,
+  findCatalogEntry,
+  findDependencyLocations,
+  getCatalogProtocol,
+  isCatalogProtocol,
+  isWorkspaceProtocol,
+  listManifestCatalogs,
+  listTargetDependencies,
+  pickHighestSpecifier,
+  setCatalogEntry,
+  setDependency,
+  specifiersOverlap,
+  type DependencySection,
+  type ManifestTarget,
+  type PackageManifest,
+} from "./lib";
+
+export interface DoctorUsage {
+  readonly label: string;
+  readonly manifestPath: string;
+  readonly section: DependencySection;
+  readonly specifier: string;
+}
+
+export type DoctorIssue =
+  | {
+      /** Workspace packages depend on the package at different ranges and no catalog covers it. */
+      readonly kind: "versionDrift";
+      readonly fixable: boolean;
+      readonly packageName: string;
+      /** Catalog entry `--apply` would create; undefined when a usage cannot be rewritten. */
+      readonly suggestedSpecifier?: string | undefined;
+      readonly usages: readonly DoctorUsage[];
+    }
+  | {
+      /** A catalog entry exists, but some workspace packages still pin the package directly. */
+      readonly kind: "catalogBypass";
+      readonly catalogName?: string | undefined;
+      readonly catalogSpecifier: string;
+      readonly fixable: boolean;
+      readonly packageName: string;
+      readonly usages: readonly DoctorUsage[];
+    }
+  | {
+      readonly kind: "unusedCatalogEntry";
+      readonly catalogName?: string | undefined;
+      readonly fixable: false;
+      readonly packageName: string;
+      readonly specifier: string;
+    }
+  | {
+      readonly kind: "missingWorkspacePackage";
+      readonly fixable: false;
+      readonly packageName: string;
+      readonly usages: readonly DoctorUsage[];
+    };
+
+export interface DoctorMigration {
+  /** Manifests to write, keyed by path; includes the root manifest when its catalog changes. */
+  readonly manifests: ReadonlyMap<string, PackageManifest>;
+  readonly rootChanged: boolean;
+}
+
+/** Peer ranges are deliberately wide, so they are left out of drift and catalog checks. */
+const CATALOG_SECTIONS: ReadonlySet<DependencySection> = new Set([
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+]);
+
+function collectUsages(members: readonly ManifestTarget[]): ReadonlyMap<string, DoctorUsage[]> {
+  const usages = new Map<string, DoctorUsage[]>();
+
+  for (const member of members) {
+    for (const packageName of listTargetDependencies(member.manifest)) {
+      for (const location of findDependencyLocations(member.manifest, packageName)) {
+        const usage = {
+          label: member.label,
+          manifestPath: member.manifestPath,
+          section: location.section,
+          specifier: location.specifier,
+        };
+        usages.set(packageName, [...(usages.get(packageName) ?? []), usage]);
+      }
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Checks workspace packages for dependency drift, catalog bypasses, unused catalog entries, and
+ * `workspace:` references to packages that are not part of the repo. Drift and catalog checks
+ * cover workspace members only, matching how `pm add` uses catalogs; the root manifest still
+ * counts as a catalog consumer. Drift or bypasses whose ranges do not overlap the target range
+ * are reported as manual, since migrating them would move a package to another major version.
+ */
+export function inspectWorkspaceDependencies(options: {
+  readonly members: readonly ManifestTarget[];
+  readonly rootManifest: PackageManifest;
+}): readonly DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+  const workspaceNames = new Set(
+    [options.rootManifest, ...options.members.map((member) => member.manifest)].flatMap(
+      (manifest) => (manifest.name ? [manifest.name] : []),
+    ),
+  );
+
+  for (const [packageName, usages] of collectUsages(options.members)) {
+    const workspaceUsages = usages.filter((usage) => isWorkspaceProtocol(usage.specifier));
+    if (workspaceUsages.length > 0 && !workspaceNames.has(packageName)) {
+      issues.push({
+        fixable: false,
+        kind: "missingWorkspacePackage",
+        packageName,
+        usages: workspaceUsages,
+      });
+    }
+
+    const directUsages = usages.filter(
+      (usage) =>
+        CATALOG_SECTIONS.has(usage.section) &&
+        !isWorkspaceProtocol(usage.specifier) &&
+        !isCatalogProtocol(usage.specifier),
+    );
+    if (directUsages.length === 0) {
+      continue;
+    }
+
+    const rewritable = directUsages.every((usage) => canRewriteSpecifier(usage.specifier));
+    const catalogEntry = findCatalogEntry(options.rootManifest, packageName);
+
+    if (catalogEntry) {
+      issues.push({
+        catalogName: catalogEntry.catalogName,
+        catalogSpecifier: catalogEntry.specifier,
+        // Pointing a usage at a catalog range it does not overlap would change its major version.
+        fixable:
+          rewritable &&
+          directUsages.every((usage) => specifiersOverlap(usage.specifier, catalogEntry.specifier)),
+        kind: "catalogBypass",
+        packageName,
+        usages: directUsages,
+      });
+      continue;
+    }
+
+    if (new Set(directUsages.map((usage) => usage.specifier)).size > 1) {
+      const highest = rewritable
+        ? pickHighestSpecifier(directUsages.map((usage) => usage.specifier))
+        : undefined;
+      const fixable =
+        highest !== undefined &&
+        directUsages.every((usage) => specifiersOverlap(usage.specifier, highest));
+
+      issues.push({
+        fixable,
+        kind: "versionDrift",
+        packageName,
+        suggestedSpecifier: fixable ? highest : undefined,
+        usages: directUsages,
+      });
+    }
+  }
+
+  const references = collectCatalogReferences([
+    options.rootManifest,
+    ...options.members.map((member) => member.manifest),
+  ]);
+
+  for (const { catalogName, entries } of listManifestCatalogs(options.rootManifest)) {
+    for (const [packageName, specifier] of Object.entries(entries)) {
+      if (!references.get(catalogName ?? "")?.has(packageName)) {
+        issues.push({
+          catalogName,
+          fixable: false,
+          kind: "unusedCatalogEntry",
+          packageName,
+          specifier,
+        });
+      }
+    }
+  }
+
+  return issues.sort(
+    (left, right) =>
+      left.packageName.localeCompare(right.packageName) || left.kind.localeCompare(right.kind),
+  );
+}
+
+/**
+ * Moves fixable drift into the default catalog and points every bypassing usage at its catalog.
+ * Existing catalog entries are never changed.
+ */
+export function planCatalogMigration(options: {
+  readonly issues: readonly DoctorIssue[];
+  readonly members: readonly ManifestTarget[];
+  readonly rootManifest: PackageManifest;
+  readonly rootManifestPath: string;
+}): DoctorMigration {
+  const manifests = new Map(
+    options.members.map((member) => [member.manifestPath, member.manifest] as const),
+  );
+  let rootManifest = options.rootManifest;
+
+  for (const issue of options.issues) {
+    if (!issue.fixable) {
+      continue;
+    }
+
+    let protocol: string;
+
+    if (issue.kind === "versionDrift" && issue.suggestedSpecifier) {
+      rootManifest = setCatalogEntry(rootManifest, issue.packageName, issue.suggestedSpecifier);
+      protocol = getCatalogProtocol();
+    } else if (issue.kind === "catalogBypass") {
+      protocol = getCatalogProtocol(issue.catalogName);
+    } else {
+      continue;
+    }
+
+    for (const usage of issue.usages) {
+      const manifest = manifests.get(usage.manifestPath);
+
+      if (manifest) {
+        manifests.set(
+          usage.manifestPath,
+          setDependency(manifest, usage.section, issue.packageName, protocol),
+        );
+      }
+    }
+  }
+
+  const changed = new Map(
+    [...manifests].filter(
+      ([manifestPath, manifest]) =>
+        manifest !==
+        options.members.find((member) => member.manifestPath === manifestPath)?.manifest,
+    ),
+  );
+  const rootChanged = rootManifest !== options.rootManifest;
+
+  if (rootChanged) {
+    changed.set(options.rootManifestPath, rootManifest);
+  }
+
+  return { manifests: changed, rootChanged };
+}
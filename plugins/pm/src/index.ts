@@ -2,7 +2,15 @@ import { definePlugin, REMPTS_PLUGIN_API_VERSION } from "@reliverse/rempts";
 
 export default definePlugin({
   apiVersion: REMPTS_PLUGIN_API_VERSION,
-  capabilities: ["package-management", "dependency-add", "dependency-update"],
+  capabilities: [
+    "package-management",
+    "dependency-add",
+    "dependency-remove",
+    "dependency-update",
+    "license-policy",
+    "sbom",
+    "vulnerability-audit",
+  ],
   config: {
     defaults: {
       pm: {
@@ -28,6 +36,66 @@ export default definePlugin({
           additionalProperties: false,
           description: "Configuration consumed by @reliverse/pm-rse-plugin.",
           properties: {
+            licenses: {
+              type: "object",
+              additionalProperties: false,
+              description:
+                "License policy for rse pm licenses, checked against every package in bun.lock.",
+              properties: {
+                allow: {
+                  type: "array",
+                  description:
+                    "SPDX license ids allowed in dependencies. When set, every other or unknown license fails the check.",
+                  items: { type: "string" },
+                },
+                deny: {
+                  type: "array",
+                  description: "SPDX license ids that always fail the check, even when allowed.",
+                  items: { type: "string" },
+                },
+                exceptions: {
+                  type: "array",
+                  description:
+                    "Package names or exact name@version entries exempt from the policy.",
+                  items: { type: "string" },
+                },
+              },
+            },
+            registries: {
+              type: "object",
+              additionalProperties: false,
+              description:
+                "Registries for rse add, update, verify-lock, and gtb, applied over .npmrc and bunfig.toml. URLs and tokens may use ${ENV_VAR}.",
+              properties: {
+                default: {
+                  description: "Registry for unscoped packages and unconfigured scopes.",
+                  anyOf: [
+                    { type: "string" },
+                    {
+                      type: "object",
+                      additionalProperties: false,
+                      properties: { token: { type: "string" }, url: { type: "string" } },
+                      required: ["url"],
+                    },
+                  ],
+                },
+                scopes: {
+                  type: "object",
+                  description: 'Registry per package scope, for example "@company".',
+                  additionalProperties: {
+                    anyOf: [
+                      { type: "string" },
+                      {
+                        type: "object",
+                        additionalProperties: false,
+                        properties: { token: { type: "string" }, url: { type: "string" } },
+                        required: ["url"],
+                      },
+                    ],
+                  },
+                },
+              },
+            },
             safeLatest: {
               type: "object",
               additionalProperties: false,
@@ -106,5 +174,5 @@ export default definePlugin({
   entry: import.meta.url,
   name: "pm-rse-plugin",
   description: "Bun-first package management plugin for Rse",
-  provides: ["add", "update", "verify-lock"],
+  provides: ["add", "pm", "remove", "update", "verify-lock", "why"],
 });
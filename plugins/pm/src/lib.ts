@@ -2,9 +2,18 @@ import { constants } from "node:fs";
 import { access, readFile, writeFile } from "node:fs/promises";
 import { dirname, join, relative, resolve } from "node:path";
 
+import {
+  DEFAULT_REGISTRY_CONFIG,
+  fetchRegistryPackument,
+  resolvePackageRegistry,
+  type RegistryConfig,
+} from "./registry";
+
 export { assertSupportedBunLockfileProject, getBunLockfilePath } from "./lockfile";
+export { loadRegistryConfig, type RegistryConfig } from "./registry";
 export { resolveSafeLatestVersion, type SafeVersionDecision } from "./safe/latest";
 export { verifyBunLock, type VerifyLockResult } from "./verify-lock";
+export { explainBunLockDependency, type WhyChain, type WhyResult, type WhyStep } from "./why";
 
 export type DependencySection =
   | "dependencies"
@@ -276,6 +285,48 @@ export function getManifestCatalog(
     : {};
 }
 
+/** Every catalog of the manifest; the default catalog has no `catalogName`. */
+export function listManifestCatalogs(manifest: PackageManifest): readonly {
+  readonly catalogName?: string | undefined;
+  readonly entries: Record<string, string>;
+}[] {
+  const container = getCatalogContainer(manifest);
+
+  return [
+    { catalogName: undefined, entries: container.defaultCatalog },
+    ...Object.entries(container.namedCatalogs)
+      .sort(([left], [right]) => left.localeCompare(right))
+      .map(([catalogName, entries]) => ({ catalogName, entries })),
+  ];
+}
+
+/**
+ * Package names each catalog is referenced for through `catalog:` specifiers, keyed by catalog
+ * name with `""` for the default catalog.
+ */
+export function collectCatalogReferences(
+  manifests: readonly PackageManifest[],
+): ReadonlyMap<string, ReadonlySet<string>> {
+  const references = new Map<string, Set<string>>();
+
+  for (const manifest of manifests) {
+    for (const section of SECTION_PRIORITY) {
+      for (const [packageName, specifier] of Object.entries(manifest[section] ?? {})) {
+        const catalogName = parseCatalogProtocol(specifier);
+
+        if (catalogName === null) {
+          continue;
+        }
+
+        const key = catalogName ?? "";
+        references.set(key, (references.get(key) ?? new Set()).add(packageName));
+      }
+    }
+  }
+
+  return references;
+}
+
 export function findCatalogEntry(
   manifest: PackageManifest,
   packageName: string,
@@ -581,6 +632,17 @@ export function findDependencyLocation(
   return null;
 }
 
+/** Every section that lists the package, in the same order `findDependencyLocation` checks. */
+export function findDependencyLocations(
+  manifest: PackageManifest,
+  packageName: string,
+): { section: DependencySection; specifier: string }[] {
+  return SECTION_PRIORITY.flatMap((section) => {
+    const specifier = manifest[section]?.[packageName];
+    return specifier ? [{ section, specifier }] : [];
+  });
+}
+
 export function listTargetDependencies(manifest: PackageManifest): readonly string[] {
   return [
     ...new Set(SECTION_PRIORITY.flatMap((section) => Object.keys(manifest[section] ?? {}))),
@@ -595,17 +657,26 @@ export function getCatalogSpecifier(
   return getManifestCatalog(context.repoRootManifest, catalogName)[packageName];
 }
 
-export async function fetchLatestVersion(packageName: string): Promise<string> {
-  const metadata = await fetchRegistryPackageMetadata(packageName);
+export async function fetchLatestVersion(
+  packageName: string,
+  registries?: RegistryConfig | undefined,
+): Promise<string> {
+  const metadata = await fetchRegistryPackageMetadata(packageName, { registries });
   return metadata.latestVersion;
 }
 
 async function fetchRegistryPackageMetadata(
   packageName: string,
-  options?: { readonly refresh?: boolean | undefined },
+  options?: {
+    readonly refresh?: boolean | undefined;
+    readonly registries?: RegistryConfig | undefined;
+  },
 ): Promise<RegistryPackageMetadata> {
+  const registries = options?.registries ?? DEFAULT_REGISTRY_CONFIG;
+  const cacheKey = `${resolvePackageRegistry(registries, packageName)}${packageName}`;
+
   if (options?.refresh !== true) {
-    const cached = packageMetadataCache.get(packageName);
+    const cached = packageMetadataCache.get(cacheKey);
 
     if (cached) {
       return cached;
@@ -613,15 +684,7 @@ async function fetchRegistryPackageMetadata(
   }
 
   const request = (async () => {
-    const response = await fetch(`https://registry.npmjs.org/${encodeURIComponent(packageName)}`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to resolve package metadata for "${packageName}" from npm (${response.status}).`,
-      );
-    }
-
-    const payload = (await response.json()) as {
+    const payload = (await fetchRegistryPackument(registries, packageName)) as {
       readonly versions?: Record<string, unknown> | undefined;
       readonly "dist-tags"?: { readonly latest?: string | undefined } | undefined;
     };
@@ -639,7 +702,7 @@ async function fetchRegistryPackageMetadata(
   })();
 
   if (options?.refresh !== true) {
-    packageMetadataCache.set(packageName, request);
+    packageMetadataCache.set(cacheKey, request);
   }
 
   return request;
@@ -798,11 +861,13 @@ export async function resolveUpdateVersion(options: {
   readonly refresh?: boolean | undefined;
   readonly latest?: boolean | undefined;
   readonly packageName: string;
+  readonly registries?: RegistryConfig | undefined;
   readonly smart?: boolean | undefined;
   readonly versionPolicy?: VersionPolicy | undefined;
 }): Promise<string> {
   const metadata = await fetchRegistryPackageMetadata(options.packageName, {
     refresh: options.refresh,
+    registries: options.registries,
   });
 
   if (options.versionPolicy) {
@@ -858,6 +923,35 @@ export function canRewriteSpecifier(specifier: string): boolean {
   return isMutableRangeSpecifier(specifier) || isPinnedVersionSpecifier(specifier);
 }
 
+/**
+ * Whether two ranges share a version, judged by whether either rewritable range's minimum
+ * satisfies the other. `^17.0.0` and `^18.2.0` do not, so one cannot silently replace the other.
+ */
+export function specifiersOverlap(left: string, right: string): boolean {
+  const minimumSatisfies = (specifier: string, range: string) => {
+    const minimum = canRewriteSpecifier(specifier) ? extractBaseSpecifierVersion(specifier) : null;
+    return minimum !== null && Bun.semver.satisfies(minimum, range);
+  };
+
+  return minimumSatisfies(left, right) || minimumSatisfies(right, left);
+}
+
+/** The rewritable specifier with the highest base version, used when unifying drifting ranges. */
+export function pickHighestSpecifier(specifiers: readonly string[]): string | undefined {
+  return specifiers.filter(canRewriteSpecifier).reduce<string | undefined>((highest, specifier) => {
+    if (highest === undefined) {
+      return specifier;
+    }
+
+    const order = Bun.semver.order(
+      extractBaseSpecifierVersion(specifier) ?? "",
+      extractBaseSpecifierVersion(highest) ?? "",
+    );
+
+    return order > 0 ? specifier : highest;
+  }, undefined);
+}
+
 export function createUpdatedSpecifier(options: {
   readonly currentSpecifier: string;
   readonly version: string;
@@ -941,6 +1035,25 @@ export function setDependency(
   return nextManifest;
 }
 
+export function removeDependency(
+  manifest: PackageManifest,
+  section: DependencySection,
+  packageName: string,
+): PackageManifest {
+  const nextManifest = cloneManifest(manifest);
+  const nextSection = ensureObject(nextManifest[section]);
+
+  delete nextSection[packageName];
+
+  if (Object.keys(nextSection).length === 0) {
+    delete nextManifest[section];
+  } else {
+    nextManifest[section] = nextSection;
+  }
+
+  return nextManifest;
+}
+
 export function setCatalogEntry(
   manifest: PackageManifest,
   packageName: string,
@@ -967,6 +1080,31 @@ export function setCatalogEntry(
   return setCatalog(manifest, nextDefaultCatalog, nextNamedCatalogs, normalizedName);
 }
 
+export function removeCatalogEntry(
+  manifest: PackageManifest,
+  packageName: string,
+  catalogName?: string | undefined,
+): PackageManifest {
+  const container = getCatalogContainer(manifest);
+  const normalizedName = normalizeCatalogName(catalogName);
+  const nextDefaultCatalog = { ...container.defaultCatalog };
+  const nextNamedCatalogs = Object.fromEntries(
+    Object.entries(container.namedCatalogs).map(([name, catalog]) => [name, { ...catalog }]),
+  ) as Record<string, Record<string, string>>;
+
+  if (normalizedName) {
+    delete nextNamedCatalogs[normalizedName]?.[packageName];
+
+    if (Object.keys(nextNamedCatalogs[normalizedName] ?? {}).length === 0) {
+      delete nextNamedCatalogs[normalizedName];
+    }
+  } else {
+    delete nextDefaultCatalog[packageName];
+  }
+
+  return setCatalog(manifest, nextDefaultCatalog, nextNamedCatalogs);
+}
+
 export function isWorkspaceProtocol(specifier: string): boolean {
   return specifier.startsWith("workspace:");
 }
@@ -996,15 +1134,23 @@ export async function listManifestTargets(
     return targets;
   }
 
+  return [...targets, ...(await listWorkspaceManifestTargets(context))];
+}
+
+/** Workspace package manifests of the repo, excluding the root manifest. */
+export async function listWorkspaceManifestTargets(
+  context: TargetContext,
+): Promise<readonly ManifestTarget[]> {
   const workspaceDirectories = await listWorkspaceDirectories(
     context.repoRootDir,
     getWorkspacePatterns(context.repoRootManifest),
   );
+  const targets: ManifestTarget[] = [];
 
   for (const directory of workspaceDirectories) {
     const manifestPath = join(directory, "package.json");
 
-    if (manifestPath === context.targetManifestPath) {
+    if (manifestPath === context.repoRootManifestPath) {
       continue;
     }
 
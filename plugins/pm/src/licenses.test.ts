@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  checkLicensePolicy,
+  evaluateLicense,
+  normalizeManifestLicense,
+  parseLicenseExpression,
+  resolvePackageLicenses,
+} from "./licenses";
+import { DEFAULT_REGISTRY_CONFIG } from "./registry";
+
+async function writeInstalledManifest(path: string, manifest: unknown): Promise<void> {
+  await mkdir(path, { recursive: true });
+  await writeFile(join(path, "package.json"), JSON.stringify(manifest), "utf8");
+}
+
+describe("license policy", () => {
+  test("evaluates SPDX expressions against allow and deny lists", () => {
+    const policy = { allow: ["MIT", "Apache-2.0", "GPL-2.0-only WITH Classpath-exception-2.0"] };
+
+    expect(parseLicenseExpression("SEE LICENSE IN LICENSE.md")).toBeUndefined();
+    expect(parseLicenseExpression("(MIT OR")).toBeUndefined();
+    expect(evaluateLicense("mit", policy)).toBe("allowed");
+    expect(evaluateLicense("(MIT OR GPL-3.0-only)", policy)).toBe("allowed");
+    expect(evaluateLicense("MIT AND GPL-3.0-only", policy)).toBe("notAllowed");
+    expect(evaluateLicense("GPL-2.0-only WITH Classpath-exception-2.0", policy)).toBe("allowed");
+    expect(evaluateLicense("(MIT OR Apache-2.0) AND BSD-3-Clause", policy)).toBe("notAllowed");
+    expect(evaluateLicense("MIT OR AGPL-3.0-only", { deny: ["AGPL-3.0-only"] })).toBe("allowed");
+    expect(
+      evaluateLicense("MIT AND AGPL-3.0-only", { allow: ["MIT"], deny: ["AGPL-3.0-only"] }),
+    ).toBe("denied");
+    expect(evaluateLicense("SEE LICENSE IN LICENSE.md", {})).toBe("allowed");
+  });
+
+  test("reads legacy manifest license fields", () => {
+    expect(normalizeManifestLicense({ license: { type: "MIT" } })).toBe("MIT");
+    expect(normalizeManifestLicense({ licenses: [{ type: "MIT" }, { type: "Apache-2.0" }] })).toBe(
+      "(MIT OR Apache-2.0)",
+    );
+    expect(normalizeManifestLicense({ license: " " })).toBeUndefined();
+  });
+
+  test("reports violations, exceptions, and unknown licenses", () => {
+    const licenses = [
+      { license: "MIT", name: "ok", source: "installed", version: "1.0.0" },
+      { license: "GPL-3.0-only", name: "copyleft", source: "installed", version: "1.0.0" },
+      { license: "GPL-3.0-only", name: "exempt", source: "installed", version: "2.0.0" },
+      { name: "mystery", source: "unknown", version: "0.1.0" },
+    ] as const;
+
+    expect(checkLicensePolicy(licenses, { allow: ["MIT"], exceptions: ["exempt@2.0.0"] })).toEqual([
+      {
+        license: "GPL-3.0-only",
+        name: "copyleft",
+        reason: "notAllowed",
+        severity: "error",
+        version: "1.0.0",
+      },
+      { name: "mystery", reason: "unknown", severity: "error", version: "0.1.0" },
+    ]);
+    expect(
+      checkLicensePolicy(licenses, { deny: ["GPL-3.0-only"], exceptions: ["exempt"] }),
+    ).toEqual([
+      {
+        license: "GPL-3.0-only",
+        name: "copyleft",
+        reason: "denied",
+        severity: "error",
+        version: "1.0.0",
+      },
+      { name: "mystery", reason: "unknown", severity: "warning", version: "0.1.0" },
+    ]);
+  });
+});
+
+describe("resolvePackageLicenses", () => {
+  test("reads hoisted and isolated installs before falling back to the registry", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "rse-pm-licenses-"));
+    const requests: string[] = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const pathname = decodeURIComponent(new URL(request.url).pathname);
+        requests.push(pathname);
+        return pathname === "/remote"
+          ? Response.json({
+              license: "ISC",
+              versions: { "1.0.0": { license: "BSD-2-Clause" }, "9.9.9": {} },
+            })
+          : new Response("not found", { status: 404 });
+      },
+    });
+
+    try {
+      await writeInstalledManifest(join(dir, "node_modules", "hoisted"), {
+        license: "MIT",
+        version: "1.0.0",
+      });
+      await writeInstalledManifest(
+        join(
+          dir,
+          "node_modules",
+          ".bun",
+          "@scope+isolated@2.0.0+0123abcd",
+          "node_modules",
+          "@scope",
+          "isolated",
+        ),
+        { licenses: [{ type: "Apache-2.0" }], version: "2.0.0" },
+      );
+
+      const packages = [
+        { name: "hoisted", version: "1.0.0" },
+        { name: "@scope/isolated", version: "2.0.0" },
+        { name: "remote", version: "1.0.0" },
+        { name: "remote", version: "9.9.9" },
+        { name: "gone", version: "1.0.0" },
+      ];
+      const registries = {
+        ...DEFAULT_REGISTRY_CONFIG,
+        defaultRegistry: `http://127.0.0.1:${server.port}/`,
+      };
+
+      expect(await resolvePackageLicenses({ cwd: dir, packages, registries })).toEqual([
+        { license: "MIT", name: "hoisted", source: "installed", version: "1.0.0" },
+        { license: "Apache-2.0", name: "@scope/isolated", source: "installed", version: "2.0.0" },
+        { license: "BSD-2-Clause", name: "remote", source: "registry", version: "1.0.0" },
+        { name: "remote", source: "unknown", version: "9.9.9" },
+        { name: "gone", source: "unknown", version: "1.0.0" },
+      ]);
+      expect(requests.sort()).toEqual(["/gone", "/remote"]);
+
+      const offline = await resolvePackageLicenses({
+        cwd: dir,
+        offline: true,
+        packages,
+        registries,
+      });
+      expect(offline.map((pkg) => pkg.source)).toEqual([
+        "installed",
+        "installed",
+        "unknown",
+        "unknown",
+        "unknown",
+      ]);
+      expect(requests).toHaveLength(2);
+    } finally {
+      await server.stop(true);
+      await rm(dir, { force: true, recursive: true });
+    }
+  });
+});
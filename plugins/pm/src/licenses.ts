@@ -0,0 +1,302 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+import pMap from "p-map";
+
+import { getBunLockfilePath } from "./lockfile";
+import { fetchRegistryPackument, type RegistryConfig } from "./registry";
+import { parseBunLockPackages, type BunLockPackage } from "./verify-lock";
+
+export interface LicensePolicyInput {
+  readonly allow?: readonly string[] | undefined;
+  readonly deny?: readonly string[] | undefined;
+  /** Package names or exact `name@version` entries exempt from the policy. */
+  readonly exceptions?: readonly string[] | undefined;
+}
+
+export interface PackageLicense {
+  /** SPDX expression or free-form text as published; undefined when nothing was found. */
+  readonly license?: string | undefined;
+  readonly name: string;
+  readonly source: "installed" | "registry" | "unknown";
+  readonly version: string;
+}
+
+export interface LicenseViolation {
+  readonly license?: string | undefined;
+  readonly name: string;
+  readonly reason: "denied" | "notAllowed" | "unknown";
+  readonly severity: "error" | "warning";
+  readonly version: string;
+}
+
+type LicenseExpression =
+  | { readonly kind: "leaf"; readonly id: string; readonly exception?: string | undefined }
+  | {
+      readonly kind: "and" | "or";
+      readonly left: LicenseExpression;
+      readonly right: LicenseExpression;
+    };
+
+type LicenseStatus = "allowed" | "denied" | "notAllowed";
+
+const STATUS_RANK: Readonly<Record<LicenseStatus, number>> = {
+  allowed: 2,
+  notAllowed: 1,
+  denied: 0,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Parses an SPDX license expression such as `(MIT OR Apache-2.0) AND BSD-3-Clause`. Returns
+ * undefined for text that is not an expression, like `SEE LICENSE IN LICENSE.md`.
+ */
+export function parseLicenseExpression(text: string): LicenseExpression | undefined {
+  const tokens = text.replaceAll("(", " ( ").replaceAll(")", " ) ").trim().split(/\s+/);
+  let position = 0;
+
+  const isOperator = (token: string | undefined) =>
+    token === "AND" || token === "OR" || token === "WITH" || token === "(" || token === ")";
+
+  const parseAtom = (): LicenseExpression | undefined => {
+    const token = tokens[position];
+    if (token === "(") {
+      position += 1;
+      const inner = parseOr();
+      if (tokens[position] !== ")") return undefined;
+      position += 1;
+      return inner;
+    }
+    if (token === undefined || isOperator(token) || !/^[A-Za-z0-9.+:-]+$/.test(token)) {
+      return undefined;
+    }
+    position += 1;
+    if (tokens[position] === "WITH") {
+      const exception = tokens[position + 1];
+      if (exception === undefined || isOperator(exception)) return undefined;
+      position += 2;
+      return { exception, id: token, kind: "leaf" };
+    }
+    return { id: token, kind: "leaf" };
+  };
+
+  const parseBinary = (
+    operator: "AND" | "OR",
+    parseOperand: () => LicenseExpression | undefined,
+  ): LicenseExpression | undefined => {
+    let left = parseOperand();
+    while (left && tokens[position] === operator) {
+      position += 1;
+      const right = parseOperand();
+      left = right ? { kind: operator === "AND" ? "and" : "or", left, right } : undefined;
+    }
+    return left;
+  };
+
+  const parseAnd = () => parseBinary("AND", parseAtom);
+  const parseOr = (): LicenseExpression | undefined => parseBinary("OR", parseAnd);
+
+  const expression = parseOr();
+  return expression && position === tokens.length ? expression : undefined;
+}
+
+/** Reads `license` in its current string form and the legacy `{ type }` / `licenses` forms. */
+export function normalizeManifestLicense(manifest: unknown): string | undefined {
+  if (!isObject(manifest)) return undefined;
+
+  const readOne = (value: unknown): string | undefined => {
+    if (typeof value === "string") return value.trim() || undefined;
+    if (isObject(value) && typeof value.type === "string") return value.type.trim() || undefined;
+    return undefined;
+  };
+
+  const license = readOne(manifest.license);
+  if (license) return license;
+
+  if (Array.isArray(manifest.licenses)) {
+    // The legacy array listed alternatives the consumer may choose between.
+    const alternatives = manifest.licenses.map(readOne).filter((value) => value !== undefined);
+    if (alternatives.length === 1) return alternatives[0];
+    if (alternatives.length > 1) return `(${alternatives.join(" OR ")})`;
+  }
+
+  return undefined;
+}
+
+/**
+ * OR expressions pass when any alternative passes and AND expressions need every part to pass.
+ * Allow and deny entries match a license id or a full `id WITH exception` term, ignoring case.
+ */
+export function evaluateLicense(license: string, policy: LicensePolicyInput): LicenseStatus {
+  const allow = new Set(policy.allow?.map((entry) => entry.toLowerCase()));
+  const deny = new Set(policy.deny?.map((entry) => entry.toLowerCase()));
+
+  const evaluateTerm = (terms: readonly string[]): LicenseStatus => {
+    const lower = terms.map((term) => term.toLowerCase());
+    if (lower.some((term) => deny.has(term))) return "denied";
+    if (allow.size === 0 || lower.some((term) => allow.has(term))) return "allowed";
+    return "notAllowed";
+  };
+
+  const evaluate = (expression: LicenseExpression): LicenseStatus => {
+    if (expression.kind === "leaf") {
+      return evaluateTerm(
+        expression.exception
+          ? [expression.id, `${expression.id} WITH ${expression.exception}`]
+          : [expression.id],
+      );
+    }
+
+    const left = evaluate(expression.left);
+    const right = evaluate(expression.right);
+    const pick = expression.kind === "or" ? Math.max : Math.min;
+    return STATUS_RANK[left] === pick(STATUS_RANK[left], STATUS_RANK[right]) ? left : right;
+  };
+
+  const expression = parseLicenseExpression(license);
+  return expression ? evaluate(expression) : evaluateTerm([license]);
+}
+
+export function checkLicensePolicy(
+  licenses: readonly PackageLicense[],
+  policy: LicensePolicyInput,
+): readonly LicenseViolation[] {
+  const exceptions = new Set(policy.exceptions);
+  const violations: LicenseViolation[] = [];
+
+  for (const pkg of licenses) {
+    if (exceptions.has(pkg.name) || exceptions.has(`${pkg.name}@${pkg.version}`)) continue;
+
+    if (!pkg.license) {
+      // Without an allow list an unknown license cannot break the policy, only hide a problem.
+      violations.push({
+        name: pkg.name,
+        reason: "unknown",
+        severity: policy.allow?.length ? "error" : "warning",
+        version: pkg.version,
+      });
+      continue;
+    }
+
+    const status = evaluateLicense(pkg.license, policy);
+    if (status !== "allowed") {
+      violations.push({
+        license: pkg.license,
+        name: pkg.name,
+        reason: status,
+        severity: "error",
+        version: pkg.version,
+      });
+    }
+  }
+
+  return violations;
+}
+
+async function readInstalledManifest(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Groups Bun's isolated store directories, named `<name with + for />@<version>[+<peer hash>]`,
+ * by package name.
+ */
+async function readIsolatedStore(cwd: string): Promise<ReadonlyMap<string, readonly string[]>> {
+  const entries = await readdir(join(cwd, "node_modules", ".bun")).catch(() => []);
+  const byName = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    const separatorIndex = entry.indexOf("@", 1);
+    if (separatorIndex === -1) continue;
+
+    const storeName = entry.slice(0, separatorIndex);
+    const storeEntries = byName.get(storeName) ?? [];
+    storeEntries.push(entry);
+    byName.set(storeName, storeEntries);
+  }
+
+  return byName;
+}
+
+/**
+ * Reads each package's license from its installed manifest, checking the hoisted
+ * `node_modules/<name>` copy and Bun's isolated store, then falls back to the registry metadata
+ * of that exact version.
+ * Registry failures and `offline` leave the license unknown instead of failing the run.
+ */
+export async function resolvePackageLicenses(options: {
+  readonly concurrency?: number | undefined;
+  readonly cwd: string;
+  readonly offline?: boolean | undefined;
+  readonly packages: readonly Pick<BunLockPackage, "name" | "version">[];
+  readonly registries: RegistryConfig;
+}): Promise<readonly PackageLicense[]> {
+  const packuments = new Map<string, Promise<unknown>>();
+  const isolatedStore = await readIsolatedStore(options.cwd);
+
+  return pMap(
+    options.packages,
+    async ({ name, version }): Promise<PackageLicense> => {
+      const storeName = name.replace("/", "+");
+      const storeEntries = (isolatedStore.get(storeName) ?? []).filter(
+        (entry) =>
+          entry === `${storeName}@${version}` || entry.startsWith(`${storeName}@${version}+`),
+      );
+
+      for (const path of [
+        join(options.cwd, "node_modules", name, "package.json"),
+        ...storeEntries.map((entry) =>
+          join(options.cwd, "node_modules", ".bun", entry, "node_modules", name, "package.json"),
+        ),
+      ]) {
+        const manifest = await readInstalledManifest(path);
+        if (isObject(manifest) && manifest.version === version) {
+          const license = normalizeManifestLicense(manifest);
+          if (license) return { license, name, source: "installed", version };
+        }
+      }
+
+      if (!options.offline) {
+        let packument = packuments.get(name);
+        if (!packument) {
+          packument = fetchRegistryPackument(options.registries, name).catch(() => undefined);
+          packuments.set(name, packument);
+        }
+
+        const metadata = await packument;
+        const versions = isObject(metadata) && isObject(metadata.versions) ? metadata.versions : {};
+        // The top-level packument license belongs to the latest version, not necessarily this one.
+        const license = normalizeManifestLicense(versions[version]);
+        if (license) return { license, name, source: "registry", version };
+      }
+
+      return { name, source: "unknown", version };
+    },
+    { concurrency: options.concurrency ?? 8 },
+  );
+}
+
+/** Resolves the license of every package in the project's `bun.lock`. */
+export async function readBunLockLicenses(options: {
+  readonly cwd: string;
+  readonly offline?: boolean | undefined;
+  readonly registries: RegistryConfig;
+}): Promise<{ lockfilePath: string; packages: readonly PackageLicense[] }> {
+  const lockfilePath = getBunLockfilePath(options.cwd);
+  const raw = await readFile(lockfilePath, "utf8");
+
+  return {
+    lockfilePath: resolve(lockfilePath),
+    packages: await resolvePackageLicenses({
+      ...options,
+      packages: parseBunLockPackages(raw, lockfilePath),
+    }),
+  };
+}
@@ -0,0 +1,166 @@
+import type { DependencySection } from "./lib";
+import { parseBunLockDocument } from "./lockfile";
+
+/** A dependency declaration resolved to the `packages` entry node_modules lookup would pick. */
+export interface BunLockEdge {
+  /** Key of the resolved node. */
+  readonly key: string;
+  /** Name the parent declares, which differs from the node's name for `npm:` aliases. */
+  readonly name: string;
+  readonly section: DependencySection;
+  readonly specifier: string;
+}
+
+export interface BunLockNode {
+  readonly edges: readonly BunLockEdge[];
+  readonly integrity?: string | undefined;
+  /** Key in `bun.lock` `packages`; nested keys like `a/b` mark a copy installed under `a`. */
+  readonly key: string;
+  readonly name: string;
+  /** Registry or tarball URL; undefined when Bun resolved it from the default registry. */
+  readonly registry?: string | undefined;
+  /** Text after `name@` in the resolution, e.g. `1.2.3`, `workspace:packages/a`, or a git URL. */
+  readonly version: string;
+  /** Repo-relative directory for workspace packages, `""` for the root. */
+  readonly workspacePath?: string | undefined;
+}
+
+export interface BunLockGraph {
+  readonly nodes: ReadonlyMap<string, BunLockNode>;
+  /** Every workspace package, sorted by path, with the key of its node. */
+  readonly workspaces: readonly { key: string; name: string; path: string }[];
+}
+
+/** Node key of the root workspace, which has no `packages` entry of its own. */
+export const BUN_LOCK_ROOT_KEY = "";
+
+const DEPENDENCY_SECTIONS: readonly DependencySection[] = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function readDependencies(
+  value: unknown,
+): readonly { name: string; section: DependencySection; specifier: string }[] {
+  if (!isObject(value)) return [];
+
+  return DEPENDENCY_SECTIONS.flatMap((section) => {
+    const dependencies = value[section];
+    if (!isObject(dependencies)) return [];
+
+    return Object.entries(dependencies)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      .map(([name, specifier]) => ({ name, section, specifier }));
+  });
+}
+
+/** Splits `@a/b/c/@d/e` into `["@a/b", "c", "@d/e"]`. */
+function splitPackageKey(key: string): readonly string[] {
+  const parts = key.split("/");
+  const segments: string[] = [];
+
+  for (let index = 0; index < parts.length; index += 1) {
+    const part = parts[index]!;
+    if (part.startsWith("@") && index + 1 < parts.length) {
+      segments.push(`${part}/${parts[index + 1]}`);
+      index += 1;
+    } else {
+      segments.push(part);
+    }
+  }
+
+  return segments;
+}
+
+function parseResolution(resolution: string): { name: string; version: string } {
+  const separatorIndex = resolution.indexOf("@", 1);
+
+  return separatorIndex === -1
+    ? { name: resolution, version: "" }
+    : { name: resolution.slice(0, separatorIndex), version: resolution.slice(separatorIndex + 1) };
+}
+
+/**
+ * Builds the installed dependency graph of a `bun.lock` document. Dependencies resolve the way
+ * node_modules lookup does: the nearest `parent/.../name` key wins, then the hoisted `name`.
+ */
+export function parseBunLockGraph(raw: string, lockfilePath = "bun.lock"): BunLockGraph {
+  const document = parseBunLockDocument(raw, lockfilePath);
+  const workspaces = isObject(document.workspaces) ? document.workspaces : {};
+  const packages = isObject(document.packages) ? document.packages : {};
+  const pending = new Map<
+    string,
+    Omit<BunLockNode, "edges"> & { dependencies: ReturnType<typeof readDependencies> }
+  >();
+
+  for (const [key, value] of Object.entries(packages)) {
+    if (!Array.isArray(value) || typeof value[0] !== "string") continue;
+
+    const { name, version } = parseResolution(value[0]);
+    const workspacePath = version.startsWith("workspace:")
+      ? version.slice("workspace:".length)
+      : undefined;
+
+    pending.set(key, {
+      // Registry entries keep metadata third, git and tarball entries second.
+      dependencies: readDependencies(
+        workspacePath === undefined
+          ? value.slice(1).find((item) => isObject(item))
+          : workspaces[workspacePath],
+      ),
+      integrity: typeof value[3] === "string" ? value[3] : undefined,
+      key,
+      name,
+      registry: typeof value[1] === "string" && value[1].length > 0 ? value[1] : undefined,
+      version,
+      workspacePath,
+    });
+  }
+
+  const rootWorkspace = workspaces[""];
+  pending.set(BUN_LOCK_ROOT_KEY, {
+    dependencies: readDependencies(rootWorkspace),
+    key: BUN_LOCK_ROOT_KEY,
+    name:
+      isObject(rootWorkspace) && typeof rootWorkspace.name === "string"
+        ? rootWorkspace.name
+        : "root",
+    version: "",
+    workspacePath: "",
+  });
+
+  const resolveKey = (scope: readonly string[], name: string): string | undefined => {
+    for (let depth = scope.length; depth >= 0; depth -= 1) {
+      const key = [...scope.slice(0, depth), name].join("/");
+      if (key !== BUN_LOCK_ROOT_KEY && pending.has(key)) return key;
+    }
+
+    return undefined;
+  };
+
+  const nodes = new Map<string, BunLockNode>();
+  for (const [key, { dependencies, ...node }] of pending) {
+    const scope = key === BUN_LOCK_ROOT_KEY ? [] : splitPackageKey(key);
+    nodes.set(key, {
+      ...node,
+      edges: dependencies.flatMap((dependency) => {
+        const resolved = resolveKey(scope, dependency.name);
+        return resolved === undefined ? [] : [{ ...dependency, key: resolved }];
+      }),
+    });
+  }
+
+  return {
+    nodes,
+    workspaces: [...nodes.values()]
+      .filter((node) => node.workspacePath !== undefined && node.workspacePath in workspaces)
+      .map((node) => ({ key: node.key, name: node.name, path: node.workspacePath! }))
+      .sort((left, right) => left.path.localeCompare(right.path)),
+  };
+}
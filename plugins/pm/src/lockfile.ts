@@ -2,6 +2,8 @@ import { constants } from "node:fs";
 import { access } from "node:fs/promises";
 import { join, relative } from "node:path";
 
+import { parse, printParseErrorCode, type ParseError } from "jsonc-parser";
+
 const FORBIDDEN_LOCKFILE_NAMES = new Set([
   "bun.lockb",
   "package-lock.json",
@@ -58,3 +60,25 @@ export async function assertSupportedBunLockfileProject(projectDir: string): Pro
 export function getBunLockfilePath(projectDir: string): string {
   return join(projectDir, "bun.lock");
 }
+
+/** Parses `bun.lock` text into its top-level object, reporting JSONC errors by offset. */
+export function parseBunLockDocument(
+  raw: string,
+  lockfilePath = "bun.lock",
+): Record<string, unknown> {
+  const errors: ParseError[] = [];
+  const parsed = parse(raw, errors, { allowTrailingComma: true }) as unknown;
+
+  if (errors.length > 0) {
+    const details = errors
+      .map((error) => `${printParseErrorCode(error.error)} at offset ${error.offset}`)
+      .join(", ");
+    throw new Error(`${lockfilePath} contains invalid Bun lockfile JSONC: ${details}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${lockfilePath} must contain a JSON object.`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
@@ -3,6 +3,13 @@ import { resolve } from "node:path";
 
 import { parse, printParseErrorCode, type ParseError } from "jsonc-parser";
 
+import type { LicensePolicyInput } from "./licenses";
+import {
+  loadRegistryConfig,
+  type PmRegistriesConfig,
+  type RegistryConfig,
+  type RegistryEntryInput,
+} from "./registry";
 import {
   DEFAULT_SAFE_LATEST_POLICY,
   type SafeLatestPolicy,
@@ -15,6 +22,8 @@ export const RSE_CONFIG_JSONC_FILE = "rse.config.jsonc";
 export const RSE_CONFIG_FILES = [RSE_CONFIG_FILE, RSE_CONFIG_JSONC_FILE] as const;
 
 export interface PmRseConfig {
+  readonly licenses?: LicensePolicyInput | undefined;
+  readonly registries?: PmRegistriesConfig | undefined;
   readonly safeLatest?: SafeLatestPolicyInput | undefined;
 }
 
@@ -91,6 +100,19 @@ function optionalInstallScriptPolicy(
   );
 }
 
+function parseLicensesConfig(value: unknown): LicensePolicyInput | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new Error("rse.config.json: pm.licenses must be an object when provided.");
+  }
+
+  return {
+    allow: optionalStringArray(value.allow, "rse.config.json: pm.licenses.allow"),
+    deny: optionalStringArray(value.deny, "rse.config.json: pm.licenses.deny"),
+    exceptions: optionalStringArray(value.exceptions, "rse.config.json: pm.licenses.exceptions"),
+  };
+}
+
 function parseSafeLatestConfig(value: unknown): SafeLatestPolicyInput | undefined {
   if (value === undefined) return undefined;
   if (!isObject(value)) {
@@ -140,6 +162,52 @@ function parseSafeLatestConfig(value: unknown): SafeLatestPolicyInput | undefine
   return policy;
 }
 
+function parseRegistryEntry(value: unknown, path: string): RegistryEntryInput {
+  if (typeof value === "string") return value;
+  if (
+    isObject(value) &&
+    typeof value.url === "string" &&
+    (value.token === undefined || typeof value.token === "string")
+  ) {
+    return value.token === undefined ? { url: value.url } : { token: value.token, url: value.url };
+  }
+  throw new Error(`${path} must be a URL string or an object with url and an optional token.`);
+}
+
+function parseRegistriesConfig(value: unknown): PmRegistriesConfig | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new Error("rse.config.json: pm.registries must be an object when provided.");
+  }
+
+  const registries: {
+    default?: RegistryEntryInput;
+    scopes?: Record<string, RegistryEntryInput>;
+  } = {};
+
+  if (value.default !== undefined) {
+    registries.default = parseRegistryEntry(
+      value.default,
+      "rse.config.json: pm.registries.default",
+    );
+  }
+
+  if (value.scopes !== undefined) {
+    if (!isObject(value.scopes)) {
+      throw new Error("rse.config.json: pm.registries.scopes must be an object when provided.");
+    }
+
+    registries.scopes = Object.fromEntries(
+      Object.entries(value.scopes).map(([scope, entry]) => [
+        scope,
+        parseRegistryEntry(entry, `rse.config.json: pm.registries.scopes.${scope}`),
+      ]),
+    );
+  }
+
+  return registries;
+}
+
 export function mergeSafeLatestPolicy(
   configPolicy: SafeLatestPolicyInput | undefined,
   cliPolicy: SafeLatestPolicyInput,
@@ -238,7 +306,18 @@ export async function readOptionalRseConfig(cwd: string): Promise<RseConfig | un
 
   return {
     pm: {
+      licenses: parseLicensesConfig(pm.licenses),
+      registries: parseRegistriesConfig(pm.registries),
       safeLatest: parseSafeLatestConfig(pm.safeLatest),
     },
   };
 }
+
+/** Registry settings from `.npmrc`, `bunfig.toml`, and `pm.registries` in the Rse config at `cwd`. */
+export async function readPmRegistryConfig(
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+): Promise<RegistryConfig> {
+  const config = await readOptionalRseConfig(cwd);
+  return loadRegistryConfig({ cwd, env, registries: config?.pm?.registries });
+}
@@ -1,3 +1,10 @@
+import {
+  DEFAULT_REGISTRY_CONFIG,
+  fetchRegistryPackument,
+  resolvePackageRegistry,
+  type RegistryConfig,
+} from "../registry";
+
 export type SocketSeverity = "low" | "medium" | "high" | "critical";
 
 export interface SafeLatestSocketPolicy {
@@ -400,10 +407,16 @@ export async function resolveSafeLatestFromMetadata(options: {
 
 async function fetchSafeLatestPackageMetadata(
   packageName: string,
-  options?: { readonly refresh?: boolean | undefined },
+  options?: {
+    readonly refresh?: boolean | undefined;
+    readonly registries?: RegistryConfig | undefined;
+  },
 ): Promise<SafeLatestPackageMetadata> {
+  const registries = options?.registries ?? DEFAULT_REGISTRY_CONFIG;
+  const cacheKey = `${resolvePackageRegistry(registries, packageName)}${packageName}`;
+
   if (options?.refresh !== true) {
-    const cached = packageMetadataCache.get(packageName);
+    const cached = packageMetadataCache.get(cacheKey);
 
     if (cached) {
       return cached;
@@ -411,15 +424,7 @@ async function fetchSafeLatestPackageMetadata(
   }
 
   const request = (async () => {
-    const response = await fetch(`https://registry.npmjs.org/${encodeURIComponent(packageName)}`);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to resolve package metadata for "${packageName}" from npm (${response.status}).`,
-      );
-    }
-
-    const payload = (await response.json()) as {
+    const payload = (await fetchRegistryPackument(registries, packageName)) as {
       readonly time?: Record<string, string | undefined> | undefined;
       readonly versions?: Record<string, RegistryPackageVersionMetadata | undefined> | undefined;
       readonly "dist-tags"?: { readonly latest?: string | undefined } | undefined;
@@ -439,7 +444,7 @@ async function fetchSafeLatestPackageMetadata(
   })();
 
   if (options?.refresh !== true) {
-    packageMetadataCache.set(packageName, request);
+    packageMetadataCache.set(cacheKey, request);
   }
 
   return request;
@@ -450,10 +455,12 @@ export async function resolveSafeLatestVersion(options: {
   readonly packageName: string;
   readonly policy?: SafeLatestPolicyInput | undefined;
   readonly refresh?: boolean | undefined;
+  readonly registries?: RegistryConfig | undefined;
   readonly socketChecker?: SocketShallowChecker | undefined;
 }): Promise<SafeUpdateResolution> {
   const metadata = await fetchSafeLatestPackageMetadata(options.packageName, {
     refresh: options.refresh,
+    registries: options.registries,
   });
 
   return resolveSafeLatestFromMetadata({
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseBunLockGraph } from "./lock-graph";
+import { createCycloneDxSbom, createNpmPurl, createSpdxSbom, parseIntegrityHash } from "./sbom";
+
+const LOCKFILE = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": {
+      "name": "demo",
+      "dependencies": { "@demo/lib": "workspace:*", "left": "^1.0.0" },
+    },
+    "packages/lib": {
+      "name": "@demo/lib",
+      "dependencies": { "@scope/right": "^2.0.0" },
+    },
+  },
+  "packages": {
+    "@demo/lib": ["@demo/lib@workspace:packages/lib"],
+    "@scope/right": ["@scope/right@2.0.0", "", {}, "sha512-AAEC"],
+    "left": ["left@1.0.0", "", { "dependencies": { "@scope/right": "^2.0.0" } }, "sha1-/w=="],
+  },
+}
+`;
+
+const OPTIONS = {
+  graph: parseBunLockGraph(LOCKFILE),
+  licenses: new Map([
+    ["@scope/right@2.0.0", "(MIT OR Apache-2.0)"],
+    ["left@1.0.0", "SEE LICENSE IN LICENSE"],
+  ]),
+  rootVersion: "1.2.3",
+  serialNumber: "00000000-0000-4000-8000-000000000000",
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+describe("sbom", () => {
+  test("builds npm purls and hex hashes", () => {
+    expect(createNpmPurl("@scope/right", "2.0.0")).toBe("pkg:npm/%40scope/right@2.0.0");
+    expect(parseIntegrityHash("sha512-AAEC")).toEqual({ algorithm: "SHA-512", hex: "000102" });
+    expect(parseIntegrityHash("md5-AAEC")).toBeUndefined();
+  });
+
+  test("exports CycloneDX components and workspace dependency relationships", () => {
+    const bom = createCycloneDxSbom(OPTIONS);
+
+    expect(bom).toMatchObject({
+      bomFormat: "CycloneDX",
+      serialNumber: "urn:uuid:00000000-0000-4000-8000-000000000000",
+      specVersion: "1.5",
+      metadata: {
+        component: {
+          "bom-ref": "workspace:.",
+          name: "demo",
+          type: "application",
+          version: "1.2.3",
+        },
+      },
+    });
+    expect(bom.components).toEqual([
+      {
+        "bom-ref": "@scope/right@2.0.0",
+        hashes: [{ alg: "SHA-512", content: "000102" }],
+        licenses: [{ expression: "(MIT OR Apache-2.0)" }],
+        name: "@scope/right",
+        purl: "pkg:npm/%40scope/right@2.0.0",
+        type: "library",
+        version: "2.0.0",
+      },
+      {
+        "bom-ref": "left@1.0.0",
+        hashes: [{ alg: "SHA-1", content: "ff" }],
+        licenses: [{ license: { name: "SEE LICENSE IN LICENSE" } }],
+        name: "left",
+        purl: "pkg:npm/left@1.0.0",
+        type: "library",
+        version: "1.0.0",
+      },
+      { "bom-ref": "workspace:packages/lib", name: "@demo/lib", type: "application" },
+    ]);
+    expect(bom.dependencies).toEqual([
+      { dependsOn: [], ref: "@scope/right@2.0.0" },
+      { dependsOn: ["@scope/right@2.0.0"], ref: "left@1.0.0" },
+      { dependsOn: ["left@1.0.0", "workspace:packages/lib"], ref: "workspace:." },
+      { dependsOn: ["@scope/right@2.0.0"], ref: "workspace:packages/lib" },
+    ]);
+  });
+
+  test("exports SPDX packages with checksums, purls, and DEPENDS_ON relationships", () => {
+    const document = createSpdxSbom(OPTIONS);
+    const packages = document.packages as Array<Record<string, unknown>>;
+
+    expect(document).toMatchObject({
+      SPDXID: "SPDXRef-DOCUMENT",
+      dataLicense: "CC0-1.0",
+      documentNamespace: "https://spdx.org/spdxdocs/demo-00000000-0000-4000-8000-000000000000",
+      spdxVersion: "SPDX-2.3",
+    });
+    expect(packages.map((pkg) => [pkg.SPDXID, pkg.licenseDeclared])).toEqual([
+      ["SPDXRef-Package-workspace-.", "NOASSERTION"],
+      ["SPDXRef-Package--scope-right-2.0.0", "(MIT OR Apache-2.0)"],
+      ["SPDXRef-Package-left-1.0.0", "NOASSERTION"],
+      ["SPDXRef-Package-workspace-packages-lib", "NOASSERTION"],
+    ]);
+    expect(packages[1]).toMatchObject({
+      checksums: [{ algorithm: "SHA512", checksumValue: "000102" }],
+      externalRefs: [
+        {
+          referenceCategory: "PACKAGE-MANAGER",
+          referenceLocator: "pkg:npm/%40scope/right@2.0.0",
+          referenceType: "purl",
+        },
+      ],
+    });
+    expect(document.relationships).toEqual([
+      {
+        relatedSpdxElement: "SPDXRef-Package-workspace-.",
+        relationshipType: "DESCRIBES",
+        spdxElementId: "SPDXRef-DOCUMENT",
+      },
+      {
+        relatedSpdxElement: "SPDXRef-Package--scope-right-2.0.0",
+        relationshipType: "DEPENDS_ON",
+        spdxElementId: "SPDXRef-Package-left-1.0.0",
+      },
+      {
+        relatedSpdxElement: "SPDXRef-Package-left-1.0.0",
+        relationshipType: "DEPENDS_ON",
+        spdxElementId: "SPDXRef-Package-workspace-.",
+      },
+      {
+        relatedSpdxElement: "SPDXRef-Package-workspace-packages-lib",
+        relationshipType: "DEPENDS_ON",
+        spdxElementId: "SPDXRef-Package-workspace-.",
+      },
+      {
+        relatedSpdxElement: "SPDXRef-Package--scope-right-2.0.0",
+        relationshipType: "DEPENDS_ON",
+        spdxElementId: "SPDXRef-Package-workspace-packages-lib",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+import { parseLicenseExpression } from "./licenses";
+import type { BunLockGraph, BunLockNode } from "./lock-graph";
+
+export type SbomFormat = "cyclonedx" | "spdx";
+
+export const SBOM_FORMATS: readonly SbomFormat[] = ["cyclonedx", "spdx"];
+
+export interface SbomOptions {
+  readonly graph: BunLockGraph;
+  /** Declared licenses keyed by `name@version`. */
+  readonly licenses: ReadonlyMap<string, string | undefined>;
+  /** Version of the root package, which `bun.lock` does not record. */
+  readonly rootVersion?: string | undefined;
+  readonly serialNumber: string;
+  readonly timestamp: string;
+}
+
+interface SbomPackage {
+  readonly hash?: { readonly algorithm: string; readonly hex: string } | undefined;
+  readonly license?: string | undefined;
+  readonly name: string;
+  readonly purl?: string | undefined;
+  readonly ref: string;
+  readonly version: string;
+  readonly workspacePath?: string | undefined;
+}
+
+const TOOL_NAME = "@reliverse/pm-rse-plugin";
+
+/** Builds `pkg:npm/%40scope/name@1.2.3`; the scope's `@` must be percent-encoded. */
+export function createNpmPurl(name: string, version: string): string {
+  const path = name
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+  return `pkg:npm/${path}@${encodeURIComponent(version)}`;
+}
+
+/** Converts the first hash of a Subresource Integrity string to a hex digest. */
+export function parseIntegrityHash(
+  integrity: string | undefined,
+): { algorithm: "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512"; hex: string } | undefined {
+  const match = integrity?.trim().match(/^(sha1|sha256|sha384|sha512)-([A-Za-z0-9+/=]+)/);
+  if (!match) return undefined;
+
+  const algorithm = (
+    { sha1: "SHA-1", sha256: "SHA-256", sha384: "SHA-384", sha512: "SHA-512" } as const
+  )[match[1] as "sha1" | "sha256" | "sha384" | "sha512"];
+  return { algorithm, hex: Buffer.from(match[2]!, "base64").toString("hex") };
+}
+
+/**
+ * Flattens the lockfile graph into one entry per installed `name@version` and one per workspace.
+ * Workspace refs use their repo-relative path because names are optional and may collide.
+ */
+function collectSbomPackages(options: SbomOptions): {
+  dependencies: ReadonlyMap<string, ReadonlySet<string>>;
+  packages: ReadonlyMap<string, SbomPackage>;
+  root: SbomPackage;
+} {
+  const refs = new Map<string, string>();
+  const packages = new Map<string, SbomPackage>();
+
+  const toPackage = (node: BunLockNode): SbomPackage => {
+    if (node.workspacePath !== undefined) {
+      return {
+        name: node.name,
+        ref: `workspace:${node.workspacePath || "."}`,
+        version: node.workspacePath === "" ? (options.rootVersion ?? "") : "",
+        workspacePath: node.workspacePath,
+      };
+    }
+
+    // Git and tarball resolutions have no registry version a purl could point at.
+    const isRegistryVersion = /^\d+\.\d+\.\d+/.test(node.version);
+    return {
+      hash: parseIntegrityHash(node.integrity),
+      license: options.licenses.get(`${node.name}@${node.version}`),
+      name: node.name,
+      purl: isRegistryVersion ? createNpmPurl(node.name, node.version) : undefined,
+      ref: `${node.name}@${node.version}`,
+      version: node.version,
+    };
+  };
+
+  for (const node of options.graph.nodes.values()) {
+    const pkg = toPackage(node);
+    refs.set(node.key, pkg.ref);
+    if (!packages.has(pkg.ref)) packages.set(pkg.ref, pkg);
+  }
+
+  const dependencies = new Map<string, Set<string>>();
+  for (const node of options.graph.nodes.values()) {
+    const ref = refs.get(node.key)!;
+    const dependsOn = dependencies.get(ref) ?? new Set<string>();
+    dependencies.set(ref, dependsOn);
+
+    for (const edge of node.edges) {
+      const target = refs.get(edge.key);
+      if (target && target !== ref) dependsOn.add(target);
+    }
+  }
+
+  const root = packages.get("workspace:.")!;
+  packages.delete(root.ref);
+
+  return { dependencies, packages, root };
+}
+
+function sortByRef<T extends { ref: string }>(items: Iterable<T>): T[] {
+  return [...items].sort((left, right) => left.ref.localeCompare(right.ref));
+}
+
+/** `license.id` must come from the SPDX list, so anything expression-shaped is an expression. */
+function toCycloneDxLicenses(license: string): unknown[] {
+  return parseLicenseExpression(license)
+    ? [{ expression: license }]
+    : [{ license: { name: license } }];
+}
+
+/** CycloneDX 1.5 JSON with the root workspace as `metadata.component`. */
+export function createCycloneDxSbom(options: SbomOptions): Record<string, unknown> {
+  const { dependencies, packages, root } = collectSbomPackages(options);
+
+  const toComponent = (pkg: SbomPackage) => ({
+    "bom-ref": pkg.ref,
+    type: pkg.workspacePath === undefined ? "library" : "application",
+    name: pkg.name,
+    ...(pkg.version ? { version: pkg.version } : {}),
+    ...(pkg.purl ? { purl: pkg.purl } : {}),
+    ...(pkg.hash ? { hashes: [{ alg: pkg.hash.algorithm, content: pkg.hash.hex }] } : {}),
+    ...(pkg.license ? { licenses: toCycloneDxLicenses(pkg.license) } : {}),
+  });
+
+  return {
+    bomFormat: "CycloneDX",
+    specVersion: "1.5",
+    serialNumber: `urn:uuid:${options.serialNumber}`,
+    version: 1,
+    metadata: {
+      timestamp: options.timestamp,
+      tools: {
+        components: [{ type: "application", name: TOOL_NAME }],
+      },
+      component: toComponent(root),
+    },
+    components: sortByRef(packages.values()).map(toComponent),
+    dependencies: [...dependencies]
+      .map(([ref, dependsOn]) => ({ ref, dependsOn: [...dependsOn].sort() }))
+      .sort((left, right) => left.ref.localeCompare(right.ref)),
+  };
+}
+
+function toSpdxId(ref: string): string {
+  return `SPDXRef-Package-${ref.replace(/[^A-Za-z0-9.-]+/g, "-")}`;
+}
+
+/** SPDX 2.3 JSON; the document describes the root workspace. */
+export function createSpdxSbom(options: SbomOptions): Record<string, unknown> {
+  const { dependencies, packages, root } = collectSbomPackages(options);
+  const ids = new Map<string, string>();
+  const usedIds = new Set<string>();
+
+  for (const pkg of [root, ...sortByRef(packages.values())]) {
+    let id = toSpdxId(pkg.ref);
+    // Sanitizing can map distinct refs to the same id.
+    for (let suffix = 2; usedIds.has(id); suffix += 1) {
+      id = `${toSpdxId(pkg.ref)}-${suffix}`;
+    }
+    ids.set(pkg.ref, id);
+    usedIds.add(id);
+  }
+
+  const toSpdxPackage = (pkg: SbomPackage) => ({
+    SPDXID: ids.get(pkg.ref)!,
+    name: pkg.name,
+    ...(pkg.version ? { versionInfo: pkg.version } : {}),
+    downloadLocation: "NOASSERTION",
+    filesAnalyzed: false,
+    ...(pkg.hash
+      ? {
+          checksums: [
+            { algorithm: pkg.hash.algorithm.replace("-", ""), checksumValue: pkg.hash.hex },
+          ],
+        }
+      : {}),
+    licenseConcluded: "NOASSERTION",
+    licenseDeclared:
+      pkg.license && parseLicenseExpression(pkg.license) ? pkg.license : "NOASSERTION",
+    copyrightText: "NOASSERTION",
+    ...(pkg.purl
+      ? {
+          externalRefs: [
+            {
+              referenceCategory: "PACKAGE-MANAGER",
+              referenceLocator: pkg.purl,
+              referenceType: "purl",
+            },
+          ],
+        }
+      : {}),
+  });
+
+  return {
+    spdxVersion: "SPDX-2.3",
+    dataLicense: "CC0-1.0",
+    SPDXID: "SPDXRef-DOCUMENT",
+    name: root.name,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(root.name)}-${options.serialNumber}`,
+    creationInfo: {
+      created: options.timestamp,
+      creators: [`Tool: ${TOOL_NAME}`],
+    },
+    packages: [root, ...sortByRef(packages.values())].map(toSpdxPackage),
+    relationships: [
+      {
+        spdxElementId: "SPDXRef-DOCUMENT",
+        relationshipType: "DESCRIBES",
+        relatedSpdxElement: ids.get(root.ref)!,
+      },
+      ...[...dependencies]
+        .sort(([left], [right]) => left.localeCompare(right))
+        .flatMap(([ref, dependsOn]) =>
+          [...dependsOn].sort().map((target) => ({
+            spdxElementId: ids.get(ref)!,
+            relationshipType: "DEPENDS_ON",
+            relatedSpdxElement: ids.get(target)!,
+          })),
+        ),
+    ],
+  };
+}
@@ -3,7 +3,9 @@ import { mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
+import { loadAdvisoryDatabase } from "./audit";
 import { getBunLockfilePath } from "./lockfile";
+import { DEFAULT_REGISTRY_CONFIG } from "./registry";
 import { parseBunLockPackages, verifyBunLock } from "./verify-lock";
 
 async function withTempProject<T>(callback: (dir: string) => Promise<T>): Promise<T> {
@@ -138,4 +140,97 @@ describe("Bun lockfile verification", () => {
       ]);
     });
   });
+
+  test("reports packages resolved from a registry other than their scope's", async () => {
+    await withTempProject(async (dir) => {
+      await writeFile(
+        getBunLockfilePath(dir),
+        `{
+          "lockfileVersion": 1,
+          "packages": {
+            "@company/ui": ["@company/ui@1.0.0", "", {}, "sha512-public"],
+            "@company/utils": ["@company/utils@2.0.0", "https://npm.company.dev/@company/utils/-/utils-2.0.0.tgz", {}, "sha512-private"],
+            "demo": ["demo@1.0.0", "", {}, "sha512-demo"]
+          }
+        }`,
+        "utf8",
+      );
+
+      const result = await verifyBunLock({
+        cwd: dir,
+        registries: {
+          ...DEFAULT_REGISTRY_CONFIG,
+          scopes: { "@company": "https://npm.company.dev/" },
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual([
+        {
+          packageName: "@company/ui",
+          reason: "unexpectedRegistry:https://registry.npmjs.org/",
+          severity: "error",
+          version: "1.0.0",
+        },
+      ]);
+    });
+  });
+
+  test("reports local advisories at or above the severity threshold", async () => {
+    await withTempProject(async (dir) => {
+      const databasePath = join(dir, "advisories.json");
+      await writeFile(
+        getBunLockfilePath(dir),
+        `{
+          "lockfileVersion": 1,
+          "packages": {
+            "demo": ["demo@1.0.0", "", {}, "sha512-demo"],
+            "minor": ["minor@3.0.0", "", {}, "sha512-minor"]
+          }
+        }`,
+        "utf8",
+      );
+      await writeFile(
+        databasePath,
+        JSON.stringify([
+          {
+            id: "GHSA-demo",
+            database_specific: { severity: "CRITICAL" },
+            affected: [
+              {
+                package: { ecosystem: "npm", name: "demo" },
+                ranges: [{ type: "SEMVER", events: [{ introduced: "0" }, { fixed: "1.0.1" }] }],
+              },
+            ],
+          },
+          {
+            id: "GHSA-minor",
+            database_specific: { severity: "LOW" },
+            affected: [{ package: { ecosystem: "npm", name: "minor" }, versions: ["3.0.0"] }],
+          },
+        ]),
+        "utf8",
+      );
+
+      const result = await verifyBunLock({
+        advisoryDatabase: await loadAdvisoryDatabase(databasePath),
+        cwd: dir,
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.advisories).toEqual({
+        database: databasePath,
+        findings: 2,
+        severityThreshold: "high",
+      });
+      expect(result.issues).toEqual([
+        {
+          packageName: "demo",
+          reason: "advisory:GHSA-demo:critical",
+          severity: "error",
+          version: "1.0.0",
+        },
+      ]);
+    });
+  });
 });
@@ -1,10 +1,11 @@
 import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 
-import { parse, printParseErrorCode, type ParseError } from "jsonc-parser";
 import pMap from "p-map";
 
-import { getBunLockfilePath } from "./lockfile";
+import { auditBunLockPackages, meetsSeverityThreshold, type AdvisoryDatabase } from "./audit";
+import { getBunLockfilePath, parseBunLockDocument } from "./lockfile";
+import { resolvePackageRegistry, toNerfDart, type RegistryConfig } from "./registry";
 import {
   defaultSocketShallowChecker,
   type SocketSeverity,
@@ -15,6 +16,8 @@ import {
 export interface BunLockPackage {
   readonly integrity?: string | undefined;
   readonly name: string;
+  /** Registry or tarball URL; undefined when Bun resolved it from the default registry. */
+  readonly registry?: string | undefined;
   readonly resolution: string;
   readonly version: string;
 }
@@ -27,6 +30,14 @@ export interface VerifyLockIssue {
 }
 
 export interface VerifyLockResult {
+  readonly advisories?:
+    | {
+        readonly database: string;
+        /** Findings at any severity; only those at or above the threshold become issues. */
+        readonly findings: number;
+        readonly severityThreshold: SocketSeverity;
+      }
+    | undefined;
   readonly checkedPackages: number;
   readonly lockfilePath: string;
   readonly ok: boolean;
@@ -43,6 +54,7 @@ export interface VerifyLockResult {
 
 interface BunLockPackageEntry {
   readonly integrity?: string | undefined;
+  readonly registry?: string | undefined;
   readonly resolution: string;
 }
 
@@ -78,28 +90,15 @@ function parseBunLockPackageEntry(value: unknown): BunLockPackageEntry | null {
   const resolution = value[0];
   if (typeof resolution !== "string") return null;
   const integrity = typeof value[3] === "string" ? value[3] : undefined;
-  return { integrity, resolution };
+  const registry = typeof value[1] === "string" && value[1].length > 0 ? value[1] : undefined;
+  return { integrity, registry, resolution };
 }
 
 export function parseBunLockPackages(
   raw: string,
   lockfilePath = "bun.lock",
 ): readonly BunLockPackage[] {
-  const errors: ParseError[] = [];
-  const parsed = parse(raw, errors, { allowTrailingComma: true }) as unknown;
-
-  if (errors.length > 0) {
-    const details = errors
-      .map((error) => `${printParseErrorCode(error.error)} at offset ${error.offset}`)
-      .join(", ");
-    throw new Error(`${lockfilePath} contains invalid Bun lockfile JSONC: ${details}`);
-  }
-
-  if (!isObject(parsed)) {
-    throw new Error(`${lockfilePath} must contain a JSON object.`);
-  }
-
-  const packages = parsed.packages;
+  const packages = parseBunLockDocument(raw, lockfilePath).packages;
   if (!isObject(packages)) {
     throw new Error(`${lockfilePath} must contain a packages object.`);
   }
@@ -119,6 +118,7 @@ export function parseBunLockPackages(
     resolved.set(key, {
       integrity: entry.integrity,
       name: parsedResolution.name,
+      registry: entry.registry,
       resolution: entry.resolution,
       version: parsedResolution.version,
     });
@@ -152,9 +152,24 @@ function formatSocketAlerts(
     .join(", ");
 }
 
+/**
+ * Whether a package was resolved from the registry configured for its scope. A mismatch on a
+ * scoped package usually means a public package shadowed a private one.
+ */
+function isFromExpectedRegistry(pkg: BunLockPackage, registries: RegistryConfig): boolean {
+  const expected = toNerfDart(resolvePackageRegistry(registries, pkg.name));
+  const actual = toNerfDart(pkg.registry ?? registries.defaultRegistry);
+  return actual.startsWith(expected);
+}
+
 export async function verifyBunLock(options: {
+  /** Local OSV advisories checked against every resolved package. */
+  readonly advisoryDatabase?: AdvisoryDatabase | undefined;
+  readonly advisorySeverityThreshold?: SocketSeverity | undefined;
   readonly concurrency?: number | undefined;
   readonly cwd: string;
+  /** Check each package came from the registry configured for its scope. */
+  readonly registries?: RegistryConfig | undefined;
   readonly requireSocket?: boolean | undefined;
   readonly socket?: boolean | undefined;
   readonly socketChecker?: SocketShallowChecker | undefined;
@@ -177,6 +192,31 @@ export async function verifyBunLock(options: {
         version: pkg.version,
       });
     }
+
+    if (options.registries && !isFromExpectedRegistry(pkg, options.registries)) {
+      issues.push({
+        packageName: pkg.name,
+        reason: `unexpectedRegistry:${pkg.registry ?? options.registries.defaultRegistry}`,
+        severity: "error",
+        version: pkg.version,
+      });
+    }
+  }
+
+  const advisorySeverityThreshold = options.advisorySeverityThreshold ?? "high";
+  const advisoryFindings = options.advisoryDatabase
+    ? auditBunLockPackages(options.advisoryDatabase, packages)
+    : [];
+
+  for (const finding of advisoryFindings) {
+    if (meetsSeverityThreshold(finding.severity, advisorySeverityThreshold)) {
+      issues.push({
+        packageName: finding.packageName,
+        reason: `advisory:${finding.advisoryId}:${finding.severity}`,
+        severity: "error",
+        version: finding.version,
+      });
+    }
   }
 
   if (socketEnabled) {
@@ -213,6 +253,13 @@ export async function verifyBunLock(options: {
   }
 
   const result: VerifyLockResult = {
+    advisories: options.advisoryDatabase
+      ? {
+          database: options.advisoryDatabase.path,
+          findings: advisoryFindings.length,
+          severityThreshold: advisorySeverityThreshold,
+        }
+      : undefined,
     checkedPackages: packages.length,
     lockfilePath: resolve(lockfilePath),
     ok: issues.every((issue) => issue.severity !== "error"),
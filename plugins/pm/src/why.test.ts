@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+
+import { findBunLockDependencyChains } from "./why";
+
+const LOCKFILE = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": {
+      "name": "demo",
+      "devDependencies": { "tool": "^1.0.0" },
+    },
+    "packages/app": {
+      "name": "@demo/app",
+      "dependencies": { "@demo/lib": "workspace:*", "legacy": "^1.0.0" },
+    },
+    "packages/lib": {
+      "name": "@demo/lib",
+      "dependencies": { "color": "^2.0.0" },
+    },
+  },
+  "packages": {
+    "@demo/app": ["@demo/app@workspace:packages/app"],
+    "@demo/lib": ["@demo/lib@workspace:packages/lib"],
+    "color": ["color@2.1.0", "", { "dependencies": { "cycle": "^1.0.0" } }, "sha512-color"],
+    "cycle": ["cycle@1.0.0", "", { "dependencies": { "color": "^2.0.0" } }, "sha512-cycle"],
+    "legacy": ["legacy@1.0.0", "", { "dependencies": { "color": "^1.0.0" } }, "sha512-legacy"],
+    "legacy/color": ["color@1.4.0", "", {}, "sha512-color1"],
+    "tool": ["tool@1.0.0", "", { "optionalDependencies": { "color": "^2.0.0" } }, "sha512-tool"],
+  },
+}
+`;
+
+function formatChains(result: ReturnType<typeof findBunLockDependencyChains>): string[] {
+  return result.chains.map((chain) =>
+    [
+      chain.workspace.path || ".",
+      ...chain.steps.map((step) => `${step.name}@${step.version}:${step.section}`),
+    ].join(" > "),
+  );
+}
+
+describe("findBunLockDependencyChains", () => {
+  test("lists chains from every workspace, resolving nested copies before hoisted ones", () => {
+    const result = findBunLockDependencyChains(LOCKFILE, { packageName: "color" });
+
+    expect(result.matches).toEqual([
+      { name: "color", version: "1.4.0" },
+      { name: "color", version: "2.1.0" },
+    ]);
+    expect(formatChains(result)).toEqual([
+      ". > tool@1.0.0:devDependencies > color@2.1.0:optionalDependencies",
+      "packages/app > @demo/lib@workspace:packages/lib:dependencies > color@2.1.0:dependencies",
+      "packages/app > legacy@1.0.0:dependencies > color@1.4.0:dependencies",
+      "packages/lib > color@2.1.0:dependencies",
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  test("filters by version, follows cycles once, and truncates long listings", () => {
+    const legacy = findBunLockDependencyChains(LOCKFILE, {
+      packageName: "color",
+      version: "1.4.0",
+    });
+    expect(formatChains(legacy)).toEqual([
+      "packages/app > legacy@1.0.0:dependencies > color@1.4.0:dependencies",
+    ]);
+
+    expect(formatChains(findBunLockDependencyChains(LOCKFILE, { packageName: "cycle" }))).toEqual([
+      ". > tool@1.0.0:devDependencies > color@2.1.0:optionalDependencies > cycle@1.0.0:dependencies",
+      "packages/app > @demo/lib@workspace:packages/lib:dependencies > color@2.1.0:dependencies > cycle@1.0.0:dependencies",
+      "packages/lib > color@2.1.0:dependencies > cycle@1.0.0:dependencies",
+    ]);
+
+    const limited = findBunLockDependencyChains(LOCKFILE, { maxChains: 1, packageName: "color" });
+    expect(limited.chains).toHaveLength(1);
+    expect(limited.truncated).toBe(true);
+
+    expect(findBunLockDependencyChains(LOCKFILE, { packageName: "missing" }).matches).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import type { DependencySection } from "./lib";
+import { BUN_LOCK_ROOT_KEY, parseBunLockGraph, type BunLockNode } from "./lock-graph";
+import { getBunLockfilePath } from "./lockfile";
+
+/** One hop in a dependency chain: the package a parent's dependency resolved to. */
+export interface WhyStep {
+  /** Key in `bun.lock` `packages`; nested keys like `a/b` mark a copy installed under `a`. */
+  readonly key: string;
+  readonly name: string;
+  readonly section: DependencySection;
+  readonly specifier: string;
+  readonly version: string;
+}
+
+export interface WhyChain {
+  readonly steps: readonly WhyStep[];
+  readonly workspace: {
+    readonly name: string;
+    readonly path: string;
+  };
+}
+
+export interface WhyResult {
+  readonly chains: readonly WhyChain[];
+  readonly lockfilePath: string;
+  /** Installed copies matching the query, one per distinct version. */
+  readonly matches: readonly { readonly name: string; readonly version: string }[];
+  readonly packageName: string;
+  /** More than `maxChains` chains exist; only the first ones are listed. */
+  readonly truncated: boolean;
+  readonly version?: string | undefined;
+}
+
+const DEFAULT_MAX_CHAINS = 200;
+
+/**
+ * Lists every dependency chain in a `bun.lock` document from a workspace package to the queried
+ * package, stopping each chain at the first match and skipping cycles.
+ */
+export function findBunLockDependencyChains(
+  raw: string,
+  options: {
+    readonly lockfilePath?: string | undefined;
+    readonly maxChains?: number | undefined;
+    readonly packageName: string;
+    readonly version?: string | undefined;
+  },
+): Omit<WhyResult, "lockfilePath"> {
+  const { nodes, workspaces } = parseBunLockGraph(raw, options.lockfilePath);
+  const maxChains = options.maxChains ?? DEFAULT_MAX_CHAINS;
+  const isTarget = (node: BunLockNode) =>
+    node.name === options.packageName &&
+    (options.version === undefined || node.version === options.version);
+
+  const dependents = new Map<string, string[]>();
+  for (const [key, node] of nodes) {
+    for (const edge of node.edges) {
+      const list = dependents.get(edge.key);
+      if (list) list.push(key);
+      else dependents.set(edge.key, [key]);
+    }
+  }
+
+  // Walking back from the matches first keeps the chain search from exploring unrelated subtrees.
+  const targetKeys = [...nodes].filter(
+    ([key, node]) => key !== BUN_LOCK_ROOT_KEY && isTarget(node),
+  );
+  const reaching = new Set(targetKeys.map(([key]) => key));
+  const queue = [...reaching];
+  while (queue.length > 0) {
+    for (const dependent of dependents.get(queue.pop()!) ?? []) {
+      if (!reaching.has(dependent)) {
+        reaching.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  const chains: WhyChain[] = [];
+  let truncated = false;
+
+  for (const workspace of workspaces) {
+    const visiting = new Set([workspace.key]);
+    const steps: WhyStep[] = [];
+
+    const walk = (key: string): void => {
+      for (const edge of nodes.get(key)!.edges) {
+        if (truncated || !reaching.has(edge.key) || visiting.has(edge.key)) continue;
+
+        const node = nodes.get(edge.key)!;
+        steps.push({
+          key: edge.key,
+          name: node.name,
+          section: edge.section,
+          specifier: edge.specifier,
+          version: node.version,
+        });
+
+        if (isTarget(node)) {
+          if (chains.length === maxChains) {
+            truncated = true;
+          } else {
+            chains.push({
+              steps: [...steps],
+              workspace: { name: workspace.name, path: workspace.path },
+            });
+          }
+        } else {
+          visiting.add(edge.key);
+          walk(edge.key);
+          visiting.delete(edge.key);
+        }
+
+        steps.pop();
+      }
+    };
+
+    walk(workspace.key);
+  }
+
+  const matches = new Map(
+    targetKeys.map(([, node]) => [node.version, { name: node.name, version: node.version }]),
+  );
+
+  return {
+    chains,
+    matches: [...matches.values()].sort((left, right) =>
+      left.version.localeCompare(right.version, undefined, { numeric: true }),
+    ),
+    packageName: options.packageName,
+    truncated,
+    version: options.version,
+  };
+}
+
+export async function explainBunLockDependency(options: {
+  readonly cwd: string;
+  readonly maxChains?: number | undefined;
+  readonly packageName: string;
+  readonly version?: string | undefined;
+}): Promise<WhyResult> {
+  const lockfilePath = getBunLockfilePath(options.cwd);
+  const raw = await readFile(lockfilePath, "utf8");
+
+  return {
+    ...findBunLockDependencyChains(raw, { ...options, lockfilePath }),
+    lockfilePath: resolve(lockfilePath),
+  };
+}
@@ -11,6 +11,7 @@ export default defineCommand({
       "rse rempts commands doctor --json",
       "rse rempts commands explain build",
       "rse rempts commands ownership",
+      "rse rempts commands docs --out apps/wiki/content/docs/rse/commands --check",
     ],
   },
   async handler() {
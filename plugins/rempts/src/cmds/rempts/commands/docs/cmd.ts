@@ -0,0 +1,138 @@
+import { relative, resolve } from "node:path";
+
+import {
+  defineCommand,
+  generateCommandReference,
+  syncCommandReference,
+  type CommandReferenceFormat,
+} from "@reliverse/rempts";
+
+import { getRemptsTargetOptions } from "../../../../lib/target-cli";
+
+export default defineCommand({
+  meta: {
+    name: "docs",
+    description:
+      "Generate Markdown/MDX reference pages and man pages from the merged command tree.",
+  },
+  agent: {
+    notes:
+      "Run with --check in CI to fail when committed reference docs drift from the command tree. Without --apply, the command only reports which files would change.",
+  },
+  conventions: {
+    idempotent: true,
+    supportsApply: true,
+  },
+  safety: {
+    defaultMode: "preview",
+    requiresApply: true,
+    effects: ["fs.write", "fs.delete"],
+  },
+  help: {
+    examples: [
+      "rse rempts commands docs --out apps/wiki/content/docs/rse/commands",
+      "rse rempts commands docs --out apps/wiki/content/docs/rse/commands --apply",
+      "rse rempts commands docs --out docs/cli --format md --man --apply",
+      "rse rempts commands docs --out apps/wiki/content/docs/rse/commands --check",
+    ],
+    text: "Writes one page per command with frontmatter for the wiki docs source, including plugin ownership, safety effects, examples, and option tables. Generated files carry a marker; marked files for commands that no longer exist are removed on --apply.",
+  },
+  options: {
+    out: {
+      type: "string",
+      description: "Output directory for generated reference docs.",
+      inputSources: ["flag", "config"],
+      required: true,
+    },
+    format: {
+      type: "string",
+      choices: ["mdx", "md"],
+      defaultValue: "mdx",
+      description: "Page format. MDX matches the apps/wiki docs source.",
+    },
+    man: {
+      type: "boolean",
+      description: "Also write roff man pages under <out>/man.",
+    },
+    check: {
+      type: "boolean",
+      description: "Exit with code 1 when generated docs are missing, stale, or orphaned.",
+      inputSources: ["flag"],
+    },
+  },
+  async handler(ctx) {
+    if (getRemptsTargetOptions(ctx.options).cli) {
+      ctx.exit(1, "Reference docs can only be generated for the current CLI session, not --cli.");
+    }
+
+    const commandTree =
+      ctx.cli?.commandTree ??
+      ctx.exit(1, "Command-tree diagnostics are unavailable in this CLI session.");
+    const loadHelpDocument =
+      ctx.cli?.loadHelpDocument ??
+      ctx.exit(1, "Help documents are unavailable in this CLI session.");
+    const outDir = resolve(ctx.cwd, ctx.options.out);
+    const files = await generateCommandReference({
+      commandTree,
+      format: ctx.options.format as CommandReferenceFormat,
+      loadHelpDocument,
+      man: ctx.options.man === true,
+    });
+    const check = ctx.options.check === true;
+    // --check never writes, even alongside --apply.
+    const apply = !check && ctx.safety.apply;
+    const result = await syncCommandReference(files, { check: !apply, outDir });
+    const upToDate = result.stale.length === 0 && result.orphaned.length === 0;
+    const payload = {
+      apply,
+      files: files.map((file) => ({ kind: file.kind, path: file.path })),
+      orphaned: result.orphaned,
+      outDir,
+      stale: result.stale,
+      upToDate,
+      written: result.written,
+    };
+
+    if (ctx.output.mode === "json") {
+      if (check && !upToDate) {
+        ctx.output.problem({
+          code: "REMPTS_DOCS_STALE",
+          hint: "Re-run without --check and with --apply to regenerate the reference docs.",
+          kind: "validation",
+          message: `Reference docs in ${relative(ctx.cwd, outDir) || "."} are out of date.`,
+          ok: false,
+          relatedCommand: "rempts commands docs",
+          remptsError: 1,
+          schemaVersion: 1,
+        });
+        ctx.exit(1);
+      }
+
+      ctx.output.result(payload, "rempts commands docs");
+      return;
+    }
+
+    const display = (path: string) => relative(ctx.cwd, resolve(outDir, path)) || path;
+
+    if (upToDate) {
+      ctx.out(`Reference docs are up to date (${files.length} files).`);
+      return;
+    }
+
+    const verb = apply ? "Wrote" : "Would write";
+    for (const path of result.stale) {
+      ctx.out(`${check ? "Stale" : verb}: ${display(path)}`);
+    }
+    for (const path of result.orphaned) {
+      ctx.out(`${check ? "Orphaned" : apply ? "Removed" : "Would remove"}: ${display(path)}`);
+    }
+
+    if (check) {
+      ctx.exit(1, "Reference docs are out of date. Re-run with --apply to regenerate them.");
+    }
+
+    if (!apply) {
+      ctx.out("Preview only. Pass --apply to write the reference docs.");
+    }
+  },
+});
@@ -1,8 +1,11 @@
 import {
   defineCommand,
+  describeOptionSources,
+  getCommandConfigValues,
   type CommandTreeNodeDiagnostic,
   type CommandTreeReport,
   type PluginDiscoveryLoadedPlugin,
+  type OptionSourceEntry,
   type PluginDiscoveryReport,
 } from "@reliverse/rempts";
 
@@ -23,6 +26,17 @@ function findNode(
   );
 }
 
+function formatOptionSource(entry: OptionSourceEntry): string {
+  if (!entry.source) {
+    return entry.env ? `(unset, env ${entry.env})` : "(unset)";
+  }
+
+  const value = typeof entry.value === "string" ? entry.value : JSON.stringify(entry.value);
+  const detail = entry.source === "env" && entry.env ? ` ${entry.env}` : "";
+
+  return `${value} (${entry.source}${detail})`;
+}
+
 function buildPluginMap(
   report: PluginDiscoveryReport | undefined,
 ): Map<string, PluginDiscoveryLoadedPlugin> {
@@ -40,7 +54,7 @@ export default defineCommand({
       "rse rempts commands explain rempts/plugins/list",
       "rse rempts commands explain build --cli rse --json",
     ],
-    text: "Pass a command path as space-separated args or a slash-separated path.",
+    text: "Pass a command path as space-separated args or a slash-separated path. For the current CLI, option values are traced to env, config, or default (flags rank above all three).",
   },
   async handler(ctx) {
     const path = parsePath(ctx.args);
@@ -75,6 +89,14 @@ export default defineCommand({
     }
     const resolvedNode = node!;
 
+    // Option definitions and project config are only known in-process, not for --cli targets.
+    const optionSources = targetOptions.cli
+      ? undefined
+      : describeOptionSources(await ctx.cli?.loadCommandOptions?.(path), {
+          config: getCommandConfigValues(ctx.cli?.optionConfig, path),
+          env: ctx.env,
+        });
+
     const pluginMap = buildPluginMap(pluginDiscovery);
     const chosenPlugin =
       resolvedNode.chosenCommand?.sourceKind === "plugin"
@@ -83,6 +105,8 @@ export default defineCommand({
     const payload = {
       availableSubcommands: resolvedNode.availableSubcommands,
       chosenCommand: resolvedNode.chosenCommand,
+      configFile: targetOptions.cli ? undefined : ctx.cli?.optionConfig?.filePath,
+      optionSources,
       path,
       precedenceReason: chosenPlugin?.priorityMatch
         ? `${chosenPlugin.priorityMatch.kind}:${chosenPlugin.priorityMatch.rule}@${chosenPlugin.priorityMatch.index}`
@@ -113,6 +137,14 @@ export default defineCommand({
     if (resolvedNode.availableSubcommands.length > 0) {
       ctx.out(`Available subcommands: ${resolvedNode.availableSubcommands.join(", ")}`);
     }
+    if (optionSources && optionSources.length > 0) {
+      ctx.out(
+        `Option sources${payload.configFile ? ` (config: ${payload.configFile})` : ""}, precedence flag > env > config > default:`,
+      );
+      for (const entry of optionSources) {
+        ctx.out(`- ${entry.flagName}: ${formatOptionSource(entry)}`);
+      }
+    }
     const merged = resolvedNode.subcommandDiagnostics.filter((entry) => entry.sources.length > 1);
     if (merged.length > 0) {
       ctx.out("Merged subcommand ownership:");